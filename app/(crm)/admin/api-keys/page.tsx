@@ -0,0 +1,10 @@
+import { Suspense } from "react";
+import { ApiKeyManager } from "@/components/api-keys/api-key-manager";
+
+export default function ApiKeysAdminPage() {
+  return (
+    <Suspense fallback={<div className="rounded-xl border border-slate-200 bg-white p-6 text-sm text-slate-500 shadow-sm">Loading API keys…</div>}>
+      <ApiKeyManager />
+    </Suspense>
+  );
+}
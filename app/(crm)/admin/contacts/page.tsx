@@ -0,0 +1,10 @@
+import { Suspense } from "react";
+import { ContactMergeManager } from "@/components/contacts/contact-merge-manager";
+
+export default function ContactMergeAdminPage() {
+  return (
+    <Suspense fallback={<div className="rounded-xl border border-slate-200 bg-white p-6 text-sm text-slate-500 shadow-sm">Loading contact merge…</div>}>
+      <ContactMergeManager />
+    </Suspense>
+  );
+}
@@ -0,0 +1,10 @@
+import { Suspense } from "react";
+import { DigestManager } from "@/components/digests/digest-manager";
+
+export default function DigestsAdminPage() {
+  return (
+    <Suspense fallback={<div className="rounded-xl border border-slate-200 bg-white p-6 text-sm text-slate-500 shadow-sm">Loading digests…</div>}>
+      <DigestManager />
+    </Suspense>
+  );
+}
@@ -0,0 +1,10 @@
+import { Suspense } from "react";
+import { GazetteerManager } from "@/components/geo/gazetteer-manager";
+
+export default function GazetteerAdminPage() {
+  return (
+    <Suspense fallback={<div className="rounded-xl border border-slate-200 bg-white p-6 text-sm text-slate-500 shadow-sm">Loading gazetteer…</div>}>
+      <GazetteerManager />
+    </Suspense>
+  );
+}
@@ -0,0 +1,10 @@
+import { Suspense } from "react";
+import { FileImportWizard } from "@/components/imports/file-import-wizard";
+
+export default function FileImportAdminPage() {
+  return (
+    <Suspense fallback={<div className="rounded-xl border border-slate-200 bg-white p-6 text-sm text-slate-500 shadow-sm">Loading file import…</div>}>
+      <FileImportWizard />
+    </Suspense>
+  );
+}
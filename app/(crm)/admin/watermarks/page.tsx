@@ -0,0 +1,10 @@
+import { Suspense } from "react";
+import { WatermarkSettingsManager } from "@/components/media/watermark-settings-manager";
+
+export default function WatermarkAdminPage() {
+  return (
+    <Suspense fallback={<div className="rounded-xl border border-slate-200 bg-white p-6 text-sm text-slate-500 shadow-sm">Loading watermarks…</div>}>
+      <WatermarkSettingsManager />
+    </Suspense>
+  );
+}
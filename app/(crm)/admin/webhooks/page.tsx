@@ -0,0 +1,10 @@
+import { Suspense } from "react";
+import { WebhookManager } from "@/components/webhooks/webhook-manager";
+
+export default function WebhooksAdminPage() {
+  return (
+    <Suspense fallback={<div className="rounded-xl border border-slate-200 bg-white p-6 text-sm text-slate-500 shadow-sm">Loading webhooks…</div>}>
+      <WebhookManager />
+    </Suspense>
+  );
+}
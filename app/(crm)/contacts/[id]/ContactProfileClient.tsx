@@ -0,0 +1,175 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import { useAuth } from "@/hooks/use-auth";
+import { ContactChannelsEditor } from "@/components/contacts/contact-channels-editor";
+import type { ContactChannel } from "@/lib/contact-channels";
+
+type RecordTable = "properties_sale" | "properties_rent" | "buyers" | "clients";
+
+type ContactProfile = {
+  contact: { id: string; name: string; phone: string | null; created_at: string; updated_at: string; channels: ContactChannel[] };
+  records: Record<RecordTable, Array<Record<string, any>>>;
+  intake_sessions: Array<Record<string, any>>;
+  tasks: Array<{ id: string; title: string; status: string; due_date: string | null; created_at: string }>;
+  timeline: Array<{ id: string; source: "timeline" | "intake" | "task"; record_type: string; record_id: string; record_code: string | null; action: string; created_at: string }>;
+};
+
+const SECTIONS: Array<{ table: RecordTable; label: string; path: string }> = [
+  { table: "properties_sale", label: "Sale listings", path: "/sale" },
+  { table: "properties_rent", label: "Rent listings", path: "/rent" },
+  { table: "buyers", label: "Buyer requests", path: "/buyers" },
+  { table: "clients", label: "Client rows", path: "/clients" }
+];
+
+const PATH_BY_RECORD_TYPE: Record<string, string> = {
+  properties_sale: "/sale",
+  properties_rent: "/rent",
+  buyers: "/buyers",
+  clients: "/clients"
+};
+
+function rel(date: string | null) {
+  if (!date) return "No due date";
+  const diff = new Date(date).getTime() - Date.now();
+  const days = Math.round(diff / (1000 * 60 * 60 * 24));
+  if (days === 0) return "Today";
+  if (days < 0) return `${Math.abs(days)}d overdue`;
+  return `in ${days}d`;
+}
+
+function recordSummary(table: RecordTable, row: Record<string, any>) {
+  if (table === "buyers") {
+    const areas = Array.isArray(row.preferred_areas) ? row.preferred_areas.join(", ") : "";
+    return `${row.intent || "-"} • ${row.budget_min ?? "-"}–${row.budget_max ?? "-"} ${row.currency || ""} • ${areas || "Any area"}`;
+  }
+  if (table === "clients") return `${row.name || "-"} • ${row.role || "-"} • ${row.area || "-"}`;
+  return `${row.price ?? "-"} ${row.currency || ""} • ${row.area || "-"}${row.compound ? ` / ${row.compound}` : ""} • ${row.bedrooms ?? "-"} beds`;
+}
+
+export default function ContactProfileClient() {
+  const params = useParams<{ id: string }>();
+  const { user, loading: authLoading } = useAuth();
+  const isAdmin = (user?.role || "viewer") === "admin";
+  const [profile, setProfile] = useState<ContactProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  async function load() {
+    setLoading(true);
+    setError("");
+    const res = await fetch(`/api/contacts/${params.id}`, { cache: "no-store" });
+    const data = await res.json().catch(() => ({}));
+    if (res.ok) setProfile(data as ContactProfile);
+    else setError(data.error || "Failed to load contact");
+    setLoading(false);
+  }
+
+  useEffect(() => {
+    if (!authLoading && isAdmin) load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [params.id, authLoading, isAdmin]);
+
+  if (authLoading) return <p className="text-sm text-slate-500">Checking permissions...</p>;
+  if (!isAdmin) {
+    return <section className="rounded-xl border border-rose-200 bg-rose-50 p-6 text-sm text-rose-700 shadow-sm">This page is restricted to CRM admins.</section>;
+  }
+  if (loading) return <p className="text-sm text-slate-500">Loading contact...</p>;
+  if (error || !profile) return <p className="text-sm text-rose-600">{error || "Contact not found"}</p>;
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">{profile.contact.name || "Contact"}</h2>
+        <p className="text-xs text-slate-500">Added {new Date(profile.contact.created_at).toLocaleDateString()}</p>
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-3">
+        <div className="space-y-4 lg:col-span-2">
+          {SECTIONS.map((section) => {
+            const rows = profile.records[section.table] || [];
+            return (
+              <div key={section.table} className="rounded-xl border border-slate-200 bg-white p-3">
+                <h3 className="mb-2 text-sm font-semibold uppercase text-slate-700">{section.label} ({rows.length})</h3>
+                <div className="space-y-2">
+                  {rows.map((row) => (
+                    <Link key={row.id} href={`${section.path}?open=${row.id}`} className="block rounded border border-slate-200 p-2 text-sm hover:bg-slate-50">
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium">{row.code || String(row.id).slice(0, 8)}</span>
+                        <span className="text-xs text-slate-500">{row.is_archived ? "archived" : row.status}</span>
+                      </div>
+                      <p className="text-xs text-slate-500">{recordSummary(section.table, row)}</p>
+                    </Link>
+                  ))}
+                  {rows.length === 0 && <p className="text-xs text-slate-500">None.</p>}
+                </div>
+              </div>
+            );
+          })}
+
+          <div className="rounded-xl border border-slate-200 bg-white p-3">
+            <h3 className="mb-2 text-sm font-semibold uppercase text-slate-700">Intake sessions ({profile.intake_sessions.length})</h3>
+            <div className="space-y-2">
+              {profile.intake_sessions.map((session) => (
+                <Link key={session.id} href={`/inbox/${session.id}`} className="block rounded border border-slate-200 p-2 text-sm hover:bg-slate-50">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">{session.type_confirmed || session.type_detected || "Unclassified"}</span>
+                    <span className="text-xs text-slate-500">{session.status} • {new Date(session.created_at).toLocaleDateString()}</span>
+                  </div>
+                  <p className="truncate text-xs text-slate-500">{session.raw_text}</p>
+                </Link>
+              ))}
+              {profile.intake_sessions.length === 0 && <p className="text-xs text-slate-500">None.</p>}
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <div className="rounded-xl border border-slate-200 bg-white p-3">
+            <h3 className="mb-2 text-sm font-semibold uppercase text-slate-700">Channels</h3>
+            <ContactChannelsEditor
+              contact={profile.contact}
+              onSaved={(contact) => setProfile((prev) => (prev ? { ...prev, contact: { ...prev.contact, ...contact, channels: contact.channels || [] } } : prev))}
+            />
+          </div>
+
+          <div className="rounded-xl border border-slate-200 bg-white p-3">
+            <h3 className="mb-2 text-sm font-semibold uppercase text-slate-700">Open tasks ({profile.tasks.length})</h3>
+            <div className="space-y-2">
+              {profile.tasks.map((task) => (
+                <div key={task.id} className="rounded border border-slate-200 p-2 text-sm">
+                  <p className="font-medium">{task.title}</p>
+                  <p className={`text-xs ${task.due_date && new Date(task.due_date).getTime() < Date.now() ? "text-red-600" : "text-slate-500"}`}>{rel(task.due_date)}</p>
+                </div>
+              ))}
+              {profile.tasks.length === 0 && <p className="text-xs text-slate-500">No open tasks.</p>}
+            </div>
+          </div>
+
+          <div className="rounded-xl border border-slate-200 bg-white p-3">
+            <h3 className="mb-2 text-sm font-semibold uppercase text-slate-700">Timeline</h3>
+            <ul className="space-y-2">
+              {profile.timeline.map((entry) => (
+                <li key={entry.id} className="text-xs">
+                  <p className="text-slate-800">{entry.action}</p>
+                  <p className="text-slate-500">
+                    {new Date(entry.created_at).toLocaleString()}
+                    {entry.record_code && PATH_BY_RECORD_TYPE[entry.record_type] && (
+                      <>
+                        {" • "}
+                        <Link href={`${PATH_BY_RECORD_TYPE[entry.record_type]}?open=${entry.record_id}`} className="underline">{entry.record_code}</Link>
+                      </>
+                    )}
+                  </p>
+                </li>
+              ))}
+              {profile.timeline.length === 0 && <p className="text-xs text-slate-500">No activity yet.</p>}
+            </ul>
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,10 @@
+import { Suspense } from "react";
+import ContactProfileClient from "./ContactProfileClient";
+
+export default function Page() {
+  return (
+    <Suspense fallback={<div className="p-6">Loading…</div>}>
+      <ContactProfileClient />
+    </Suspense>
+  );
+}
@@ -0,0 +1,314 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useMemo, useState } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  fetchDealsBoardApi,
+  saveDealStagesApi,
+  updateDealApi,
+  type Deal,
+  type DealStage,
+  type DealStageOutcome
+} from "@/services/api/deals-api.service";
+
+type StageDraft = { key?: string; label: string; outcome: DealStageOutcome };
+
+const outcomeColumnClass: Record<DealStageOutcome, string> = {
+  open: "border-slate-200 bg-slate-50",
+  won: "border-emerald-200 bg-emerald-50",
+  lost: "border-rose-200 bg-rose-50"
+};
+
+function money(value: number | null, currency: string) {
+  if (value === null) return "-";
+  return `${value.toLocaleString()} ${currency}`;
+}
+
+function listingHref(deal: Deal) {
+  return deal.sale_id ? `/sale?open=${deal.sale_id}` : `/rent?open=${deal.rent_id}`;
+}
+
+export default function DealsClient() {
+  const { user, loading: authLoading } = useAuth();
+  const isAdmin = (user?.role || "viewer") === "admin";
+
+  const [stages, setStages] = useState<DealStage[]>([]);
+  const [deals, setDeals] = useState<Deal[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [draggingId, setDraggingId] = useState("");
+  const [dropStage, setDropStage] = useState("");
+  const [selectedId, setSelectedId] = useState("");
+  const [editingStages, setEditingStages] = useState(false);
+  const [stageDrafts, setStageDrafts] = useState<StageDraft[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  async function load() {
+    setLoading(true);
+    setError("");
+    try {
+      const data = await fetchDealsBoardApi();
+      setStages(data.stages);
+      setDeals(data.deals);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Failed to load deals");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    if (!authLoading && isAdmin) load();
+  }, [authLoading, isAdmin]);
+
+  const dealsByStage = useMemo(() => {
+    const map = new Map<string, Deal[]>();
+    stages.forEach((stage) => map.set(stage.key, []));
+    deals.forEach((deal) => map.get(deal.stage_key)?.push(deal));
+    return map;
+  }, [stages, deals]);
+
+  const selected = deals.find((deal) => deal.id === selectedId) || null;
+
+  async function moveDeal(dealId: string, stageKey: string) {
+    const deal = deals.find((item) => item.id === dealId);
+    if (!deal || deal.stage_key === stageKey) return;
+    const previous = deals;
+    setDeals((prev) => prev.map((item) => (item.id === dealId ? { ...item, stage_key: stageKey, stage_changed_at: new Date().toISOString() } : item)));
+    try {
+      const data = await updateDealApi(dealId, { stage_key: stageKey });
+      setDeals((prev) => prev.map((item) => (item.id === dealId ? data.deal : item)));
+    } catch (moveError) {
+      setDeals(previous);
+      setError(moveError instanceof Error ? moveError.message : "Failed to move deal");
+    }
+  }
+
+  async function saveDeal(dealId: string, updates: Parameters<typeof updateDealApi>[1]) {
+    setSaving(true);
+    setError("");
+    try {
+      const data = await updateDealApi(dealId, updates);
+      setDeals((prev) => prev.map((item) => (item.id === dealId ? data.deal : item)));
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : "Failed to save deal");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function saveStages() {
+    setSaving(true);
+    setError("");
+    try {
+      const data = await saveDealStagesApi(stageDrafts);
+      setStages(data.stages);
+      setEditingStages(false);
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : "Failed to save stages");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function moveStageDraft(index: number, delta: number) {
+    setStageDrafts((prev) => {
+      const next = [...prev];
+      const target = index + delta;
+      if (target < 0 || target >= next.length) return prev;
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  }
+
+  if (authLoading) return <p className="text-sm text-slate-500">Checking permissions...</p>;
+  if (!isAdmin) {
+    return <section className="rounded-xl border border-rose-200 bg-rose-50 p-6 text-sm text-rose-700 shadow-sm">This page is restricted to CRM admins.</section>;
+  }
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold">Deals</h2>
+          <p className="text-xs text-slate-500">Drag deals between stages. Start new deals from a buyer&apos;s Matches tab.</p>
+        </div>
+        <button
+          onClick={() => {
+            setStageDrafts(stages.map((stage) => ({ key: stage.key, label: stage.label, outcome: stage.outcome })));
+            setEditingStages((prev) => !prev);
+          }}
+          className="rounded border border-slate-300 px-3 py-1.5 text-xs"
+        >
+          {editingStages ? "Close stages" : "Edit stages"}
+        </button>
+      </div>
+
+      {error && <div className="rounded-lg border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">{error}</div>}
+
+      {editingStages && (
+        <div className="space-y-2 rounded-xl border border-slate-200 bg-white p-3 text-sm">
+          {stageDrafts.map((draft, index) => (
+            <div key={draft.key || `new-${index}`} className="flex items-center gap-2">
+              <input
+                value={draft.label}
+                onChange={(e) => setStageDrafts((prev) => prev.map((item, i) => (i === index ? { ...item, label: e.target.value } : item)))}
+                className="flex-1 rounded border border-slate-300 px-2 py-1"
+              />
+              <select
+                value={draft.outcome}
+                onChange={(e) => setStageDrafts((prev) => prev.map((item, i) => (i === index ? { ...item, outcome: e.target.value as DealStageOutcome } : item)))}
+                className="rounded border border-slate-300 px-2 py-1"
+              >
+                <option value="open">Open</option>
+                <option value="won">Won</option>
+                <option value="lost">Lost</option>
+              </select>
+              <button onClick={() => moveStageDraft(index, -1)} className="rounded border border-slate-300 px-2 py-1 text-xs">↑</button>
+              <button onClick={() => moveStageDraft(index, 1)} className="rounded border border-slate-300 px-2 py-1 text-xs">↓</button>
+              <button onClick={() => setStageDrafts((prev) => prev.filter((_, i) => i !== index))} className="px-1 text-rose-600">×</button>
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <button onClick={() => setStageDrafts((prev) => [...prev, { label: "", outcome: "open" }])} className="rounded border border-slate-300 px-2 py-1 text-xs">
+              Add stage
+            </button>
+            <button disabled={saving} onClick={saveStages} className="rounded bg-slate-900 px-3 py-1 text-xs text-white disabled:opacity-40">
+              {saving ? "Saving…" : "Save stages"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-slate-500">Loading deals...</p>
+      ) : (
+        <div className="flex gap-3 overflow-x-auto pb-2">
+          {stages.map((stage) => {
+            const stageDeals = dealsByStage.get(stage.key) || [];
+            const total = stageDeals.reduce((sum, deal) => sum + (deal.expected_value || 0), 0);
+            return (
+              <div
+                key={stage.key}
+                onDragOver={(e) => {
+                  e.preventDefault();
+                  setDropStage(stage.key);
+                }}
+                onDragLeave={() => setDropStage((prev) => (prev === stage.key ? "" : prev))}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  setDropStage("");
+                  const dealId = e.dataTransfer.getData("text/plain") || draggingId;
+                  if (dealId) moveDeal(dealId, stage.key);
+                }}
+                className={`flex w-64 shrink-0 flex-col rounded-xl border p-2 ${outcomeColumnClass[stage.outcome]} ${dropStage === stage.key ? "ring-2 ring-slate-400" : ""}`}
+              >
+                <div className="mb-2 px-1">
+                  <p className="text-sm font-semibold">{stage.label} ({stageDeals.length})</p>
+                  <p className="text-xs text-slate-500">{total ? total.toLocaleString() : "-"}</p>
+                </div>
+                <div className="min-h-[4rem] space-y-2">
+                  {stageDeals.map((deal) => (
+                    <div
+                      key={deal.id}
+                      draggable
+                      onDragStart={(e) => {
+                        e.dataTransfer.setData("text/plain", deal.id);
+                        setDraggingId(deal.id);
+                      }}
+                      onDragEnd={() => setDraggingId("")}
+                      onClick={() => setSelectedId(deal.id)}
+                      className={`cursor-grab rounded-lg border bg-white p-2 text-xs shadow-sm ${selectedId === deal.id ? "border-slate-900" : "border-slate-200"} ${draggingId === deal.id ? "opacity-50" : ""}`}
+                    >
+                      <p className="font-medium">{deal.code || deal.id.slice(0, 8)}</p>
+                      <p className="text-slate-600">
+                        {deal.buyer?.code || "Buyer"} → {deal.listing?.code || "Listing"}
+                      </p>
+                      <p className="text-slate-500">{deal.listing ? `${deal.listing.area || "-"}${deal.listing.compound ? ` / ${deal.listing.compound}` : ""}` : ""}</p>
+                      <p className="mt-1 font-medium">{money(deal.expected_value, deal.currency)}</p>
+                      {deal.expected_close_date && <p className="text-slate-500">Close {deal.expected_close_date}</p>}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {selected && <DealEditor key={selected.id} deal={selected} stages={stages} saving={saving} onSave={(updates) => saveDeal(selected.id, updates)} onClose={() => setSelectedId("")} />}
+    </section>
+  );
+}
+
+function DealEditor({
+  deal,
+  stages,
+  saving,
+  onSave,
+  onClose
+}: {
+  deal: Deal;
+  stages: DealStage[];
+  saving: boolean;
+  onSave: (updates: Parameters<typeof updateDealApi>[1]) => void;
+  onClose: () => void;
+}) {
+  const [expectedValue, setExpectedValue] = useState(deal.expected_value === null ? "" : String(deal.expected_value));
+  const [commission, setCommission] = useState(deal.commission === null ? "" : String(deal.commission));
+  const [currency, setCurrency] = useState(deal.currency);
+  const [closeDate, setCloseDate] = useState(deal.expected_close_date || "");
+  const [notes, setNotes] = useState(deal.notes);
+
+  return (
+    <div className="space-y-3 rounded-xl border border-slate-200 bg-white p-3 text-sm">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">{deal.code || deal.id.slice(0, 8)}</h3>
+        <button onClick={onClose} className="text-xs text-slate-500 underline">Close</button>
+      </div>
+      <p className="text-xs text-slate-600">
+        <Link href={`/buyers?open=${deal.buyer_id}`} className="underline">{deal.buyer?.code || "Buyer"}</Link>
+        {" → "}
+        <Link href={listingHref(deal)} className="underline">{deal.listing?.code || "Listing"}</Link>
+        {" • "}
+        {stages.find((stage) => stage.key === deal.stage_key)?.label || deal.stage_key}
+        {deal.closed_at ? ` • closed ${new Date(deal.closed_at).toLocaleDateString()}` : ""}
+      </p>
+      <div className="grid gap-2 md:grid-cols-4">
+        <label className="text-xs text-slate-600">
+          Expected value
+          <input type="number" value={expectedValue} onChange={(e) => setExpectedValue(e.target.value)} className="mt-1 w-full rounded border border-slate-300 px-2 py-1" />
+        </label>
+        <label className="text-xs text-slate-600">
+          Currency
+          <input value={currency} onChange={(e) => setCurrency(e.target.value)} className="mt-1 w-full rounded border border-slate-300 px-2 py-1" />
+        </label>
+        <label className="text-xs text-slate-600">
+          Commission
+          <input type="number" value={commission} onChange={(e) => setCommission(e.target.value)} className="mt-1 w-full rounded border border-slate-300 px-2 py-1" />
+        </label>
+        <label className="text-xs text-slate-600">
+          Expected close
+          <input type="date" value={closeDate} onChange={(e) => setCloseDate(e.target.value)} className="mt-1 w-full rounded border border-slate-300 px-2 py-1" />
+        </label>
+      </div>
+      <textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={3} placeholder="Notes" className="w-full rounded border border-slate-300 px-2 py-1" />
+      <button
+        disabled={saving}
+        onClick={() =>
+          onSave({
+            expected_value: expectedValue === "" ? null : Number(expectedValue),
+            commission: commission === "" ? null : Number(commission),
+            currency: currency.trim() || "EGP",
+            expected_close_date: closeDate || null,
+            notes
+          })
+        }
+        className="rounded bg-slate-900 px-3 py-1 text-xs text-white disabled:opacity-40"
+      >
+        {saving ? "Saving…" : "Save deal"}
+      </button>
+    </div>
+  );
+}
@@ -63,6 +63,15 @@ type SessionDetail = {
 
 type ExistingRow = { id: string; code?: string; source?: string; notes?: string; updated_at?: string };
 
+type DuplicateRow = {
+  score: number;
+  confidence: "high" | "medium" | "low";
+  agreements: string[];
+  disagreements: string[];
+  fields: Array<{ field: string; status: "agree" | "disagree"; extracted: string; existing: string }>;
+  record: { id: string; code: string | null; price: number | null; currency: string; area: string; compound: string; bedrooms: number | null };
+};
+
 type FieldErrorMap = Record<string, string>;
 
 const steps = ["Type & Hierarchy", "Extracted Data Review", "New vs Existing", "Merge & Save"];
@@ -198,6 +207,9 @@ export default function IntakeReviewPage() {
   const [search, setSearch] = useState("");
   const [results, setResults] = useState<ExistingRow[]>([]);
   const [selectedRecordId, setSelectedRecordId] = useState<string>("");
+  const [duplicates, setDuplicates] = useState<DuplicateRow[]>([]);
+  const [duplicatesLoading, setDuplicatesLoading] = useState(false);
+  const duplicateDefaultApplied = useRef(false);
   const [existingRecord, setExistingRecord] = useState<Record<string, unknown>>({});
   const [mergeDecisions, setMergeDecisions] = useState<Record<string, MergeMode>>({});
   const [saving, setSaving] = useState(false);
@@ -323,6 +335,49 @@ export default function IntakeReviewPage() {
     runSearch();
   }, [mode, selectedType, search]);
 
+  useEffect(() => {
+    if (step !== 3 || (selectedType !== "sale" && selectedType !== "rent")) return;
+    let active = true;
+    async function runDuplicateCheck() {
+      setDuplicatesLoading(true);
+      const extractedData = {
+        ...form,
+        contact_phone: form.contact_phone || form.phone || questionAnswers.contact_phone || String(session?.ai_json?.contact_phone || "")
+      };
+      try {
+        const res = await fetch("/api/review/duplicates", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ type: selectedType, extractedData })
+        });
+        const data = await res.json().catch(() => ({}));
+        if (!active) return;
+        if (!res.ok) {
+          setDuplicates([]);
+          return;
+        }
+        setDuplicates((data.duplicates || []) as DuplicateRow[]);
+        if (data.suggested_record_id && !mode && !duplicateDefaultApplied.current) {
+          duplicateDefaultApplied.current = true;
+          setMode("update_existing");
+          setSelectedRecordId(String(data.suggested_record_id));
+          loadExistingRecord(String(data.suggested_record_id));
+        }
+      } catch {
+        // The duplicate check is advisory; a failed request must not block the review.
+        if (active) setDuplicates([]);
+      } finally {
+        if (active) setDuplicatesLoading(false);
+      }
+    }
+    runDuplicateCheck();
+    return () => {
+      active = false;
+      setDuplicatesLoading(false);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [step, selectedType]);
+
   useEffect(() => {
     if (mode !== "update_existing") {
       setSearch("");
@@ -345,6 +400,8 @@ export default function IntakeReviewPage() {
     setFieldValidationErrors({});
     setSelectedRecordId("");
     setExistingRecord({});
+    setDuplicates([]);
+    duplicateDefaultApplied.current = false;
     if (selectedType === "other") {
       setHierarchyNodeId("");
       setEffectiveFields([]);
@@ -1065,6 +1122,51 @@ export default function IntakeReviewPage() {
               </div>
             )}
 
+            {(selectedType === "sale" || selectedType === "rent") && (duplicatesLoading || duplicates.length > 0) && (
+              <div className="rounded-lg border border-slate-200 p-3">
+                <p className="mb-2 text-sm font-semibold">Possible duplicates</p>
+                {duplicatesLoading && <p className="text-xs text-slate-500">Checking existing listings…</p>}
+                <div className="space-y-2">
+                  {duplicates.map((duplicate) => (
+                    <div key={duplicate.record.id} className={`rounded border px-3 py-2 text-xs ${selectedRecordId === duplicate.record.id ? "border-slate-900" : "border-slate-200"}`}>
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium">{duplicate.record.code || duplicate.record.id.slice(0, 8)}</span>
+                        <span className={`rounded px-2 py-0.5 ${duplicate.confidence === "high" ? "bg-rose-100 text-rose-700" : duplicate.confidence === "medium" ? "bg-amber-100 text-amber-700" : "bg-slate-100 text-slate-600"}`}>
+                          {duplicate.score}% • {duplicate.confidence}
+                        </span>
+                      </div>
+                      <p className="mt-1 text-slate-500">
+                        {duplicate.record.price ?? "-"} {duplicate.record.currency} • {duplicate.record.area || "-"}{duplicate.record.compound ? ` / ${duplicate.record.compound}` : ""} • {duplicate.record.bedrooms ?? "-"} beds
+                      </p>
+                      <div className="mt-1 flex flex-wrap gap-1">
+                        {duplicate.fields.map((field) => (
+                          <span
+                            key={field.field}
+                            title={`Extracted: ${field.extracted || "-"} / Existing: ${field.existing || "-"}`}
+                            className={`rounded px-1.5 py-0.5 ${field.status === "agree" ? "bg-emerald-50 text-emerald-700" : "bg-rose-50 text-rose-700"}`}
+                          >
+                            {field.status === "agree" ? "✓" : "✗"} {field.field}
+                          </span>
+                        ))}
+                      </div>
+                      <button
+                        className="mt-2 rounded border border-slate-300 px-2 py-1 text-[11px] disabled:opacity-40"
+                        disabled={mode === "update_existing" && selectedRecordId === duplicate.record.id}
+                        onClick={() => {
+                          setMode("update_existing");
+                          setModeValidation("");
+                          setSelectedRecordId(duplicate.record.id);
+                          loadExistingRecord(duplicate.record.id);
+                        }}
+                      >
+                        Update this record
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {mode === "update_existing" && selectedType !== "other" && (
               <>
                 <input value={search} onChange={(e) => setSearch(e.target.value)} placeholder={`Search ${selectedType} records`} className="w-full rounded-lg border border-slate-300 px-3 py-2 text-sm" />
@@ -1,6 +1,12 @@
 "use client";
 
 import { useState } from "react";
+import { SheetImportBatches } from "@/components/integrations/sheet-import-batches";
+import { SheetImportReportView } from "@/components/integrations/sheet-import-report";
+import { SheetSyncPanel } from "@/components/integrations/sheet-sync-panel";
+import type { SheetImportReport } from "@/lib/sheet-import";
+import { SHEET_FIELDS_BY_DATASET } from "@/lib/sheet-sync";
+import { previewSheetImportApi, runSheetImportApi } from "@/services/api/sheet-import-api.service";
 
 type Dataset = "sale" | "rent" | "buyer" | "client";
 
@@ -9,13 +15,6 @@ type PreviewState = {
   sampleRows: string[][];
 };
 
-const datasetFields: Record<Dataset, string[]> = {
-  sale: ["code", "source", "price", "currency", "size_sqm", "bedrooms", "bathrooms", "area", "compound", "floor", "furnished", "finishing", "payment_terms", "notes", "status"],
-  rent: ["code", "source", "price", "currency", "size_sqm", "bedrooms", "bathrooms", "area", "compound", "floor", "furnished", "finishing", "payment_terms", "notes", "status"],
-  buyer: ["code", "source", "phone", "currency", "intent", "property_type", "budget_min", "budget_max", "preferred_areas", "bedrooms_needed", "timeline", "notes", "status"],
-  client: ["code", "source", "name", "phone", "role", "area", "tags", "status"]
-};
-
 export default function GoogleSheetsIntegrationPage() {
   const [spreadsheetId, setSpreadsheetId] = useState("");
   const [tabName, setTabName] = useState("Sale");
@@ -23,6 +22,9 @@ export default function GoogleSheetsIntegrationPage() {
   const [preview, setPreview] = useState<PreviewState | null>(null);
   const [mapping, setMapping] = useState<Record<string, string>>({});
   const [message, setMessage] = useState("");
+  const [report, setReport] = useState<SheetImportReport | null>(null);
+  const [skipInvalid, setSkipInvalid] = useState(false);
+  const [importsVersion, setImportsVersion] = useState(0);
   const [syncMessage, setSyncMessage] = useState("");
 
   async function loadPreview() {
@@ -40,29 +42,40 @@ export default function GoogleSheetsIntegrationPage() {
     setPreview({ headers: data.headers || [], sampleRows: data.sampleRows || [] });
     const nextMap: Record<string, string> = {};
     (data.headers || []).forEach((h: string) => {
-      const exact = datasetFields[dataset].find((f) => f.toLowerCase() === h.toLowerCase());
+      const exact = SHEET_FIELDS_BY_DATASET[dataset].find((f) => f.toLowerCase() === h.toLowerCase());
       if (exact) nextMap[h] = exact;
     });
     setMapping(nextMap);
     setMessage("Preview loaded");
   }
 
+  async function runDryRun() {
+    setMessage("Checking rows...");
+    try {
+      const data = await previewSheetImportApi({ spreadsheet_id: spreadsheetId, mappings: [{ dataset, tab: tabName, column_map: mapping }] });
+      const next = data.reports[0] || null;
+      setReport(next);
+      setMessage(next ? `Dry run: ${next.summary.total} rows, ${next.summary.errors} with errors, ${next.summary.warnings} with warnings. Nothing was imported.` : "Nothing to check");
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Dry run failed");
+    }
+  }
+
   async function runImport() {
     setMessage("Importing rows into Inbox...");
-    const res = await fetch("/api/integrations/sheets/import", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
+    try {
+      const data = await runSheetImportApi({
         spreadsheet_id: spreadsheetId,
-        mappings: [{ dataset, tab: tabName, column_map: mapping }]
-      })
-    });
-    const data = await res.json();
-    if (!res.ok) {
-      setMessage(data.error || "Import failed");
-      return;
+        mappings: [{ dataset, tab: tabName, column_map: mapping }],
+        skip_invalid: skipInvalid
+      });
+      setReport(data.reports[0] || null);
+      setImportsVersion((prev) => prev + 1);
+      const skipped = data.batches.reduce((sum, batch) => sum + batch.skipped_count, 0);
+      setMessage(`Imported ${data.created_count || 0} rows as intake sessions${skipped ? `, skipped ${skipped} with errors` : ""}`);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Import failed");
     }
-    setMessage(`Imported ${data.created_count || 0} rows as intake sessions`);
   }
 
   async function syncNow() {
@@ -111,11 +124,17 @@ export default function GoogleSheetsIntegrationPage() {
           <option value="client">Clients</option>
         </select>
 
-        <div className="grid grid-cols-2 gap-2">
+        <div className="grid grid-cols-3 gap-2">
           <button onClick={loadPreview} className="rounded border border-slate-300 px-3 py-2 text-sm">Load columns</button>
+          <button onClick={runDryRun} className="rounded border border-slate-300 px-3 py-2 text-sm">Dry run</button>
           <button onClick={runImport} className="rounded bg-slate-900 px-3 py-2 text-sm text-white">Import to Inbox</button>
         </div>
 
+        <label className="flex items-center gap-2 text-xs text-slate-600">
+          <input type="checkbox" checked={skipInvalid} onChange={(e) => setSkipInvalid(e.target.checked)} />
+          Skip rows with validation errors
+        </label>
+
         <button onClick={syncNow} className="w-full rounded border border-slate-300 px-3 py-2 text-sm">Sync Now (manual export)</button>
 
         {message && <p className="text-xs text-slate-600">{message}</p>}
@@ -138,7 +157,7 @@ export default function GoogleSheetsIntegrationPage() {
                       className="rounded border border-slate-300 px-2 py-1.5"
                     >
                       <option value="">Ignore</option>
-                      {datasetFields[dataset].map((field) => (
+                      {SHEET_FIELDS_BY_DATASET[dataset].map((field) => (
                         <option key={field} value={field}>{field}</option>
                       ))}
                     </select>
@@ -164,6 +183,19 @@ export default function GoogleSheetsIntegrationPage() {
             </div>
           </div>
         )}
+        {report && (
+          <div className="mt-4">
+            <SheetImportReportView report={report} />
+          </div>
+        )}
+      </div>
+
+      <div className="col-span-2">
+        <SheetImportBatches source="google_sheets" spreadsheetId={spreadsheetId} refreshKey={importsVersion} />
+      </div>
+
+      <div className="col-span-2">
+        <SheetSyncPanel spreadsheetId={spreadsheetId} />
       </div>
     </section>
   );
@@ -3,6 +3,7 @@
 import { useEffect, useMemo, useState } from "react";
 import { useAuth } from "@/hooks/use-auth";
 import { useSearchParams } from "next/navigation";
+import { TelegramLinkCard } from "@/components/integrations/telegram-link-card";
 
 type TaskRow = {
   id: string;
@@ -92,6 +93,7 @@ export default function TasksClient() {
           ))}
         </div>
       </div>
+      <TelegramLinkCard />
       {isViewer && <p className="text-xs text-slate-500">Tasks are currently read-only in agent mode while workflow redesign is pending.</p>}
 
       {loading && <p className="text-sm text-slate-500">Loading tasks...</p>}
@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdminActor } from "@/services/auth/role.service";
+import { revokeApiKey } from "@/services/auth/api-key.service";
+
+// Revokes rather than deletes, so the key stays listed with its last use.
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  const { errorResponse } = await requireAdminActor(request);
+  if (errorResponse) return errorResponse;
+
+  try {
+    const apiKey = await revokeApiKey(params.id);
+    return NextResponse.json({ ok: true, api_key: apiKey });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: /not found/i.test(message) ? 404 : 500 });
+  }
+}
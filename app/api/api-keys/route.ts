@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdminActor } from "@/services/auth/role.service";
+import { createApiKey, fetchApiKeys } from "@/services/auth/api-key.service";
+import { createApiKeySchema } from "@/services/auth/api-key.schemas";
+
+export async function GET(request: NextRequest) {
+  const { errorResponse } = await requireAdminActor(request);
+  if (errorResponse) return errorResponse;
+
+  try {
+    const apiKeys = await fetchApiKeys();
+    return NextResponse.json({ api_keys: apiKeys });
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const { actor, errorResponse } = await requireAdminActor(request);
+  if (errorResponse) return errorResponse;
+
+  try {
+    const payload = createApiKeySchema.parse(await request.json());
+    const { apiKey, key } = await createApiKey(payload, actor.userId);
+    return NextResponse.json({ ok: true, api_key: apiKey, key });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid API key payload", issues: error.issues }, { status: 400 });
+    }
+    return NextResponse.json({ error: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdminActor } from "@/services/auth/role.service";
+import { fetchContactProfile } from "@/services/contacts/contact-profile.service";
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  const { errorResponse } = await requireAdminActor(request);
+  if (errorResponse) return errorResponse;
+
+  try {
+    const profile = await fetchContactProfile(params.id);
+    return NextResponse.json(profile);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: message.toLowerCase().includes("not found") ? 404 : 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdminActor } from "@/services/auth/role.service";
+import { fetchContactMergePreview, fetchRecentContactMerges, mergeContacts } from "@/services/contacts/contact-merge.service";
+
+const payloadSchema = z.object({
+  survivor_id: z.string().uuid(),
+  loser_ids: z.array(z.string().uuid()).min(1).max(50),
+  preview: z.boolean().optional().default(false)
+});
+
+function errorStatus(message: string) {
+  const normalized = message.toLowerCase();
+  if (normalized.includes("not found")) return 404;
+  if (normalized.includes("choose")) return 400;
+  return 500;
+}
+
+export async function GET(request: NextRequest) {
+  const { errorResponse } = await requireAdminActor(request);
+  if (errorResponse) return errorResponse;
+
+  try {
+    const merges = await fetchRecentContactMerges();
+    return NextResponse.json({ merges });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const { actor, errorResponse } = await requireAdminActor(request);
+  if (errorResponse) return errorResponse;
+
+  try {
+    const payload = payloadSchema.parse(await request.json());
+    if (payload.preview) {
+      const preview = await fetchContactMergePreview({ survivorId: payload.survivor_id, loserIds: payload.loser_ids });
+      return NextResponse.json({ preview });
+    }
+
+    const result = await mergeContacts({ survivorId: payload.survivor_id, loserIds: payload.loser_ids, actorUserId: actor.userId });
+    return NextResponse.json({ ok: true, ...result });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid contact merge payload", issues: error.issues }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: errorStatus(message) });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdminActor } from "@/services/auth/role.service";
+import { undoContactMerge } from "@/services/contacts/contact-merge.service";
+
+const payloadSchema = z.object({
+  audit_log_id: z.string().uuid()
+});
+
+export async function POST(request: NextRequest) {
+  const { actor, errorResponse } = await requireAdminActor(request);
+  if (errorResponse) return errorResponse;
+
+  try {
+    const payload = payloadSchema.parse(await request.json());
+    const result = await undoContactMerge({ auditLogId: payload.audit_log_id, actorUserId: actor.userId });
+    return NextResponse.json({ ok: true, ...result });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid undo payload", issues: error.issues }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : "Unknown error";
+    const normalized = message.toLowerCase();
+    const status = normalized.includes("not found") ? 404 : normalized.includes("already") || normalized.includes("not possible") ? 409 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
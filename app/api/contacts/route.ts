@@ -1,7 +1,36 @@
 import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
 import { createSupabaseClient } from "@/services/supabase/client";
 import { requireAdminActor } from "@/services/auth/role.service";
 import { normalizeContactPhone } from "@/services/contacts/contact-linking.service";
+import {
+  attachContactChannels,
+  findContactIdByChannels,
+  prepareContactChannels,
+  replaceContactChannels
+} from "@/services/contacts/contact-channels.service";
+import { CONTACT_CHANNEL_TYPES } from "@/lib/contact-channels";
+
+const CONTACT_SELECT = "id,name,phone,created_at,updated_at";
+
+const channelSchema = z.object({
+  type: z.enum(CONTACT_CHANNEL_TYPES),
+  value: z.string().trim().min(1).max(200),
+  is_primary: z.boolean().optional(),
+  verified: z.boolean().optional()
+});
+
+const createSchema = z.object({
+  name: z.string().trim().max(200).optional(),
+  phone: z.string().trim().max(60).optional(),
+  channels: z.array(channelSchema).max(20).default([])
+});
+
+const updateSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string().trim().max(200).optional(),
+  channels: z.array(channelSchema).max(20)
+});
 
 export async function GET(request: NextRequest) {
   const { errorResponse } = await requireAdminActor(request);
@@ -10,40 +39,102 @@ export async function GET(request: NextRequest) {
   const supabase = createSupabaseClient();
   const q = (new URL(request.url).searchParams.get("q") || "").trim();
 
-  let query = supabase.from("contacts").select("id,name,phone,created_at,updated_at").order("updated_at", { ascending: false }).limit(20);
+  let query = supabase.from("contacts").select(CONTACT_SELECT).order("updated_at", { ascending: false }).limit(20);
   if (q) {
-    const digits = normalizeContactPhone(q);
-    query = query.or(`name.ilike.%${q}%,phone.ilike.%${digits || q}%`);
+    const { data: channelMatches, error: channelError } = await supabase
+      .from("contact_channels")
+      .select("contact_id")
+      .or(`value.ilike.%${q}%,normalized_value.ilike.%${normalizeContactPhone(q) || q.toLowerCase()}%`)
+      .limit(50);
+    if (channelError) return NextResponse.json({ error: channelError.message }, { status: 500 });
+
+    const channelContactIds = Array.from(new Set((channelMatches || []).map((row) => String(row.contact_id))));
+    const filters = [`name.ilike.%${q}%`, `phone.ilike.%${q}%`];
+    if (channelContactIds.length > 0) filters.push(`id.in.(${channelContactIds.join(",")})`);
+    query = query.or(filters.join(","));
   }
 
   const { data, error } = await query;
   if (error) return NextResponse.json({ error: error.message }, { status: 500 });
-  return NextResponse.json({ contacts: data || [] });
+
+  try {
+    const contacts = await attachContactChannels((data || []) as Array<{ id: string }>);
+    return NextResponse.json({ contacts });
+  } catch (channelsError) {
+    const message = channelsError instanceof Error ? channelsError.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
 }
 
 export async function POST(request: NextRequest) {
   const { errorResponse } = await requireAdminActor(request);
   if (errorResponse) return errorResponse;
 
-  const body = (await request.json()) as { name?: string; phone?: string };
-  const name = String(body.name || "").trim();
-  const phone = normalizeContactPhone(body.phone);
+  try {
+    const body = createSchema.parse(await request.json());
+    const name = String(body.name || "").trim();
+    const channels = [...(body.phone ? [{ type: "phone" as const, value: body.phone }] : []), ...body.channels];
+    const prepared = prepareContactChannels(channels);
 
-  if (!name && !phone) return NextResponse.json({ error: "name or phone is required" }, { status: 400 });
+    if (!name && prepared.length === 0) return NextResponse.json({ error: "name or a valid channel is required" }, { status: 400 });
 
-  const supabase = createSupabaseClient();
+    const supabase = createSupabaseClient();
+    const existingId = await findContactIdByChannels(supabase, channels);
+    if (existingId) {
+      const { data: existing } = await supabase.from("contacts").select(CONTACT_SELECT).eq("id", existingId).maybeSingle();
+      if (existing) {
+        const [contact] = await attachContactChannels([existing as { id: string }]);
+        return NextResponse.json({ contact, existing: true });
+      }
+    }
+
+    const primaryPhone = prepared.find((channel) => channel.type === "phone" && channel.is_primary);
+    const { data, error } = await supabase
+      .from("contacts")
+      .insert({ name: name || "Unknown", phone: primaryPhone?.normalized_value || null })
+      .select(CONTACT_SELECT)
+      .single();
 
-  if (phone) {
-    const { data: existing } = await supabase.from("contacts").select("id,name,phone").eq("phone", phone).maybeSingle();
-    if (existing) return NextResponse.json({ contact: existing, existing: true });
+    if (error || !data) return NextResponse.json({ error: error?.message || "Failed to create contact" }, { status: 500 });
+    const savedChannels = await replaceContactChannels(String(data.id), channels);
+    return NextResponse.json({ contact: { ...data, phone: primaryPhone?.normalized_value || null, channels: savedChannels } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid contact payload", issues: error.issues }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
   }
+}
+
+export async function PATCH(request: NextRequest) {
+  const { errorResponse } = await requireAdminActor(request);
+  if (errorResponse) return errorResponse;
 
-  const { data, error } = await supabase
-    .from("contacts")
-    .insert({ name: name || "Unknown", phone: phone || null })
-    .select("id,name,phone,created_at,updated_at")
-    .single();
+  try {
+    const body = updateSchema.parse(await request.json());
+    const supabase = createSupabaseClient();
 
-  if (error || !data) return NextResponse.json({ error: error?.message || "Failed to create contact" }, { status: 500 });
-  return NextResponse.json({ contact: data });
+    const { data: current, error: currentError } = await supabase.from("contacts").select("id").eq("id", body.id).maybeSingle();
+    if (currentError) return NextResponse.json({ error: currentError.message }, { status: 500 });
+    if (!current) return NextResponse.json({ error: "Contact not found" }, { status: 404 });
+
+    if (body.name !== undefined) {
+      const { error: nameError } = await supabase.from("contacts").update({ name: body.name || "Unknown" }).eq("id", body.id);
+      if (nameError) return NextResponse.json({ error: nameError.message }, { status: 500 });
+    }
+
+    await replaceContactChannels(body.id, body.channels);
+
+    const { data: updated, error: updatedError } = await supabase.from("contacts").select(CONTACT_SELECT).eq("id", body.id).single();
+    if (updatedError || !updated) return NextResponse.json({ error: updatedError?.message || "Failed to load contact" }, { status: 500 });
+    const [contact] = await attachContactChannels([updated as { id: string }]);
+    return NextResponse.json({ ok: true, contact });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid contact payload", issues: error.issues }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
 }
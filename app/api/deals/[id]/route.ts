@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdminActor } from "@/services/auth/role.service";
+import { DealsService } from "@/modules/deals";
+
+const dealsService = new DealsService();
+
+const patchSchema = z.object({
+  stage_key: z.string().min(1).optional(),
+  expected_value: z.number().nonnegative().nullable().optional(),
+  currency: z.string().trim().min(1).max(8).optional(),
+  commission: z.number().nonnegative().nullable().optional(),
+  expected_close_date: z.string().date().nullable().optional(),
+  notes: z.string().max(5000).optional(),
+  assigned_to: z.string().uuid().nullable().optional()
+});
+
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  const { actor, errorResponse } = await requireAdminActor(request);
+  if (errorResponse) return errorResponse;
+
+  try {
+    const payload = patchSchema.parse(await request.json());
+    const deal = await dealsService.updateDeal(
+      params.id,
+      {
+        stageKey: payload.stage_key,
+        expectedValue: payload.expected_value,
+        currency: payload.currency,
+        commission: payload.commission,
+        expectedCloseDate: payload.expected_close_date,
+        notes: payload.notes,
+        assignedTo: payload.assigned_to
+      },
+      actor.userId
+    );
+    return NextResponse.json({ ok: true, deal });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid deal update", issues: error.issues }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: message.toLowerCase().includes("not found") ? 404 : 500 });
+  }
+}
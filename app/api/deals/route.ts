@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdminActor } from "@/services/auth/role.service";
+import { DealsService } from "@/modules/deals";
+
+const dealsService = new DealsService();
+
+const listingTypeSchema = z.enum(["sale", "rent"]);
+
+const createSchema = z.object({
+  buyer_id: z.string().uuid(),
+  listing_type: listingTypeSchema,
+  listing_id: z.string().uuid(),
+  stage_key: z.string().min(1).optional(),
+  expected_value: z.number().nonnegative().nullable().optional(),
+  currency: z.string().trim().min(1).max(8).optional(),
+  commission: z.number().nonnegative().nullable().optional(),
+  expected_close_date: z.string().date().nullable().optional(),
+  notes: z.string().max(5000).optional(),
+  assigned_to: z.string().uuid().nullable().optional()
+});
+
+function errorStatus(message: string) {
+  const normalized = message.toLowerCase();
+  if (normalized.includes("not found")) return 404;
+  if (normalized.includes("archived")) return 409;
+  return 500;
+}
+
+export async function GET(request: NextRequest) {
+  const { errorResponse } = await requireAdminActor(request);
+  if (errorResponse) return errorResponse;
+
+  const { searchParams } = new URL(request.url);
+  const listingType = listingTypeSchema.safeParse(searchParams.get("listing_type"));
+
+  try {
+    const board = await dealsService.fetchBoard({
+      buyerId: searchParams.get("buyer_id") || undefined,
+      listingType: listingType.success ? listingType.data : undefined,
+      listingId: listingType.success ? searchParams.get("listing_id") || undefined : undefined
+    });
+    return NextResponse.json(board);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: errorStatus(message) });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const { actor, errorResponse } = await requireAdminActor(request);
+  if (errorResponse) return errorResponse;
+
+  try {
+    const payload = createSchema.parse(await request.json());
+    const deal = await dealsService.createDeal(
+      {
+        buyerId: payload.buyer_id,
+        listingType: payload.listing_type,
+        listingId: payload.listing_id,
+        stageKey: payload.stage_key,
+        expectedValue: payload.expected_value,
+        currency: payload.currency,
+        commission: payload.commission,
+        expectedCloseDate: payload.expected_close_date,
+        notes: payload.notes,
+        assignedTo: payload.assigned_to
+      },
+      actor.userId
+    );
+    return NextResponse.json({ ok: true, deal });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid deal payload", issues: error.issues }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: errorStatus(message) });
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdminActor } from "@/services/auth/role.service";
+import { DealsService } from "@/modules/deals";
+
+const dealsService = new DealsService();
+
+const stagesSchema = z.object({
+  stages: z
+    .array(
+      z.object({
+        key: z.string().trim().max(60).optional(),
+        label: z.string().trim().min(1).max(60),
+        outcome: z.enum(["open", "won", "lost"]).optional()
+      })
+    )
+    .min(1)
+    .max(20)
+});
+
+export async function GET(request: NextRequest) {
+  const { errorResponse } = await requireAdminActor(request);
+  if (errorResponse) return errorResponse;
+
+  try {
+    const stages = await dealsService.fetchStages();
+    return NextResponse.json({ stages });
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  const { errorResponse } = await requireAdminActor(request);
+  if (errorResponse) return errorResponse;
+
+  try {
+    const payload = stagesSchema.parse(await request.json());
+    const stages = await dealsService.saveStages(payload.stages);
+    return NextResponse.json({ ok: true, stages });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid stages payload", issues: error.issues }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : "Unknown error";
+    // Validation failures from prepareDealStages and stages that still hold deals are caller errors.
+    const status = /still has|duplicate|needs a label|open stage/i.test(message) ? 409 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
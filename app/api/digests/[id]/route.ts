@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdminActor } from "@/services/auth/role.service";
+import { deleteViewDigest, fetchViewDigest, fetchViewDigestDeliveries, updateViewDigest } from "@/services/digests/view-digest.service";
+import { updateViewDigestSchema } from "@/services/digests/view-digest.schemas";
+
+function errorStatus(message: string) {
+  if (/not found/i.test(message)) return 404;
+  if (/different grid|destination/i.test(message)) return 400;
+  return 500;
+}
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  const { errorResponse } = await requireAdminActor(request);
+  if (errorResponse) return errorResponse;
+
+  try {
+    const [digest, deliveries] = await Promise.all([fetchViewDigest(params.id), fetchViewDigestDeliveries(params.id)]);
+    return NextResponse.json({ digest, deliveries });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: errorStatus(message) });
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  const { errorResponse } = await requireAdminActor(request);
+  if (errorResponse) return errorResponse;
+
+  try {
+    const payload = updateViewDigestSchema.parse(await request.json());
+    const digest = await updateViewDigest(params.id, payload);
+    return NextResponse.json({ ok: true, digest });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid digest payload", issues: error.issues }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: errorStatus(message) });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  const { errorResponse } = await requireAdminActor(request);
+  if (errorResponse) return errorResponse;
+
+  try {
+    await deleteViewDigest(params.id);
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: errorStatus(message) });
+  }
+}
@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdminActor } from "@/services/auth/role.service";
+import { sendViewDigestNow } from "@/services/digests/view-digest.service";
+
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  const { errorResponse } = await requireAdminActor(request);
+  if (errorResponse) return errorResponse;
+
+  try {
+    const result = await sendViewDigestNow(params.id);
+    return NextResponse.json({ ok: result.status === "sent", result });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: /not found/i.test(message) ? 404 : 500 });
+  }
+}
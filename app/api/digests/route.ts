@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdminActor } from "@/services/auth/role.service";
+import { createViewDigest, fetchViewDigests } from "@/services/digests/view-digest.service";
+import { createViewDigestSchema } from "@/services/digests/view-digest.schemas";
+
+function errorStatus(message: string) {
+  if (/not found/i.test(message)) return 404;
+  if (/different grid/i.test(message)) return 400;
+  return 500;
+}
+
+export async function GET(request: NextRequest) {
+  const { errorResponse } = await requireAdminActor(request);
+  if (errorResponse) return errorResponse;
+
+  try {
+    const digests = await fetchViewDigests();
+    return NextResponse.json({ digests });
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const { actor, errorResponse } = await requireAdminActor(request);
+  if (errorResponse) return errorResponse;
+
+  try {
+    const payload = createViewDigestSchema.parse(await request.json());
+    const digest = await createViewDigest(payload, actor.userId);
+    return NextResponse.json({ ok: true, digest });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid digest payload", issues: error.issues }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: errorStatus(message) });
+  }
+}
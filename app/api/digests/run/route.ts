@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireApiKey } from "@/services/auth/api-key.service";
+import { runDueViewDigests } from "@/services/digests/view-digest.service";
+
+// Called hourly by an external scheduler; each digest goes out once per local day after its send hour.
+export async function POST(request: NextRequest) {
+  const { errorResponse } = await requireApiKey(request, "jobs:run");
+  if (errorResponse) return errorResponse;
+
+  try {
+    const summary = await runDueViewDigests();
+    return NextResponse.json({ ok: true, ...summary });
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+  }
+}
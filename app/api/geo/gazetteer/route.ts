@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { parseGazetteerCsv } from "@/lib/geo";
+import { requireAdminActor } from "@/services/auth/role.service";
+import {
+  backfillListingCoordinates,
+  deleteGazetteerEntry,
+  fetchGazetteerEntries,
+  updateGazetteerEntry,
+  upsertGazetteerEntries
+} from "@/services/geo/gazetteer.service";
+
+const entrySchema = z.object({
+  kind: z.enum(["area", "compound"]),
+  name: z.string().trim().min(1).max(120),
+  parent_area: z.string().trim().max(120).default(""),
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  aliases: z.array(z.string().trim().max(120)).max(30).default([])
+});
+
+const postSchema = z.union([
+  z.object({ action: z.literal("upsert"), entries: z.array(entrySchema).min(1).max(1000) }),
+  z.object({ action: z.literal("import_csv"), csv: z.string().min(1).max(500_000) }),
+  z.object({ action: z.literal("backfill") })
+]);
+
+const patchSchema = z.object({ id: z.string().uuid(), entry: entrySchema });
+const deleteSchema = z.object({ id: z.string().uuid() });
+
+export async function GET(request: NextRequest) {
+  const { errorResponse } = await requireAdminActor(request);
+  if (errorResponse) return errorResponse;
+
+  try {
+    const entries = await fetchGazetteerEntries();
+    return NextResponse.json({ entries });
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const { actor, errorResponse } = await requireAdminActor(request);
+  if (errorResponse) return errorResponse;
+
+  try {
+    const payload = postSchema.parse(await request.json());
+    if (payload.action === "backfill") {
+      const result = await backfillListingCoordinates();
+      return NextResponse.json({ ok: true, ...result });
+    }
+
+    if (payload.action === "import_csv") {
+      const parsed = parseGazetteerCsv(payload.csv);
+      const saved = await upsertGazetteerEntries(parsed.entries, actor.userId);
+      return NextResponse.json({ ok: true, saved, errors: parsed.errors });
+    }
+
+    const saved = await upsertGazetteerEntries(payload.entries, actor.userId);
+    return NextResponse.json({ ok: true, saved, errors: [] });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid gazetteer payload", issues: error.issues }, { status: 400 });
+    }
+    return NextResponse.json({ error: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  const { errorResponse } = await requireAdminActor(request);
+  if (errorResponse) return errorResponse;
+
+  try {
+    const payload = patchSchema.parse(await request.json());
+    const entry = await updateGazetteerEntry(payload.id, payload.entry);
+    return NextResponse.json({ ok: true, entry });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid gazetteer payload", issues: error.issues }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: /not found/i.test(message) ? 404 : 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const { errorResponse } = await requireAdminActor(request);
+  if (errorResponse) return errorResponse;
+
+  try {
+    const payload = deleteSchema.parse(await request.json());
+    await deleteGazetteerEntry(payload.id);
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid gazetteer payload", issues: error.issues }, { status: 400 });
+    }
+    return NextResponse.json({ error: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+  }
+}
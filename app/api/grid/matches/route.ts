@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { forbiddenResponse, getRequestActor, hasRole, requireAdminActor, unauthorizedResponse, type RequestActor } from "@/services/auth/role.service";
+import { fetchMatchesForRecord, refreshMatchesForRecord, setMatchState } from "@/services/matching/match-feed.service";
+
+const typeSchema = z.enum(["sale", "rent", "buyer"]);
+
+const patchSchema = z.object({
+  match_id: z.string().uuid(),
+  state: z.enum(["new", "shortlisted", "dismissed"])
+});
+
+const refreshSchema = z.object({
+  type: typeSchema,
+  id: z.string().uuid()
+});
+
+function errorStatus(message: string) {
+  return message.toLowerCase().includes("not found") ? 404 : 500;
+}
+
+// Same scoping as GET /api/grid/records: agents work sale and rent listings only.
+function canAccessType(actor: RequestActor, type: z.infer<typeof typeSchema>) {
+  return actor.role !== "agent" || type === "sale" || type === "rent";
+}
+
+export async function GET(request: NextRequest) {
+  const actor = await getRequestActor(request);
+  if (!actor.userId) return unauthorizedResponse();
+
+  const { searchParams } = new URL(request.url);
+  const type = typeSchema.safeParse(searchParams.get("type"));
+  const id = String(searchParams.get("id") || "").trim();
+  if (!type.success || !id) return NextResponse.json({ error: "Invalid params" }, { status: 400 });
+  if (!canAccessType(actor, type.data)) return forbiddenResponse();
+
+  try {
+    const matches = await fetchMatchesForRecord({
+      type: type.data,
+      recordId: id,
+      includeDismissed: searchParams.get("includeDismissed") === "1",
+      actorRole: actor.role
+    });
+    return NextResponse.json({ matches });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: errorStatus(message) });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const actor = await getRequestActor(request);
+  if (!actor.userId) return unauthorizedResponse();
+  if (!hasRole(actor.role, "agent")) return forbiddenResponse();
+
+  try {
+    const payload = refreshSchema.parse(await request.json());
+    if (!canAccessType(actor, payload.type)) return forbiddenResponse();
+    const result = await refreshMatchesForRecord({ type: payload.type, recordId: payload.id });
+    return NextResponse.json({ ok: true, ...result });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid refresh payload", issues: error.issues }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: errorStatus(message) });
+  }
+}
+
+// Match state is shared by every agent working either side of the pair, so only admins triage it.
+export async function PATCH(request: NextRequest) {
+  const { actor, errorResponse } = await requireAdminActor(request);
+  if (errorResponse) return errorResponse;
+
+  try {
+    const payload = patchSchema.parse(await request.json());
+    const match = await setMatchState({ matchId: payload.match_id, state: payload.state, actorUserId: actor.userId });
+    return NextResponse.json({ ok: true, match });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid match state payload", issues: error.issues }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: errorStatus(message) });
+  }
+}
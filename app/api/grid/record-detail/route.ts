@@ -3,7 +3,9 @@ import { createSupabaseClient } from "@/services/supabase/client";
 import { getRequestActor, requireAdminActor } from "@/services/auth/role.service";
 import { createTimelineEvent } from "@/services/intake/confirm-intake.service";
 import { normalizeContactPhone } from "@/services/contacts/contact-linking.service";
+import { addContactChannels, fetchContactChannels, findContactIdByChannels } from "@/services/contacts/contact-channels.service";
 import { fetchCustomFieldValuesForRecords, fetchEffectiveFieldDefinitions } from "@/services/hierarchy/hierarchy.service";
+import { presentMedia } from "@/services/media/media-access.service";
 
 type GridType = "sale" | "rent" | "buyer" | "client";
 
@@ -70,6 +72,7 @@ export async function GET(request: NextRequest) {
 
   const contactId = String((record as { contact_id?: string | null }).contact_id || "");
   const { data: linkedContact } = contactId ? await supabase.from("contacts").select("id,name,phone,created_at,updated_at").eq("id", contactId).maybeSingle() : { data: null };
+  const linkedContactChannels = linkedContact ? await fetchContactChannels([contactId]) : [];
 
   const { data: media } = await supabase
     .from("media")
@@ -187,9 +190,9 @@ export async function GET(request: NextRequest) {
     record,
     fields: effectiveFields,
     field_values,
-    linked_contact: linkedContact || null,
+    linked_contact: linkedContact ? { ...linkedContact, channels: linkedContactChannels } : null,
     linked_records,
-    media: media || [],
+    media: (media || []).map(presentMedia),
     timeline: timeline || [],
     audit_logs: enrichedAudit,
     last_edited: lastEdited,
@@ -237,9 +240,9 @@ export async function PATCH(request: NextRequest) {
     const phone = normalizeContactPhone(body.phone);
     if (!name && !phone) return NextResponse.json({ error: "name or phone is required" }, { status: 400 });
 
-    const { data: existing } = phone ? await supabase.from("contacts").select("id").eq("phone", phone).maybeSingle() : { data: null };
-    if (existing?.id) {
-      contactId = String(existing.id);
+    const existingId = phone ? await findContactIdByChannels(supabase, [{ type: "phone", value: phone }]) : null;
+    if (existingId) {
+      contactId = existingId;
     } else {
       const { data: created, error: createError } = await supabase
         .from("contacts")
@@ -248,6 +251,7 @@ export async function PATCH(request: NextRequest) {
         .single();
       if (createError || !created) return NextResponse.json({ error: createError?.message || "Failed to create contact" }, { status: 500 });
       contactId = String(created.id);
+      if (phone) await addContactChannels(supabase, contactId, [{ type: "phone", value: phone, is_primary: true }]);
     }
   }
 
@@ -257,6 +261,7 @@ export async function PATCH(request: NextRequest) {
   await createTimelineEvent(map[body.type].table, body.id, "Linked to contact", { contact_id: contactId, source: "drawer" });
 
   const { data: linkedContact } = await supabase.from("contacts").select("id,name,phone,created_at,updated_at").eq("id", contactId).single();
+  const linkedContactChannels = linkedContact ? await fetchContactChannels([contactId]) : [];
 
-  return NextResponse.json({ ok: true, linked_contact: linkedContact });
+  return NextResponse.json({ ok: true, linked_contact: linkedContact ? { ...linkedContact, channels: linkedContactChannels } : null });
 }
@@ -3,6 +3,8 @@ import { z } from "zod";
 import { writeAuditLog } from "@/services/audit/audit-log.service";
 import { requireAdminActor } from "@/services/auth/role.service";
 import { setRecordsArchiveState } from "@/services/records/record-archive.service";
+import { emitVoiceflowEvent } from "@/services/integrations/voiceflow-events.service";
+import { refreshMatchesForRecord } from "@/services/matching/match-feed.service";
 
 const payloadSchema = z.object({
   type: z.enum(["sale", "rent", "buyer", "client"]),
@@ -48,6 +50,29 @@ export async function POST(request: NextRequest) {
       )
     );
 
+    if (payload.archived && result.updatedRecordIds.length) {
+      await emitVoiceflowEvent("record.archived", {
+        record_type: recordTypeByGridType[payload.type],
+        record_ids: result.updatedRecordIds,
+        archived_by: actor.userId
+      });
+    }
+
+    if (payload.type !== "client") {
+      // Archived records drop out of the match feed; restored ones are scored again.
+      for (const recordId of result.updatedRecordIds) {
+        try {
+          await refreshMatchesForRecord({ type: payload.type, recordId });
+        } catch (matchError) {
+          console.error("[grid] match feed refresh failed", {
+            record_type: recordTypeByGridType[payload.type],
+            record_id: recordId,
+            error: matchError instanceof Error ? matchError.message : "Unknown match refresh error"
+          });
+        }
+      }
+    }
+
     return NextResponse.json({
       ok: true,
       archiveState: result.archiveState,
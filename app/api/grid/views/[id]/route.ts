@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getRequestActor, unauthorizedResponse } from "@/services/auth/role.service";
+import { deleteSavedView, fetchSavedView, updateSavedView } from "@/services/grid/saved-views.service";
+import { updateSavedViewSchema } from "@/services/grid/saved-views.schemas";
+
+function errorStatus(message: string) {
+  if (/not found/i.test(message)) return 404;
+  if (/only the view owner/i.test(message)) return 403;
+  if (/already exists/i.test(message)) return 409;
+  return 500;
+}
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  const actor = await getRequestActor(request);
+  if (!actor.userId) return unauthorizedResponse();
+
+  try {
+    const view = await fetchSavedView(params.id, { userId: actor.userId, role: actor.role });
+    return NextResponse.json({ view });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: errorStatus(message) });
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  const actor = await getRequestActor(request);
+  if (!actor.userId) return unauthorizedResponse();
+
+  try {
+    const payload = updateSavedViewSchema.parse(await request.json());
+    const view = await updateSavedView(params.id, payload, { userId: actor.userId, role: actor.role });
+    return NextResponse.json({ ok: true, view });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid saved view payload", issues: error.issues }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: errorStatus(message) });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  const actor = await getRequestActor(request);
+  if (!actor.userId) return unauthorizedResponse();
+
+  try {
+    await deleteSavedView(params.id, { userId: actor.userId, role: actor.role });
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: errorStatus(message) });
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getRequestActor, unauthorizedResponse } from "@/services/auth/role.service";
+import { setDefaultSavedView } from "@/services/grid/saved-views.service";
+import { defaultSavedViewSchema } from "@/services/grid/saved-views.schemas";
+
+export async function PUT(request: NextRequest) {
+  const actor = await getRequestActor(request);
+  if (!actor.userId) return unauthorizedResponse();
+
+  try {
+    const payload = defaultSavedViewSchema.parse(await request.json());
+    await setDefaultSavedView(payload.type, payload.view_id, { userId: actor.userId, role: actor.role });
+    return NextResponse.json({ ok: true, defaultViewId: payload.view_id });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid default view payload", issues: error.issues }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : "Unknown error";
+    const status = /not found/i.test(message) ? 404 : /different grid/i.test(message) ? 400 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
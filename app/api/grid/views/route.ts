@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { forbiddenResponse, getRequestActor, unauthorizedResponse } from "@/services/auth/role.service";
+import { createSavedView, fetchSavedViews, setDefaultSavedView } from "@/services/grid/saved-views.service";
+import { createSavedViewSchema, savedViewGridTypeSchema } from "@/services/grid/saved-views.schemas";
+
+function errorStatus(message: string) {
+  if (/not found/i.test(message)) return 404;
+  if (/already exists/i.test(message)) return 409;
+  return 500;
+}
+
+export async function GET(request: NextRequest) {
+  const actor = await getRequestActor(request);
+  if (!actor.userId) return unauthorizedResponse();
+
+  try {
+    const type = savedViewGridTypeSchema.parse(new URL(request.url).searchParams.get("type"));
+    // Agents only work the listing grids, same as GET /api/grid/records.
+    if (actor.role === "agent" && type !== "sale" && type !== "rent") return forbiddenResponse();
+    const result = await fetchSavedViews(type, { userId: actor.userId, role: actor.role });
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid saved view query", issues: error.issues }, { status: 400 });
+    }
+    return NextResponse.json({ error: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const actor = await getRequestActor(request);
+  if (!actor.userId) return unauthorizedResponse();
+
+  try {
+    const { type, make_default, ...input } = createSavedViewSchema.parse(await request.json());
+    if (actor.role === "agent" && type !== "sale" && type !== "rent") return forbiddenResponse();
+    const viewActor = { userId: actor.userId, role: actor.role };
+    const view = await createSavedView(type, input, viewActor);
+    if (make_default) await setDefaultSavedView(type, view.id, viewActor);
+    return NextResponse.json({ ok: true, view });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid saved view payload", issues: error.issues }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: errorStatus(message) });
+  }
+}
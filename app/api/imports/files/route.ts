@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdminActor } from "@/services/auth/role.service";
+import { previewFileImport, runFileImport } from "@/services/imports/file-import.service";
+import { fileImportFormSchema } from "@/services/imports/file-import.schemas";
+
+function errorStatus(message: string) {
+  if (/\.csv|larger than|header row|more than|not a valid|worksheets|compression|hierarchy|destination|node/i.test(message)) return 400;
+  return 500;
+}
+
+export async function POST(request: NextRequest) {
+  const { actor, errorResponse } = await requireAdminActor(request);
+  if (errorResponse) return errorResponse;
+
+  try {
+    const form = await request.formData();
+    const file = form.get("file");
+    if (!(file instanceof File)) return NextResponse.json({ error: "No file" }, { status: 400 });
+    const payload = fileImportFormSchema.parse({
+      dataset: form.get("dataset") ?? undefined,
+      hierarchy_node_id: form.get("hierarchy_node_id") || undefined,
+      column_map: form.get("column_map") ?? undefined,
+      dry_run: form.get("dry_run") ?? undefined,
+      skip_invalid: form.get("skip_invalid") ?? undefined
+    });
+
+    const input = {
+      file: { name: file.name, size: file.size, bytes: Buffer.from(await file.arrayBuffer()) },
+      dataset: payload.dataset,
+      hierarchyNodeId: payload.hierarchy_node_id,
+      columnMap: payload.column_map
+    };
+
+    if (payload.dry_run) {
+      const report = await previewFileImport(input);
+      return NextResponse.json({ ok: true, dry_run: true, report });
+    }
+
+    const result = await runFileImport({ ...input, skipInvalid: payload.skip_invalid }, actor.userId);
+    return NextResponse.json({ ok: true, ...result });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid import payload", issues: error.issues }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : "Import failed";
+    return NextResponse.json({ error: message }, { status: errorStatus(message) });
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createSupabaseClient } from "@/services/supabase/client";
+import { presentMedia } from "@/services/media/media-access.service";
 
 export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
   const supabase = createSupabaseClient();
@@ -16,7 +17,7 @@ export async function GET(_request: NextRequest, { params }: { params: { id: str
 
   const { data: media, error: mediaError } = await supabase
     .from("media")
-    .select("id, file_url, media_type, mime_type, original_filename, file_size, created_at, record_id, record_type")
+    .select("id, file_url, media_type, mime_type, original_filename, file_size, width, height, variants, created_at, record_id, record_type")
     .eq("intake_session_id", params.id)
     .order("created_at", { ascending: false });
 
@@ -24,5 +25,5 @@ export async function GET(_request: NextRequest, { params }: { params: { id: str
     return NextResponse.json({ error: mediaError.message }, { status: 500 });
   }
 
-  return NextResponse.json({ session, media: media || [] });
+  return NextResponse.json({ session, media: (media || []).map(presentMedia) });
 }
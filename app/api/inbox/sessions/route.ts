@@ -1,14 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createSupabaseClient } from "@/services/supabase/client";
-import { buildMediaPath, detectMediaType, mediaStorageProvider } from "@/services/media/media-manager.service";
+import { buildMediaPath, detectMediaType } from "@/services/media/media-manager.service";
+import { storeMediaFile } from "@/services/media/media-upload.service";
 import { getRequestActor, requireAdminActor } from "@/services/auth/role.service";
 import { writeAuditLog } from "@/services/audit/audit-log.service";
+import { presentMedia } from "@/services/media/media-access.service";
 
 type IntakeStatus = "draft" | "needs_review" | "confirmed";
 type IntakeType = "sale" | "rent" | "buyer" | "client" | "other" | "";
 
 const INBOX_SESSION_SELECT = "id, parent_session_id, status, created_at, type_detected, type_confirmed, raw_text, ai_json, ai_meta, completeness_score";
-const INBOX_MEDIA_SELECT = "id, intake_session_id, file_url, media_type, mime_type, original_filename, file_size, created_at";
+const INBOX_MEDIA_SELECT = "id, intake_session_id, file_url, media_type, mime_type, original_filename, file_size, width, height, variants, created_at";
 
 function parseIsoDate(input: string) {
   const parsed = new Date(input);
@@ -102,7 +104,7 @@ export async function GET(request: NextRequest) {
     const mediaBySession = new Map<string, Array<Record<string, unknown>>>();
     for (const row of mediaRows || []) {
       const list = mediaBySession.get(String(row.intake_session_id)) || [];
-      list.push(row as Record<string, unknown>);
+      list.push(presentMedia(row) as Record<string, unknown>);
       mediaBySession.set(String(row.intake_session_id), list);
     }
 
@@ -206,7 +208,7 @@ export async function POST(request: NextRequest) {
     seen.add(sig);
 
     const path = buildMediaPath({ intakeSessionId: session.id, filename: file.name });
-    const upload = await mediaStorageProvider.upload(path, file);
+    const stored = await storeMediaFile(path, file);
     const mediaType = detectMediaType(file.type || "");
 
     records.push({
@@ -215,7 +217,7 @@ export async function POST(request: NextRequest) {
       record_id: null,
       linked_record_type: null,
       linked_record_id: null,
-      file_url: upload.publicUrl,
+      ...stored,
       mime_type: file.type || "application/octet-stream",
       media_type: mediaType,
       type: mediaType,
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { createSupabaseClient } from "@/services/supabase/client";
 import { requireAdminActor } from "@/services/auth/role.service";
 import { z } from "zod";
+import { presentMedia } from "@/services/media/media-access.service";
 
 type ReviewType = "sale" | "rent" | "buyer" | "client" | "other";
 type QuestionType = "text" | "number" | "select" | "multiselect" | "phone";
@@ -86,7 +87,7 @@ export async function GET(_request: NextRequest, { params }: { params: { id: str
 
   const { data: media, error: mediaError } = await supabase
     .from("media")
-    .select("id, file_url, media_type, mime_type, original_filename, file_size, created_at, record_id, record_type")
+    .select("id, file_url, media_type, mime_type, original_filename, file_size, width, height, variants, created_at, record_id, record_type")
     .eq("intake_session_id", params.id)
     .order("created_at", { ascending: false });
 
@@ -102,7 +103,7 @@ export async function GET(_request: NextRequest, { params }: { params: { id: str
 
   const quick_questions = deriveQuestions(type, aiJson, String(session.raw_text || ""), missingFields);
 
-  return NextResponse.json({ session, media: media || [], quick_questions });
+  return NextResponse.json({ session, media: (media || []).map(presentMedia), quick_questions });
 }
 
 export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
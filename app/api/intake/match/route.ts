@@ -1,11 +1,55 @@
 import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
 import { requireAdminActor } from "@/services/auth/role.service";
+import { SearchService } from "@/modules/search";
+
+const searchService = new SearchService();
+
+const payloadSchema = z.union([
+  z.object({
+    buyer_id: z.string().uuid(),
+    min_score: z.number().min(0).max(100).optional(),
+    limit: z.number().int().min(1).max(200).optional()
+  }),
+  z.object({
+    listing_type: z.enum(["sale", "rent"]),
+    listing_id: z.string().uuid(),
+    min_score: z.number().min(0).max(100).optional(),
+    limit: z.number().int().min(1).max(200).optional()
+  })
+]);
 
 export async function POST(request: NextRequest) {
   const { errorResponse } = await requireAdminActor(request);
   if (errorResponse) return errorResponse;
-  return NextResponse.json({
-    status: "not_implemented",
-    message: "Entity matching will be implemented in modules/search business layer."
-  });
+
+  try {
+    const payload = payloadSchema.parse(await request.json());
+
+    if ("buyer_id" in payload) {
+      const result = await searchService.matchListingsForBuyer({
+        buyerId: payload.buyer_id,
+        minScore: payload.min_score,
+        limit: payload.limit
+      });
+      return NextResponse.json({ direction: "buyer_to_listings", ...result });
+    }
+
+    const result = await searchService.matchBuyersForListing({
+      listingType: payload.listing_type,
+      listingId: payload.listing_id,
+      minScore: payload.min_score,
+      limit: payload.limit
+    });
+    return NextResponse.json({ direction: "listing_to_buyers", ...result });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid match payload", issues: error.issues }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : "Unknown error";
+    if (message.toLowerCase().includes("not found")) {
+      return NextResponse.json({ error: message }, { status: 404 });
+    }
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
 }
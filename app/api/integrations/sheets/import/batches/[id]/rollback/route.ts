@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdminActor } from "@/services/auth/role.service";
+import { rollbackSheetImportBatch } from "@/services/integrations/sheet-import.service";
+
+function errorStatus(message: string) {
+  if (/not found/i.test(message)) return 404;
+  if (/already rolled back/i.test(message)) return 409;
+  return 500;
+}
+
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  const { actor, errorResponse } = await requireAdminActor(request);
+  if (errorResponse) return errorResponse;
+  if (!actor.userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  try {
+    const batch = await rollbackSheetImportBatch(params.id, actor.userId);
+    return NextResponse.json({ ok: true, batch });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Rollback failed";
+    return NextResponse.json({ error: message }, { status: errorStatus(message) });
+  }
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdminActor } from "@/services/auth/role.service";
+import { fetchSheetImportBatches } from "@/services/integrations/sheet-import.service";
+
+export async function GET(request: NextRequest) {
+  const { errorResponse } = await requireAdminActor(request);
+  if (errorResponse) return errorResponse;
+
+  try {
+    const { searchParams } = request.nextUrl;
+    const source = searchParams.get("source");
+    const batches = await fetchSheetImportBatches({
+      source: source === "google_sheets" || source === "file" ? source : undefined,
+      spreadsheetId: searchParams.get("spreadsheet_id") || undefined
+    });
+    return NextResponse.json({ batches });
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdminActor } from "@/services/auth/role.service";
+import { resolveSheetSyncConflict } from "@/services/integrations/sheet-sync.service";
+import { resolveSheetSyncConflictSchema } from "@/services/integrations/sheet-sync.schemas";
+
+function errorStatus(message: string) {
+  if (/not found/i.test(message)) return 404;
+  if (/already resolved|changed during/i.test(message)) return 409;
+  return 500;
+}
+
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  const { actor, errorResponse } = await requireAdminActor(request);
+  if (errorResponse) return errorResponse;
+
+  try {
+    const payload = resolveSheetSyncConflictSchema.parse(await request.json());
+    const outcome = await resolveSheetSyncConflict(params.id, payload.keep, actor.userId);
+    return NextResponse.json({ ok: true, outcome });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid resolution payload", issues: error.issues }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: errorStatus(message) });
+  }
+}
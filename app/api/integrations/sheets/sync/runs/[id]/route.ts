@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdminActor } from "@/services/auth/role.service";
+import { fetchSheetSyncRun } from "@/services/integrations/sheet-sync.service";
+import { sheetSyncOutcomeSchema } from "@/services/integrations/sheet-sync.schemas";
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  const { errorResponse } = await requireAdminActor(request);
+  if (errorResponse) return errorResponse;
+
+  const rawOutcome = request.nextUrl.searchParams.get("outcome");
+  const outcome = rawOutcome ? sheetSyncOutcomeSchema.safeParse(rawOutcome) : null;
+  if (outcome && !outcome.success) return NextResponse.json({ error: "Invalid outcome filter" }, { status: 400 });
+
+  try {
+    const result = await fetchSheetSyncRun(params.id, { outcome: outcome?.data });
+    return NextResponse.json(result);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: /not found/i.test(message) ? 404 : 500 });
+  }
+}
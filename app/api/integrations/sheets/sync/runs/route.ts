@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdminActor } from "@/services/auth/role.service";
+import { fetchSheetSyncRuns, runSheetSync } from "@/services/integrations/sheet-sync.service";
+import { startSheetSyncSchema } from "@/services/integrations/sheet-sync.schemas";
+
+function errorStatus(message: string) {
+  if (/already running/i.test(message)) return 409;
+  if (/required|no crm_id column|missing columns/i.test(message)) return 400;
+  return 500;
+}
+
+export async function GET(request: NextRequest) {
+  const { errorResponse } = await requireAdminActor(request);
+  if (errorResponse) return errorResponse;
+
+  try {
+    const runs = await fetchSheetSyncRuns({ spreadsheetId: request.nextUrl.searchParams.get("spreadsheet_id") || undefined });
+    return NextResponse.json({ runs });
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const { actor, errorResponse } = await requireAdminActor(request);
+  if (errorResponse) return errorResponse;
+
+  try {
+    const payload = startSheetSyncSchema.parse(await request.json());
+    const run = await runSheetSync({ spreadsheetId: payload.spreadsheet_id, dataset: payload.dataset, tabName: payload.tab }, actor.userId);
+    return NextResponse.json({ ok: true, run });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid sync payload", issues: error.issues }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : "Sync failed";
+    return NextResponse.json({ error: message }, { status: errorStatus(message) });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRequestActor, unauthorizedResponse } from "@/services/auth/role.service";
+import { createTelegramLinkCode, fetchTelegramLink, unlinkTelegram } from "@/services/integrations/telegram-bot.service";
+
+export async function GET(request: NextRequest) {
+  const actor = await getRequestActor(request);
+  if (!actor.userId) return unauthorizedResponse();
+
+  try {
+    return NextResponse.json(await fetchTelegramLink(actor.userId));
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const actor = await getRequestActor(request);
+  if (!actor.userId) return unauthorizedResponse();
+
+  try {
+    return NextResponse.json({ ok: true, ...(await createTelegramLinkCode(actor.userId)) });
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const actor = await getRequestActor(request);
+  if (!actor.userId) return unauthorizedResponse();
+
+  try {
+    await unlinkTelegram(actor.userId);
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+  }
+}
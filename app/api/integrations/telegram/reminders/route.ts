@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireApiKey } from "@/services/auth/api-key.service";
+import { sendTelegramTaskReminders } from "@/services/integrations/telegram-bot.service";
+
+// Called by an external scheduler every few minutes.
+export async function POST(request: NextRequest) {
+  const { errorResponse } = await requireApiKey(request, "jobs:run");
+  if (errorResponse) return errorResponse;
+
+  try {
+    const summary = await sendTelegramTaskReminders();
+    return NextResponse.json({ ok: true, ...summary });
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { TelegramIntegrationService } from "@/services/integrations/telegram.service";
+import { handleTelegramUpdate } from "@/services/integrations/telegram-bot.service";
+
+// Registered with Telegram via setWebhook(url, secret_token=TELEGRAM_WEBHOOK_SECRET).
+export async function POST(request: NextRequest) {
+  const telegram = new TelegramIntegrationService();
+  if (!telegram.configured) return NextResponse.json({ error: "Server misconfigured: missing TELEGRAM_BOT_TOKEN" }, { status: 500 });
+  if (!telegram.verifyWebhookSecret(request.headers.get("x-telegram-bot-api-secret-token"))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const update = await request.json().catch(() => null);
+  if (!update) return NextResponse.json({ error: "Invalid update payload" }, { status: 400 });
+
+  try {
+    const result = await handleTelegramUpdate(update, telegram);
+    return NextResponse.json({ ok: true, ...result });
+  } catch (error) {
+    // A non-2xx makes Telegram redeliver the update, which is what we want when nothing was stored.
+    return NextResponse.json({ error: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireApiKey } from "@/services/auth/api-key.service";
+import { createVoiceflowIntake } from "@/services/integrations/voiceflow-intake.service";
+import { voiceflowTranscriptSchema } from "@/services/integrations/voiceflow.schemas";
+
+export async function POST(request: NextRequest) {
+  const { errorResponse } = await requireApiKey(request, "intake:write");
+  if (errorResponse) return errorResponse;
+
+  try {
+    const payload = voiceflowTranscriptSchema.parse(await request.json());
+    const result = await createVoiceflowIntake(payload);
+    return NextResponse.json({
+      intake_session_id: result.intakeSessionId,
+      contact_id: result.contactId,
+      status: "draft",
+      duplicate: result.duplicate
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid transcript payload", issues: error.issues }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: message === "transcript is empty" ? 400 : 500 });
+  }
+}
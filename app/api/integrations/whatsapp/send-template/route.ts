@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdminActor } from "@/services/auth/role.service";
+import { sendWhatsAppTemplateToRecord } from "@/services/integrations/whatsapp-intake.service";
+import { sendWhatsAppTemplateSchema } from "@/services/integrations/whatsapp.schemas";
+import { WhatsAppIntegrationService } from "@/services/integrations/whatsapp.service";
+
+function errorStatus(message: string) {
+  if (/not found/i.test(message)) return 404;
+  if (/read-only/i.test(message)) return 409;
+  if (/no linked contact|no WhatsApp or phone/i.test(message)) return 400;
+  if (/not configured/i.test(message)) return 503;
+  return 500;
+}
+
+export async function GET(request: NextRequest) {
+  const { errorResponse } = await requireAdminActor(request);
+  if (errorResponse) return errorResponse;
+  return NextResponse.json({ configured: new WhatsAppIntegrationService().canSend });
+}
+
+export async function POST(request: NextRequest) {
+  const { actor, errorResponse } = await requireAdminActor(request);
+  if (errorResponse) return errorResponse;
+
+  try {
+    const payload = sendWhatsAppTemplateSchema.parse(await request.json());
+    const result = await sendWhatsAppTemplateToRecord(payload, actor.userId);
+    return NextResponse.json({ ok: true, message_id: result.messageId, to: result.to });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid template payload", issues: error.issues }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: errorStatus(message) });
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { WhatsAppIntegrationService } from "@/services/integrations/whatsapp.service";
+import { handleWhatsAppWebhook } from "@/services/integrations/whatsapp-intake.service";
+
+// Subscription handshake: Meta calls GET with hub.mode, hub.verify_token and hub.challenge when the callback URL is saved.
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const whatsapp = new WhatsAppIntegrationService();
+  if (!whatsapp.verifySubscription(searchParams.get("hub.mode"), searchParams.get("hub.verify_token"))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  return new NextResponse(searchParams.get("hub.challenge") || "", { status: 200, headers: { "Content-Type": "text/plain" } });
+}
+
+export async function POST(request: NextRequest) {
+  const whatsapp = new WhatsAppIntegrationService();
+  if (!whatsapp.configured) return NextResponse.json({ error: "Server misconfigured: missing WHATSAPP_ACCESS_TOKEN" }, { status: 500 });
+
+  // The signature covers the exact bytes Meta sent, so read the raw body before parsing.
+  const rawBody = await request.text();
+  if (!whatsapp.verifySignature(rawBody, request.headers.get("x-hub-signature-256"))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(rawBody);
+  } catch {
+    return NextResponse.json({ error: "Invalid webhook payload" }, { status: 400 });
+  }
+
+  try {
+    const result = await handleWhatsAppWebhook(payload, whatsapp);
+    return NextResponse.json({ ok: true, ...result });
+  } catch (error) {
+    // A non-2xx makes Meta redeliver; messages already stored are skipped by message id.
+    return NextResponse.json({ error: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+  }
+}
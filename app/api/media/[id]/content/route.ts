@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getMediaAccessConfig } from "@/lib/env";
+import { getRequestActor } from "@/services/auth/role.service";
+import { MEDIA_LOCATION_SELECT, locateMediaObject, mediaObjectUrl, type MediaLocationRow } from "@/services/media/media-access.service";
+import { createSupabaseClient } from "@/services/supabase/client";
+
+const variantSchema = z.enum(["thumb", "web", "watermarked"]).optional();
+
+/**
+ * Serves a media file to signed-in users by redirecting to a short-lived signed URL (or the public URL when media is
+ * public). Agents only reach sale and rent media, as in `GET /api/media`.
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  const actor = await getRequestActor(request);
+  if (!actor.userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  try {
+    const mediaId = z.string().uuid().parse(params.id);
+    const variant = variantSchema.parse(request.nextUrl.searchParams.get("variant") || undefined);
+
+    const supabase = createSupabaseClient();
+    const { data, error } = await supabase.from("media").select(`id, record_type, ${MEDIA_LOCATION_SELECT}`).eq("id", mediaId).maybeSingle();
+    if (error) throw new Error(error.message);
+    if (!data) return NextResponse.json({ error: "Media item not found" }, { status: 404 });
+    if (actor.role === "agent" && !["properties_sale", "properties_rent"].includes(String(data.record_type))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const row = data as MediaLocationRow;
+    const location = locateMediaObject(row, variant);
+    if (!location) return NextResponse.json({ error: "Media file not found" }, { status: 404 });
+
+    const storedUrl = variant ? row.variants?.[variant]?.url : row.file_url;
+    const response = NextResponse.redirect(await mediaObjectUrl(location, storedUrl));
+    // Let the browser reuse the redirect while the signed URL it points to is still valid.
+    const { signedUrlTtlSeconds } = getMediaAccessConfig();
+    response.headers.set("Cache-Control", `private, max-age=${Math.max(0, signedUrlTtlSeconds - 60)}`);
+    return response;
+  } catch (error) {
+    if (error instanceof z.ZodError) return NextResponse.json({ error: "Invalid media request", issues: error.issues }, { status: 400 });
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("[media] content request failed", { mediaId: params.id, error: message });
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
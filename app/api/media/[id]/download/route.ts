@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getRequestActor } from "@/services/auth/role.service";
+import { resolveMediaDownloadUrl } from "@/services/media/media-watermark.service";
+
+/**
+ * Downloads are treated as leaving the CRM: listing photos redirect to their watermarked copy when watermarking is
+ * enabled, everything else to the original.
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  const actor = await getRequestActor(request);
+  if (!actor.userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  try {
+    const mediaId = z.string().uuid().parse(params.id);
+    const download = await resolveMediaDownloadUrl(mediaId);
+    if (actor.role === "agent" && !["properties_sale", "properties_rent"].includes(String(download.record_type))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    return NextResponse.redirect(download.url);
+  } catch (error) {
+    if (error instanceof z.ZodError) return NextResponse.json({ error: "Invalid media id", issues: error.issues }, { status: 400 });
+    const message = error instanceof Error ? error.message : "Unknown error";
+    if (/not found/i.test(message)) return NextResponse.json({ error: message }, { status: 404 });
+    console.error("[media-watermark] download failed", { mediaId: params.id, error: message });
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
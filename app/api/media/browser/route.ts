@@ -3,6 +3,8 @@ import { z } from "zod";
 import { createSupabaseClient } from "@/services/supabase/client";
 import { getRequestActor } from "@/services/auth/role.service";
 import { fetchHierarchyTree, fetchMediaByNode, fetchMediaCountsByFamily } from "@/services/hierarchy/hierarchy.service";
+import type { MediaVariants } from "@/lib/media-variants";
+import { presentMedia } from "@/services/media/media-access.service";
 
 const querySchema = z.object({
   family: z.enum(["sale", "rent", "buyers", "clients"]),
@@ -124,7 +126,7 @@ export async function GET(request: NextRequest) {
       nodes: treeResult.nodes,
       counts,
       unassignedCount: actor.role === "agent" ? filteredUnassignedCount : unassignedMedia.length,
-      media: filteredMedia
+      media: filteredMedia.map((item) => presentMedia(item as { id: string; file_url?: string | null; variants?: MediaVariants | null }))
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
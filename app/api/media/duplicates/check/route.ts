@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdminActor } from "@/services/auth/role.service";
+import { checkUploadDuplicates } from "@/services/media/media-dedup.service";
+
+/** Hashes picked files without storing them and returns media that already has the same or a near-identical file. */
+export async function POST(request: NextRequest) {
+  const { actor, errorResponse } = await requireAdminActor(request);
+  if (errorResponse) return errorResponse;
+
+  const form = await request.formData();
+  const files = form.getAll("files").filter((v): v is File => v instanceof File);
+  if (files.length === 0) return NextResponse.json({ error: "No files" }, { status: 400 });
+
+  try {
+    return NextResponse.json({ files: await checkUploadDuplicates(files, actor.role) });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("[media-dedup] upload check failed", { error: message });
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getRequestActor } from "@/services/auth/role.service";
+import { findDuplicatesForMedia } from "@/services/media/media-dedup.service";
+import { mediaDuplicatesQuerySchema } from "@/services/media/media-dedup.schemas";
+
+/** Exact and near-identical copies of stored media, for the warnings in the media browser and intake review. */
+export async function POST(request: NextRequest) {
+  const actor = await getRequestActor(request);
+  if (!actor.userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  try {
+    const input = mediaDuplicatesQuerySchema.parse(await request.json());
+    return NextResponse.json({ duplicates: await findDuplicatesForMedia(input.media_ids, actor.role) });
+  } catch (error) {
+    if (error instanceof z.ZodError) return NextResponse.json({ error: "Invalid duplicates payload", issues: error.issues }, { status: 400 });
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("[media-dedup] duplicate lookup failed", { error: message });
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
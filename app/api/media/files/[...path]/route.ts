@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getMediaAccessConfig, getMediaStorageConfig } from "@/lib/env";
+import { verifyMediaUrlSignature } from "@/lib/media-url-signing";
+import { getMediaStorageProvider } from "@/services/media/media-manager.service";
+import { LocalMediaProvider, contentTypeForPath } from "@/services/media/local-media-provider";
+
+/**
+ * Serves objects of the local-disk storage provider, standing in for a public bucket. URLs from `createSignedUrl`
+ * carry `expires` and `signature`; when present they must be valid, and with private media they are required.
+ */
+export async function GET(request: NextRequest, { params }: { params: { path: string[] } }) {
+  const provider = getMediaStorageProvider();
+  const config = getMediaStorageConfig();
+  if (!(provider instanceof LocalMediaProvider) || config.provider !== "local") {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const [bucket, ...pathParts] = params.path;
+  const path = pathParts.join("/");
+  if (bucket !== provider.bucket || !path) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  const signature = request.nextUrl.searchParams.get("signature");
+  if (signature === null && getMediaAccessConfig().mode === "private") {
+    return NextResponse.json({ error: "Signed URL required" }, { status: 403 });
+  }
+  if (signature !== null) {
+    const expiresAt = Number(request.nextUrl.searchParams.get("expires"));
+    if (!verifyMediaUrlSignature(config.signingSecret, `${bucket}/${path}`, expiresAt, signature)) {
+      return NextResponse.json({ error: "Invalid or expired signature" }, { status: 403 });
+    }
+  }
+
+  try {
+    const bytes = await provider.download(path, bucket);
+    return new NextResponse(new Uint8Array(bytes), {
+      headers: {
+        "Content-Type": contentTypeForPath(path),
+        "Content-Length": String(bytes.length),
+        "Cache-Control": signature !== null ? "private, max-age=300" : "public, max-age=3600"
+      }
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    if (/not found|invalid storage path/i.test(message)) return NextResponse.json({ error: "Not found" }, { status: 404 });
+    console.error("[media] local file read failed", { bucket, path, error: message });
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { writeAuditLog } from "@/services/audit/audit-log.service";
+import { requireAdminActor } from "@/services/auth/role.service";
+import { linkExistingMedia } from "@/services/media/media-dedup.service";
+import { linkExistingMediaSchema } from "@/services/media/media-dedup.schemas";
+
+function errorStatus(message: string) {
+  if (/not found/i.test(message)) return 404;
+  if (/could not be located|cannot replace|duplicate key/i.test(message)) return 400;
+  return 500;
+}
+
+export async function POST(request: NextRequest) {
+  const { actor, errorResponse } = await requireAdminActor(request);
+  if (errorResponse) return errorResponse;
+
+  try {
+    const input = linkExistingMediaSchema.parse(await request.json());
+    const result = await linkExistingMedia(input, actor.userId);
+
+    await writeAuditLog({
+      user_id: actor.userId,
+      action: result.replaced ? "media_replace_with_existing" : "media_link_existing",
+      record_type: "media",
+      record_id: result.media_id,
+      before_json: null,
+      after_json: { ...input, storage_cleanup: result.storageCleanup },
+      source: "media"
+    });
+
+    return NextResponse.json({ ok: true, ...result });
+  } catch (error) {
+    if (error instanceof z.ZodError) return NextResponse.json({ error: "Invalid link payload", issues: error.issues }, { status: 400 });
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: errorStatus(message) });
+  }
+}
@@ -1,30 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createSupabaseClient } from "@/services/supabase/client";
 import { getRequestActor, requireAdminActor } from "@/services/auth/role.service";
-import { assignMediaToHierarchyNode } from "@/services/hierarchy/hierarchy.service";
-import { buildMediaPath, detectMediaType, mediaStorageProvider } from "@/services/media/media-manager.service";
-
-const recordLinkColumnByRecordType = {
-  properties_sale: "sale_id",
-  properties_rent: "rent_id",
-  buyers: "buyer_id",
-  clients: "client_id"
-} as const;
-
-async function resolveRecordHierarchyNodeId(recordType: string, recordId: string) {
-  const linkColumn = recordLinkColumnByRecordType[recordType as keyof typeof recordLinkColumnByRecordType];
-  if (!linkColumn || !recordId) return "";
-
-  const supabase = createSupabaseClient();
-  const { data, error } = await supabase
-    .from("record_hierarchy_links")
-    .select("node_id")
-    .eq(linkColumn, recordId)
-    .maybeSingle();
-
-  if (error) throw new Error(error.message);
-  return String(data?.node_id || "");
-}
+import { assignMediaToHierarchyNode, fetchRecordHierarchyNodeId } from "@/services/hierarchy/hierarchy.service";
+import { buildMediaPath, detectMediaType } from "@/services/media/media-manager.service";
+import { storeMediaFile } from "@/services/media/media-upload.service";
+import { emitWebhookEvent } from "@/services/webhooks/webhook-events.service";
+import { presentMedia } from "@/services/media/media-access.service";
 
 export async function GET(request: NextRequest) {
   const actor = await getRequestActor(request);
@@ -41,7 +22,7 @@ export async function GET(request: NextRequest) {
 
   let query = supabase
     .from("media")
-    .select("id, file_url, mime_type, media_type, original_filename, file_size, created_at, intake_session_id, record_type, record_id")
+    .select("id, file_url, mime_type, media_type, original_filename, file_size, width, height, variants, created_at, intake_session_id, record_type, record_id")
     .order("created_at", { ascending: false })
     .limit(200);
 
@@ -54,7 +35,7 @@ export async function GET(request: NextRequest) {
 
   const { data, error } = await query;
   if (error) return NextResponse.json({ error: error.message }, { status: 500 });
-  return NextResponse.json({ media: data || [] });
+  return NextResponse.json({ media: (data || []).map(presentMedia) });
 }
 
 export async function POST(request: NextRequest) {
@@ -103,15 +84,14 @@ export async function POST(request: NextRequest) {
       recordId: recordId || undefined
     });
 
-    const uploaded = await mediaStorageProvider.upload(path, file);
+    const stored = await storeMediaFile(path, file);
     const mediaType = detectMediaType(file.type || "");
 
     records.push({
       record_type: recordType || null,
       record_id: recordId || null,
       intake_session_id: intakeSessionId || null,
-      storage_path: path,
-      file_url: uploaded.publicUrl,
+      ...stored,
       mime_type: file.type || "application/octet-stream",
       media_type: mediaType,
       original_filename: file.name,
@@ -121,7 +101,7 @@ export async function POST(request: NextRequest) {
 
   let inserted: Array<{ id: string }> = [];
   if (records.length > 0) {
-    const { data, error } = await supabase.from("media").insert(records).select("id");
+    const { data, error } = await supabase.from("media").insert(records).select("id,media_type,mime_type,original_filename,file_size");
     if (error) return NextResponse.json({ error: error.message }, { status: 500 });
     inserted = (data || []) as Array<{ id: string }>;
   }
@@ -129,7 +109,7 @@ export async function POST(request: NextRequest) {
   const hierarchyWarnings: string[] = [];
   if (recordType && recordId && inserted.length > 0) {
     try {
-      const hierarchyNodeId = await resolveRecordHierarchyNodeId(recordType, recordId);
+      const hierarchyNodeId = await fetchRecordHierarchyNodeId(recordType, recordId);
       if (hierarchyNodeId) {
         for (const row of inserted) {
           await assignMediaToHierarchyNode({ mediaId: String(row.id), nodeId: hierarchyNodeId, actorUserId: actor.userId });
@@ -140,5 +120,15 @@ export async function POST(request: NextRequest) {
     }
   }
 
+  if (inserted.length > 0) {
+    await emitWebhookEvent("media.uploaded", {
+      record_type: recordType || null,
+      record_id: recordId || null,
+      intake_session_id: intakeSessionId || null,
+      media: inserted,
+      actor_user_id: actor.userId
+    });
+  }
+
   return NextResponse.json({ ok: true, uploaded: records.length, skippedDuplicates: duplicates, hierarchyWarnings });
 }
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { writeAuditLog } from "@/services/audit/audit-log.service";
+import { requireAdminActor } from "@/services/auth/role.service";
+import { saveWatermarkSettings } from "@/services/media/media-watermark.service";
+import { watermarkSettingsFormSchema } from "@/services/media/media-watermark.schemas";
+
+const LOGO_MAX_BYTES = 2 * 1024 * 1024;
+
+function errorStatus(message: string) {
+  if (/not found/i.test(message)) return 404;
+  if (/logo|caption|hierarchy root/i.test(message)) return 400;
+  return 500;
+}
+
+export async function PUT(request: NextRequest, { params }: { params: { rootId: string } }) {
+  const { actor, errorResponse } = await requireAdminActor(request);
+  if (errorResponse) return errorResponse;
+
+  try {
+    const rootNodeId = z.string().uuid().parse(params.rootId);
+    const form = await request.formData();
+    const payload = watermarkSettingsFormSchema.parse({
+      enabled: form.get("enabled") ?? undefined,
+      position: form.get("position") ?? undefined,
+      opacity: form.get("opacity") ?? undefined,
+      text_template: form.get("text_template") ?? undefined,
+      remove_logo: form.get("remove_logo") ?? undefined
+    });
+    const logo = form.get("logo");
+    const logoFile = logo instanceof File && logo.size > 0 ? logo : null;
+    if (logoFile && logoFile.size > LOGO_MAX_BYTES) return NextResponse.json({ error: "Logo is larger than 2 MB" }, { status: 400 });
+
+    const { before, settings } = await saveWatermarkSettings(rootNodeId, payload, logoFile, actor.userId);
+
+    await writeAuditLog({
+      user_id: actor.userId,
+      action: "media_watermark_update",
+      record_type: "hierarchy_nodes",
+      record_id: rootNodeId,
+      before_json: before as unknown as Record<string, unknown>,
+      after_json: settings as unknown as Record<string, unknown>,
+      source: "media"
+    });
+
+    return NextResponse.json({ ok: true, settings });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid watermark payload", issues: error.issues }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: errorStatus(message) });
+  }
+}
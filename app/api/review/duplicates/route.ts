@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdminActor } from "@/services/auth/role.service";
+import { DuplicatesService, normalizeListingDuplicateInput } from "@/modules/duplicates";
+
+const duplicatesService = new DuplicatesService();
+
+const payloadSchema = z.object({
+  type: z.enum(["sale", "rent"]),
+  extractedData: z.record(z.string(), z.unknown()).default({}),
+  excludeRecordId: z.string().uuid().optional(),
+  limit: z.number().int().min(1).max(50).optional()
+});
+
+export async function POST(request: NextRequest) {
+  const { errorResponse } = await requireAdminActor(request);
+  if (errorResponse) return errorResponse;
+
+  try {
+    const payload = payloadSchema.parse(await request.json());
+    const result = await duplicatesService.findListingDuplicates({
+      listingType: payload.type,
+      extracted: normalizeListingDuplicateInput(payload.extractedData),
+      excludeRecordId: payload.excludeRecordId,
+      limit: payload.limit
+    });
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid duplicate check payload", issues: error.issues }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
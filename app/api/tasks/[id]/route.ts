@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createSupabaseClient } from "@/services/supabase/client";
 import { requireAdminActor } from "@/services/auth/role.service";
+import { emitVoiceflowEvent } from "@/services/integrations/voiceflow-events.service";
+import { emitWebhookEvent } from "@/services/webhooks/webhook-events.service";
 
 type RelatedType = "sale" | "rent" | "buyer" | "client" | "contact";
 
@@ -29,7 +31,7 @@ async function isContactLinkedToArchivedRecords(supabase: ReturnType<typeof crea
 }
 
 export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
-  const { errorResponse } = await requireAdminActor(request);
+  const { actor, errorResponse } = await requireAdminActor(request);
   if (errorResponse) return errorResponse;
 
   const body = (await request.json()) as { status?: "open" | "done" | "cancelled"; due_date?: string | null; assigned_to?: string | null; title?: string };
@@ -41,6 +43,8 @@ export async function PATCH(request: NextRequest, { params }: { params: { id: st
   if (typeof body.title === "string") updates.title = body.title.trim();
 
   if (Object.keys(updates).length === 0) return NextResponse.json({ error: "No updates provided" }, { status: 400 });
+  // A new due date or assignee earns a fresh Telegram reminder.
+  if ("due_date" in updates || "assigned_to" in updates) updates.telegram_reminded_at = null;
 
   const supabase = createSupabaseClient();
   const { data: before } = await supabase.from("tasks").select("id,related_type,related_id,status,title,due_date,assigned_to").eq("id", params.id).maybeSingle();
@@ -79,5 +83,27 @@ export async function PATCH(request: NextRequest, { params }: { params: { id: st
     });
   }
 
+  if (data.status === "done" && before.status !== "done") {
+    await emitWebhookEvent("task.completed", {
+      task_id: data.id,
+      title: data.title,
+      related_type: data.related_type,
+      related_id: data.related_id,
+      assigned_to: data.assigned_to,
+      completed_by: actor.userId
+    });
+  }
+
+  if (data.assigned_to && data.assigned_to !== before.assigned_to) {
+    await emitVoiceflowEvent("task.assigned", {
+      task_id: data.id,
+      title: data.title,
+      due_date: data.due_date,
+      assigned_to: data.assigned_to,
+      related_type: data.related_type,
+      related_id: data.related_id
+    });
+  }
+
   return NextResponse.json({ task: data, before });
 }
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createSupabaseClient } from "@/services/supabase/client";
 import { forbiddenResponse, getRequestActor, requireAdminActor } from "@/services/auth/role.service";
+import { emitVoiceflowEvent } from "@/services/integrations/voiceflow-events.service";
 
 type RelatedType = "sale" | "rent" | "buyer" | "client" | "contact";
 
@@ -157,5 +158,16 @@ export async function POST(request: NextRequest) {
     details: { task_id: data.id, title, assigned_to: data.assigned_to, due_date: data.due_date }
   });
 
+  if (data.assigned_to) {
+    await emitVoiceflowEvent("task.assigned", {
+      task_id: data.id,
+      title: data.title,
+      due_date: data.due_date,
+      assigned_to: data.assigned_to,
+      related_type: data.related_type,
+      related_id: data.related_id
+    });
+  }
+
   return NextResponse.json({ task: data });
 }
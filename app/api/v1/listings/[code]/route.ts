@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireApiKey } from "@/services/auth/api-key.service";
+import { getPublicListingByCode } from "@/services/public-api/listings.service";
+
+export async function GET(request: NextRequest, { params }: { params: { code: string } }) {
+  const { errorResponse } = await requireApiKey(request, "records:read");
+  if (errorResponse) return errorResponse;
+
+  try {
+    const listing = await getPublicListingByCode(params.code);
+    return NextResponse.json({ data: listing });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: /not found/i.test(message) ? 404 : 500 });
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireApiKey } from "@/services/auth/api-key.service";
+import { listPublicListings } from "@/services/public-api/listings.service";
+import { listListingsQuerySchema } from "@/services/public-api/listings.schemas";
+
+export async function GET(request: NextRequest) {
+  const { errorResponse } = await requireApiKey(request, "records:read");
+  if (errorResponse) return errorResponse;
+
+  try {
+    // Repeated keys (`area=a&area=b`) are treated like the comma-separated form.
+    const params: Record<string, string> = {};
+    request.nextUrl.searchParams.forEach((value, key) => {
+      params[key] = params[key] ? `${params[key]},${value}` : value;
+    });
+    const query = listListingsQuerySchema.parse(params);
+    return NextResponse.json(await listPublicListings(query));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid query parameters", issues: error.issues }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: /invalid cursor/i.test(message) ? 400 : 500 });
+  }
+}
@@ -0,0 +1,8 @@
+import { NextResponse } from "next/server";
+import { getAppBaseUrl } from "@/lib/env";
+import { buildPublicApiDocument } from "@/services/public-api/openapi.service";
+
+// The document itself is public so partners can generate clients before they have a key.
+export async function GET() {
+  return NextResponse.json(buildPublicApiDocument(getAppBaseUrl()));
+}
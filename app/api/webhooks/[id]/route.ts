@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdminActor } from "@/services/auth/role.service";
+import { deleteWebhook, fetchWebhook, fetchWebhookDeliveries, updateWebhook } from "@/services/webhooks/webhook.service";
+import { updateWebhookSchema } from "@/services/webhooks/webhook.schemas";
+
+function errorStatus(message: string) {
+  return /not found/i.test(message) ? 404 : 500;
+}
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  const { errorResponse } = await requireAdminActor(request);
+  if (errorResponse) return errorResponse;
+
+  try {
+    const [webhook, deliveries] = await Promise.all([fetchWebhook(params.id), fetchWebhookDeliveries({ subscriptionId: params.id, limit: 30 })]);
+    return NextResponse.json({ webhook, deliveries });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: errorStatus(message) });
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  const { errorResponse } = await requireAdminActor(request);
+  if (errorResponse) return errorResponse;
+
+  try {
+    const payload = updateWebhookSchema.parse(await request.json());
+    const webhook = await updateWebhook(params.id, payload);
+    return NextResponse.json({ ok: true, webhook });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid webhook payload", issues: error.issues }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: errorStatus(message) });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  const { errorResponse } = await requireAdminActor(request);
+  if (errorResponse) return errorResponse;
+
+  try {
+    await deleteWebhook(params.id);
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: errorStatus(message) });
+  }
+}
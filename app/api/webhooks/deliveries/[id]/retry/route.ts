@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdminActor } from "@/services/auth/role.service";
+import { requeueWebhookDelivery } from "@/services/webhooks/webhook.service";
+
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  const { errorResponse } = await requireAdminActor(request);
+  if (errorResponse) return errorResponse;
+
+  try {
+    const delivery = await requeueWebhookDelivery(params.id);
+    return NextResponse.json({ ok: true, delivery });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: /not found/i.test(message) ? 404 : 500 });
+  }
+}
@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdminActor } from "@/services/auth/role.service";
+import { fetchWebhookDeliveryAttempts } from "@/services/webhooks/webhook.service";
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  const { errorResponse } = await requireAdminActor(request);
+  if (errorResponse) return errorResponse;
+
+  try {
+    const attempts = await fetchWebhookDeliveryAttempts(params.id);
+    return NextResponse.json({ attempts });
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdminActor } from "@/services/auth/role.service";
+import { fetchWebhookDeliveries } from "@/services/webhooks/webhook.service";
+import { webhookDeliveryStatusSchema } from "@/services/webhooks/webhook.schemas";
+
+export async function GET(request: NextRequest) {
+  const { errorResponse } = await requireAdminActor(request);
+  if (errorResponse) return errorResponse;
+
+  const { searchParams } = new URL(request.url);
+  const statusParam = searchParams.get("status");
+  const status = statusParam ? webhookDeliveryStatusSchema.safeParse(statusParam) : null;
+  if (status && !status.success) return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+
+  try {
+    const deliveries = await fetchWebhookDeliveries({
+      status: status?.data,
+      subscriptionId: searchParams.get("subscription_id") || undefined,
+      limit: 100
+    });
+    return NextResponse.json({ deliveries });
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireApiKey } from "@/services/auth/api-key.service";
+import { dispatchWebhookDeliveries } from "@/services/webhooks/webhook-events.service";
+
+// Called every minute by an external scheduler; sends queued deliveries and retries whose backoff has elapsed.
+export async function POST(request: NextRequest) {
+  const { errorResponse } = await requireApiKey(request, "jobs:run");
+  if (errorResponse) return errorResponse;
+
+  try {
+    const summary = await dispatchWebhookDeliveries();
+    return NextResponse.json({ ok: true, ...summary });
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+  }
+}
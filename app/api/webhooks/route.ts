@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdminActor } from "@/services/auth/role.service";
+import { createWebhook, fetchWebhooks } from "@/services/webhooks/webhook.service";
+import { createWebhookSchema } from "@/services/webhooks/webhook.schemas";
+
+export async function GET(request: NextRequest) {
+  const { errorResponse } = await requireAdminActor(request);
+  if (errorResponse) return errorResponse;
+
+  try {
+    const webhooks = await fetchWebhooks();
+    return NextResponse.json({ webhooks });
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const { actor, errorResponse } = await requireAdminActor(request);
+  if (errorResponse) return errorResponse;
+
+  try {
+    const payload = createWebhookSchema.parse(await request.json());
+    const { webhook, secret } = await createWebhook(payload, actor.userId);
+    return NextResponse.json({ ok: true, webhook, secret });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid webhook payload", issues: error.issues }, { status: 400 });
+    }
+    return NextResponse.json({ error: error instanceof Error ? error.message : "Unknown error" }, { status: 500 });
+  }
+}
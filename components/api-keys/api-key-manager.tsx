@@ -0,0 +1,219 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { API_KEY_DEFAULT_RATE_LIMIT, API_KEY_SCOPES, API_KEY_SCOPE_LABELS, apiKeyStatus, type ApiKey, type ApiKeyScope, type ApiKeyStatus } from "@/lib/api-keys";
+import { createApiKeyApi, fetchApiKeysApi, revokeApiKeyApi } from "@/services/api/api-keys-api.service";
+
+type ApiKeyForm = {
+  name: string;
+  scopes: ApiKeyScope[];
+  rate_limit_per_minute: string;
+  expires_on: string;
+};
+
+const EMPTY_FORM: ApiKeyForm = { name: "", scopes: [], rate_limit_per_minute: String(API_KEY_DEFAULT_RATE_LIMIT), expires_on: "" };
+
+const STATUS_CLASS: Record<ApiKeyStatus, string> = {
+  active: "text-emerald-700",
+  revoked: "text-rose-700",
+  expired: "text-amber-700"
+};
+
+function formatDate(value: string | null, fallback: string) {
+  return value ? new Date(value).toLocaleString() : fallback;
+}
+
+export function ApiKeyManager() {
+  const { user, loading: authLoading } = useAuth();
+  const isAdmin = (user?.role || "viewer") === "admin";
+
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [form, setForm] = useState<ApiKeyForm>(EMPTY_FORM);
+  const [revealedKey, setRevealedKey] = useState<{ name: string; key: string } | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState("");
+  const [error, setError] = useState("");
+
+  async function loadApiKeys() {
+    setLoading(true);
+    try {
+      const data = await fetchApiKeysApi();
+      setApiKeys(data.api_keys);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Failed to load API keys");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    if (!authLoading && isAdmin) loadApiKeys();
+  }, [authLoading, isAdmin]);
+
+  async function run(action: () => Promise<string>) {
+    setSaving(true);
+    setError("");
+    setMessage("");
+    try {
+      setMessage(await action());
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : "Request failed");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function toggleScope(scope: ApiKeyScope) {
+    setForm((prev) => ({ ...prev, scopes: prev.scopes.includes(scope) ? prev.scopes.filter((item) => item !== scope) : [...prev.scopes, scope] }));
+  }
+
+  function createKey() {
+    const rateLimit = Number(form.rate_limit_per_minute);
+    if (!form.name.trim() || form.scopes.length === 0) {
+      setError("Name and at least one scope are required.");
+      return;
+    }
+    if (!Number.isInteger(rateLimit) || rateLimit < 1) {
+      setError("Rate limit must be a whole number of requests per minute.");
+      return;
+    }
+    // A date-only expiry keeps the key valid through the end of that local day.
+    const expiresAt = form.expires_on ? new Date(`${form.expires_on}T23:59:59`).toISOString() : null;
+    run(async () => {
+      const data = await createApiKeyApi({ name: form.name.trim(), scopes: form.scopes, rate_limit_per_minute: rateLimit, expires_at: expiresAt });
+      setRevealedKey({ name: data.api_key.name, key: data.key });
+      setForm(EMPTY_FORM);
+      await loadApiKeys();
+      return `Created ${data.api_key.name}.`;
+    });
+  }
+
+  function revokeKey(apiKey: ApiKey) {
+    run(async () => {
+      await revokeApiKeyApi(apiKey.id);
+      await loadApiKeys();
+      return `Revoked ${apiKey.name}.`;
+    });
+  }
+
+  if (authLoading) {
+    return <section className="rounded-xl border border-slate-200 bg-white p-6 text-sm text-slate-500 shadow-sm">Checking permissions...</section>;
+  }
+
+  if (!isAdmin) {
+    return (
+      <section className="rounded-xl border border-rose-200 bg-rose-50 p-6 text-sm text-rose-700 shadow-sm">
+        This page is restricted to CRM admins.
+      </section>
+    );
+  }
+
+  return (
+    <section className="space-y-4">
+      <section className="rounded-xl border border-slate-200 bg-white p-5 shadow-sm">
+        <h2 className="text-xl font-semibold">API keys</h2>
+        <p className="mt-1 text-sm text-slate-600">
+          One key per external system, sent as <code>X-Api-Key</code> or <code>Authorization: Bearer</code>. Each key only reaches the endpoints its scopes allow and is
+          throttled to its own per-minute limit.
+        </p>
+      </section>
+
+      {message && <div className="rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-800">{message}</div>}
+      {error && <div className="rounded-lg border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">{error}</div>}
+      {revealedKey && (
+        <div className="rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-900">
+          <p>
+            API key for <strong>{revealedKey.name}</strong> — copy it now, it is not shown again:
+          </p>
+          <code className="mt-1 block break-all rounded bg-white px-2 py-1 text-xs">{revealedKey.key}</code>
+          <button onClick={() => setRevealedKey(null)} className="mt-1 text-xs underline">Done</button>
+        </div>
+      )}
+
+      <div className="grid gap-4 lg:grid-cols-3">
+        <section className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm lg:col-span-2">
+          {loading && apiKeys.length === 0 ? (
+            <p className="text-sm text-slate-500">Loading API keys…</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-slate-200 text-left text-xs uppercase text-slate-500">
+                  <th className="py-1">Name</th>
+                  <th className="py-1">Scopes</th>
+                  <th className="py-1">Limit</th>
+                  <th className="py-1">Last used</th>
+                  <th className="py-1" />
+                </tr>
+              </thead>
+              <tbody>
+                {apiKeys.map((apiKey) => {
+                  const status = apiKeyStatus(apiKey);
+                  return (
+                    <tr key={apiKey.id} className={`border-b border-slate-100 ${status === "active" ? "" : "text-slate-400"}`}>
+                      <td className="py-1.5">
+                        <p className="font-medium">
+                          {apiKey.name} <span className={`text-xs ${STATUS_CLASS[status]}`}>{status}</span>
+                        </p>
+                        <p className="text-xs text-slate-500">
+                          <code>{apiKey.key_prefix}…</code> · expires {formatDate(apiKey.expires_at, "never")}
+                        </p>
+                      </td>
+                      <td className="py-1.5 text-xs">{apiKey.scopes.join(", ")}</td>
+                      <td className="py-1.5 text-xs">{apiKey.rate_limit_per_minute}/min</td>
+                      <td className="py-1.5 text-xs">{formatDate(apiKey.last_used_at, "never")}</td>
+                      <td className="py-1.5 text-right">
+                        {!apiKey.revoked_at && (
+                          <button onClick={() => revokeKey(apiKey)} disabled={saving} className="rounded border border-rose-300 px-2 py-0.5 text-xs text-rose-700 disabled:opacity-40">
+                            Revoke
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+                {apiKeys.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="py-3 text-sm text-slate-500">No API keys yet.</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          )}
+        </section>
+
+        <section className="space-y-2 rounded-xl border border-slate-200 bg-white p-4 text-sm shadow-sm">
+          <h3 className="font-semibold">New API key</h3>
+          <input value={form.name} onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))} placeholder="Name, e.g. Website intake form" className="w-full rounded border border-slate-300 px-2 py-1.5" />
+          <fieldset className="space-y-1">
+            <legend className="text-xs text-slate-500">Scopes</legend>
+            {API_KEY_SCOPES.map((scope) => (
+              <label key={scope} className="flex items-start gap-2 text-xs">
+                <input type="checkbox" checked={form.scopes.includes(scope)} onChange={() => toggleScope(scope)} className="mt-0.5" />
+                <span>
+                  <code>{scope}</code> <span className="text-slate-500">{API_KEY_SCOPE_LABELS[scope]}</span>
+                </span>
+              </label>
+            ))}
+          </fieldset>
+          <label className="block text-xs text-slate-500">
+            Requests per minute
+            <input
+              type="number"
+              min={1}
+              value={form.rate_limit_per_minute}
+              onChange={(e) => setForm((prev) => ({ ...prev, rate_limit_per_minute: e.target.value }))}
+              className="mt-0.5 w-full rounded border border-slate-300 px-2 py-1.5 text-sm text-slate-900"
+            />
+          </label>
+          <label className="block text-xs text-slate-500">
+            Expires on (optional)
+            <input type="date" value={form.expires_on} onChange={(e) => setForm((prev) => ({ ...prev, expires_on: e.target.value }))} className="mt-0.5 w-full rounded border border-slate-300 px-2 py-1.5 text-sm text-slate-900" />
+          </label>
+          <button onClick={createKey} disabled={saving} className="rounded bg-slate-900 px-3 py-1.5 text-white disabled:opacity-40">Create key</button>
+        </section>
+      </div>
+    </section>
+  );
+}
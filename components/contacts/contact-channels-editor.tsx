@@ -0,0 +1,170 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { CONTACT_CHANNEL_TYPES, type ContactChannel, type ContactChannelType } from "@/lib/contact-channels";
+
+type DraftChannel = {
+  key: string;
+  type: ContactChannelType;
+  value: string;
+  is_primary: boolean;
+  verified: boolean;
+};
+
+type EditableContact = {
+  id: string;
+  name: string;
+  phone: string | null;
+  channels?: ContactChannel[];
+};
+
+const CHANNEL_LABELS: Record<ContactChannelType, string> = {
+  phone: "Phone",
+  whatsapp: "WhatsApp",
+  email: "Email",
+  telegram: "Telegram"
+};
+
+function toDrafts(channels: ContactChannel[] = []): DraftChannel[] {
+  return channels.map((channel) => ({
+    key: channel.id,
+    type: channel.type,
+    value: channel.value,
+    is_primary: channel.is_primary,
+    verified: channel.verified
+  }));
+}
+
+export function ContactChannelsEditor({
+  contact,
+  readOnly,
+  onSaved
+}: {
+  contact: EditableContact;
+  readOnly?: boolean;
+  onSaved: (contact: EditableContact) => void;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [name, setName] = useState(contact.name);
+  const [drafts, setDrafts] = useState<DraftChannel[]>(toDrafts(contact.channels));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    setName(contact.name);
+    setDrafts(toDrafts(contact.channels));
+    setEditing(false);
+    setError("");
+  }, [contact]);
+
+  function updateDraft(key: string, patch: Partial<DraftChannel>) {
+    setDrafts((prev) => {
+      const nextType = patch.type || prev.find((draft) => draft.key === key)?.type;
+      return prev.map((draft) => {
+        if (draft.key === key) return { ...draft, ...patch };
+        // Keep a single primary per channel type.
+        if (patch.is_primary && draft.type === nextType) return { ...draft, is_primary: false };
+        return draft;
+      });
+    });
+  }
+
+  async function save() {
+    setSaving(true);
+    setError("");
+    const res = await fetch("/api/contacts", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        id: contact.id,
+        name,
+        channels: drafts
+          .filter((draft) => draft.value.trim())
+          .map(({ type, value, is_primary, verified }) => ({ type, value, is_primary, verified }))
+      })
+    });
+    const data = await res.json().catch(() => ({}));
+    setSaving(false);
+    if (!res.ok) {
+      setError(data.error || "Failed to save contact");
+      return;
+    }
+    onSaved(data.contact as EditableContact);
+  }
+
+  const channels = contact.channels || [];
+
+  if (!editing) {
+    return (
+      <div className="mb-2 rounded border border-slate-200 p-2 text-xs">
+        <div className="flex items-center justify-between">
+          <p className="font-medium">{contact.name || "Contact"}</p>
+          {!readOnly && <button onClick={() => setEditing(true)} className="text-[10px] text-slate-500 underline">Edit channels</button>}
+        </div>
+        {channels.length === 0 && <p className="text-slate-500">{contact.phone || "No channels"}</p>}
+        <ul className="mt-1 space-y-0.5">
+          {channels.map((channel) => (
+            <li key={channel.id} className="flex items-center gap-1 text-slate-600">
+              <span className="w-16 text-[10px] uppercase text-slate-400">{CHANNEL_LABELS[channel.type]}</span>
+              <span>{channel.normalized_value}</span>
+              {channel.is_primary && <span className="rounded bg-slate-100 px-1 text-[10px]">primary</span>}
+              {channel.verified && <span className="rounded bg-emerald-50 px-1 text-[10px] text-emerald-700">verified</span>}
+            </li>
+          ))}
+        </ul>
+        <a href={`/contacts/${contact.id}`} className="text-slate-400 underline">View contact</a>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-2 space-y-2 rounded border border-slate-300 p-2 text-xs">
+      <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Contact name" className="w-full rounded border border-slate-300 px-2 py-1" />
+      {drafts.map((draft) => (
+        <div key={draft.key} className="flex items-center gap-1">
+          <select
+            value={draft.type}
+            onChange={(e) => updateDraft(draft.key, { type: e.target.value as ContactChannelType, is_primary: false })}
+            className="rounded border border-slate-300 px-1 py-1"
+          >
+            {CONTACT_CHANNEL_TYPES.map((type) => <option key={type} value={type}>{CHANNEL_LABELS[type]}</option>)}
+          </select>
+          <input
+            value={draft.value}
+            onChange={(e) => updateDraft(draft.key, { value: e.target.value })}
+            placeholder={draft.type === "email" ? "name@example.com" : draft.type === "telegram" ? "@username" : "01xxxxxxxxx"}
+            className="min-w-0 flex-1 rounded border border-slate-300 px-2 py-1"
+          />
+          <label title="Primary" className="flex items-center gap-0.5">
+            <input type="checkbox" checked={draft.is_primary} onChange={(e) => updateDraft(draft.key, { is_primary: e.target.checked })} />P
+          </label>
+          <label title="Verified" className="flex items-center gap-0.5">
+            <input type="checkbox" checked={draft.verified} onChange={(e) => updateDraft(draft.key, { verified: e.target.checked })} />V
+          </label>
+          <button onClick={() => setDrafts((prev) => prev.filter((item) => item.key !== draft.key))} className="px-1 text-rose-600">×</button>
+        </div>
+      ))}
+      <button
+        onClick={() => setDrafts((prev) => [...prev, { key: `new-${Date.now()}`, type: "phone", value: "", is_primary: prev.length === 0, verified: false }])}
+        className="rounded border border-slate-300 px-2 py-1"
+      >
+        Add channel
+      </button>
+      {error && <p className="text-rose-600">{error}</p>}
+      <div className="flex gap-2">
+        <button disabled={saving} onClick={save} className="rounded bg-slate-900 px-2 py-1 text-white disabled:opacity-40">{saving ? "Saving…" : "Save"}</button>
+        <button
+          disabled={saving}
+          onClick={() => {
+            setName(contact.name);
+            setDrafts(toDrafts(contact.channels));
+            setEditing(false);
+          }}
+          className="rounded border border-slate-300 px-2 py-1"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
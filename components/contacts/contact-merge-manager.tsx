@@ -0,0 +1,300 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ConfirmationModal } from "@/components/ui/confirmation-modal";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  fetchContactMergeHistoryApi,
+  mergeContactsApi,
+  previewContactMergeApi,
+  searchContactsApi,
+  undoContactMergeApi,
+  type ContactMergeHistoryEntry,
+  type ContactMergePreview,
+  type ContactMergeTable,
+  type ContactSummary
+} from "@/services/api/contacts-api.service";
+
+const TABLE_LABELS: Record<ContactMergeTable, string> = {
+  properties_sale: "Sale listings",
+  properties_rent: "Rent listings",
+  buyers: "Buyers",
+  clients: "Clients"
+};
+
+function contactLabel(contact: Pick<ContactSummary, "name" | "phone"> | null | undefined) {
+  if (!contact) return "-";
+  return `${contact.name || "Unknown"}${contact.phone ? ` • ${contact.phone}` : ""}`;
+}
+
+export function ContactMergeManager() {
+  const { user, loading: authLoading } = useAuth();
+  const isAdmin = (user?.role || "viewer") === "admin";
+
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<ContactSummary[]>([]);
+  const [survivor, setSurvivor] = useState<ContactSummary | null>(null);
+  const [losers, setLosers] = useState<ContactSummary[]>([]);
+  const [preview, setPreview] = useState<ContactMergePreview | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [merging, setMerging] = useState(false);
+  const [history, setHistory] = useState<ContactMergeHistoryEntry[]>([]);
+  const [undoingId, setUndoingId] = useState("");
+  const [message, setMessage] = useState("");
+  const [error, setError] = useState("");
+
+  async function loadHistory() {
+    try {
+      const data = await fetchContactMergeHistoryApi();
+      setHistory(data.merges);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Failed to load merge history");
+    }
+  }
+
+  useEffect(() => {
+    if (!authLoading && isAdmin) loadHistory();
+  }, [authLoading, isAdmin]);
+
+  useEffect(() => {
+    if (authLoading || !isAdmin) return;
+    const timer = setTimeout(async () => {
+      try {
+        const data = await searchContactsApi(query.trim());
+        setResults(data.contacts);
+      } catch (searchError) {
+        setError(searchError instanceof Error ? searchError.message : "Contact search failed");
+      }
+    }, 250);
+    return () => clearTimeout(timer);
+  }, [query, authLoading, isAdmin]);
+
+  useEffect(() => {
+    setPreview(null);
+  }, [survivor, losers]);
+
+  function chooseSurvivor(contact: ContactSummary) {
+    setSurvivor(contact);
+    setLosers((prev) => prev.filter((loser) => loser.id !== contact.id));
+    setMessage("");
+  }
+
+  function toggleLoser(contact: ContactSummary) {
+    if (survivor?.id === contact.id) return;
+    setLosers((prev) => (prev.some((loser) => loser.id === contact.id) ? prev.filter((loser) => loser.id !== contact.id) : [...prev, contact]));
+    setMessage("");
+  }
+
+  async function runPreview() {
+    if (!survivor || losers.length === 0) return;
+    setPreviewLoading(true);
+    setError("");
+    try {
+      const data = await previewContactMergeApi({ survivorId: survivor.id, loserIds: losers.map((loser) => loser.id) });
+      setPreview(data.preview);
+    } catch (previewError) {
+      setError(previewError instanceof Error ? previewError.message : "Failed to preview merge");
+    } finally {
+      setPreviewLoading(false);
+    }
+  }
+
+  async function confirmMerge() {
+    if (!survivor || losers.length === 0) return;
+    setMerging(true);
+    setError("");
+    try {
+      const data = await mergeContactsApi({ survivorId: survivor.id, loserIds: losers.map((loser) => loser.id) });
+      setMessage(`Merged ${data.mergedContactIds.length} contact${data.mergedContactIds.length === 1 ? "" : "s"} into ${survivor.name || "the survivor"}.`);
+      setConfirmOpen(false);
+      setLosers([]);
+      setPreview(null);
+      setResults((prev) => prev.filter((contact) => !data.mergedContactIds.includes(contact.id)));
+      await loadHistory();
+    } catch (mergeError) {
+      setError(mergeError instanceof Error ? mergeError.message : "Merge failed");
+    } finally {
+      setMerging(false);
+    }
+  }
+
+  async function undoMerge(entry: ContactMergeHistoryEntry) {
+    setUndoingId(entry.id);
+    setError("");
+    try {
+      const data = await undoContactMergeApi(entry.id);
+      setMessage(`Restored ${data.restoredContactIds.length} contact${data.restoredContactIds.length === 1 ? "" : "s"}.`);
+      await loadHistory();
+    } catch (undoError) {
+      setError(undoError instanceof Error ? undoError.message : "Undo failed");
+    } finally {
+      setUndoingId("");
+    }
+  }
+
+  if (authLoading) {
+    return <section className="rounded-xl border border-slate-200 bg-white p-6 text-sm text-slate-500 shadow-sm">Checking permissions...</section>;
+  }
+
+  if (!isAdmin) {
+    return (
+      <section className="rounded-xl border border-rose-200 bg-rose-50 p-6 text-sm text-rose-700 shadow-sm">
+        This page is restricted to CRM admins.
+      </section>
+    );
+  }
+
+  const recordCount = preview ? Object.values(preview.records).reduce((sum, rows) => sum + rows.length, 0) : 0;
+
+  return (
+    <>
+      <section className="space-y-4">
+        <section className="rounded-xl border border-slate-200 bg-white p-5 shadow-sm">
+          <h2 className="text-xl font-semibold">Contact Merge</h2>
+          <p className="mt-1 text-sm text-slate-600">Pick the contact to keep, add the duplicates to fold into it, and preview every linked record before merging. Merges can be undone from the history below.</p>
+        </section>
+
+        {message && <div className="rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-800">{message}</div>}
+        {error && <div className="rounded-lg border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">{error}</div>}
+
+        <div className="grid gap-4 lg:grid-cols-2">
+          <section className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search contacts by name or phone"
+              className="w-full rounded-lg border border-slate-300 px-3 py-2 text-sm"
+            />
+            <div className="mt-3 space-y-2">
+              {results.map((contact) => {
+                const isSurvivor = survivor?.id === contact.id;
+                const isLoser = losers.some((loser) => loser.id === contact.id);
+                return (
+                  <div key={contact.id} className="flex items-center justify-between gap-2 rounded border border-slate-200 px-3 py-2 text-sm">
+                    <div>
+                      <p className="font-medium">{contact.name || "Unknown"}</p>
+                      <p className="text-xs text-slate-500">{contact.phone || "No phone"} • {contact.id.slice(0, 8)}</p>
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => chooseSurvivor(contact)}
+                        disabled={isSurvivor}
+                        className="rounded border border-slate-300 px-2 py-1 text-xs disabled:opacity-40"
+                      >
+                        {isSurvivor ? "Survivor" : "Keep"}
+                      </button>
+                      <button
+                        onClick={() => toggleLoser(contact)}
+                        disabled={isSurvivor}
+                        className={`rounded border px-2 py-1 text-xs disabled:opacity-40 ${isLoser ? "border-rose-300 bg-rose-50 text-rose-700" : "border-slate-300"}`}
+                      >
+                        {isLoser ? "Remove" : "Merge in"}
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+              {results.length === 0 && <p className="text-xs text-slate-500">No contacts found.</p>}
+            </div>
+          </section>
+
+          <section className="space-y-3 rounded-xl border border-slate-200 bg-white p-4 shadow-sm text-sm">
+            <div>
+              <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Survivor</p>
+              <p className="mt-1">{survivor ? contactLabel(survivor) : "Choose a contact to keep."}</p>
+            </div>
+            <div>
+              <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Merge into survivor</p>
+              {losers.length === 0 ? (
+                <p className="mt-1 text-slate-500">No contacts selected.</p>
+              ) : (
+                <ul className="mt-1 space-y-1">
+                  {losers.map((loser) => <li key={loser.id}>{contactLabel(loser)}</li>)}
+                </ul>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={runPreview}
+                disabled={!survivor || losers.length === 0 || previewLoading}
+                className="rounded-lg border border-slate-300 px-3 py-2 text-sm disabled:opacity-40"
+              >
+                {previewLoading ? "Loading preview…" : "Preview merge"}
+              </button>
+              <button
+                onClick={() => setConfirmOpen(true)}
+                disabled={!preview || merging}
+                className="rounded-lg bg-slate-900 px-3 py-2 text-sm font-semibold text-white disabled:opacity-40"
+              >
+                Merge contacts
+              </button>
+            </div>
+
+            {preview && (
+              <div className="space-y-2 rounded border border-slate-200 p-3">
+                <p><span className="font-semibold">Result:</span> {contactLabel(preview.merged)}</p>
+                {(Object.keys(TABLE_LABELS) as ContactMergeTable[]).map((table) => (
+                  <div key={table}>
+                    <p className="text-xs font-semibold text-slate-600">{TABLE_LABELS[table]} ({preview.records[table].length})</p>
+                    {preview.records[table].length > 0 && (
+                      <p className="text-xs text-slate-500">{preview.records[table].map((row) => row.code || row.id.slice(0, 8)).join(", ")}</p>
+                    )}
+                  </div>
+                ))}
+                <div>
+                  <p className="text-xs font-semibold text-slate-600">Contact tasks ({preview.tasks.length})</p>
+                  {preview.tasks.length > 0 && <p className="text-xs text-slate-500">{preview.tasks.map((task) => task.title).join(", ")}</p>}
+                </div>
+                <p className="text-xs text-slate-500">Timeline entries re-pointed: {preview.timelineCount}</p>
+              </div>
+            )}
+          </section>
+        </div>
+
+        <section className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+          <h3 className="mb-2 font-semibold">Recent merges</h3>
+          <div className="space-y-2 text-sm">
+            {history.map((entry) => (
+              <div key={entry.id} className="flex items-center justify-between gap-2 rounded border border-slate-200 px-3 py-2">
+                <div>
+                  <p>
+                    <span className="font-medium">{contactLabel(entry.survivor)}</span>
+                    <span className="text-slate-500"> ← {entry.losers.map((loser) => contactLabel(loser)).join("; ") || "-"}</span>
+                  </p>
+                  <p className="text-xs text-slate-500">
+                    {new Date(entry.created_at).toLocaleString()}
+                    {entry.undone_at ? ` • undone ${new Date(entry.undone_at).toLocaleString()}` : ""}
+                  </p>
+                </div>
+                <button
+                  onClick={() => undoMerge(entry)}
+                  disabled={Boolean(entry.undone_at) || undoingId === entry.id}
+                  className="rounded border border-slate-300 px-2 py-1 text-xs disabled:opacity-40"
+                >
+                  {undoingId === entry.id ? "Undoing…" : "Undo"}
+                </button>
+              </div>
+            ))}
+            {history.length === 0 && <p className="text-xs text-slate-500">No contact merges yet.</p>}
+          </div>
+        </section>
+      </section>
+
+      <ConfirmationModal
+        open={confirmOpen}
+        title={`Merge ${losers.length} contact${losers.length === 1 ? "" : "s"}?`}
+        description="Linked records, contact tasks and timeline entries are re-pointed to the survivor and the merged contacts are deleted in one transaction. The merge is recorded in the audit log and can be undone."
+        impacts={[
+          `Survivor: ${contactLabel(preview?.merged)}`,
+          `Linked records re-pointed: ${recordCount}`,
+          `Contact tasks re-pointed: ${preview?.tasks.length || 0}`
+        ]}
+        confirmLabel="Merge"
+        confirming={merging}
+        onConfirm={confirmMerge}
+        onClose={() => setConfirmOpen(false)}
+      />
+    </>
+  );
+}
@@ -0,0 +1,373 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import type { SavedView, SavedViewGridType } from "@/lib/saved-views";
+import type { ViewDigestChannel, ViewDigestDelivery, ViewDigestSubscription } from "@/lib/view-digests";
+import { fetchSavedViewsApi } from "@/services/api/grid-views-api.service";
+import {
+  createViewDigestApi,
+  deleteViewDigestApi,
+  fetchViewDigestApi,
+  fetchViewDigestsApi,
+  sendViewDigestNowApi,
+  updateViewDigestApi,
+  type ViewDigestPayload
+} from "@/services/api/digests-api.service";
+
+type DigestForm = {
+  id: string;
+  name: string;
+  grid_type: SavedViewGridType;
+  saved_view_id: string;
+  filters: string;
+  channel: ViewDigestChannel;
+  destination: string;
+  send_hour: string;
+  timezone: string;
+  top_n: string;
+  is_active: boolean;
+};
+
+const GRID_OPTIONS: Array<{ value: SavedViewGridType; label: string }> = [
+  { value: "sale", label: "Sale" },
+  { value: "rent", label: "Rent" },
+  { value: "buyer", label: "Buyers" },
+  { value: "client", label: "Clients" }
+];
+
+const EMPTY_FORM: DigestForm = {
+  id: "",
+  name: "",
+  grid_type: "sale",
+  saved_view_id: "",
+  filters: '{"preset":"new_today"}',
+  channel: "email",
+  destination: "",
+  send_hour: "8",
+  timezone: "Africa/Cairo",
+  top_n: "10",
+  is_active: true
+};
+
+function formFromDigest(digest: ViewDigestSubscription): DigestForm {
+  return {
+    id: digest.id,
+    name: digest.name,
+    grid_type: digest.grid_type,
+    saved_view_id: digest.saved_view_id || "",
+    filters: JSON.stringify(digest.filters),
+    channel: digest.channel,
+    destination: digest.destination,
+    send_hour: String(digest.send_hour),
+    timezone: digest.timezone,
+    top_n: String(digest.top_n),
+    is_active: digest.is_active
+  };
+}
+
+function payloadFromForm(form: DigestForm): ViewDigestPayload {
+  const payload: ViewDigestPayload = {
+    name: form.name.trim(),
+    saved_view_id: form.saved_view_id || null,
+    channel: form.channel,
+    destination: form.destination.trim(),
+    send_hour: Number(form.send_hour),
+    timezone: form.timezone.trim(),
+    top_n: Number(form.top_n),
+    is_active: form.is_active
+  };
+  if (!form.saved_view_id) payload.filters = form.filters.trim() ? (JSON.parse(form.filters) as Record<string, unknown>) : {};
+  return payload;
+}
+
+export function DigestManager() {
+  const { user, loading: authLoading } = useAuth();
+  const isAdmin = (user?.role || "viewer") === "admin";
+
+  const [digests, setDigests] = useState<ViewDigestSubscription[]>([]);
+  const [savedViews, setSavedViews] = useState<SavedView[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [form, setForm] = useState<DigestForm>(EMPTY_FORM);
+  const [history, setHistory] = useState<{ digestId: string; deliveries: ViewDigestDelivery[] } | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState("");
+  const [error, setError] = useState("");
+
+  async function loadDigests() {
+    setLoading(true);
+    try {
+      const data = await fetchViewDigestsApi();
+      setDigests(data.digests);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Failed to load digests");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    if (!authLoading && isAdmin) loadDigests();
+  }, [authLoading, isAdmin]);
+
+  useEffect(() => {
+    if (!isAdmin) return;
+    let active = true;
+    fetchSavedViewsApi(form.grid_type)
+      .then((data) => {
+        if (active) setSavedViews(data.views);
+      })
+      .catch(() => {
+        if (active) setSavedViews([]);
+      });
+    return () => {
+      active = false;
+    };
+  }, [form.grid_type, isAdmin]);
+
+  async function run(action: () => Promise<string>) {
+    setSaving(true);
+    setError("");
+    setMessage("");
+    try {
+      setMessage(await action());
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : "Request failed");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function saveDigest() {
+    if (!form.name.trim() || !form.destination.trim()) {
+      setError("Name and destination are required.");
+      return;
+    }
+    let payload: ViewDigestPayload;
+    try {
+      payload = payloadFromForm(form);
+    } catch {
+      setError("Filters must be valid JSON.");
+      return;
+    }
+    run(async () => {
+      if (form.id) await updateViewDigestApi(form.id, payload);
+      else await createViewDigestApi({ ...payload, grid_type: form.grid_type });
+      setForm(EMPTY_FORM);
+      await loadDigests();
+      return `Saved ${form.name.trim()}.`;
+    });
+  }
+
+  function toggleActive(digest: ViewDigestSubscription) {
+    run(async () => {
+      await updateViewDigestApi(digest.id, { is_active: !digest.is_active });
+      await loadDigests();
+      return `${digest.name} ${digest.is_active ? "paused" : "resumed"}.`;
+    });
+  }
+
+  function sendNow(digest: ViewDigestSubscription) {
+    run(async () => {
+      const data = await sendViewDigestNowApi(digest.id);
+      await loadDigests();
+      if (data.result.status !== "sent") throw new Error(`${digest.name}: ${data.result.detail}`);
+      return `Sent ${digest.name} (${data.result.total ?? 0} records).`;
+    });
+  }
+
+  function removeDigest(digest: ViewDigestSubscription) {
+    run(async () => {
+      await deleteViewDigestApi(digest.id);
+      if (form.id === digest.id) setForm(EMPTY_FORM);
+      if (history?.digestId === digest.id) setHistory(null);
+      await loadDigests();
+      return `Deleted ${digest.name}.`;
+    });
+  }
+
+  async function showHistory(digest: ViewDigestSubscription) {
+    try {
+      const data = await fetchViewDigestApi(digest.id);
+      setHistory({ digestId: digest.id, deliveries: data.deliveries });
+    } catch (historyError) {
+      setError(historyError instanceof Error ? historyError.message : "Failed to load delivery history");
+    }
+  }
+
+  if (authLoading) {
+    return <section className="rounded-xl border border-slate-200 bg-white p-6 text-sm text-slate-500 shadow-sm">Checking permissions...</section>;
+  }
+
+  if (!isAdmin) {
+    return (
+      <section className="rounded-xl border border-rose-200 bg-rose-50 p-6 text-sm text-rose-700 shadow-sm">
+        This page is restricted to CRM admins.
+      </section>
+    );
+  }
+
+  const historyDigest = digests.find((digest) => digest.id === history?.digestId);
+
+  return (
+    <section className="space-y-4">
+      <section className="rounded-xl border border-slate-200 bg-white p-5 shadow-sm">
+        <h2 className="text-xl font-semibold">Digests</h2>
+        <p className="mt-1 text-sm text-slate-600">
+          Daily summaries of a grid filter set or saved view — the match count, the top rows and a link back to the grid — sent by email or Telegram after the chosen local hour.
+        </p>
+      </section>
+
+      {message && <div className="rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-800">{message}</div>}
+      {error && <div className="rounded-lg border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">{error}</div>}
+
+      <div className="grid gap-4 lg:grid-cols-3">
+        <div className="space-y-4 lg:col-span-2">
+          <section className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+            {loading && digests.length === 0 ? (
+              <p className="text-sm text-slate-500">Loading digests…</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-slate-200 text-left text-xs uppercase text-slate-500">
+                    <th className="py-1">Name</th>
+                    <th className="py-1">Delivery</th>
+                    <th className="py-1">Schedule</th>
+                    <th className="py-1">Last run</th>
+                    <th className="py-1" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {digests.map((digest) => (
+                    <tr key={digest.id} className={`border-b border-slate-100 ${digest.is_active ? "" : "text-slate-400"}`}>
+                      <td className="py-1.5">
+                        <p className="font-medium">{digest.name}</p>
+                        <p className="text-xs text-slate-500">
+                          {GRID_OPTIONS.find((option) => option.value === digest.grid_type)?.label}
+                          {digest.saved_view_id ? " · saved view" : ""}
+                        </p>
+                      </td>
+                      <td className="py-1.5">
+                        <p className="capitalize">{digest.channel}</p>
+                        <p className="max-w-[14rem] truncate text-xs text-slate-500">{digest.destination}</p>
+                      </td>
+                      <td className="py-1.5 text-xs">
+                        {String(digest.send_hour).padStart(2, "0")}:00 {digest.timezone}
+                        {!digest.is_active && <span className="ml-1 rounded bg-slate-100 px-1">paused</span>}
+                      </td>
+                      <td className="py-1.5 text-xs">
+                        {digest.last_run_at ? new Date(digest.last_run_at).toLocaleString() : "Never"}
+                        {digest.last_status && (
+                          <p className={digest.last_status === "sent" ? "text-emerald-700" : "text-rose-700"} title={digest.last_error || ""}>
+                            {digest.last_status.replace("_", " ")}
+                          </p>
+                        )}
+                      </td>
+                      <td className="py-1.5 text-right">
+                        <div className="flex flex-wrap justify-end gap-1">
+                          <button onClick={() => sendNow(digest)} disabled={saving} className="rounded border border-slate-300 px-2 py-0.5 text-xs disabled:opacity-40">Send now</button>
+                          <button onClick={() => showHistory(digest)} className="rounded border border-slate-300 px-2 py-0.5 text-xs">History</button>
+                          <button onClick={() => toggleActive(digest)} disabled={saving} className="rounded border border-slate-300 px-2 py-0.5 text-xs disabled:opacity-40">
+                            {digest.is_active ? "Pause" : "Resume"}
+                          </button>
+                          <button onClick={() => setForm(formFromDigest(digest))} className="rounded border border-slate-300 px-2 py-0.5 text-xs">Edit</button>
+                          <button onClick={() => removeDigest(digest)} disabled={saving} className="rounded border border-rose-300 px-2 py-0.5 text-xs text-rose-700 disabled:opacity-40">Delete</button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                  {digests.length === 0 && (
+                    <tr>
+                      <td colSpan={5} className="py-3 text-sm text-slate-500">No digests yet.</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            )}
+          </section>
+
+          {history && (
+            <section className="rounded-xl border border-slate-200 bg-white p-4 text-sm shadow-sm">
+              <div className="flex items-center justify-between">
+                <h3 className="font-semibold">Deliveries · {historyDigest?.name || "Digest"}</h3>
+                <button onClick={() => setHistory(null)} className="text-xs text-slate-500">Close</button>
+              </div>
+              <ul className="mt-2 space-y-1 text-xs">
+                {history.deliveries.map((delivery) => (
+                  <li key={delivery.id} className="flex gap-2 border-b border-slate-100 pb-1">
+                    <span className="w-36 shrink-0 text-slate-500">{new Date(delivery.created_at).toLocaleString()}</span>
+                    <span className={delivery.status === "sent" ? "text-emerald-700" : "text-rose-700"}>{delivery.status.replace("_", " ")}</span>
+                    <span>{delivery.total ?? "-"} records</span>
+                    <span className="truncate text-slate-500" title={delivery.detail || ""}>{delivery.detail}</span>
+                  </li>
+                ))}
+                {history.deliveries.length === 0 && <li className="text-slate-500">Nothing sent yet.</li>}
+              </ul>
+            </section>
+          )}
+        </div>
+
+        <section className="space-y-2 rounded-xl border border-slate-200 bg-white p-4 text-sm shadow-sm">
+          <h3 className="font-semibold">{form.id ? "Edit digest" : "New digest"}</h3>
+          <input value={form.name} onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))} placeholder="Name, e.g. New sale listings" className="w-full rounded border border-slate-300 px-2 py-1.5" />
+          <select
+            value={form.grid_type}
+            disabled={Boolean(form.id)}
+            onChange={(e) => setForm((prev) => ({ ...prev, grid_type: e.target.value as SavedViewGridType, saved_view_id: "" }))}
+            className="w-full rounded border border-slate-300 px-2 py-1.5 disabled:bg-slate-50"
+          >
+            {GRID_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <select value={form.saved_view_id} onChange={(e) => setForm((prev) => ({ ...prev, saved_view_id: e.target.value }))} className="w-full rounded border border-slate-300 px-2 py-1.5">
+            <option value="">Custom filters</option>
+            {savedViews.map((view) => (
+              <option key={view.id} value={view.id}>Saved view: {view.name}</option>
+            ))}
+          </select>
+          {!form.saved_view_id && (
+            <label className="block text-xs text-slate-500">
+              Filters (same JSON as the grid, e.g. <code>{'{"status":"hot"}'}</code>)
+              <textarea value={form.filters} onChange={(e) => setForm((prev) => ({ ...prev, filters: e.target.value }))} rows={3} className="mt-1 w-full rounded border border-slate-300 px-2 py-1.5 font-mono text-xs text-slate-900" />
+            </label>
+          )}
+          <div className="grid grid-cols-2 gap-2">
+            <select value={form.channel} onChange={(e) => setForm((prev) => ({ ...prev, channel: e.target.value as ViewDigestChannel }))} className="rounded border border-slate-300 px-2 py-1.5">
+              <option value="email">Email</option>
+              <option value="telegram">Telegram</option>
+            </select>
+            <input
+              value={form.destination}
+              onChange={(e) => setForm((prev) => ({ ...prev, destination: e.target.value }))}
+              placeholder={form.channel === "email" ? "a@x.com, b@x.com" : "Chat id or @channel"}
+              className="rounded border border-slate-300 px-2 py-1.5"
+            />
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <label className="text-xs text-slate-500">
+              Hour
+              <input type="number" min={0} max={23} value={form.send_hour} onChange={(e) => setForm((prev) => ({ ...prev, send_hour: e.target.value }))} className="mt-1 w-full rounded border border-slate-300 px-2 py-1.5 text-sm text-slate-900" />
+            </label>
+            <label className="col-span-2 text-xs text-slate-500">
+              Timezone
+              <input value={form.timezone} onChange={(e) => setForm((prev) => ({ ...prev, timezone: e.target.value }))} className="mt-1 w-full rounded border border-slate-300 px-2 py-1.5 text-sm text-slate-900" />
+            </label>
+          </div>
+          <label className="block text-xs text-slate-500">
+            Top rows
+            <input type="number" min={1} max={50} value={form.top_n} onChange={(e) => setForm((prev) => ({ ...prev, top_n: e.target.value }))} className="mt-1 w-full rounded border border-slate-300 px-2 py-1.5 text-sm text-slate-900" />
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={form.is_active} onChange={(e) => setForm((prev) => ({ ...prev, is_active: e.target.checked }))} />
+            Active
+          </label>
+          <div className="flex gap-2">
+            <button onClick={saveDigest} disabled={saving} className="rounded bg-slate-900 px-3 py-1.5 text-white disabled:opacity-40">Save</button>
+            {form.id && <button onClick={() => setForm(EMPTY_FORM)} className="rounded border border-slate-300 px-3 py-1.5">Cancel</button>}
+          </div>
+        </section>
+      </div>
+    </section>
+  );
+}
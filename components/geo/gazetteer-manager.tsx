@@ -0,0 +1,263 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { GAZETTEER_CSV_HEADER, isValidLatLng, type GazetteerEntryInput, type GazetteerKind } from "@/lib/geo";
+import {
+  backfillListingCoordinatesApi,
+  createGazetteerEntryApi,
+  deleteGazetteerEntryApi,
+  fetchGazetteerApi,
+  importGazetteerCsvApi,
+  updateGazetteerEntryApi,
+  type GazetteerEntry
+} from "@/services/api/geo-api.service";
+
+type EntryForm = {
+  id: string;
+  kind: GazetteerKind;
+  name: string;
+  parent_area: string;
+  latitude: string;
+  longitude: string;
+  aliases: string;
+};
+
+const EMPTY_FORM: EntryForm = { id: "", kind: "area", name: "", parent_area: "", latitude: "", longitude: "", aliases: "" };
+
+function formFromEntry(entry: GazetteerEntry): EntryForm {
+  return {
+    id: entry.id,
+    kind: entry.kind,
+    name: entry.name,
+    parent_area: entry.parent_area,
+    latitude: String(entry.latitude),
+    longitude: String(entry.longitude),
+    aliases: entry.aliases.join(", ")
+  };
+}
+
+function entryFromForm(form: EntryForm): GazetteerEntryInput {
+  return {
+    kind: form.kind,
+    name: form.name.trim(),
+    parent_area: form.parent_area.trim(),
+    latitude: Number(form.latitude),
+    longitude: Number(form.longitude),
+    aliases: form.aliases.split(",").map((alias) => alias.trim()).filter(Boolean)
+  };
+}
+
+export function GazetteerManager() {
+  const { user, loading: authLoading } = useAuth();
+  const isAdmin = (user?.role || "viewer") === "admin";
+
+  const [entries, setEntries] = useState<GazetteerEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [filter, setFilter] = useState("");
+  const [form, setForm] = useState<EntryForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [csv, setCsv] = useState("");
+  const [importErrors, setImportErrors] = useState<Array<{ line: number; message: string }>>([]);
+  const [message, setMessage] = useState("");
+  const [error, setError] = useState("");
+
+  async function loadEntries() {
+    setLoading(true);
+    try {
+      const data = await fetchGazetteerApi();
+      setEntries(data.entries);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Failed to load gazetteer");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    if (!authLoading && isAdmin) loadEntries();
+  }, [authLoading, isAdmin]);
+
+  const visibleEntries = useMemo(() => {
+    const needle = filter.trim().toLowerCase();
+    if (!needle) return entries;
+    return entries.filter((entry) => [entry.name, entry.parent_area, ...entry.aliases].some((value) => value.toLowerCase().includes(needle)));
+  }, [entries, filter]);
+
+  async function run(action: () => Promise<string>) {
+    setSaving(true);
+    setError("");
+    setMessage("");
+    try {
+      setMessage(await action());
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : "Request failed");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function saveEntry() {
+    if (!form.name.trim() || !isValidLatLng(form.latitude, form.longitude)) {
+      setError("Name and valid latitude/longitude are required.");
+      return;
+    }
+    run(async () => {
+      if (form.id) await updateGazetteerEntryApi(form.id, entryFromForm(form));
+      else await createGazetteerEntryApi(entryFromForm(form));
+      setForm(EMPTY_FORM);
+      await loadEntries();
+      return `Saved ${form.name.trim()}.`;
+    });
+  }
+
+  function removeEntry(entry: GazetteerEntry) {
+    run(async () => {
+      await deleteGazetteerEntryApi(entry.id);
+      if (form.id === entry.id) setForm(EMPTY_FORM);
+      await loadEntries();
+      return `Deleted ${entry.name}.`;
+    });
+  }
+
+  function importCsv() {
+    if (!csv.trim()) return;
+    run(async () => {
+      const data = await importGazetteerCsvApi(csv);
+      setImportErrors(data.errors);
+      if (data.errors.length === 0) setCsv("");
+      await loadEntries();
+      return `Imported ${data.saved} entr${data.saved === 1 ? "y" : "ies"}${data.errors.length ? `; ${data.errors.length} line(s) skipped` : ""}.`;
+    });
+  }
+
+  function backfill() {
+    run(async () => {
+      const data = await backfillListingCoordinatesApi();
+      return `Checked ${data.scanned} listings without coordinates; located ${data.assigned}.`;
+    });
+  }
+
+  if (authLoading) {
+    return <section className="rounded-xl border border-slate-200 bg-white p-6 text-sm text-slate-500 shadow-sm">Checking permissions...</section>;
+  }
+
+  if (!isAdmin) {
+    return (
+      <section className="rounded-xl border border-rose-200 bg-rose-50 p-6 text-sm text-rose-700 shadow-sm">
+        This page is restricted to CRM admins.
+      </section>
+    );
+  }
+
+  return (
+    <section className="space-y-4">
+      <section className="rounded-xl border border-slate-200 bg-white p-5 shadow-sm">
+        <h2 className="text-xl font-semibold">Gazetteer</h2>
+        <p className="mt-1 text-sm text-slate-600">
+          Known areas and compounds with their coordinates. Confirmed intakes and edited listings are placed on the map by matching their compound first, then their area, against these names and aliases.
+        </p>
+        <button onClick={backfill} disabled={saving} className="mt-3 rounded border border-slate-300 px-3 py-1.5 text-sm disabled:opacity-40">
+          Locate listings without coordinates
+        </button>
+      </section>
+
+      {message && <div className="rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-800">{message}</div>}
+      {error && <div className="rounded-lg border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">{error}</div>}
+
+      <div className="grid gap-4 lg:grid-cols-3">
+        <section className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm lg:col-span-2">
+          <input
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filter by name or alias"
+            className="w-full rounded-lg border border-slate-300 px-3 py-2 text-sm"
+          />
+          {loading && entries.length === 0 ? (
+            <p className="mt-3 text-sm text-slate-500">Loading gazetteer…</p>
+          ) : (
+            <table className="mt-3 w-full text-sm">
+              <thead>
+                <tr className="border-b border-slate-200 text-left text-xs uppercase text-slate-500">
+                  <th className="py-1">Name</th>
+                  <th className="py-1">Kind</th>
+                  <th className="py-1">Parent area</th>
+                  <th className="py-1">Lat, Lng</th>
+                  <th className="py-1" />
+                </tr>
+              </thead>
+              <tbody>
+                {visibleEntries.map((entry) => (
+                  <tr key={entry.id} className="border-b border-slate-100">
+                    <td className="py-1.5">
+                      <p className="font-medium">{entry.name}</p>
+                      {entry.aliases.length > 0 && <p className="text-xs text-slate-500">{entry.aliases.join(", ")}</p>}
+                    </td>
+                    <td className="py-1.5 capitalize">{entry.kind}</td>
+                    <td className="py-1.5">{entry.parent_area || "-"}</td>
+                    <td className="py-1.5 text-xs">{entry.latitude.toFixed(4)}, {entry.longitude.toFixed(4)}</td>
+                    <td className="py-1.5 text-right">
+                      <button onClick={() => setForm(formFromEntry(entry))} className="mr-1 rounded border border-slate-300 px-2 py-0.5 text-xs">Edit</button>
+                      <button onClick={() => removeEntry(entry)} disabled={saving} className="rounded border border-rose-300 px-2 py-0.5 text-xs text-rose-700 disabled:opacity-40">Delete</button>
+                    </td>
+                  </tr>
+                ))}
+                {visibleEntries.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="py-3 text-sm text-slate-500">No gazetteer entries yet. Import the seed file to get started.</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          )}
+        </section>
+
+        <div className="space-y-4">
+          <section className="space-y-2 rounded-xl border border-slate-200 bg-white p-4 text-sm shadow-sm">
+            <h3 className="font-semibold">{form.id ? "Edit entry" : "Add entry"}</h3>
+            <select value={form.kind} onChange={(e) => setForm((prev) => ({ ...prev, kind: e.target.value as GazetteerKind }))} className="w-full rounded border border-slate-300 px-2 py-1.5">
+              <option value="area">Area</option>
+              <option value="compound">Compound</option>
+            </select>
+            <input value={form.name} onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))} placeholder="Name" className="w-full rounded border border-slate-300 px-2 py-1.5" />
+            <input value={form.parent_area} onChange={(e) => setForm((prev) => ({ ...prev, parent_area: e.target.value }))} placeholder="Parent area (optional)" className="w-full rounded border border-slate-300 px-2 py-1.5" />
+            <div className="grid grid-cols-2 gap-2">
+              <input value={form.latitude} onChange={(e) => setForm((prev) => ({ ...prev, latitude: e.target.value }))} placeholder="Latitude" className="rounded border border-slate-300 px-2 py-1.5" />
+              <input value={form.longitude} onChange={(e) => setForm((prev) => ({ ...prev, longitude: e.target.value }))} placeholder="Longitude" className="rounded border border-slate-300 px-2 py-1.5" />
+            </div>
+            <input value={form.aliases} onChange={(e) => setForm((prev) => ({ ...prev, aliases: e.target.value }))} placeholder="Aliases (comma separated)" className="w-full rounded border border-slate-300 px-2 py-1.5" />
+            <div className="flex gap-2">
+              <button onClick={saveEntry} disabled={saving} className="rounded bg-slate-900 px-3 py-1.5 text-white disabled:opacity-40">Save</button>
+              {form.id && <button onClick={() => setForm(EMPTY_FORM)} className="rounded border border-slate-300 px-3 py-1.5">Cancel</button>}
+            </div>
+          </section>
+
+          <section className="space-y-2 rounded-xl border border-slate-200 bg-white p-4 text-sm shadow-sm">
+            <h3 className="font-semibold">Import CSV</h3>
+            <p className="text-xs text-slate-500">
+              Columns: <code>{GAZETTEER_CSV_HEADER}</code>. Separate aliases with <code>|</code>. Existing names are updated in place.
+            </p>
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={async (e) => {
+                const file = e.target.files?.[0];
+                if (file) setCsv(await file.text());
+              }}
+              className="w-full text-xs"
+            />
+            <textarea value={csv} onChange={(e) => setCsv(e.target.value)} rows={6} placeholder={GAZETTEER_CSV_HEADER} className="w-full rounded border border-slate-300 px-2 py-1.5 font-mono text-xs" />
+            <button onClick={importCsv} disabled={saving || !csv.trim()} className="rounded bg-slate-900 px-3 py-1.5 text-white disabled:opacity-40">Import</button>
+            {importErrors.length > 0 && (
+              <ul className="space-y-0.5 text-xs text-rose-700">
+                {importErrors.map((importError) => (
+                  <li key={importError.line}>Line {importError.line}: {importError.message}</li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -3,11 +3,39 @@
 import { useEffect, useMemo, useRef, useState } from "react";
 import { usePathname, useRouter, useSearchParams } from "next/navigation";
 import { ConfirmationModal } from "@/components/ui/confirmation-modal";
+import { RecordMatchesPanel } from "@/components/grid/record-matches-panel";
+import { GridKanbanBoard, type KanbanGroupField } from "@/components/grid/grid-kanban-board";
+import { GridMapView } from "@/components/grid/grid-map-view";
+import { ContactChannelsEditor } from "@/components/contacts/contact-channels-editor";
+import { WhatsAppTemplateForm } from "@/components/integrations/whatsapp-template-form";
 import { useAuth } from "@/hooks/use-auth";
 import { fetchFieldDefinitionsApi } from "@/services/api/hierarchy-api.service";
+import {
+  createSavedViewApi,
+  deleteSavedViewApi,
+  fetchSavedViewApi,
+  fetchSavedViewsApi,
+  setDefaultSavedViewApi,
+  updateSavedViewApi
+} from "@/services/api/grid-views-api.service";
+import type { ContactChannel } from "@/lib/contact-channels";
+import type { LatLng } from "@/lib/geo";
+import {
+  GRID_FILTERS_URL_PARAM,
+  SAVED_VIEW_URL_PARAM,
+  hiddenColumnsFromMap,
+  hiddenColumnsToMap,
+  legacySavedViewToState,
+  mergeColumnOrder,
+  type LegacySavedView,
+  type SavedView,
+  type SavedViewState,
+  type SavedViewVisibility
+} from "@/lib/saved-views";
 
 type GridType = "sale" | "rent" | "buyer" | "client";
 type ArchiveScope = "active" | "archived" | "all";
+type GridViewMode = "table" | "kanban" | "map";
 
 type GridColumn = {
   key: string;
@@ -50,6 +78,7 @@ type GridFilters = {
   source?: string;
   completeness?: Range;
   preset?: string;
+  polygon?: LatLng[];
 
   budget?: Range;
   intent?: string;
@@ -68,15 +97,6 @@ type GridFilters = {
   tags?: string[];
 };
 
-type SavedView = {
-  id: string;
-  name: string;
-  filters: GridFilters;
-  sorts: Sort[];
-  hidden: Record<string, boolean>;
-  pinned: string[];
-};
-
 type DeleteImpact = {
   recordCount: number;
   linkedMediaCount: number;
@@ -108,6 +128,8 @@ const columnsByType: Record<GridType, GridColumn[]> = {
     { key: "bathrooms", label: "Baths", editable: true, width: 80 },
     { key: "area", label: "Area", editable: true, width: 150 },
     { key: "compound", label: "Compound", editable: true, width: 150 },
+    { key: "latitude", label: "Lat", editable: true, width: 100 },
+    { key: "longitude", label: "Lng", editable: true, width: 100 },
     { key: "notes", label: "Notes", editable: true, width: 220 }
   ],
   rent: [
@@ -121,6 +143,8 @@ const columnsByType: Record<GridType, GridColumn[]> = {
     { key: "bathrooms", label: "Baths", editable: true, width: 80 },
     { key: "area", label: "Area", editable: true, width: 150 },
     { key: "compound", label: "Compound", editable: true, width: 150 },
+    { key: "latitude", label: "Lat", editable: true, width: 100 },
+    { key: "longitude", label: "Lng", editable: true, width: 100 },
     { key: "notes", label: "Notes", editable: true, width: 220 }
   ],
   buyer: [
@@ -141,6 +165,17 @@ const columnsByType: Record<GridType, GridColumn[]> = {
   ]
 };
 
+// Status is free text; these columns always show on the status board even when empty.
+const kanbanStatusOptionsByType: Record<GridType, string[]> = {
+  sale: ["active", "needs_review"],
+  rent: ["active", "needs_review"],
+  buyer: ["hot", "active", "needs_review"],
+  client: ["active", "needs_review"]
+};
+
+// Kanban and map views show one large page instead of paginating.
+const BOARD_PAGE_SIZE = 500;
+
 const defaultViewsByType: Record<GridType, Array<{ id: string; name: string; filters: GridFilters }>> = {
   sale: [
     { id: "new_today", name: "New Today", filters: { preset: "new_today" } },
@@ -208,6 +243,11 @@ function extractFiltersFromParams(params: URLSearchParams): GridFilters {
 
   return filters;
 }
+function selectFieldOptions(options: Record<string, unknown>) {
+  const directOptions = Array.isArray(options["options"]) ? options["options"] : Array.isArray(options["values"]) ? options["values"] : [];
+  return directOptions.map((option) => String(option)).filter(Boolean);
+}
+
 function gridTypeToHierarchyFamily(type: GridType): "sale" | "rent" | "buyers" | "clients" {
   if (type === "sale") return "sale";
   if (type === "rent") return "rent";
@@ -215,6 +255,26 @@ function gridTypeToHierarchyFamily(type: GridType): "sale" | "rent" | "buyers" |
   return "clients";
 }
 
+/** Moves views saved in this browser before views were stored server-side into the user's private views. */
+async function importLegacySavedViews(type: GridType) {
+  const key = `crm-grid-views-${type}`;
+  let stored: LegacySavedView[] = [];
+  try {
+    stored = JSON.parse(localStorage.getItem(key) || "[]") as LegacySavedView[];
+  } catch {
+    stored = [];
+  }
+  if (!Array.isArray(stored) || stored.length === 0) return;
+  for (const view of stored) {
+    try {
+      await createSavedViewApi({ type, name: view.name, visibility: "private", ...legacySavedViewToState(view) });
+    } catch {
+      // A view with the same name already exists on the server; keep that one.
+    }
+  }
+  localStorage.removeItem(key);
+}
+
 function csvEscape(value: unknown) {
   const text = String(value ?? "");
   if (text.includes(",") || text.includes("\n") || text.includes('"')) {
@@ -232,6 +292,7 @@ export function CRMGrid({ type }: { type: GridType }) {
   const isViewer = role === "viewer" || role === "agent";
   const isAgentMode = role === "agent";
   const isAdmin = (user?.role || "viewer") === "admin";
+  const canSeeMatches = isAdmin ? type !== "client" : isAgentMode && (type === "sale" || type === "rent");
   const [rows, setRows] = useState<GridRow[]>([]);
   const [loading, setLoading] = useState(true);
   const [page, setPage] = useState(1);
@@ -250,8 +311,9 @@ export function CRMGrid({ type }: { type: GridType }) {
 
   const [editing, setEditing] = useState<{ rowId: string; key: string; value: string } | null>(null);
   const [drawer, setDrawer] = useState<{ open: boolean; loading: boolean; data: any | null }>({ open: false, loading: false, data: null });
+  const [drawerTab, setDrawerTab] = useState<"details" | "matches">("details");
   const [contactQuery, setContactQuery] = useState("");
-  const [contactMatches, setContactMatches] = useState<Array<{ id: string; name: string; phone: string | null }>>([]);
+  const [contactMatches, setContactMatches] = useState<Array<{ id: string; name: string; phone: string | null; channels?: ContactChannel[] }>>([]);
   const [taskTitle, setTaskTitle] = useState("");
   const [taskDueDate, setTaskDueDate] = useState("");
   const [taskAssignedTo, setTaskAssignedTo] = useState("");
@@ -277,11 +339,19 @@ export function CRMGrid({ type }: { type: GridType }) {
   const [fieldLabels, setFieldLabels] = useState<Record<string, string>>({});
   const [fieldVisibility, setFieldVisibility] = useState<Record<string, boolean>>({});
   const [selectedViewId, setSelectedViewId] = useState("");
+  const [defaultViewId, setDefaultViewId] = useState<string | null>(null);
+  const [saveViewVisibility, setSaveViewVisibility] = useState<SavedViewVisibility>("private");
+  const [saveViewAsDefault, setSaveViewAsDefault] = useState(false);
+  const [savingView, setSavingView] = useState(false);
   const [saveViewName, setSaveViewName] = useState("");
   const [dynamicColumns, setDynamicColumns] = useState<GridColumn[]>([]);
   const [effectiveGridOrder, setEffectiveGridOrder] = useState<Record<string, number>>({});
+  const [selectFields, setSelectFields] = useState<KanbanGroupField[]>([]);
 
   const sentinelRef = useRef<HTMLDivElement | null>(null);
+  // Column order of the applied saved view; re-applied whenever the available columns change.
+  const viewColumnOrderRef = useRef<string[]>([]);
+  const initialViewAppliedRef = useRef<GridType | null>(null);
   const hierarchyNodeId = searchParams.get("nodeId") || "";
   const archiveScopeParam = (searchParams.get("archiveScope") || "active").toLowerCase();
   const archiveScope: ArchiveScope =
@@ -289,6 +359,13 @@ export function CRMGrid({ type }: { type: GridType }) {
       ? (archiveScopeParam as ArchiveScope)
       : "active";
   const isArchivedView = archiveScope === "archived";
+  const viewParam = searchParams.get("view");
+  const viewMode: GridViewMode = viewParam === "kanban" ? "kanban" : viewParam === "map" && (type === "sale" || type === "rent") ? "map" : "table";
+  const groupableFields = useMemo<KanbanGroupField[]>(
+    () => [{ key: "status", label: fieldLabels.status || "Status", options: kanbanStatusOptionsByType[type] }, ...selectFields.filter((field) => field.key !== "status")],
+    [type, fieldLabels, selectFields]
+  );
+  const groupField = groupableFields.find((field) => field.key === searchParams.get("groupBy")) || groupableFields[0];
   const showSelection = !isViewer;
   const tableExtraColumns = showSelection ? 4 : 3;
 
@@ -321,6 +398,8 @@ export function CRMGrid({ type }: { type: GridType }) {
     [selectedRows]
   );
   const isDrawerRecordArchived = Boolean(drawer.data?.record?.is_archived);
+  const selectedSavedView = savedViews.find((view) => view.id === selectedViewId) || null;
+  const canManageSelectedView = Boolean(selectedSavedView && (selectedSavedView.owner_id === user?.id || isAdmin));
 
   function updateUrlQuery(patch: Record<string, string | null>) {
     const next = new URLSearchParams(searchParams.toString());
@@ -343,8 +422,8 @@ export function CRMGrid({ type }: { type: GridType }) {
     setLoading(true);
     const query = new URLSearchParams({
       type,
-      page: String(reset ? 1 : page),
-      pageSize: String(pageSize),
+      page: String(reset || viewMode !== "table" ? 1 : page),
+      pageSize: String(viewMode !== "table" ? BOARD_PAGE_SIZE : pageSize),
       sort: sorts.map((s) => `${s.field}:${s.direction}`).join(","),
       filters: JSON.stringify(filters),
       archiveScope
@@ -362,19 +441,54 @@ export function CRMGrid({ type }: { type: GridType }) {
     const data = await res.json();
     const incoming = (data.rows || []) as GridRow[];
 
-    setRows((prev) => (reset || !infinite ? incoming : [...prev, ...incoming]));
+    setRows((prev) => (reset || !infinite || viewMode !== "table" ? incoming : [...prev, ...incoming]));
     setTotal(Number(data.total || 0));
     setLoading(false);
   }
 
   useEffect(() => {
-    const key = `crm-grid-views-${type}`;
-    try {
-      const stored = JSON.parse(localStorage.getItem(key) || "[]") as SavedView[];
-      setSavedViews(stored);
-    } catch {
-      setSavedViews([]);
+    let active = true;
+    async function loadSavedViews() {
+      try {
+        await importLegacySavedViews(type);
+        const data = await fetchSavedViewsApi(type);
+        if (!active) return;
+        setSavedViews(data.views);
+        setDefaultViewId(data.defaultViewId);
+
+        if (initialViewAppliedRef.current === type) return;
+        initialViewAppliedRef.current = type;
+        // A shared link wins over the user's default view.
+        const linkedViewId = searchParams.get(SAVED_VIEW_URL_PARAM);
+        if (linkedViewId) {
+          const listed = data.views.find((view) => view.id === linkedViewId);
+          const linked = listed || (await fetchSavedViewApi(linkedViewId)).view;
+          if (!active) return;
+          if (!listed) setSavedViews((prev) => [...prev, linked]);
+          applySavedView(linked);
+          return;
+        }
+        const linkedFilters = searchParams.get(GRID_FILTERS_URL_PARAM);
+        if (linkedFilters) {
+          try {
+            setFilters(JSON.parse(linkedFilters) as GridFilters);
+            return;
+          } catch {
+            // Malformed filters in a link fall through to the default view.
+          }
+        }
+        const defaultView = data.views.find((view) => view.id === data.defaultViewId);
+        if (defaultView) applySavedView(defaultView);
+      } catch (error) {
+        if (!active) return;
+        setFeedback({ tone: "error", message: error instanceof Error ? `Saved views: ${error.message}` : "Failed to load saved views" });
+      }
     }
+    loadSavedViews();
+    return () => {
+      active = false;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [type]);
 
   useEffect(() => {
@@ -383,7 +497,7 @@ export function CRMGrid({ type }: { type: GridType }) {
     setFeedback(null);
     loadRows(true);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [type, sorts, filters, hierarchyNodeId, archiveScope]);
+  }, [type, sorts, filters, hierarchyNodeId, archiveScope, viewMode]);
 
   useEffect(() => {
     if (!infinite) return;
@@ -417,7 +531,15 @@ export function CRMGrid({ type }: { type: GridType }) {
         const nextVisibility: Record<string, boolean> = {};
         const nextOrder: Record<string, number> = {};
         const nextDynamicColumns: GridColumn[] = [];
+        const nextSelectFields: KanbanGroupField[] = [];
         (result.fields || []).forEach((field) => {
+          if (field.data_type === "single_select" && field.effective_visible) {
+            nextSelectFields.push({
+              key: field.field_key,
+              label: field.effective_label || field.default_label,
+              options: selectFieldOptions(field.effective_options_json || {})
+            });
+          }
           nextLabels[field.field_key] = field.effective_label || field.default_label;
           nextVisibility[field.field_key] = field.effective_grid_visible;
           nextOrder[field.field_key] = field.effective_display_order;
@@ -441,12 +563,14 @@ export function CRMGrid({ type }: { type: GridType }) {
         setFieldVisibility(nextVisibility);
         setEffectiveGridOrder(nextOrder);
         setDynamicColumns(nextDynamicColumns);
+        setSelectFields(nextSelectFields);
       } catch {
         if (!active) return;
         setFieldLabels({});
         setFieldVisibility({});
         setEffectiveGridOrder({});
         setDynamicColumns([]);
+        setSelectFields([]);
       }
     }
     loadFieldLabels();
@@ -457,7 +581,7 @@ export function CRMGrid({ type }: { type: GridType }) {
 
   useEffect(() => {
     const orderedKeys = availableColumns.map((column) => column.key);
-    setColumnOrder(orderedKeys);
+    setColumnOrder(mergeColumnOrder(viewColumnOrderRef.current, orderedKeys));
 
     setWidths((prev) => {
       const next = { ...prev };
@@ -498,6 +622,24 @@ export function CRMGrid({ type }: { type: GridType }) {
     setEditing(null);
   }
 
+  async function moveKanbanCard(rowId: string, value: string | null) {
+    const field = groupField.key;
+    const previous = rows.find((row) => row.id === rowId)?.[field];
+    setRows((prev) => prev.map((row) => (row.id === rowId ? { ...row, [field]: value } : row)));
+    const res = await fetch("/api/grid/records", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ type, record_id: rowId, field, value: value ?? "" })
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      setRows((prev) => prev.map((row) => (row.id === rowId ? { ...row, [field]: previous } : row)));
+      setFeedback({ tone: "error", message: data.error || `Failed to update ${groupField.label}` });
+      return;
+    }
+    setRows((prev) => prev.map((row) => (row.id === rowId ? { ...row, [field]: data.normalized ?? value } : row)));
+  }
+
   function renderCell(row: GridRow, col: GridColumn) {
     const isEditing = editing?.rowId === row.id && editing.key === col.key;
     const raw = row[col.key];
@@ -542,6 +684,7 @@ export function CRMGrid({ type }: { type: GridType }) {
   }, [searchParams, rows, loading]);
   async function openDrawer(id: string) {
     setDrawer({ open: true, loading: true, data: null });
+    setDrawerTab("details");
     const query = new URLSearchParams({ type, id });
     if (hierarchyNodeId) query.set("nodeId", hierarchyNodeId);
     const res = await fetch(`/api/grid/record-detail?${query.toString()}`, { cache: "no-store" });
@@ -665,35 +808,127 @@ export function CRMGrid({ type }: { type: GridType }) {
     return pinnedColumns.includes(key);
   }
 
-  function saveCurrentView() {
-    if (!saveViewName.trim()) return;
-    const next: SavedView = {
-      id: `view_${Date.now()}`,
-      name: saveViewName.trim(),
+  function currentViewState(): SavedViewState {
+    return {
       filters,
       sorts,
-      hidden,
-      pinned: pinnedColumns
+      column_order: columnOrder,
+      hidden_columns: hiddenColumnsFromMap(hidden),
+      pinned_columns: pinnedColumns,
+      column_widths: Object.fromEntries(Object.entries(widths).map(([key, width]) => [key, Math.round(width)])),
+      hierarchy_node_id: hierarchyNodeId || null,
+      archive_scope: archiveScope
     };
-    const all = [...savedViews, next];
-    setSavedViews(all);
-    localStorage.setItem(`crm-grid-views-${type}`, JSON.stringify(all));
-    setSaveViewName("");
+  }
+
+  function applySavedView(view: SavedView) {
+    setSelectedViewId(view.id);
+    setFilters(view.filters as GridFilters);
+    setSorts(view.sorts.length ? view.sorts : [{ field: "updated_at", direction: "desc" }]);
+    setHidden(hiddenColumnsToMap(view.hidden_columns));
+    setPinnedColumns(view.pinned_columns.length ? view.pinned_columns : columnsByType[type].slice(0, 2).map((c) => c.key));
+    setWidths((prev) => ({ ...prev, ...view.column_widths }));
+    viewColumnOrderRef.current = view.column_order;
+    setColumnOrder(mergeColumnOrder(view.column_order, availableColumns.map((column) => column.key)));
+    updateUrlQuery({
+      [SAVED_VIEW_URL_PARAM]: view.id,
+      nodeId: view.hierarchy_node_id,
+      archiveScope: view.archive_scope === "active" ? null : view.archive_scope
+    });
+  }
+
+  async function saveCurrentView() {
+    if (!saveViewName.trim()) return;
+    setSavingView(true);
+    try {
+      const { view } = await createSavedViewApi({
+        type,
+        name: saveViewName.trim(),
+        visibility: saveViewVisibility,
+        makeDefault: saveViewAsDefault,
+        ...currentViewState()
+      });
+      setSavedViews((prev) => [...prev, view].sort((a, b) => a.name.localeCompare(b.name)));
+      if (saveViewAsDefault) setDefaultViewId(view.id);
+      setSelectedViewId(view.id);
+      updateUrlQuery({ [SAVED_VIEW_URL_PARAM]: view.id });
+      setSaveViewName("");
+      setSaveViewAsDefault(false);
+      setFeedback({ tone: "success", message: `Saved view "${view.name}".` });
+    } catch (error) {
+      setFeedback({ tone: "error", message: error instanceof Error ? error.message : "Failed to save view" });
+    } finally {
+      setSavingView(false);
+    }
+  }
+
+  async function updateSelectedView() {
+    if (!selectedSavedView) return;
+    setSavingView(true);
+    try {
+      const { view } = await updateSavedViewApi(selectedSavedView.id, currentViewState());
+      setSavedViews((prev) => prev.map((item) => (item.id === view.id ? view : item)));
+      setFeedback({ tone: "success", message: `Updated view "${view.name}".` });
+    } catch (error) {
+      setFeedback({ tone: "error", message: error instanceof Error ? error.message : "Failed to update view" });
+    } finally {
+      setSavingView(false);
+    }
+  }
+
+  async function toggleSelectedViewVisibility() {
+    if (!selectedSavedView) return;
+    try {
+      const { view } = await updateSavedViewApi(selectedSavedView.id, { visibility: selectedSavedView.visibility === "team" ? "private" : "team" });
+      setSavedViews((prev) => prev.map((item) => (item.id === view.id ? view : item)));
+    } catch (error) {
+      setFeedback({ tone: "error", message: error instanceof Error ? error.message : "Failed to update view" });
+    }
+  }
+
+  async function deleteSelectedView() {
+    if (!selectedSavedView) return;
+    try {
+      await deleteSavedViewApi(selectedSavedView.id);
+      setSavedViews((prev) => prev.filter((item) => item.id !== selectedSavedView.id));
+      if (defaultViewId === selectedSavedView.id) setDefaultViewId(null);
+      setSelectedViewId("");
+      viewColumnOrderRef.current = [];
+      updateUrlQuery({ [SAVED_VIEW_URL_PARAM]: null });
+      setFeedback({ tone: "success", message: `Deleted view "${selectedSavedView.name}".` });
+    } catch (error) {
+      setFeedback({ tone: "error", message: error instanceof Error ? error.message : "Failed to delete view" });
+    }
+  }
+
+  async function toggleDefaultView() {
+    if (!selectedSavedView) return;
+    const nextDefault = defaultViewId === selectedSavedView.id ? null : selectedSavedView.id;
+    try {
+      await setDefaultSavedViewApi(type, nextDefault);
+      setDefaultViewId(nextDefault);
+    } catch (error) {
+      setFeedback({ tone: "error", message: error instanceof Error ? error.message : "Failed to set default view" });
+    }
+  }
+
+  async function copySelectedViewLink() {
+    if (!selectedSavedView) return;
+    await navigator.clipboard.writeText(`${window.location.origin}${pathname}?${SAVED_VIEW_URL_PARAM}=${selectedSavedView.id}`);
+    setFeedback({ tone: "success", message: "View link copied." });
   }
 
   function applyView(id: string) {
     setSelectedViewId(id);
     const preset = defaultViewsByType[type].find((v) => v.id === id);
-    if (preset) {
-      setFilters(preset.filters);
+    if (preset || !id) {
+      viewColumnOrderRef.current = [];
+      updateUrlQuery({ [SAVED_VIEW_URL_PARAM]: null });
+      if (preset) setFilters(preset.filters);
       return;
     }
     const custom = savedViews.find((v) => v.id === id);
-    if (!custom) return;
-    setFilters(custom.filters);
-    setSorts(custom.sorts);
-    setHidden(custom.hidden);
-    setPinnedColumns(custom.pinned.length ? custom.pinned : columnsByType[type].slice(0, 2).map((c) => c.key));
+    if (custom) applySavedView(custom);
   }
 
   async function exportCsv() {
@@ -929,7 +1164,13 @@ ${exportData.spreadsheetUrl || ""}`);
           <select value={selectedViewId} onChange={(e) => applyView(e.target.value)} className="rounded border border-slate-300 px-2 py-1.5 text-sm">
             <option value="">Views</option>
             {defaultViewsByType[type].map((v) => <option key={v.id} value={v.id}>{v.name}</option>)}
-            {savedViews.map((v) => <option key={v.id} value={v.id}>{v.name}</option>)}
+            {savedViews.map((v) => (
+              <option key={v.id} value={v.id}>
+                {v.name}
+                {v.visibility === "team" ? " (team)" : ""}
+                {v.id === defaultViewId ? " ★" : ""}
+              </option>
+            ))}
           </select>
 
           <button onClick={exportCsv} className="rounded border border-slate-300 px-3 py-1.5 text-sm">Export CSV</button>
@@ -945,12 +1186,41 @@ ${exportData.spreadsheetUrl || ""}`);
           {archiveScope === "archived" && <span className="rounded bg-amber-100 px-2 py-0.5 text-[10px] font-semibold uppercase text-amber-800">Archive view</span>}
           {archiveScope === "all" && <span className="rounded bg-blue-100 px-2 py-0.5 text-[10px] font-semibold uppercase text-blue-800">All records</span>}
           {isViewer && <span className="rounded bg-slate-100 px-2 py-0.5 text-[10px] font-semibold uppercase text-slate-600">Read only</span>}
+          {viewMode !== "map" && filters.polygon && (
+            <button
+              onClick={() => setFilters((prev) => ({ ...prev, polygon: undefined }))}
+              className="rounded bg-blue-100 px-2 py-0.5 text-[10px] font-semibold uppercase text-blue-800"
+              title="Clear the area drawn on the map"
+            >
+              Map area ×
+            </button>
+          )}
         </div>
         <div className="flex items-center gap-2">
-          <label className="text-xs text-slate-600">
-            <input type="checkbox" checked={infinite} onChange={(e) => setInfinite(e.target.checked)} className="mr-1" />
-            Infinite scroll
-          </label>
+          <div className="flex items-center gap-1 rounded border border-slate-300 p-0.5 text-xs">
+            <button onClick={() => updateUrlQuery({ view: null })} className={`rounded px-2 py-1 ${viewMode === "table" ? "bg-slate-900 text-white" : "text-slate-700"}`}>Table</button>
+            <button onClick={() => updateUrlQuery({ view: "kanban" })} className={`rounded px-2 py-1 ${viewMode === "kanban" ? "bg-slate-900 text-white" : "text-slate-700"}`}>Kanban</button>
+            {(type === "sale" || type === "rent") && (
+              <button onClick={() => updateUrlQuery({ view: "map" })} className={`rounded px-2 py-1 ${viewMode === "map" ? "bg-slate-900 text-white" : "text-slate-700"}`}>Map</button>
+            )}
+          </div>
+          {viewMode === "kanban" ? (
+            <label className="text-xs text-slate-600">
+              Group by
+              <select
+                value={groupField.key}
+                onChange={(e) => updateUrlQuery({ groupBy: e.target.value === "status" ? null : e.target.value })}
+                className="ml-1 rounded border border-slate-300 px-1 py-0.5"
+              >
+                {groupableFields.map((field) => <option key={field.key} value={field.key}>{field.label}</option>)}
+              </select>
+            </label>
+          ) : viewMode === "map" ? null : (
+            <label className="text-xs text-slate-600">
+              <input type="checkbox" checked={infinite} onChange={(e) => setInfinite(e.target.checked)} className="mr-1" />
+              Infinite scroll
+            </label>
+          )}
           <button onClick={() => setShowChooser((s) => !s)} className="rounded border border-slate-300 px-2 py-1 text-xs">Columns</button>
         </div>
       </div>
@@ -1002,140 +1272,191 @@ ${exportData.spreadsheetUrl || ""}`);
             ))}
           </div>
 
-          <div className="mt-2 flex items-center gap-2">
+          <div className="mt-2 flex flex-wrap items-center gap-2">
             <input value={saveViewName} onChange={(e) => setSaveViewName(e.target.value)} placeholder="Save current view" className="rounded border border-slate-300 px-2 py-1" />
-            <button onClick={saveCurrentView} className="rounded border border-slate-300 px-2 py-1">Save View (private)</button>
+            <select value={saveViewVisibility} onChange={(e) => setSaveViewVisibility(e.target.value as SavedViewVisibility)} className="rounded border border-slate-300 px-1 py-1">
+              <option value="private">Private</option>
+              <option value="team">Team</option>
+            </select>
+            <label className="inline-flex items-center gap-1">
+              <input type="checkbox" checked={saveViewAsDefault} onChange={(e) => setSaveViewAsDefault(e.target.checked)} />
+              Open by default
+            </label>
+            <button onClick={saveCurrentView} disabled={savingView || !saveViewName.trim()} className="rounded border border-slate-300 px-2 py-1 disabled:opacity-40">Save View</button>
           </div>
-        </div>
-      )}
 
-      <div className="max-h-[70vh] overflow-auto">
-        <table className="w-full border-collapse text-sm">
-          <thead className="sticky top-0 z-10 bg-slate-100">
-            <tr>
-              {showSelection && (
-                <th className="sticky left-0 z-30 w-10 border-b border-slate-200 bg-slate-100 px-2 py-2">
-                  <input
-                    type="checkbox"
-                    checked={rows.length > 0 && rows.every((r) => selectedRows[r.id])}
-                    onChange={(e) => {
-                      const next: Record<string, boolean> = {};
-                      rows.forEach((r) => (next[r.id] = e.target.checked));
-                      setSelectedRows(next);
-                    }}
-                  />
-                </th>
+          {selectedSavedView && (
+            <div className="mt-2 flex flex-wrap items-center gap-2">
+              <span className="text-slate-600">
+                &quot;{selectedSavedView.name}&quot; · {selectedSavedView.visibility === "team" ? "shared with team" : "private"}
+              </span>
+              {canManageSelectedView && (
+                <>
+                  <button onClick={updateSelectedView} disabled={savingView} className="rounded border border-slate-300 px-2 py-1 disabled:opacity-40">Update with current layout</button>
+                  <button onClick={toggleSelectedViewVisibility} className="rounded border border-slate-300 px-2 py-1">
+                    {selectedSavedView.visibility === "team" ? "Make private" : "Share with team"}
+                  </button>
+                  <button onClick={deleteSelectedView} className="rounded border border-rose-300 px-2 py-1 text-rose-700">Delete view</button>
+                </>
               )}
+              <button onClick={toggleDefaultView} className="rounded border border-slate-300 px-2 py-1">
+                {defaultViewId === selectedSavedView.id ? "Unset default" : "Set as my default"}
+              </button>
+              <button onClick={copySelectedViewLink} className="rounded border border-slate-300 px-2 py-1">Copy link</button>
+            </div>
+          )}
+        </div>
+      )}
 
-              {columns.map((col) => {
-                if (hidden[col.key]) return null;
-                const pinned = isPinned(col.key);
-                return (
-                  <th
-                    key={col.key}
-                    style={{ width: widths[col.key], minWidth: widths[col.key], left: pinned ? pinLeft(col.key) : undefined }}
-                    className={`${pinned ? "sticky z-20 bg-slate-100" : ""} border-b border-slate-200 px-2 py-2 text-left text-xs font-semibold`}
-                  >
-                    <div className="flex items-center gap-1">
-                      <button onClick={(e) => toggleSort(col.key, e.shiftKey)} className="truncate">{col.label}</button>
-                      <button onClick={() => setColumnOrder((prev) => {
-                        const i = prev.indexOf(col.key); if (i <= 0) return prev;
-                        const n = [...prev]; [n[i - 1], n[i]] = [n[i], n[i - 1]]; return n;
-                      })} className="text-[10px]">◀</button>
-                      <button onClick={() => setColumnOrder((prev) => {
-                        const i = prev.indexOf(col.key); if (i === -1 || i >= prev.length - 1) return prev;
-                        const n = [...prev]; [n[i + 1], n[i]] = [n[i], n[i + 1]]; return n;
-                      })} className="text-[10px]">▶</button>
-                      <button
-                        onClick={() => setPinnedColumns((prev) => {
-                          if (prev.includes(col.key)) return prev.filter((k) => k !== col.key);
-                          return [...prev, col.key].slice(0, 2);
-                        })}
-                        className={`text-[10px] ${isPinned(col.key) ? "text-slate-900" : "text-slate-400"}`}
-                      >📌</button>
-                      <span
-                        onMouseDown={(e) => {
-                          e.preventDefault();
-                          const startX = e.clientX;
-                          const startW = widths[col.key] || 140;
-                          const move = (ev: MouseEvent) => setWidths((prev) => ({ ...prev, [col.key]: Math.max(90, startW + (ev.clientX - startX)) }));
-                          const up = () => {
-                            window.removeEventListener("mousemove", move);
-                            window.removeEventListener("mouseup", up);
-                          };
-                          window.addEventListener("mousemove", move);
-                          window.addEventListener("mouseup", up);
-                        }}
-                        className="ml-auto cursor-col-resize select-none text-slate-400"
-                      >
-                        ⋮
-                      </span>
-                    </div>
-                  </th>
-                );
-              })}
-
-              <th className="border-b border-slate-200 px-2 py-2 text-left text-xs">Media</th>
-              <th className="border-b border-slate-200 px-2 py-2 text-left text-xs">Completeness</th>
-              <th className="border-b border-slate-200 px-2 py-2 text-left text-xs">Updated</th>
-            </tr>
-          </thead>
-          <tbody>
-            {loading && rows.length === 0 && Array.from({ length: 8 }).map((_, i) => (
-              <tr key={`s-${i}`} className="animate-pulse border-b border-slate-100">
-                <td className="h-10 bg-slate-50" colSpan={columns.length + tableExtraColumns} />
-              </tr>
-            ))}
-
-            {!loading && rows.length === 0 && (
+      {viewMode === "kanban" ? (
+        <GridKanbanBoard
+          rows={rows}
+          groupField={groupField}
+          summaryColumns={columns.filter((col) => !hidden[col.key] && col.key !== "code" && col.key !== groupField.key).slice(0, 4)}
+          canDrag={isAdmin && !isArchivedView}
+          loading={loading}
+          truncated={total > rows.length}
+          onMove={moveKanbanCard}
+          onOpen={openDrawer}
+        />
+      ) : viewMode === "map" ? (
+        <GridMapView
+          rows={rows}
+          polygon={filters.polygon || []}
+          loading={loading}
+          truncated={total > rows.length}
+          onPolygonChange={(polygon) => setFilters((prev) => ({ ...prev, polygon: polygon || undefined }))}
+          onOpen={openDrawer}
+        />
+      ) : (
+        <div className="max-h-[70vh] overflow-auto">
+          <table className="w-full border-collapse text-sm">
+            <thead className="sticky top-0 z-10 bg-slate-100">
               <tr>
-                <td colSpan={columns.length + tableExtraColumns} className="px-3 py-10 text-center text-sm text-slate-500">
-                  {isAgentMode
-                    ? `No ${type} records available yet.`
-                    : hierarchyNodeId
-                      ? "No records found in this hierarchy layer."
-                      : "No records found."}
-                </td>
-              </tr>
-            )}
-
-            {rows.map((row) => (
-              <tr key={row.id} className="cursor-pointer border-b border-slate-100 hover:bg-slate-50" onClick={() => openDrawer(row.id)}>
                 {showSelection && (
-                  <td className="sticky left-0 z-10 bg-white px-2 py-2" onClick={(e) => e.stopPropagation()}>
-                    <input type="checkbox" checked={!!selectedRows[row.id]} onChange={(e) => setSelectedRows((prev) => ({ ...prev, [row.id]: e.target.checked }))} />
-                  </td>
+                  <th className="sticky left-0 z-30 w-10 border-b border-slate-200 bg-slate-100 px-2 py-2">
+                    <input
+                      type="checkbox"
+                      checked={rows.length > 0 && rows.every((r) => selectedRows[r.id])}
+                      onChange={(e) => {
+                        const next: Record<string, boolean> = {};
+                        rows.forEach((r) => (next[r.id] = e.target.checked));
+                        setSelectedRows(next);
+                      }}
+                    />
+                  </th>
                 )}
 
                 {columns.map((col) => {
                   if (hidden[col.key]) return null;
                   const pinned = isPinned(col.key);
                   return (
-                    <td
-                      key={`${row.id}-${col.key}`}
+                    <th
+                      key={col.key}
                       style={{ width: widths[col.key], minWidth: widths[col.key], left: pinned ? pinLeft(col.key) : undefined }}
-                      className={`${pinned ? "sticky z-10 bg-white" : ""} px-2 py-2`}
-                      tabIndex={0}
+                      className={`${pinned ? "sticky z-20 bg-slate-100" : ""} border-b border-slate-200 px-2 py-2 text-left text-xs font-semibold`}
                     >
-                      {renderCell(row, col)}
-                    </td>
+                      <div className="flex items-center gap-1">
+                        <button onClick={(e) => toggleSort(col.key, e.shiftKey)} className="truncate">{col.label}</button>
+                        <button onClick={() => setColumnOrder((prev) => {
+                          const i = prev.indexOf(col.key); if (i <= 0) return prev;
+                          const n = [...prev]; [n[i - 1], n[i]] = [n[i], n[i - 1]]; return n;
+                        })} className="text-[10px]">◀</button>
+                        <button onClick={() => setColumnOrder((prev) => {
+                          const i = prev.indexOf(col.key); if (i === -1 || i >= prev.length - 1) return prev;
+                          const n = [...prev]; [n[i + 1], n[i]] = [n[i], n[i + 1]]; return n;
+                        })} className="text-[10px]">▶</button>
+                        <button
+                          onClick={() => setPinnedColumns((prev) => {
+                            if (prev.includes(col.key)) return prev.filter((k) => k !== col.key);
+                            return [...prev, col.key].slice(0, 2);
+                          })}
+                          className={`text-[10px] ${isPinned(col.key) ? "text-slate-900" : "text-slate-400"}`}
+                        >📌</button>
+                        <span
+                          onMouseDown={(e) => {
+                            e.preventDefault();
+                            const startX = e.clientX;
+                            const startW = widths[col.key] || 140;
+                            const move = (ev: MouseEvent) => setWidths((prev) => ({ ...prev, [col.key]: Math.max(90, startW + (ev.clientX - startX)) }));
+                            const up = () => {
+                              window.removeEventListener("mousemove", move);
+                              window.removeEventListener("mouseup", up);
+                            };
+                            window.addEventListener("mousemove", move);
+                            window.addEventListener("mouseup", up);
+                          }}
+                          className="ml-auto cursor-col-resize select-none text-slate-400"
+                        >
+                          ⋮
+                        </span>
+                      </div>
+                    </th>
                   );
                 })}
 
-                <td className="px-2 py-2 text-xs">📷 {row.media_counts?.images || 0} | 🎥 {row.media_counts?.videos || 0} | 📄 {row.media_counts?.documents || 0}</td>
-                <td className="px-2 py-2">
-                  <span className={`rounded-full px-2 py-1 text-xs ${scoreColor(Number(row.completeness_score || 0))}`}>{Number(row.completeness_score || 0)}%</span>
-                </td>
-                <td className="px-2 py-2 text-xs text-slate-600">{relTime(String(row.updated_at || ""))}</td>
+                <th className="border-b border-slate-200 px-2 py-2 text-left text-xs">Media</th>
+                <th className="border-b border-slate-200 px-2 py-2 text-left text-xs">Completeness</th>
+                <th className="border-b border-slate-200 px-2 py-2 text-left text-xs">Updated</th>
               </tr>
-            ))}
-          </tbody>
-        </table>
+            </thead>
+            <tbody>
+              {loading && rows.length === 0 && Array.from({ length: 8 }).map((_, i) => (
+                <tr key={`s-${i}`} className="animate-pulse border-b border-slate-100">
+                  <td className="h-10 bg-slate-50" colSpan={columns.length + tableExtraColumns} />
+                </tr>
+              ))}
+
+              {!loading && rows.length === 0 && (
+                <tr>
+                  <td colSpan={columns.length + tableExtraColumns} className="px-3 py-10 text-center text-sm text-slate-500">
+                    {isAgentMode
+                      ? `No ${type} records available yet.`
+                      : hierarchyNodeId
+                        ? "No records found in this hierarchy layer."
+                        : "No records found."}
+                  </td>
+                </tr>
+              )}
 
-        {infinite && <div ref={sentinelRef} className="h-6" />}
-      </div>
+              {rows.map((row) => (
+                <tr key={row.id} className="cursor-pointer border-b border-slate-100 hover:bg-slate-50" onClick={() => openDrawer(row.id)}>
+                  {showSelection && (
+                    <td className="sticky left-0 z-10 bg-white px-2 py-2" onClick={(e) => e.stopPropagation()}>
+                      <input type="checkbox" checked={!!selectedRows[row.id]} onChange={(e) => setSelectedRows((prev) => ({ ...prev, [row.id]: e.target.checked }))} />
+                    </td>
+                  )}
+
+                  {columns.map((col) => {
+                    if (hidden[col.key]) return null;
+                    const pinned = isPinned(col.key);
+                    return (
+                      <td
+                        key={`${row.id}-${col.key}`}
+                        style={{ width: widths[col.key], minWidth: widths[col.key], left: pinned ? pinLeft(col.key) : undefined }}
+                        className={`${pinned ? "sticky z-10 bg-white" : ""} px-2 py-2`}
+                        tabIndex={0}
+                      >
+                        {renderCell(row, col)}
+                      </td>
+                    );
+                  })}
+
+                  <td className="px-2 py-2 text-xs">📷 {row.media_counts?.images || 0} | 🎥 {row.media_counts?.videos || 0} | 📄 {row.media_counts?.documents || 0}</td>
+                  <td className="px-2 py-2">
+                    <span className={`rounded-full px-2 py-1 text-xs ${scoreColor(Number(row.completeness_score || 0))}`}>{Number(row.completeness_score || 0)}%</span>
+                  </td>
+                  <td className="px-2 py-2 text-xs text-slate-600">{relTime(String(row.updated_at || ""))}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {infinite && <div ref={sentinelRef} className="h-6" />}
+        </div>
+      )}
 
-      {!infinite && (
+      {viewMode === "table" && !infinite && (
         <div className="flex items-center justify-between border-t border-slate-200 px-3 py-2 text-xs">
           <span>Page {page} / {Math.max(1, Math.ceil(total / pageSize))}</span>
           <div className="flex gap-1">
@@ -1295,7 +1616,23 @@ ${exportData.spreadsheetUrl || ""}`);
           </div>
           <div className="h-[calc(100%-56px)] overflow-auto p-4">
             {drawer.loading && <p className="text-sm text-slate-500">Loading...</p>}
-            {!drawer.loading && drawer.data && (
+            {!drawer.loading && drawer.data && canSeeMatches && (
+              <div className="mb-4 flex gap-1 border-b border-slate-200 text-sm">
+                {(["details", "matches"] as const).map((tab) => (
+                  <button
+                    key={tab}
+                    onClick={() => setDrawerTab(tab)}
+                    className={`-mb-px border-b-2 px-3 py-1.5 capitalize ${drawerTab === tab ? "border-slate-900 font-semibold" : "border-transparent text-slate-500"}`}
+                  >
+                    {tab}
+                  </button>
+                ))}
+              </div>
+            )}
+            {!drawer.loading && drawer.data && drawerTab === "matches" && canSeeMatches && type !== "client" && (
+              <RecordMatchesPanel type={type} recordId={drawer.data.record?.id} readOnly={isDrawerRecordArchived} agentView={!isAdmin} />
+            )}
+            {!drawer.loading && drawer.data && drawerTab === "details" && (
               isViewer && (type === "sale" || type === "rent") ? (
                 <div className="space-y-4 text-sm">
                   <div className="rounded border border-slate-200 p-3">
@@ -1452,11 +1789,16 @@ ${exportData.spreadsheetUrl || ""}`);
                   </div>
 
                   {drawer.data.linked_contact ? (
-                    <div className="mb-2 rounded border border-slate-200 p-2 text-xs">
-                      <p className="font-medium">{drawer.data.linked_contact.name || "Contact"}</p>
-                      <p className="text-slate-500">{drawer.data.linked_contact.phone || "No phone"}</p>
-                      <a href={`/clients?contact=${drawer.data.linked_contact.id}`} className="text-slate-400 underline">View contact</a>
-                    </div>
+                    <>
+                      <ContactChannelsEditor
+                        contact={drawer.data.linked_contact}
+                        readOnly={!isAdmin || isDrawerRecordArchived}
+                        onSaved={(contact) => setDrawer((prev) => (prev.data ? { ...prev, data: { ...prev.data, linked_contact: contact } } : prev))}
+                      />
+                      {isAdmin && drawer.data.record?.id && (
+                        <WhatsAppTemplateForm key={drawer.data.record.id} type={type} recordId={drawer.data.record.id} disabled={isDrawerRecordArchived} />
+                      )}
+                    </>
                   ) : (
                     <p className="mb-2 text-xs text-slate-500">No linked contact</p>
                   )}
@@ -1474,7 +1816,7 @@ ${exportData.spreadsheetUrl || ""}`);
                   <div className="mb-2 space-y-1">
                     {contactMatches.map((contact) => (
                       <button disabled={isViewer || isDrawerRecordArchived} key={contact.id} onClick={() => linkContact(contact.id)} className="block w-full rounded border border-slate-200 px-2 py-1 text-left text-xs hover:bg-slate-50 disabled:opacity-40">
-                        {contact.name || "Contact"} • {contact.phone || "No phone"}
+                        {contact.name || "Contact"} • {(contact.channels || []).map((channel) => channel.normalized_value).join(", ") || contact.phone || "No phone"}
                       </button>
                     ))}
                   </div>
@@ -0,0 +1,132 @@
+"use client";
+
+import { useMemo, useState } from "react";
+
+type KanbanRow = Record<string, unknown> & {
+  id: string;
+  code?: string;
+  completeness_score?: number;
+  media_counts?: { images: number; videos: number; documents: number };
+};
+
+export type KanbanGroupField = {
+  key: string;
+  label: string;
+  options: string[];
+};
+
+const EMPTY_COLUMN = "__empty__";
+
+function groupValue(row: KanbanRow, key: string) {
+  const raw = row[key];
+  const value = Array.isArray(raw) ? raw[0] : raw;
+  return value === null || value === undefined || String(value).trim() === "" ? EMPTY_COLUMN : String(value);
+}
+
+function displayValue(raw: unknown) {
+  if (Array.isArray(raw)) return raw.join(", ");
+  return String(raw ?? "");
+}
+
+/**
+ * Groups the grid's current rows into columns by one select field. Columns come from the field's
+ * configured options plus any other value present in the rows, with an "(empty)" column last.
+ */
+export function GridKanbanBoard({
+  rows,
+  groupField,
+  summaryColumns,
+  canDrag,
+  loading,
+  truncated,
+  onMove,
+  onOpen
+}: {
+  rows: KanbanRow[];
+  groupField: KanbanGroupField;
+  summaryColumns: Array<{ key: string; label: string }>;
+  canDrag: boolean;
+  loading: boolean;
+  truncated: boolean;
+  onMove: (rowId: string, value: string | null) => void;
+  onOpen: (rowId: string) => void;
+}) {
+  const [draggingId, setDraggingId] = useState("");
+  const [dropColumn, setDropColumn] = useState("");
+
+  const columns = useMemo(() => {
+    const values = [...groupField.options];
+    rows.forEach((row) => {
+      const value = groupValue(row, groupField.key);
+      if (value !== EMPTY_COLUMN && !values.includes(value)) values.push(value);
+    });
+    values.push(EMPTY_COLUMN);
+    return values.map((value) => ({ value, rows: rows.filter((row) => groupValue(row, groupField.key) === value) }));
+  }, [rows, groupField]);
+
+  return (
+    <div className="max-h-[70vh] overflow-auto p-3">
+      {truncated && <p className="mb-2 text-xs text-amber-700">Showing the first {rows.length} records. Narrow the filters to see everything on the board.</p>}
+      {loading && rows.length === 0 ? (
+        <p className="px-1 py-6 text-sm text-slate-500">Loading records…</p>
+      ) : (
+        <div className="flex gap-3">
+          {columns.map((column) => (
+            <div
+              key={column.value}
+              onDragOver={(e) => {
+                if (!canDrag) return;
+                e.preventDefault();
+                setDropColumn(column.value);
+              }}
+              onDragLeave={() => setDropColumn((prev) => (prev === column.value ? "" : prev))}
+              onDrop={(e) => {
+                e.preventDefault();
+                setDropColumn("");
+                const rowId = e.dataTransfer.getData("text/plain") || draggingId;
+                const row = rows.find((item) => item.id === rowId);
+                if (!row || groupValue(row, groupField.key) === column.value) return;
+                onMove(rowId, column.value === EMPTY_COLUMN ? null : column.value);
+              }}
+              className={`flex w-64 shrink-0 flex-col rounded-xl border border-slate-200 bg-slate-50 p-2 ${dropColumn === column.value ? "ring-2 ring-slate-400" : ""}`}
+            >
+              <p className="mb-2 px-1 text-xs font-semibold uppercase text-slate-600">
+                {column.value === EMPTY_COLUMN ? "(empty)" : column.value} ({column.rows.length})
+              </p>
+              <div className="min-h-[4rem] space-y-2">
+                {column.rows.map((row) => (
+                  <div
+                    key={row.id}
+                    draggable={canDrag}
+                    onDragStart={(e) => {
+                      e.dataTransfer.setData("text/plain", row.id);
+                      setDraggingId(row.id);
+                    }}
+                    onDragEnd={() => setDraggingId("")}
+                    onClick={() => onOpen(row.id)}
+                    className={`rounded-lg border border-slate-200 bg-white p-2 text-xs shadow-sm ${canDrag ? "cursor-grab" : "cursor-pointer"} ${draggingId === row.id ? "opacity-50" : ""}`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="font-medium">{row.code || row.id.slice(0, 8)}</p>
+                      <span className="text-[10px] text-slate-500">{Number(row.completeness_score || 0)}%</span>
+                    </div>
+                    {summaryColumns.map((summary) => {
+                      const value = displayValue(row[summary.key]);
+                      if (!value) return null;
+                      return (
+                        <p key={summary.key} className="truncate text-slate-600">
+                          <span className="text-slate-400">{summary.label}:</span> {value}
+                        </p>
+                      );
+                    })}
+                    <p className="mt-1 text-[10px] text-slate-500">📷 {row.media_counts?.images || 0} • 🎥 {row.media_counts?.videos || 0} • 📄 {row.media_counts?.documents || 0}</p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+"use client";
+
+import { useMemo, useState, type MouseEvent } from "react";
+import { clusterPoints, isValidLatLng, type LatLng } from "@/lib/geo";
+
+type MapRow = Record<string, unknown> & {
+  id: string;
+  code?: string;
+  latitude?: unknown;
+  longitude?: unknown;
+};
+
+type Bounds = { minLat: number; maxLat: number; minLng: number; maxLng: number };
+
+const WIDTH = 800;
+const HEIGHT = 480;
+const CLUSTER_CELL = 40;
+// Roughly mainland Egypt; used until there is something to fit the view to.
+const DEFAULT_BOUNDS: Bounds = { minLat: 22, maxLat: 31.7, minLng: 25, maxLng: 35 };
+
+function fitBounds(points: LatLng[]): Bounds {
+  if (points.length === 0) return DEFAULT_BOUNDS;
+  const lats = points.map(([lat]) => lat);
+  const lngs = points.map(([, lng]) => lng);
+  const bounds = { minLat: Math.min(...lats), maxLat: Math.max(...lats), minLng: Math.min(...lngs), maxLng: Math.max(...lngs) };
+  const padLat = Math.max((bounds.maxLat - bounds.minLat) * 0.1, 0.01);
+  const padLng = Math.max((bounds.maxLng - bounds.minLng) * 0.1, 0.01);
+  return { minLat: bounds.minLat - padLat, maxLat: bounds.maxLat + padLat, minLng: bounds.minLng - padLng, maxLng: bounds.maxLng + padLng };
+}
+
+/** Equirectangular projection scaled to fit the bounds inside the SVG without stretching either axis. */
+function makeProjection(bounds: Bounds) {
+  const midLat = ((bounds.minLat + bounds.maxLat) / 2) * (Math.PI / 180);
+  const spanX = (bounds.maxLng - bounds.minLng) * Math.cos(midLat);
+  const spanY = bounds.maxLat - bounds.minLat;
+  const scale = Math.min(WIDTH / spanX, HEIGHT / spanY);
+  const offsetX = (WIDTH - spanX * scale) / 2;
+  const offsetY = (HEIGHT - spanY * scale) / 2;
+  return {
+    project: ([lat, lng]: LatLng) => ({
+      x: offsetX + (lng - bounds.minLng) * Math.cos(midLat) * scale,
+      y: offsetY + (bounds.maxLat - lat) * scale
+    }),
+    unproject: (x: number, y: number): LatLng => [bounds.maxLat - (y - offsetY) / scale, bounds.minLng + (x - offsetX) / (Math.cos(midLat) * scale)]
+  };
+}
+
+/**
+ * Plots the grid's current listings by their stored coordinates. Dense areas collapse into clusters
+ * (click to zoom in), and an outline drawn by clicking vertices becomes the grid's polygon filter.
+ */
+export function GridMapView({
+  rows,
+  polygon,
+  loading,
+  truncated,
+  onPolygonChange,
+  onOpen
+}: {
+  rows: MapRow[];
+  polygon: LatLng[];
+  loading: boolean;
+  truncated: boolean;
+  onPolygonChange: (polygon: LatLng[] | null) => void;
+  onOpen: (rowId: string) => void;
+}) {
+  const [zoomBounds, setZoomBounds] = useState<Bounds | null>(null);
+  const [drawing, setDrawing] = useState(false);
+  const [draft, setDraft] = useState<LatLng[]>([]);
+  const [clusterRows, setClusterRows] = useState<MapRow[]>([]);
+
+  const located = useMemo(
+    () =>
+      rows
+        .filter((row) => isValidLatLng(row.latitude, row.longitude))
+        .map((row) => ({ row, position: [Number(row.latitude), Number(row.longitude)] as LatLng })),
+    [rows]
+  );
+  const bounds = useMemo(() => zoomBounds || fitBounds([...located.map((item) => item.position), ...polygon]), [zoomBounds, located, polygon]);
+  const projection = useMemo(() => makeProjection(bounds), [bounds]);
+  const clusters = useMemo(
+    () =>
+      clusterPoints(
+        located.map((item) => ({ id: item.row.id, ...projection.project(item.position), row: item.row, position: item.position })),
+        CLUSTER_CELL
+      ),
+    [located, projection]
+  );
+
+  const outline = drawing ? draft : polygon;
+  const outlinePoints = outline.map((vertex) => projection.project(vertex)).map((point) => `${point.x},${point.y}`).join(" ");
+
+  function handleMapClick(event: MouseEvent<SVGSVGElement>) {
+    if (!drawing) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = ((event.clientX - rect.left) / rect.width) * WIDTH;
+    const y = ((event.clientY - rect.top) / rect.height) * HEIGHT;
+    setDraft((prev) => [...prev, projection.unproject(x, y)]);
+  }
+
+  function startDrawing() {
+    setDraft([]);
+    setDrawing(true);
+  }
+
+  function resetZoom() {
+    setZoomBounds(null);
+    setClusterRows([]);
+  }
+
+  function applyDrawing() {
+    if (draft.length < 3) return;
+    setDrawing(false);
+    onPolygonChange(draft.map(([lat, lng]) => [Number(lat.toFixed(6)), Number(lng.toFixed(6))] as LatLng));
+  }
+
+  return (
+    <div className="p-3">
+      <div className="mb-2 flex flex-wrap items-center gap-2 text-xs">
+        {drawing ? (
+          <>
+            <span className="text-slate-600">Click the map to add points ({draft.length} so far).</span>
+            <button onClick={applyDrawing} disabled={draft.length < 3} className="rounded bg-slate-900 px-2 py-1 text-white disabled:opacity-40">Filter to area</button>
+            <button onClick={() => setDraft((prev) => prev.slice(0, -1))} disabled={draft.length === 0} className="rounded border border-slate-300 px-2 py-1 disabled:opacity-40">Undo point</button>
+            <button onClick={() => setDrawing(false)} className="rounded border border-slate-300 px-2 py-1">Cancel</button>
+          </>
+        ) : (
+          <>
+            <button onClick={startDrawing} className="rounded border border-slate-300 px-2 py-1">Draw area</button>
+            {polygon.length > 0 && <button onClick={() => onPolygonChange(null)} className="rounded border border-slate-300 px-2 py-1">Clear area filter</button>}
+          </>
+        )}
+        {zoomBounds && <button onClick={resetZoom} className="rounded border border-slate-300 px-2 py-1">Reset zoom</button>}
+        <span className="ml-auto text-slate-500">
+          {located.length} of {rows.length} listings have coordinates
+        </span>
+      </div>
+      {truncated && <p className="mb-2 text-xs text-amber-700">Showing the first {rows.length} records. Narrow the filters to see everything on the map.</p>}
+      {loading && rows.length === 0 ? (
+        <p className="px-1 py-6 text-sm text-slate-500">Loading records…</p>
+      ) : (
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          onClick={handleMapClick}
+          className={`w-full rounded-xl border border-slate-200 bg-sky-50 ${drawing ? "cursor-crosshair" : ""}`}
+        >
+          {outline.length > 0 &&
+            (outline.length >= 3 ? (
+              <polygon points={outlinePoints} className="fill-blue-500/10 stroke-blue-600" strokeWidth={2} strokeDasharray={drawing ? "6 4" : undefined} />
+            ) : (
+              <polyline points={outlinePoints} className="fill-none stroke-blue-600" strokeWidth={2} strokeDasharray="6 4" />
+            ))}
+          {clusters.map((cluster) => {
+            if (cluster.points.length === 1) {
+              const point = cluster.points[0];
+              return (
+                <g
+                  key={cluster.key}
+                  onClick={(e) => {
+                    if (drawing) return;
+                    e.stopPropagation();
+                    onOpen(point.row.id);
+                  }}
+                  className={drawing ? "" : "cursor-pointer"}
+                >
+                  <title>{`${point.row.code || point.row.id.slice(0, 8)} · ${String(point.row.compound || point.row.area || "")}`}</title>
+                  <circle cx={point.x} cy={point.y} r={6} className="fill-rose-600 stroke-white" strokeWidth={2} />
+                </g>
+              );
+            }
+            const radius = Math.min(24, 10 + Math.sqrt(cluster.points.length) * 2);
+            return (
+              <g
+                key={cluster.key}
+                onClick={(e) => {
+                  if (drawing) return;
+                  e.stopPropagation();
+                  // Listings sharing a gazetteer point never split apart, so the cluster is also listed below the map.
+                  setZoomBounds(fitBounds(cluster.points.map((point) => point.position)));
+                  setClusterRows(cluster.points.map((point) => point.row));
+                }}
+                className={drawing ? "" : "cursor-pointer"}
+              >
+                <title>{`${cluster.points.length} listings — click to zoom`}</title>
+                <circle cx={cluster.x} cy={cluster.y} r={radius} className="fill-slate-900/80 stroke-white" strokeWidth={2} />
+                <text x={cluster.x} y={cluster.y} textAnchor="middle" dominantBaseline="central" className="fill-white text-[11px] font-semibold">
+                  {cluster.points.length}
+                </text>
+              </g>
+            );
+          })}
+          {located.length === 0 && !loading && (
+            <text x={WIDTH / 2} y={HEIGHT / 2} textAnchor="middle" className="fill-slate-500 text-sm">
+              No listings with coordinates match these filters.
+            </text>
+          )}
+        </svg>
+      )}
+      {clusterRows.length > 0 && (
+        <div className="mt-2 flex flex-wrap gap-1 text-xs">
+          {clusterRows.map((row) => (
+            <button key={row.id} onClick={() => onOpen(row.id)} className="rounded border border-slate-300 px-2 py-0.5 hover:bg-slate-50">
+              {row.code || row.id.slice(0, 8)}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
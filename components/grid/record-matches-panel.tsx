@@ -0,0 +1,219 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { createDealApi } from "@/services/api/deals-api.service";
+
+type MatchSubjectType = "sale" | "rent" | "buyer";
+type MatchState = "new" | "shortlisted" | "dismissed";
+
+type MatchBreakdownEntry = {
+  criterion: string;
+  weight: number;
+  score: number;
+  detail: string;
+};
+
+type MatchRow = {
+  id: string;
+  score: number;
+  state: MatchState;
+  breakdown: MatchBreakdownEntry[];
+  created_at: string;
+  counterpart: (Record<string, unknown> & { id: string; record_type: string }) | null;
+};
+
+const stateBadgeClass: Record<MatchState, string> = {
+  new: "bg-blue-100 text-blue-700",
+  shortlisted: "bg-emerald-100 text-emerald-700",
+  dismissed: "bg-slate-200 text-slate-600"
+};
+
+const hrefByRecordType: Record<string, string> = {
+  properties_sale: "/sale",
+  properties_rent: "/rent",
+  buyers: "/buyers"
+};
+
+function counterpartSummary(counterpart: NonNullable<MatchRow["counterpart"]>) {
+  if (counterpart.record_type === "buyers") {
+    const areas = Array.isArray(counterpart.preferred_areas) ? (counterpart.preferred_areas as string[]).join(", ") : "";
+    return `Budget ${counterpart.budget_min ?? "-"}–${counterpart.budget_max ?? "-"} ${counterpart.currency || ""} • ${areas || "Any area"} • ${counterpart.bedrooms_needed ?? "-"} beds`;
+  }
+  return `${counterpart.price ?? "-"} ${counterpart.currency || ""} • ${counterpart.area || "-"}${counterpart.compound ? ` / ${counterpart.compound}` : ""} • ${counterpart.bedrooms ?? "-"} beds`;
+}
+
+/** `agentView` is for agents: they can refresh and open listings, but see buyers by code only and cannot triage or start deals. */
+export function RecordMatchesPanel({ type, recordId, readOnly, agentView }: { type: MatchSubjectType; recordId: string; readOnly?: boolean; agentView?: boolean }) {
+  const [matches, setMatches] = useState<MatchRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [includeDismissed, setIncludeDismissed] = useState(false);
+  const [error, setError] = useState("");
+  const [startedDeals, setStartedDeals] = useState<Record<string, string>>({});
+  const canTriage = !readOnly && !agentView;
+
+  async function load() {
+    setLoading(true);
+    setError("");
+    const query = new URLSearchParams({ type, id: recordId });
+    if (includeDismissed) query.set("includeDismissed", "1");
+    const res = await fetch(`/api/grid/matches?${query.toString()}`, { cache: "no-store" });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      setError(data.error || "Failed to load matches");
+      setMatches([]);
+    } else {
+      setMatches((data.matches || []) as MatchRow[]);
+    }
+    setLoading(false);
+  }
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [type, recordId, includeDismissed]);
+
+  async function refresh() {
+    setRefreshing(true);
+    const res = await fetch("/api/grid/matches", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ type, id: recordId })
+    });
+    const data = await res.json().catch(() => ({}));
+    setRefreshing(false);
+    if (!res.ok) {
+      setError(data.error || "Failed to refresh matches");
+      return;
+    }
+    await load();
+  }
+
+  async function updateState(matchId: string, state: MatchState) {
+    if (!canTriage) return;
+    const res = await fetch("/api/grid/matches", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ match_id: matchId, state })
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      setError(data.error || "Failed to update match");
+      return;
+    }
+    setMatches((prev) =>
+      prev
+        .map((match) => (match.id === matchId ? { ...match, state } : match))
+        .filter((match) => includeDismissed || match.state !== "dismissed")
+    );
+  }
+
+  async function startDeal(match: MatchRow) {
+    if (!canTriage || !match.counterpart) return;
+    const counterpart = match.counterpart;
+    try {
+      // From a buyer the counterpart is the listing (and its price seeds the expected value); from a listing it is the buyer.
+      const data = await createDealApi(
+        type === "buyer"
+          ? {
+              buyerId: recordId,
+              listingType: counterpart.record_type === "properties_rent" ? "rent" : "sale",
+              listingId: counterpart.id,
+              expectedValue: typeof counterpart.price === "number" ? counterpart.price : null
+            }
+          : { buyerId: counterpart.id, listingType: type, listingId: recordId }
+      );
+      setStartedDeals((prev) => ({ ...prev, [match.id]: data.deal.code || data.deal.id.slice(0, 8) }));
+    } catch (dealError) {
+      setError(dealError instanceof Error ? dealError.message : "Failed to start deal");
+    }
+  }
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold">{type === "buyer" ? "Matching listings" : "Interested buyers"}</h4>
+        <div className="flex items-center gap-2">
+          <label className="text-xs text-slate-600">
+            <input type="checkbox" checked={includeDismissed} onChange={(e) => setIncludeDismissed(e.target.checked)} className="mr-1" />
+            Show dismissed
+          </label>
+          <button disabled={refreshing || readOnly} onClick={refresh} className="rounded border border-slate-300 px-2 py-1 text-xs disabled:opacity-40">
+            {refreshing ? "Refreshing…" : "Recompute"}
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="rounded border border-rose-200 bg-rose-50 px-2 py-1 text-xs text-rose-700">{error}</p>}
+      {loading && <p className="text-xs text-slate-500">Loading matches…</p>}
+      {!loading && matches.length === 0 && <p className="text-xs text-slate-500">No matches above the feed threshold yet.</p>}
+
+      {!loading && matches.map((match) => (
+        <div key={match.id} className="rounded border border-slate-200 p-2 text-xs">
+          <div className="flex items-center justify-between gap-2">
+            {match.counterpart && agentView && match.counterpart.record_type === "buyers" ? (
+              <span className="font-medium">{String(match.counterpart.code || match.counterpart.id)}</span>
+            ) : match.counterpart ? (
+              <a
+                href={`${hrefByRecordType[match.counterpart.record_type] || "/"}?open=${match.counterpart.id}`}
+                className="font-medium underline"
+              >
+                {String(match.counterpart.code || match.counterpart.id)}
+              </a>
+            ) : (
+              <span className="font-medium text-slate-500">Record unavailable</span>
+            )}
+            <div className="flex items-center gap-1">
+              <span className={`rounded px-2 py-0.5 ${stateBadgeClass[match.state]}`}>{match.state}</span>
+              <span className="rounded-full bg-slate-900 px-2 py-0.5 text-white">{match.score}%</span>
+            </div>
+          </div>
+          {match.counterpart && !(agentView && match.counterpart.record_type === "buyers") && (
+            <p className="mt-1 text-slate-500">{counterpartSummary(match.counterpart)}</p>
+          )}
+          {(match.breakdown || []).length > 0 && (
+            <details className="mt-1">
+              <summary className="cursor-pointer text-slate-500">Score breakdown</summary>
+              <ul className="mt-1 space-y-0.5">
+                {match.breakdown.map((entry) => (
+                  <li key={entry.criterion} className="flex justify-between gap-2 text-[10px] text-slate-600">
+                    <span>{entry.criterion} ({entry.weight})</span>
+                    <span>{Math.round(entry.score * 100)}% • {entry.detail}</span>
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
+          <div className="mt-2 flex gap-2">
+            <button
+              disabled={!canTriage || match.state === "shortlisted"}
+              onClick={() => updateState(match.id, "shortlisted")}
+              className="rounded border border-emerald-300 px-2 py-1 text-[10px] text-emerald-700 disabled:opacity-40"
+            >
+              Shortlist
+            </button>
+            <button
+              disabled={!canTriage || match.state === "dismissed"}
+              onClick={() => updateState(match.id, "dismissed")}
+              className="rounded border border-slate-300 px-2 py-1 text-[10px] disabled:opacity-40"
+            >
+              Dismiss
+            </button>
+            {startedDeals[match.id] ? (
+              <a href="/deals" className="rounded border border-slate-300 px-2 py-1 text-[10px] underline">Deal {startedDeals[match.id]}</a>
+            ) : (
+              <button disabled={!canTriage || !match.counterpart} onClick={() => startDeal(match)} className="rounded border border-slate-300 px-2 py-1 text-[10px] disabled:opacity-40">
+                Start deal
+              </button>
+            )}
+            {match.state !== "new" && (
+              <button disabled={!canTriage} onClick={() => updateState(match.id, "new")} className="rounded border border-slate-300 px-2 py-1 text-[10px] disabled:opacity-40">
+                Reset
+              </button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
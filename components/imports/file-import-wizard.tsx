@@ -0,0 +1,214 @@
+"use client";
+
+import { useState } from "react";
+import { HierarchyPathSelector } from "@/components/hierarchy/hierarchy-path-selector";
+import { SheetImportBatches } from "@/components/integrations/sheet-import-batches";
+import { SheetImportReportView } from "@/components/integrations/sheet-import-report";
+import { useAuth } from "@/hooks/use-auth";
+import { FILE_IMPORT_EXTENSIONS, FILE_IMPORT_MAX_ROWS } from "@/lib/file-import";
+import type { SheetImportReport } from "@/lib/sheet-import";
+import type { SheetSyncDataset } from "@/lib/sheet-sync";
+import { inspectImportFileApi, previewFileImportApi, runFileImportApi, type FileImportInspection } from "@/services/api/file-import-api.service";
+
+const DATASET_LABELS: Record<SheetSyncDataset, string> = { sale: "Sale", rent: "Rent", buyer: "Buyers", client: "Clients" };
+
+export function FileImportWizard() {
+  const { user, loading: authLoading } = useAuth();
+  const isAdmin = (user?.role || "viewer") === "admin";
+
+  const [file, setFile] = useState<File | null>(null);
+  const [dataset, setDataset] = useState<SheetSyncDataset>("sale");
+  const [hierarchyNodeId, setHierarchyNodeId] = useState("");
+  const [inspection, setInspection] = useState<FileImportInspection | null>(null);
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [report, setReport] = useState<SheetImportReport | null>(null);
+  const [skipInvalid, setSkipInvalid] = useState(false);
+  const [importsVersion, setImportsVersion] = useState(0);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState("");
+  const [error, setError] = useState("");
+
+  function resetMapping() {
+    setInspection(null);
+    setMapping({});
+    setReport(null);
+  }
+
+  async function run(action: () => Promise<string>) {
+    setSaving(true);
+    setError("");
+    setMessage("");
+    try {
+      setMessage(await action());
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : "Request failed");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function readFile() {
+    if (!file) {
+      setError("Choose a .csv or .xlsx file first.");
+      return;
+    }
+    run(async () => {
+      const data = await inspectImportFileApi({ file, dataset, hierarchyNodeId: hierarchyNodeId || undefined });
+      setInspection(data);
+      setMapping(data.suggested_mapping);
+      setReport(null);
+      const suggested = Object.keys(data.suggested_mapping).length;
+      return `Read ${data.row_count} rows from ${data.file_name}${data.sheet_name ? ` (${data.sheet_name})` : ""}. Suggested ${suggested} of ${data.headers.length} columns.`;
+    });
+  }
+
+  function dryRun() {
+    if (!file) return;
+    run(async () => {
+      const data = await previewFileImportApi({ file, dataset, hierarchyNodeId: hierarchyNodeId || undefined, columnMap: mapping });
+      setReport(data.report);
+      return `Dry run: ${data.report.summary.total} rows, ${data.report.summary.errors} with errors, ${data.report.summary.warnings} with warnings. Nothing was imported.`;
+    });
+  }
+
+  function runImport() {
+    if (!file) return;
+    run(async () => {
+      const data = await runFileImportApi({ file, dataset, hierarchyNodeId: hierarchyNodeId || undefined, columnMap: mapping, skipInvalid });
+      setReport(data.report);
+      setImportsVersion((prev) => prev + 1);
+      const parts = [`Created ${data.created_records} ${DATASET_LABELS[dataset]} records`];
+      if (data.drafts) parts.push(`${data.drafts} rows sent to the Inbox for review`);
+      if (data.skipped) parts.push(`${data.skipped} skipped`);
+      return `${parts.join(", ")}.${data.failures.length ? ` ${data.failures.length} rows could not be created: ${data.failures.map((item) => `row ${item.sheet_row}: ${item.error}`).join("; ")}` : ""}`;
+    });
+  }
+
+  if (authLoading) {
+    return <section className="rounded-xl border border-slate-200 bg-white p-6 text-sm text-slate-500 shadow-sm">Checking permissions...</section>;
+  }
+
+  if (!isAdmin) {
+    return (
+      <section className="rounded-xl border border-rose-200 bg-rose-50 p-6 text-sm text-rose-700 shadow-sm">
+        This page is restricted to CRM admins.
+      </section>
+    );
+  }
+
+  const coreTargets = inspection?.targets.filter((target) => !target.custom) || [];
+  const customTargets = inspection?.targets.filter((target) => target.custom) || [];
+  const unmappedRequired = inspection?.targets.filter((target) => target.required && !Object.values(mapping).includes(target.key)) || [];
+
+  return (
+    <div className="space-y-4">
+      <section className="space-y-3 rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+        <div>
+          <h2 className="text-lg font-semibold">File import</h2>
+          <p className="text-xs text-slate-500">
+            Import a CSV or Excel (.xlsx) file of up to {FILE_IMPORT_MAX_ROWS} rows. Only the first worksheet is read. Rows that pass validation become records;
+            possible duplicates and rows with errors wait in the Inbox for review.
+          </p>
+        </div>
+
+        <div className="grid gap-3 md:grid-cols-2">
+          <div className="space-y-2 text-sm">
+            <input
+              type="file"
+              accept={FILE_IMPORT_EXTENSIONS.join(",")}
+              onChange={(e) => {
+                setFile(e.target.files?.[0] || null);
+                resetMapping();
+              }}
+              className="w-full text-sm"
+            />
+            <select
+              value={dataset}
+              onChange={(e) => {
+                setDataset(e.target.value as SheetSyncDataset);
+                setHierarchyNodeId("");
+                resetMapping();
+              }}
+              className="w-full rounded border border-slate-300 px-3 py-2"
+            >
+              {(Object.keys(DATASET_LABELS) as SheetSyncDataset[]).map((key) => (
+                <option key={key} value={key}>{DATASET_LABELS[key]}</option>
+              ))}
+            </select>
+            <button onClick={readFile} disabled={saving || !file} className="rounded bg-slate-900 px-3 py-2 text-white disabled:opacity-40">
+              Read file
+            </button>
+          </div>
+          <div>
+            <p className="mb-1 text-xs font-medium text-slate-600">Hierarchy destination (optional)</p>
+            <HierarchyPathSelector
+              reviewType={dataset}
+              selectedNodeId={hierarchyNodeId}
+              canCreate={false}
+              disabled={saving}
+              onChange={(nodeId) => {
+                setHierarchyNodeId(nodeId);
+                resetMapping();
+              }}
+            />
+          </div>
+        </div>
+
+        {message && <div className="rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-800">{message}</div>}
+        {error && <div className="rounded-lg border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">{error}</div>}
+      </section>
+
+      {inspection && (
+        <section className="space-y-3 rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+          <h3 className="text-sm font-semibold">Column mapping</h3>
+          <div className="space-y-1">
+            {inspection.headers.map((header, index) => (
+              <div key={header} className="grid grid-cols-[1fr_1fr_2fr] items-center gap-2 text-sm">
+                <div className="rounded border border-slate-200 px-2 py-1.5 text-slate-700">{header}</div>
+                <select
+                  value={mapping[header] || ""}
+                  onChange={(e) => {
+                    setMapping((prev) => ({ ...prev, [header]: e.target.value }));
+                    setReport(null);
+                  }}
+                  className="rounded border border-slate-300 px-2 py-1.5"
+                >
+                  <option value="">Ignore</option>
+                  <optgroup label="Fields">
+                    {coreTargets.map((target) => (
+                      <option key={target.key} value={target.key}>{target.label}{target.required ? " *" : ""}</option>
+                    ))}
+                  </optgroup>
+                  {customTargets.length > 0 && (
+                    <optgroup label="Custom fields">
+                      {customTargets.map((target) => (
+                        <option key={target.key} value={target.key}>{target.label}{target.required ? " *" : ""}</option>
+                      ))}
+                    </optgroup>
+                  )}
+                </select>
+                <div className="truncate text-xs text-slate-500">{inspection.sample_rows.map((row) => row[index]).filter(Boolean).slice(0, 3).join(" · ")}</div>
+              </div>
+            ))}
+          </div>
+          {unmappedRequired.length > 0 && (
+            <p className="text-xs text-amber-700">Required fields without a column: {unmappedRequired.map((target) => target.label).join(", ")}. Every row will fail them.</p>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <button onClick={dryRun} disabled={saving} className="rounded border border-slate-300 px-3 py-2 disabled:opacity-40">Dry run</button>
+            <button onClick={runImport} disabled={saving} className="rounded bg-slate-900 px-3 py-2 text-white disabled:opacity-40">{saving ? "Working…" : "Import"}</button>
+            <label className="flex items-center gap-2 text-xs text-slate-600">
+              <input type="checkbox" checked={skipInvalid} onChange={(e) => setSkipInvalid(e.target.checked)} />
+              Skip rows with validation errors
+            </label>
+          </div>
+
+          {report && <SheetImportReportView report={report} />}
+        </section>
+      )}
+
+      <SheetImportBatches source="file" refreshKey={importsVersion} />
+    </div>
+  );
+}
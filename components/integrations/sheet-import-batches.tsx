@@ -0,0 +1,74 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { SheetImportBatch } from "@/lib/sheet-import";
+import { fetchSheetImportBatchesApi, rollbackSheetImportBatchApi } from "@/services/api/sheet-import-api.service";
+
+export function SheetImportBatches({ source, spreadsheetId = "", refreshKey }: { source: SheetImportBatch["source"]; spreadsheetId?: string; refreshKey: number }) {
+  const [batches, setBatches] = useState<SheetImportBatch[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState("");
+  const [error, setError] = useState("");
+
+  async function loadBatches() {
+    try {
+      const data = await fetchSheetImportBatchesApi({ source, spreadsheetId: spreadsheetId.trim() || undefined });
+      setBatches(data.batches);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Failed to load imports");
+    }
+  }
+
+  useEffect(() => {
+    loadBatches();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [source, spreadsheetId, refreshKey]);
+
+  async function rollback(batch: SheetImportBatch) {
+    if (!window.confirm(`Roll back the import of "${batch.file_name || batch.tab_name}"? Unreviewed drafts are deleted and records created from it are archived.`)) return;
+    setSaving(true);
+    setError("");
+    setMessage("");
+    try {
+      const { batch: saved } = await rollbackSheetImportBatchApi(batch.id);
+      setBatches((prev) => prev.map((item) => (item.id === saved.id ? saved : item)));
+      const counts = saved.rollback_counts;
+      setMessage(
+        `Rolled back: ${counts.deleted_sessions || 0} drafts deleted, ${counts.archived_records || 0} records archived` +
+          (counts.kept_updates ? `, ${counts.kept_updates} merged into existing records were left as they are.` : ".")
+      );
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : "Rollback failed");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <section className="space-y-2 rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+      <h2 className="text-lg font-semibold">Recent imports</h2>
+      {message && <div className="rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-800">{message}</div>}
+      {error && <div className="rounded-lg border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">{error}</div>}
+      <ul className="space-y-1 text-xs">
+        {batches.map((batch) => (
+          <li key={batch.id} className="flex flex-wrap items-center gap-2 border-b border-slate-100 pb-1">
+            <span className="font-medium">{batch.file_name || batch.tab_name}</span>
+            <span className="text-slate-500">{batch.dataset} · {new Date(batch.created_at).toLocaleString()}</span>
+            <span>
+              {batch.created_count} drafts{batch.skipped_count ? `, ${batch.skipped_count} skipped` : ""}
+              {batch.summary.errors ? `, ${batch.summary.errors} with errors` : ""}
+            </span>
+            {batch.status === "rolled_back" ? (
+              <span className="text-slate-500">rolled back {batch.rolled_back_at ? new Date(batch.rolled_back_at).toLocaleString() : ""}</span>
+            ) : (
+              <button onClick={() => rollback(batch)} disabled={saving} className="ml-auto rounded border border-rose-300 px-2 py-0.5 text-rose-700 disabled:opacity-40">
+                Roll back
+              </button>
+            )}
+          </li>
+        ))}
+        {batches.length === 0 && <li className="text-slate-500">No imports yet.</li>}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import { useState } from "react";
+import type { SheetImportReport, SheetImportRowStatus } from "@/lib/sheet-import";
+
+const STATUS_CLASS: Record<SheetImportRowStatus, string> = {
+  ok: "text-emerald-700",
+  warning: "text-amber-700",
+  error: "text-rose-700"
+};
+
+export function SheetImportReportView({ report }: { report: SheetImportReport }) {
+  const [showAll, setShowAll] = useState(false);
+  const rows = showAll ? report.rows : report.rows.filter((row) => row.status !== "ok");
+  const { summary } = report;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold">Validation report · {report.tab}</h3>
+        <label className="flex items-center gap-1 text-xs text-slate-600">
+          <input type="checkbox" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} />
+          Show valid rows
+        </label>
+      </div>
+      <p className="mt-1 text-xs text-slate-600">
+        {summary.total} rows · <span className="text-emerald-700">{summary.ok} ok</span> · <span className="text-amber-700">{summary.warnings} with warnings</span> ·{" "}
+        <span className="text-rose-700">{summary.errors} with errors</span> · {summary.duplicates} possible duplicates
+      </p>
+      <div className="mt-2 max-h-80 overflow-auto">
+        <table className="w-full text-xs">
+          <thead className="bg-slate-50">
+            <tr>
+              <th className="px-2 py-1 text-left">Row</th>
+              <th className="px-2 py-1 text-left">Code</th>
+              <th className="px-2 py-1 text-left">Phone</th>
+              <th className="px-2 py-1 text-left">Status</th>
+              <th className="px-2 py-1 text-left">Issues</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.sheet_row} className="border-t border-slate-100 align-top">
+                <td className="px-2 py-1">{row.sheet_row}</td>
+                <td className="px-2 py-1">{row.code || "—"}</td>
+                <td className="px-2 py-1">{row.phone || "—"}</td>
+                <td className={`px-2 py-1 ${STATUS_CLASS[row.status]}`}>{row.status}</td>
+                <td className="px-2 py-1">
+                  {row.issues.map((issue, index) => (
+                    <div key={index} className={issue.severity === "error" ? "text-rose-700" : "text-amber-700"}>{issue.message}</div>
+                  ))}
+                </td>
+              </tr>
+            ))}
+            {rows.length === 0 && (
+              <tr>
+                <td colSpan={5} className="px-2 py-2 text-slate-500">Every row passed validation.</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
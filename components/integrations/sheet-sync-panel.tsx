@@ -0,0 +1,211 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { SHEET_SYNC_OUTCOMES, type SheetSyncConflictDetail, type SheetSyncDataset, type SheetSyncOutcome, type SheetSyncRowOutcome, type SheetSyncRun } from "@/lib/sheet-sync";
+import { fetchSheetSyncRunApi, fetchSheetSyncRunsApi, resolveSheetSyncConflictApi, startSheetSyncApi } from "@/services/api/sheet-sync-api.service";
+
+const DATASET_LABELS: Record<SheetSyncDataset, string> = { sale: "Sale", rent: "Rent", buyer: "Buyers", client: "Clients" };
+
+const OUTCOME_CLASS: Record<SheetSyncOutcome, string> = {
+  unchanged: "text-slate-400",
+  pushed: "text-sky-700",
+  pulled: "text-indigo-700",
+  merged: "text-indigo-700",
+  added_to_sheet: "text-emerald-700",
+  conflict: "text-amber-700",
+  skipped: "text-slate-500",
+  error: "text-rose-700"
+};
+
+function summarize(run: SheetSyncRun) {
+  return SHEET_SYNC_OUTCOMES.filter((outcome) => outcome !== "unchanged" && run.counts[outcome])
+    .map((outcome) => `${run.counts[outcome]} ${outcome.replace(/_/g, " ")}`)
+    .join(" · ") || "no changes";
+}
+
+export function SheetSyncPanel({ spreadsheetId }: { spreadsheetId: string }) {
+  const [dataset, setDataset] = useState<SheetSyncDataset>("sale");
+  const [tab, setTab] = useState("");
+  const [runs, setRuns] = useState<SheetSyncRun[]>([]);
+  const [selected, setSelected] = useState<{ run: SheetSyncRun; outcomes: SheetSyncRowOutcome[] } | null>(null);
+  const [filter, setFilter] = useState<SheetSyncOutcome | "">("conflict");
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState("");
+  const [error, setError] = useState("");
+
+  async function loadRuns() {
+    try {
+      const data = await fetchSheetSyncRunsApi(spreadsheetId.trim() || undefined);
+      setRuns(data.runs);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Failed to load sync runs");
+    }
+  }
+
+  useEffect(() => {
+    loadRuns();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [spreadsheetId]);
+
+  async function openRun(runId: string, outcome: SheetSyncOutcome | "" = filter) {
+    try {
+      setSelected(await fetchSheetSyncRunApi(runId, outcome || undefined));
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Failed to load run");
+    }
+  }
+
+  async function run(action: () => Promise<string>) {
+    setSaving(true);
+    setError("");
+    setMessage("");
+    try {
+      setMessage(await action());
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : "Request failed");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function startSync() {
+    if (!spreadsheetId.trim()) {
+      setError("Paste a Google Sheet URL or ID first.");
+      return;
+    }
+    run(async () => {
+      const data = await startSheetSyncApi({ spreadsheet_id: spreadsheetId.trim(), dataset, tab: tab.trim() || undefined });
+      await loadRuns();
+      await openRun(data.run.id, data.run.counts.conflict ? "conflict" : "");
+      setFilter(data.run.counts.conflict ? "conflict" : "");
+      return `Synced ${DATASET_LABELS[dataset]} with "${data.run.tab_name}": ${summarize(data.run)}.`;
+    });
+  }
+
+  function resolve(outcome: SheetSyncRowOutcome, keep: "crm" | "sheet") {
+    run(async () => {
+      const data = await resolveSheetSyncConflictApi(outcome.id, keep);
+      setSelected((prev) => (prev ? { ...prev, outcomes: prev.outcomes.map((item) => (item.id === outcome.id ? data.outcome : item)) } : prev));
+      return `Kept the ${keep === "crm" ? "CRM" : "sheet"} values for ${outcome.code || "the row"}.`;
+    });
+  }
+
+  return (
+    <section className="space-y-3 rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+      <div>
+        <h2 className="text-lg font-semibold">Two-way sync</h2>
+        <p className="text-xs text-slate-500">
+          Keeps a dedicated tab in step with the CRM. Edits made on one side since the last sync are copied to the other; fields edited on both sides are held as conflicts
+          below until you pick a version. A hidden <code>crm_id</code> column ties rows to records. Rows added in the sheet are not created in the CRM.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <select value={dataset} onChange={(e) => setDataset(e.target.value as SheetSyncDataset)} className="rounded border border-slate-300 px-2 py-1.5">
+          {(Object.keys(DATASET_LABELS) as SheetSyncDataset[]).map((key) => (
+            <option key={key} value={key}>{DATASET_LABELS[key]}</option>
+          ))}
+        </select>
+        <input value={tab} onChange={(e) => setTab(e.target.value)} placeholder={`Tab (default "${DATASET_LABELS[dataset]} sync")`} className="w-56 rounded border border-slate-300 px-2 py-1.5" />
+        <button onClick={startSync} disabled={saving} className="rounded bg-slate-900 px-3 py-1.5 text-white disabled:opacity-40">{saving ? "Syncing…" : "Run two-way sync"}</button>
+      </div>
+
+      {message && <div className="rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-800">{message}</div>}
+      {error && <div className="rounded-lg border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">{error}</div>}
+
+      <div className="grid gap-4 lg:grid-cols-[minmax(0,2fr)_minmax(0,3fr)]">
+        <div>
+          <h3 className="text-sm font-semibold">Recent runs</h3>
+          <ul className="mt-1 space-y-1 text-xs">
+            {runs.map((item) => (
+              <li key={item.id}>
+                <button
+                  onClick={() => openRun(item.id)}
+                  className={`w-full rounded border px-2 py-1 text-left ${selected?.run.id === item.id ? "border-slate-900" : "border-slate-200"}`}
+                >
+                  <span className="font-medium">{DATASET_LABELS[item.dataset]}</span> · {item.tab_name} · {new Date(item.started_at).toLocaleString()}
+                  <span className={`ml-1 ${item.status === "failed" ? "text-rose-700" : "text-slate-500"}`}>{item.status}</span>
+                  <span className="block text-slate-500">{item.status === "failed" ? item.error : summarize(item)}</span>
+                </button>
+              </li>
+            ))}
+            {runs.length === 0 && <li className="text-slate-500">No sync runs yet.</li>}
+          </ul>
+        </div>
+
+        <div>
+          {selected ? (
+            <>
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-semibold">Rows</h3>
+                <select
+                  value={filter}
+                  onChange={(e) => {
+                    const next = e.target.value as SheetSyncOutcome | "";
+                    setFilter(next);
+                    openRun(selected.run.id, next);
+                  }}
+                  className="rounded border border-slate-300 px-2 py-1 text-xs"
+                >
+                  <option value="">All outcomes</option>
+                  {SHEET_SYNC_OUTCOMES.map((outcome) => (
+                    <option key={outcome} value={outcome}>{outcome.replace(/_/g, " ")}</option>
+                  ))}
+                </select>
+              </div>
+              <ul className="mt-1 space-y-1 text-xs">
+                {selected.outcomes.map((outcome) => {
+                  const conflict = outcome.outcome === "conflict" ? (outcome.detail as unknown as SheetSyncConflictDetail) : null;
+                  return (
+                    <li key={outcome.id} className="border-b border-slate-100 pb-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="w-12 shrink-0 text-slate-500">{outcome.sheet_row ? `row ${outcome.sheet_row}` : "—"}</span>
+                        <span className="w-28 shrink-0 font-medium">{outcome.code || "(no code)"}</span>
+                        <span className={OUTCOME_CLASS[outcome.outcome]}>{outcome.outcome.replace(/_/g, " ")}</span>
+                        {outcome.fields.length > 0 && <span className="text-slate-500">{outcome.fields.join(", ")}</span>}
+                        {typeof outcome.detail.reason === "string" && <span className="text-slate-500">{outcome.detail.reason}</span>}
+                        {typeof outcome.detail.error === "string" && <span className="text-rose-700">{outcome.detail.error}</span>}
+                        {outcome.resolution && <span className="text-emerald-700">kept {outcome.resolution === "crm" ? "CRM" : "sheet"}</span>}
+                      </div>
+                      {conflict && !outcome.resolved_at && (
+                        <div className="ml-14 mt-1 space-y-1">
+                          <table className="text-xs">
+                            <thead>
+                              <tr className="text-left text-slate-500">
+                                <th className="pr-3">Field</th>
+                                <th className="pr-3">Last sync</th>
+                                <th className="pr-3">CRM</th>
+                                <th>Sheet</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {outcome.fields.map((field) => (
+                                <tr key={field}>
+                                  <td className="pr-3 font-medium">{field}</td>
+                                  <td className="pr-3 text-slate-500">{conflict.base?.[field] || "—"}</td>
+                                  <td className="pr-3">{conflict.crm?.[field] || "—"}</td>
+                                  <td>{conflict.sheet?.[field] || "—"}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                          <div className="flex gap-1">
+                            <button onClick={() => resolve(outcome, "crm")} disabled={saving} className="rounded border border-slate-300 px-2 py-0.5 disabled:opacity-40">Keep CRM</button>
+                            <button onClick={() => resolve(outcome, "sheet")} disabled={saving} className="rounded border border-slate-300 px-2 py-0.5 disabled:opacity-40">Keep sheet</button>
+                          </div>
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+                {selected.outcomes.length === 0 && <li className="text-slate-500">No rows with this outcome.</li>}
+              </ul>
+            </>
+          ) : (
+            <p className="text-sm text-slate-500">Run a sync or pick a run to see its rows and conflicts.</p>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,87 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { createTelegramLinkCodeApi, fetchTelegramLinkApi, unlinkTelegramApi, type TelegramLinkStatus } from "@/services/api/telegram-api.service";
+
+/** Lets the signed-in user connect a Telegram chat for task reminders. Hidden when no bot is configured. */
+export function TelegramLinkCard() {
+  const [status, setStatus] = useState<TelegramLinkStatus | null>(null);
+  const [pending, setPending] = useState<{ code: string; deepLink: string | null } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  async function load() {
+    try {
+      setStatus(await fetchTelegramLinkApi());
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Failed to load Telegram status");
+    }
+  }
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  async function generateCode() {
+    setBusy(true);
+    setError("");
+    try {
+      const data = await createTelegramLinkCodeApi();
+      setPending({ code: data.code, deepLink: data.deepLink });
+    } catch (linkError) {
+      setError(linkError instanceof Error ? linkError.message : "Failed to create link code");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function unlink() {
+    setBusy(true);
+    setError("");
+    try {
+      await unlinkTelegramApi();
+      setPending(null);
+      await load();
+    } catch (unlinkError) {
+      setError(unlinkError instanceof Error ? unlinkError.message : "Failed to unlink");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (!status?.configured) return null;
+
+  return (
+    <div className="rounded-xl border border-slate-200 bg-white p-3 text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <p className="font-medium">Telegram reminders</p>
+          <p className="text-xs text-slate-500">
+            {status.linked ? `Linked${status.linkedAt ? ` since ${new Date(status.linkedAt).toLocaleDateString()}` : ""}. Open tasks assigned to you are reminded an hour before they are due.` : "Get a reminder in Telegram before your tasks are due."}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={generateCode} disabled={busy} className="rounded border border-slate-300 px-3 py-1 text-xs disabled:opacity-40">
+            {status.linked ? "Link another chat" : "Connect Telegram"}
+          </button>
+          {status.linked && (
+            <button onClick={unlink} disabled={busy} className="rounded border border-rose-300 px-3 py-1 text-xs text-rose-700 disabled:opacity-40">Unlink</button>
+          )}
+        </div>
+      </div>
+      {pending && (
+        <p className="mt-2 text-xs text-slate-600">
+          {pending.deepLink ? (
+            <>
+              <a href={pending.deepLink} target="_blank" rel="noreferrer" className="underline">Open the bot</a> and press Start, or send{" "}
+            </>
+          ) : (
+            "Send "
+          )}
+          <code className="rounded bg-slate-100 px-1">/link {pending.code}</code> to {status.botUsername ? `@${status.botUsername}` : "the CRM bot"} within 15 minutes, then refresh.
+        </p>
+      )}
+      {error && <p className="mt-2 text-xs text-rose-700">{error}</p>}
+    </div>
+  );
+}
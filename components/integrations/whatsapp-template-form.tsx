@@ -0,0 +1,85 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { fetchWhatsAppStatusApi, sendWhatsAppTemplateApi, type WhatsAppTemplateRequest } from "@/services/api/whatsapp-api.service";
+
+type Props = {
+  type: WhatsAppTemplateRequest["type"];
+  recordId: string;
+  disabled?: boolean;
+};
+
+/** Sends an approved WhatsApp template to the record's linked contact. Hidden when WhatsApp is not configured. */
+export function WhatsAppTemplateForm({ type, recordId, disabled }: Props) {
+  const [configured, setConfigured] = useState(false);
+  const [open, setOpen] = useState(false);
+  const [templateName, setTemplateName] = useState("");
+  const [languageCode, setLanguageCode] = useState("en");
+  const [parameters, setParameters] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [notice, setNotice] = useState("");
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    fetchWhatsAppStatusApi()
+      .then((status) => setConfigured(status.configured))
+      .catch(() => setConfigured(false));
+  }, []);
+
+  async function send() {
+    setBusy(true);
+    setError("");
+    setNotice("");
+    try {
+      const result = await sendWhatsAppTemplateApi({
+        type,
+        record_id: recordId,
+        template_name: templateName.trim(),
+        language_code: languageCode.trim() || "en",
+        body_parameters: parameters
+          .split("\n")
+          .map((line) => line.trim())
+          .filter(Boolean)
+      });
+      setNotice(`Sent to ${result.to}.`);
+    } catch (sendError) {
+      setError(sendError instanceof Error ? sendError.message : "Failed to send template");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (!configured) return null;
+
+  if (!open) {
+    return (
+      <button disabled={disabled} onClick={() => setOpen(true)} className="mb-2 rounded border border-emerald-300 px-2 py-1 text-xs text-emerald-700 disabled:opacity-40">
+        Send WhatsApp template
+      </button>
+    );
+  }
+
+  return (
+    <div className="mb-2 space-y-1 rounded border border-emerald-200 p-2">
+      <div className="flex gap-2">
+        <input value={templateName} onChange={(e) => setTemplateName(e.target.value)} placeholder="Template name" className="w-full rounded border border-slate-300 px-2 py-1 text-xs" />
+        <input value={languageCode} onChange={(e) => setLanguageCode(e.target.value)} placeholder="en" className="w-16 rounded border border-slate-300 px-2 py-1 text-xs" />
+      </div>
+      <textarea
+        value={parameters}
+        onChange={(e) => setParameters(e.target.value)}
+        placeholder="Body parameters, one per line ({{1}}, {{2}}, …)"
+        rows={2}
+        className="w-full rounded border border-slate-300 px-2 py-1 text-xs"
+      />
+      <div className="flex gap-2">
+        <button disabled={disabled || busy || !templateName.trim()} onClick={send} className="rounded bg-emerald-600 px-2 py-1 text-xs text-white disabled:opacity-40">
+          {busy ? "Sending..." : "Send"}
+        </button>
+        <button onClick={() => setOpen(false)} className="rounded border border-slate-300 px-2 py-1 text-xs">Close</button>
+      </div>
+      {notice && <p className="text-[10px] text-emerald-700">{notice}</p>}
+      {error && <p className="text-[10px] text-rose-700">{error}</p>}
+    </div>
+  );
+}
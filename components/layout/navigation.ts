@@ -11,6 +11,7 @@ export const SIDEBAR_ITEMS: NavItem[] = [
   { label: "Rent", href: "/rent" },
   { label: "Buyers", href: "/buyers" },
   { label: "Clients", href: "/clients" },
+  { label: "Deals", href: "/deals" },
   { label: "Tasks", href: "/tasks" },
   { label: "Media", href: "/media" },
   { label: "Dashboard", href: "/dashboard" },
@@ -26,7 +27,14 @@ export const AGENT_SIDEBAR_ITEMS: NavItem[] = [
 ];
 
 export const ADMIN_SIDEBAR_ITEMS: NavItem[] = [
-  { label: "Hierarchy", href: "/admin/hierarchy" }
+  { label: "Hierarchy", href: "/admin/hierarchy" },
+  { label: "Contact merge", href: "/admin/contacts" },
+  { label: "Gazetteer", href: "/admin/gazetteer" },
+  { label: "Digests", href: "/admin/digests" },
+  { label: "Webhooks", href: "/admin/webhooks" },
+  { label: "API keys", href: "/admin/api-keys" },
+  { label: "File import", href: "/admin/imports" },
+  { label: "Watermarks", href: "/admin/watermarks" }
 ];
 
 export const VIEW_MODES = ["Grid", "Kanban", "Dashboard", "Map"] as const;
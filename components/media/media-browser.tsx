@@ -5,8 +5,12 @@ import { usePathname, useRouter, useSearchParams } from "next/navigation";
 import { HierarchyNodeCreateModal } from "@/components/hierarchy/hierarchy-node-create-modal";
 import { ConfirmationModal } from "@/components/ui/confirmation-modal";
 import { useAuth } from "@/hooks/use-auth";
+import { duplicateMatchLocation, type MediaDuplicateMatch } from "@/lib/media-dedup";
+import { mediaDisplayUrl, type MediaVariants } from "@/lib/media-variants";
+import { mediaDownloadHref } from "@/lib/media-watermark";
 import { MediaViewerModal } from "@/components/media/media-viewer-modal";
 import { deleteHierarchyNodeApi, deleteMediaItemApi, fetchHierarchyNodeDetailsApi } from "@/services/api/hierarchy-api.service";
+import { fetchMediaDuplicatesApi } from "@/services/api/media-dedup-api.service";
 import type { HierarchyTreeNode } from "@/types/hierarchy";
 
 type MediaFamily = "sale" | "rent" | "buyers" | "clients";
@@ -19,6 +23,9 @@ type BrowserMediaItem = {
   media_type: "image" | "video" | "document" | "other";
   original_filename: string;
   file_size: number | null;
+  width?: number | null;
+  height?: number | null;
+  variants?: MediaVariants | null;
   created_at: string;
   record_type?: string | null;
   record_id?: string | null;
@@ -80,6 +87,7 @@ export function MediaBrowser() {
   const [deleteNodeOpen, setDeleteNodeOpen] = useState(false);
   const [deleteMediaTarget, setDeleteMediaTarget] = useState<BrowserMediaItem | null>(null);
   const [deleting, setDeleting] = useState(false);
+  const [duplicates, setDuplicates] = useState<Record<string, MediaDuplicateMatch[]>>({});
 
   const family = (searchParams.get("family") || "sale") as MediaFamily;
   const nodeId = searchParams.get("nodeId") || "";
@@ -117,6 +125,26 @@ export function MediaBrowser() {
     load();
   }, [load]);
 
+  // Duplicate warnings load after the grid so a slow lookup never holds up browsing.
+  useEffect(() => {
+    const imageIds = (data?.media || []).filter((item) => item.media_type === "image").map((item) => item.id);
+    if (imageIds.length === 0) {
+      setDuplicates({});
+      return;
+    }
+    let cancelled = false;
+    fetchMediaDuplicatesApi(imageIds.slice(0, 300))
+      .then((result) => {
+        if (!cancelled) setDuplicates(result.duplicates);
+      })
+      .catch(() => {
+        if (!cancelled) setDuplicates({});
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [data?.media]);
+
   const flatNodes = useMemo(() => flattenTree(data?.tree || []), [data?.tree]);
   const nodeById = useMemo(() => new Map(flatNodes.map((node) => [node.id, node])), [flatNodes]);
   const selectedNode = nodeId ? nodeById.get(nodeId) || null : null;
@@ -374,7 +402,7 @@ export function MediaBrowser() {
                   <button type="button" onClick={() => setActiveIndex(index)} className="block w-full text-left">
                     {item.media_type === "image" ? (
                       // eslint-disable-next-line @next/next/no-img-element
-                      <img src={item.file_url} alt={item.original_filename || "media"} className="h-40 w-full object-cover" />
+                      <img src={mediaDisplayUrl(item, "thumb")} alt={item.original_filename || "media"} loading="lazy" className="h-40 w-full object-cover" />
                     ) : item.media_type === "video" ? (
                       <div className="flex h-40 items-center justify-center bg-slate-950 text-sm font-medium text-white">Video preview</div>
                     ) : (
@@ -384,12 +412,21 @@ export function MediaBrowser() {
                   <div className="space-y-3 p-3">
                     <div>
                       <p className="truncate text-sm font-semibold text-slate-900">{item.original_filename || item.media_type}</p>
-                      <p className="mt-1 text-xs text-slate-500">{formatFileSize(item.file_size)} • {relTime(item.created_at)}</p>
+                      <p className="mt-1 text-xs text-slate-500">
+                        {formatFileSize(item.file_size)}
+                        {item.width && item.height ? ` • ${item.width}×${item.height}` : ""} • {relTime(item.created_at)}
+                      </p>
+                      {duplicates[item.id]?.length ? (
+                        <p className="mt-1 rounded bg-orange-50 px-2 py-1 text-xs text-orange-800">
+                          {duplicates[item.id][0].exact ? "Exact copy" : "Near-identical image"} also on{" "}
+                          {Array.from(new Set(duplicates[item.id].map(duplicateMatchLocation))).join(", ")}
+                        </p>
+                      ) : null}
                     </div>
                     <div className="flex items-center gap-2 text-xs">
                       <button type="button" onClick={() => setActiveIndex(index)} className="rounded border border-slate-300 px-2 py-1 text-slate-700 hover:bg-slate-50">Preview</button>
                       <a href={item.file_url} target="_blank" rel="noreferrer" className="rounded border border-slate-300 px-2 py-1 text-slate-700 hover:bg-slate-50">Open</a>
-                      <a href={item.file_url} download className="rounded bg-slate-900 px-2 py-1 text-white">Download</a>
+                      <a href={mediaDownloadHref(item.id)} download className="rounded bg-slate-900 px-2 py-1 text-white">Download</a>
                       {isAdmin && (
                         <button type="button" onClick={() => setDeleteMediaTarget(item)} className="rounded border border-rose-300 px-2 py-1 text-rose-700 hover:bg-rose-50">
                           Delete
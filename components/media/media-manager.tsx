@@ -1,10 +1,17 @@
 "use client";
 
 import { DragEvent, useCallback, useEffect, useMemo, useState } from "react";
+import { duplicateMatchLocation, type MediaDuplicateMatch } from "@/lib/media-dedup";
+import { mediaDisplayUrl } from "@/lib/media-variants";
+import { checkUploadDuplicatesApi, fetchMediaDuplicatesApi, linkExistingMediaApi, type UploadDuplicateCheck } from "@/services/api/media-dedup-api.service";
 import { MediaSummary } from "./media-summary";
 import { MediaItem } from "./types";
 import { MediaViewerModal } from "./media-viewer-modal";
 
+function describeMatch(match: MediaDuplicateMatch) {
+  return `already exists as ${match.exact ? "an exact copy" : "a near-identical image"} on ${duplicateMatchLocation(match)} (${match.original_filename || "unnamed"})`;
+}
+
 type Props = {
   intakeSessionId?: string;
   recordType?: "properties_sale" | "properties_rent" | "buyers" | "clients";
@@ -19,6 +26,9 @@ export function MediaManager({ intakeSessionId, recordType, recordId, compact =
   const [warning, setWarning] = useState("");
   const [activeIndex, setActiveIndex] = useState<number | null>(null);
   const [uploading, setUploading] = useState(false);
+  const [uploadChecks, setUploadChecks] = useState<UploadDuplicateCheck[]>([]);
+  const [duplicates, setDuplicates] = useState<Record<string, MediaDuplicateMatch[]>>({});
+  const [linking, setLinking] = useState(false);
 
   function onDropFiles(event: DragEvent<HTMLLabelElement>) {
     event.preventDefault();
@@ -39,7 +49,18 @@ export function MediaManager({ intakeSessionId, recordType, recordId, compact =
     const nextItems = (data.media || []) as MediaItem[];
     setItems(nextItems);
     onItemsChange?.(nextItems);
-  }, [onItemsChange, query]);
+
+    const imageIds = nextItems.filter((item) => item.media_type === "image").map((item) => item.id);
+    if (compact || imageIds.length === 0) {
+      setDuplicates({});
+      return;
+    }
+    try {
+      setDuplicates((await fetchMediaDuplicatesApi(imageIds.slice(0, 300))).duplicates);
+    } catch {
+      setDuplicates({});
+    }
+  }, [compact, onItemsChange, query]);
 
   useEffect(() => {
     load();
@@ -55,6 +76,33 @@ export function MediaManager({ intakeSessionId, recordType, recordId, compact =
       }
     }
     setFiles([...next]);
+    setUploadChecks([]);
+    if (next.length > 0) {
+      checkUploadDuplicatesApi(next)
+        .then((data) => setUploadChecks(data.files))
+        .catch(() => setWarning((prev) => prev || "Could not check the selected files for duplicates."));
+    }
+  }
+
+  async function linkExisting(input: { source_media_id: string; replace_media_id?: string }, skipFile?: File) {
+    setLinking(true);
+    setWarning("");
+    try {
+      await linkExistingMediaApi(
+        input.replace_media_id
+          ? input
+          : { ...input, intake_session_id: intakeSessionId, record_type: recordType, record_id: recordId }
+      );
+      if (skipFile) {
+        setFiles((prev) => prev.filter((file) => file !== skipFile));
+        setUploadChecks((prev) => prev.filter((check) => !(check.name === skipFile.name && check.size === skipFile.size)));
+      }
+      await load();
+    } catch (linkError) {
+      setWarning(linkError instanceof Error ? linkError.message : "Could not link the existing media");
+    } finally {
+      setLinking(false);
+    }
   }
 
   async function upload() {
@@ -69,6 +117,7 @@ export function MediaManager({ intakeSessionId, recordType, recordId, compact =
     const res = await fetch("/api/media", { method: "POST", body: form });
     if (res.ok) {
       setFiles([]);
+      setUploadChecks([]);
       await load();
     }
     setUploading(false);
@@ -95,8 +144,45 @@ export function MediaManager({ intakeSessionId, recordType, recordId, compact =
               <button className="ml-2 rounded bg-slate-900 px-2 py-1 text-white" onClick={upload} disabled={uploading}>
                 {uploading ? "Uploading..." : "Upload now"}
               </button>
+              {files.map((file) => {
+                const match = uploadChecks.find((check) => check.name === file.name && check.size === file.size)?.matches[0];
+                if (!match) return null;
+                return (
+                  <div key={`${file.name}|${file.size}`} className="mt-2 flex items-center justify-between gap-2 rounded border border-orange-200 bg-orange-50 px-2 py-1 text-orange-800">
+                    <span>
+                      {file.name} {describeMatch(match)}.
+                    </span>
+                    <button
+                      className="shrink-0 rounded border border-orange-300 bg-white px-2 py-1 text-orange-800 disabled:opacity-40"
+                      disabled={linking}
+                      onClick={() => linkExisting({ source_media_id: match.media_id }, file)}
+                    >
+                      Link existing instead
+                    </button>
+                  </div>
+                );
+              })}
             </div>
           )}
+          {items.map((item) => {
+            const match = duplicates[item.id]?.[0];
+            if (!match) return null;
+            return (
+              <div key={item.id} className="flex items-center justify-between gap-2 rounded border border-orange-200 bg-orange-50 px-2 py-1 text-xs text-orange-800">
+                <span>
+                  {item.original_filename || "This image"} {describeMatch(match)}.
+                </span>
+                <button
+                  className="shrink-0 rounded border border-orange-300 bg-white px-2 py-1 text-orange-800 disabled:opacity-40"
+                  disabled={linking}
+                  title="Point this item at the existing file and delete its own copy"
+                  onClick={() => linkExisting({ source_media_id: match.media_id, replace_media_id: item.id })}
+                >
+                  Use existing
+                </button>
+              </div>
+            );
+          })}
         </>
       )}
 
@@ -106,7 +192,7 @@ export function MediaManager({ intakeSessionId, recordType, recordId, compact =
             {item.media_type === "image" ? (
               <>
                 {/* eslint-disable-next-line @next/next/no-img-element */}
-                <img src={item.file_url} alt={item.original_filename || "media"} className="h-16 w-full object-cover" />
+                <img src={mediaDisplayUrl(item, "thumb")} alt={item.original_filename || "media"} loading="lazy" className="h-16 w-full object-cover" />
               </>
             ) : (
               <div className="flex h-16 items-center justify-center bg-slate-100 text-xs">{item.media_type}</div>
@@ -1,5 +1,7 @@
 "use client";
 
+import { mediaDisplayUrl } from "@/lib/media-variants";
+import { mediaDownloadHref } from "@/lib/media-watermark";
 import { MediaItem } from "./types";
 
 export function MediaViewerModal({ items, index, onClose, onPrev, onNext }: { items: MediaItem[]; index: number; onClose: () => void; onPrev: () => void; onNext: () => void }) {
@@ -14,7 +16,7 @@ export function MediaViewerModal({ items, index, onClose, onPrev, onNext }: { it
           <span className="text-sm">{current.original_filename || current.media_type}</span>
           <div className="flex items-center gap-2">
             <a href={current.file_url} target="_blank" rel="noreferrer" className="rounded bg-white/20 px-3 py-1 text-sm">Open</a>
-            <a href={current.file_url} download className="rounded bg-white/20 px-3 py-1 text-sm">Download</a>
+            <a href={mediaDownloadHref(current.id)} download className="rounded bg-white/20 px-3 py-1 text-sm">Download</a>
             <button onClick={onNext} className="rounded bg-white/20 px-3 py-1 text-sm">Next</button>
           </div>
         </div>
@@ -22,7 +24,7 @@ export function MediaViewerModal({ items, index, onClose, onPrev, onNext }: { it
         {current.media_type === "image" && (
           <>
             {/* eslint-disable-next-line @next/next/no-img-element */}
-            <img src={current.file_url} alt="media" className="max-h-[80vh] max-w-[90vw] rounded bg-white object-contain" />
+            <img src={mediaDisplayUrl(current, "web")} alt="media" className="max-h-[80vh] max-w-[90vw] rounded bg-white object-contain" />
           </>
         )}
         {current.media_type === "video" && <video src={current.file_url} controls className="max-h-[80vh] max-w-[90vw] rounded bg-black" />}
@@ -31,7 +33,7 @@ export function MediaViewerModal({ items, index, onClose, onPrev, onNext }: { it
             <p className="mb-3 text-sm text-slate-700">Document preview</p>
             <div className="flex items-center justify-center gap-2">
               <a href={current.file_url} target="_blank" rel="noreferrer" className="rounded border border-slate-300 px-4 py-2 text-sm text-slate-700">Open document</a>
-              <a href={current.file_url} download className="rounded bg-slate-900 px-4 py-2 text-sm text-white">Download document</a>
+              <a href={mediaDownloadHref(current.id)} download className="rounded bg-slate-900 px-4 py-2 text-sm text-white">Download document</a>
             </div>
           </div>
         )}
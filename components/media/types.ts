@@ -1,3 +1,5 @@
+import type { MediaVariants } from "@/lib/media-variants";
+
 export type MediaItem = {
   id: string;
   file_url: string;
@@ -5,5 +7,8 @@ export type MediaItem = {
   media_type: "image" | "video" | "document" | "other";
   original_filename: string;
   file_size: number | null;
+  width?: number | null;
+  height?: number | null;
+  variants?: MediaVariants | null;
   created_at: string;
 };
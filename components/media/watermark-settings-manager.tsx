@@ -0,0 +1,199 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { WATERMARK_POSITIONS, type WatermarkPosition } from "@/lib/media-watermark";
+import { fetchWatermarkSettingsApi, saveWatermarkSettingsApi, type WatermarkRootSettings } from "@/services/api/media-watermark-api.service";
+
+type WatermarkForm = {
+  enabled: boolean;
+  position: WatermarkPosition;
+  opacity: number;
+  textTemplate: string;
+  logo: File | null;
+  removeLogo: boolean;
+};
+
+const POSITION_LABELS: Record<WatermarkPosition, string> = {
+  top_left: "Top left",
+  top_right: "Top right",
+  bottom_left: "Bottom left",
+  bottom_right: "Bottom right",
+  center: "Center"
+};
+
+function toForm(entry: WatermarkRootSettings): WatermarkForm {
+  return {
+    enabled: entry.settings.enabled,
+    position: entry.settings.position,
+    opacity: entry.settings.opacity,
+    textTemplate: entry.settings.text_template,
+    logo: null,
+    removeLogo: false
+  };
+}
+
+export function WatermarkSettingsManager() {
+  const { user, loading: authLoading } = useAuth();
+  const isAdmin = (user?.role || "viewer") === "admin";
+
+  const [roots, setRoots] = useState<WatermarkRootSettings[]>([]);
+  const [forms, setForms] = useState<Record<string, WatermarkForm>>({});
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState("");
+  const [error, setError] = useState("");
+
+  async function loadSettings() {
+    setLoading(true);
+    try {
+      const data = await fetchWatermarkSettingsApi();
+      setRoots(data.roots);
+      setForms(Object.fromEntries(data.roots.map((entry) => [entry.root.id, toForm(entry)])));
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Failed to load watermark settings");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    if (!authLoading && isAdmin) loadSettings();
+  }, [authLoading, isAdmin]);
+
+  async function run(action: () => Promise<string>) {
+    setSaving(true);
+    setError("");
+    setMessage("");
+    try {
+      setMessage(await action());
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : "Request failed");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function updateForm(rootId: string, changes: Partial<WatermarkForm>) {
+    setForms((prev) => ({ ...prev, [rootId]: { ...prev[rootId], ...changes } }));
+  }
+
+  function save(entry: WatermarkRootSettings) {
+    const form = forms[entry.root.id];
+    run(async () => {
+      const data = await saveWatermarkSettingsApi(entry.root.id, form);
+      const next = { ...entry, settings: data.settings };
+      setRoots((prev) => prev.map((item) => (item.root.id === entry.root.id ? next : item)));
+      setForms((prev) => ({ ...prev, [entry.root.id]: toForm(next) }));
+      return `Saved watermark for ${entry.root.name}. Photos are re-rendered with it the next time they are downloaded or published.`;
+    });
+  }
+
+  if (authLoading) {
+    return <section className="rounded-xl border border-slate-200 bg-white p-6 text-sm text-slate-500 shadow-sm">Checking permissions...</section>;
+  }
+
+  if (!isAdmin) {
+    return (
+      <section className="rounded-xl border border-rose-200 bg-rose-50 p-6 text-sm text-rose-700 shadow-sm">
+        This page is restricted to CRM admins.
+      </section>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <section className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+        <h2 className="text-lg font-semibold">Photo watermarks</h2>
+        <p className="text-xs text-slate-500">
+          Listing photos get this watermark when they are downloaded or published through the listings API. Grids, the viewer and &quot;Open&quot;
+          keep showing the clean original. Use <code>{"{code}"}</code> in the caption for the listing code.
+        </p>
+        {message && <div className="mt-3 rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-800">{message}</div>}
+        {error && <div className="mt-3 rounded-lg border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">{error}</div>}
+      </section>
+
+      {loading && <p className="text-sm text-slate-500">Loading watermark settings...</p>}
+
+      <div className="grid gap-4 md:grid-cols-2">
+        {roots.map((entry) => {
+          const form = forms[entry.root.id];
+          if (!form) return null;
+          const hasLogo = Boolean(entry.settings.logo_url) && !form.removeLogo;
+          return (
+            <section key={entry.root.id} className="space-y-3 rounded-xl border border-slate-200 bg-white p-4 text-sm shadow-sm">
+              <div className="flex items-center justify-between">
+                <h3 className="font-semibold">{entry.root.name}</h3>
+                <label className="flex items-center gap-2 text-xs text-slate-600">
+                  <input type="checkbox" checked={form.enabled} onChange={(e) => updateForm(entry.root.id, { enabled: e.target.checked })} />
+                  Enabled
+                </label>
+              </div>
+
+              <div className="space-y-1">
+                <p className="text-xs font-medium text-slate-600">Logo</p>
+                {hasLogo && (
+                  <div className="flex items-center gap-3">
+                    {/* eslint-disable-next-line @next/next/no-img-element */}
+                    <img src={entry.settings.logo_url || ""} alt="Watermark logo" className="h-12 max-w-[160px] rounded border border-slate-200 bg-slate-100 object-contain" />
+                    <button type="button" onClick={() => updateForm(entry.root.id, { removeLogo: true, logo: null })} className="text-xs text-rose-700 underline">
+                      Remove
+                    </button>
+                  </div>
+                )}
+                <input
+                  type="file"
+                  accept="image/png,image/jpeg,image/webp"
+                  onChange={(e) => updateForm(entry.root.id, { logo: e.target.files?.[0] || null, removeLogo: false })}
+                  className="w-full text-xs"
+                />
+              </div>
+
+              <label className="block space-y-1">
+                <span className="text-xs font-medium text-slate-600">Caption</span>
+                <input
+                  value={form.textTemplate}
+                  maxLength={120}
+                  onChange={(e) => updateForm(entry.root.id, { textTemplate: e.target.value })}
+                  placeholder="Best View · {code}"
+                  className="w-full rounded border border-slate-300 px-3 py-2"
+                />
+              </label>
+
+              <div className="grid grid-cols-2 gap-3">
+                <label className="block space-y-1">
+                  <span className="text-xs font-medium text-slate-600">Position</span>
+                  <select
+                    value={form.position}
+                    onChange={(e) => updateForm(entry.root.id, { position: e.target.value as WatermarkPosition })}
+                    className="w-full rounded border border-slate-300 px-3 py-2"
+                  >
+                    {WATERMARK_POSITIONS.map((position) => (
+                      <option key={position} value={position}>{POSITION_LABELS[position]}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="block space-y-1">
+                  <span className="text-xs font-medium text-slate-600">Opacity {Math.round(form.opacity * 100)}%</span>
+                  <input
+                    type="range"
+                    min={0.05}
+                    max={1}
+                    step={0.05}
+                    value={form.opacity}
+                    onChange={(e) => updateForm(entry.root.id, { opacity: Number(e.target.value) })}
+                    className="w-full"
+                  />
+                </label>
+              </div>
+
+              <button onClick={() => save(entry)} disabled={saving} className="rounded bg-slate-900 px-3 py-2 text-white disabled:opacity-40">
+                {saving ? "Saving..." : "Save"}
+              </button>
+            </section>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
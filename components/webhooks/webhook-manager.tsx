@@ -0,0 +1,334 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { WEBHOOK_EVENTS, type WebhookDelivery, type WebhookDeliveryAttempt, type WebhookEventName, type WebhookSubscription } from "@/lib/webhooks";
+import {
+  createWebhookApi,
+  deleteWebhookApi,
+  fetchWebhookApi,
+  fetchWebhookDeliveriesApi,
+  fetchWebhookDeliveryAttemptsApi,
+  fetchWebhooksApi,
+  retryWebhookDeliveryApi,
+  rotateWebhookSecretApi,
+  updateWebhookApi
+} from "@/services/api/webhooks-api.service";
+
+type WebhookForm = {
+  id: string;
+  name: string;
+  url: string;
+  events: WebhookEventName[];
+  is_active: boolean;
+};
+
+type DeliveryPanel = { title: string; subscriptionId: string | null; deliveries: WebhookDelivery[] };
+
+const EMPTY_FORM: WebhookForm = { id: "", name: "", url: "", events: [], is_active: true };
+
+const STATUS_CLASS: Record<WebhookDelivery["status"], string> = {
+  pending: "text-slate-500",
+  sent: "text-emerald-700",
+  failed: "text-amber-700",
+  dead: "text-rose-700"
+};
+
+export function WebhookManager() {
+  const { user, loading: authLoading } = useAuth();
+  const isAdmin = (user?.role || "viewer") === "admin";
+
+  const [webhooks, setWebhooks] = useState<WebhookSubscription[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [form, setForm] = useState<WebhookForm>(EMPTY_FORM);
+  const [revealedSecret, setRevealedSecret] = useState<{ name: string; secret: string } | null>(null);
+  const [panel, setPanel] = useState<DeliveryPanel | null>(null);
+  const [attempts, setAttempts] = useState<{ deliveryId: string; rows: WebhookDeliveryAttempt[] } | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState("");
+  const [error, setError] = useState("");
+
+  async function loadWebhooks() {
+    setLoading(true);
+    try {
+      const data = await fetchWebhooksApi();
+      setWebhooks(data.webhooks);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Failed to load webhooks");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    if (!authLoading && isAdmin) loadWebhooks();
+  }, [authLoading, isAdmin]);
+
+  async function run(action: () => Promise<string>) {
+    setSaving(true);
+    setError("");
+    setMessage("");
+    try {
+      setMessage(await action());
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : "Request failed");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function toggleEvent(event: WebhookEventName) {
+    setForm((prev) => ({ ...prev, events: prev.events.includes(event) ? prev.events.filter((item) => item !== event) : [...prev.events, event] }));
+  }
+
+  function saveWebhook() {
+    if (!form.name.trim() || !form.url.trim() || form.events.length === 0) {
+      setError("Name, URL and at least one event are required.");
+      return;
+    }
+    const payload = { name: form.name.trim(), url: form.url.trim(), events: form.events, is_active: form.is_active };
+    run(async () => {
+      if (form.id) {
+        await updateWebhookApi(form.id, payload);
+      } else {
+        const data = await createWebhookApi(payload);
+        setRevealedSecret({ name: data.webhook.name, secret: data.secret });
+      }
+      setForm(EMPTY_FORM);
+      await loadWebhooks();
+      return `Saved ${payload.name}.`;
+    });
+  }
+
+  function toggleActive(webhook: WebhookSubscription) {
+    run(async () => {
+      await updateWebhookApi(webhook.id, { is_active: !webhook.is_active });
+      await loadWebhooks();
+      return `${webhook.name} ${webhook.is_active ? "paused" : "resumed"}.`;
+    });
+  }
+
+  function rotateSecret(webhook: WebhookSubscription) {
+    run(async () => {
+      const data = await rotateWebhookSecretApi(webhook.id);
+      setRevealedSecret({ name: webhook.name, secret: data.secret });
+      return `Rotated the signing secret of ${webhook.name}.`;
+    });
+  }
+
+  function removeWebhook(webhook: WebhookSubscription) {
+    run(async () => {
+      await deleteWebhookApi(webhook.id);
+      if (form.id === webhook.id) setForm(EMPTY_FORM);
+      if (panel?.subscriptionId === webhook.id) setPanel(null);
+      await loadWebhooks();
+      return `Deleted ${webhook.name}.`;
+    });
+  }
+
+  async function showDeliveries(webhook: WebhookSubscription) {
+    try {
+      const data = await fetchWebhookApi(webhook.id);
+      setAttempts(null);
+      setPanel({ title: `Deliveries · ${webhook.name}`, subscriptionId: webhook.id, deliveries: data.deliveries });
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Failed to load deliveries");
+    }
+  }
+
+  async function showDeadLetter() {
+    try {
+      const data = await fetchWebhookDeliveriesApi("dead");
+      setAttempts(null);
+      setPanel({ title: "Dead letter", subscriptionId: null, deliveries: data.deliveries });
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Failed to load dead-lettered deliveries");
+    }
+  }
+
+  async function toggleAttempts(delivery: WebhookDelivery) {
+    if (attempts?.deliveryId === delivery.id) {
+      setAttempts(null);
+      return;
+    }
+    try {
+      const data = await fetchWebhookDeliveryAttemptsApi(delivery.id);
+      setAttempts({ deliveryId: delivery.id, rows: data.attempts });
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Failed to load attempts");
+    }
+  }
+
+  function retryDelivery(delivery: WebhookDelivery) {
+    run(async () => {
+      const data = await retryWebhookDeliveryApi(delivery.id);
+      setPanel((prev) => (prev ? { ...prev, deliveries: prev.deliveries.map((item) => (item.id === delivery.id ? data.delivery : item)) } : prev));
+      return "Delivery queued; it goes out on the next dispatcher run.";
+    });
+  }
+
+  if (authLoading) {
+    return <section className="rounded-xl border border-slate-200 bg-white p-6 text-sm text-slate-500 shadow-sm">Checking permissions...</section>;
+  }
+
+  if (!isAdmin) {
+    return (
+      <section className="rounded-xl border border-rose-200 bg-rose-50 p-6 text-sm text-rose-700 shadow-sm">
+        This page is restricted to CRM admins.
+      </section>
+    );
+  }
+
+  const webhookName = (id: string) => webhooks.find((webhook) => webhook.id === id)?.name || "Webhook";
+
+  return (
+    <section className="space-y-4">
+      <section className="rounded-xl border border-slate-200 bg-white p-5 shadow-sm">
+        <div className="flex flex-wrap items-start justify-between gap-2">
+          <div>
+            <h2 className="text-xl font-semibold">Webhooks</h2>
+            <p className="mt-1 text-sm text-slate-600">
+              CRM events POSTed as JSON to your endpoints, signed with each webhook&apos;s secret in <code>X-Webhook-Signature</code>. Failed deliveries are retried with
+              exponential backoff and end up in the dead letter after the last attempt.
+            </p>
+          </div>
+          <button onClick={showDeadLetter} className="rounded border border-rose-300 px-3 py-1.5 text-sm text-rose-700">Dead letter</button>
+        </div>
+      </section>
+
+      {message && <div className="rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-800">{message}</div>}
+      {error && <div className="rounded-lg border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">{error}</div>}
+      {revealedSecret && (
+        <div className="rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-900">
+          <p>
+            Signing secret for <strong>{revealedSecret.name}</strong> — copy it now, it is not shown again:
+          </p>
+          <code className="mt-1 block break-all rounded bg-white px-2 py-1 text-xs">{revealedSecret.secret}</code>
+          <button onClick={() => setRevealedSecret(null)} className="mt-1 text-xs underline">Done</button>
+        </div>
+      )}
+
+      <div className="grid gap-4 lg:grid-cols-3">
+        <div className="space-y-4 lg:col-span-2">
+          <section className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+            {loading && webhooks.length === 0 ? (
+              <p className="text-sm text-slate-500">Loading webhooks…</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-slate-200 text-left text-xs uppercase text-slate-500">
+                    <th className="py-1">Name</th>
+                    <th className="py-1">Events</th>
+                    <th className="py-1" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {webhooks.map((webhook) => (
+                    <tr key={webhook.id} className={`border-b border-slate-100 ${webhook.is_active ? "" : "text-slate-400"}`}>
+                      <td className="py-1.5">
+                        <p className="font-medium">
+                          {webhook.name}
+                          {!webhook.is_active && <span className="ml-1 rounded bg-slate-100 px-1 text-xs">paused</span>}
+                        </p>
+                        <p className="max-w-[18rem] truncate text-xs text-slate-500" title={webhook.url}>{webhook.url}</p>
+                      </td>
+                      <td className="py-1.5 text-xs">{webhook.events.join(", ")}</td>
+                      <td className="py-1.5 text-right">
+                        <div className="flex flex-wrap justify-end gap-1">
+                          <button onClick={() => showDeliveries(webhook)} className="rounded border border-slate-300 px-2 py-0.5 text-xs">Deliveries</button>
+                          <button onClick={() => toggleActive(webhook)} disabled={saving} className="rounded border border-slate-300 px-2 py-0.5 text-xs disabled:opacity-40">
+                            {webhook.is_active ? "Pause" : "Resume"}
+                          </button>
+                          <button onClick={() => rotateSecret(webhook)} disabled={saving} className="rounded border border-slate-300 px-2 py-0.5 text-xs disabled:opacity-40">Rotate secret</button>
+                          <button
+                            onClick={() => setForm({ id: webhook.id, name: webhook.name, url: webhook.url, events: webhook.events, is_active: webhook.is_active })}
+                            className="rounded border border-slate-300 px-2 py-0.5 text-xs"
+                          >
+                            Edit
+                          </button>
+                          <button onClick={() => removeWebhook(webhook)} disabled={saving} className="rounded border border-rose-300 px-2 py-0.5 text-xs text-rose-700 disabled:opacity-40">Delete</button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                  {webhooks.length === 0 && (
+                    <tr>
+                      <td colSpan={3} className="py-3 text-sm text-slate-500">No webhooks yet.</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            )}
+          </section>
+
+          {panel && (
+            <section className="rounded-xl border border-slate-200 bg-white p-4 text-sm shadow-sm">
+              <div className="flex items-center justify-between">
+                <h3 className="font-semibold">{panel.title}</h3>
+                <button onClick={() => setPanel(null)} className="text-xs text-slate-500">Close</button>
+              </div>
+              <ul className="mt-2 space-y-1 text-xs">
+                {panel.deliveries.map((delivery) => (
+                  <li key={delivery.id} className="border-b border-slate-100 pb-1">
+                    <div className="flex items-center gap-2">
+                      <span className="w-36 shrink-0 text-slate-500">{new Date(delivery.created_at).toLocaleString()}</span>
+                      <span className="w-28 shrink-0">{delivery.event}</span>
+                      {!panel.subscriptionId && <span className="w-28 shrink-0 truncate">{webhookName(delivery.subscription_id)}</span>}
+                      <span className={STATUS_CLASS[delivery.status]}>{delivery.status}</span>
+                      <span className="text-slate-500">{delivery.attempts} attempt{delivery.attempts === 1 ? "" : "s"}</span>
+                      <span className="truncate text-slate-500" title={delivery.last_error || ""}>{delivery.last_error}</span>
+                      <span className="ml-auto flex shrink-0 gap-1">
+                        <button onClick={() => toggleAttempts(delivery)} className="rounded border border-slate-300 px-2 py-0.5">Attempts</button>
+                        {(delivery.status === "dead" || delivery.status === "failed") && (
+                          <button onClick={() => retryDelivery(delivery)} disabled={saving} className="rounded border border-slate-300 px-2 py-0.5 disabled:opacity-40">Retry</button>
+                        )}
+                      </span>
+                    </div>
+                    {attempts?.deliveryId === delivery.id && (
+                      <ul className="ml-4 mt-1 space-y-0.5 text-slate-600">
+                        {attempts.rows.map((attempt) => (
+                          <li key={attempt.id} className="flex gap-2">
+                            <span>#{attempt.attempt}</span>
+                            <span className="w-36 shrink-0">{new Date(attempt.created_at).toLocaleString()}</span>
+                            <span>{attempt.response_status ?? "no response"}</span>
+                            <span>{attempt.duration_ms} ms</span>
+                            <span className="truncate" title={attempt.response_body || attempt.error || ""}>{attempt.error || attempt.response_body}</span>
+                          </li>
+                        ))}
+                        {attempts.rows.length === 0 && <li>Not attempted yet.</li>}
+                      </ul>
+                    )}
+                  </li>
+                ))}
+                {panel.deliveries.length === 0 && <li className="text-slate-500">Nothing here.</li>}
+              </ul>
+            </section>
+          )}
+        </div>
+
+        <section className="space-y-2 rounded-xl border border-slate-200 bg-white p-4 text-sm shadow-sm">
+          <h3 className="font-semibold">{form.id ? "Edit webhook" : "New webhook"}</h3>
+          <input value={form.name} onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))} placeholder="Name, e.g. Data warehouse" className="w-full rounded border border-slate-300 px-2 py-1.5" />
+          <input value={form.url} onChange={(e) => setForm((prev) => ({ ...prev, url: e.target.value }))} placeholder="https://example.com/hooks/crm" className="w-full rounded border border-slate-300 px-2 py-1.5" />
+          <fieldset className="space-y-1">
+            <legend className="text-xs text-slate-500">Events</legend>
+            {WEBHOOK_EVENTS.map((event) => (
+              <label key={event} className="flex items-center gap-2 text-xs">
+                <input type="checkbox" checked={form.events.includes(event)} onChange={() => toggleEvent(event)} />
+                <code>{event}</code>
+              </label>
+            ))}
+          </fieldset>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={form.is_active} onChange={(e) => setForm((prev) => ({ ...prev, is_active: e.target.checked }))} />
+            Active
+          </label>
+          <div className="flex gap-2">
+            <button onClick={saveWebhook} disabled={saving} className="rounded bg-slate-900 px-3 py-1.5 text-white disabled:opacity-40">Save</button>
+            {form.id && <button onClick={() => setForm(EMPTY_FORM)} className="rounded border border-slate-300 px-3 py-1.5">Cancel</button>}
+          </div>
+        </section>
+      </div>
+    </section>
+  );
+}
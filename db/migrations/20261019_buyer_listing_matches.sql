@@ -0,0 +1,81 @@
+-- 2026-10-19: Persisted buyer ↔ listing match feed
+--
+-- Goals:
+--   * Store scored buyer/listing pairs so agents see new matches without re-running the matcher.
+--   * Keep agent triage state (new, shortlisted, dismissed) across recomputes.
+--   * Cascade away with the buyer or listing like record_hierarchy_links does.
+
+begin;
+
+create table if not exists public.buyer_listing_matches (
+  id uuid primary key default gen_random_uuid(),
+  buyer_id uuid not null references public.buyers(id) on delete cascade,
+  sale_id uuid references public.properties_sale(id) on delete cascade,
+  rent_id uuid references public.properties_rent(id) on delete cascade,
+  score int not null default 0,
+  breakdown jsonb not null default '[]'::jsonb,
+  state text not null default 'new',
+  state_changed_by uuid references auth.users(id) on delete set null,
+  state_changed_at timestamptz,
+  notified_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint buyer_listing_matches_exactly_one_listing check (
+    ((sale_id is not null)::integer + (rent_id is not null)::integer) = 1
+  ),
+  constraint buyer_listing_matches_state_check check (state in ('new', 'shortlisted', 'dismissed')),
+  constraint buyer_listing_matches_score_check check (score between 0 and 100)
+);
+
+create unique index if not exists idx_buyer_listing_matches_sale_unique
+  on public.buyer_listing_matches (buyer_id, sale_id)
+  where sale_id is not null;
+
+create unique index if not exists idx_buyer_listing_matches_rent_unique
+  on public.buyer_listing_matches (buyer_id, rent_id)
+  where rent_id is not null;
+
+create index if not exists idx_buyer_listing_matches_buyer
+  on public.buyer_listing_matches (buyer_id, score desc);
+
+create index if not exists idx_buyer_listing_matches_sale
+  on public.buyer_listing_matches (sale_id, score desc)
+  where sale_id is not null;
+
+create index if not exists idx_buyer_listing_matches_rent
+  on public.buyer_listing_matches (rent_id, score desc)
+  where rent_id is not null;
+
+drop trigger if exists trg_buyer_listing_matches_updated_at on public.buyer_listing_matches;
+create trigger trg_buyer_listing_matches_updated_at
+before update on public.buyer_listing_matches
+for each row execute function public.set_updated_at();
+
+alter table public.buyer_listing_matches enable row level security;
+
+drop policy if exists buyer_listing_matches_read_all on public.buyer_listing_matches;
+create policy buyer_listing_matches_read_all
+on public.buyer_listing_matches
+for select
+using (public.current_app_role() in ('viewer', 'agent', 'admin'));
+
+drop policy if exists buyer_listing_matches_insert_agent on public.buyer_listing_matches;
+create policy buyer_listing_matches_insert_agent
+on public.buyer_listing_matches
+for insert
+with check (public.current_app_role() in ('agent', 'admin'));
+
+drop policy if exists buyer_listing_matches_update_agent on public.buyer_listing_matches;
+create policy buyer_listing_matches_update_agent
+on public.buyer_listing_matches
+for update
+using (public.current_app_role() in ('agent', 'admin'))
+with check (public.current_app_role() in ('agent', 'admin'));
+
+drop policy if exists buyer_listing_matches_delete_agent on public.buyer_listing_matches;
+create policy buyer_listing_matches_delete_agent
+on public.buyer_listing_matches
+for delete
+using (public.current_app_role() in ('agent', 'admin'));
+
+commit;
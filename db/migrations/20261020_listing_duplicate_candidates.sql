@@ -0,0 +1,102 @@
+-- Duplicate listing detection for intake review
+-- Adds trigram indexes on listing location text and an RPC that returns likely
+-- duplicate candidates (with pg_trgm similarity) for an extracted sale/rent listing.
+
+begin;
+
+create extension if not exists pg_trgm;
+
+create index if not exists idx_properties_sale_area_trgm on public.properties_sale using gin (lower(area) gin_trgm_ops);
+create index if not exists idx_properties_sale_compound_trgm on public.properties_sale using gin (lower(compound) gin_trgm_ops);
+create index if not exists idx_properties_rent_area_trgm on public.properties_rent using gin (lower(area) gin_trgm_ops);
+create index if not exists idx_properties_rent_compound_trgm on public.properties_rent using gin (lower(compound) gin_trgm_ops);
+
+create or replace function public.find_listing_duplicate_candidates(
+  p_listing_type text,
+  p_area text default '',
+  p_compound text default '',
+  p_contact_phone text default '',
+  p_bedrooms int default null,
+  p_limit int default 25
+)
+returns table (
+  id uuid,
+  code text,
+  status text,
+  price numeric,
+  currency text,
+  size_sqm numeric,
+  bedrooms int,
+  area text,
+  compound text,
+  floor int,
+  contact_phone text,
+  updated_at timestamptz,
+  area_similarity real,
+  compound_similarity real
+)
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  v_area text := lower(trim(coalesce(p_area, '')));
+  v_compound text := lower(trim(coalesce(p_compound, '')));
+  v_phone text := right(regexp_replace(coalesce(p_contact_phone, ''), '\D', '', 'g'), 10);
+  v_limit int := least(greatest(coalesce(p_limit, 25), 1), 100);
+begin
+  if p_listing_type not in ('sale', 'rent') then
+    raise exception 'Invalid listing type: %', p_listing_type;
+  end if;
+
+  if p_listing_type = 'sale' then
+    return query
+      select
+        l.id, l.code, l.status, l.price, l.currency, l.size_sqm, l.bedrooms, l.area, l.compound, l.floor,
+        c.phone as contact_phone,
+        l.updated_at,
+        case when v_area = '' or l.area = '' then 0::real else similarity(lower(l.area), v_area) end as area_similarity,
+        case when v_compound = '' or l.compound = '' then 0::real else similarity(lower(l.compound), v_compound) end as compound_similarity
+      from public.properties_sale l
+      left join public.contacts c on c.id = l.contact_id
+      where l.is_archived = false
+        and (
+          (v_area <> '' and lower(l.area) % v_area)
+          or (v_compound <> '' and lower(l.compound) % v_compound)
+          or (length(v_phone) >= 7 and right(regexp_replace(coalesce(c.phone, ''), '\D', '', 'g'), 10) = v_phone)
+        )
+        and (p_bedrooms is null or l.bedrooms is null or abs(l.bedrooms - p_bedrooms) <= 1)
+      order by greatest(
+        case when v_area = '' or l.area = '' then 0::real else similarity(lower(l.area), v_area) end,
+        case when v_compound = '' or l.compound = '' then 0::real else similarity(lower(l.compound), v_compound) end
+      ) desc, l.updated_at desc
+      limit v_limit;
+  else
+    return query
+      select
+        l.id, l.code, l.status, l.price, l.currency, l.size_sqm, l.bedrooms, l.area, l.compound, l.floor,
+        c.phone as contact_phone,
+        l.updated_at,
+        case when v_area = '' or l.area = '' then 0::real else similarity(lower(l.area), v_area) end as area_similarity,
+        case when v_compound = '' or l.compound = '' then 0::real else similarity(lower(l.compound), v_compound) end as compound_similarity
+      from public.properties_rent l
+      left join public.contacts c on c.id = l.contact_id
+      where l.is_archived = false
+        and (
+          (v_area <> '' and lower(l.area) % v_area)
+          or (v_compound <> '' and lower(l.compound) % v_compound)
+          or (length(v_phone) >= 7 and right(regexp_replace(coalesce(c.phone, ''), '\D', '', 'g'), 10) = v_phone)
+        )
+        and (p_bedrooms is null or l.bedrooms is null or abs(l.bedrooms - p_bedrooms) <= 1)
+      order by greatest(
+        case when v_area = '' or l.area = '' then 0::real else similarity(lower(l.area), v_area) end,
+        case when v_compound = '' or l.compound = '' then 0::real else similarity(lower(l.compound), v_compound) end
+      ) desc, l.updated_at desc
+      limit v_limit;
+  end if;
+end;
+$$;
+
+grant execute on function public.find_listing_duplicate_candidates(text, text, text, text, int, int) to authenticated;
+
+commit;
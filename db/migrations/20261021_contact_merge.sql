@@ -0,0 +1,279 @@
+-- Contact merge
+-- Transactional merge of duplicate contacts into a survivor, re-pointing every linked
+-- record, contact task and contact timeline row. The pre-merge state (loser rows plus the
+-- original contact of every re-pointed row) is stored in audit_logs (action = 'contact_merge')
+-- so undo_contact_merge_transactional can restore it.
+
+begin;
+
+create or replace function public.merge_contacts_transactional(
+  p_survivor_id uuid,
+  p_loser_ids uuid[],
+  p_actor_id uuid default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_loser_ids uuid[];
+  v_survivor_before jsonb;
+  v_survivor_after jsonb;
+  v_losers jsonb;
+  v_merged_name text;
+  v_merged_phone text;
+  v_table text;
+  v_links jsonb;
+  v_repointed jsonb := '{}'::jsonb;
+  v_tasks jsonb;
+  v_timeline jsonb;
+  v_audit_log_id uuid;
+begin
+  if p_survivor_id is null then
+    raise exception 'Choose a survivor contact.';
+  end if;
+
+  select coalesce(array_agg(distinct loser_id), array[]::uuid[])
+  into v_loser_ids
+  from unnest(coalesce(p_loser_ids, array[]::uuid[])) as loser_id
+  where loser_id <> p_survivor_id;
+
+  if coalesce(array_length(v_loser_ids, 1), 0) = 0 then
+    raise exception 'Choose at least one contact to merge into the survivor.';
+  end if;
+
+  select to_jsonb(c) into v_survivor_before from public.contacts c where c.id = p_survivor_id for update;
+  if v_survivor_before is null then
+    raise exception 'Survivor contact not found';
+  end if;
+
+  perform 1 from public.contacts where id = any(v_loser_ids) for update;
+
+  select coalesce(jsonb_agg(to_jsonb(c) order by c.created_at), '[]'::jsonb)
+  into v_losers
+  from public.contacts c
+  where c.id = any(v_loser_ids);
+
+  if jsonb_array_length(v_losers) <> array_length(v_loser_ids, 1) then
+    raise exception 'One or more contacts to merge were not found';
+  end if;
+
+  -- Keep the survivor's values; fill a blank (or "Unknown") name and a blank phone from the oldest loser that has one.
+  v_merged_name := nullif(trim(coalesce(v_survivor_before->>'name', '')), '');
+  if v_merged_name is null or lower(v_merged_name) = 'unknown' then
+    select coalesce(
+      (
+        select trim(l->>'name')
+        from jsonb_array_elements(v_losers) l
+        where nullif(trim(coalesce(l->>'name', '')), '') is not null
+          and lower(trim(l->>'name')) <> 'unknown'
+        limit 1
+      ),
+      v_merged_name,
+      'Unknown'
+    )
+    into v_merged_name;
+  end if;
+
+  v_merged_phone := nullif(trim(coalesce(v_survivor_before->>'phone', '')), '');
+  if v_merged_phone is null then
+    select trim(l->>'phone')
+    into v_merged_phone
+    from jsonb_array_elements(v_losers) l
+    where nullif(trim(coalesce(l->>'phone', '')), '') is not null
+    limit 1;
+  end if;
+
+  foreach v_table in array array['properties_sale', 'properties_rent', 'buyers', 'clients'] loop
+    execute format(
+      'with previous as (
+         select id, contact_id from public.%1$I where contact_id = any($1)
+       ), updated as (
+         update public.%1$I t set contact_id = $2 from previous p where t.id = p.id returning p.id, p.contact_id
+       )
+       select coalesce(jsonb_agg(jsonb_build_object(''id'', id, ''contact_id'', contact_id)), ''[]''::jsonb) from updated',
+      v_table
+    )
+    into v_links
+    using v_loser_ids, p_survivor_id;
+
+    v_repointed := v_repointed || jsonb_build_object(v_table, v_links);
+  end loop;
+
+  with previous as (
+    select id, related_id from public.tasks where related_type::text = 'contact' and related_id = any(v_loser_ids)
+  ), updated as (
+    update public.tasks t set related_id = p_survivor_id from previous p where t.id = p.id returning p.id, p.related_id
+  )
+  select coalesce(jsonb_agg(jsonb_build_object('id', id, 'contact_id', related_id)), '[]'::jsonb) into v_tasks from updated;
+
+  with previous as (
+    select id, record_id from public.timeline where record_type::text = 'contacts' and record_id = any(v_loser_ids)
+  ), updated as (
+    update public.timeline t set record_id = p_survivor_id from previous p where t.id = p.id returning p.id, p.record_id
+  )
+  select coalesce(jsonb_agg(jsonb_build_object('id', id, 'contact_id', record_id)), '[]'::jsonb) into v_timeline from updated;
+
+  delete from public.contacts where id = any(v_loser_ids);
+
+  update public.contacts
+  set name = v_merged_name,
+      phone = v_merged_phone
+  where id = p_survivor_id;
+
+  select to_jsonb(c) into v_survivor_after from public.contacts c where c.id = p_survivor_id;
+
+  insert into public.audit_logs (user_id, action, record_type, record_id, before_json, after_json, source)
+  values (
+    p_actor_id,
+    'contact_merge',
+    'contacts',
+    p_survivor_id,
+    jsonb_build_object(
+      'survivor', v_survivor_before,
+      'losers', v_losers,
+      'repointed', v_repointed,
+      'tasks', v_tasks,
+      'timeline', v_timeline
+    ),
+    jsonb_build_object('survivor', v_survivor_after, 'merged_contact_ids', to_jsonb(v_loser_ids)),
+    'contact_merge'
+  )
+  returning id into v_audit_log_id;
+
+  return jsonb_build_object(
+    'audit_log_id', v_audit_log_id,
+    'survivor', v_survivor_after,
+    'merged_contact_ids', to_jsonb(v_loser_ids),
+    'repointed_sale_count', jsonb_array_length(v_repointed->'properties_sale'),
+    'repointed_rent_count', jsonb_array_length(v_repointed->'properties_rent'),
+    'repointed_buyer_count', jsonb_array_length(v_repointed->'buyers'),
+    'repointed_client_count', jsonb_array_length(v_repointed->'clients'),
+    'repointed_task_count', jsonb_array_length(v_tasks),
+    'repointed_timeline_count', jsonb_array_length(v_timeline)
+  );
+end;
+$$;
+
+create or replace function public.undo_contact_merge_transactional(
+  p_audit_log_id uuid,
+  p_actor_id uuid default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_log public.audit_logs%rowtype;
+  v_survivor_id uuid;
+  v_survivor jsonb;
+  v_loser_ids uuid[];
+  v_table text;
+  v_count integer;
+  v_restored_record_count integer := 0;
+  v_restored_task_count integer := 0;
+  v_restored_timeline_count integer := 0;
+begin
+  select * into v_log from public.audit_logs where id = p_audit_log_id and action = 'contact_merge' for update;
+  if not found then
+    raise exception 'Contact merge audit entry not found';
+  end if;
+
+  if exists (
+    select 1 from public.audit_logs
+    where action = 'contact_merge_undo'
+      and after_json->>'merge_audit_log_id' = p_audit_log_id::text
+  ) then
+    raise exception 'This contact merge has already been undone.';
+  end if;
+
+  v_survivor_id := v_log.record_id;
+  v_survivor := v_log.before_json->'survivor';
+
+  select coalesce(array_agg((l->>'id')::uuid), array[]::uuid[])
+  into v_loser_ids
+  from jsonb_array_elements(coalesce(v_log.before_json->'losers', '[]'::jsonb)) l;
+
+  if not exists (select 1 from public.contacts where id = v_survivor_id) then
+    raise exception 'Survivor contact not found';
+  end if;
+
+  if exists (select 1 from public.contacts where id = any(v_loser_ids)) then
+    raise exception 'A merged contact already exists again; undo is not possible.';
+  end if;
+
+  insert into public.contacts
+  select * from jsonb_populate_recordset(null::public.contacts, v_log.before_json->'losers');
+
+  update public.contacts
+  set name = coalesce(v_survivor->>'name', ''),
+      phone = v_survivor->>'phone'
+  where id = v_survivor_id;
+
+  -- Only rows still pointing at the survivor are moved back; later manual re-links are left alone.
+  foreach v_table in array array['properties_sale', 'properties_rent', 'buyers', 'clients'] loop
+    execute format(
+      'with restored as (
+         update public.%1$I t
+         set contact_id = (x->>''contact_id'')::uuid
+         from jsonb_array_elements($1) x
+         where t.id = (x->>''id'')::uuid and t.contact_id = $2
+         returning t.id
+       )
+       select count(*)::integer from restored',
+      v_table
+    )
+    into v_count
+    using coalesce(v_log.before_json->'repointed'->v_table, '[]'::jsonb), v_survivor_id;
+
+    v_restored_record_count := v_restored_record_count + v_count;
+  end loop;
+
+  with restored as (
+    update public.tasks t
+    set related_id = (x->>'contact_id')::uuid
+    from jsonb_array_elements(coalesce(v_log.before_json->'tasks', '[]'::jsonb)) x
+    where t.id = (x->>'id')::uuid and t.related_type::text = 'contact' and t.related_id = v_survivor_id
+    returning t.id
+  )
+  select count(*)::integer into v_restored_task_count from restored;
+
+  with restored as (
+    update public.timeline t
+    set record_id = (x->>'contact_id')::uuid
+    from jsonb_array_elements(coalesce(v_log.before_json->'timeline', '[]'::jsonb)) x
+    where t.id = (x->>'id')::uuid and t.record_type::text = 'contacts' and t.record_id = v_survivor_id
+    returning t.id
+  )
+  select count(*)::integer into v_restored_timeline_count from restored;
+
+  insert into public.audit_logs (user_id, action, record_type, record_id, before_json, after_json, source)
+  values (
+    p_actor_id,
+    'contact_merge_undo',
+    'contacts',
+    v_survivor_id,
+    v_log.after_json,
+    jsonb_build_object('merge_audit_log_id', p_audit_log_id, 'restored_contact_ids', to_jsonb(v_loser_ids)),
+    'contact_merge'
+  );
+
+  return jsonb_build_object(
+    'survivor_id', v_survivor_id,
+    'restored_contact_ids', to_jsonb(v_loser_ids),
+    'restored_record_count', v_restored_record_count,
+    'restored_task_count', v_restored_task_count,
+    'restored_timeline_count', v_restored_timeline_count
+  );
+end;
+$$;
+
+-- Called only through the service-role client from the admin contact merge API.
+revoke all on function public.merge_contacts_transactional(uuid, uuid[], uuid) from public, anon, authenticated;
+revoke all on function public.undo_contact_merge_transactional(uuid, uuid) from public, anon, authenticated;
+grant execute on function public.merge_contacts_transactional(uuid, uuid[], uuid) to service_role;
+grant execute on function public.undo_contact_merge_transactional(uuid, uuid) to service_role;
+
+commit;
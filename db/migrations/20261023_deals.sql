@@ -0,0 +1,119 @@
+-- 2026-10-23: Deals pipeline
+--
+-- Goals:
+--   * Track a buyer (or tenant) working towards a specific sale/rent listing as a deal.
+--   * Keep pipeline stages configurable (label, order, won/lost outcome) instead of free-text status.
+--   * Let deals show up in the shared timeline under their own record type.
+
+-- Enum values cannot be added inside the transaction that first uses them.
+alter type public.record_type add value if not exists 'deals';
+
+begin;
+
+create table if not exists public.deal_stages (
+  key text primary key,
+  label text not null,
+  position int not null default 0,
+  outcome text not null default 'open',
+  is_active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint deal_stages_key_format check (key ~ '^[a-z0-9_]+$'),
+  constraint deal_stages_outcome_check check (outcome in ('open', 'won', 'lost'))
+);
+
+insert into public.deal_stages (key, label, position, outcome)
+values
+  ('lead', 'Lead', 10, 'open'),
+  ('viewing', 'Viewing', 20, 'open'),
+  ('negotiation', 'Negotiation', 30, 'open'),
+  ('reserved', 'Reserved', 40, 'open'),
+  ('closed_won', 'Closed won', 50, 'won'),
+  ('closed_lost', 'Closed lost', 60, 'lost')
+on conflict (key) do nothing;
+
+drop trigger if exists trg_deal_stages_updated_at on public.deal_stages;
+create trigger trg_deal_stages_updated_at
+before update on public.deal_stages
+for each row execute function public.set_updated_at();
+
+create table if not exists public.deals (
+  id uuid primary key default gen_random_uuid(),
+  code text unique,
+  buyer_id uuid not null references public.buyers(id) on delete cascade,
+  sale_id uuid references public.properties_sale(id) on delete cascade,
+  rent_id uuid references public.properties_rent(id) on delete cascade,
+  stage_key text not null default 'lead' references public.deal_stages(key) on update cascade,
+  stage_changed_at timestamptz not null default now(),
+  expected_value numeric(14,2),
+  currency text not null default 'EGP',
+  commission numeric(14,2),
+  expected_close_date date,
+  closed_at timestamptz,
+  notes text not null default '',
+  assigned_to uuid references auth.users(id) on delete set null,
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint deals_exactly_one_listing check (
+    ((sale_id is not null)::integer + (rent_id is not null)::integer) = 1
+  )
+);
+
+create index if not exists idx_deals_stage on public.deals (stage_key, stage_changed_at desc);
+create index if not exists idx_deals_buyer on public.deals (buyer_id);
+create index if not exists idx_deals_sale on public.deals (sale_id) where sale_id is not null;
+create index if not exists idx_deals_rent on public.deals (rent_id) where rent_id is not null;
+
+drop trigger if exists trg_deals_code on public.deals;
+create trigger trg_deals_code
+before insert on public.deals
+for each row execute function public.assign_code_if_missing('DEAL');
+
+drop trigger if exists trg_deals_updated_at on public.deals;
+create trigger trg_deals_updated_at
+before update on public.deals
+for each row execute function public.set_updated_at();
+
+alter table public.deal_stages enable row level security;
+alter table public.deals enable row level security;
+
+drop policy if exists deal_stages_read_all on public.deal_stages;
+create policy deal_stages_read_all
+on public.deal_stages
+for select
+using (public.current_app_role() in ('viewer', 'agent', 'admin'));
+
+drop policy if exists deal_stages_write_admin on public.deal_stages;
+create policy deal_stages_write_admin
+on public.deal_stages
+for all
+using (public.current_app_role() = 'admin')
+with check (public.current_app_role() = 'admin');
+
+drop policy if exists deals_read_all on public.deals;
+create policy deals_read_all
+on public.deals
+for select
+using (public.current_app_role() in ('viewer', 'agent', 'admin'));
+
+drop policy if exists deals_insert_admin on public.deals;
+create policy deals_insert_admin
+on public.deals
+for insert
+with check (public.current_app_role() = 'admin');
+
+drop policy if exists deals_update_admin on public.deals;
+create policy deals_update_admin
+on public.deals
+for update
+using (public.current_app_role() = 'admin')
+with check (public.current_app_role() = 'admin');
+
+drop policy if exists deals_delete_admin on public.deals;
+create policy deals_delete_admin
+on public.deals
+for delete
+using (public.current_app_role() = 'admin');
+
+commit;
@@ -0,0 +1,83 @@
+-- 2026-10-24: Listing coordinates and offline gazetteer
+--
+-- Goals:
+--   * Store latitude/longitude on sale and rent listings so the grid can plot them on a map.
+--   * Resolve coordinates offline from a gazetteer of known Egyptian areas and compounds
+--     (seeded from db/seeds/egypt_gazetteer.csv through the admin import, editable by admins).
+--   * Remember where coordinates came from so manual pins are never overwritten by the gazetteer.
+
+begin;
+
+alter table public.properties_sale add column if not exists latitude numeric(9,6);
+alter table public.properties_sale add column if not exists longitude numeric(9,6);
+alter table public.properties_sale add column if not exists location_source text;
+alter table public.properties_rent add column if not exists latitude numeric(9,6);
+alter table public.properties_rent add column if not exists longitude numeric(9,6);
+alter table public.properties_rent add column if not exists location_source text;
+
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'properties_sale_location_source_check') then
+    alter table public.properties_sale
+      add constraint properties_sale_location_source_check check (location_source is null or location_source in ('gazetteer', 'manual'));
+  end if;
+  if not exists (select 1 from pg_constraint where conname = 'properties_rent_location_source_check') then
+    alter table public.properties_rent
+      add constraint properties_rent_location_source_check check (location_source is null or location_source in ('gazetteer', 'manual'));
+  end if;
+end
+$$;
+
+create index if not exists idx_properties_sale_lat_lng
+  on public.properties_sale (latitude, longitude)
+  where latitude is not null;
+
+create index if not exists idx_properties_rent_lat_lng
+  on public.properties_rent (latitude, longitude)
+  where latitude is not null;
+
+create table if not exists public.geo_gazetteer (
+  id uuid primary key default gen_random_uuid(),
+  kind text not null,
+  name text not null,
+  normalized_name text not null,
+  parent_area text not null default '',
+  aliases text[] not null default '{}',
+  normalized_aliases text[] not null default '{}',
+  latitude numeric(9,6) not null,
+  longitude numeric(9,6) not null,
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint geo_gazetteer_kind_check check (kind in ('area', 'compound')),
+  constraint geo_gazetteer_lat_check check (latitude between -90 and 90),
+  constraint geo_gazetteer_lng_check check (longitude between -180 and 180)
+);
+
+create unique index if not exists idx_geo_gazetteer_kind_name
+  on public.geo_gazetteer (kind, normalized_name);
+
+create index if not exists idx_geo_gazetteer_aliases
+  on public.geo_gazetteer using gin (normalized_aliases);
+
+drop trigger if exists trg_geo_gazetteer_updated_at on public.geo_gazetteer;
+create trigger trg_geo_gazetteer_updated_at
+before update on public.geo_gazetteer
+for each row execute function public.set_updated_at();
+
+alter table public.geo_gazetteer enable row level security;
+
+drop policy if exists geo_gazetteer_read_all on public.geo_gazetteer;
+create policy geo_gazetteer_read_all
+on public.geo_gazetteer
+for select
+using (public.current_app_role() in ('viewer', 'agent', 'admin'));
+
+drop policy if exists geo_gazetteer_write_admin on public.geo_gazetteer;
+create policy geo_gazetteer_write_admin
+on public.geo_gazetteer
+for all
+using (public.current_app_role() = 'admin')
+with check (public.current_app_role() = 'admin');
+
+commit;
@@ -0,0 +1,83 @@
+-- 2026-10-25: Server-side saved grid views
+--
+-- Goals:
+--   * Move CRM grid saved views out of browser localStorage so they follow the user across machines.
+--   * Let a view be private to its owner or shared with the whole team.
+--   * Remember one default view per user per grid type.
+
+begin;
+
+create table if not exists public.saved_views (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null references auth.users(id) on delete cascade,
+  grid_type text not null,
+  name text not null,
+  visibility text not null default 'private',
+  filters jsonb not null default '{}'::jsonb,
+  sorts jsonb not null default '[]'::jsonb,
+  column_order text[] not null default '{}',
+  hidden_columns text[] not null default '{}',
+  pinned_columns text[] not null default '{}',
+  column_widths jsonb not null default '{}'::jsonb,
+  hierarchy_node_id uuid references public.hierarchy_nodes(id) on delete set null,
+  archive_scope text not null default 'active',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint saved_views_grid_type_check check (grid_type in ('sale', 'rent', 'buyer', 'client')),
+  constraint saved_views_visibility_check check (visibility in ('private', 'team')),
+  constraint saved_views_archive_scope_check check (archive_scope in ('active', 'archived', 'all')),
+  constraint saved_views_name_not_blank check (length(btrim(name)) > 0)
+);
+
+create unique index if not exists idx_saved_views_owner_name on public.saved_views (owner_id, grid_type, lower(name));
+create index if not exists idx_saved_views_team on public.saved_views (grid_type) where visibility = 'team';
+
+drop trigger if exists trg_saved_views_updated_at on public.saved_views;
+create trigger trg_saved_views_updated_at
+before update on public.saved_views
+for each row execute function public.set_updated_at();
+
+create table if not exists public.saved_view_defaults (
+  user_id uuid not null references auth.users(id) on delete cascade,
+  grid_type text not null,
+  view_id uuid not null references public.saved_views(id) on delete cascade,
+  updated_at timestamptz not null default now(),
+  primary key (user_id, grid_type)
+);
+
+alter table public.saved_views enable row level security;
+alter table public.saved_view_defaults enable row level security;
+
+drop policy if exists saved_views_read on public.saved_views;
+create policy saved_views_read
+on public.saved_views
+for select
+using (owner_id = auth.uid() or visibility = 'team' or public.current_app_role() = 'admin');
+
+drop policy if exists saved_views_insert_own on public.saved_views;
+create policy saved_views_insert_own
+on public.saved_views
+for insert
+with check (owner_id = auth.uid());
+
+drop policy if exists saved_views_update_owner on public.saved_views;
+create policy saved_views_update_owner
+on public.saved_views
+for update
+using (owner_id = auth.uid() or public.current_app_role() = 'admin')
+with check (owner_id = auth.uid() or public.current_app_role() = 'admin');
+
+drop policy if exists saved_views_delete_owner on public.saved_views;
+create policy saved_views_delete_owner
+on public.saved_views
+for delete
+using (owner_id = auth.uid() or public.current_app_role() = 'admin');
+
+drop policy if exists saved_view_defaults_own on public.saved_view_defaults;
+create policy saved_view_defaults_own
+on public.saved_view_defaults
+for all
+using (user_id = auth.uid())
+with check (user_id = auth.uid());
+
+commit;
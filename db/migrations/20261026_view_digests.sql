@@ -0,0 +1,77 @@
+-- 2026-10-26: Scheduled grid digests
+--
+-- Goals:
+--   * Let managers subscribe to a grid filter set (or a saved view) and receive a daily summary.
+--   * Deliver through an outbound channel (email over SMTP, Telegram chat) at a local hour.
+--   * Keep a delivery log so failed sends are visible without reading server logs.
+
+begin;
+
+create table if not exists public.view_digest_subscriptions (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  grid_type text not null,
+  saved_view_id uuid references public.saved_views(id) on delete set null,
+  filters jsonb not null default '{}'::jsonb,
+  sorts jsonb not null default '[]'::jsonb,
+  hierarchy_node_id uuid references public.hierarchy_nodes(id) on delete set null,
+  archive_scope text not null default 'active',
+  channel text not null,
+  destination text not null,
+  send_hour smallint not null default 8,
+  timezone text not null default 'Africa/Cairo',
+  top_n smallint not null default 10,
+  is_active boolean not null default true,
+  last_run_at timestamptz,
+  last_status text,
+  last_error text,
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint view_digest_subscriptions_grid_type_check check (grid_type in ('sale', 'rent', 'buyer', 'client')),
+  constraint view_digest_subscriptions_archive_scope_check check (archive_scope in ('active', 'archived', 'all')),
+  constraint view_digest_subscriptions_channel_check check (channel in ('email', 'telegram')),
+  constraint view_digest_subscriptions_send_hour_check check (send_hour between 0 and 23),
+  constraint view_digest_subscriptions_top_n_check check (top_n between 1 and 50),
+  constraint view_digest_subscriptions_name_not_blank check (length(btrim(name)) > 0),
+  constraint view_digest_subscriptions_destination_not_blank check (length(btrim(destination)) > 0)
+);
+
+create index if not exists idx_view_digest_subscriptions_active on public.view_digest_subscriptions (is_active, send_hour);
+
+drop trigger if exists trg_view_digest_subscriptions_updated_at on public.view_digest_subscriptions;
+create trigger trg_view_digest_subscriptions_updated_at
+before update on public.view_digest_subscriptions
+for each row execute function public.set_updated_at();
+
+create table if not exists public.view_digest_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  subscription_id uuid not null references public.view_digest_subscriptions(id) on delete cascade,
+  channel text not null,
+  destination text not null,
+  status text not null,
+  total integer,
+  detail text,
+  created_at timestamptz not null default now(),
+  constraint view_digest_deliveries_status_check check (status in ('sent', 'failed', 'not_configured'))
+);
+
+create index if not exists idx_view_digest_deliveries_subscription on public.view_digest_deliveries (subscription_id, created_at desc);
+
+alter table public.view_digest_subscriptions enable row level security;
+alter table public.view_digest_deliveries enable row level security;
+
+drop policy if exists view_digest_subscriptions_admin on public.view_digest_subscriptions;
+create policy view_digest_subscriptions_admin
+on public.view_digest_subscriptions
+for all
+using (public.current_app_role() = 'admin')
+with check (public.current_app_role() = 'admin');
+
+drop policy if exists view_digest_deliveries_admin_read on public.view_digest_deliveries;
+create policy view_digest_deliveries_admin_read
+on public.view_digest_deliveries
+for select
+using (public.current_app_role() = 'admin');
+
+commit;
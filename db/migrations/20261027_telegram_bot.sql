@@ -0,0 +1,117 @@
+-- 2026-10-27: Telegram bot intake and task reminders
+--
+-- Goals:
+--   * Track each Telegram chat that talks to the bot and the intake session it is currently filling,
+--     so messages sent in quick succession (albums, text + photos) land in one session.
+--   * Let a CRM user link their Telegram chat with a one-time code and receive task reminders there.
+--   * Remember which tasks were already reminded so the reminder job never repeats itself.
+
+begin;
+
+create table if not exists public.telegram_chats (
+  chat_id bigint primary key,
+  chat_type text not null default 'private',
+  title text not null default '',
+  username text not null default '',
+  open_session_id uuid references public.intake_sessions(id) on delete set null,
+  last_media_group_id text,
+  last_message_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+drop trigger if exists trg_telegram_chats_updated_at on public.telegram_chats;
+create trigger trg_telegram_chats_updated_at
+before update on public.telegram_chats
+for each row execute function public.set_updated_at();
+
+create table if not exists public.telegram_user_links (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  chat_id bigint unique,
+  link_code text unique,
+  link_code_expires_at timestamptz,
+  linked_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+drop trigger if exists trg_telegram_user_links_updated_at on public.telegram_user_links;
+create trigger trg_telegram_user_links_updated_at
+before update on public.telegram_user_links
+for each row execute function public.set_updated_at();
+
+alter table public.tasks add column if not exists telegram_reminded_at timestamptz;
+create index if not exists idx_tasks_telegram_reminder on public.tasks (due_date) where status = 'open' and telegram_reminded_at is null;
+
+-- Appends to the chat's open draft session while it is inside the grouping window, otherwise opens a new one.
+-- The chat row is locked so concurrent webhook calls for one album cannot open two sessions.
+create or replace function public.telegram_claim_intake_session(
+  p_chat_id bigint,
+  p_text text,
+  p_window_seconds integer,
+  p_media_group_id text default null,
+  p_meta jsonb default '{}'::jsonb
+)
+returns table (session_id uuid, created boolean, same_media_group boolean)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_chat public.telegram_chats%rowtype;
+  v_session_id uuid;
+  v_text text := btrim(coalesce(p_text, ''));
+begin
+  insert into public.telegram_chats (chat_id) values (p_chat_id) on conflict (chat_id) do nothing;
+  select * into v_chat from public.telegram_chats where chat_id = p_chat_id for update;
+
+  if v_chat.open_session_id is not null
+    and v_chat.last_message_at > now() - make_interval(secs => p_window_seconds)
+    and exists (select 1 from public.intake_sessions s where s.id = v_chat.open_session_id and s.status = 'draft') then
+    v_session_id := v_chat.open_session_id;
+    if v_text <> '' then
+      update public.intake_sessions
+      set raw_text = case when btrim(raw_text) = '' then v_text else raw_text || E'\n\n' || v_text end
+      where id = v_session_id;
+    end if;
+    session_id := v_session_id;
+    created := false;
+    same_media_group := p_media_group_id is not null and p_media_group_id = v_chat.last_media_group_id;
+  else
+    insert into public.intake_sessions (raw_text, status, type_detected, type_confirmed, ai_json, ai_meta, completeness_score)
+    values (v_text, 'draft', '', '', '{}'::jsonb, coalesce(p_meta, '{}'::jsonb), 0)
+    returning id into v_session_id;
+    session_id := v_session_id;
+    created := true;
+    same_media_group := false;
+  end if;
+
+  update public.telegram_chats
+  set open_session_id = v_session_id,
+      last_media_group_id = coalesce(p_media_group_id, last_media_group_id),
+      last_message_at = now()
+  where chat_id = p_chat_id;
+
+  return next;
+end;
+$$;
+
+revoke all on function public.telegram_claim_intake_session(bigint, text, integer, text, jsonb) from public, anon, authenticated;
+grant execute on function public.telegram_claim_intake_session(bigint, text, integer, text, jsonb) to service_role;
+
+alter table public.telegram_chats enable row level security;
+alter table public.telegram_user_links enable row level security;
+
+drop policy if exists telegram_chats_admin_read on public.telegram_chats;
+create policy telegram_chats_admin_read
+on public.telegram_chats
+for select
+using (public.current_app_role() = 'admin');
+
+drop policy if exists telegram_user_links_own_read on public.telegram_user_links;
+create policy telegram_user_links_own_read
+on public.telegram_user_links
+for select
+using (user_id = auth.uid() or public.current_app_role() = 'admin');
+
+commit;
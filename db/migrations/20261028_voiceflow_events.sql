@@ -0,0 +1,40 @@
+-- 2026-10-28: Voiceflow outbound events
+--
+-- Goals:
+--   * Log every CRM event pushed to the Voiceflow endpoint (intake confirmed, record archived, task assigned).
+--   * Retry failed deliveries with backoff and keep the final state visible (sent, or dead after the last retry).
+
+begin;
+
+create table if not exists public.voiceflow_event_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  event text not null,
+  payload jsonb not null default '{}'::jsonb,
+  status text not null default 'pending',
+  attempts integer not null default 0,
+  response_status integer,
+  last_error text,
+  next_attempt_at timestamptz,
+  sent_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint voiceflow_event_deliveries_status_check check (status in ('pending', 'sent', 'failed', 'dead'))
+);
+
+create index if not exists idx_voiceflow_event_deliveries_retry on public.voiceflow_event_deliveries (next_attempt_at) where status = 'failed';
+create index if not exists idx_voiceflow_event_deliveries_created on public.voiceflow_event_deliveries (created_at desc);
+
+drop trigger if exists trg_voiceflow_event_deliveries_updated_at on public.voiceflow_event_deliveries;
+create trigger trg_voiceflow_event_deliveries_updated_at
+before update on public.voiceflow_event_deliveries
+for each row execute function public.set_updated_at();
+
+alter table public.voiceflow_event_deliveries enable row level security;
+
+drop policy if exists voiceflow_event_deliveries_admin_read on public.voiceflow_event_deliveries;
+create policy voiceflow_event_deliveries_admin_read
+on public.voiceflow_event_deliveries
+for select
+using (public.current_app_role() = 'admin');
+
+commit;
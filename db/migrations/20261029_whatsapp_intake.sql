@@ -0,0 +1,13 @@
+-- 2026-10-29: WhatsApp Cloud API intake
+--
+-- Goals:
+--   * Make WhatsApp intake idempotent: Meta redelivers webhooks until it gets a 2xx, so each message id
+--     (stored as ai_meta.external_id) may open at most one intake session, even under concurrent retries.
+
+begin;
+
+create unique index if not exists uq_intake_sessions_whatsapp_message
+on public.intake_sessions ((ai_meta->>'external_id'))
+where ai_meta->>'integration_source' = 'whatsapp' and ai_meta->>'external_id' is not null;
+
+commit;
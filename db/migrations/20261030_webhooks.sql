@@ -0,0 +1,123 @@
+-- 2026-10-30: Outbound webhook subscriptions
+--
+-- Goals:
+--   * Let admins register endpoint URLs for CRM events, each with its own signing secret.
+--   * Queue one delivery per subscriber and event, retried with exponential backoff and dead-lettered at the end.
+--   * Keep every HTTP attempt (status, truncated response, error, duration) for troubleshooting.
+
+begin;
+
+create table if not exists public.webhook_subscriptions (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  url text not null,
+  events text[] not null default '{}',
+  secret text not null,
+  is_active boolean not null default true,
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint webhook_subscriptions_url_check check (url ~* '^https?://'),
+  constraint webhook_subscriptions_events_check check (
+    events <@ array['record.created', 'record.updated', 'record.archived', 'record.deleted', 'intake.confirmed', 'task.completed', 'media.uploaded']::text[]
+  )
+);
+
+create index if not exists idx_webhook_subscriptions_events on public.webhook_subscriptions using gin (events) where is_active;
+
+drop trigger if exists trg_webhook_subscriptions_updated_at on public.webhook_subscriptions;
+create trigger trg_webhook_subscriptions_updated_at
+before update on public.webhook_subscriptions
+for each row execute function public.set_updated_at();
+
+create table if not exists public.webhook_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  subscription_id uuid not null references public.webhook_subscriptions(id) on delete cascade,
+  event_id uuid not null,
+  event text not null,
+  payload jsonb not null default '{}'::jsonb,
+  status text not null default 'pending',
+  attempts integer not null default 0,
+  next_attempt_at timestamptz default now(),
+  last_response_status integer,
+  last_error text,
+  delivered_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint webhook_deliveries_status_check check (status in ('pending', 'sent', 'failed', 'dead'))
+);
+
+create index if not exists idx_webhook_deliveries_due on public.webhook_deliveries (next_attempt_at) where status in ('pending', 'failed');
+create index if not exists idx_webhook_deliveries_subscription on public.webhook_deliveries (subscription_id, created_at desc);
+create index if not exists idx_webhook_deliveries_dead on public.webhook_deliveries (created_at desc) where status = 'dead';
+
+drop trigger if exists trg_webhook_deliveries_updated_at on public.webhook_deliveries;
+create trigger trg_webhook_deliveries_updated_at
+before update on public.webhook_deliveries
+for each row execute function public.set_updated_at();
+
+create table if not exists public.webhook_delivery_attempts (
+  id uuid primary key default gen_random_uuid(),
+  delivery_id uuid not null references public.webhook_deliveries(id) on delete cascade,
+  attempt integer not null,
+  response_status integer,
+  response_body text,
+  error text,
+  duration_ms integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_webhook_delivery_attempts_delivery on public.webhook_delivery_attempts (delivery_id, attempt);
+
+-- Hands out due deliveries to one dispatcher at a time: rows are locked with skip locked and leased for five
+-- minutes, so an overlapping scheduler run or a crashed dispatcher never double-sends or strands a delivery.
+create or replace function public.claim_webhook_deliveries(p_limit integer)
+returns setof public.webhook_deliveries
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  return query
+  update public.webhook_deliveries d
+  set next_attempt_at = now() + interval '5 minutes'
+  where d.id in (
+    select id
+    from public.webhook_deliveries
+    where status in ('pending', 'failed') and next_attempt_at <= now()
+    order by next_attempt_at
+    limit greatest(p_limit, 0)
+    for update skip locked
+  )
+  returning d.*;
+end;
+$$;
+
+revoke all on function public.claim_webhook_deliveries(integer) from public, anon, authenticated;
+grant execute on function public.claim_webhook_deliveries(integer) to service_role;
+
+alter table public.webhook_subscriptions enable row level security;
+alter table public.webhook_deliveries enable row level security;
+alter table public.webhook_delivery_attempts enable row level security;
+
+drop policy if exists webhook_subscriptions_admin on public.webhook_subscriptions;
+create policy webhook_subscriptions_admin
+on public.webhook_subscriptions
+for all
+using (public.current_app_role() = 'admin')
+with check (public.current_app_role() = 'admin');
+
+drop policy if exists webhook_deliveries_admin on public.webhook_deliveries;
+create policy webhook_deliveries_admin
+on public.webhook_deliveries
+for all
+using (public.current_app_role() = 'admin')
+with check (public.current_app_role() = 'admin');
+
+drop policy if exists webhook_delivery_attempts_admin_read on public.webhook_delivery_attempts;
+create policy webhook_delivery_attempts_admin_read
+on public.webhook_delivery_attempts
+for select
+using (public.current_app_role() = 'admin');
+
+commit;
@@ -0,0 +1,113 @@
+-- 2026-10-31: Scoped API keys
+--
+-- Goals:
+--   * Replace the shared INTEGRATION_KEY with one key per external system, stored only as a SHA-256 hash.
+--   * Give each key scopes, an optional expiry and a per-minute rate limit, and track when it was last used.
+--   * Check, count and stamp a key in one round trip so the rate limit holds across concurrent requests.
+
+begin;
+
+create table if not exists public.api_keys (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  key_prefix text not null,
+  key_hash text not null unique,
+  scopes text[] not null default '{}',
+  rate_limit_per_minute integer not null default 60,
+  expires_at timestamptz,
+  last_used_at timestamptz,
+  revoked_at timestamptz,
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint api_keys_scopes_check check (
+    cardinality(scopes) > 0 and scopes <@ array['intake:write', 'records:read', 'media:write', 'jobs:run']::text[]
+  ),
+  constraint api_keys_rate_limit_check check (rate_limit_per_minute between 1 and 10000)
+);
+
+drop trigger if exists trg_api_keys_updated_at on public.api_keys;
+create trigger trg_api_keys_updated_at
+before update on public.api_keys
+for each row execute function public.set_updated_at();
+
+-- Fixed one-minute windows; rows older than an hour are pruned by consume_api_key itself.
+create table if not exists public.api_key_rate_windows (
+  api_key_id uuid not null references public.api_keys(id) on delete cascade,
+  window_start timestamptz not null,
+  request_count integer not null default 0,
+  primary key (api_key_id, window_start)
+);
+
+-- Resolves a hashed key for one scope and counts the request against its current window. `status` is one of
+-- ok, invalid, revoked, expired, forbidden (scope missing) or rate_limited; only ok requests stamp last_used_at.
+create or replace function public.consume_api_key(p_key_hash text, p_scope text)
+returns table (api_key_id uuid, key_name text, status text, rate_limit integer, remaining integer, reset_at timestamptz)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_key public.api_keys%rowtype;
+  v_window timestamptz := date_trunc('minute', now());
+  v_count integer;
+begin
+  select * into v_key from public.api_keys k where k.key_hash = p_key_hash;
+  if not found then
+    status := 'invalid';
+    return next;
+    return;
+  end if;
+
+  api_key_id := v_key.id;
+  key_name := v_key.name;
+  rate_limit := v_key.rate_limit_per_minute;
+  reset_at := v_window + interval '1 minute';
+
+  if v_key.revoked_at is not null then
+    status := 'revoked';
+  elsif v_key.expires_at is not null and v_key.expires_at <= now() then
+    status := 'expired';
+  elsif not (p_scope = any(v_key.scopes)) then
+    status := 'forbidden';
+  end if;
+  if status is not null then
+    return next;
+    return;
+  end if;
+
+  insert into public.api_key_rate_windows as w (api_key_id, window_start, request_count)
+  values (v_key.id, v_window, 1)
+  on conflict (api_key_id, window_start) do update set request_count = w.request_count + 1
+  returning w.request_count into v_count;
+
+  remaining := greatest(v_key.rate_limit_per_minute - v_count, 0);
+  if v_count > v_key.rate_limit_per_minute then
+    status := 'rate_limited';
+    return next;
+    return;
+  end if;
+
+  update public.api_keys k set last_used_at = now() where k.id = v_key.id;
+  delete from public.api_key_rate_windows w where w.api_key_id = v_key.id and w.window_start < v_window - interval '1 hour';
+
+  status := 'ok';
+  return next;
+end;
+$$;
+
+revoke all on function public.consume_api_key(text, text) from public, anon, authenticated;
+grant execute on function public.consume_api_key(text, text) to service_role;
+
+alter table public.api_keys enable row level security;
+alter table public.api_key_rate_windows enable row level security;
+
+drop policy if exists api_keys_admin on public.api_keys;
+create policy api_keys_admin
+on public.api_keys
+for all
+using (public.current_app_role() = 'admin')
+with check (public.current_app_role() = 'admin');
+
+commit;
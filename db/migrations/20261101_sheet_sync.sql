@@ -0,0 +1,88 @@
+-- 2026-11-01: Two-way Google Sheets sync
+--
+-- Goals:
+--   * Remember what each record looked like at the last sync, per spreadsheet and dataset, so a run can tell
+--     which side edited a field since then.
+--   * Record every sync run with one outcome per row (pushed, pulled, conflict, ...).
+--   * Keep conflicts on their outcome row until an admin picks the CRM or the sheet version.
+
+begin;
+
+create table if not exists public.sheet_sync_snapshots (
+  spreadsheet_id text not null,
+  dataset text not null,
+  record_id uuid not null,
+  field_values jsonb not null default '{}'::jsonb,
+  record_updated_at timestamptz,
+  synced_at timestamptz not null default now(),
+  primary key (spreadsheet_id, dataset, record_id),
+  constraint sheet_sync_snapshots_dataset_check check (dataset in ('sale', 'rent', 'buyer', 'client'))
+);
+
+create table if not exists public.sheet_sync_runs (
+  id uuid primary key default gen_random_uuid(),
+  spreadsheet_id text not null,
+  dataset text not null,
+  tab_name text not null,
+  status text not null default 'running',
+  counts jsonb not null default '{}'::jsonb,
+  error text,
+  started_by uuid references auth.users(id) on delete set null,
+  started_at timestamptz not null default now(),
+  finished_at timestamptz,
+  constraint sheet_sync_runs_dataset_check check (dataset in ('sale', 'rent', 'buyer', 'client')),
+  constraint sheet_sync_runs_status_check check (status in ('running', 'completed', 'failed'))
+);
+
+-- One run at a time per spreadsheet and dataset; a second one would diff against a snapshot being rewritten.
+create unique index if not exists uq_sheet_sync_runs_running on public.sheet_sync_runs (spreadsheet_id, dataset) where status = 'running';
+create index if not exists idx_sheet_sync_runs_started on public.sheet_sync_runs (started_at desc);
+
+create table if not exists public.sheet_sync_row_outcomes (
+  id uuid primary key default gen_random_uuid(),
+  run_id uuid not null references public.sheet_sync_runs(id) on delete cascade,
+  record_id uuid,
+  code text not null default '',
+  sheet_row integer,
+  outcome text not null,
+  fields text[] not null default '{}',
+  detail jsonb not null default '{}'::jsonb,
+  resolution text,
+  resolved_by uuid references auth.users(id) on delete set null,
+  resolved_at timestamptz,
+  created_at timestamptz not null default now(),
+  constraint sheet_sync_row_outcomes_outcome_check check (
+    outcome in ('unchanged', 'pushed', 'pulled', 'merged', 'added_to_sheet', 'conflict', 'skipped', 'error')
+  ),
+  constraint sheet_sync_row_outcomes_resolution_check check (resolution is null or resolution in ('crm', 'sheet'))
+);
+
+create index if not exists idx_sheet_sync_row_outcomes_run on public.sheet_sync_row_outcomes (run_id, outcome);
+create index if not exists idx_sheet_sync_row_outcomes_open_conflicts on public.sheet_sync_row_outcomes (run_id) where outcome = 'conflict' and resolved_at is null;
+
+alter table public.sheet_sync_snapshots enable row level security;
+alter table public.sheet_sync_runs enable row level security;
+alter table public.sheet_sync_row_outcomes enable row level security;
+
+drop policy if exists sheet_sync_snapshots_admin on public.sheet_sync_snapshots;
+create policy sheet_sync_snapshots_admin
+on public.sheet_sync_snapshots
+for all
+using (public.current_app_role() = 'admin')
+with check (public.current_app_role() = 'admin');
+
+drop policy if exists sheet_sync_runs_admin on public.sheet_sync_runs;
+create policy sheet_sync_runs_admin
+on public.sheet_sync_runs
+for all
+using (public.current_app_role() = 'admin')
+with check (public.current_app_role() = 'admin');
+
+drop policy if exists sheet_sync_row_outcomes_admin on public.sheet_sync_row_outcomes;
+create policy sheet_sync_row_outcomes_admin
+on public.sheet_sync_row_outcomes
+for all
+using (public.current_app_role() = 'admin')
+with check (public.current_app_role() = 'admin');
+
+commit;
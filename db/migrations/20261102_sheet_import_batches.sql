@@ -0,0 +1,52 @@
+-- 2026-11-02: Google Sheets import batches and rollback
+--
+-- Goals:
+--   * Record every Sheets import as a batch with its validation summary.
+--   * Stamp the batch id on every intake session it creates, and on records confirmed from those sessions,
+--     so a bad import can be rolled back in one action.
+
+begin;
+
+create table if not exists public.sheet_import_batches (
+  id uuid primary key default gen_random_uuid(),
+  spreadsheet_id text not null,
+  dataset text not null,
+  tab_name text not null,
+  status text not null default 'imported',
+  row_count integer not null default 0,
+  created_count integer not null default 0,
+  skipped_count integer not null default 0,
+  summary jsonb not null default '{}'::jsonb,
+  rollback_counts jsonb not null default '{}'::jsonb,
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  rolled_back_by uuid references auth.users(id) on delete set null,
+  rolled_back_at timestamptz,
+  constraint sheet_import_batches_dataset_check check (dataset in ('sale', 'rent', 'buyer', 'client')),
+  constraint sheet_import_batches_status_check check (status in ('imported', 'rolled_back'))
+);
+
+create index if not exists idx_sheet_import_batches_created on public.sheet_import_batches (created_at desc);
+
+alter table public.intake_sessions add column if not exists import_batch_id uuid references public.sheet_import_batches(id) on delete set null;
+alter table public.properties_sale add column if not exists import_batch_id uuid references public.sheet_import_batches(id) on delete set null;
+alter table public.properties_rent add column if not exists import_batch_id uuid references public.sheet_import_batches(id) on delete set null;
+alter table public.buyers add column if not exists import_batch_id uuid references public.sheet_import_batches(id) on delete set null;
+alter table public.clients add column if not exists import_batch_id uuid references public.sheet_import_batches(id) on delete set null;
+
+create index if not exists idx_intake_sessions_import_batch on public.intake_sessions (import_batch_id) where import_batch_id is not null;
+create index if not exists idx_properties_sale_import_batch on public.properties_sale (import_batch_id) where import_batch_id is not null;
+create index if not exists idx_properties_rent_import_batch on public.properties_rent (import_batch_id) where import_batch_id is not null;
+create index if not exists idx_buyers_import_batch on public.buyers (import_batch_id) where import_batch_id is not null;
+create index if not exists idx_clients_import_batch on public.clients (import_batch_id) where import_batch_id is not null;
+
+alter table public.sheet_import_batches enable row level security;
+
+drop policy if exists sheet_import_batches_admin on public.sheet_import_batches;
+create policy sheet_import_batches_admin
+on public.sheet_import_batches
+for all
+using (public.current_app_role() = 'admin')
+with check (public.current_app_role() = 'admin');
+
+commit;
@@ -0,0 +1,21 @@
+-- 2026-11-03: CSV and XLSX file imports
+--
+-- Goals:
+--   * Record uploaded-file imports as import batches next to Google Sheets imports, so the same report and
+--     rollback apply to both.
+
+begin;
+
+alter table public.sheet_import_batches add column if not exists source text not null default 'google_sheets';
+alter table public.sheet_import_batches add column if not exists file_name text;
+alter table public.sheet_import_batches alter column spreadsheet_id drop not null;
+
+alter table public.sheet_import_batches drop constraint if exists sheet_import_batches_source_check;
+alter table public.sheet_import_batches add constraint sheet_import_batches_source_check check (
+  (source = 'google_sheets' and spreadsheet_id is not null)
+  or (source = 'file' and file_name is not null)
+);
+
+create index if not exists idx_sheet_import_batches_source on public.sheet_import_batches (source, created_at desc);
+
+commit;
@@ -0,0 +1,14 @@
+-- 2026-11-04: Processed image uploads
+--
+-- Goals:
+--   * Record the pixel size of stored images (after EXIF orientation is applied).
+--   * Record the thumbnail and web-sized WebP variants generated next to each image, so grids and the viewer can
+--     load a small file instead of the original.
+
+begin;
+
+alter table public.media add column if not exists width integer;
+alter table public.media add column if not exists height integer;
+alter table public.media add column if not exists variants jsonb not null default '{}'::jsonb;
+
+commit;
@@ -0,0 +1,33 @@
+-- 2026-11-05: Watermarks for listing photos shared outside the CRM
+--
+-- Goals:
+--   * Keep watermark settings (logo, position, opacity, caption template) per hierarchy root, so sale and rent
+--     listings can be branded differently.
+--   * Watermarked copies are stored as `media.variants.watermarked`; originals are never changed.
+
+begin;
+
+create table if not exists public.media_watermark_settings (
+  root_node_id uuid primary key references public.hierarchy_nodes(id) on delete cascade,
+  enabled boolean not null default false,
+  logo_path text,
+  logo_url text,
+  position text not null default 'bottom_right',
+  opacity numeric(3, 2) not null default 0.5,
+  text_template text not null default '{code}',
+  updated_by uuid references auth.users(id) on delete set null,
+  updated_at timestamptz not null default now(),
+  constraint media_watermark_settings_position_check check (position in ('top_left', 'top_right', 'bottom_left', 'bottom_right', 'center')),
+  constraint media_watermark_settings_opacity_check check (opacity >= 0.05 and opacity <= 1)
+);
+
+alter table public.media_watermark_settings enable row level security;
+
+drop policy if exists media_watermark_settings_admin on public.media_watermark_settings;
+create policy media_watermark_settings_admin
+on public.media_watermark_settings
+for all
+using (public.current_app_role() = 'admin')
+with check (public.current_app_role() = 'admin');
+
+commit;
@@ -0,0 +1,54 @@
+-- 2026-11-06: Private media
+--
+-- Goals:
+--   * Record where each media file is stored (bucket + path) so files can be served without a public URL.
+--   * Backfill both columns for existing rows from their Supabase storage URLs.
+--   * Allow file_url to be empty: with MEDIA_ACCESS=private new uploads store only their storage location.
+--   * Clear the public file_url of backfilled rows so old bucket URLs are no longer handed out.
+--
+-- After switching to MEDIA_ACCESS=private, make the buckets private as well:
+--   update storage.buckets set public = false where id in ('media', 'crm-media');
+
+begin;
+
+alter table public.media add column if not exists storage_path text;
+alter table public.media add column if not exists storage_bucket text;
+alter table public.media alter column file_url drop not null;
+
+-- Storage URLs percent-encode their path (spaces, non-ASCII file names); the stored path is the decoded one.
+create or replace function pg_temp.decode_url_path(p_value text)
+returns text
+language sql
+immutable
+as $$
+  select convert_from(
+    string_agg(
+      case
+        when m.token[1] ~ '^%[0-9A-Fa-f]{2}$' then decode(substr(m.token[1], 2), 'hex')
+        else convert_to(m.token[1], 'UTF8')
+      end,
+      ''::bytea order by m.ord
+    ),
+    'UTF8'
+  )
+  from regexp_matches(p_value, '%[0-9A-Fa-f]{2}|[^%]+|%', 'g') with ordinality as m(token, ord)
+$$;
+
+update public.media
+set
+  storage_bucket = coalesce(storage_bucket, substring(file_url from '/object/(?:public|sign|authenticated)/([^/?]+)/')),
+  storage_path = coalesce(
+    storage_path,
+    nullif(pg_temp.decode_url_path(substring(file_url from '/object/(?:public|sign|authenticated)/[^/?]+/([^?]+)')), '')
+  )
+where file_url ~ '/object/(public|sign|authenticated)/'
+  and (storage_bucket is null or storage_path is null);
+
+-- Rows are served from their storage location from now on; URLs that could not be parsed are kept as the only locator.
+update public.media
+set file_url = null
+where file_url is not null
+  and storage_bucket is not null
+  and storage_path is not null;
+
+commit;
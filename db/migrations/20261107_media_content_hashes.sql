@@ -0,0 +1,105 @@
+-- 2026-11-07: Media deduplication by content hash
+--
+-- Goals:
+--   * Store a SHA-256 of every upload and a 64-bit perceptual hash (dHash, 16 hex characters) of every image.
+--   * Find exact and near-identical media so repeated WhatsApp forwards and webhook intakes can reuse stored files.
+--   * Let several media rows point at the same storage object ("link existing"); storage is only removed with the
+--     last row that uses it.
+
+begin;
+
+alter table public.media add column if not exists content_sha256 text;
+alter table public.media add column if not exists perceptual_hash text;
+
+alter table public.media drop constraint if exists media_perceptual_hash_format;
+alter table public.media add constraint media_perceptual_hash_format check (perceptual_hash is null or perceptual_hash ~ '^[0-9a-f]{16}$');
+
+create index if not exists idx_media_content_sha256 on public.media(content_sha256) where content_sha256 is not null;
+create index if not exists idx_media_storage_location on public.media(storage_bucket, storage_path) where storage_path is not null;
+
+-- Exact matches first, then images by increasing Hamming distance. Near matches scan the hashed images, which is
+-- fine at CRM scale; runs as the caller so media RLS still applies.
+create or replace function public.find_media_duplicates(
+  p_content_sha256 text,
+  p_perceptual_hash text,
+  p_max_distance integer default 6,
+  p_exclude_ids uuid[] default '{}',
+  p_limit integer default 5,
+  p_exclude_storage_path text default null
+)
+returns table (
+  media_id uuid,
+  original_filename text,
+  record_type text,
+  record_id uuid,
+  intake_session_id uuid,
+  created_at timestamptz,
+  exact boolean,
+  distance integer
+)
+language sql
+stable
+set search_path = public
+as $$
+  select *
+  from (
+    select
+      m.id as media_id,
+      m.original_filename,
+      m.record_type::text as record_type,
+      m.record_id,
+      m.intake_session_id,
+      m.created_at,
+      (p_content_sha256 is not null and m.content_sha256 = p_content_sha256) as exact,
+      case
+        when p_content_sha256 is not null and m.content_sha256 = p_content_sha256 then 0
+        when p_perceptual_hash is not null and m.perceptual_hash is not null
+          then bit_count(('x' || m.perceptual_hash)::bit(64) # ('x' || p_perceptual_hash)::bit(64))::integer
+      end as distance
+    from public.media m
+    where not (m.id = any(p_exclude_ids))
+      -- Rows already linked to the same stored file are the same upload, not a duplicate of it.
+      and (p_exclude_storage_path is null or m.storage_path is distinct from p_exclude_storage_path)
+      and (
+        (p_content_sha256 is not null and m.content_sha256 = p_content_sha256)
+        or (p_perceptual_hash is not null and m.perceptual_hash is not null)
+      )
+  ) candidates
+  where candidates.distance is not null and candidates.distance <= p_max_distance
+  order by candidates.exact desc, candidates.distance asc, candidates.created_at asc
+  limit greatest(p_limit, 1);
+$$;
+
+grant execute on function public.find_media_duplicates(text, text, integer, uuid[], integer, text) to authenticated;
+
+-- The same lookup for stored media, one call for a whole grid or intake session.
+create or replace function public.find_media_duplicates_for_media(
+  p_media_ids uuid[],
+  p_max_distance integer default 6,
+  p_limit integer default 3
+)
+returns table (
+  source_media_id uuid,
+  media_id uuid,
+  original_filename text,
+  record_type text,
+  record_id uuid,
+  intake_session_id uuid,
+  created_at timestamptz,
+  exact boolean,
+  distance integer
+)
+language sql
+stable
+set search_path = public
+as $$
+  select s.id, d.*
+  from public.media s
+  cross join lateral public.find_media_duplicates(s.content_sha256, s.perceptual_hash, p_max_distance, array[s.id], p_limit, s.storage_path) d
+  where s.id = any(p_media_ids)
+    and (s.content_sha256 is not null or s.perceptual_hash is not null);
+$$;
+
+grant execute on function public.find_media_duplicates_for_media(uuid[], integer, integer) to authenticated;
+
+commit;
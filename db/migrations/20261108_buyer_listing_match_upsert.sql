@@ -0,0 +1,25 @@
+-- 2026-11-08: Batched match feed writes
+--
+-- Goals:
+--   * Let a feed refresh write all its pairs with one upsert. PostgREST's on_conflict cannot target the partial
+--     unique indexes, so they become unique constraints; NULL listing ids never collide, so uniqueness is unchanged.
+--   * Stamp notified_at on insert, since the upsert only sends scores and leaves existing pairs' columns alone.
+
+begin;
+
+alter table public.buyer_listing_matches
+  drop constraint if exists buyer_listing_matches_buyer_sale_unique;
+alter table public.buyer_listing_matches
+  add constraint buyer_listing_matches_buyer_sale_unique unique (buyer_id, sale_id);
+
+alter table public.buyer_listing_matches
+  drop constraint if exists buyer_listing_matches_buyer_rent_unique;
+alter table public.buyer_listing_matches
+  add constraint buyer_listing_matches_buyer_rent_unique unique (buyer_id, rent_id);
+
+drop index if exists public.idx_buyer_listing_matches_sale_unique;
+drop index if exists public.idx_buyer_listing_matches_rent_unique;
+
+alter table public.buyer_listing_matches alter column notified_at set default now();
+
+commit;
@@ -0,0 +1,110 @@
+-- 2026-11-09: Duplicate listings by any contact phone
+--
+-- Goals:
+--   * Match the intake phone against every phone and WhatsApp channel of a listing's contact, not only contacts.phone.
+--   * Return the channel that matched as contact_phone, so the review step scores and shows the number that matched.
+--   * Rank phone matches first: a shared owner number outweighs area and compound similarity.
+--   * Compare normalized E.164 values by equality, so the lookup uses idx_contact_channels_normalized_value.
+
+begin;
+
+create or replace function public.find_listing_duplicate_candidates(
+  p_listing_type text,
+  p_area text default '',
+  p_compound text default '',
+  p_contact_phone text default '',
+  p_bedrooms int default null,
+  p_limit int default 25
+)
+returns table (
+  id uuid,
+  code text,
+  status text,
+  price numeric,
+  currency text,
+  size_sqm numeric,
+  bedrooms int,
+  area text,
+  compound text,
+  floor int,
+  contact_phone text,
+  updated_at timestamptz,
+  area_similarity real,
+  compound_similarity real
+)
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  v_area text := lower(trim(coalesce(p_area, '')));
+  v_compound text := lower(trim(coalesce(p_compound, '')));
+  v_phone text := public.normalize_phone_e164(p_contact_phone);
+  v_phone_contact_ids uuid[];
+  v_limit int := least(greatest(coalesce(p_limit, 25), 1), 100);
+begin
+  if p_listing_type not in ('sale', 'rent') then
+    raise exception 'Invalid listing type: %', p_listing_type;
+  end if;
+
+  v_phone_contact_ids := array(
+    select distinct cc.contact_id
+    from public.contact_channels cc
+    where v_phone <> ''
+      and cc.normalized_value = v_phone
+      and cc.type in ('phone', 'whatsapp')
+  );
+
+  if p_listing_type = 'sale' then
+    return query
+      select
+        l.id, l.code, l.status, l.price, l.currency, l.size_sqm, l.bedrooms, l.area, l.compound, l.floor,
+        case when l.contact_id = any(v_phone_contact_ids) then v_phone else c.phone end as contact_phone,
+        l.updated_at,
+        case when v_area = '' or l.area = '' then 0::real else similarity(lower(l.area), v_area) end as area_similarity,
+        case when v_compound = '' or l.compound = '' then 0::real else similarity(lower(l.compound), v_compound) end as compound_similarity
+      from public.properties_sale l
+      left join public.contacts c on c.id = l.contact_id
+      where l.is_archived = false
+        and (
+          (v_area <> '' and lower(l.area) % v_area)
+          or (v_compound <> '' and lower(l.compound) % v_compound)
+          or l.contact_id = any(v_phone_contact_ids)
+          or (v_phone <> '' and c.phone = v_phone)
+        )
+        and (p_bedrooms is null or l.bedrooms is null or abs(l.bedrooms - p_bedrooms) <= 1)
+      order by coalesce(l.contact_id = any(v_phone_contact_ids) or (v_phone <> '' and c.phone = v_phone), false) desc, greatest(
+        case when v_area = '' or l.area = '' then 0::real else similarity(lower(l.area), v_area) end,
+        case when v_compound = '' or l.compound = '' then 0::real else similarity(lower(l.compound), v_compound) end
+      ) desc, l.updated_at desc
+      limit v_limit;
+  else
+    return query
+      select
+        l.id, l.code, l.status, l.price, l.currency, l.size_sqm, l.bedrooms, l.area, l.compound, l.floor,
+        case when l.contact_id = any(v_phone_contact_ids) then v_phone else c.phone end as contact_phone,
+        l.updated_at,
+        case when v_area = '' or l.area = '' then 0::real else similarity(lower(l.area), v_area) end as area_similarity,
+        case when v_compound = '' or l.compound = '' then 0::real else similarity(lower(l.compound), v_compound) end as compound_similarity
+      from public.properties_rent l
+      left join public.contacts c on c.id = l.contact_id
+      where l.is_archived = false
+        and (
+          (v_area <> '' and lower(l.area) % v_area)
+          or (v_compound <> '' and lower(l.compound) % v_compound)
+          or l.contact_id = any(v_phone_contact_ids)
+          or (v_phone <> '' and c.phone = v_phone)
+        )
+        and (p_bedrooms is null or l.bedrooms is null or abs(l.bedrooms - p_bedrooms) <= 1)
+      order by coalesce(l.contact_id = any(v_phone_contact_ids) or (v_phone <> '' and c.phone = v_phone), false) desc, greatest(
+        case when v_area = '' or l.area = '' then 0::real else similarity(lower(l.area), v_area) end,
+        case when v_compound = '' or l.compound = '' then 0::real else similarity(lower(l.compound), v_compound) end
+      ) desc, l.updated_at desc
+      limit v_limit;
+  end if;
+end;
+$$;
+
+grant execute on function public.find_listing_duplicate_candidates(text, text, text, text, int, int) to authenticated;
+
+commit;
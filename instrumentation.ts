@@ -0,0 +1,6 @@
+/** Runs once when the server starts; misconfigured media storage should stop the boot, not fail the first upload. */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+  const { getMediaStorageConfig } = await import("@/lib/env");
+  getMediaStorageConfig();
+}
@@ -0,0 +1,64 @@
+export const API_KEY_SCOPES = ["intake:write", "records:read", "media:write", "jobs:run"] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export const API_KEY_SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  "intake:write": "Create draft intakes (intake webhook, Voiceflow transcripts)",
+  "records:read": "Read listings through the public API",
+  "media:write": "Upload media",
+  "jobs:run": "Trigger scheduled jobs (digests, reminders, webhook dispatch, retries)"
+};
+
+export type ApiKey = {
+  id: string;
+  name: string;
+  key_prefix: string;
+  scopes: ApiKeyScope[];
+  rate_limit_per_minute: number;
+  expires_at: string | null;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_by: string | null;
+  created_at: string;
+};
+
+// Keys look like `crm_<8 char id>_<secret>`; the first 12 characters are stored in clear so admins can tell keys apart.
+export const API_KEY_TOKEN_PREFIX = "crm_";
+export const API_KEY_DISPLAY_LENGTH = 12;
+export const API_KEY_DEFAULT_RATE_LIMIT = 60;
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return API_KEY_SCOPES.includes(value as ApiKeyScope);
+}
+
+/**
+ * Reads the key from `X-Api-Key`, an `Authorization: Bearer` header, or the older `X-Integration-Key` header so
+ * existing schedulers only need their value swapped. Anything without the `crm_` prefix is ignored.
+ */
+export function extractApiKey(headers: Headers) {
+  const authorization = headers.get("authorization") || "";
+  const bearer = authorization.toLowerCase().startsWith("bearer ") ? authorization.slice(7) : "";
+  const candidates = [headers.get("x-api-key"), bearer, headers.get("x-integration-key")];
+  for (const candidate of candidates) {
+    const value = (candidate || "").trim();
+    if (value.startsWith(API_KEY_TOKEN_PREFIX)) return value;
+  }
+  return null;
+}
+
+/** Scopes the deprecated shared `INTEGRATION_KEY` still grants: the routes it guarded before API keys existed. */
+export const LEGACY_INTEGRATION_KEY_SCOPES: readonly ApiKeyScope[] = ["intake:write", "jobs:run"];
+
+/** The `X-Integration-Key` value when it is not an API key, i.e. a caller still sending the old shared secret. */
+export function extractLegacyIntegrationKey(headers: Headers) {
+  const value = (headers.get("x-integration-key") || "").trim();
+  return value && !value.startsWith(API_KEY_TOKEN_PREFIX) ? value : null;
+}
+
+export type ApiKeyStatus = "active" | "revoked" | "expired";
+
+export function apiKeyStatus(key: Pick<ApiKey, "revoked_at" | "expires_at">, now = new Date()): ApiKeyStatus {
+  if (key.revoked_at) return "revoked";
+  if (key.expires_at && new Date(key.expires_at).getTime() <= now.getTime()) return "expired";
+  return "active";
+}
@@ -0,0 +1,34 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { normalizeContactChannelValue, normalizePhoneE164, phoneLookupVariants } from "@/lib/contact-channels";
+
+test("Egyptian national mobile numbers become +20 E.164", () => {
+  assert.equal(normalizePhoneE164("010 1234 5678"), "+201012345678");
+  assert.equal(normalizePhoneE164("0112-345-6789"), "+201123456789");
+  assert.equal(normalizePhoneE164("1012345678"), "+201012345678");
+  assert.equal(normalizePhoneE164("201012345678"), "+201012345678");
+});
+
+test("international prefixes are kept", () => {
+  assert.equal(normalizePhoneE164("+20 10 1234 5678"), "+201012345678");
+  assert.equal(normalizePhoneE164("00201012345678"), "+201012345678");
+  assert.equal(normalizePhoneE164("+971 50 123 4567"), "+971501234567");
+});
+
+test("landlines drop the trunk zero and invalid input is rejected", () => {
+  assert.equal(normalizePhoneE164("02 2345 6789"), "+20223456789");
+  assert.equal(normalizePhoneE164("12345"), "");
+  assert.equal(normalizePhoneE164(""), "");
+});
+
+test("channel values normalize per type", () => {
+  assert.equal(normalizeContactChannelValue("whatsapp", "01012345678"), "+201012345678");
+  assert.equal(normalizeContactChannelValue("email", " Owner@Example.COM "), "owner@example.com");
+  assert.equal(normalizeContactChannelValue("email", "not-an-email"), "");
+  assert.equal(normalizeContactChannelValue("telegram", "@OwnerName"), "ownername");
+});
+
+test("phone lookup variants cover national and international spellings", () => {
+  assert.deepEqual(phoneLookupVariants("01012345678").sort(), ["+201012345678", "00201012345678", "01012345678", "201012345678"].sort());
+  assert.deepEqual(phoneLookupVariants("abc"), []);
+});
@@ -0,0 +1,65 @@
+export const CONTACT_CHANNEL_TYPES = ["phone", "whatsapp", "email", "telegram"] as const;
+
+export type ContactChannelType = (typeof CONTACT_CHANNEL_TYPES)[number];
+
+export type ContactChannel = {
+  id: string;
+  contact_id: string;
+  type: ContactChannelType;
+  value: string;
+  normalized_value: string;
+  is_primary: boolean;
+  verified: boolean;
+  created_at: string;
+  updated_at: string;
+};
+
+export type ContactChannelInput = {
+  type: ContactChannelType;
+  value: string;
+  is_primary?: boolean;
+  verified?: boolean;
+};
+
+const EGYPT_COUNTRY_CODE = "20";
+
+/**
+ * Normalizes a phone number to E.164, assuming Egypt for national formats:
+ * 01x mobiles and 0x landlines drop the trunk 0 and gain +20, and a leading 00 is read as "+".
+ * Returns "" when the input cannot be a phone number.
+ */
+export function normalizePhoneE164(value: unknown) {
+  const raw = String(value ?? "").trim();
+  if (!raw) return "";
+
+  const hasPlus = raw.startsWith("+");
+  let digits = raw.replace(/\D/g, "");
+  if (!hasPlus && digits.startsWith("00")) digits = digits.slice(2);
+  else if (!hasPlus && /^0[1-9]\d{7,9}$/.test(digits)) digits = `${EGYPT_COUNTRY_CODE}${digits.slice(1)}`;
+  else if (!hasPlus && /^1[0125]\d{8}$/.test(digits)) digits = `${EGYPT_COUNTRY_CODE}${digits}`;
+
+  if (digits.length < 8 || digits.length > 15) return "";
+  return `+${digits}`;
+}
+
+export function normalizeContactChannelValue(type: ContactChannelType, value: unknown) {
+  const raw = String(value ?? "").trim();
+  if (type === "phone" || type === "whatsapp") return normalizePhoneE164(raw);
+  if (type === "email") return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(raw) ? raw.toLowerCase() : "";
+  if (type === "telegram") return raw.replace(/^@/, "").replace(/^https?:\/\/t\.me\//i, "").toLowerCase();
+  return raw;
+}
+
+export function isContactChannelType(value: unknown): value is ContactChannelType {
+  return CONTACT_CHANNEL_TYPES.includes(value as ContactChannelType);
+}
+
+/** Spellings an E.164 number is commonly stored as in raw intake data (e.g. `intake_sessions.ai_json`). */
+export function phoneLookupVariants(value: unknown) {
+  const e164 = normalizePhoneE164(value);
+  if (!e164) return [] as string[];
+  const digits = e164.slice(1);
+  const variants = new Set([e164, digits, `00${digits}`]);
+  if (digits.startsWith(EGYPT_COUNTRY_CODE)) variants.add(`0${digits.slice(EGYPT_COUNTRY_CODE.length)}`);
+  return Array.from(variants);
+}
@@ -10,7 +10,39 @@ const optionalEnvSchema = z.object({
   INTEGRATION_KEY: z.string().min(1).optional(),
   GOOGLE_SERVICE_ACCOUNT_EMAIL: z.string().email().optional(),
   GOOGLE_PRIVATE_KEY: z.string().optional(),
-  GOOGLE_SHEETS_SPREADSHEET_ID: z.string().optional()
+  GOOGLE_SHEETS_SPREADSHEET_ID: z.string().optional(),
+  APP_BASE_URL: z.string().url().optional(),
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z.string().optional(),
+  SMTP_SECURE: z.string().optional(),
+  SMTP_USER: z.string().optional(),
+  SMTP_PASSWORD: z.string().optional(),
+  SMTP_FROM: z.string().optional(),
+  TELEGRAM_BOT_TOKEN: z.string().optional(),
+  TELEGRAM_API_BASE_URL: z.string().url().optional(),
+  TELEGRAM_WEBHOOK_SECRET: z.string().optional(),
+  TELEGRAM_BOT_USERNAME: z.string().optional(),
+  VOICEFLOW_EVENTS_URL: z.string().url().optional(),
+  VOICEFLOW_API_KEY: z.string().optional(),
+  WHATSAPP_VERIFY_TOKEN: z.string().optional(),
+  WHATSAPP_APP_SECRET: z.string().optional(),
+  WHATSAPP_ACCESS_TOKEN: z.string().optional(),
+  WHATSAPP_PHONE_NUMBER_ID: z.string().optional(),
+  WHATSAPP_API_BASE_URL: z.string().url().optional(),
+  MEDIA_STORAGE_PROVIDER: z.string().optional(),
+  MEDIA_LOCAL_ROOT: z.string().optional(),
+  MEDIA_SIGNING_SECRET: z.string().optional(),
+  SUPABASE_MEDIA_BUCKET: z.string().optional(),
+  S3_ENDPOINT: z.string().url().optional(),
+  S3_REGION: z.string().optional(),
+  S3_BUCKET: z.string().optional(),
+  S3_ACCESS_KEY_ID: z.string().optional(),
+  S3_SECRET_ACCESS_KEY: z.string().optional(),
+  S3_PUBLIC_BASE_URL: z.string().url().optional(),
+  S3_FORCE_PATH_STYLE: z.string().optional(),
+  MEDIA_ACCESS: z.string().optional(),
+  MEDIA_SIGNED_URL_TTL_SECONDS: z.string().optional(),
+  MEDIA_PUBLIC_API_URL_TTL_SECONDS: z.string().optional()
 });
 
 export type RuntimeEnv = z.infer<typeof requiredEnvSchema> & z.infer<typeof optionalEnvSchema>;
@@ -23,7 +55,39 @@ function rawEnv() {
     INTEGRATION_KEY: process.env.INTEGRATION_KEY,
     GOOGLE_SERVICE_ACCOUNT_EMAIL: process.env.GOOGLE_SERVICE_ACCOUNT_EMAIL,
     GOOGLE_PRIVATE_KEY: process.env.GOOGLE_PRIVATE_KEY,
-    GOOGLE_SHEETS_SPREADSHEET_ID: process.env.GOOGLE_SHEETS_SPREADSHEET_ID
+    GOOGLE_SHEETS_SPREADSHEET_ID: process.env.GOOGLE_SHEETS_SPREADSHEET_ID,
+    APP_BASE_URL: process.env.APP_BASE_URL || undefined,
+    SMTP_HOST: process.env.SMTP_HOST,
+    SMTP_PORT: process.env.SMTP_PORT,
+    SMTP_SECURE: process.env.SMTP_SECURE,
+    SMTP_USER: process.env.SMTP_USER,
+    SMTP_PASSWORD: process.env.SMTP_PASSWORD,
+    SMTP_FROM: process.env.SMTP_FROM,
+    TELEGRAM_BOT_TOKEN: process.env.TELEGRAM_BOT_TOKEN,
+    TELEGRAM_API_BASE_URL: process.env.TELEGRAM_API_BASE_URL || undefined,
+    TELEGRAM_WEBHOOK_SECRET: process.env.TELEGRAM_WEBHOOK_SECRET,
+    TELEGRAM_BOT_USERNAME: process.env.TELEGRAM_BOT_USERNAME,
+    VOICEFLOW_EVENTS_URL: process.env.VOICEFLOW_EVENTS_URL || undefined,
+    VOICEFLOW_API_KEY: process.env.VOICEFLOW_API_KEY,
+    WHATSAPP_VERIFY_TOKEN: process.env.WHATSAPP_VERIFY_TOKEN,
+    WHATSAPP_APP_SECRET: process.env.WHATSAPP_APP_SECRET,
+    WHATSAPP_ACCESS_TOKEN: process.env.WHATSAPP_ACCESS_TOKEN,
+    WHATSAPP_PHONE_NUMBER_ID: process.env.WHATSAPP_PHONE_NUMBER_ID,
+    WHATSAPP_API_BASE_URL: process.env.WHATSAPP_API_BASE_URL || undefined,
+    MEDIA_STORAGE_PROVIDER: process.env.MEDIA_STORAGE_PROVIDER || undefined,
+    MEDIA_LOCAL_ROOT: process.env.MEDIA_LOCAL_ROOT,
+    MEDIA_SIGNING_SECRET: process.env.MEDIA_SIGNING_SECRET,
+    SUPABASE_MEDIA_BUCKET: process.env.SUPABASE_MEDIA_BUCKET,
+    S3_ENDPOINT: process.env.S3_ENDPOINT || undefined,
+    S3_REGION: process.env.S3_REGION,
+    S3_BUCKET: process.env.S3_BUCKET,
+    S3_ACCESS_KEY_ID: process.env.S3_ACCESS_KEY_ID,
+    S3_SECRET_ACCESS_KEY: process.env.S3_SECRET_ACCESS_KEY,
+    S3_PUBLIC_BASE_URL: process.env.S3_PUBLIC_BASE_URL || undefined,
+    S3_FORCE_PATH_STYLE: process.env.S3_FORCE_PATH_STYLE,
+    MEDIA_ACCESS: process.env.MEDIA_ACCESS,
+    MEDIA_SIGNED_URL_TTL_SECONDS: process.env.MEDIA_SIGNED_URL_TTL_SECONDS,
+    MEDIA_PUBLIC_API_URL_TTL_SECONDS: process.env.MEDIA_PUBLIC_API_URL_TTL_SECONDS
   };
 }
 
@@ -51,7 +115,145 @@ export function getEnvSafe() {
   }
 }
 
+/** @deprecated Shared secret from before API keys; only read as a fallback until every caller has been issued a key. */
 export function getIntegrationKey() {
   const value = rawEnv().INTEGRATION_KEY;
   return value && value.trim() ? value : null;
 }
+
+export function getAppBaseUrl() {
+  return (rawEnv().APP_BASE_URL || "http://localhost:3000").replace(/\/+$/, "");
+}
+
+export function getSmtpConfig() {
+  const raw = rawEnv();
+  const host = raw.SMTP_HOST?.trim();
+  const from = raw.SMTP_FROM?.trim();
+  if (!host || !from) return null;
+  const secure = raw.SMTP_SECURE === "true";
+  return {
+    host,
+    port: Number(raw.SMTP_PORT || (secure ? 465 : 587)),
+    secure,
+    user: raw.SMTP_USER?.trim() || null,
+    password: raw.SMTP_PASSWORD || null,
+    from
+  };
+}
+
+export function getTelegramConfig() {
+  const raw = rawEnv();
+  const botToken = raw.TELEGRAM_BOT_TOKEN?.trim();
+  if (!botToken) return null;
+  return {
+    botToken,
+    apiBaseUrl: (raw.TELEGRAM_API_BASE_URL || "https://api.telegram.org").replace(/\/+$/, ""),
+    webhookSecret: raw.TELEGRAM_WEBHOOK_SECRET?.trim() || null,
+    botUsername: raw.TELEGRAM_BOT_USERNAME?.trim().replace(/^@/, "") || null
+  };
+}
+
+export function getVoiceflowConfig() {
+  const raw = rawEnv();
+  if (!raw.VOICEFLOW_EVENTS_URL) return null;
+  return { eventsUrl: raw.VOICEFLOW_EVENTS_URL, apiKey: raw.VOICEFLOW_API_KEY?.trim() || null };
+}
+
+export function getWhatsAppConfig() {
+  const raw = rawEnv();
+  const accessToken = raw.WHATSAPP_ACCESS_TOKEN?.trim();
+  if (!accessToken) return null;
+  return {
+    accessToken,
+    phoneNumberId: raw.WHATSAPP_PHONE_NUMBER_ID?.trim() || null,
+    apiBaseUrl: (raw.WHATSAPP_API_BASE_URL || "https://graph.facebook.com/v20.0").replace(/\/+$/, ""),
+    verifyToken: raw.WHATSAPP_VERIFY_TOKEN?.trim() || null,
+    appSecret: raw.WHATSAPP_APP_SECRET?.trim() || null
+  };
+}
+
+export type MediaStorageConfig =
+  | { provider: "supabase"; bucket: string }
+  | { provider: "local"; root: string; bucket: string; baseUrl: string; signingSecret: string }
+  | {
+      provider: "s3";
+      endpoint: string;
+      region: string;
+      bucket: string;
+      accessKeyId: string;
+      secretAccessKey: string;
+      publicBaseUrl: string | null;
+      forcePathStyle: boolean;
+    };
+
+/** Which media storage provider to use. Defaults to the Supabase `media` bucket; `local` is for development and tests. */
+export function getMediaStorageConfig(): MediaStorageConfig {
+  const raw = rawEnv();
+  const provider = raw.MEDIA_STORAGE_PROVIDER?.trim() || "supabase";
+  if (provider !== "supabase" && provider !== "local" && provider !== "s3") {
+    throw new Error(`Server misconfigured: unknown MEDIA_STORAGE_PROVIDER "${provider}"`);
+  }
+
+  if (provider === "local") {
+    const signingSecret = raw.MEDIA_SIGNING_SECRET?.trim();
+    // Signatures are what keeps private media private, so a guessable fallback is only acceptable for public media.
+    if (!signingSecret && getMediaAccessConfig().mode === "private") {
+      throw new Error("Server misconfigured: MEDIA_ACCESS=private needs MEDIA_SIGNING_SECRET");
+    }
+    return {
+      provider,
+      root: raw.MEDIA_LOCAL_ROOT?.trim() || ".media-storage",
+      bucket: raw.SUPABASE_MEDIA_BUCKET?.trim() || "media",
+      baseUrl: getAppBaseUrl(),
+      signingSecret: signingSecret || "local-media-signing-secret"
+    };
+  }
+
+  if (provider === "s3") {
+    const endpoint = raw.S3_ENDPOINT?.replace(/\/+$/, "");
+    const bucket = raw.S3_BUCKET?.trim();
+    const accessKeyId = raw.S3_ACCESS_KEY_ID?.trim();
+    const secretAccessKey = raw.S3_SECRET_ACCESS_KEY;
+    if (!endpoint || !bucket || !accessKeyId || !secretAccessKey) {
+      throw new Error("Server misconfigured: S3 media storage needs S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY");
+    }
+    return {
+      provider,
+      endpoint,
+      region: raw.S3_REGION?.trim() || "us-east-1",
+      bucket,
+      accessKeyId,
+      secretAccessKey,
+      publicBaseUrl: raw.S3_PUBLIC_BASE_URL?.replace(/\/+$/, "") || null,
+      forcePathStyle: raw.S3_FORCE_PATH_STYLE !== "false"
+    };
+  }
+
+  return { provider, bucket: raw.SUPABASE_MEDIA_BUCKET?.trim() || "media" };
+}
+
+function positiveSeconds(value: string | undefined, fallback: number) {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? Math.floor(parsed) : fallback;
+}
+
+export type MediaAccessConfig = {
+  mode: "public" | "private";
+  /** Lifetime of signed URLs handed to signed-in CRM users. */
+  signedUrlTtlSeconds: number;
+  /** Lifetime of signed image URLs in the public listings API, which consumers may cache. */
+  publicApiUrlTtlSeconds: number;
+};
+
+/** `private` keeps media out of public bucket URLs; every file is read through an authorized route or a signed URL. */
+export function getMediaAccessConfig(): MediaAccessConfig {
+  const raw = rawEnv();
+  const mode = raw.MEDIA_ACCESS?.trim() || "public";
+  if (mode !== "public" && mode !== "private") throw new Error(`Server misconfigured: unknown MEDIA_ACCESS "${mode}"`);
+  return {
+    mode,
+    signedUrlTtlSeconds: positiveSeconds(raw.MEDIA_SIGNED_URL_TTL_SECONDS, 300),
+    // S3 presigned URLs cannot outlive 7 days.
+    publicApiUrlTtlSeconds: Math.min(positiveSeconds(raw.MEDIA_PUBLIC_API_URL_TTL_SECONDS, 86400), 604800)
+  };
+}
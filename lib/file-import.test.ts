@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { fileImportTargets, parseCsv, suggestColumnMapping, tableToRecords } from "@/lib/file-import";
+import type { EffectiveFieldDefinition } from "@/types/hierarchy";
+
+function field(overrides: Partial<EffectiveFieldDefinition>) {
+  return {
+    field_key: "",
+    core_column_name: null,
+    storage_kind: "core_column",
+    data_type: "text",
+    default_label: "",
+    effective_label: "",
+    effective_required: false,
+    effective_options_json: {},
+    ...overrides
+  } as EffectiveFieldDefinition;
+}
+
+test("parseCsv handles quotes, embedded line breaks, semicolons and a byte order mark", () => {
+  assert.deepEqual(parseCsv("\uFEFFname,notes\r\n\"Villa, Zayed\",\"Line one\nsaid \"\"hi\"\"\"\r\n"), [
+    ["name", "notes"],
+    ["Villa, Zayed", "Line one\nsaid \"hi\""]
+  ]);
+  assert.deepEqual(parseCsv("area;price\nZayed;1,500,000"), [
+    ["area", "price"],
+    ["Zayed", "1,500,000"]
+  ]);
+});
+
+test("tableToRecords names blank and repeated headers and drops blank rows", () => {
+  const table = tableToRecords([
+    ["Phone", "", "Phone"],
+    [" 0100 ", "x", "0111"],
+    ["", " ", ""]
+  ]);
+  assert.deepEqual(table.headers, ["Phone", "Column 2", "Phone (2)"]);
+  assert.deepEqual(table.records, [{ Phone: "0100", "Column 2": "x", "Phone (2)": "0111" }]);
+});
+
+test("targets cover core and custom fields, and mapping suggestions match keys before labels", () => {
+  const { targets, definitions } = fileImportTargets("sale", [
+    field({ field_key: "unit_area", core_column_name: "area", effective_label: "Area" }),
+    field({ field_key: "status", core_column_name: "status", effective_label: "Status" }),
+    field({ field_key: "garden_size", storage_kind: "custom_value", default_label: "Garden size", effective_label: "Garden (m2)", effective_required: true })
+  ]);
+  const byKey = new Map(targets.map((target) => [target.key, target]));
+  assert.deepEqual(byKey.get("garden_size"), { key: "garden_size", label: "Garden (m2)", custom: true, required: true });
+  assert.equal(byKey.get("area")?.label, "Area");
+  assert.equal(byKey.has("status"), false);
+  assert.equal(byKey.get("code")?.label, "Code (duplicate check only)");
+
+  assert.deepEqual(suggestColumnMapping(["Garden Size", "AREA", "Unit area", "Owner's pet"], targets, definitions), {
+    "Garden Size": "garden_size",
+    AREA: "area"
+  });
+});
@@ -0,0 +1,129 @@
+import { SHEET_FIELDS_BY_DATASET, type SheetSyncDataset } from "@/lib/sheet-sync";
+import type { EffectiveFieldDefinition } from "@/types/hierarchy";
+
+export const FILE_IMPORT_MAX_BYTES = 5 * 1024 * 1024;
+export const FILE_IMPORT_MAX_ROWS = 1000;
+export const FILE_IMPORT_EXTENSIONS = [".csv", ".xlsx"];
+
+/** A column the import can fill: a core column of the record or a custom field value. */
+export type FileImportTarget = { key: string; label: string; custom: boolean; required: boolean };
+
+export type FileImportTable = { headers: string[]; records: Array<Record<string, string>> };
+
+const CSV_DELIMITERS = [",", ";", "\t"];
+// Status is decided when each record is created, from the fields it ends up with.
+const IMPORT_EXCLUDED_FIELDS = ["status"];
+
+function detectDelimiter(text: string) {
+  const firstLine = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, "");
+  return CSV_DELIMITERS.reduce((best, delimiter) => (firstLine.split(delimiter).length > firstLine.split(best).length ? delimiter : best), ",");
+}
+
+/** RFC 4180 CSV: quoted fields may hold delimiters, quotes ("") and line breaks. Comma, semicolon or tab delimited. */
+export function parseCsv(input: string) {
+  const text = input.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i];
+    if (quoted) {
+      if (char === "\"" && text[i + 1] === "\"") {
+        field += "\"";
+        i += 1;
+      } else if (char === "\"") {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+    if (char === "\"" && field === "") quoted = true;
+    else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/** First row as headers (blank ones named by position, repeats numbered); fully blank rows are dropped. */
+export function tableToRecords(rows: string[][]): FileImportTable {
+  const seen = new Map<string, number>();
+  const headers = (rows[0] || []).map((cell, index) => {
+    const base = String(cell ?? "").trim() || `Column ${index + 1}`;
+    const count = (seen.get(base) || 0) + 1;
+    seen.set(base, count);
+    return count === 1 ? base : `${base} (${count})`;
+  });
+  const records = rows
+    .slice(1)
+    .filter((row) => row.some((cell) => String(cell ?? "").trim() !== ""))
+    .map((row) => Object.fromEntries(headers.map((header, index) => [header, String(row[index] ?? "").trim()])));
+  return { headers, records };
+}
+
+/**
+ * What a file column can map to for a dataset: its active field definitions (core columns by column name,
+ * custom fields by key) plus the Sheets importer's columns that have no definition.
+ */
+export function fileImportTargets(dataset: SheetSyncDataset, fields: EffectiveFieldDefinition[]) {
+  const targets: FileImportTarget[] = [];
+  const definitions = new Map<string, EffectiveFieldDefinition>();
+  fields.forEach((field) => {
+    const custom = field.storage_kind === "custom_value";
+    const key = custom ? field.field_key : field.core_column_name || field.field_key;
+    if (IMPORT_EXCLUDED_FIELDS.includes(key) || definitions.has(key)) return;
+    definitions.set(key, field);
+    targets.push({ key, label: field.effective_label || field.default_label || key, custom, required: field.effective_required });
+  });
+  SHEET_FIELDS_BY_DATASET[dataset].forEach((key) => {
+    if (IMPORT_EXCLUDED_FIELDS.includes(key) || definitions.has(key)) return;
+    targets.push({ key, label: key === "code" ? "Code (duplicate check only)" : key, custom: false, required: false });
+  });
+  return { targets, definitions };
+}
+
+function matchKey(value: string) {
+  return value.toLowerCase().replace(/[\s_\-.:/()#]+/g, "");
+}
+
+/**
+ * Suggests a target per header: first by the target key, then by the field's effective or default label.
+ * Each target is used once.
+ */
+export function suggestColumnMapping(headers: string[], targets: FileImportTarget[], definitions: Map<string, EffectiveFieldDefinition>) {
+  const passes: Array<(target: FileImportTarget) => string[]> = [
+    (target) => [target.key],
+    (target) => [target.label, definitions.get(target.key)?.default_label || "", definitions.get(target.key)?.field_key || ""]
+  ];
+
+  const mapping: Record<string, string> = {};
+  const used = new Set<string>();
+  passes.forEach((candidates) => {
+    headers.forEach((header) => {
+      const normalized = matchKey(header);
+      if (mapping[header] || !normalized) return;
+      const target = targets.find((item) => !used.has(item.key) && candidates(item).some((candidate) => matchKey(candidate) === normalized));
+      if (!target) return;
+      mapping[header] = target.key;
+      used.add(target.key);
+    });
+  });
+  return mapping;
+}
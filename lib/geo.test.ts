@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { clusterPoints, matchGazetteerEntry, normalizeGazetteerName, parseGazetteerCsv, pointInPolygon, type LatLng } from "@/lib/geo";
+
+test("gazetteer names normalize punctuation, case and spacing", () => {
+  assert.equal(normalizeGazetteerName("  New   Cairo, 5th Settlement "), "new cairo 5th settlement");
+  assert.equal(normalizeGazetteerName("El-Sheikh Zayed"), "el sheikh zayed");
+});
+
+test("gazetteer csv skips the header and reports invalid lines", () => {
+  const result = parseGazetteerCsv(
+    [
+      "kind,name,parent_area,latitude,longitude,aliases",
+      "area,New Cairo,,30.0300,31.4700,Fifth Settlement|التجمع",
+      'compound,"Mivida",New Cairo,30.0120,31.5190,',
+      "district,Somewhere,,30,31,",
+      "area,Broken,,91,31,"
+    ].join("\n")
+  );
+  assert.equal(result.entries.length, 2);
+  assert.deepEqual(result.entries[0].aliases, ["Fifth Settlement", "التجمع"]);
+  assert.equal(result.entries[1].parent_area, "New Cairo");
+  assert.deepEqual(
+    result.errors.map((error) => error.line),
+    [4, 5]
+  );
+});
+
+test("points are tested against a drawn polygon", () => {
+  const square: LatLng[] = [
+    [30, 31],
+    [30, 32],
+    [31, 32],
+    [31, 31]
+  ];
+  assert.equal(pointInPolygon([30.5, 31.5], square), true);
+  assert.equal(pointInPolygon([29.9, 31.5], square), false);
+});
+
+test("nearby projected points share a cluster", () => {
+  const clusters = clusterPoints(
+    [
+      { id: "a", x: 10, y: 10 },
+      { id: "b", x: 20, y: 30 },
+      { id: "c", x: 200, y: 200 }
+    ],
+    48
+  );
+  assert.equal(clusters.length, 2);
+  assert.deepEqual(clusters.find((cluster) => cluster.points.length === 2)?.points.map((point) => point.id), ["a", "b"]);
+});
+
+test("listing locations resolve to compounds before areas", () => {
+  const entries = [
+    { id: "cairo", kind: "area" as const, normalized_name: "new cairo", normalized_aliases: ["fifth settlement"], latitude: 30.03, longitude: 31.47 },
+    { id: "mivida", kind: "compound" as const, normalized_name: "mivida", normalized_aliases: [], latitude: 30.012, longitude: 31.519 }
+  ];
+  assert.equal(matchGazetteerEntry(entries, { area: "New Cairo", compound: "Mivida" })?.id, "mivida");
+  assert.equal(matchGazetteerEntry(entries, { area: "Fifth Settlement - 90th street", compound: "Unknown Towers" })?.id, "cairo");
+  assert.equal(matchGazetteerEntry(entries, { area: "Giza", compound: "" }), null);
+});
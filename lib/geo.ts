@@ -0,0 +1,183 @@
+export type LatLng = [number, number];
+
+export type GazetteerKind = "area" | "compound";
+
+export type GazetteerEntryInput = {
+  kind: GazetteerKind;
+  name: string;
+  parent_area: string;
+  latitude: number;
+  longitude: number;
+  aliases: string[];
+};
+
+export type GazetteerCsvResult = {
+  entries: GazetteerEntryInput[];
+  errors: Array<{ line: number; message: string }>;
+};
+
+export type ClusterPoint = { id: string; x: number; y: number };
+
+export type PointCluster<T extends ClusterPoint> = {
+  key: string;
+  x: number;
+  y: number;
+  points: T[];
+};
+
+export const GAZETTEER_CSV_HEADER = "kind,name,parent_area,latitude,longitude,aliases";
+
+/** Lowercases, strips punctuation and collapses whitespace so "New  Cairo," and "new cairo" match. */
+export function normalizeGazetteerName(value: string) {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9\u0600-\u06FF]+/g, " ")
+    .trim()
+    .replace(/\s+/g, " ");
+}
+
+export function isValidLatLng(latitude: unknown, longitude: unknown) {
+  const lat = Number(latitude);
+  const lng = Number(longitude);
+  return latitude !== null && longitude !== null && latitude !== "" && longitude !== "" && Number.isFinite(lat) && Number.isFinite(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+}
+
+function splitCsvLine(line: string) {
+  const cells: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i += 1) {
+    const char = line[i];
+    if (char === '"' && quoted && line[i + 1] === '"') {
+      current += '"';
+      i += 1;
+    } else if (char === '"') {
+      quoted = !quoted;
+    } else if (char === "," && !quoted) {
+      cells.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+/**
+ * Parses the gazetteer seed file (`kind,name,parent_area,latitude,longitude,aliases`, aliases
+ * separated by `|`). Invalid lines are reported with their 1-based line number and skipped.
+ */
+export function parseGazetteerCsv(text: string): GazetteerCsvResult {
+  const entries: GazetteerEntryInput[] = [];
+  const errors: GazetteerCsvResult["errors"] = [];
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) return;
+    if (index === 0 && line.toLowerCase().replace(/\s/g, "") === GAZETTEER_CSV_HEADER) return;
+
+    const [kind, name, parentArea, latitude, longitude, aliases] = splitCsvLine(line);
+    if (kind !== "area" && kind !== "compound") {
+      errors.push({ line: index + 1, message: `Unknown kind "${kind}"` });
+      return;
+    }
+    if (!name) {
+      errors.push({ line: index + 1, message: "Name is required" });
+      return;
+    }
+    if (!isValidLatLng(latitude, longitude)) {
+      errors.push({ line: index + 1, message: "Latitude/longitude are invalid" });
+      return;
+    }
+    entries.push({
+      kind,
+      name,
+      parent_area: parentArea || "",
+      latitude: Number(latitude),
+      longitude: Number(longitude),
+      aliases: (aliases || "").split("|").map((alias) => alias.trim()).filter(Boolean)
+    });
+  });
+
+  return { entries, errors };
+}
+
+/** Ray-casting test; polygon vertices are [lat, lng] pairs and the ring may be open or closed. */
+export function pointInPolygon(point: LatLng, polygon: LatLng[]) {
+  if (polygon.length < 3) return false;
+  const [y, x] = point;
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i, i += 1) {
+    const [yi, xi] = polygon[i];
+    const [yj, xj] = polygon[j];
+    const crosses = yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
+
+export function polygonBounds(polygon: LatLng[]) {
+  const lats = polygon.map(([lat]) => lat);
+  const lngs = polygon.map(([, lng]) => lng);
+  return { minLat: Math.min(...lats), maxLat: Math.max(...lats), minLng: Math.min(...lngs), maxLng: Math.max(...lngs) };
+}
+
+/** Buckets projected points into square screen cells; each non-empty cell becomes one cluster at its points' centroid. */
+export function clusterPoints<T extends ClusterPoint>(points: T[], cellSize: number): Array<PointCluster<T>> {
+  const cells = new Map<string, T[]>();
+  points.forEach((point) => {
+    const key = `${Math.floor(point.x / cellSize)}:${Math.floor(point.y / cellSize)}`;
+    cells.set(key, [...(cells.get(key) || []), point]);
+  });
+  return Array.from(cells.entries()).map(([key, members]) => ({
+    key,
+    x: members.reduce((sum, point) => sum + point.x, 0) / members.length,
+    y: members.reduce((sum, point) => sum + point.y, 0) / members.length,
+    points: members
+  }));
+}
+
+export type GazetteerMatchEntry = {
+  kind: GazetteerKind;
+  normalized_name: string;
+  normalized_aliases: string[];
+  latitude: number;
+  longitude: number;
+};
+
+function containsPhrase(text: string, phrase: string) {
+  return ` ${text} `.includes(` ${phrase} `);
+}
+
+/**
+ * Finds the gazetteer entry for free-text listing location: compounds win over areas, exact
+ * name/alias matches win over the longest name or alias contained in the text.
+ */
+export function matchGazetteerEntry<T extends GazetteerMatchEntry>(entries: T[], location: { area: string; compound: string }) {
+  const lookups: Array<{ kind: GazetteerKind; text: string }> = [
+    { kind: "compound", text: normalizeGazetteerName(location.compound) },
+    { kind: "area", text: normalizeGazetteerName(location.area) }
+  ];
+
+  for (const lookup of lookups) {
+    if (!lookup.text) continue;
+    const candidates = entries.filter((entry) => entry.kind === lookup.kind);
+    const exact = candidates.find((entry) => entry.normalized_name === lookup.text || entry.normalized_aliases.includes(lookup.text));
+    if (exact) return exact;
+
+    let best: T | null = null;
+    let bestLength = 0;
+    for (const entry of candidates) {
+      for (const phrase of [entry.normalized_name, ...entry.normalized_aliases]) {
+        if (phrase && phrase.length > bestLength && containsPhrase(lookup.text, phrase)) {
+          best = entry;
+          bestLength = phrase.length;
+        }
+      }
+    }
+    if (best) return best;
+  }
+
+  return null;
+}
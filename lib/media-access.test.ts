@@ -0,0 +1,28 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { mediaContentPath, presentMediaUrls } from "@/lib/media-access";
+
+const row = {
+  id: "4b7f3f57-1d4c-4b8e-9a51-6c2f0f6c3e10",
+  file_url: "https://project.supabase.co/storage/v1/object/public/media/media/properties_sale/r1/1_front.jpg",
+  variants: {
+    thumb: { path: "media/properties_sale/r1/1_front__thumb.webp", url: "https://project.supabase.co/thumb.webp", width: 400, height: 300, size: 10, mime_type: "image/webp" },
+    web: { path: "media/properties_sale/r1/1_front__web.webp", width: 1600, height: 1200, size: 100, mime_type: "image/webp" }
+  }
+};
+
+test("private media only exposes authorized content URLs", () => {
+  const presented = presentMediaUrls(row, "private");
+  assert.equal(presented.file_url, `/api/media/${row.id}/content`);
+  assert.equal(presented.variants.thumb?.url, `/api/media/${row.id}/content?variant=thumb`);
+  assert.equal(presented.variants.web?.url, mediaContentPath(row.id, "web"));
+  assert.equal(presented.variants.thumb?.path, row.variants.thumb.path);
+});
+
+test("public media keeps stored URLs and falls back to the content route when one is missing", () => {
+  const presented = presentMediaUrls(row, "public");
+  assert.equal(presented.file_url, row.file_url);
+  assert.equal(presented.variants.thumb?.url, row.variants.thumb.url);
+  assert.equal(presented.variants.web?.url, `/api/media/${row.id}/content?variant=web`);
+  assert.equal(presentMediaUrls({ id: row.id, file_url: null, variants: null }, "public").file_url, `/api/media/${row.id}/content`);
+});
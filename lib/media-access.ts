@@ -0,0 +1,29 @@
+import type { MediaVariants } from "@/lib/media-variants";
+
+export type MediaAccessMode = "public" | "private";
+
+/** Authorized URL that serves a media file (or one of its variants) to signed-in users. */
+export function mediaContentPath(id: string, variant?: string) {
+  return `/api/media/${id}/content${variant ? `?variant=${encodeURIComponent(variant)}` : ""}`;
+}
+
+/**
+ * Fills in the URLs a client renders. Private media always points at the content route, so stored bucket URLs are
+ * never handed out; public media keeps its stored URLs and only falls back to the route when one is missing.
+ */
+export function presentMediaUrls<T extends { id: string; file_url?: string | null; variants?: MediaVariants | null }>(
+  row: T,
+  mode: MediaAccessMode
+): Omit<T, "file_url" | "variants"> & { file_url: string; variants: MediaVariants } {
+  const isPrivate = mode === "private";
+  const variants: MediaVariants = {};
+  for (const [name, variant] of Object.entries(row.variants || {})) {
+    if (!variant) continue;
+    Object.assign(variants, { [name]: { ...variant, url: !isPrivate && variant.url ? variant.url : mediaContentPath(row.id, name) } });
+  }
+  return {
+    ...row,
+    file_url: !isPrivate && row.file_url ? row.file_url : mediaContentPath(row.id),
+    variants
+  };
+}
@@ -0,0 +1,18 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { differenceHash, duplicateMatchLocation } from "@/lib/media-dedup";
+
+test("difference hashes set one bit per brighter-than-right-neighbour pixel pair", () => {
+  // Every row falls from left to right, so all 64 bits are set; a rising row clears its byte.
+  const falling = Array.from({ length: 9 }, (_, col) => 200 - col * 10);
+  const rising = Array.from({ length: 9 }, (_, col) => 10 + col * 10);
+  const pixels = Uint8Array.from([...rising, ...Array.from({ length: 7 }, () => falling).flat()]);
+  assert.equal(differenceHash(pixels), "00ffffffffffffff");
+  assert.throws(() => differenceHash(new Uint8Array(64)), /72 grayscale pixels/);
+});
+
+test("duplicate locations prefer the record code", () => {
+  assert.equal(duplicateMatchLocation({ record_type: "properties_sale", record_code: "SL-2026-00012", intake_session_id: null }), "SL-2026-00012");
+  assert.equal(duplicateMatchLocation({ record_type: "buyers", record_code: null, intake_session_id: null }), "buyers record");
+  assert.equal(duplicateMatchLocation({ record_type: null, record_code: null, intake_session_id: "s1" }), "an intake session");
+});
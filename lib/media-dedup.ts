@@ -0,0 +1,49 @@
+/** Width and height of the grayscale thumbnail behind the difference hash: 9x8 pixels give 8x8 = 64 bits. */
+export const PERCEPTUAL_HASH_GRID = { width: 9, height: 8 } as const;
+
+/**
+ * Images whose perceptual hashes differ in at most this many of 64 bits are treated as the same photo. That covers
+ * recompression, resizing and light edits from messenger forwards without matching different shots of one room.
+ */
+export const NEAR_DUPLICATE_MAX_DISTANCE = 6;
+
+export type MediaDuplicateMatch = {
+  media_id: string;
+  original_filename: string;
+  record_type: string | null;
+  record_id: string | null;
+  /** Listing, buyer or client code of the record the match belongs to, when it is on one. */
+  record_code: string | null;
+  intake_session_id: string | null;
+  created_at: string;
+  /** Same bytes (SHA-256), not only a similar picture. */
+  exact: boolean;
+  /** Differing perceptual hash bits; 0 for exact matches. */
+  distance: number;
+};
+
+/**
+ * Difference hash ("dHash") of a 9x8 grayscale image given as row-major bytes: one bit per horizontal neighbour pair,
+ * set when the left pixel is brighter. Returned as 16 hex characters.
+ */
+export function differenceHash(pixels: Uint8Array) {
+  const { width, height } = PERCEPTUAL_HASH_GRID;
+  if (pixels.length !== width * height) throw new Error(`Expected ${width * height} grayscale pixels, got ${pixels.length}`);
+  let hex = "";
+  for (let row = 0; row < height; row += 1) {
+    let byte = 0;
+    for (let col = 0; col < width - 1; col += 1) {
+      byte = (byte << 1) | (pixels[row * width + col] > pixels[row * width + col + 1] ? 1 : 0);
+    }
+    hex += byte.toString(16).padStart(2, "0");
+  }
+  return hex;
+}
+
+/** Where a duplicate lives, for warnings: "SL-2026-00012", "properties_rent record" or "an intake session". */
+export function duplicateMatchLocation(match: Pick<MediaDuplicateMatch, "record_type" | "record_code" | "intake_session_id">) {
+  if (match.record_code) return match.record_code;
+  if (match.record_type) return `${match.record_type} record`;
+  if (match.intake_session_id) return "an intake session";
+  return "unlinked media";
+}
@@ -0,0 +1,14 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+/** HMAC for a media URL that is valid until `expiresAt` (unix seconds). */
+export function signMediaUrl(secret: string, key: string, expiresAt: number) {
+  return createHmac("sha256", secret).update(`${key}:${expiresAt}`).digest("base64url");
+}
+
+/** Checks a signature from `signMediaUrl`; expired or malformed signatures fail. */
+export function verifyMediaUrlSignature(secret: string, key: string, expiresAt: number, signature: string, now = Date.now()) {
+  if (!Number.isFinite(expiresAt) || expiresAt * 1000 < now) return false;
+  const expected = Buffer.from(signMediaUrl(secret, key, expiresAt));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,19 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { mediaDisplayUrl, mediaStoragePaths, mediaVariantPath } from "@/lib/media-variants";
+
+test("variant paths sit next to the original with a WebP extension", () => {
+  assert.equal(mediaVariantPath("media/properties_sale/abc/1700_front.view.JPG", "thumb"), "media/properties_sale/abc/1700_front.view__thumb.webp");
+  assert.equal(mediaVariantPath("intake_sessions/s1/1700_scan", "web"), "intake_sessions/s1/1700_scan__web.webp");
+  assert.equal(mediaVariantPath("intake_sessions/s.1/1700_scan", "web"), "intake_sessions/s.1/1700_scan__web.webp");
+});
+
+test("display URLs fall back from the requested variant to the original", () => {
+  const web = { path: "a__web.webp", url: "https://cdn/a__web.webp", width: 1600, height: 1200, size: 1, mime_type: "image/webp" };
+  const thumb = { ...web, path: "a__thumb.webp", url: "https://cdn/a__thumb.webp" };
+  assert.equal(mediaDisplayUrl({ file_url: "https://cdn/a.jpg", variants: { thumb, web } }, "thumb"), thumb.url);
+  assert.equal(mediaDisplayUrl({ file_url: "https://cdn/a.jpg", variants: { web } }, "thumb"), web.url);
+  assert.equal(mediaDisplayUrl({ file_url: "https://cdn/a.jpg", variants: { thumb } }, "web"), "https://cdn/a.jpg");
+  assert.equal(mediaDisplayUrl({ file_url: "https://cdn/a.jpg", variants: null }, "thumb"), "https://cdn/a.jpg");
+  assert.deepEqual(mediaStoragePaths({ storage_path: "a.jpg", variants: { thumb, web } }), ["a.jpg", "a__thumb.webp", "a__web.webp"]);
+});
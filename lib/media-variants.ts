@@ -0,0 +1,57 @@
+export type MediaVariantName = "thumb" | "web";
+
+export type MediaVariant = {
+  path: string;
+  /** Missing when media is private; API responses fill it with an authorized content URL. */
+  url?: string;
+  width: number;
+  height: number;
+  size: number;
+  mime_type: string;
+};
+
+/**
+ * Stored on `media.variants`, keyed by variant name. Missing for non-images and for images that could not be processed.
+ * `watermarked` is rendered on demand for listing photos shared outside the CRM; `watermark_key` records the settings
+ * and listing code it was rendered with.
+ */
+export type MediaVariants = Partial<Record<MediaVariantName, MediaVariant>> & { watermarked?: MediaVariant & { watermark_key: string } };
+
+/** Longest edge in pixels and WebP quality for each generated variant. Images are never enlarged. */
+export const MEDIA_VARIANT_SPECS: Record<MediaVariantName, { maxEdge: number; quality: number }> = {
+  thumb: { maxEdge: 400, quality: 70 },
+  web: { maxEdge: 1600, quality: 80 }
+};
+
+export const MEDIA_VARIANT_MIME_TYPE = "image/webp";
+
+/** `media/sale/<id>/123_front.jpg` -> `media/sale/<id>/123_front__thumb.webp`, next to the original. */
+export function mediaVariantPath(path: string, name: MediaVariantName) {
+  const slash = path.lastIndexOf("/");
+  const dot = path.lastIndexOf(".");
+  const stem = dot > slash + 1 ? path.slice(0, dot) : path;
+  return `${stem}__${name}.webp`;
+}
+
+/** Every storage path a media row owns: the original plus its variants. */
+export function mediaStoragePaths(row: { storage_path?: string | null; variants?: MediaVariants | null }) {
+  const paths = row.storage_path ? [row.storage_path] : [];
+  Object.values(row.variants || {}).forEach((variant) => {
+    if (variant?.path) paths.push(variant.path);
+  });
+  return paths;
+}
+
+/**
+ * URL to render for a media item: the requested variant, falling back to the larger variant and then to the
+ * original, so rows uploaded before processing existed keep working.
+ */
+export function mediaDisplayUrl(item: { file_url: string; variants?: MediaVariants | null }, preferred: MediaVariantName) {
+  const variants = item.variants || {};
+  const order: MediaVariantName[] = preferred === "thumb" ? ["thumb", "web"] : ["web"];
+  for (const name of order) {
+    const url = variants[name]?.url;
+    if (url) return url;
+  }
+  return item.file_url;
+}
@@ -0,0 +1,28 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { isWatermarkRecordType, watermarkKey, watermarkOffset, watermarkText } from "@/lib/media-watermark";
+
+test("captions fill in the listing code and keys change with settings or code", () => {
+  assert.equal(watermarkText("Best View · {code}", { code: "S-1042" }), "Best View · S-1042");
+  assert.equal(watermarkText("  {CODE}  ", { code: "" }), "");
+  assert.equal(watermarkText("Best View", { code: "S-1042" }), "Best View");
+
+  const key = watermarkKey({ updated_at: "2026-11-05T10:00:00Z" }, { code: "S-1042" });
+  assert.notEqual(key, watermarkKey({ updated_at: "2026-11-05T11:00:00Z" }, { code: "S-1042" }));
+  assert.notEqual(key, watermarkKey({ updated_at: "2026-11-05T10:00:00Z" }, { code: "S-1043" }));
+
+  assert.equal(isWatermarkRecordType("properties_rent"), true);
+  assert.equal(isWatermarkRecordType("buyers"), false);
+  assert.equal(isWatermarkRecordType(null), false);
+});
+
+test("overlay offsets keep the margin and never go negative", () => {
+  const image = { width: 1000, height: 600 };
+  const overlay = { width: 200, height: 100 };
+  assert.deepEqual(watermarkOffset(image, overlay, "top_left", 20), { left: 20, top: 20 });
+  assert.deepEqual(watermarkOffset(image, overlay, "top_right", 20), { left: 780, top: 20 });
+  assert.deepEqual(watermarkOffset(image, overlay, "bottom_left", 20), { left: 20, top: 480 });
+  assert.deepEqual(watermarkOffset(image, overlay, "bottom_right", 20), { left: 780, top: 480 });
+  assert.deepEqual(watermarkOffset(image, overlay, "center", 20), { left: 400, top: 250 });
+  assert.deepEqual(watermarkOffset({ width: 100, height: 50 }, overlay, "bottom_right", 20), { left: 0, top: 0 });
+});
@@ -0,0 +1,74 @@
+export const WATERMARK_POSITIONS = ["top_left", "top_right", "bottom_left", "bottom_right", "center"] as const;
+
+export type WatermarkPosition = (typeof WATERMARK_POSITIONS)[number];
+
+/** Record types whose photos are watermarked when they leave the CRM. */
+export const WATERMARK_RECORD_TYPES = ["properties_sale", "properties_rent"] as const;
+
+export type WatermarkRecordType = (typeof WATERMARK_RECORD_TYPES)[number];
+
+export const WATERMARK_FAMILY_BY_RECORD_TYPE: Record<WatermarkRecordType, "sale" | "rent"> = {
+  properties_sale: "sale",
+  properties_rent: "rent"
+};
+
+/** One row of `media_watermark_settings`, keyed by the hierarchy root of the listing family. */
+export type MediaWatermarkSettings = {
+  root_node_id: string;
+  enabled: boolean;
+  logo_path: string | null;
+  logo_url: string | null;
+  position: WatermarkPosition;
+  opacity: number;
+  text_template: string;
+  updated_by: string | null;
+  updated_at: string;
+};
+
+export const DEFAULT_WATERMARK_SETTINGS: Omit<MediaWatermarkSettings, "root_node_id" | "updated_by" | "updated_at"> = {
+  enabled: false,
+  logo_path: null,
+  logo_url: null,
+  position: "bottom_right",
+  opacity: 0.5,
+  text_template: "{code}"
+};
+
+export function isWatermarkRecordType(recordType: string | null | undefined): recordType is WatermarkRecordType {
+  return WATERMARK_RECORD_TYPES.includes(recordType as WatermarkRecordType);
+}
+
+/** Fills `{code}` in the text template; a template without text renders no caption. */
+export function watermarkText(template: string, listing: { code: string }) {
+  return template.replace(/\{code\}/gi, listing.code).replace(/\s+/g, " ").trim();
+}
+
+/** Changes whenever the rendered watermark would: new settings, or a listing code that changed. */
+export function watermarkKey(settings: Pick<MediaWatermarkSettings, "updated_at">, listing: { code: string }) {
+  return `${settings.updated_at}|${listing.code}`;
+}
+
+/**
+ * Top-left corner of a `width`×`height` overlay placed at `position` on an image, kept `margin` pixels from the edges.
+ */
+export function watermarkOffset(
+  image: { width: number; height: number },
+  overlay: { width: number; height: number },
+  position: WatermarkPosition,
+  margin: number
+) {
+  const right = Math.max(0, image.width - overlay.width - margin);
+  const bottom = Math.max(0, image.height - overlay.height - margin);
+  if (position === "top_left") return { left: margin, top: margin };
+  if (position === "top_right") return { left: right, top: margin };
+  if (position === "bottom_left") return { left: margin, top: bottom };
+  if (position === "center") {
+    return { left: Math.max(0, Math.round((image.width - overlay.width) / 2)), top: Math.max(0, Math.round((image.height - overlay.height) / 2)) };
+  }
+  return { left: right, top: bottom };
+}
+
+/** Link for "Download" buttons: the route picks the watermarked copy or the original. */
+export function mediaDownloadHref(mediaId: string) {
+  return `/api/media/${mediaId}/download`;
+}
@@ -0,0 +1,38 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { z } from "zod";
+import { zodToJsonSchema, zodToQueryParameters } from "@/lib/openapi";
+
+test("zod object schemas become JSON Schema with required keys, nullability and constraints", () => {
+  const schema = z.object({
+    code: z.string().describe("Listing code"),
+    price: z.number().nullable(),
+    bedrooms: z.number().int().min(0).optional(),
+    furnished: z.enum(["furnished", "unknown"]),
+    created_at: z.string().datetime({ offset: true })
+  });
+  assert.deepEqual(zodToJsonSchema(schema), {
+    type: "object",
+    properties: {
+      code: { type: "string", description: "Listing code" },
+      price: { type: ["number", "null"] },
+      bedrooms: { type: "integer", minimum: 0 },
+      furnished: { type: "string", enum: ["furnished", "unknown"] },
+      created_at: { type: "string", format: "date-time" }
+    },
+    required: ["code", "price", "furnished", "created_at"]
+  });
+});
+
+test("query parameters carry defaults and comma-separated arrays", () => {
+  const schema = z.object({
+    type: z.enum(["sale", "rent"]),
+    limit: z.coerce.number().int().min(1).max(100).default(20).describe("Page size."),
+    area: z.preprocess((value) => String(value).split(","), z.array(z.string())).optional()
+  });
+  assert.deepEqual(zodToQueryParameters(schema), [
+    { name: "type", in: "query", required: true, schema: { type: "string", enum: ["sale", "rent"] } },
+    { name: "limit", in: "query", required: false, description: "Page size.", schema: { type: "integer", minimum: 1, maximum: 100, default: 20 } },
+    { name: "area", in: "query", required: false, schema: { type: "array", items: { type: "string" } }, style: "form", explode: false }
+  ]);
+});
@@ -0,0 +1,81 @@
+import { z } from "zod";
+
+export type JsonSchema = { [key: string]: unknown };
+
+function isOptional(schema: z.ZodTypeAny): boolean {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodDefault) return true;
+  if (schema instanceof z.ZodEffects) return isOptional(schema._def.schema);
+  return false;
+}
+
+/**
+ * Converts the zod schemas our routes already validate with into OpenAPI 3.1 (JSON Schema) so the published
+ * document cannot drift from what the API accepts. Covers the types the public API uses; anything else
+ * becomes an unconstrained schema.
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const described = (result: JsonSchema) => (schema.description ? { ...result, description: schema.description } : result);
+
+  if (schema instanceof z.ZodOptional) return described(zodToJsonSchema(schema._def.innerType));
+  if (schema instanceof z.ZodDefault) return described({ ...zodToJsonSchema(schema._def.innerType), default: schema._def.defaultValue() });
+  if (schema instanceof z.ZodEffects) return described(zodToJsonSchema(schema._def.schema));
+  if (schema instanceof z.ZodNullable) {
+    const inner = zodToJsonSchema(schema._def.innerType);
+    return described(typeof inner.type === "string" ? { ...inner, type: [inner.type, "null"] } : { anyOf: [inner, { type: "null" }] });
+  }
+
+  if (schema instanceof z.ZodString) {
+    const result: JsonSchema = { type: "string" };
+    for (const check of schema._def.checks) {
+      if (check.kind === "min") result.minLength = check.value;
+      if (check.kind === "max") result.maxLength = check.value;
+      if (check.kind === "length") Object.assign(result, { minLength: check.value, maxLength: check.value });
+      if (check.kind === "datetime") result.format = "date-time";
+      if (check.kind === "uuid") result.format = "uuid";
+      if (check.kind === "url") result.format = "uri";
+    }
+    return described(result);
+  }
+  if (schema instanceof z.ZodNumber) {
+    const result: JsonSchema = { type: "number" };
+    for (const check of schema._def.checks) {
+      if (check.kind === "int") result.type = "integer";
+      if (check.kind === "min") result[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value;
+      if (check.kind === "max") result[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value;
+    }
+    return described(result);
+  }
+  if (schema instanceof z.ZodBoolean) return described({ type: "boolean" });
+  if (schema instanceof z.ZodEnum) return described({ type: "string", enum: [...schema._def.values] });
+  if (schema instanceof z.ZodArray) {
+    const result: JsonSchema = { type: "array", items: zodToJsonSchema(schema._def.type) };
+    if (schema._def.minLength) result.minItems = schema._def.minLength.value;
+    if (schema._def.maxLength) result.maxItems = schema._def.maxLength.value;
+    return described(result);
+  }
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const required = Object.keys(shape).filter((key) => !isOptional(shape[key]));
+    return described({
+      type: "object",
+      properties: Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, zodToJsonSchema(value)])),
+      ...(required.length ? { required } : {})
+    });
+  }
+  return described({});
+}
+
+/** Query parameters for an operation from the object schema that parses `searchParams`; arrays are comma-separated. */
+export function zodToQueryParameters(schema: z.AnyZodObject) {
+  return Object.entries(schema.shape as Record<string, z.ZodTypeAny>).map(([name, value]) => {
+    const { description, ...parameterSchema } = zodToJsonSchema(value);
+    return {
+      name,
+      in: "query",
+      required: !isOptional(value),
+      ...(description ? { description } : {}),
+      schema: parameterSchema,
+      ...(parameterSchema.type === "array" ? { style: "form", explode: false } : {})
+    };
+  });
+}
@@ -0,0 +1,18 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { approximateLocation, decodeListingCursor, encodeListingCursor, listingTypeFromCode } from "@/lib/public-listings";
+
+test("listing cursors round-trip and reject tampered values", () => {
+  const cursor = { createdAt: "2026-10-31T09:15:02.123456+00:00", id: "3f1c2a9e-8b7d-4e6f-9a0b-1c2d3e4f5a6b" };
+  assert.deepEqual(decodeListingCursor(encodeListingCursor(cursor)), cursor);
+  assert.equal(decodeListingCursor("not-a-cursor"), null);
+  assert.equal(decodeListingCursor(Buffer.from(JSON.stringify(["2026-10-31", "1 or 1=1"])).toString("base64url")), null);
+});
+
+test("listing codes name their table and coordinates are rounded to about 100 m", () => {
+  assert.equal(listingTypeFromCode("sale-2026-014"), "sale");
+  assert.equal(listingTypeFromCode("RENT-2026-003"), "rent");
+  assert.equal(listingTypeFromCode("BUY-2026-001"), null);
+  assert.deepEqual(approximateLocation("30.044420", 31.235712), { lat: 30.044, lng: 31.236 });
+  assert.equal(approximateLocation(null, 31.2), null);
+});
@@ -0,0 +1,43 @@
+export type ListingType = "sale" | "rent";
+
+export type ListingCursor = { createdAt: string; id: string };
+
+export const listingTableByType: Record<ListingType, "properties_sale" | "properties_rent"> = {
+  sale: "properties_sale",
+  rent: "properties_rent"
+};
+
+// Cursors are opaque to callers: base64url JSON of the last row's sort key, newest first.
+export function encodeListingCursor(cursor: ListingCursor) {
+  return Buffer.from(JSON.stringify([cursor.createdAt, cursor.id]), "utf8").toString("base64url");
+}
+
+export function decodeListingCursor(value: string): ListingCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(value, "base64url").toString("utf8")) as unknown;
+    if (!Array.isArray(parsed) || parsed.length !== 2) return null;
+    const [createdAt, id] = parsed;
+    if (typeof createdAt !== "string" || Number.isNaN(Date.parse(createdAt))) return null;
+    if (typeof id !== "string" || !/^[0-9a-f-]{36}$/i.test(id)) return null;
+    return { createdAt, id };
+  } catch {
+    return null;
+  }
+}
+
+/** `SALE-2026-014` → sale; codes come from `assign_code_if_missing`, so the prefix names the table. */
+export function listingTypeFromCode(code: string): ListingType | null {
+  const prefix = code.trim().toUpperCase().split("-")[0];
+  if (prefix === "SALE") return "sale";
+  if (prefix === "RENT") return "rent";
+  return null;
+}
+
+/** Three decimals is roughly 100 m: enough for a map pin without pointing at the owner's door. */
+export function approximateLocation(latitude: unknown, longitude: unknown) {
+  if (latitude === null || latitude === undefined || longitude === null || longitude === undefined) return null;
+  const lat = Number(latitude);
+  const lng = Number(longitude);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+  return { lat: Math.round(lat * 1000) / 1000, lng: Math.round(lng * 1000) / 1000 };
+}
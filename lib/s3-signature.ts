@@ -0,0 +1,109 @@
+import { createHash, createHmac } from "node:crypto";
+
+export type S3Credentials = { accessKeyId: string; secretAccessKey: string };
+
+/** Hash S3 accepts in place of the payload hash for presigned URLs. */
+export const UNSIGNED_PAYLOAD = "UNSIGNED-PAYLOAD";
+
+export function sha256Hex(data: string | Buffer) {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: string | Buffer, data: string) {
+  return createHmac("sha256", key).update(data).digest();
+}
+
+/** RFC 3986 encoding as SigV4 expects it; `/` is kept when encoding an object key path. */
+export function encodeRfc3986(value: string, keepSlash = false) {
+  const encoded = encodeURIComponent(value).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+  return keepSlash ? encoded.replace(/%2F/g, "/") : encoded;
+}
+
+function amzDate(date: Date) {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function canonicalQuery(params: URLSearchParams) {
+  return Array.from(params.entries())
+    .map(([key, value]) => [encodeRfc3986(key), encodeRfc3986(value)])
+    .sort(([a, aValue], [b, bValue]) => (a === b ? (aValue < bValue ? -1 : 1) : a < b ? -1 : 1))
+    .map(([key, value]) => `${key}=${value}`)
+    .join("&");
+}
+
+function signature(input: {
+  method: string;
+  url: URL;
+  query: URLSearchParams;
+  headers: Record<string, string>;
+  payloadHash: string;
+  credentials: S3Credentials;
+  region: string;
+  timestamp: string;
+}) {
+  const headerNames = Object.keys(input.headers).map((name) => name.toLowerCase()).sort();
+  const lowerHeaders = Object.fromEntries(Object.entries(input.headers).map(([name, value]) => [name.toLowerCase(), value]));
+  const canonicalHeaders = headerNames.map((name) => `${name}:${String(lowerHeaders[name]).trim().replace(/\s+/g, " ")}\n`).join("");
+  const signedHeaders = headerNames.join(";");
+  // The URL's pathname is already percent-encoded; decoding first avoids encoding it twice.
+  const canonicalUri = encodeRfc3986(decodeURIComponent(input.url.pathname), true) || "/";
+  const canonicalRequest = [input.method, canonicalUri, canonicalQuery(input.query), canonicalHeaders, signedHeaders, input.payloadHash].join("\n");
+
+  const day = input.timestamp.slice(0, 8);
+  const scope = `${day}/${input.region}/s3/aws4_request`;
+  const stringToSign = ["AWS4-HMAC-SHA256", input.timestamp, scope, sha256Hex(canonicalRequest)].join("\n");
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${input.credentials.secretAccessKey}`, day), input.region), "s3"), "aws4_request");
+  return { signature: createHmac("sha256", signingKey).update(stringToSign).digest("hex"), scope, signedHeaders };
+}
+
+/**
+ * AWS Signature Version 4 headers for an S3 request. `headers` are the extra headers to sign (Content-Type, Range,
+ * x-amz-copy-source…); the returned set adds Host, x-amz-date, x-amz-content-sha256 and Authorization.
+ */
+export function signS3Request(input: {
+  method: string;
+  url: string;
+  headers?: Record<string, string>;
+  payloadHash: string;
+  credentials: S3Credentials;
+  region: string;
+  date?: Date;
+}) {
+  const url = new URL(input.url);
+  const timestamp = amzDate(input.date || new Date());
+  const headers: Record<string, string> = {
+    ...(input.headers || {}),
+    host: url.host,
+    "x-amz-content-sha256": input.payloadHash,
+    "x-amz-date": timestamp
+  };
+  const signed = signature({ ...input, url, query: url.searchParams, headers, timestamp });
+  return {
+    ...headers,
+    authorization: `AWS4-HMAC-SHA256 Credential=${input.credentials.accessKeyId}/${signed.scope}, SignedHeaders=${signed.signedHeaders}, Signature=${signed.signature}`
+  };
+}
+
+/** A presigned URL (query-string authentication) valid for `expiresInSeconds`, at most 7 days. */
+export function presignS3Url(input: { method: string; url: string; credentials: S3Credentials; region: string; expiresInSeconds: number; date?: Date }) {
+  const url = new URL(input.url);
+  const timestamp = amzDate(input.date || new Date());
+  const scope = `${timestamp.slice(0, 8)}/${input.region}/s3/aws4_request`;
+  url.searchParams.set("X-Amz-Algorithm", "AWS4-HMAC-SHA256");
+  url.searchParams.set("X-Amz-Credential", `${input.credentials.accessKeyId}/${scope}`);
+  url.searchParams.set("X-Amz-Date", timestamp);
+  url.searchParams.set("X-Amz-Expires", String(Math.min(Math.max(1, Math.floor(input.expiresInSeconds)), 604800)));
+  url.searchParams.set("X-Amz-SignedHeaders", "host");
+
+  const signed = signature({
+    method: input.method,
+    url,
+    query: url.searchParams,
+    headers: { host: url.host },
+    payloadHash: UNSIGNED_PAYLOAD,
+    credentials: input.credentials,
+    region: input.region,
+    timestamp
+  });
+  return `${url.origin}${encodeRfc3986(decodeURIComponent(url.pathname), true)}?${canonicalQuery(url.searchParams)}&X-Amz-Signature=${signed.signature}`;
+}
@@ -0,0 +1,29 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { hiddenColumnsFromMap, hiddenColumnsToMap, legacySavedViewToState, mergeColumnOrder } from "@/lib/saved-views";
+
+test("saved column order survives added and removed columns", () => {
+  assert.deepEqual(mergeColumnOrder(["price", "code", "gone", "price"], ["code", "status", "price", "area"]), ["price", "code", "status", "area"]);
+  assert.deepEqual(mergeColumnOrder([], ["code", "status"]), ["code", "status"]);
+});
+
+test("hidden columns round-trip between the grid map and the stored list", () => {
+  const stored = hiddenColumnsFromMap({ notes: true, price: false, area: true });
+  assert.deepEqual(stored, ["notes", "area"]);
+  assert.deepEqual(hiddenColumnsToMap(stored), { notes: true, area: true });
+});
+
+test("localStorage views convert to server view state", () => {
+  const state = legacySavedViewToState({
+    id: "view_1",
+    name: "Cairo",
+    filters: { areas: ["New Cairo"] },
+    sorts: [{ field: "price", direction: "desc" }],
+    hidden: { notes: true },
+    pinned: ["code"]
+  });
+  assert.deepEqual(state.hidden_columns, ["notes"]);
+  assert.deepEqual(state.pinned_columns, ["code"]);
+  assert.equal(state.archive_scope, "active");
+  assert.equal(state.hierarchy_node_id, null);
+});
@@ -0,0 +1,74 @@
+export type SavedViewGridType = "sale" | "rent" | "buyer" | "client";
+export type SavedViewVisibility = "private" | "team";
+export type SavedViewArchiveScope = "active" | "archived" | "all";
+export type SavedViewSort = { field: string; direction: "asc" | "desc" };
+
+/** Everything a grid view restores: the fields mirror the `saved_views` columns. */
+export type SavedViewState = {
+  filters: Record<string, unknown>;
+  sorts: SavedViewSort[];
+  column_order: string[];
+  hidden_columns: string[];
+  pinned_columns: string[];
+  column_widths: Record<string, number>;
+  hierarchy_node_id: string | null;
+  archive_scope: SavedViewArchiveScope;
+};
+
+export type SavedView = SavedViewState & {
+  id: string;
+  owner_id: string;
+  grid_type: SavedViewGridType;
+  name: string;
+  visibility: SavedViewVisibility;
+  created_at: string;
+  updated_at: string;
+};
+
+/** Shape of the views CRMGrid used to keep in localStorage under `crm-grid-views-${type}`. */
+export type LegacySavedView = {
+  id: string;
+  name: string;
+  filters: Record<string, unknown>;
+  sorts: SavedViewSort[];
+  hidden: Record<string, boolean>;
+  pinned: string[];
+};
+
+export const SAVED_VIEW_URL_PARAM = "savedView";
+// Ad-hoc filter set (JSON) in a link, e.g. from a digest that is not tied to a saved view.
+export const GRID_FILTERS_URL_PARAM = "filters";
+
+/**
+ * Restores a saved column order against the columns the grid has now: saved keys that still exist
+ * keep their position, and columns added since the view was saved are appended in grid order.
+ */
+export function mergeColumnOrder(preferred: string[], available: string[]) {
+  const availableSet = new Set(available);
+  const kept = preferred.filter((key, index) => availableSet.has(key) && preferred.indexOf(key) === index);
+  const keptSet = new Set(kept);
+  return [...kept, ...available.filter((key) => !keptSet.has(key))];
+}
+
+export function hiddenColumnsFromMap(hidden: Record<string, boolean>) {
+  return Object.entries(hidden)
+    .filter(([, isHidden]) => isHidden)
+    .map(([key]) => key);
+}
+
+export function hiddenColumnsToMap(hiddenColumns: string[]) {
+  return Object.fromEntries(hiddenColumns.map((key) => [key, true])) as Record<string, boolean>;
+}
+
+export function legacySavedViewToState(view: LegacySavedView): SavedViewState {
+  return {
+    filters: view.filters || {},
+    sorts: Array.isArray(view.sorts) ? view.sorts : [],
+    column_order: [],
+    hidden_columns: hiddenColumnsFromMap(view.hidden || {}),
+    pinned_columns: Array.isArray(view.pinned) ? view.pinned : [],
+    column_widths: {},
+    hierarchy_node_id: null,
+    archive_scope: "active"
+  };
+}
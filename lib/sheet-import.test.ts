@@ -0,0 +1,64 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { buildImportReport, importFieldDefinitions, validateImportRow } from "@/lib/sheet-import";
+import type { EffectiveFieldDefinition } from "@/types/hierarchy";
+
+function field(overrides: Partial<EffectiveFieldDefinition>) {
+  return {
+    field_key: "",
+    core_column_name: null,
+    data_type: "text",
+    effective_label: "",
+    effective_required: false,
+    effective_options_json: {},
+    ...overrides
+  } as EffectiveFieldDefinition;
+}
+
+const buyerFields = [
+  field({ field_key: "phone", effective_label: "Phone", effective_required: true }),
+  field({ field_key: "budget_max", effective_label: "Max budget", data_type: "number" }),
+  field({ field_key: "bedrooms_needed", effective_label: "Bedrooms", data_type: "integer" }),
+  field({ field_key: "buyer_intent", core_column_name: "intent", effective_label: "Intent", data_type: "single_select", effective_options_json: { options: ["Buy", "Invest"] } }),
+  field({ field_key: "preferred_areas", effective_label: "Areas", data_type: "multi_select", effective_options_json: { values: ["Zayed", "October"] } }),
+  field({ field_key: "internal_score", effective_label: "Score", effective_required: true })
+];
+
+test("validation uses required flags, data types and select options of the effective definitions", () => {
+  const definitions = importFieldDefinitions("buyer", buyerFields);
+  // Definitions with no sheet column (internal_score) are not checked.
+  assert.deepEqual(Array.from(definitions.keys()).sort(), ["bedrooms_needed", "budget_max", "intent", "phone", "preferred_areas"]);
+
+  assert.deepEqual(validateImportRow(definitions, { phone: "01001234567", budget_max: "EGP 3,000,000", bedrooms_needed: "3", intent: "buy", preferred_areas: "Zayed | October" }), []);
+  assert.deepEqual(
+    validateImportRow(definitions, { phone: "", budget_max: "ask", bedrooms_needed: "2.5", intent: "Rent", preferred_areas: "Zayed | Maadi" }).map((issue) => issue.message),
+    [
+      "Phone is required",
+      'Intent "Rent" is not one of: Buy, Invest',
+      'Max budget "ask" is not a number',
+      'Areas "Maadi" is not one of: Zayed, October',
+      'Bedrooms "2.5" must be a whole number'
+    ]
+  );
+});
+
+test("duplicates by code or phone are flagged against the CRM and earlier rows as warnings", () => {
+  const report = buildImportReport({
+    dataset: "buyer",
+    tab: "Buyers",
+    definitions: importFieldDefinitions("buyer", buyerFields),
+    rows: [
+      { code: "b-100", phone: "01001234567" },
+      { code: "B-200", phone: "+201001234567" },
+      { code: "B-200", phone: "01119876543" },
+      { code: "", phone: "" }
+    ],
+    existing: { codes: new Set(["B-100"]), phones: new Set() }
+  });
+
+  assert.deepEqual(report.rows.map((row) => row.status), ["warning", "warning", "warning", "error"]);
+  assert.deepEqual(report.rows[0].issues.map((issue) => issue.message), ["Code b-100 already exists in the CRM"]);
+  assert.deepEqual(report.rows[1].issues.map((issue) => issue.message), ["Same phone as row 2"]);
+  assert.deepEqual(report.rows[2].issues.map((issue) => issue.message), ["Same code as row 3"]);
+  assert.deepEqual(report.summary, { total: 4, ok: 0, warnings: 3, errors: 1, duplicates: 3 });
+});
@@ -0,0 +1,168 @@
+import { normalizePhoneE164 } from "@/lib/contact-channels";
+import { LIST_SHEET_FIELDS, SHEET_FIELDS_BY_DATASET, type SheetSyncDataset } from "@/lib/sheet-sync";
+import type { EffectiveFieldDefinition } from "@/types/hierarchy";
+
+export type SheetImportIssue = { field: string; severity: "error" | "warning"; message: string };
+
+export type SheetImportRowStatus = "ok" | "warning" | "error";
+
+export type SheetImportRowReport = {
+  sheet_row: number;
+  code: string;
+  phone: string;
+  status: SheetImportRowStatus;
+  issues: SheetImportIssue[];
+};
+
+export type SheetImportSummary = { total: number; ok: number; warnings: number; errors: number; duplicates: number };
+
+export type SheetImportReport = {
+  dataset: SheetSyncDataset;
+  tab: string;
+  rows: SheetImportRowReport[];
+  summary: SheetImportSummary;
+};
+
+export type SheetImportBatch = {
+  id: string;
+  source: "google_sheets" | "file";
+  spreadsheet_id: string | null;
+  file_name: string | null;
+  dataset: SheetSyncDataset;
+  tab_name: string;
+  status: "imported" | "rolled_back";
+  row_count: number;
+  created_count: number;
+  skipped_count: number;
+  summary: Partial<SheetImportSummary>;
+  rollback_counts: { deleted_sessions?: number; archived_records?: number; kept_updates?: number };
+  created_by: string | null;
+  created_at: string;
+  rolled_back_by: string | null;
+  rolled_back_at: string | null;
+};
+
+/** Keys already present in the CRM: upper-cased codes and E.164 phones. */
+export type ExistingImportKeys = { codes: Set<string>; phones: Set<string> };
+
+const TRUE_VALUES = ["true", "yes", "y", "1"];
+const FALSE_VALUES = ["false", "no", "n", "0"];
+
+export function fieldSelectOptions(field: EffectiveFieldDefinition) {
+  const options = field.effective_options_json || {};
+  const directOptions = Array.isArray(options["options"]) ? options["options"] : Array.isArray(options["values"]) ? options["values"] : [];
+  return directOptions.map((option) => String(option)).filter(Boolean);
+}
+
+/** Pairs each importable sheet field with its effective definition, matched by field key or core column. */
+export function importFieldDefinitions(dataset: SheetSyncDataset, fields: EffectiveFieldDefinition[]) {
+  const definitions = new Map<string, EffectiveFieldDefinition>();
+  SHEET_FIELDS_BY_DATASET[dataset].forEach((sheetField) => {
+    const field = fields.find((item) => item.field_key === sheetField) || fields.find((item) => item.core_column_name === sheetField);
+    if (field) definitions.set(sheetField, field);
+  });
+  return definitions;
+}
+
+function listItems(sheetField: string, text: string) {
+  return text
+    .split(LIST_SHEET_FIELDS.includes(sheetField) ? "|" : ",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function checkValue(sheetField: string, field: EffectiveFieldDefinition, text: string): string | null {
+  const label = field.effective_label || sheetField;
+  if (field.data_type === "integer" || field.data_type === "number") {
+    const numeric = text.replace(/[^\d.-]/g, "");
+    if (!numeric || !Number.isFinite(Number(numeric))) return `${label} "${text}" is not a number`;
+    if (field.data_type === "integer" && !Number.isInteger(Number(numeric))) return `${label} "${text}" must be a whole number`;
+    return null;
+  }
+  if (field.data_type === "boolean") {
+    return [...TRUE_VALUES, ...FALSE_VALUES].includes(text.toLowerCase()) ? null : `${label} "${text}" is not yes or no`;
+  }
+  if (field.data_type === "date" || field.data_type === "timestamp") {
+    return Number.isNaN(Date.parse(text)) ? `${label} "${text}" is not a date` : null;
+  }
+  if (field.data_type === "single_select" || field.data_type === "multi_select") {
+    const options = fieldSelectOptions(field);
+    if (options.length === 0) return null;
+    const allowed = new Set(options.map((option) => option.toLowerCase()));
+    const values = field.data_type === "multi_select" ? listItems(sheetField, text) : [text];
+    const invalid = values.filter((value) => !allowed.has(value.toLowerCase()));
+    return invalid.length ? `${label} "${invalid.join(", ")}" is not one of: ${options.join(", ")}` : null;
+  }
+  return null;
+}
+
+/** Checks one mapped row against the effective field definitions: required fields, data types and select options. */
+export function validateImportRow(definitions: Map<string, EffectiveFieldDefinition>, mapped: Record<string, string>) {
+  const issues: SheetImportIssue[] = [];
+  definitions.forEach((field, sheetField) => {
+    const text = String(mapped[sheetField] ?? "").trim();
+    if (!text) {
+      if (field.effective_required) issues.push({ field: sheetField, severity: "error", message: `${field.effective_label || sheetField} is required` });
+      return;
+    }
+    const problem = checkValue(sheetField, field, text);
+    if (problem) issues.push({ field: sheetField, severity: "error", message: problem });
+  });
+  return issues;
+}
+
+/**
+ * Builds the per-row report for a mapped tab. Duplicates (same code or phone as an earlier row, or as a CRM
+ * record) are warnings rather than errors, because review can still merge them into the existing record.
+ */
+export function buildImportReport(input: {
+  dataset: SheetSyncDataset;
+  tab: string;
+  definitions: Map<string, EffectiveFieldDefinition>;
+  rows: Array<Record<string, string>>;
+  existing: ExistingImportKeys;
+}): SheetImportReport {
+  const seenCodes = new Map<string, number>();
+  const seenPhones = new Map<string, number>();
+  let duplicates = 0;
+
+  const rows = input.rows.map<SheetImportRowReport>((mapped, index) => {
+    const sheetRow = index + 2;
+    const code = String(mapped.code ?? "").trim();
+    const phone = String(mapped.phone ?? "").trim();
+    const issues = validateImportRow(input.definitions, mapped);
+    const duplicateIssues: SheetImportIssue[] = [];
+
+    const codeKey = code.toUpperCase();
+    if (codeKey) {
+      if (input.existing.codes.has(codeKey)) duplicateIssues.push({ field: "code", severity: "warning", message: `Code ${code} already exists in the CRM` });
+      else if (seenCodes.has(codeKey)) duplicateIssues.push({ field: "code", severity: "warning", message: `Same code as row ${seenCodes.get(codeKey)}` });
+      else seenCodes.set(codeKey, sheetRow);
+    }
+
+    const phoneKey = normalizePhoneE164(phone);
+    if (phoneKey) {
+      if (input.existing.phones.has(phoneKey)) duplicateIssues.push({ field: "phone", severity: "warning", message: `Phone ${phone} already belongs to a CRM record` });
+      else if (seenPhones.has(phoneKey)) duplicateIssues.push({ field: "phone", severity: "warning", message: `Same phone as row ${seenPhones.get(phoneKey)}` });
+      else seenPhones.set(phoneKey, sheetRow);
+    }
+
+    if (duplicateIssues.length) duplicates += 1;
+    const allIssues = [...issues, ...duplicateIssues];
+    const status: SheetImportRowStatus = allIssues.some((issue) => issue.severity === "error") ? "error" : allIssues.length ? "warning" : "ok";
+    return { sheet_row: sheetRow, code, phone, status, issues: allIssues };
+  });
+
+  return {
+    dataset: input.dataset,
+    tab: input.tab,
+    rows,
+    summary: {
+      total: rows.length,
+      ok: rows.filter((row) => row.status === "ok").length,
+      warnings: rows.filter((row) => row.status === "warning").length,
+      errors: rows.filter((row) => row.status === "error").length,
+      duplicates
+    }
+  };
+}
@@ -0,0 +1,43 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { columnLetter, diffSheetRow, fromSheetCell, sheetRange, toSheetCell } from "@/lib/sheet-sync";
+
+const fields = ["price", "area", "notes"];
+
+test("one-sided edits push or pull and edits on both sides conflict", () => {
+  const base = { price: "1500000", area: "Zayed", notes: "" };
+  assert.deepEqual(
+    diffSheetRow({ fields, base, crmChanged: true, crm: { price: "1450000", area: "Zayed", notes: "" }, sheet: { price: "1500000", area: "Sheikh Zayed", notes: "" } }),
+    { push: ["price"], pull: ["area"], conflicts: [] }
+  );
+  assert.deepEqual(
+    diffSheetRow({ fields, base, crmChanged: true, crm: { price: "1450000", area: "Zayed", notes: "" }, sheet: { price: "1400000", area: "Zayed", notes: "" } }),
+    { push: [], pull: [], conflicts: ["price"] }
+  );
+  // Same edit on both sides is already in agreement.
+  assert.deepEqual(
+    diffSheetRow({ fields, base, crmChanged: true, crm: { price: "1450000", area: "Zayed", notes: "" }, sheet: { price: "1450000.00", area: "Zayed", notes: "" } }),
+    { push: [], pull: [], conflicts: [] }
+  );
+});
+
+test("an untouched CRM record never overrides a sheet edit, and rows without a snapshot need a decision", () => {
+  const base = { price: "1500000", area: "Zayed", notes: "" };
+  assert.deepEqual(
+    diffSheetRow({ fields, base, crmChanged: false, crm: { price: "1500000", area: "Zayed", notes: "" }, sheet: { price: "1500000", area: "Zayed", notes: "call first" } }),
+    { push: [], pull: ["notes"], conflicts: [] }
+  );
+  assert.deepEqual(
+    diffSheetRow({ fields, base: null, crmChanged: true, crm: { price: "1500000", area: "Zayed", notes: "" }, sheet: { price: "1600000", area: "Zayed", notes: "" } }),
+    { push: [], pull: [], conflicts: ["price"] }
+  );
+});
+
+test("cells round-trip CRM values and ranges quote tab names", () => {
+  assert.equal(toSheetCell(["Zayed", "October"]), "Zayed | October");
+  assert.deepEqual(fromSheetCell("preferred_areas", "Zayed | October"), ["Zayed", "October"]);
+  assert.equal(fromSheetCell("price", "EGP 1,500,000"), 1500000);
+  assert.equal(fromSheetCell("price", ""), null);
+  assert.deepEqual([0, 25, 26, 701].map(columnLetter), ["A", "Z", "AA", "ZZ"]);
+  assert.equal(sheetRange("Owner's sale sync", "B7"), "'Owner''s sale sync'!B7");
+});
@@ -0,0 +1,132 @@
+export type SheetSyncDataset = "sale" | "rent" | "buyer" | "client";
+
+export const SHEET_FIELDS_BY_DATASET: Record<SheetSyncDataset, string[]> = {
+  sale: ["code", "source", "price", "currency", "size_sqm", "bedrooms", "bathrooms", "area", "compound", "floor", "furnished", "finishing", "payment_terms", "notes", "status"],
+  rent: ["code", "source", "price", "currency", "size_sqm", "bedrooms", "bathrooms", "area", "compound", "floor", "furnished", "finishing", "payment_terms", "notes", "status"],
+  buyer: ["code", "source", "phone", "currency", "intent", "property_type", "budget_min", "budget_max", "preferred_areas", "bedrooms_needed", "timeline", "notes", "status"],
+  client: ["code", "source", "name", "phone", "role", "area", "tags", "status"]
+};
+
+export const NUMERIC_SHEET_FIELDS = ["price", "size_sqm", "budget_min", "budget_max", "bedrooms", "bathrooms", "floor", "bedrooms_needed"];
+export const LIST_SHEET_FIELDS = ["preferred_areas", "tags"];
+
+// Column A of a sync tab, hidden in the sheet; it is what ties a row to its CRM record.
+export const SHEET_SYNC_ID_COLUMN = "crm_id";
+
+export const SHEET_SYNC_OUTCOMES = ["unchanged", "pushed", "pulled", "merged", "added_to_sheet", "conflict", "skipped", "error"] as const;
+export type SheetSyncOutcome = (typeof SHEET_SYNC_OUTCOMES)[number];
+
+export type SheetSyncCounts = Record<SheetSyncOutcome, number>;
+
+export type SheetSyncRun = {
+  id: string;
+  spreadsheet_id: string;
+  dataset: SheetSyncDataset;
+  tab_name: string;
+  status: "running" | "completed" | "failed";
+  counts: Partial<SheetSyncCounts>;
+  error: string | null;
+  started_by: string | null;
+  started_at: string;
+  finished_at: string | null;
+};
+
+export type SheetSyncConflictDetail = { crm: Record<string, string>; sheet: Record<string, string>; base: Record<string, string> };
+
+export type SheetSyncRowOutcome = {
+  id: string;
+  run_id: string;
+  record_id: string | null;
+  code: string;
+  sheet_row: number | null;
+  outcome: SheetSyncOutcome;
+  fields: string[];
+  detail: Record<string, unknown>;
+  resolution: "crm" | "sheet" | null;
+  resolved_at: string | null;
+  created_at: string;
+};
+
+/** Code is shown for reference only; every other field syncs both ways. */
+export function sheetSyncFields(dataset: SheetSyncDataset) {
+  return SHEET_FIELDS_BY_DATASET[dataset].filter((field) => field !== "code");
+}
+
+/** The text a CRM value is written to (and compared with) in the sheet. */
+export function toSheetCell(value: unknown) {
+  if (Array.isArray(value)) return value.map((item) => String(item)).join(" | ");
+  if (value === null || value === undefined) return "";
+  return String(value).trim();
+}
+
+/** Parses a sheet cell back into the column's CRM value; numbers that do not parse become null. */
+export function fromSheetCell(field: string, cell: string): unknown {
+  const text = cell.trim();
+  if (NUMERIC_SHEET_FIELDS.includes(field)) {
+    const numeric = text.replace(/[^\d.-]/g, "");
+    return numeric && Number.isFinite(Number(numeric)) ? Number(numeric) : null;
+  }
+  if (LIST_SHEET_FIELDS.includes(field)) {
+    return text
+      .split("|")
+      .map((item) => item.trim())
+      .filter(Boolean);
+  }
+  return text;
+}
+
+/** Canonical cell text for comparisons, so "1500000.00" in the CRM equals 1500000 in the sheet. */
+export function normalizeSheetCell(field: string, cell: string) {
+  return toSheetCell(fromSheetCell(field, cell));
+}
+
+export type SheetRowDiff = { push: string[]; pull: string[]; conflicts: string[] };
+
+/**
+ * Three-way diff of one row against the last-sync snapshot. `crmChanged` comes from comparing the record's
+ * `updated_at` with the snapshot's, so an untouched record never pushes even if the snapshot lacks a field.
+ * Both sides changing a field to the same value is not a conflict.
+ */
+export function diffSheetRow(input: {
+  fields: string[];
+  crm: Record<string, string>;
+  sheet: Record<string, string>;
+  base: Record<string, string> | null;
+  crmChanged: boolean;
+}): SheetRowDiff {
+  const diff: SheetRowDiff = { push: [], pull: [], conflicts: [] };
+  for (const field of input.fields) {
+    const crm = normalizeSheetCell(field, input.crm[field] ?? "");
+    const sheet = normalizeSheetCell(field, input.sheet[field] ?? "");
+    if (crm === sheet) continue;
+    // Without a snapshot neither side can be called the edit, so every difference needs a decision.
+    if (!input.base) {
+      diff.conflicts.push(field);
+      continue;
+    }
+    const base = normalizeSheetCell(field, input.base[field] ?? "");
+    const crmEdited = input.crmChanged && crm !== base;
+    const sheetEdited = sheet !== base;
+    if (crmEdited && sheetEdited) diff.conflicts.push(field);
+    else if (sheetEdited) diff.pull.push(field);
+    else diff.push.push(field);
+  }
+  return diff;
+}
+
+/** Zero-based column index to A1 letters: 0 → A, 25 → Z, 26 → AA. */
+export function columnLetter(index: number) {
+  let letters = "";
+  let remaining = index + 1;
+  while (remaining > 0) {
+    const mod = (remaining - 1) % 26;
+    letters = String.fromCharCode(65 + mod) + letters;
+    remaining = Math.floor((remaining - 1) / 26);
+  }
+  return letters;
+}
+
+/** A1 range for a tab whose title may contain spaces or quotes. */
+export function sheetRange(tabName: string, cells: string) {
+  return `'${tabName.replace(/'/g, "''")}'!${cells}`;
+}
@@ -0,0 +1,43 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { formatIntakeReply, parseTelegramUpdate } from "@/lib/telegram";
+
+test("telegram photo messages keep the largest size and the caption", () => {
+  const message = parseTelegramUpdate({
+    update_id: 1,
+    message: {
+      message_id: 7,
+      media_group_id: "album-1",
+      chat: { id: 99, type: "private", first_name: "Mona" },
+      from: { first_name: "Mona", username: "mona_agent" },
+      caption: "Villa for sale in Mivida, 12M EGP",
+      photo: [
+        { file_id: "small", file_size: 1000 },
+        { file_id: "large", file_size: 90000 }
+      ]
+    }
+  });
+  assert.ok(message);
+  assert.equal(message.text, "Villa for sale in Mivida, 12M EGP");
+  assert.equal(message.mediaGroupId, "album-1");
+  assert.deepEqual(message.files, [{ fileId: "large", kind: "image", filename: "photo_7.jpg", size: 90000 }]);
+  assert.equal(message.command, null);
+});
+
+test("telegram commands are split from intake text and non-message updates are ignored", () => {
+  const message = parseTelegramUpdate({ message: { message_id: 3, chat: { id: -100 }, text: "/link@crm_bot AB12CD" } });
+  assert.deepEqual(message?.command, { name: "link", args: "AB12CD" });
+  assert.equal(message?.text, "");
+  assert.equal(parseTelegramUpdate({ edited_message: { message_id: 1, chat: { id: 1 }, text: "x" } }), null);
+
+  const document = parseTelegramUpdate({ message: { message_id: 4, chat: { id: 5 }, document: { file_id: "d1", mime_type: "application/pdf" } } });
+  assert.deepEqual(document?.files, [{ fileId: "d1", kind: "document", filename: "file_4.pdf", size: null }]);
+});
+
+test("intake reply names the detected type and links to the inbox", () => {
+  const reply = formatIntakeReply({ created: true, detectedType: "sale", inboxUrl: "https://crm.test/inbox/abc", mediaImported: 2, mediaErrors: 1 });
+  assert.equal(
+    reply,
+    ["Received — a new intake was opened.", "Detected type: sale listing.", "Saved 2 files.", "1 file could not be saved.", "Review: https://crm.test/inbox/abc"].join("\n")
+  );
+});
@@ -0,0 +1,111 @@
+// Messages from one chat closer together than this are grouped into a single intake session.
+export const TELEGRAM_GROUP_WINDOW_SECONDS = 120;
+
+export type TelegramFileKind = "image" | "video" | "document";
+
+export type TelegramIncomingFile = {
+  fileId: string;
+  kind: TelegramFileKind;
+  filename: string;
+  size: number | null;
+};
+
+export type TelegramIncomingMessage = {
+  chatId: number;
+  chatType: string;
+  chatTitle: string;
+  username: string;
+  senderName: string;
+  messageId: number;
+  text: string;
+  mediaGroupId: string | null;
+  files: TelegramIncomingFile[];
+  command: { name: string; args: string } | null;
+};
+
+type TelegramFile = { file_id?: string; file_name?: string; file_size?: number; mime_type?: string };
+
+type TelegramUpdate = {
+  update_id?: number;
+  message?: {
+    message_id?: number;
+    media_group_id?: string;
+    chat?: { id?: number; type?: string; title?: string; username?: string; first_name?: string; last_name?: string };
+    from?: { first_name?: string; last_name?: string; username?: string };
+    text?: string;
+    caption?: string;
+    photo?: TelegramFile[];
+    video?: TelegramFile;
+    document?: TelegramFile;
+  };
+};
+
+function extensionFromMime(mimeType: string | undefined, fallback: string) {
+  const subtype = String(mimeType || "").split("/")[1];
+  return subtype ? subtype.replace(/[^a-z0-9]/gi, "").slice(0, 8) || fallback : fallback;
+}
+
+/**
+ * Reduces a Bot API update to what intake needs; returns null for updates that are not new messages
+ * (edits, callbacks, channel posts). Photos keep only their largest size.
+ */
+export function parseTelegramUpdate(update: unknown): TelegramIncomingMessage | null {
+  const message = (update as TelegramUpdate | null)?.message;
+  const chatId = Number(message?.chat?.id);
+  if (!message || !Number.isFinite(chatId) || !message.message_id) return null;
+
+  const files: TelegramIncomingFile[] = [];
+  const photo = Array.isArray(message.photo) ? message.photo[message.photo.length - 1] : null;
+  if (photo?.file_id) {
+    files.push({ fileId: photo.file_id, kind: "image", filename: `photo_${message.message_id}.jpg`, size: photo.file_size ?? null });
+  }
+  if (message.video?.file_id) {
+    const video = message.video;
+    files.push({ fileId: video.file_id!, kind: "video", filename: video.file_name || `video_${message.message_id}.${extensionFromMime(video.mime_type, "mp4")}`, size: video.file_size ?? null });
+  }
+  if (message.document?.file_id) {
+    const document = message.document;
+    const kind: TelegramFileKind = String(document.mime_type || "").startsWith("image/") ? "image" : String(document.mime_type || "").startsWith("video/") ? "video" : "document";
+    files.push({ fileId: document.file_id!, kind, filename: document.file_name || `file_${message.message_id}.${extensionFromMime(document.mime_type, "bin")}`, size: document.file_size ?? null });
+  }
+
+  const text = String(message.text ?? message.caption ?? "").trim();
+  const commandMatch = message.text ? text.match(/^\/([a-z_]+)(?:@\w+)?(?:\s+([\s\S]*))?$/i) : null;
+  const senderName = [message.from?.first_name, message.from?.last_name].filter(Boolean).join(" ") || message.from?.username || "";
+
+  return {
+    chatId,
+    chatType: String(message.chat?.type || "private"),
+    chatTitle: String(message.chat?.title || [message.chat?.first_name, message.chat?.last_name].filter(Boolean).join(" ") || ""),
+    username: String(message.chat?.username || message.from?.username || ""),
+    senderName,
+    messageId: message.message_id,
+    text: commandMatch ? "" : text,
+    mediaGroupId: message.media_group_id || null,
+    files,
+    command: commandMatch ? { name: commandMatch[1].toLowerCase(), args: String(commandMatch[2] || "").trim() } : null
+  };
+}
+
+const INTAKE_TYPE_LABELS: Record<string, string> = {
+  sale: "sale listing",
+  rent: "rent listing",
+  buyer: "buyer request",
+  client: "client",
+  other: "other"
+};
+
+export function formatIntakeReply(input: {
+  created: boolean;
+  detectedType: string;
+  inboxUrl: string;
+  mediaImported: number;
+  mediaErrors: number;
+}) {
+  const lines = [input.created ? "Received — a new intake was opened." : "Added to your current intake."];
+  if (input.detectedType) lines.push(`Detected type: ${INTAKE_TYPE_LABELS[input.detectedType] || input.detectedType}.`);
+  if (input.mediaImported) lines.push(`Saved ${input.mediaImported} file${input.mediaImported === 1 ? "" : "s"}.`);
+  if (input.mediaErrors) lines.push(`${input.mediaErrors} file${input.mediaErrors === 1 ? "" : "s"} could not be saved.`);
+  lines.push(`Review: ${input.inboxUrl}`);
+  return lines.join("\n");
+}
@@ -0,0 +1,38 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { buildDigestLink, buildDigestMessage, isDigestDue } from "@/lib/view-digests";
+
+const schedule = { is_active: true, send_hour: 8, timezone: "Africa/Cairo", last_run_at: null };
+
+test("digest is due once per local day after its send hour", () => {
+  // 05:30 UTC is 08:30 in Cairo (UTC+3 in October).
+  assert.equal(isDigestDue(schedule, new Date("2026-10-19T05:30:00Z")), true);
+  assert.equal(isDigestDue(schedule, new Date("2026-10-19T04:30:00Z")), false);
+  assert.equal(isDigestDue({ ...schedule, last_run_at: "2026-10-19T05:05:00Z" }, new Date("2026-10-19T12:00:00Z")), false);
+  assert.equal(isDigestDue({ ...schedule, last_run_at: "2026-10-18T05:05:00Z" }, new Date("2026-10-19T05:30:00Z")), true);
+  assert.equal(isDigestDue({ ...schedule, is_active: false }, new Date("2026-10-19T05:30:00Z")), false);
+});
+
+test("digest links prefer the saved view and otherwise carry the filters", () => {
+  const base = { grid_type: "buyer" as const, filters: { status: "hot" }, hierarchy_node_id: null, archive_scope: "active" as const };
+  assert.equal(buildDigestLink("https://crm.test", { ...base, saved_view_id: "view-1" }), "https://crm.test/buyers?savedView=view-1");
+  assert.equal(
+    buildDigestLink("https://crm.test", { ...base, saved_view_id: null }, "row-9"),
+    `https://crm.test/buyers?filters=${encodeURIComponent('{"status":"hot"}')}&open=row-9`
+  );
+});
+
+test("digest message summarises count, top rows and the deep link", () => {
+  const message = buildDigestMessage({
+    subscription: { name: "New sale", grid_type: "sale", saved_view_id: null, filters: { preset: "new_today" }, hierarchy_node_id: null, archive_scope: "active", timezone: "UTC" },
+    rows: [{ id: "a", code: "S-1", status: "new", compound: "Mivida", area: "New Cairo", price: 5000000, currency: "EGP", bedrooms: 3 }],
+    total: 4,
+    baseUrl: "https://crm.test",
+    generatedAt: new Date("2026-10-19T09:00:00Z")
+  });
+  assert.equal(message.subject, "New sale: 4 records (2026-10-19)");
+  assert.match(message.text, /S-1 \[new\] — Mivida, New Cairo · 5,000,000 EGP · 3 bd/);
+  assert.match(message.text, /…and 3 more\./);
+  assert.match(message.text, /Open in CRM: https:\/\/crm\.test\/sale\?filters=/);
+  assert.match(message.html || "", /open=a/);
+});
@@ -0,0 +1,159 @@
+import { GRID_FILTERS_URL_PARAM, SAVED_VIEW_URL_PARAM, type SavedViewGridType } from "@/lib/saved-views";
+
+export type ViewDigestChannel = "email" | "telegram";
+export type ViewDigestStatus = "sent" | "failed" | "not_configured";
+
+export type ViewDigestSubscription = {
+  id: string;
+  name: string;
+  grid_type: SavedViewGridType;
+  saved_view_id: string | null;
+  filters: Record<string, unknown>;
+  sorts: Array<{ field: string; direction: "asc" | "desc" }>;
+  hierarchy_node_id: string | null;
+  archive_scope: "active" | "archived" | "all";
+  channel: ViewDigestChannel;
+  destination: string;
+  send_hour: number;
+  timezone: string;
+  top_n: number;
+  is_active: boolean;
+  last_run_at: string | null;
+  last_status: ViewDigestStatus | null;
+  last_error: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type ViewDigestDelivery = {
+  id: string;
+  subscription_id: string;
+  channel: ViewDigestChannel;
+  destination: string;
+  status: ViewDigestStatus;
+  total: number | null;
+  detail: string | null;
+  created_at: string;
+};
+
+export const GRID_PATH_BY_TYPE: Record<SavedViewGridType, string> = {
+  sale: "/sale",
+  rent: "/rent",
+  buyer: "/buyers",
+  client: "/clients"
+};
+
+const GRID_LABEL_BY_TYPE: Record<SavedViewGridType, string> = {
+  sale: "Sale listings",
+  rent: "Rent listings",
+  buyer: "Buyers",
+  client: "Clients"
+};
+
+/** Calendar date and 0–23 hour of an instant in an IANA timezone; unknown zones fall back to UTC. */
+export function localDateParts(date: Date, timezone: string) {
+  let formatter: Intl.DateTimeFormat;
+  try {
+    formatter = new Intl.DateTimeFormat("en-CA", { timeZone: timezone, year: "numeric", month: "2-digit", day: "2-digit", hour: "2-digit", hourCycle: "h23" });
+  } catch {
+    formatter = new Intl.DateTimeFormat("en-CA", { timeZone: "UTC", year: "numeric", month: "2-digit", day: "2-digit", hour: "2-digit", hourCycle: "h23" });
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(date).map((part) => [part.type, part.value]));
+  return { date: `${parts.year}-${parts.month}-${parts.day}`, hour: Number(parts.hour) % 24 };
+}
+
+/**
+ * A digest is due once its local send hour has passed and it has not run yet that local day,
+ * so an hourly (or late) scheduler still sends exactly one digest per day.
+ */
+export function isDigestDue(subscription: Pick<ViewDigestSubscription, "is_active" | "send_hour" | "timezone" | "last_run_at">, now = new Date()) {
+  if (!subscription.is_active) return false;
+  const local = localDateParts(now, subscription.timezone);
+  if (local.hour < subscription.send_hour) return false;
+  if (!subscription.last_run_at) return true;
+  return localDateParts(new Date(subscription.last_run_at), subscription.timezone).date !== local.date;
+}
+
+/** Deep link that opens the grid on the same rows: the saved view when linked, otherwise the stored filters. */
+export function buildDigestLink(baseUrl: string, subscription: Pick<ViewDigestSubscription, "grid_type" | "saved_view_id" | "filters" | "hierarchy_node_id" | "archive_scope">, openId?: string) {
+  const query = new URLSearchParams();
+  if (subscription.saved_view_id) {
+    query.set(SAVED_VIEW_URL_PARAM, subscription.saved_view_id);
+  } else {
+    if (Object.keys(subscription.filters).length > 0) query.set(GRID_FILTERS_URL_PARAM, JSON.stringify(subscription.filters));
+    if (subscription.hierarchy_node_id) query.set("nodeId", subscription.hierarchy_node_id);
+    if (subscription.archive_scope !== "active") query.set("archiveScope", subscription.archive_scope);
+  }
+  if (openId) query.set("open", openId);
+  const search = query.toString();
+  return `${baseUrl}${GRID_PATH_BY_TYPE[subscription.grid_type]}${search ? `?${search}` : ""}`;
+}
+
+function formatNumber(value: unknown) {
+  const num = Number(value);
+  return value === null || value === undefined || value === "" || !Number.isFinite(num) ? "" : num.toLocaleString("en-US");
+}
+
+/** One-line summary of a grid row, picking the fields a manager scans first for each grid. */
+export function summarizeDigestRow(type: SavedViewGridType, row: Record<string, unknown>) {
+  const text = (value: unknown) => (value === null || value === undefined ? "" : String(value).trim());
+  const parts: string[] = [];
+  if (type === "sale" || type === "rent") {
+    parts.push([text(row.compound), text(row.area)].filter(Boolean).join(", "));
+    const price = formatNumber(row.price);
+    if (price) parts.push(`${price} ${text(row.currency)}`.trim());
+    if (text(row.bedrooms)) parts.push(`${text(row.bedrooms)} bd`);
+  } else if (type === "buyer") {
+    const budget = [formatNumber(row.budget_min), formatNumber(row.budget_max)].filter(Boolean).join("–");
+    if (budget) parts.push(`${budget} ${text(row.currency)}`.trim());
+    if (Array.isArray(row.preferred_areas)) parts.push(row.preferred_areas.map(String).join(", "));
+    parts.push(text(row.property_type));
+  } else {
+    parts.push(text(row.name), text(row.area));
+  }
+  const status = text(row.status);
+  const details = parts.filter(Boolean).join(" · ");
+  return `${text(row.code) || text(row.id)}${status ? ` [${status}]` : ""}${details ? ` — ${details}` : ""}`;
+}
+
+function escapeHtml(value: string) {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+export function buildDigestMessage(input: {
+  subscription: Pick<ViewDigestSubscription, "name" | "grid_type" | "saved_view_id" | "filters" | "hierarchy_node_id" | "archive_scope" | "timezone">;
+  rows: Array<Record<string, unknown>>;
+  total: number;
+  baseUrl: string;
+  generatedAt?: Date;
+}) {
+  const { subscription, rows, total, baseUrl } = input;
+  const generatedAt = input.generatedAt || new Date();
+  const link = buildDigestLink(baseUrl, subscription);
+  const day = localDateParts(generatedAt, subscription.timezone).date;
+  const label = GRID_LABEL_BY_TYPE[subscription.grid_type];
+  const subject = `${subscription.name}: ${total} ${total === 1 ? "record" : "records"} (${day})`;
+  const lines = rows.map((row) => summarizeDigestRow(subscription.grid_type, row));
+
+  const text = [
+    `${label} matching "${subscription.name}": ${total}`,
+    "",
+    ...(lines.length ? lines.map((line) => `• ${line}`) : ["No matching records today."]),
+    ...(total > rows.length ? ["", `…and ${total - rows.length} more.`] : []),
+    "",
+    `Open in CRM: ${link}`
+  ].join("\n");
+
+  const items = rows
+    .map((row, index) => `<li><a href="${escapeHtml(buildDigestLink(baseUrl, subscription, String(row.id)))}">${escapeHtml(lines[index])}</a></li>`)
+    .join("");
+  const html = [
+    `<p><strong>${escapeHtml(label)}</strong> matching “${escapeHtml(subscription.name)}”: <strong>${total}</strong></p>`,
+    items ? `<ul>${items}</ul>` : "<p>No matching records today.</p>",
+    total > rows.length ? `<p>…and ${total - rows.length} more.</p>` : "",
+    `<p><a href="${escapeHtml(link)}">Open in CRM</a></p>`
+  ].join("");
+
+  return { subject, text, html, link };
+}
@@ -0,0 +1,22 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { VOICEFLOW_RETRY_DELAYS_MINUTES, nextVoiceflowRetryAt, voiceflowTranscriptToText } from "@/lib/voiceflow";
+
+test("voiceflow transcripts flatten into labelled intake text", () => {
+  const text = voiceflowTranscriptToText([
+    { role: "assistant", text: "How many bedrooms?" },
+    { role: "user", text: "3 bedrooms in Sheikh Zayed" },
+    { speaker: "caller", message: "  " },
+    { role: "user", message: "Budget 8 million" }
+  ]);
+  assert.equal(text, "Bot: How many bedrooms?\nCaller: 3 bedrooms in Sheikh Zayed\nCaller: Budget 8 million");
+  assert.equal(voiceflowTranscriptToText("  plain transcript "), "plain transcript");
+  assert.equal(voiceflowTranscriptToText({ not: "a transcript" }), "");
+});
+
+test("voiceflow retries back off and stop after the last delay", () => {
+  const now = new Date("2026-10-19T10:00:00Z");
+  assert.equal(nextVoiceflowRetryAt(1, now)?.toISOString(), "2026-10-19T10:01:00.000Z");
+  assert.equal(nextVoiceflowRetryAt(3, now)?.toISOString(), "2026-10-19T10:30:00.000Z");
+  assert.equal(nextVoiceflowRetryAt(VOICEFLOW_RETRY_DELAYS_MINUTES.length + 1, now), null);
+});
@@ -0,0 +1,35 @@
+export type VoiceflowEventName = "intake.confirmed" | "record.archived" | "task.assigned";
+
+export type VoiceflowDeliveryStatus = "pending" | "sent" | "failed" | "dead";
+
+export type VoiceflowTranscriptTurn = { role?: string; speaker?: string; text?: string; message?: string };
+
+// Minutes to wait before each retry; a delivery that fails after the last one is marked dead.
+export const VOICEFLOW_RETRY_DELAYS_MINUTES = [1, 5, 30, 120, 720];
+
+/** When the next attempt is due after `attempts` failures, or null once retries are exhausted. */
+export function nextVoiceflowRetryAt(attempts: number, now = new Date()) {
+  const delay = VOICEFLOW_RETRY_DELAYS_MINUTES[attempts - 1];
+  return delay === undefined ? null : new Date(now.getTime() + delay * 60_000);
+}
+
+function speakerLabel(turn: VoiceflowTranscriptTurn) {
+  const role = String(turn.role || turn.speaker || "").toLowerCase();
+  if (["user", "caller", "customer", "human"].includes(role)) return "Caller";
+  if (["assistant", "bot", "system", "agent", "ai"].includes(role)) return "Bot";
+  return role ? role[0].toUpperCase() + role.slice(1) : "Caller";
+}
+
+/**
+ * Flattens a Voiceflow transcript (plain text or role-tagged turns) into intake raw text.
+ * Bot turns are kept, labelled, because callers often only answer the bot's questions ("3 bedrooms").
+ */
+export function voiceflowTranscriptToText(transcript: unknown) {
+  if (typeof transcript === "string") return transcript.trim();
+  if (!Array.isArray(transcript)) return "";
+  return (transcript as VoiceflowTranscriptTurn[])
+    .map((turn) => ({ label: speakerLabel(turn), text: String(turn?.text ?? turn?.message ?? "").trim() }))
+    .filter((turn) => turn.text)
+    .map((turn) => `${turn.label}: ${turn.text}`)
+    .join("\n");
+}
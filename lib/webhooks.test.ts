@@ -0,0 +1,25 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { WEBHOOK_MAX_ATTEMPTS, buildWebhookBody, isWebhookEvent, nextWebhookRetryAt } from "@/lib/webhooks";
+
+test("webhook retries back off exponentially and stop after the last attempt", () => {
+  const now = new Date("2026-10-30T10:00:00.000Z");
+  const delayMinutes = (attempts: number) => {
+    const next = nextWebhookRetryAt(attempts, now);
+    return next ? (next.getTime() - now.getTime()) / 60_000 : null;
+  };
+  assert.deepEqual([1, 2, 3, 4, 5].map(delayMinutes), [1, 2, 4, 8, 16]);
+  assert.equal(delayMinutes(WEBHOOK_MAX_ATTEMPTS - 1), 256);
+  assert.equal(delayMinutes(WEBHOOK_MAX_ATTEMPTS), null);
+});
+
+test("webhook bodies carry the shared event id and only known events are accepted", () => {
+  assert.deepEqual(buildWebhookBody({ eventId: "evt-1", event: "task.completed", occurredAt: "2026-10-30T10:00:00.000Z", data: { task_id: "t1" } }), {
+    id: "evt-1",
+    event: "task.completed",
+    occurred_at: "2026-10-30T10:00:00.000Z",
+    data: { task_id: "t1" }
+  });
+  assert.equal(isWebhookEvent("record.archived"), true);
+  assert.equal(isWebhookEvent("record.exploded"), false);
+});
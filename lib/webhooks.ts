@@ -0,0 +1,71 @@
+export const WEBHOOK_EVENTS = [
+  "record.created",
+  "record.updated",
+  "record.archived",
+  "record.deleted",
+  "intake.confirmed",
+  "task.completed",
+  "media.uploaded"
+] as const;
+
+export type WebhookEventName = (typeof WEBHOOK_EVENTS)[number];
+
+export type WebhookDeliveryStatus = "pending" | "sent" | "failed" | "dead";
+
+export type WebhookSubscription = {
+  id: string;
+  name: string;
+  url: string;
+  events: WebhookEventName[];
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type WebhookDelivery = {
+  id: string;
+  subscription_id: string;
+  event_id: string;
+  event: WebhookEventName;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string | null;
+  last_response_status: number | null;
+  last_error: string | null;
+  delivered_at: string | null;
+  created_at: string;
+};
+
+export type WebhookDeliveryAttempt = {
+  id: string;
+  delivery_id: string;
+  attempt: number;
+  response_status: number | null;
+  response_body: string | null;
+  error: string | null;
+  duration_ms: number;
+  created_at: string;
+};
+
+// After this many failed attempts a delivery is dead-lettered; backoff doubles from one minute, capped at 12 hours.
+export const WEBHOOK_MAX_ATTEMPTS = 10;
+const WEBHOOK_RETRY_BASE_MINUTES = 1;
+const WEBHOOK_RETRY_MAX_MINUTES = 720;
+
+export function isWebhookEvent(value: unknown): value is WebhookEventName {
+  return WEBHOOK_EVENTS.includes(value as WebhookEventName);
+}
+
+/** When the next attempt is due after `attempts` failures, or null once the delivery should be dead-lettered. */
+export function nextWebhookRetryAt(attempts: number, now = new Date()) {
+  if (attempts >= WEBHOOK_MAX_ATTEMPTS) return null;
+  const delay = Math.min(WEBHOOK_RETRY_BASE_MINUTES * 2 ** Math.max(attempts - 1, 0), WEBHOOK_RETRY_MAX_MINUTES);
+  return new Date(now.getTime() + delay * 60_000);
+}
+
+/** The JSON body every subscriber receives; `id` is shared by all deliveries of one event so receivers can dedupe. */
+export function buildWebhookBody(input: { eventId: string; event: WebhookEventName; occurredAt: string; data: Record<string, unknown> }) {
+  return { id: input.eventId, event: input.event, occurred_at: input.occurredAt, data: input.data };
+}
@@ -0,0 +1,64 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { buildWhatsAppTemplate, parseWhatsAppWebhook } from "@/lib/whatsapp";
+
+function webhook(messages: unknown[], extra: Record<string, unknown> = {}) {
+  return {
+    object: "whatsapp_business_account",
+    entry: [
+      {
+        id: "WABA_ID",
+        changes: [
+          {
+            field: "messages",
+            value: {
+              messaging_product: "whatsapp",
+              metadata: { display_phone_number: "201000000000", phone_number_id: "PNID" },
+              contacts: [{ wa_id: "201001234567", profile: { name: "Mona" } }],
+              messages,
+              ...extra
+            }
+          }
+        ]
+      }
+    ]
+  };
+}
+
+test("whatsapp text and captioned media messages become intake messages", () => {
+  const messages = parseWhatsAppWebhook(
+    webhook([
+      { id: "wamid.TEXT1", from: "201001234567", timestamp: "1760000000", type: "text", text: { body: " Apartment for rent in Zayed " } },
+      { id: "wamid.IMG1", from: "201001234567", type: "image", image: { id: "MEDIA1", mime_type: "image/jpeg", caption: "Living room" } },
+      { id: "wamid.DOC1", from: "201001234567", type: "document", document: { id: "MEDIA2", mime_type: "application/pdf", filename: "floorplan.pdf" } }
+    ])
+  );
+
+  assert.equal(messages.length, 3);
+  assert.deepEqual(messages[0], {
+    messageId: "wamid.TEXT1",
+    from: "201001234567",
+    senderName: "Mona",
+    phoneNumberId: "PNID",
+    timestamp: "2025-10-09T08:53:20.000Z",
+    text: "Apartment for rent in Zayed",
+    files: []
+  });
+  assert.equal(messages[1].text, "Living room");
+  assert.deepEqual(messages[1].files, [{ mediaId: "MEDIA1", kind: "image", filename: "photo_wamidIMG1.jpeg", mimeType: "image/jpeg" }]);
+  assert.deepEqual(messages[2].files, [{ mediaId: "MEDIA2", kind: "document", filename: "floorplan.pdf", mimeType: "application/pdf" }]);
+});
+
+test("whatsapp status callbacks, reactions and other objects are ignored", () => {
+  assert.deepEqual(parseWhatsAppWebhook(webhook([], { messages: undefined, statuses: [{ id: "wamid.X", status: "read" }] })), []);
+  assert.deepEqual(parseWhatsAppWebhook(webhook([{ id: "wamid.R", from: "201001234567", type: "reaction", reaction: { emoji: "👍" } }])), []);
+  assert.deepEqual(parseWhatsAppWebhook({ object: "page", entry: [] }), []);
+  assert.deepEqual(parseWhatsAppWebhook(null), []);
+});
+
+test("whatsapp templates only carry a body component when parameters are given", () => {
+  assert.deepEqual(buildWhatsAppTemplate({ name: "viewing_reminder", languageCode: "ar" }), { name: "viewing_reminder", language: { code: "ar" } });
+  assert.deepEqual(buildWhatsAppTemplate({ name: "viewing_reminder", languageCode: "en", bodyParameters: ["Mona", "5 PM"] }).components, [
+    { type: "body", parameters: [{ type: "text", text: "Mona" }, { type: "text", text: "5 PM" }] }
+  ]);
+});
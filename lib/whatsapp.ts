@@ -0,0 +1,131 @@
+export type WhatsAppFileKind = "image" | "video" | "document";
+
+export type WhatsAppIncomingFile = {
+  mediaId: string;
+  kind: WhatsAppFileKind;
+  filename: string;
+  mimeType: string;
+};
+
+export type WhatsAppIncomingMessage = {
+  messageId: string;
+  from: string;
+  senderName: string;
+  phoneNumberId: string;
+  timestamp: string | null;
+  text: string;
+  files: WhatsAppIncomingFile[];
+};
+
+type WhatsAppMedia = { id?: string; mime_type?: string; caption?: string; filename?: string };
+
+type WhatsAppMessage = {
+  id?: string;
+  from?: string;
+  timestamp?: string;
+  type?: string;
+  text?: { body?: string };
+  button?: { text?: string };
+  interactive?: { button_reply?: { title?: string }; list_reply?: { title?: string } };
+  location?: { latitude?: number; longitude?: number; name?: string; address?: string };
+  image?: WhatsAppMedia;
+  video?: WhatsAppMedia;
+  document?: WhatsAppMedia;
+  audio?: WhatsAppMedia;
+};
+
+type WhatsAppWebhookPayload = {
+  object?: string;
+  entry?: Array<{
+    changes?: Array<{
+      field?: string;
+      value?: {
+        metadata?: { phone_number_id?: string };
+        contacts?: Array<{ wa_id?: string; profile?: { name?: string } }>;
+        messages?: WhatsAppMessage[];
+      };
+    }>;
+  }>;
+};
+
+function extensionFromMime(mimeType: string | undefined, fallback: string) {
+  const subtype = String(mimeType || "").split(";")[0].split("/")[1];
+  return subtype ? subtype.replace(/[^a-z0-9]/gi, "").slice(0, 8) || fallback : fallback;
+}
+
+function messageText(message: WhatsAppMessage) {
+  if (message.text?.body) return message.text.body;
+  if (message.button?.text) return message.button.text;
+  if (message.interactive) return message.interactive.button_reply?.title || message.interactive.list_reply?.title || "";
+  if (message.location) {
+    const { latitude, longitude, name, address } = message.location;
+    return [name, address, latitude !== undefined && longitude !== undefined ? `Location: ${latitude},${longitude}` : ""].filter(Boolean).join("\n");
+  }
+  return message.image?.caption || message.video?.caption || message.document?.caption || "";
+}
+
+function messageFiles(message: WhatsAppMessage, messageId: string) {
+  const files: WhatsAppIncomingFile[] = [];
+  const suffix = messageId.slice(-12).replace(/[^\w-]/g, "");
+  if (message.image?.id) {
+    files.push({ mediaId: message.image.id, kind: "image", filename: `photo_${suffix}.${extensionFromMime(message.image.mime_type, "jpg")}`, mimeType: message.image.mime_type || "" });
+  }
+  if (message.video?.id) {
+    files.push({ mediaId: message.video.id, kind: "video", filename: `video_${suffix}.${extensionFromMime(message.video.mime_type, "mp4")}`, mimeType: message.video.mime_type || "" });
+  }
+  if (message.document?.id) {
+    const mimeType = message.document.mime_type || "";
+    const kind: WhatsAppFileKind = mimeType.startsWith("image/") ? "image" : mimeType.startsWith("video/") ? "video" : "document";
+    files.push({ mediaId: message.document.id, kind, filename: message.document.filename || `file_${suffix}.${extensionFromMime(mimeType, "bin")}`, mimeType });
+  }
+  // Voice notes are kept as documents so the agent can listen to them from the inbox.
+  if (message.audio?.id) {
+    files.push({ mediaId: message.audio.id, kind: "document", filename: `voice_${suffix}.${extensionFromMime(message.audio.mime_type, "ogg")}`, mimeType: message.audio.mime_type || "" });
+  }
+  return files;
+}
+
+/**
+ * Flattens a Cloud API webhook payload into the inbound messages it carries. Delivery/read status
+ * callbacks and messages with neither text nor media (reactions, stickers) are dropped.
+ */
+export function parseWhatsAppWebhook(payload: unknown): WhatsAppIncomingMessage[] {
+  const body = payload as WhatsAppWebhookPayload | null;
+  if (!body || body.object !== "whatsapp_business_account" || !Array.isArray(body.entry)) return [];
+
+  const messages: WhatsAppIncomingMessage[] = [];
+  for (const entry of body.entry) {
+    for (const change of entry.changes || []) {
+      const value = change.value;
+      if (change.field !== "messages" || !value || !Array.isArray(value.messages)) continue;
+      const names = new Map((value.contacts || []).map((contact) => [String(contact.wa_id || ""), String(contact.profile?.name || "")]));
+
+      for (const message of value.messages) {
+        if (!message.id || !message.from) continue;
+        const text = messageText(message).trim();
+        const files = messageFiles(message, message.id);
+        if (!text && files.length === 0) continue;
+        messages.push({
+          messageId: message.id,
+          from: message.from,
+          senderName: names.get(message.from) || "",
+          phoneNumberId: String(value.metadata?.phone_number_id || ""),
+          timestamp: message.timestamp && Number.isFinite(Number(message.timestamp)) ? new Date(Number(message.timestamp) * 1000).toISOString() : null,
+          text,
+          files
+        });
+      }
+    }
+  }
+  return messages;
+}
+
+/** Builds the Cloud API `template` object; each body parameter fills the next `{{n}}` placeholder. */
+export function buildWhatsAppTemplate(input: { name: string; languageCode: string; bodyParameters?: string[] }) {
+  const parameters = (input.bodyParameters || []).map((text) => ({ type: "text", text }));
+  return {
+    name: input.name,
+    language: { code: input.languageCode },
+    ...(parameters.length ? { components: [{ type: "body", parameters }] } : {})
+  };
+}
@@ -0,0 +1,96 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { deflateRawSync } from "node:zlib";
+import { XLSX_MAX_UNCOMPRESSED_BYTES, excelSerialToIso, readXlsxFirstSheet } from "@/lib/xlsx";
+
+/** Minimal zip writer: the first entry is stored, the rest deflated. CRCs are left at zero since the reader ignores them. */
+function zip(files: Record<string, string>) {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  Object.entries(files).forEach(([name, content], index) => {
+    const method = index === 0 ? 0 : 8;
+    const raw = Buffer.from(content, "utf8");
+    const data = method === 0 ? raw : deflateRawSync(raw);
+    const nameBytes = Buffer.from(name, "utf8");
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, nameBytes, data);
+    centrals.push(central, nameBytes);
+    offset += local.length + nameBytes.length + data.length;
+  });
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(centrals.length / 2, 8);
+  end.writeUInt16LE(centrals.length / 2, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+test("reads the first worksheet with shared strings, inline strings, booleans and date-formatted numbers", () => {
+  const workbook = zip({
+    "xl/workbook.xml": '<workbook><sheets><sheet name="Listings" sheetId="1" r:id="rId1"/><sheet name="Other" sheetId="2" r:id="rId2"/></sheets></workbook>',
+    "xl/_rels/workbook.xml.rels":
+      '<Relationships><Relationship Id="rId2" Target="worksheets/sheet2.xml"/><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>',
+    "xl/sharedStrings.xml": '<sst><si><t>Area</t></si><si><r><t>Listed</t></r><r><t xml:space="preserve"> on</t></r></si><si><t>Zayed &amp; October</t></si></sst>',
+    "xl/styles.xml": '<styleSheet><numFmts><numFmt numFmtId="164" formatCode="dd/mm/yyyy"/></numFmts><cellXfs><xf numFmtId="0"/><xf numFmtId="164"/></cellXfs></styleSheet>',
+    "xl/worksheets/sheet1.xml": [
+      "<worksheet><sheetData>",
+      '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="D1" t="inlineStr"><is><t>Garden</t></is></c></row>',
+      '<row r="3"><c r="A3" t="s"><v>2</v></c><c r="B3" s="1"><v>45292</v></c><c r="C3"><v>1500000</v></c><c r="D3" t="b"><v>1</v></c></row>',
+      "</sheetData></worksheet>"
+    ].join(""),
+    "xl/worksheets/sheet2.xml": '<worksheet><sheetData><row r="1"><c r="A1" t="inlineStr"><is><t>wrong sheet</t></is></c></row></sheetData></worksheet>'
+  });
+
+  assert.deepEqual(readXlsxFirstSheet(workbook), {
+    name: "Listings",
+    rows: [["Area", "Listed on", "", "Garden"], [], ["Zayed & October", "2024-01-01", "1500000", "TRUE"]]
+  });
+});
+
+test("rejects files that are not workbooks and converts serial dates with times", () => {
+  assert.throws(() => readXlsxFirstSheet(Buffer.from("name,phone\n")), /not a valid \.xlsx/);
+  assert.equal(excelSerialToIso(45292.5), "2024-01-01T12:00:00.000Z");
+});
+
+test("rejects zips with out-of-range offsets or corrupt data as invalid workbooks", () => {
+  const workbook = zip({ "xl/workbook.xml": "<workbook/>", "xl/worksheets/sheet1.xml": "<worksheet/>" });
+  const directoryOffset = workbook.readUInt32LE(workbook.length - 6);
+
+  const badDirectory = Buffer.from(workbook);
+  badDirectory.writeUInt32LE(workbook.length + 1000, workbook.length - 6);
+  assert.throws(() => readXlsxFirstSheet(badDirectory), /not a valid \.xlsx/);
+
+  const badLocalOffset = Buffer.from(workbook);
+  badLocalOffset.writeUInt32LE(0xfffffff0, directoryOffset + 42);
+  assert.throws(() => readXlsxFirstSheet(badLocalOffset), /not a valid \.xlsx/);
+
+  const badSize = Buffer.from(workbook);
+  badSize.writeUInt32LE(0x7fffffff, directoryOffset + 20);
+  assert.throws(() => readXlsxFirstSheet(badSize), /not a valid \.xlsx/);
+
+  assert.throws(() => readXlsxFirstSheet(workbook.subarray(workbook.length - 22)), /not a valid \.xlsx/);
+});
+
+test("stops inflating once the workbook exceeds the uncompressed size cap", () => {
+  const bomb = zip({ "xl/workbook.xml": "<workbook/>", "xl/worksheets/sheet1.xml": " ".repeat(XLSX_MAX_UNCOMPRESSED_BYTES) });
+  assert.ok(bomb.length < 1024 * 1024);
+  assert.throws(() => readXlsxFirstSheet(bomb), /larger than 100 MB uncompressed/);
+});
@@ -0,0 +1,177 @@
+import { inflateRawSync } from "node:zlib";
+
+export type XlsxSheet = { name: string; rows: string[][] };
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+// Built-in number formats that Excel renders as dates or times.
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30);
+export const XLSX_MAX_ROWS = 50000;
+
+// Caps the inflated size of all entries together, so a small zip bomb cannot exhaust memory.
+export const XLSX_MAX_UNCOMPRESSED_BYTES = 100 * 1024 * 1024;
+const INVALID_WORKBOOK = "File is not a valid .xlsx workbook";
+const WORKBOOK_TOO_LARGE = `Workbook is larger than ${XLSX_MAX_UNCOMPRESSED_BYTES / 1024 / 1024} MB uncompressed`;
+
+/** Reads the entries of a zip archive (stored or deflated; no zip64), keyed by path. Malformed archives are rejected. */
+function readZipEntries(buffer: Buffer) {
+  const within = (start: number, length: number) => start >= 0 && start + length <= buffer.length;
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i -= 1) {
+    if (buffer.readUInt32LE(i) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error(INVALID_WORKBOOK);
+
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+  const entries = new Map<string, Buffer>();
+  let remainingBytes = XLSX_MAX_UNCOMPRESSED_BYTES;
+
+  for (let i = 0; i < entryCount; i += 1) {
+    if (!within(offset, 46) || buffer.readUInt32LE(offset) !== CENTRAL_SIGNATURE) throw new Error(INVALID_WORKBOOK);
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    if (!within(offset + 46, nameLength)) throw new Error(INVALID_WORKBOOK);
+    const name = buffer.toString("utf8", offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (!within(localOffset, 30) || buffer.readUInt32LE(localOffset) !== LOCAL_SIGNATURE) throw new Error(INVALID_WORKBOOK);
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    if (!within(dataStart, compressedSize)) throw new Error(INVALID_WORKBOOK);
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    let content: Buffer;
+    if (method === 0) content = data;
+    else if (method === 8) content = inflateEntry(data, remainingBytes);
+    else throw new Error(`Unsupported compression in ${name}`);
+    remainingBytes -= content.length;
+    if (remainingBytes < 0) throw new Error(WORKBOOK_TOO_LARGE);
+    entries.set(name, content);
+  }
+  return entries;
+}
+
+function inflateEntry(data: Buffer, maxOutputLength: number) {
+  try {
+    // One byte over the budget is enough to tell an oversized entry from one that fits exactly.
+    return inflateRawSync(data, { maxOutputLength: maxOutputLength + 1 });
+  } catch (error) {
+    throw new Error((error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE" ? WORKBOOK_TOO_LARGE : INVALID_WORKBOOK);
+  }
+}
+
+function decodeXml(text: string) {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_, entity: string) => {
+    const lower = entity.toLowerCase();
+    if (lower === "lt") return "<";
+    if (lower === "gt") return ">";
+    if (lower === "amp") return "&";
+    if (lower === "quot") return "\"";
+    if (lower === "apos") return "'";
+    const codePoint = lower.startsWith("#x") ? parseInt(lower.slice(2), 16) : parseInt(lower.slice(1), 10);
+    return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : "\ufffd";
+  });
+}
+
+function attribute(tag: string, name: string) {
+  const match = new RegExp(`\\s${name}="([^"]*)"`).exec(tag);
+  return match ? decodeXml(match[1]) : null;
+}
+
+/** Concatenated `<t>` runs of a string item, without phonetic hints. */
+function richText(xml: string) {
+  return Array.from(xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, "").matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g))
+    .map((match) => decodeXml(match[1]))
+    .join("");
+}
+
+function columnIndex(reference: string) {
+  const letters = /^[A-Z]+/i.exec(reference)?.[0].toUpperCase() || "";
+  return letters.split("").reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+function dateStyleIndexes(stylesXml: string | undefined) {
+  const dateStyles = new Set<number>();
+  if (!stylesXml) return dateStyles;
+  const customDateFormats = new Set<number>();
+  for (const match of stylesXml.matchAll(/<numFmt\b[^>]*>/g)) {
+    const id = Number(attribute(match[0], "numFmtId"));
+    // Drop quoted literals and [colour]/[locale] blocks before looking for date tokens.
+    const code = (attribute(match[0], "formatCode") || "").replace(/"[^"]*"|\[[^\]]*\]/g, "");
+    if (/[dmy]/i.test(code)) customDateFormats.add(id);
+  }
+  const cellXfs = /<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/.exec(stylesXml)?.[1] || "";
+  Array.from(cellXfs.matchAll(/<xf\b[^>]*>/g)).forEach((match, index) => {
+    const formatId = Number(attribute(match[0], "numFmtId") || 0);
+    if (BUILTIN_DATE_FORMATS.has(formatId) || customDateFormats.has(formatId)) dateStyles.add(index);
+  });
+  return dateStyles;
+}
+
+/** Excel serial day (1900 date system) to an ISO date, or an ISO timestamp when it carries a time. */
+export function excelSerialToIso(serial: number) {
+  const date = new Date(EXCEL_EPOCH_MS + Math.round(serial * 86400000));
+  return Number.isInteger(serial) ? date.toISOString().slice(0, 10) : date.toISOString();
+}
+
+function resolveTarget(target: string) {
+  if (target.startsWith("/")) return target.slice(1);
+  return `xl/${target.replace(/^\.\//, "")}`;
+}
+
+/** Reads the first worksheet of an .xlsx workbook as rows of cell text. Formulas yield their cached values. */
+export function readXlsxFirstSheet(buffer: Buffer): XlsxSheet {
+  const entries = readZipEntries(buffer);
+  const text = (path: string) => entries.get(path)?.toString("utf8");
+
+  const workbook = text("xl/workbook.xml");
+  if (!workbook) throw new Error(INVALID_WORKBOOK);
+  const sheetTag = /<sheet\b[^>]*>/.exec(workbook)?.[0];
+  if (!sheetTag) throw new Error("Workbook has no worksheets");
+  const relationId = attribute(sheetTag, "r:id");
+  const relations = text("xl/_rels/workbook.xml.rels") || "";
+  const relationTag = Array.from(relations.matchAll(/<Relationship\b[^>]*>/g)).find((match) => attribute(match[0], "Id") === relationId)?.[0];
+  const sheetXml = text(resolveTarget(relationTag ? attribute(relationTag, "Target") || "" : "worksheets/sheet1.xml"));
+  if (!sheetXml) throw new Error("Workbook has no worksheets");
+
+  const sharedStrings = Array.from((text("xl/sharedStrings.xml") || "").matchAll(/<si>([\s\S]*?)<\/si>/g)).map((match) => richText(match[1]));
+  const dateStyles = dateStyleIndexes(text("xl/styles.xml"));
+
+  const rows: string[][] = [];
+  for (const rowMatch of sheetXml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowNumber = Number(attribute(rowMatch[1], "r") || rows.length + 1);
+    if (rowNumber > XLSX_MAX_ROWS) throw new Error(`Worksheet has more than ${XLSX_MAX_ROWS} rows`);
+    const cells: string[] = [];
+    let nextColumn = 0;
+    for (const cellMatch of (rowMatch[2] || "").matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const reference = attribute(cellMatch[1], "r");
+      const column = reference ? columnIndex(reference) : nextColumn;
+      nextColumn = column + 1;
+      const body = cellMatch[2] || "";
+      const type = attribute(cellMatch[1], "t");
+      const raw = /<v>([\s\S]*?)<\/v>/.exec(body)?.[1];
+      let value = "";
+      if (type === "s") value = sharedStrings[Number(raw)] ?? "";
+      else if (type === "inlineStr") value = richText(body);
+      else if (type === "b") value = raw === "1" ? "TRUE" : "FALSE";
+      else if (raw !== undefined) {
+        value = decodeXml(raw);
+        const style = Number(attribute(cellMatch[1], "s") || 0);
+        if ((type === null || type === "n") && dateStyles.has(style) && Number.isFinite(Number(value))) value = excelSerialToIso(Number(value));
+      }
+      cells[column] = value;
+    }
+    rows[rowNumber - 1] = Array.from(cells, (cell) => cell ?? "");
+  }
+
+  return { name: attribute(sheetTag, "name") || "Sheet1", rows: Array.from(rows, (row) => row ?? []) };
+}
@@ -8,6 +8,8 @@ const protectedPrefixes = [
   "/rent",
   "/buyers",
   "/clients",
+  "/contacts",
+  "/deals",
   "/tasks",
   "/media",
   "/dashboard",
@@ -15,7 +17,20 @@ const protectedPrefixes = [
   "/integrations"
 ];
 
-const publicApiPrefixes = ["/api/health", "/api/integrations/intake"];
+// Called by schedulers and third parties without a session; each route checks its own API key, signature or secret.
+const publicApiPrefixes = [
+  "/api/health",
+  "/api/integrations/intake",
+  "/api/integrations/voiceflow/transcripts",
+  "/api/integrations/voiceflow/retry",
+  "/api/integrations/telegram/webhook",
+  "/api/integrations/telegram/reminders",
+  "/api/integrations/whatsapp/webhook",
+  "/api/digests/run",
+  "/api/webhooks/dispatch",
+  "/api/v1",
+  "/api/media/files"
+];
 
 function isProtectedPath(pathname: string) {
   return protectedPrefixes.some((prefix) => pathname === prefix || pathname.startsWith(`${prefix}/`));
@@ -0,0 +1,187 @@
+import { createSupabaseClient } from "@/services/supabase/client";
+
+export type DealListingType = "sale" | "rent";
+export type DealStageOutcome = "open" | "won" | "lost";
+
+export type DealStageRow = {
+  key: string;
+  label: string;
+  position: number;
+  outcome: DealStageOutcome;
+  is_active: boolean;
+};
+
+export type DealRow = {
+  id: string;
+  code: string | null;
+  buyer_id: string;
+  sale_id: string | null;
+  rent_id: string | null;
+  stage_key: string;
+  stage_changed_at: string;
+  expected_value: number | null;
+  currency: string;
+  commission: number | null;
+  expected_close_date: string | null;
+  closed_at: string | null;
+  notes: string;
+  assigned_to: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  buyer: { id: string; code: string | null; intent: string; contact_id: string | null } | null;
+  listing: { id: string; code: string | null; area: string; compound: string; price: number | null; currency: string } | null;
+};
+
+export type DealInsert = {
+  buyer_id: string;
+  sale_id: string | null;
+  rent_id: string | null;
+  stage_key: string;
+  expected_value: number | null;
+  currency: string;
+  commission: number | null;
+  expected_close_date: string | null;
+  notes: string;
+  assigned_to: string | null;
+  created_by: string | null;
+};
+
+export type DealTimelineEvent = {
+  record_type: "deals" | "buyers" | "properties_sale" | "properties_rent";
+  record_id: string;
+  action: string;
+  details: Record<string, unknown>;
+};
+
+const STAGE_SELECT = "key,label,position,outcome,is_active";
+const DEAL_SELECT = [
+  "id,code,buyer_id,sale_id,rent_id,stage_key,stage_changed_at,expected_value,currency,commission",
+  "expected_close_date,closed_at,notes,assigned_to,created_by,created_at,updated_at",
+  "buyer:buyers(id,code,intent,contact_id)",
+  "sale:properties_sale(id,code,area,compound,price,currency)",
+  "rent:properties_rent(id,code,area,compound,price,currency)"
+].join(",");
+const MAX_DEALS = 1000;
+
+function numberOrNull(value: unknown) {
+  if (value === null || value === undefined || value === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function normalizeStage(row: Record<string, unknown>): DealStageRow {
+  const outcome = String(row.outcome || "open");
+  return {
+    key: String(row.key),
+    label: String(row.label || row.key),
+    position: Number(row.position || 0),
+    outcome: outcome === "won" || outcome === "lost" ? outcome : "open",
+    is_active: row.is_active !== false
+  };
+}
+
+function normalizeDeal(row: Record<string, unknown>): DealRow {
+  const buyer = row.buyer as Record<string, unknown> | null;
+  const listing = (row.sale || row.rent) as Record<string, unknown> | null;
+  return {
+    id: String(row.id),
+    code: row.code ? String(row.code) : null,
+    buyer_id: String(row.buyer_id),
+    sale_id: row.sale_id ? String(row.sale_id) : null,
+    rent_id: row.rent_id ? String(row.rent_id) : null,
+    stage_key: String(row.stage_key),
+    stage_changed_at: String(row.stage_changed_at),
+    expected_value: numberOrNull(row.expected_value),
+    currency: String(row.currency || "EGP"),
+    commission: numberOrNull(row.commission),
+    expected_close_date: row.expected_close_date ? String(row.expected_close_date) : null,
+    closed_at: row.closed_at ? String(row.closed_at) : null,
+    notes: String(row.notes || ""),
+    assigned_to: row.assigned_to ? String(row.assigned_to) : null,
+    created_by: row.created_by ? String(row.created_by) : null,
+    created_at: String(row.created_at),
+    updated_at: String(row.updated_at),
+    buyer: buyer
+      ? { id: String(buyer.id), code: buyer.code ? String(buyer.code) : null, intent: String(buyer.intent || ""), contact_id: buyer.contact_id ? String(buyer.contact_id) : null }
+      : null,
+    listing: listing
+      ? {
+          id: String(listing.id),
+          code: listing.code ? String(listing.code) : null,
+          area: String(listing.area || ""),
+          compound: String(listing.compound || ""),
+          price: numberOrNull(listing.price),
+          currency: String(listing.currency || "")
+        }
+      : null
+  };
+}
+
+export class DealsRepository {
+  async fetchStages(includeInactive = false) {
+    const supabase = createSupabaseClient();
+    let query = supabase.from("deal_stages").select(STAGE_SELECT).order("position", { ascending: true });
+    if (!includeInactive) query = query.eq("is_active", true);
+    const { data, error } = await query;
+    if (error) throw new Error(error.message);
+    return ((data || []) as Array<Record<string, unknown>>).map(normalizeStage);
+  }
+
+  async upsertStages(stages: DealStageRow[]) {
+    const supabase = createSupabaseClient();
+    const { error } = await supabase.from("deal_stages").upsert(stages, { onConflict: "key" });
+    if (error) throw new Error(error.message);
+  }
+
+  async countDealsInStage(stageKey: string) {
+    const supabase = createSupabaseClient();
+    const { count, error } = await supabase.from("deals").select("id", { count: "exact", head: true }).eq("stage_key", stageKey);
+    if (error) throw new Error(error.message);
+    return count || 0;
+  }
+
+  async fetchDeals(filters: { buyerId?: string; listingType?: DealListingType; listingId?: string } = {}) {
+    const supabase = createSupabaseClient();
+    let query = supabase.from("deals").select(DEAL_SELECT).order("stage_changed_at", { ascending: false }).limit(MAX_DEALS);
+    if (filters.buyerId) query = query.eq("buyer_id", filters.buyerId);
+    if (filters.listingId) query = query.eq(filters.listingType === "rent" ? "rent_id" : "sale_id", filters.listingId);
+    const { data, error } = await query;
+    if (error) throw new Error(error.message);
+    return ((data || []) as unknown as Array<Record<string, unknown>>).map(normalizeDeal);
+  }
+
+  async fetchDeal(id: string) {
+    const supabase = createSupabaseClient();
+    const { data, error } = await supabase.from("deals").select(DEAL_SELECT).eq("id", id).maybeSingle();
+    if (error) throw new Error(error.message);
+    return data ? normalizeDeal(data as unknown as Record<string, unknown>) : null;
+  }
+
+  async recordExists(table: "buyers" | "properties_sale" | "properties_rent", id: string) {
+    const supabase = createSupabaseClient();
+    const { data, error } = await supabase.from(table).select("id,is_archived").eq("id", id).maybeSingle();
+    if (error) throw new Error(error.message);
+    return data ? { archived: Boolean(data.is_archived) } : null;
+  }
+
+  async insertDeal(payload: DealInsert) {
+    const supabase = createSupabaseClient();
+    const { data, error } = await supabase.from("deals").insert(payload).select("id").single();
+    if (error || !data) throw new Error(error?.message || "Failed to create deal");
+    return String(data.id);
+  }
+
+  async updateDeal(id: string, updates: Record<string, unknown>) {
+    const supabase = createSupabaseClient();
+    const { error } = await supabase.from("deals").update(updates).eq("id", id);
+    if (error) throw new Error(error.message);
+  }
+
+  async insertTimelineEvents(events: DealTimelineEvent[]) {
+    if (events.length === 0) return;
+    const supabase = createSupabaseClient();
+    const { error } = await supabase.from("timeline").insert(events);
+    if (error) throw new Error(error.message);
+  }
+}
@@ -0,0 +1,62 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { buildStageTransitionEvents, prepareDealStages } from "@/modules/deals/deals.service";
+import type { DealRow } from "@/modules/deals/deals.repository";
+
+const deal: DealRow = {
+  id: "8d5c4f7e-1111-4a4a-9f9f-000000000001",
+  code: "DEAL-2026-001",
+  buyer_id: "buyer-1",
+  sale_id: "sale-1",
+  rent_id: null,
+  stage_key: "viewing",
+  stage_changed_at: "2026-10-20T10:00:00.000Z",
+  expected_value: 4500000,
+  currency: "EGP",
+  commission: 112500,
+  expected_close_date: null,
+  closed_at: null,
+  notes: "",
+  assigned_to: null,
+  created_by: null,
+  created_at: "2026-10-20T10:00:00.000Z",
+  updated_at: "2026-10-20T10:00:00.000Z",
+  buyer: null,
+  listing: null
+};
+
+test("stage keys are derived from labels and positioned in order", () => {
+  const stages = prepareDealStages([{ label: "Lead" }, { label: "Site Visit" }, { label: "Closed won", outcome: "won" }]);
+  assert.deepEqual(
+    stages.map((stage) => [stage.key, stage.position, stage.outcome]),
+    [
+      ["lead", 10, "open"],
+      ["site_visit", 20, "open"],
+      ["closed_won", 30, "won"]
+    ]
+  );
+});
+
+test("stage lists need unique keys and an open stage", () => {
+  assert.throws(() => prepareDealStages([{ label: "Lead" }, { key: "lead", label: "Leads" }]), /Duplicate stage key/);
+  assert.throws(() => prepareDealStages([{ label: "Won", outcome: "won" }]), /open stage/);
+});
+
+test("a stage move writes timeline events on the deal, buyer and listing", () => {
+  const events = buildStageTransitionEvents(
+    deal,
+    { key: "viewing", label: "Viewing", position: 20, outcome: "open", is_active: true },
+    { key: "negotiation", label: "Negotiation", position: 30, outcome: "open", is_active: true },
+    "user-1"
+  );
+  assert.deepEqual(
+    events.map((event) => [event.record_type, event.record_id]),
+    [
+      ["deals", deal.id],
+      ["buyers", "buyer-1"],
+      ["properties_sale", "sale-1"]
+    ]
+  );
+  assert.equal(events[0].action, "Deal moved: Viewing → Negotiation");
+  assert.equal(events[1].details.to_stage, "negotiation");
+});
@@ -0,0 +1,194 @@
+import {
+  DealsRepository,
+  type DealListingType,
+  type DealRow,
+  type DealStageOutcome,
+  type DealStageRow,
+  type DealTimelineEvent
+} from "./deals.repository";
+
+export type DealStageInput = {
+  key?: string;
+  label: string;
+  outcome?: DealStageOutcome;
+};
+
+export type CreateDealInput = {
+  buyerId: string;
+  listingType: DealListingType;
+  listingId: string;
+  stageKey?: string;
+  expectedValue?: number | null;
+  currency?: string;
+  commission?: number | null;
+  expectedCloseDate?: string | null;
+  notes?: string;
+  assignedTo?: string | null;
+};
+
+export type UpdateDealInput = {
+  stageKey?: string;
+  expectedValue?: number | null;
+  currency?: string;
+  commission?: number | null;
+  expectedCloseDate?: string | null;
+  notes?: string;
+  assignedTo?: string | null;
+};
+
+const STAGE_POSITION_STEP = 10;
+
+const listingTableByType: Record<DealListingType, "properties_sale" | "properties_rent"> = {
+  sale: "properties_sale",
+  rent: "properties_rent"
+};
+
+export function normalizeStageKey(value: string) {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+/**
+ * Turns the ordered stage list from the settings UI into stage rows. Keys are derived from labels
+ * when missing and must be unique; the pipeline needs at least one open stage for new deals.
+ */
+export function prepareDealStages(input: DealStageInput[]): DealStageRow[] {
+  const seen = new Set<string>();
+  const stages = input.map((stage, index) => {
+    const label = stage.label.trim();
+    const key = normalizeStageKey(stage.key || label);
+    if (!label || !key) throw new Error(`Stage ${index + 1} needs a label`);
+    if (seen.has(key)) throw new Error(`Duplicate stage key: ${key}`);
+    seen.add(key);
+    return { key, label, position: (index + 1) * STAGE_POSITION_STEP, outcome: stage.outcome || "open", is_active: true };
+  });
+  if (!stages.some((stage) => stage.outcome === "open")) throw new Error("At least one open stage is required");
+  return stages;
+}
+
+function dealLabel(deal: Pick<DealRow, "id" | "code">) {
+  return deal.code || deal.id.slice(0, 8);
+}
+
+function linkedRecordEvents(deal: DealRow, action: string, details: Record<string, unknown>): DealTimelineEvent[] {
+  const events: DealTimelineEvent[] = [
+    { record_type: "deals", record_id: deal.id, action, details },
+    { record_type: "buyers", record_id: deal.buyer_id, action: `${action} (${dealLabel(deal)})`, details }
+  ];
+  if (deal.sale_id) events.push({ record_type: "properties_sale", record_id: deal.sale_id, action: `${action} (${dealLabel(deal)})`, details });
+  if (deal.rent_id) events.push({ record_type: "properties_rent", record_id: deal.rent_id, action: `${action} (${dealLabel(deal)})`, details });
+  return events;
+}
+
+/** Timeline rows for a stage move, written on the deal itself and on its buyer and listing. */
+export function buildStageTransitionEvents(deal: DealRow, from: DealStageRow | undefined, to: DealStageRow, actorUserId: string | null) {
+  const fromLabel = from?.label || deal.stage_key;
+  return linkedRecordEvents(deal, `Deal moved: ${fromLabel} → ${to.label}`, {
+    deal_id: deal.id,
+    deal_code: deal.code,
+    from_stage: deal.stage_key,
+    to_stage: to.key,
+    outcome: to.outcome,
+    actor_user_id: actorUserId
+  });
+}
+
+export class DealsService {
+  constructor(private readonly repository = new DealsRepository()) {}
+
+  async fetchStages(includeInactive = false) {
+    return this.repository.fetchStages(includeInactive);
+  }
+
+  async fetchBoard(filters: { buyerId?: string; listingType?: DealListingType; listingId?: string } = {}) {
+    const [stages, deals] = await Promise.all([this.repository.fetchStages(), this.repository.fetchDeals(filters)]);
+    return { stages, deals };
+  }
+
+  async saveStages(input: DealStageInput[]) {
+    const stages = prepareDealStages(input);
+    const keep = new Set(stages.map((stage) => stage.key));
+    const existing = await this.repository.fetchStages(true);
+    const removed = existing.filter((stage) => stage.is_active && !keep.has(stage.key));
+
+    for (const stage of removed) {
+      const count = await this.repository.countDealsInStage(stage.key);
+      if (count > 0) throw new Error(`Stage "${stage.label}" still has ${count} deal${count === 1 ? "" : "s"}; move them before removing it`);
+    }
+
+    await this.repository.upsertStages([...stages, ...removed.map((stage) => ({ ...stage, is_active: false }))]);
+    return this.repository.fetchStages();
+  }
+
+  async createDeal(input: CreateDealInput, actorUserId: string | null) {
+    const buyer = await this.repository.recordExists("buyers", input.buyerId);
+    if (!buyer) throw new Error("Buyer not found");
+    const listing = await this.repository.recordExists(listingTableByType[input.listingType], input.listingId);
+    if (!listing) throw new Error("Listing not found");
+    if (buyer.archived || listing.archived) throw new Error("Cannot create deals for archived records. Unarchive first.");
+
+    const stages = await this.repository.fetchStages();
+    const stage = input.stageKey ? stages.find((item) => item.key === input.stageKey) : stages.find((item) => item.outcome === "open");
+    if (!stage) throw new Error("Deal stage not found");
+
+    const id = await this.repository.insertDeal({
+      buyer_id: input.buyerId,
+      sale_id: input.listingType === "sale" ? input.listingId : null,
+      rent_id: input.listingType === "rent" ? input.listingId : null,
+      stage_key: stage.key,
+      expected_value: input.expectedValue ?? null,
+      currency: (input.currency || "EGP").toUpperCase(),
+      commission: input.commission ?? null,
+      expected_close_date: input.expectedCloseDate || null,
+      notes: input.notes || "",
+      assigned_to: input.assignedTo || actorUserId,
+      created_by: actorUserId
+    });
+
+    if (stage.outcome !== "open") await this.repository.updateDeal(id, { closed_at: new Date().toISOString() });
+
+    const deal = await this.repository.fetchDeal(id);
+    if (!deal) throw new Error("Deal not found");
+    await this.repository.insertTimelineEvents(
+      linkedRecordEvents(deal, `Deal created in ${stage.label}`, { deal_id: deal.id, deal_code: deal.code, stage: stage.key, actor_user_id: actorUserId })
+    );
+    return deal;
+  }
+
+  async updateDeal(id: string, input: UpdateDealInput, actorUserId: string | null) {
+    const before = await this.repository.fetchDeal(id);
+    if (!before) throw new Error("Deal not found");
+
+    const updates: Record<string, unknown> = {};
+    if (input.expectedValue !== undefined) updates.expected_value = input.expectedValue;
+    if (input.currency !== undefined) updates.currency = input.currency.toUpperCase();
+    if (input.commission !== undefined) updates.commission = input.commission;
+    if (input.expectedCloseDate !== undefined) updates.expected_close_date = input.expectedCloseDate || null;
+    if (input.notes !== undefined) updates.notes = input.notes;
+    if (input.assignedTo !== undefined) updates.assigned_to = input.assignedTo || null;
+
+    let transitionEvents: DealTimelineEvent[] = [];
+    if (input.stageKey && input.stageKey !== before.stage_key) {
+      const stages = await this.repository.fetchStages(true);
+      const to = stages.find((stage) => stage.key === input.stageKey && stage.is_active);
+      if (!to) throw new Error("Deal stage not found");
+      const from = stages.find((stage) => stage.key === before.stage_key);
+      const now = new Date().toISOString();
+      updates.stage_key = to.key;
+      updates.stage_changed_at = now;
+      updates.closed_at = to.outcome === "open" ? null : now;
+      transitionEvents = buildStageTransitionEvents(before, from, to, actorUserId);
+    }
+
+    if (Object.keys(updates).length === 0) return before;
+    await this.repository.updateDeal(id, updates);
+    await this.repository.insertTimelineEvents(transitionEvents);
+
+    const deal = await this.repository.fetchDeal(id);
+    if (!deal) throw new Error("Deal not found");
+    return deal;
+  }
+}
@@ -0,0 +1,2 @@
+export * from "./deals.service";
+export * from "./deals.repository";
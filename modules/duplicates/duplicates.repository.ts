@@ -0,0 +1,70 @@
+import { createSupabaseClient } from "@/services/supabase/client";
+
+export type DuplicateListingType = "sale" | "rent";
+
+export type DuplicateCandidateRow = {
+  id: string;
+  code: string | null;
+  status: string;
+  price: number | null;
+  currency: string;
+  size_sqm: number | null;
+  bedrooms: number | null;
+  area: string;
+  compound: string;
+  floor: number | null;
+  contact_phone: string;
+  updated_at: string | null;
+  area_similarity: number;
+  compound_similarity: number;
+};
+
+export type DuplicateCandidateQuery = {
+  listingType: DuplicateListingType;
+  area: string;
+  compound: string;
+  contactPhone: string;
+  bedrooms: number | null;
+  limit: number;
+};
+
+function numberOrNull(value: unknown) {
+  if (value === null || value === undefined || value === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function normalizeCandidate(row: Record<string, unknown>): DuplicateCandidateRow {
+  return {
+    id: String(row.id),
+    code: row.code ? String(row.code) : null,
+    status: String(row.status || ""),
+    price: numberOrNull(row.price),
+    currency: String(row.currency || ""),
+    size_sqm: numberOrNull(row.size_sqm),
+    bedrooms: numberOrNull(row.bedrooms),
+    area: String(row.area || ""),
+    compound: String(row.compound || ""),
+    floor: numberOrNull(row.floor),
+    contact_phone: String(row.contact_phone || ""),
+    updated_at: row.updated_at ? String(row.updated_at) : null,
+    area_similarity: numberOrNull(row.area_similarity) ?? 0,
+    compound_similarity: numberOrNull(row.compound_similarity) ?? 0
+  };
+}
+
+export class DuplicatesRepository {
+  async fetchListingCandidates(query: DuplicateCandidateQuery) {
+    const supabase = createSupabaseClient();
+    const { data, error } = await supabase.rpc("find_listing_duplicate_candidates", {
+      p_listing_type: query.listingType,
+      p_area: query.area,
+      p_compound: query.compound,
+      p_contact_phone: query.contactPhone,
+      p_bedrooms: query.bedrooms,
+      p_limit: query.limit
+    });
+    if (error) throw new Error(error.message);
+    return ((data || []) as Array<Record<string, unknown>>).map(normalizeCandidate);
+  }
+}
@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { normalizeListingDuplicateInput, scoreListingDuplicate } from "@/modules/duplicates/duplicates.service";
+import type { DuplicateCandidateRow } from "@/modules/duplicates/duplicates.repository";
+
+const extracted = normalizeListingDuplicateInput({
+  price: "4500000",
+  currency: "egp",
+  size_sqm: "165",
+  bedrooms: "3",
+  location_area: "New Cairo",
+  compound: "Mivida",
+  floor: "2",
+  contact_phone: "+20 100 123 4567"
+});
+
+const candidate: DuplicateCandidateRow = {
+  id: "sale-1",
+  code: "SALE-2026-00001",
+  status: "active",
+  price: 4500000,
+  currency: "EGP",
+  size_sqm: 165,
+  bedrooms: 3,
+  area: "New Cairo",
+  compound: "Mivida",
+  floor: 2,
+  contact_phone: "01001234567",
+  updated_at: null,
+  area_similarity: 1,
+  compound_similarity: 1
+};
+
+test("identical listing with same owner phone is a high-confidence duplicate", () => {
+  const result = scoreListingDuplicate(extracted, candidate);
+  assert.equal(result.score, 100);
+  assert.equal(result.confidence, "high");
+  assert.deepEqual(result.disagreements, []);
+  assert.ok(result.agreements.includes("contact_phone"));
+});
+
+test("disagreeing fields are reported and lower the score", () => {
+  const result = scoreListingDuplicate(extracted, { ...candidate, floor: 7, size_sqm: 220, contact_phone: "01119876543" });
+  assert.deepEqual(result.disagreements.sort(), ["contact_phone", "floor", "size_sqm"]);
+  assert.ok(result.score < 60);
+});
+
+test("a single matching field is scaled down by coverage", () => {
+  const sparse = normalizeListingDuplicateInput({ compound: "Mivida" });
+  const result = scoreListingDuplicate(sparse, candidate);
+  assert.equal(result.agreements.length, 1);
+  assert.equal(result.confidence, "low");
+});
@@ -0,0 +1,199 @@
+import { DuplicatesRepository, type DuplicateCandidateRow, type DuplicateListingType } from "./duplicates.repository";
+
+export type DuplicateField = "price" | "size_sqm" | "bedrooms" | "area" | "compound" | "floor" | "contact_phone";
+export type DuplicateConfidence = "high" | "medium" | "low";
+
+export type ListingDuplicateInput = {
+  price: number | null;
+  currency: string;
+  size_sqm: number | null;
+  bedrooms: number | null;
+  area: string;
+  compound: string;
+  floor: number | null;
+  contact_phone: string;
+};
+
+export type DuplicateFieldComparison = {
+  field: DuplicateField;
+  weight: number;
+  score: number;
+  status: "agree" | "disagree";
+  extracted: string;
+  existing: string;
+};
+
+export type ListingDuplicateScore = {
+  score: number;
+  confidence: DuplicateConfidence;
+  fields: DuplicateFieldComparison[];
+  agreements: DuplicateField[];
+  disagreements: DuplicateField[];
+};
+
+export type ListingDuplicate = ListingDuplicateScore & {
+  record_type: "properties_sale" | "properties_rent";
+  record: DuplicateCandidateRow;
+};
+
+export const DUPLICATE_FIELD_WEIGHTS: Record<DuplicateField, number> = {
+  price: 20,
+  size_sqm: 15,
+  bedrooms: 10,
+  area: 10,
+  compound: 15,
+  floor: 10,
+  contact_phone: 20
+};
+
+export const HIGH_CONFIDENCE_DUPLICATE_SCORE = 80;
+export const MEDIUM_CONFIDENCE_DUPLICATE_SCORE = 60;
+const MIN_DUPLICATE_SCORE = 40;
+// Scores built from fewer comparable fields than this are scaled down proportionally.
+const MIN_COMPARED_WEIGHT = 45;
+
+function numberOrNull(value: unknown) {
+  if (value === null || value === undefined || value === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function text(value: unknown) {
+  return String(value ?? "").trim();
+}
+
+function phoneTail(value: string) {
+  return value.replace(/\D/g, "").slice(-10);
+}
+
+function relativeDifference(a: number, b: number) {
+  const base = Math.max(Math.abs(a), Math.abs(b));
+  return base === 0 ? 0 : Math.abs(a - b) / base;
+}
+
+function scoreRelative(a: number, b: number, exactTolerance: number, nearTolerance: number) {
+  const diff = relativeDifference(a, b);
+  if (diff <= exactTolerance) return 1;
+  if (diff <= nearTolerance) return 0.5;
+  return 0;
+}
+
+function scoreSimilarity(similarity: number) {
+  return similarity >= 0.8 ? 1 : Math.round(similarity * 100) / 100;
+}
+
+export function normalizeListingDuplicateInput(raw: Record<string, unknown>): ListingDuplicateInput {
+  return {
+    price: numberOrNull(raw.price),
+    currency: text(raw.currency).toUpperCase(),
+    size_sqm: numberOrNull(raw.size_sqm),
+    bedrooms: numberOrNull(raw.bedrooms),
+    area: text(raw.area ?? raw.location_area),
+    compound: text(raw.compound),
+    floor: numberOrNull(raw.floor),
+    contact_phone: text(raw.contact_phone ?? raw.phone)
+  };
+}
+
+function compareFields(input: ListingDuplicateInput, candidate: DuplicateCandidateRow): DuplicateFieldComparison[] {
+  const out: DuplicateFieldComparison[] = [];
+  const push = (field: DuplicateField, score: number, extracted: unknown, existing: unknown) => {
+    out.push({
+      field,
+      weight: DUPLICATE_FIELD_WEIGHTS[field],
+      score,
+      status: score >= 0.5 ? "agree" : "disagree",
+      extracted: text(extracted),
+      existing: text(existing)
+    });
+  };
+
+  if (input.price !== null && candidate.price !== null) {
+    const currencyMismatch = Boolean(input.currency && candidate.currency && input.currency !== candidate.currency.toUpperCase());
+    push("price", currencyMismatch ? 0 : scoreRelative(input.price, candidate.price, 0.03, 0.1), `${input.price} ${input.currency}`, `${candidate.price} ${candidate.currency}`);
+  }
+  if (input.size_sqm !== null && candidate.size_sqm !== null) {
+    push("size_sqm", scoreRelative(input.size_sqm, candidate.size_sqm, 0.05, 0.1), input.size_sqm, candidate.size_sqm);
+  }
+  if (input.bedrooms !== null && candidate.bedrooms !== null) {
+    push("bedrooms", input.bedrooms === candidate.bedrooms ? 1 : 0, input.bedrooms, candidate.bedrooms);
+  }
+  if (input.area && candidate.area) {
+    push("area", scoreSimilarity(candidate.area_similarity), input.area, candidate.area);
+  }
+  if (input.compound && candidate.compound) {
+    push("compound", scoreSimilarity(candidate.compound_similarity), input.compound, candidate.compound);
+  }
+  if (input.floor !== null && candidate.floor !== null) {
+    push("floor", input.floor === candidate.floor ? 1 : 0, input.floor, candidate.floor);
+  }
+  const inputPhone = phoneTail(input.contact_phone);
+  const candidatePhone = phoneTail(candidate.contact_phone);
+  if (inputPhone.length >= 7 && candidatePhone.length >= 7) {
+    push("contact_phone", inputPhone === candidatePhone ? 1 : 0, input.contact_phone, candidate.contact_phone);
+  }
+
+  return out;
+}
+
+export function duplicateConfidence(score: number): DuplicateConfidence {
+  if (score >= HIGH_CONFIDENCE_DUPLICATE_SCORE) return "high";
+  if (score >= MEDIUM_CONFIDENCE_DUPLICATE_SCORE) return "medium";
+  return "low";
+}
+
+/**
+ * Scores how likely an existing listing is the same unit as the extracted one (0-100).
+ * Only fields present on both sides are compared; area/compound use the pg_trgm similarity
+ * returned by the candidate query, and thin comparisons are scaled down so a lone matching
+ * field never reads as a confident duplicate.
+ */
+export function scoreListingDuplicate(input: ListingDuplicateInput, candidate: DuplicateCandidateRow): ListingDuplicateScore {
+  const fields = compareFields(input, candidate);
+  const comparedWeight = fields.reduce((sum, item) => sum + item.weight, 0);
+  const weighted = fields.reduce((sum, item) => sum + item.weight * item.score, 0);
+  const coverage = Math.min(1, comparedWeight / MIN_COMPARED_WEIGHT);
+  const score = comparedWeight === 0 ? 0 : Math.round((weighted / comparedWeight) * coverage * 100);
+
+  return {
+    score,
+    confidence: duplicateConfidence(score),
+    fields,
+    agreements: fields.filter((item) => item.status === "agree").map((item) => item.field),
+    disagreements: fields.filter((item) => item.status === "disagree").map((item) => item.field)
+  };
+}
+
+export class DuplicatesService {
+  constructor(private readonly repository = new DuplicatesRepository()) {}
+
+  async findListingDuplicates(input: {
+    listingType: DuplicateListingType;
+    extracted: ListingDuplicateInput;
+    excludeRecordId?: string;
+    limit?: number;
+  }) {
+    const candidates = await this.repository.fetchListingCandidates({
+      listingType: input.listingType,
+      area: input.extracted.area,
+      compound: input.extracted.compound,
+      contactPhone: input.extracted.contact_phone,
+      bedrooms: input.extracted.bedrooms,
+      limit: 50
+    });
+
+    const recordType = input.listingType === "sale" ? "properties_sale" : "properties_rent";
+    const duplicates: ListingDuplicate[] = candidates
+      .filter((candidate) => candidate.id !== input.excludeRecordId)
+      .map((candidate) => ({ ...scoreListingDuplicate(input.extracted, candidate), record_type: recordType, record: candidate }) as ListingDuplicate)
+      .filter((duplicate) => duplicate.score >= MIN_DUPLICATE_SCORE)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, input.limit ?? 10);
+
+    const top = duplicates[0];
+    return {
+      duplicates,
+      suggested_record_id: top && top.confidence === "high" ? top.record.id : null
+    };
+  }
+}
@@ -0,0 +1,2 @@
+export * from "./duplicates.service";
+export * from "./duplicates.repository";
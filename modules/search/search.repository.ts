@@ -1,3 +1,150 @@
+import { createSupabaseClient } from "@/services/supabase/client";
+
+export type ListingTable = "properties_sale" | "properties_rent";
+
+export type MatchBuyerRow = {
+  id: string;
+  code: string | null;
+  status: string;
+  currency: string;
+  intent: string;
+  property_type: string;
+  budget_min: number | null;
+  budget_max: number | null;
+  preferred_areas: string[];
+  bedrooms_needed: number | null;
+  contact_id: string | null;
+  is_archived: boolean;
+};
+
+export type MatchListingRow = {
+  id: string;
+  code: string | null;
+  status: string;
+  price: number | null;
+  currency: string;
+  size_sqm: number | null;
+  bedrooms: number | null;
+  area: string;
+  compound: string;
+  notes: string;
+  contact_id: string | null;
+  is_archived: boolean;
+};
+
+const BUYER_SELECT = "id, code, status, currency, intent, property_type, budget_min, budget_max, preferred_areas, bedrooms_needed, contact_id, is_archived";
+const LISTING_SELECT = "id, code, status, price, currency, size_sqm, bedrooms, area, compound, notes, contact_id, is_archived";
+const MAX_CANDIDATES = 3000;
+// PostgREST truncates a response at max-rows (1000 by default), so candidates are read page by page.
+const PAGE_SIZE = 1000;
+const OPEN_LISTING_STATUSES = ["active", "needs_review"];
+const OPEN_BUYER_STATUSES = ["active", "needs_review", "hot"];
+
+function numberOrNull(value: unknown) {
+  if (value === null || value === undefined || value === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function normalizeBuyer(row: Record<string, unknown>): MatchBuyerRow {
+  return {
+    id: String(row.id),
+    code: row.code ? String(row.code) : null,
+    status: String(row.status || ""),
+    currency: String(row.currency || ""),
+    intent: String(row.intent || ""),
+    property_type: String(row.property_type || ""),
+    budget_min: numberOrNull(row.budget_min),
+    budget_max: numberOrNull(row.budget_max),
+    preferred_areas: Array.isArray(row.preferred_areas) ? row.preferred_areas.map((area) => String(area)) : [],
+    bedrooms_needed: numberOrNull(row.bedrooms_needed),
+    contact_id: row.contact_id ? String(row.contact_id) : null,
+    is_archived: row.is_archived === true
+  };
+}
+
+function normalizeListing(row: Record<string, unknown>): MatchListingRow {
+  return {
+    id: String(row.id),
+    code: row.code ? String(row.code) : null,
+    status: String(row.status || ""),
+    price: numberOrNull(row.price),
+    currency: String(row.currency || ""),
+    size_sqm: numberOrNull(row.size_sqm),
+    bedrooms: numberOrNull(row.bedrooms),
+    area: String(row.area || ""),
+    compound: String(row.compound || ""),
+    notes: String(row.notes || ""),
+    contact_id: row.contact_id ? String(row.contact_id) : null,
+    is_archived: row.is_archived === true
+  };
+}
+
+/** Reads pages through `load` until a short page or `MAX_CANDIDATES` rows. */
+async function fetchCandidates(load: (from: number, to: number) => PromiseLike<{ data: unknown; error: { message: string } | null }>) {
+  const rows: Array<Record<string, unknown>> = [];
+  for (let from = 0; from < MAX_CANDIDATES; from += PAGE_SIZE) {
+    const { data, error } = await load(from, Math.min(from + PAGE_SIZE, MAX_CANDIDATES) - 1);
+    if (error) throw new Error(error.message);
+    const page = (data || []) as Array<Record<string, unknown>>;
+    rows.push(...page);
+    if (page.length < PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+/** Whether a listing is in the candidate set `fetchActiveListings` returns. */
+export function isOpenListing(listing: Pick<MatchListingRow, "status" | "is_archived">) {
+  return !listing.is_archived && OPEN_LISTING_STATUSES.includes(listing.status);
+}
+
+/** Whether a buyer is in the candidate set `fetchActiveBuyers` returns. */
+export function isOpenBuyer(buyer: Pick<MatchBuyerRow, "status" | "is_archived">) {
+  return !buyer.is_archived && OPEN_BUYER_STATUSES.includes(buyer.status);
+}
+
 export class SearchRepository {
-  // Data access for search module lives here.
+  async fetchBuyer(buyerId: string) {
+    const supabase = createSupabaseClient();
+    const { data, error } = await supabase.from("buyers").select(BUYER_SELECT).eq("id", buyerId).maybeSingle();
+    if (error) throw new Error(error.message);
+    return data ? normalizeBuyer(data as Record<string, unknown>) : null;
+  }
+
+  async fetchListing(table: ListingTable, listingId: string) {
+    const supabase = createSupabaseClient();
+    const { data, error } = await supabase.from(table).select(LISTING_SELECT).eq("id", listingId).maybeSingle();
+    if (error) throw new Error(error.message);
+    return data ? normalizeListing(data as Record<string, unknown>) : null;
+  }
+
+  async fetchActiveListings(table: ListingTable) {
+    const supabase = createSupabaseClient();
+    const rows = await fetchCandidates((from, to) =>
+      supabase
+        .from(table)
+        .select(LISTING_SELECT)
+        .eq("is_archived", false)
+        .in("status", OPEN_LISTING_STATUSES)
+        .order("updated_at", { ascending: false })
+        .order("id", { ascending: true })
+        .range(from, to)
+    );
+    return rows.map(normalizeListing);
+  }
+
+  async fetchActiveBuyers() {
+    const supabase = createSupabaseClient();
+    const rows = await fetchCandidates((from, to) =>
+      supabase
+        .from("buyers")
+        .select(BUYER_SELECT)
+        .eq("is_archived", false)
+        .in("status", OPEN_BUYER_STATUSES)
+        .order("updated_at", { ascending: false })
+        .order("id", { ascending: true })
+        .range(from, to)
+    );
+    return rows.map(normalizeBuyer);
+  }
 }
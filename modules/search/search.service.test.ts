@@ -0,0 +1,75 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { listingTypesForIntent, scoreBuyerListingPair } from "@/modules/search/search.service";
+import { isOpenBuyer, isOpenListing, type MatchBuyerRow, type MatchListingRow } from "@/modules/search/search.repository";
+
+const buyer: MatchBuyerRow = {
+  id: "buyer-1",
+  code: "BUY-2026-00001",
+  status: "active",
+  currency: "EGP",
+  intent: "buy",
+  property_type: "apartment",
+  budget_min: 3000000,
+  budget_max: 4000000,
+  preferred_areas: ["New Cairo", "Madinaty"],
+  bedrooms_needed: 3,
+  contact_id: null,
+  is_archived: false
+};
+
+const listing: MatchListingRow = {
+  id: "sale-1",
+  code: "SALE-2026-00001",
+  status: "active",
+  price: 3500000,
+  currency: "EGP",
+  size_sqm: 160,
+  bedrooms: 3,
+  area: "New Cairo",
+  compound: "Mivida",
+  notes: "Apartment with garden view",
+  contact_id: null,
+  is_archived: false
+};
+
+test("intent maps to listing families", () => {
+  assert.deepEqual(listingTypesForIntent("buy"), ["sale"]);
+  assert.deepEqual(listingTypesForIntent("Rent"), ["rent"]);
+  assert.deepEqual(listingTypesForIntent(""), ["sale", "rent"]);
+});
+
+test("perfect buyer/listing pair scores 100 with full breakdown", () => {
+  const result = scoreBuyerListingPair(buyer, listing, "sale");
+  assert.equal(result.eligible, true);
+  assert.equal(result.score, 100);
+  assert.deepEqual(result.breakdown.map((entry) => entry.criterion), ["budget", "area", "bedrooms", "property_type"]);
+});
+
+test("price far above budget max zeroes the budget criterion", () => {
+  const result = scoreBuyerListingPair(buyer, { ...listing, price: 6000000 }, "sale");
+  const budget = result.breakdown.find((entry) => entry.criterion === "budget");
+  assert.equal(budget?.score, 0);
+  assert.ok(result.score < 100);
+});
+
+test("currency mismatch and intent mismatch make the pair ineligible", () => {
+  assert.equal(scoreBuyerListingPair(buyer, { ...listing, currency: "USD" }, "sale").eligible, false);
+  assert.equal(scoreBuyerListingPair(buyer, listing, "rent").eligible, false);
+});
+
+test("missing data scores neutral instead of zero", () => {
+  const result = scoreBuyerListingPair({ ...buyer, preferred_areas: [], bedrooms_needed: null }, { ...listing, price: null }, "sale");
+  result.breakdown
+    .filter((entry) => entry.criterion !== "property_type")
+    .forEach((entry) => assert.equal(entry.score, 0.5));
+});
+
+test("only unarchived records with an open status stay in the match candidate set", () => {
+  assert.equal(isOpenListing(listing), true);
+  assert.equal(isOpenListing({ ...listing, status: "sold" }), false);
+  assert.equal(isOpenListing({ ...listing, is_archived: true }), false);
+  assert.equal(isOpenBuyer({ ...buyer, status: "hot" }), true);
+  assert.equal(isOpenBuyer({ ...buyer, status: "closed" }), false);
+  assert.equal(isOpenBuyer({ ...buyer, is_archived: true }), false);
+});
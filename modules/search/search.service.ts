@@ -1,3 +1,213 @@
+import { SearchRepository, type ListingTable, type MatchBuyerRow, type MatchListingRow } from "./search.repository";
+
+export type MatchCriterion = "budget" | "area" | "bedrooms" | "property_type";
+export type ListingType = "sale" | "rent";
+
+export type MatchCriterionScore = {
+  criterion: MatchCriterion;
+  weight: number;
+  score: number;
+  detail: string;
+};
+
+export type MatchScore = {
+  score: number;
+  eligible: boolean;
+  breakdown: MatchCriterionScore[];
+  reasons: string[];
+};
+
+export type ListingMatch = MatchScore & {
+  record_type: ListingTable;
+  listing: MatchListingRow;
+};
+
+export type BuyerMatch = MatchScore & {
+  record_type: "buyers";
+  buyer: MatchBuyerRow;
+};
+
+export const MATCH_WEIGHTS: Record<MatchCriterion, number> = {
+  budget: 40,
+  area: 30,
+  bedrooms: 20,
+  property_type: 10
+};
+
+export const DEFAULT_MIN_MATCH_SCORE = 50;
+
+const UNKNOWN_SCORE = 0.5;
+const BUDGET_OVERRUN_TOLERANCE = 0.2;
+
+const tableByListingType: Record<ListingType, ListingTable> = {
+  sale: "properties_sale",
+  rent: "properties_rent"
+};
+
+function normalizeText(value: unknown) {
+  return String(value ?? "")
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, " ");
+}
+
+function round(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Maps the free-text buyer intent to the listing families it can match.
+ * Empty or unrecognized intent matches both sale and rent listings.
+ */
+export function listingTypesForIntent(intent: string): ListingType[] {
+  const value = normalizeText(intent);
+  if (!value) return ["sale", "rent"];
+  if (value.includes("rent") || value.includes("lease") || value.includes("ايجار")) return ["rent"];
+  if (value.includes("buy") || value.includes("sale") || value.includes("purchase") || value.includes("شراء")) return ["sale"];
+  return ["sale", "rent"];
+}
+
+function scoreBudget(buyer: MatchBuyerRow, listing: MatchListingRow): Omit<MatchCriterionScore, "criterion" | "weight"> & { currencyMismatch: boolean } {
+  const buyerCurrency = normalizeText(buyer.currency);
+  const listingCurrency = normalizeText(listing.currency);
+  if (buyerCurrency && listingCurrency && buyerCurrency !== listingCurrency) {
+    return { score: 0, detail: `Currency mismatch (${buyer.currency} vs ${listing.currency})`, currencyMismatch: true };
+  }
+
+  const price = listing.price;
+  const min = buyer.budget_min;
+  const max = buyer.budget_max;
+  if (!price || (!min && !max)) {
+    return { score: UNKNOWN_SCORE, detail: !price ? "Listing price missing" : "Buyer budget missing", currencyMismatch: false };
+  }
+
+  if (max && price > max) {
+    const overrun = (price - max) / max;
+    const score = Math.max(0, 1 - overrun / BUDGET_OVERRUN_TOLERANCE);
+    return { score: round(score), detail: `Price ${Math.round(overrun * 100)}% over budget max`, currencyMismatch: false };
+  }
+
+  if (min && price < min) {
+    const gap = (min - price) / min;
+    return { score: round(Math.max(0.6, 1 - gap)), detail: `Price ${Math.round(gap * 100)}% under budget min`, currencyMismatch: false };
+  }
+
+  return { score: 1, detail: "Price within budget", currencyMismatch: false };
+}
+
+function scoreArea(buyer: MatchBuyerRow, listing: MatchListingRow): Omit<MatchCriterionScore, "criterion" | "weight"> {
+  const preferred = buyer.preferred_areas.map(normalizeText).filter(Boolean);
+  const area = normalizeText(listing.area);
+  const compound = normalizeText(listing.compound);
+  if (preferred.length === 0) return { score: UNKNOWN_SCORE, detail: "Buyer has no preferred areas" };
+  if (!area && !compound) return { score: UNKNOWN_SCORE, detail: "Listing location missing" };
+
+  const exact = preferred.find((entry) => entry === area || entry === compound);
+  if (exact) return { score: 1, detail: `Preferred area "${exact}" matches` };
+
+  const partial = preferred.find(
+    (entry) =>
+      (area && (area.includes(entry) || entry.includes(area))) ||
+      (compound && (compound.includes(entry) || entry.includes(compound)))
+  );
+  if (partial) return { score: 0.7, detail: `Preferred area "${partial}" partially matches` };
+
+  return { score: 0, detail: "Location outside preferred areas" };
+}
+
+function scoreBedrooms(buyer: MatchBuyerRow, listing: MatchListingRow): Omit<MatchCriterionScore, "criterion" | "weight"> {
+  const needed = buyer.bedrooms_needed;
+  const bedrooms = listing.bedrooms;
+  if (!needed || bedrooms === null) return { score: UNKNOWN_SCORE, detail: !needed ? "Buyer bedrooms not set" : "Listing bedrooms missing" };
+  if (bedrooms === needed) return { score: 1, detail: `${bedrooms} bedrooms as requested` };
+  if (bedrooms > needed) return { score: bedrooms - needed === 1 ? 0.8 : 0.6, detail: `${bedrooms} bedrooms (${needed} requested)` };
+  if (needed - bedrooms === 1) return { score: 0.4, detail: `${bedrooms} bedrooms (${needed} requested)` };
+  return { score: 0, detail: `${bedrooms} bedrooms (${needed} requested)` };
+}
+
+function scorePropertyType(buyer: MatchBuyerRow, listing: MatchListingRow): Omit<MatchCriterionScore, "criterion" | "weight"> {
+  const wanted = normalizeText(buyer.property_type);
+  if (!wanted) return { score: UNKNOWN_SCORE, detail: "Buyer property type not set" };
+  const haystack = normalizeText(`${listing.notes} ${listing.compound}`);
+  if (haystack.includes(wanted)) return { score: 1, detail: `Listing mentions "${buyer.property_type}"` };
+  return { score: UNKNOWN_SCORE, detail: "Listing property type unknown" };
+}
+
+/**
+ * Scores a listing against a buyer request. The total is a 0-100 weighted sum of
+ * the per-criterion scores; a currency mismatch or intent mismatch makes the pair ineligible.
+ */
+export function scoreBuyerListingPair(buyer: MatchBuyerRow, listing: MatchListingRow, listingType: ListingType): MatchScore {
+  const reasons: string[] = [];
+  let eligible = true;
+
+  if (!listingTypesForIntent(buyer.intent).includes(listingType)) {
+    eligible = false;
+    reasons.push(`Buyer intent "${buyer.intent}" does not match ${listingType} listings`);
+  }
+
+  const budget = scoreBudget(buyer, listing);
+  if (budget.currencyMismatch) {
+    eligible = false;
+    reasons.push(budget.detail);
+  }
+
+  const breakdown: MatchCriterionScore[] = [
+    { criterion: "budget", weight: MATCH_WEIGHTS.budget, score: budget.score, detail: budget.detail },
+    { criterion: "area", weight: MATCH_WEIGHTS.area, ...scoreArea(buyer, listing) },
+    { criterion: "bedrooms", weight: MATCH_WEIGHTS.bedrooms, ...scoreBedrooms(buyer, listing) },
+    { criterion: "property_type", weight: MATCH_WEIGHTS.property_type, ...scorePropertyType(buyer, listing) }
+  ];
+
+  const totalWeight = breakdown.reduce((sum, entry) => sum + entry.weight, 0);
+  const weighted = breakdown.reduce((sum, entry) => sum + entry.weight * entry.score, 0);
+
+  return {
+    score: eligible ? Math.round((weighted / totalWeight) * 100) : 0,
+    eligible,
+    breakdown,
+    reasons
+  };
+}
+
 export class SearchService {
-  // Business logic for search module lives here.
+  constructor(private readonly repository = new SearchRepository()) {}
+
+  async matchListingsForBuyer(input: { buyerId: string; minScore?: number; limit?: number }) {
+    const buyer = await this.repository.fetchBuyer(input.buyerId);
+    if (!buyer) throw new Error("Buyer not found");
+
+    const minScore = input.minScore ?? DEFAULT_MIN_MATCH_SCORE;
+    const matches: ListingMatch[] = [];
+
+    for (const listingType of listingTypesForIntent(buyer.intent)) {
+      const table = tableByListingType[listingType];
+      const listings = await this.repository.fetchActiveListings(table);
+      listings.forEach((listing) => {
+        const result = scoreBuyerListingPair(buyer, listing, listingType);
+        if (result.eligible && result.score >= minScore) matches.push({ ...result, record_type: table, listing });
+      });
+    }
+
+    matches.sort((a, b) => b.score - a.score);
+    return { buyer, matches: matches.slice(0, input.limit ?? 50) };
+  }
+
+  async matchBuyersForListing(input: { listingType: ListingType; listingId: string; minScore?: number; limit?: number }) {
+    const table = tableByListingType[input.listingType];
+    const listing = await this.repository.fetchListing(table, input.listingId);
+    if (!listing) throw new Error("Listing not found");
+
+    const minScore = input.minScore ?? DEFAULT_MIN_MATCH_SCORE;
+    const buyers = await this.repository.fetchActiveBuyers();
+    const matches: BuyerMatch[] = [];
+
+    buyers.forEach((buyer) => {
+      const result = scoreBuyerListingPair(buyer, listing, input.listingType);
+      if (result.eligible && result.score >= minScore) matches.push({ ...result, record_type: "buyers", buyer });
+    });
+
+    matches.sort((a, b) => b.score - a.score);
+    return { listing, record_type: table, matches: matches.slice(0, input.limit ?? 50) };
+  }
 }
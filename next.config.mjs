@@ -4,7 +4,9 @@ const nextConfig = {
   // Keep root-relative Next.js asset paths so Netlify can serve generated chunks
   // from /.netlify/functions/next_* without MIME/chunk loading issues.
   assetPrefix: undefined,
-  basePath: ""
+  basePath: "",
+  // Enables instrumentation.ts, which validates the media configuration at startup.
+  experimental: { instrumentationHook: true }
 };
 
 export default nextConfig;
@@ -0,0 +1,31 @@
+import type { ApiKey, ApiKeyScope } from "@/lib/api-keys";
+
+export type ApiKeyPayload = { name: string; scopes: ApiKeyScope[]; rate_limit_per_minute?: number; expires_at?: string | null };
+
+async function readJson<T>(response: Response): Promise<T> {
+  const data = (await response.json().catch(() => ({}))) as T & { error?: string };
+  if (!response.ok) {
+    const message = typeof (data as { error?: string }).error === "string" ? (data as { error?: string }).error : "Request failed";
+    throw new Error(message);
+  }
+  return data;
+}
+
+export async function fetchApiKeysApi() {
+  const response = await fetch("/api/api-keys", { cache: "no-store" });
+  return readJson<{ api_keys: ApiKey[] }>(response);
+}
+
+export async function createApiKeyApi(input: ApiKeyPayload) {
+  const response = await fetch("/api/api-keys", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input)
+  });
+  return readJson<{ ok: true; api_key: ApiKey; key: string }>(response);
+}
+
+export async function revokeApiKeyApi(id: string) {
+  const response = await fetch(`/api/api-keys/${id}`, { method: "DELETE" });
+  return readJson<{ ok: true; api_key: ApiKey }>(response);
+}
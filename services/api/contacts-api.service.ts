@@ -0,0 +1,73 @@
+export type ContactSummary = {
+  id: string;
+  name: string;
+  phone: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type ContactMergeTable = "properties_sale" | "properties_rent" | "buyers" | "clients";
+
+export type ContactMergePreview = {
+  survivor: ContactSummary;
+  losers: ContactSummary[];
+  merged: { name: string; phone: string | null };
+  records: Record<ContactMergeTable, Array<{ id: string; code: string | null; contact_id: string }>>;
+  tasks: Array<{ id: string; title: string; status: string; related_id: string }>;
+  timelineCount: number;
+};
+
+export type ContactMergeHistoryEntry = {
+  id: string;
+  survivor_id: string;
+  survivor: ContactSummary | null;
+  losers: ContactSummary[];
+  created_at: string;
+  undone_at: string | null;
+};
+
+async function readJson<T>(response: Response): Promise<T> {
+  const data = (await response.json().catch(() => ({}))) as T & { error?: string };
+  if (!response.ok) {
+    const message = typeof (data as { error?: string }).error === "string" ? (data as { error?: string }).error : "Request failed";
+    throw new Error(message);
+  }
+  return data;
+}
+
+export async function searchContactsApi(q: string) {
+  const response = await fetch(`/api/contacts?q=${encodeURIComponent(q)}`, { cache: "no-store" });
+  return readJson<{ contacts: ContactSummary[] }>(response);
+}
+
+export async function previewContactMergeApi(input: { survivorId: string; loserIds: string[] }) {
+  const response = await fetch("/api/contacts/merge", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ survivor_id: input.survivorId, loser_ids: input.loserIds, preview: true })
+  });
+  return readJson<{ preview: ContactMergePreview }>(response);
+}
+
+export async function mergeContactsApi(input: { survivorId: string; loserIds: string[] }) {
+  const response = await fetch("/api/contacts/merge", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ survivor_id: input.survivorId, loser_ids: input.loserIds })
+  });
+  return readJson<{ ok: true; auditLogId: string; mergedContactIds: string[] }>(response);
+}
+
+export async function fetchContactMergeHistoryApi() {
+  const response = await fetch("/api/contacts/merge", { cache: "no-store" });
+  return readJson<{ merges: ContactMergeHistoryEntry[] }>(response);
+}
+
+export async function undoContactMergeApi(auditLogId: string) {
+  const response = await fetch("/api/contacts/merge/undo", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ audit_log_id: auditLogId })
+  });
+  return readJson<{ ok: true; restoredContactIds: string[] }>(response);
+}
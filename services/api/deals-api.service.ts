@@ -0,0 +1,85 @@
+export type DealStageOutcome = "open" | "won" | "lost";
+
+export type DealStage = {
+  key: string;
+  label: string;
+  position: number;
+  outcome: DealStageOutcome;
+  is_active: boolean;
+};
+
+export type Deal = {
+  id: string;
+  code: string | null;
+  buyer_id: string;
+  sale_id: string | null;
+  rent_id: string | null;
+  stage_key: string;
+  stage_changed_at: string;
+  expected_value: number | null;
+  currency: string;
+  commission: number | null;
+  expected_close_date: string | null;
+  closed_at: string | null;
+  notes: string;
+  assigned_to: string | null;
+  created_at: string;
+  updated_at: string;
+  buyer: { id: string; code: string | null; intent: string; contact_id: string | null } | null;
+  listing: { id: string; code: string | null; area: string; compound: string; price: number | null; currency: string } | null;
+};
+
+export type DealUpdate = {
+  stage_key?: string;
+  expected_value?: number | null;
+  currency?: string;
+  commission?: number | null;
+  expected_close_date?: string | null;
+  notes?: string;
+};
+
+async function readJson<T>(response: Response): Promise<T> {
+  const data = (await response.json().catch(() => ({}))) as T & { error?: string };
+  if (!response.ok) {
+    const message = typeof (data as { error?: string }).error === "string" ? (data as { error?: string }).error : "Request failed";
+    throw new Error(message);
+  }
+  return data;
+}
+
+export async function fetchDealsBoardApi() {
+  const response = await fetch("/api/deals", { cache: "no-store" });
+  return readJson<{ stages: DealStage[]; deals: Deal[] }>(response);
+}
+
+export async function createDealApi(input: { buyerId: string; listingType: "sale" | "rent"; listingId: string; expectedValue?: number | null }) {
+  const response = await fetch("/api/deals", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      buyer_id: input.buyerId,
+      listing_type: input.listingType,
+      listing_id: input.listingId,
+      expected_value: input.expectedValue ?? null
+    })
+  });
+  return readJson<{ ok: true; deal: Deal }>(response);
+}
+
+export async function updateDealApi(id: string, updates: DealUpdate) {
+  const response = await fetch(`/api/deals/${id}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(updates)
+  });
+  return readJson<{ ok: true; deal: Deal }>(response);
+}
+
+export async function saveDealStagesApi(stages: Array<{ key?: string; label: string; outcome: DealStageOutcome }>) {
+  const response = await fetch("/api/deals/stages", {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ stages })
+  });
+  return readJson<{ ok: true; stages: DealStage[] }>(response);
+}
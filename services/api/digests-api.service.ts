@@ -0,0 +1,56 @@
+import type { SavedViewGridType } from "@/lib/saved-views";
+import type { ViewDigestDelivery, ViewDigestStatus, ViewDigestSubscription } from "@/lib/view-digests";
+
+export type ViewDigestPayload = Partial<
+  Pick<
+    ViewDigestSubscription,
+    "name" | "saved_view_id" | "filters" | "sorts" | "hierarchy_node_id" | "archive_scope" | "channel" | "destination" | "send_hour" | "timezone" | "top_n" | "is_active"
+  >
+>;
+
+async function readJson<T>(response: Response): Promise<T> {
+  const data = (await response.json().catch(() => ({}))) as T & { error?: string };
+  if (!response.ok) {
+    const message = typeof (data as { error?: string }).error === "string" ? (data as { error?: string }).error : "Request failed";
+    throw new Error(message);
+  }
+  return data;
+}
+
+export async function fetchViewDigestsApi() {
+  const response = await fetch("/api/digests", { cache: "no-store" });
+  return readJson<{ digests: ViewDigestSubscription[] }>(response);
+}
+
+export async function fetchViewDigestApi(id: string) {
+  const response = await fetch(`/api/digests/${id}`, { cache: "no-store" });
+  return readJson<{ digest: ViewDigestSubscription; deliveries: ViewDigestDelivery[] }>(response);
+}
+
+export async function createViewDigestApi(input: ViewDigestPayload & { grid_type: SavedViewGridType }) {
+  const response = await fetch("/api/digests", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input)
+  });
+  return readJson<{ ok: true; digest: ViewDigestSubscription }>(response);
+}
+
+export async function updateViewDigestApi(id: string, updates: ViewDigestPayload) {
+  const response = await fetch(`/api/digests/${id}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(updates)
+  });
+  return readJson<{ ok: true; digest: ViewDigestSubscription }>(response);
+}
+
+export async function deleteViewDigestApi(id: string) {
+  const response = await fetch(`/api/digests/${id}`, { method: "DELETE" });
+  return readJson<{ ok: true }>(response);
+}
+
+export async function sendViewDigestNowApi(id: string) {
+  const response = await fetch(`/api/digests/${id}/send`, { method: "POST" });
+  return readJson<{ ok: boolean; result: { status: ViewDigestStatus; total: number | null; detail: string } }>(response);
+}
@@ -0,0 +1,67 @@
+import type { FileImportTarget } from "@/lib/file-import";
+import type { SheetImportBatch, SheetImportReport } from "@/lib/sheet-import";
+import type { SheetSyncDataset } from "@/lib/sheet-sync";
+
+export type FileImportInspection = {
+  file_name: string;
+  sheet_name: string;
+  headers: string[];
+  sample_rows: string[][];
+  row_count: number;
+  targets: FileImportTarget[];
+  suggested_mapping: Record<string, string>;
+};
+
+export type FileImportResult = {
+  ok: true;
+  batch: SheetImportBatch;
+  report: SheetImportReport;
+  created_records: number;
+  drafts: number;
+  skipped: number;
+  failures: Array<{ sheet_row: number; error: string }>;
+};
+
+type FileImportInput = {
+  file: File;
+  dataset: SheetSyncDataset;
+  hierarchyNodeId?: string;
+  columnMap?: Record<string, string>;
+};
+
+async function readJson<T>(response: Response): Promise<T> {
+  const data = (await response.json().catch(() => ({}))) as T & { error?: string };
+  if (!response.ok) {
+    const message = typeof (data as { error?: string }).error === "string" ? (data as { error?: string }).error : "Request failed";
+    throw new Error(message);
+  }
+  return data;
+}
+
+function importForm(input: FileImportInput, extra: Record<string, string> = {}) {
+  const form = new FormData();
+  form.set("file", input.file);
+  form.set("dataset", input.dataset);
+  if (input.hierarchyNodeId) form.set("hierarchy_node_id", input.hierarchyNodeId);
+  if (input.columnMap) form.set("column_map", JSON.stringify(input.columnMap));
+  Object.entries(extra).forEach(([key, value]) => form.set(key, value));
+  return form;
+}
+
+export async function inspectImportFileApi(input: FileImportInput) {
+  const response = await fetch("/api/imports/files/inspect", { method: "POST", body: importForm(input) });
+  return readJson<FileImportInspection>(response);
+}
+
+export async function previewFileImportApi(input: FileImportInput) {
+  const response = await fetch("/api/imports/files", { method: "POST", body: importForm(input, { dry_run: "true" }) });
+  return readJson<{ ok: true; dry_run: true; report: SheetImportReport }>(response);
+}
+
+export async function runFileImportApi(input: FileImportInput & { skipInvalid?: boolean }) {
+  const response = await fetch("/api/imports/files", {
+    method: "POST",
+    body: importForm(input, { skip_invalid: input.skipInvalid ? "true" : "false" })
+  });
+  return readJson<FileImportResult>(response);
+}
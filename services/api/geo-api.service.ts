@@ -0,0 +1,73 @@
+import type { GazetteerEntryInput, GazetteerKind } from "@/lib/geo";
+
+export type GazetteerEntry = {
+  id: string;
+  kind: GazetteerKind;
+  name: string;
+  normalized_name: string;
+  parent_area: string;
+  aliases: string[];
+  normalized_aliases: string[];
+  latitude: number;
+  longitude: number;
+  updated_at: string;
+};
+
+export type GazetteerImportResult = {
+  ok: true;
+  saved: number;
+  errors: Array<{ line: number; message: string }>;
+};
+
+async function readJson<T>(response: Response): Promise<T> {
+  const data = (await response.json().catch(() => ({}))) as T & { error?: string };
+  if (!response.ok) {
+    const message = typeof (data as { error?: string }).error === "string" ? (data as { error?: string }).error : "Request failed";
+    throw new Error(message);
+  }
+  return data;
+}
+
+async function postGazetteer<T>(body: Record<string, unknown>) {
+  const response = await fetch("/api/geo/gazetteer", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body)
+  });
+  return readJson<T>(response);
+}
+
+export async function fetchGazetteerApi() {
+  const response = await fetch("/api/geo/gazetteer", { cache: "no-store" });
+  return readJson<{ entries: GazetteerEntry[] }>(response);
+}
+
+export async function createGazetteerEntryApi(entry: GazetteerEntryInput) {
+  return postGazetteer<GazetteerImportResult>({ action: "upsert", entries: [entry] });
+}
+
+export async function importGazetteerCsvApi(csv: string) {
+  return postGazetteer<GazetteerImportResult>({ action: "import_csv", csv });
+}
+
+export async function backfillListingCoordinatesApi() {
+  return postGazetteer<{ ok: true; scanned: number; assigned: number }>({ action: "backfill" });
+}
+
+export async function updateGazetteerEntryApi(id: string, entry: GazetteerEntryInput) {
+  const response = await fetch("/api/geo/gazetteer", {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ id, entry })
+  });
+  return readJson<{ ok: true; entry: GazetteerEntry }>(response);
+}
+
+export async function deleteGazetteerEntryApi(id: string) {
+  const response = await fetch("/api/geo/gazetteer", {
+    method: "DELETE",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ id })
+  });
+  return readJson<{ ok: true }>(response);
+}
@@ -0,0 +1,53 @@
+import type { SavedView, SavedViewGridType, SavedViewState, SavedViewVisibility } from "@/lib/saved-views";
+
+async function readJson<T>(response: Response): Promise<T> {
+  const data = (await response.json().catch(() => ({}))) as T & { error?: string };
+  if (!response.ok) {
+    const message = typeof (data as { error?: string }).error === "string" ? (data as { error?: string }).error : "Request failed";
+    throw new Error(message);
+  }
+  return data;
+}
+
+export async function fetchSavedViewsApi(type: SavedViewGridType) {
+  const response = await fetch(`/api/grid/views?type=${type}`, { cache: "no-store" });
+  return readJson<{ views: SavedView[]; defaultViewId: string | null }>(response);
+}
+
+export async function fetchSavedViewApi(id: string) {
+  const response = await fetch(`/api/grid/views/${id}`, { cache: "no-store" });
+  return readJson<{ view: SavedView }>(response);
+}
+
+export async function createSavedViewApi(input: SavedViewState & { type: SavedViewGridType; name: string; visibility: SavedViewVisibility; makeDefault?: boolean }) {
+  const { type, makeDefault, ...state } = input;
+  const response = await fetch("/api/grid/views", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...state, type, make_default: makeDefault || false })
+  });
+  return readJson<{ ok: true; view: SavedView }>(response);
+}
+
+export async function updateSavedViewApi(id: string, updates: Partial<SavedViewState> & { name?: string; visibility?: SavedViewVisibility }) {
+  const response = await fetch(`/api/grid/views/${id}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(updates)
+  });
+  return readJson<{ ok: true; view: SavedView }>(response);
+}
+
+export async function deleteSavedViewApi(id: string) {
+  const response = await fetch(`/api/grid/views/${id}`, { method: "DELETE" });
+  return readJson<{ ok: true }>(response);
+}
+
+export async function setDefaultSavedViewApi(type: SavedViewGridType, viewId: string | null) {
+  const response = await fetch("/api/grid/views/default", {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ type, view_id: viewId })
+  });
+  return readJson<{ ok: true; defaultViewId: string | null }>(response);
+}
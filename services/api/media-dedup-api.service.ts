@@ -0,0 +1,43 @@
+import type { MediaDuplicateMatch } from "@/lib/media-dedup";
+
+export type UploadDuplicateCheck = { name: string; size: number; matches: MediaDuplicateMatch[] };
+
+async function readJson<T>(response: Response): Promise<T> {
+  const data = (await response.json().catch(() => ({}))) as T & { error?: string };
+  if (!response.ok) {
+    const message = typeof (data as { error?: string }).error === "string" ? (data as { error?: string }).error : "Request failed";
+    throw new Error(message);
+  }
+  return data;
+}
+
+export async function fetchMediaDuplicatesApi(mediaIds: string[]) {
+  const response = await fetch("/api/media/duplicates", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ media_ids: mediaIds })
+  });
+  return readJson<{ duplicates: Record<string, MediaDuplicateMatch[]> }>(response);
+}
+
+export async function checkUploadDuplicatesApi(files: File[]) {
+  const form = new FormData();
+  files.forEach((file) => form.append("files", file));
+  const response = await fetch("/api/media/duplicates/check", { method: "POST", body: form });
+  return readJson<{ files: UploadDuplicateCheck[] }>(response);
+}
+
+export async function linkExistingMediaApi(input: {
+  source_media_id: string;
+  intake_session_id?: string;
+  record_type?: string;
+  record_id?: string;
+  replace_media_id?: string;
+}) {
+  const response = await fetch("/api/media/link", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input)
+  });
+  return readJson<{ ok: true; media_id: string; replaced: boolean }>(response);
+}
@@ -0,0 +1,35 @@
+import type { MediaWatermarkSettings, WatermarkPosition } from "@/lib/media-watermark";
+
+export type WatermarkRootSettings = {
+  root: { id: string; family: "sale" | "rent"; name: string };
+  settings: MediaWatermarkSettings;
+};
+
+async function readJson<T>(response: Response): Promise<T> {
+  const data = (await response.json().catch(() => ({}))) as T & { error?: string };
+  if (!response.ok) {
+    const message = typeof (data as { error?: string }).error === "string" ? (data as { error?: string }).error : "Request failed";
+    throw new Error(message);
+  }
+  return data;
+}
+
+export async function fetchWatermarkSettingsApi() {
+  const response = await fetch("/api/media/watermarks", { cache: "no-store" });
+  return readJson<{ roots: WatermarkRootSettings[] }>(response);
+}
+
+export async function saveWatermarkSettingsApi(
+  rootNodeId: string,
+  input: { enabled: boolean; position: WatermarkPosition; opacity: number; textTemplate: string; logo?: File | null; removeLogo?: boolean }
+) {
+  const form = new FormData();
+  form.set("enabled", String(input.enabled));
+  form.set("position", input.position);
+  form.set("opacity", String(input.opacity));
+  form.set("text_template", input.textTemplate);
+  form.set("remove_logo", String(Boolean(input.removeLogo)));
+  if (input.logo) form.set("logo", input.logo);
+  const response = await fetch(`/api/media/watermarks/${rootNodeId}`, { method: "PUT", body: form });
+  return readJson<{ ok: true; settings: MediaWatermarkSettings }>(response);
+}
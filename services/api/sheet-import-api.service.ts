@@ -0,0 +1,48 @@
+import type { SheetImportBatch, SheetImportReport } from "@/lib/sheet-import";
+import type { SheetSyncDataset } from "@/lib/sheet-sync";
+
+type SheetImportInput = {
+  spreadsheet_id: string;
+  mappings: Array<{ dataset: SheetSyncDataset; tab: string; column_map: Record<string, string> }>;
+};
+
+async function readJson<T>(response: Response): Promise<T> {
+  const data = (await response.json().catch(() => ({}))) as T & { error?: string };
+  if (!response.ok) {
+    const message = typeof (data as { error?: string }).error === "string" ? (data as { error?: string }).error : "Request failed";
+    throw new Error(message);
+  }
+  return data;
+}
+
+export async function previewSheetImportApi(input: SheetImportInput) {
+  const response = await fetch("/api/integrations/sheets/import", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...input, dry_run: true })
+  });
+  return readJson<{ ok: true; dry_run: true; reports: SheetImportReport[] }>(response);
+}
+
+export async function runSheetImportApi(input: SheetImportInput & { skip_invalid?: boolean }) {
+  const response = await fetch("/api/integrations/sheets/import", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input)
+  });
+  return readJson<{ ok: true; created_count: number; batches: SheetImportBatch[]; reports: SheetImportReport[] }>(response);
+}
+
+export async function fetchSheetImportBatchesApi(filter: { source?: SheetImportBatch["source"]; spreadsheetId?: string } = {}) {
+  const params = new URLSearchParams();
+  if (filter.source) params.set("source", filter.source);
+  if (filter.spreadsheetId) params.set("spreadsheet_id", filter.spreadsheetId);
+  const query = params.toString() ? `?${params.toString()}` : "";
+  const response = await fetch(`/api/integrations/sheets/import/batches${query}`, { cache: "no-store" });
+  return readJson<{ batches: SheetImportBatch[] }>(response);
+}
+
+export async function rollbackSheetImportBatchApi(batchId: string) {
+  const response = await fetch(`/api/integrations/sheets/import/batches/${batchId}/rollback`, { method: "POST" });
+  return readJson<{ ok: true; batch: SheetImportBatch }>(response);
+}
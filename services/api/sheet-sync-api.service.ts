@@ -0,0 +1,39 @@
+import type { SheetSyncDataset, SheetSyncOutcome, SheetSyncRowOutcome, SheetSyncRun } from "@/lib/sheet-sync";
+
+async function readJson<T>(response: Response): Promise<T> {
+  const data = (await response.json().catch(() => ({}))) as T & { error?: string };
+  if (!response.ok) {
+    const message = typeof (data as { error?: string }).error === "string" ? (data as { error?: string }).error : "Request failed";
+    throw new Error(message);
+  }
+  return data;
+}
+
+export async function fetchSheetSyncRunsApi(spreadsheetId?: string) {
+  const query = spreadsheetId ? `?spreadsheet_id=${encodeURIComponent(spreadsheetId)}` : "";
+  const response = await fetch(`/api/integrations/sheets/sync/runs${query}`, { cache: "no-store" });
+  return readJson<{ runs: SheetSyncRun[] }>(response);
+}
+
+export async function startSheetSyncApi(input: { spreadsheet_id: string; dataset: SheetSyncDataset; tab?: string }) {
+  const response = await fetch("/api/integrations/sheets/sync/runs", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input)
+  });
+  return readJson<{ ok: true; run: SheetSyncRun }>(response);
+}
+
+export async function fetchSheetSyncRunApi(runId: string, outcome?: SheetSyncOutcome) {
+  const response = await fetch(`/api/integrations/sheets/sync/runs/${runId}${outcome ? `?outcome=${outcome}` : ""}`, { cache: "no-store" });
+  return readJson<{ run: SheetSyncRun; outcomes: SheetSyncRowOutcome[] }>(response);
+}
+
+export async function resolveSheetSyncConflictApi(outcomeId: string, keep: "crm" | "sheet") {
+  const response = await fetch(`/api/integrations/sheets/sync/conflicts/${outcomeId}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ keep })
+  });
+  return readJson<{ ok: true; outcome: SheetSyncRowOutcome }>(response);
+}
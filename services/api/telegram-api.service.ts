@@ -0,0 +1,25 @@
+async function readJson<T>(response: Response): Promise<T> {
+  const data = (await response.json().catch(() => ({}))) as T & { error?: string };
+  if (!response.ok) {
+    const message = typeof (data as { error?: string }).error === "string" ? (data as { error?: string }).error : "Request failed";
+    throw new Error(message);
+  }
+  return data;
+}
+
+export type TelegramLinkStatus = { configured: boolean; botUsername: string | null; linked: boolean; linkedAt: string | null };
+
+export async function fetchTelegramLinkApi() {
+  const response = await fetch("/api/integrations/telegram/link", { cache: "no-store" });
+  return readJson<TelegramLinkStatus>(response);
+}
+
+export async function createTelegramLinkCodeApi() {
+  const response = await fetch("/api/integrations/telegram/link", { method: "POST" });
+  return readJson<{ ok: true; code: string; expiresAt: string; deepLink: string | null }>(response);
+}
+
+export async function unlinkTelegramApi() {
+  const response = await fetch("/api/integrations/telegram/link", { method: "DELETE" });
+  return readJson<{ ok: true }>(response);
+}
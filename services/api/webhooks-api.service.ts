@@ -0,0 +1,65 @@
+import type { WebhookDelivery, WebhookDeliveryAttempt, WebhookDeliveryStatus, WebhookSubscription } from "@/lib/webhooks";
+
+export type WebhookPayload = Partial<Pick<WebhookSubscription, "name" | "url" | "events" | "is_active">>;
+
+async function readJson<T>(response: Response): Promise<T> {
+  const data = (await response.json().catch(() => ({}))) as T & { error?: string };
+  if (!response.ok) {
+    const message = typeof (data as { error?: string }).error === "string" ? (data as { error?: string }).error : "Request failed";
+    throw new Error(message);
+  }
+  return data;
+}
+
+export async function fetchWebhooksApi() {
+  const response = await fetch("/api/webhooks", { cache: "no-store" });
+  return readJson<{ webhooks: WebhookSubscription[] }>(response);
+}
+
+export async function fetchWebhookApi(id: string) {
+  const response = await fetch(`/api/webhooks/${id}`, { cache: "no-store" });
+  return readJson<{ webhook: WebhookSubscription; deliveries: WebhookDelivery[] }>(response);
+}
+
+export async function createWebhookApi(input: WebhookPayload & Pick<WebhookSubscription, "name" | "url" | "events">) {
+  const response = await fetch("/api/webhooks", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input)
+  });
+  return readJson<{ ok: true; webhook: WebhookSubscription; secret: string }>(response);
+}
+
+export async function updateWebhookApi(id: string, updates: WebhookPayload) {
+  const response = await fetch(`/api/webhooks/${id}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(updates)
+  });
+  return readJson<{ ok: true; webhook: WebhookSubscription }>(response);
+}
+
+export async function deleteWebhookApi(id: string) {
+  const response = await fetch(`/api/webhooks/${id}`, { method: "DELETE" });
+  return readJson<{ ok: true }>(response);
+}
+
+export async function rotateWebhookSecretApi(id: string) {
+  const response = await fetch(`/api/webhooks/${id}/rotate-secret`, { method: "POST" });
+  return readJson<{ ok: true; secret: string }>(response);
+}
+
+export async function fetchWebhookDeliveriesApi(status?: WebhookDeliveryStatus) {
+  const response = await fetch(`/api/webhooks/deliveries${status ? `?status=${status}` : ""}`, { cache: "no-store" });
+  return readJson<{ deliveries: WebhookDelivery[] }>(response);
+}
+
+export async function fetchWebhookDeliveryAttemptsApi(deliveryId: string) {
+  const response = await fetch(`/api/webhooks/deliveries/${deliveryId}`, { cache: "no-store" });
+  return readJson<{ attempts: WebhookDeliveryAttempt[] }>(response);
+}
+
+export async function retryWebhookDeliveryApi(deliveryId: string) {
+  const response = await fetch(`/api/webhooks/deliveries/${deliveryId}/retry`, { method: "POST" });
+  return readJson<{ ok: true; delivery: WebhookDelivery }>(response);
+}
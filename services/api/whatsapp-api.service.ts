@@ -0,0 +1,30 @@
+async function readJson<T>(response: Response): Promise<T> {
+  const data = (await response.json().catch(() => ({}))) as T & { error?: string };
+  if (!response.ok) {
+    const message = typeof (data as { error?: string }).error === "string" ? (data as { error?: string }).error : "Request failed";
+    throw new Error(message);
+  }
+  return data;
+}
+
+export type WhatsAppTemplateRequest = {
+  type: "sale" | "rent" | "buyer" | "client";
+  record_id: string;
+  template_name: string;
+  language_code: string;
+  body_parameters: string[];
+};
+
+export async function fetchWhatsAppStatusApi() {
+  const response = await fetch("/api/integrations/whatsapp/send-template", { cache: "no-store" });
+  return readJson<{ configured: boolean }>(response);
+}
+
+export async function sendWhatsAppTemplateApi(payload: WhatsAppTemplateRequest) {
+  const response = await fetch("/api/integrations/whatsapp/send-template", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(payload)
+  });
+  return readJson<{ ok: true; message_id: string | null; to: string }>(response);
+}
@@ -0,0 +1,14 @@
+import { z } from "zod";
+import { API_KEY_SCOPES } from "@/lib/api-keys";
+
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1).max(API_KEY_SCOPES.length),
+  rate_limit_per_minute: z.number().int().min(1).max(10000).optional(),
+  expires_at: z
+    .string()
+    .datetime({ offset: true })
+    .refine((value) => new Date(value).getTime() > Date.now(), "Expiry must be in the future")
+    .nullable()
+    .optional()
+});
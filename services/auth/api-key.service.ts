@@ -0,0 +1,156 @@
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+import { NextRequest, NextResponse } from "next/server";
+import {
+  API_KEY_DISPLAY_LENGTH,
+  API_KEY_TOKEN_PREFIX,
+  LEGACY_INTEGRATION_KEY_SCOPES,
+  extractApiKey,
+  extractLegacyIntegrationKey,
+  isApiKeyScope,
+  type ApiKey,
+  type ApiKeyScope
+} from "@/lib/api-keys";
+import { getIntegrationKey } from "@/lib/env";
+import { createSupabaseAdminClient } from "@/lib/supabase/admin";
+import { createSupabaseClient } from "@/services/supabase/client";
+
+export type ApiKeyInput = Pick<ApiKey, "name" | "scopes"> & Partial<Pick<ApiKey, "rate_limit_per_minute" | "expires_at">>;
+
+/** `id` is null for callers still on the deprecated shared `INTEGRATION_KEY`. */
+export type AuthenticatedApiKey = { id: string | null; name: string };
+
+type ConsumeResult = {
+  api_key_id: string | null;
+  key_name: string | null;
+  status: "ok" | "invalid" | "revoked" | "expired" | "forbidden" | "rate_limited";
+  rate_limit: number | null;
+  remaining: number | null;
+  reset_at: string | null;
+};
+
+const API_KEY_SELECT = "id,name,key_prefix,scopes,rate_limit_per_minute,expires_at,last_used_at,revoked_at,created_by,created_at";
+
+export function hashApiKey(key: string) {
+  return createHash("sha256").update(key, "utf8").digest("hex");
+}
+
+export function generateApiKey() {
+  const key = `${API_KEY_TOKEN_PREFIX}${randomBytes(4).toString("hex")}_${randomBytes(24).toString("base64url")}`;
+  return { key, prefix: key.slice(0, API_KEY_DISPLAY_LENGTH), hash: hashApiKey(key) };
+}
+
+function matchesLegacyIntegrationKey(headers: Headers, scope: ApiKeyScope) {
+  const integrationKey = getIntegrationKey();
+  const presented = extractLegacyIntegrationKey(headers);
+  if (!integrationKey || !presented || !LEGACY_INTEGRATION_KEY_SCOPES.includes(scope)) return false;
+  return timingSafeEqual(Buffer.from(hashApiKey(presented), "hex"), Buffer.from(hashApiKey(integrationKey), "hex"));
+}
+
+function normalizeApiKey(row: Record<string, unknown>): ApiKey {
+  return {
+    id: String(row.id),
+    name: String(row.name || ""),
+    key_prefix: String(row.key_prefix || ""),
+    scopes: (Array.isArray(row.scopes) ? row.scopes : []).filter(isApiKeyScope),
+    rate_limit_per_minute: Number(row.rate_limit_per_minute) || 0,
+    expires_at: row.expires_at ? String(row.expires_at) : null,
+    last_used_at: row.last_used_at ? String(row.last_used_at) : null,
+    revoked_at: row.revoked_at ? String(row.revoked_at) : null,
+    created_by: row.created_by ? String(row.created_by) : null,
+    created_at: String(row.created_at)
+  };
+}
+
+/**
+ * Authenticates a machine caller by API key and scope, counting the request against the key's per-minute limit.
+ * Mirrors `requireAdminActor`: callers return `errorResponse` as-is when it is set.
+ */
+export async function requireApiKey(
+  request: NextRequest,
+  scope: ApiKeyScope
+): Promise<{ apiKey: null; errorResponse: NextResponse } | { apiKey: AuthenticatedApiKey; errorResponse: null }> {
+  const unauthorized = (error: string) => ({ apiKey: null, errorResponse: NextResponse.json({ error }, { status: 401 }) });
+
+  if (matchesLegacyIntegrationKey(request.headers, scope)) {
+    console.warn("[api-keys] request authenticated with the deprecated INTEGRATION_KEY; issue an API key instead", { scope });
+    return { apiKey: { id: null, name: "INTEGRATION_KEY" }, errorResponse: null };
+  }
+
+  const key = extractApiKey(request.headers);
+  if (!key) return unauthorized("Unauthorized");
+
+  const admin = createSupabaseAdminClient();
+  const { data, error } = await admin.rpc("consume_api_key", { p_key_hash: hashApiKey(key), p_scope: scope }).maybeSingle();
+  if (error || !data) {
+    console.error("[api-keys] key check failed", { scope, error: error?.message });
+    return { apiKey: null, errorResponse: NextResponse.json({ error: "Failed to verify API key" }, { status: 500 }) };
+  }
+
+  const result = data as ConsumeResult;
+  switch (result.status) {
+    case "invalid":
+      return unauthorized("Unauthorized");
+    case "revoked":
+      return unauthorized("API key revoked");
+    case "expired":
+      return unauthorized("API key expired");
+    case "forbidden":
+      return { apiKey: null, errorResponse: NextResponse.json({ error: `API key is missing the ${scope} scope` }, { status: 403 }) };
+    case "rate_limited": {
+      const resetAt = result.reset_at ? new Date(result.reset_at).getTime() : Date.now() + 60_000;
+      const retryAfter = Math.max(Math.ceil((resetAt - Date.now()) / 1000), 1);
+      const headers = {
+        "Retry-After": String(retryAfter),
+        "X-RateLimit-Limit": String(result.rate_limit ?? 0),
+        "X-RateLimit-Remaining": "0",
+        "X-RateLimit-Reset": String(Math.floor(resetAt / 1000))
+      };
+      return { apiKey: null, errorResponse: NextResponse.json({ error: "Rate limit exceeded" }, { status: 429, headers }) };
+    }
+    default:
+      return { apiKey: { id: String(result.api_key_id), name: String(result.key_name || "") }, errorResponse: null };
+  }
+}
+
+export async function fetchApiKeys() {
+  const supabase = createSupabaseClient();
+  const { data, error } = await supabase.from("api_keys").select(API_KEY_SELECT).order("created_at", { ascending: false });
+  if (error) throw new Error(error.message);
+  return ((data || []) as Array<Record<string, unknown>>).map(normalizeApiKey);
+}
+
+/** The plaintext key is only returned here; the table keeps its hash and a short display prefix. */
+export async function createApiKey(input: ApiKeyInput, actorUserId: string | null) {
+  const { key, prefix, hash } = generateApiKey();
+  const supabase = createSupabaseClient();
+  const { data, error } = await supabase
+    .from("api_keys")
+    .insert({
+      name: input.name.trim(),
+      scopes: Array.from(new Set(input.scopes)),
+      ...(input.rate_limit_per_minute !== undefined ? { rate_limit_per_minute: input.rate_limit_per_minute } : {}),
+      expires_at: input.expires_at || null,
+      key_prefix: prefix,
+      key_hash: hash,
+      created_by: actorUserId
+    })
+    .select(API_KEY_SELECT)
+    .single();
+  if (error || !data) throw new Error(error?.message || "Failed to create API key");
+  return { apiKey: normalizeApiKey(data as Record<string, unknown>), key };
+}
+
+/** Revoked keys stay listed so their name and last use remain visible; they can no longer authenticate. */
+export async function revokeApiKey(id: string) {
+  const supabase = createSupabaseClient();
+  const { data, error } = await supabase
+    .from("api_keys")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("id", id)
+    .is("revoked_at", null)
+    .select(API_KEY_SELECT)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data) throw new Error("API key not found or already revoked");
+  return normalizeApiKey(data as Record<string, unknown>);
+}
@@ -0,0 +1,136 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createSupabaseClient } from "@/services/supabase/client";
+import {
+  normalizeContactChannelValue,
+  type ContactChannel,
+  type ContactChannelInput,
+  type ContactChannelType
+} from "@/lib/contact-channels";
+
+const CHANNEL_SELECT = "id,contact_id,type,value,normalized_value,is_primary,verified,created_at,updated_at";
+
+type NormalizedChannelInput = {
+  type: ContactChannelType;
+  value: string;
+  normalized_value: string;
+  is_primary: boolean;
+  verified: boolean;
+};
+
+/**
+ * Normalizes and de-duplicates channel input. Invalid values are dropped, and exactly one
+ * channel per type ends up primary (the first flagged one, else the first of that type).
+ */
+export function prepareContactChannels(channels: ContactChannelInput[]): NormalizedChannelInput[] {
+  const seen = new Set<string>();
+  const prepared: NormalizedChannelInput[] = [];
+
+  channels.forEach((channel) => {
+    const normalized = normalizeContactChannelValue(channel.type, channel.value);
+    const key = `${channel.type}:${normalized}`;
+    if (!normalized || seen.has(key)) return;
+    seen.add(key);
+    prepared.push({
+      type: channel.type,
+      value: String(channel.value).trim(),
+      normalized_value: normalized,
+      is_primary: Boolean(channel.is_primary),
+      verified: Boolean(channel.verified)
+    });
+  });
+
+  const primaryTypes = new Set<ContactChannelType>();
+  prepared.forEach((channel) => {
+    if (channel.is_primary && !primaryTypes.has(channel.type)) {
+      primaryTypes.add(channel.type);
+    } else {
+      channel.is_primary = false;
+    }
+  });
+  prepared.forEach((channel) => {
+    if (!primaryTypes.has(channel.type)) {
+      channel.is_primary = true;
+      primaryTypes.add(channel.type);
+    }
+  });
+
+  return prepared;
+}
+
+export async function fetchContactChannels(contactIds: string[], supabase: SupabaseClient = createSupabaseClient()) {
+  if (contactIds.length === 0) return [] as ContactChannel[];
+  const { data, error } = await supabase
+    .from("contact_channels")
+    .select(CHANNEL_SELECT)
+    .in("contact_id", contactIds)
+    .order("is_primary", { ascending: false })
+    .order("created_at", { ascending: true });
+  if (error) throw new Error(error.message);
+  return (data || []) as ContactChannel[];
+}
+
+export async function attachContactChannels<T extends { id: string }>(contacts: T[]) {
+  const channels = await fetchContactChannels(contacts.map((contact) => contact.id));
+  return contacts.map((contact) => ({ ...contact, channels: channels.filter((channel) => channel.contact_id === contact.id) }));
+}
+
+/** Finds the oldest contact owning any of the given channel values (phone and WhatsApp numbers match each other). */
+export async function findContactIdByChannels(supabase: SupabaseClient, channels: ContactChannelInput[]) {
+  const normalizedValues = Array.from(new Set(prepareContactChannels(channels).map((channel) => channel.normalized_value)));
+  if (normalizedValues.length === 0) return null;
+
+  const { data, error } = await supabase
+    .from("contact_channels")
+    .select("contact_id,created_at")
+    .in("normalized_value", normalizedValues)
+    .order("created_at", { ascending: true })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return data?.contact_id ? String(data.contact_id) : null;
+}
+
+/** Adds channels the contact does not have yet; existing channels and primaries are left untouched. */
+export async function addContactChannels(supabase: SupabaseClient, contactId: string, channels: ContactChannelInput[]) {
+  const prepared = prepareContactChannels(channels);
+  if (prepared.length === 0) return;
+
+  const existing = await fetchContactChannels([contactId], supabase);
+  const existingKeys = new Set(existing.map((channel) => `${channel.type}:${channel.normalized_value}`));
+  const existingPrimaryTypes = new Set(existing.filter((channel) => channel.is_primary).map((channel) => channel.type));
+  const rows = prepared
+    .filter((channel) => !existingKeys.has(`${channel.type}:${channel.normalized_value}`))
+    .map((channel) => ({ ...channel, contact_id: contactId, is_primary: channel.is_primary && !existingPrimaryTypes.has(channel.type) }));
+  if (rows.length === 0) return;
+
+  const { error } = await supabase.from("contact_channels").insert(rows);
+  if (error) throw new Error(error.message);
+  await syncPrimaryPhone(supabase, contactId);
+}
+
+/** Replaces every channel of a contact with the given list and mirrors the primary phone onto contacts.phone. */
+export async function replaceContactChannels(contactId: string, channels: ContactChannelInput[]) {
+  const prepared = prepareContactChannels(channels);
+  const supabase = createSupabaseClient();
+
+  const { error: deleteError } = await supabase.from("contact_channels").delete().eq("contact_id", contactId);
+  if (deleteError) throw new Error(deleteError.message);
+
+  if (prepared.length > 0) {
+    const { error } = await supabase.from("contact_channels").insert(prepared.map((channel) => ({ ...channel, contact_id: contactId })));
+    if (error) throw new Error(error.message);
+  }
+
+  await syncPrimaryPhone(supabase, contactId);
+  return fetchContactChannels([contactId], supabase);
+}
+
+async function syncPrimaryPhone(supabase: SupabaseClient, contactId: string) {
+  const channels = await fetchContactChannels([contactId], supabase);
+  const primaryPhone =
+    channels.find((channel) => channel.type === "phone" && channel.is_primary) ||
+    channels.find((channel) => channel.type === "whatsapp" && channel.is_primary);
+
+  const { error } = await supabase.from("contacts").update({ phone: primaryPhone?.normalized_value || null }).eq("id", contactId);
+  if (error) throw new Error(error.message);
+}
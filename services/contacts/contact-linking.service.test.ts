@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { resolveContactId } from "@/services/contacts/contact-linking.service";
+
+type Call = { table: string; op: string; payload?: unknown };
+
+/** Minimal stand-in for the query builder: chains resolve to the data queued under `table.op` (`table.maybeSingle` for lookups). */
+function fakeClient(results: Record<string, unknown>) {
+  const calls: Call[] = [];
+  const client = {
+    from(table: string) {
+      let op = "select";
+      let payload: unknown;
+      const result = (key = `${table}.${op}`) => ({ data: results[key] ?? null, error: null });
+      const builder = {
+        select: () => builder,
+        in: () => builder,
+        eq: () => builder,
+        order: () => builder,
+        limit: () => builder,
+        insert(value: unknown) {
+          op = "insert";
+          payload = value;
+          calls.push({ table, op, payload });
+          return builder;
+        },
+        update(value: unknown) {
+          op = "update";
+          payload = value;
+          calls.push({ table, op, payload });
+          return builder;
+        },
+        maybeSingle: async () => result(`${table}.maybeSingle`),
+        single: async () => result(),
+        then: (resolve: (value: unknown) => unknown) => resolve(result())
+      };
+      return builder;
+    }
+  };
+  return { client: client as unknown as SupabaseClient, calls };
+}
+
+test("an unknown WhatsApp sender becomes a new contact through the given client", async () => {
+  const { client, calls } = fakeClient({ "contacts.insert": { id: "contact-1" }, "contact_channels.select": [] });
+
+  assert.equal(await resolveContactId(client, { name: "Mona", whatsapp: "+201001234567" }), "contact-1");
+  assert.deepEqual(calls, [
+    { table: "contacts", op: "insert", payload: { name: "Mona", phone: null } },
+    {
+      table: "contact_channels",
+      op: "insert",
+      payload: [{ type: "whatsapp", value: "+201001234567", normalized_value: "+201001234567", is_primary: true, verified: false, contact_id: "contact-1" }]
+    },
+    { table: "contacts", op: "update", payload: { phone: null } }
+  ]);
+});
+
+test("a known sender is linked without creating a contact", async () => {
+  const { client, calls } = fakeClient({
+    "contact_channels.maybeSingle": { contact_id: "contact-7", created_at: "2026-01-01T00:00:00Z" },
+    "contact_channels.select": [{ contact_id: "contact-7", type: "whatsapp", normalized_value: "+201001234567", is_primary: true }]
+  });
+
+  assert.equal(await resolveContactId(client, { name: "Mona", whatsapp: "+201001234567" }), "contact-7");
+  assert.deepEqual(calls, []);
+});
@@ -1,35 +1,54 @@
-import { createSupabaseClient } from "@/services/supabase/client";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { normalizePhoneE164, type ContactChannelInput } from "@/lib/contact-channels";
+import { addContactChannels, findContactIdByChannels, prepareContactChannels } from "@/services/contacts/contact-channels.service";
 
 function asText(value: unknown) {
   return String(value ?? "").trim();
 }
 
 export function normalizeContactPhone(value: unknown) {
-  return asText(value).replace(/\D/g, "");
+  return normalizePhoneE164(value);
 }
 
-export async function resolveContactId(input: { name?: unknown; phone?: unknown }) {
-  const supabase = createSupabaseClient();
-  const normalizedPhone = normalizeContactPhone(input.phone);
-  const normalizedName = asText(input.name);
+function collectChannels(input: { phone?: unknown; whatsapp?: unknown; email?: unknown; channels?: ContactChannelInput[] }) {
+  const channels: ContactChannelInput[] = [];
+  if (asText(input.phone)) channels.push({ type: "phone", value: asText(input.phone) });
+  if (asText(input.whatsapp)) channels.push({ type: "whatsapp", value: asText(input.whatsapp) });
+  if (asText(input.email)) channels.push({ type: "email", value: asText(input.email) });
+  return [...channels, ...(input.channels || [])];
+}
 
-  if (normalizedPhone) {
-    const { data: found } = await supabase
-      .from("contacts")
-      .select("id")
-      .eq("phone", normalizedPhone)
-      .order("created_at", { ascending: true })
-      .limit(1)
-      .maybeSingle();
+/**
+ * Returns the contact owning any of the given channels, adding channels it did not have yet.
+ * Creates a new contact when nothing matches and there is a usable name or channel.
+ * Webhooks run without a session, so they pass the admin client instead of the route client.
+ */
+export async function resolveContactId(supabase: SupabaseClient, input: {
+  name?: unknown;
+  phone?: unknown;
+  whatsapp?: unknown;
+  email?: unknown;
+  channels?: ContactChannelInput[];
+}) {
+  const normalizedName = asText(input.name);
+  const channels = collectChannels(input);
+  const prepared = prepareContactChannels(channels);
 
-    if (found?.id) return String(found.id);
+  if (prepared.length > 0) {
+    const found = await findContactIdByChannels(supabase, channels);
+    if (found) {
+      await addContactChannels(supabase, found, channels);
+      return found;
+    }
 
+    const primaryPhone = prepared.find((channel) => channel.type === "phone" && channel.is_primary);
     const { data: created, error } = await supabase
       .from("contacts")
-      .insert({ name: normalizedName || "Unknown", phone: normalizedPhone })
+      .insert({ name: normalizedName || "Unknown", phone: primaryPhone?.normalized_value || null })
       .select("id")
       .single();
     if (error || !created) throw new Error(error?.message || "Failed to create contact");
+    await addContactChannels(supabase, String(created.id), channels);
     return String(created.id);
   }
 
@@ -0,0 +1,205 @@
+import "server-only";
+import { createSupabaseAdminClient } from "@/lib/supabase/admin";
+
+type LinkedTable = "properties_sale" | "properties_rent" | "buyers" | "clients";
+
+type ContactRow = {
+  id: string;
+  name: string;
+  phone: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+type LinkedRecordRow = { id: string; code: string | null; contact_id: string };
+
+type ContactMergePreview = {
+  survivor: ContactRow;
+  losers: ContactRow[];
+  merged: { name: string; phone: string | null };
+  records: Record<LinkedTable, LinkedRecordRow[]>;
+  tasks: Array<{ id: string; title: string; status: string; related_id: string }>;
+  timelineCount: number;
+};
+
+type ContactMergeResult = {
+  auditLogId: string;
+  survivor: ContactRow;
+  mergedContactIds: string[];
+  repointedSaleCount: number;
+  repointedRentCount: number;
+  repointedBuyerCount: number;
+  repointedClientCount: number;
+  repointedTaskCount: number;
+  repointedTimelineCount: number;
+};
+
+const LINKED_TABLES: LinkedTable[] = ["properties_sale", "properties_rent", "buyers", "clients"];
+const CONTACT_SELECT = "id,name,phone,created_at,updated_at";
+
+function readNumber(value: unknown) {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function readStringArray(value: unknown) {
+  return Array.isArray(value) ? value.map((entry) => String(entry)).filter(Boolean) : [];
+}
+
+function isPlaceholderName(name: string) {
+  const normalized = name.trim().toLowerCase();
+  return !normalized || normalized === "unknown";
+}
+
+function uniqueLoserIds(survivorId: string, loserIds: string[]) {
+  return Array.from(new Set(loserIds)).filter((id) => id !== survivorId);
+}
+
+function rpcErrorMessage(error: { message?: string }, fnName: string) {
+  const message = String(error.message || "");
+  if (message.toLowerCase().includes(`could not find the function public.${fnName}`)) {
+    return "Contact merge RPC is not available in this environment yet. Apply migration 20261021_contact_merge.sql and refresh the Supabase/PostgREST schema cache.";
+  }
+  return message || "Contact merge RPC failed.";
+}
+
+/** Mirrors the name/phone rules in merge_contacts_transactional so the preview shows the final survivor. */
+export function resolveMergedContactFields(survivor: Pick<ContactRow, "name" | "phone">, losers: Array<Pick<ContactRow, "name" | "phone">>) {
+  const survivorName = String(survivor.name || "").trim();
+  const fallbackName = losers.map((loser) => String(loser.name || "").trim()).find((name) => !isPlaceholderName(name));
+  const survivorPhone = String(survivor.phone || "").trim();
+  const fallbackPhone = losers.map((loser) => String(loser.phone || "").trim()).find(Boolean);
+
+  return {
+    name: isPlaceholderName(survivorName) ? fallbackName || survivorName || "Unknown" : survivorName,
+    phone: survivorPhone || fallbackPhone || null
+  };
+}
+
+async function fetchContacts(ids: string[]) {
+  const supabase = createSupabaseAdminClient();
+  const { data, error } = await supabase.from("contacts").select(CONTACT_SELECT).in("id", ids).order("created_at", { ascending: true });
+  if (error) throw new Error(error.message);
+  return (data || []) as ContactRow[];
+}
+
+export async function fetchContactMergePreview(input: { survivorId: string; loserIds: string[] }): Promise<ContactMergePreview> {
+  const loserIds = uniqueLoserIds(input.survivorId, input.loserIds);
+  if (loserIds.length === 0) throw new Error("Choose at least one contact to merge into the survivor.");
+
+  const contacts = await fetchContacts([input.survivorId, ...loserIds]);
+  const survivor = contacts.find((contact) => contact.id === input.survivorId);
+  if (!survivor) throw new Error("Survivor contact not found");
+  const losers = contacts.filter((contact) => loserIds.includes(contact.id));
+  if (losers.length !== loserIds.length) throw new Error("One or more contacts to merge were not found");
+
+  const supabase = createSupabaseAdminClient();
+  const recordResults = await Promise.all(
+    LINKED_TABLES.map((table) => supabase.from(table).select("id,code,contact_id").in("contact_id", loserIds).order("created_at", { ascending: false }))
+  );
+  const records = {} as Record<LinkedTable, LinkedRecordRow[]>;
+  LINKED_TABLES.forEach((table, index) => {
+    const result = recordResults[index];
+    if (result.error) throw new Error(result.error.message);
+    records[table] = (result.data || []) as LinkedRecordRow[];
+  });
+
+  const [{ data: tasks, error: tasksError }, { count: timelineCount, error: timelineError }] = await Promise.all([
+    supabase.from("tasks").select("id,title,status,related_id").eq("related_type", "contact").in("related_id", loserIds),
+    supabase.from("timeline").select("id", { count: "exact", head: true }).eq("record_type", "contacts").in("record_id", loserIds)
+  ]);
+  if (tasksError) throw new Error(tasksError.message);
+  if (timelineError) throw new Error(timelineError.message);
+
+  return {
+    survivor,
+    losers,
+    merged: resolveMergedContactFields(survivor, losers),
+    records,
+    tasks: (tasks || []) as ContactMergePreview["tasks"],
+    timelineCount: timelineCount || 0
+  };
+}
+
+export async function mergeContacts(input: { survivorId: string; loserIds: string[]; actorUserId: string | null }): Promise<ContactMergeResult> {
+  const loserIds = uniqueLoserIds(input.survivorId, input.loserIds);
+  if (loserIds.length === 0) throw new Error("Choose at least one contact to merge into the survivor.");
+
+  const supabase = createSupabaseAdminClient();
+  const { data, error } = await supabase.rpc("merge_contacts_transactional", {
+    p_survivor_id: input.survivorId,
+    p_loser_ids: loserIds,
+    p_actor_id: input.actorUserId
+  });
+  if (error) throw new Error(rpcErrorMessage(error, "merge_contacts_transactional"));
+
+  const payload = (data || {}) as Record<string, unknown>;
+  return {
+    auditLogId: String(payload.audit_log_id || ""),
+    survivor: payload.survivor as ContactRow,
+    mergedContactIds: readStringArray(payload.merged_contact_ids),
+    repointedSaleCount: readNumber(payload.repointed_sale_count),
+    repointedRentCount: readNumber(payload.repointed_rent_count),
+    repointedBuyerCount: readNumber(payload.repointed_buyer_count),
+    repointedClientCount: readNumber(payload.repointed_client_count),
+    repointedTaskCount: readNumber(payload.repointed_task_count),
+    repointedTimelineCount: readNumber(payload.repointed_timeline_count)
+  };
+}
+
+export async function undoContactMerge(input: { auditLogId: string; actorUserId: string | null }) {
+  const supabase = createSupabaseAdminClient();
+  const { data, error } = await supabase.rpc("undo_contact_merge_transactional", {
+    p_audit_log_id: input.auditLogId,
+    p_actor_id: input.actorUserId
+  });
+  if (error) throw new Error(rpcErrorMessage(error, "undo_contact_merge_transactional"));
+
+  const payload = (data || {}) as Record<string, unknown>;
+  return {
+    survivorId: String(payload.survivor_id || ""),
+    restoredContactIds: readStringArray(payload.restored_contact_ids),
+    restoredRecordCount: readNumber(payload.restored_record_count),
+    restoredTaskCount: readNumber(payload.restored_task_count),
+    restoredTimelineCount: readNumber(payload.restored_timeline_count)
+  };
+}
+
+export async function fetchRecentContactMerges(limit = 20) {
+  const supabase = createSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("audit_logs")
+    .select("id,user_id,record_id,before_json,after_json,created_at")
+    .eq("action", "contact_merge")
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (error) throw new Error(error.message);
+
+  const merges = (data || []) as Array<Record<string, unknown>>;
+  const mergeIds = merges.map((row) => String(row.id));
+  const { data: undos, error: undoError } = mergeIds.length
+    ? await supabase
+        .from("audit_logs")
+        .select("after_json,created_at")
+        .eq("action", "contact_merge_undo")
+        .in("after_json->>merge_audit_log_id", mergeIds)
+    : { data: [], error: null };
+  if (undoError) throw new Error(undoError.message);
+
+  const undoneAt = new Map(
+    ((undos || []) as Array<{ after_json: Record<string, unknown>; created_at: string }>).map((row) => [String(row.after_json?.merge_audit_log_id || ""), row.created_at])
+  );
+
+  return merges.map((row) => {
+    const before = (row.before_json || {}) as Record<string, unknown>;
+    const after = (row.after_json || {}) as Record<string, unknown>;
+    return {
+      id: String(row.id),
+      survivor_id: String(row.record_id),
+      survivor: after.survivor || before.survivor || null,
+      losers: Array.isArray(before.losers) ? before.losers : [],
+      created_at: String(row.created_at),
+      undone_at: undoneAt.get(String(row.id)) || null
+    };
+  });
+}
@@ -0,0 +1,166 @@
+import { createSupabaseClient } from "@/services/supabase/client";
+import { phoneLookupVariants } from "@/lib/contact-channels";
+import { fetchContactChannels } from "@/services/contacts/contact-channels.service";
+
+type RecordTable = "properties_sale" | "properties_rent" | "buyers" | "clients";
+
+type ContactTimelineEntry = {
+  id: string;
+  source: "timeline" | "intake" | "task";
+  record_type: string;
+  record_id: string;
+  record_code: string | null;
+  action: string;
+  details: Record<string, unknown>;
+  created_at: string;
+};
+
+const RECORD_SELECT: Record<RecordTable, string> = {
+  properties_sale: "id,code,status,price,currency,area,compound,bedrooms,is_archived,created_at,updated_at",
+  properties_rent: "id,code,status,price,currency,area,compound,bedrooms,is_archived,created_at,updated_at",
+  buyers: "id,code,status,intent,budget_min,budget_max,currency,preferred_areas,bedrooms_needed,is_archived,created_at,updated_at",
+  clients: "id,code,status,name,phone,role,area,is_archived,created_at,updated_at"
+};
+
+const RECORD_TABLES = Object.keys(RECORD_SELECT) as RecordTable[];
+const INTAKE_SELECT = "id,status,type_detected,type_confirmed,raw_text,final_record_type,final_record_id,created_at,updated_at";
+const TIMELINE_LIMIT = 200;
+
+async function fetchLinkedRecords(contactId: string) {
+  const supabase = createSupabaseClient();
+  const results = await Promise.all(
+    RECORD_TABLES.map((table) => supabase.from(table).select(RECORD_SELECT[table]).eq("contact_id", contactId).order("updated_at", { ascending: false }))
+  );
+  const records = {} as Record<RecordTable, Array<Record<string, unknown>>>;
+  RECORD_TABLES.forEach((table, index) => {
+    const result = results[index];
+    if (result.error) throw new Error(result.error.message);
+    records[table] = (result.data || []) as unknown as Array<Record<string, unknown>>;
+  });
+  return records;
+}
+
+async function fetchIntakeSessions(recordIds: string[], phones: string[]): Promise<Array<Record<string, unknown>>> {
+  const supabase = createSupabaseClient();
+  const variants = Array.from(new Set(phones.flatMap((phone) => phoneLookupVariants(phone))));
+  const quoted = variants.map((variant) => `"${variant}"`).join(",");
+  const filters = [
+    ...(recordIds.length ? [`final_record_id.in.(${recordIds.join(",")})`] : []),
+    ...(variants.length ? [`ai_json->>contact_phone.in.(${quoted})`, `ai_json->>phone.in.(${quoted})`] : [])
+  ];
+  if (filters.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("intake_sessions")
+    .select(INTAKE_SELECT)
+    .or(filters.join(","))
+    .order("created_at", { ascending: false })
+    .limit(100);
+  if (error) throw new Error(error.message);
+  return ((data || []) as Array<Record<string, unknown>>).map((row) => ({
+    ...row,
+    raw_text: String(row.raw_text || "").slice(0, 280)
+  }));
+}
+
+async function fetchTimelineRows(contactId: string, records: Record<RecordTable, Array<Record<string, unknown>>>) {
+  const supabase = createSupabaseClient();
+  const filters = [
+    `and(record_type.eq.contacts,record_id.eq.${contactId})`,
+    ...RECORD_TABLES.filter((table) => records[table].length > 0).map(
+      (table) => `and(record_type.eq.${table},record_id.in.(${records[table].map((row) => String(row.id)).join(",")}))`
+    )
+  ];
+
+  const { data, error } = await supabase
+    .from("timeline")
+    .select("id,record_type,record_id,action,details,created_at")
+    .or(filters.join(","))
+    .order("created_at", { ascending: false })
+    .limit(TIMELINE_LIMIT);
+  if (error) throw new Error(error.message);
+  return (data || []) as Array<{ id: string; record_type: string; record_id: string; action: string; details: Record<string, unknown> | null; created_at: string }>;
+}
+
+/**
+ * Everything the CRM holds for one person: linked sale/rent/buyer/client rows, intake sessions
+ * (linked via their final record or the contact's phone in ai_json), open contact tasks and a
+ * single newest-first timeline merged from record timelines, intakes and tasks.
+ */
+export async function fetchContactProfile(contactId: string) {
+  const supabase = createSupabaseClient();
+  const { data: contact, error: contactError } = await supabase
+    .from("contacts")
+    .select("id,name,phone,created_at,updated_at")
+    .eq("id", contactId)
+    .maybeSingle();
+  if (contactError) throw new Error(contactError.message);
+  if (!contact) throw new Error("Contact not found");
+
+  const [channels, records] = await Promise.all([fetchContactChannels([contactId]), fetchLinkedRecords(contactId)]);
+  const recordIds = RECORD_TABLES.flatMap((table) => records[table].map((row) => String(row.id)));
+  const phones = [
+    ...channels.filter((channel) => channel.type === "phone" || channel.type === "whatsapp").map((channel) => channel.normalized_value),
+    ...(contact.phone ? [String(contact.phone)] : [])
+  ];
+
+  const [intakeSessions, tasksResult, timelineRows] = await Promise.all([
+    fetchIntakeSessions(recordIds, phones),
+    supabase
+      .from("tasks")
+      .select("id,title,status,due_date,assigned_to,created_at")
+      .eq("related_type", "contact")
+      .eq("related_id", contactId)
+      .eq("status", "open")
+      .order("due_date", { ascending: true, nullsFirst: false }),
+    fetchTimelineRows(contactId, records)
+  ]);
+  if (tasksResult.error) throw new Error(tasksResult.error.message);
+  const tasks = (tasksResult.data || []) as Array<{ id: string; title: string; status: string; due_date: string | null; created_at: string }>;
+
+  const codeById = new Map<string, string | null>();
+  RECORD_TABLES.forEach((table) => records[table].forEach((row) => codeById.set(String(row.id), row.code ? String(row.code) : null)));
+
+  const timeline: ContactTimelineEntry[] = [
+    ...timelineRows.map((row) => ({
+      id: row.id,
+      source: "timeline" as const,
+      record_type: row.record_type,
+      record_id: row.record_id,
+      record_code: codeById.get(row.record_id) || null,
+      action: row.action,
+      details: row.details || {},
+      created_at: row.created_at
+    })),
+    ...intakeSessions.map((session) => ({
+      id: `intake-${session.id}`,
+      source: "intake" as const,
+      record_type: "intake_sessions",
+      record_id: String(session.id),
+      record_code: null,
+      action: `Intake received (${String(session.type_confirmed || session.type_detected || "unknown type")}, ${String(session.status)})`,
+      details: {},
+      created_at: String(session.created_at)
+    })),
+    ...tasks.map((task) => ({
+      id: `task-${task.id}`,
+      source: "task" as const,
+      record_type: "tasks",
+      record_id: task.id,
+      record_code: null,
+      action: `Task created: ${task.title}`,
+      details: { due_date: task.due_date },
+      created_at: task.created_at
+    }))
+  ]
+    .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+    .slice(0, TIMELINE_LIMIT);
+
+  return {
+    contact: { ...contact, channels },
+    records,
+    intake_sessions: intakeSessions,
+    tasks,
+    timeline
+  };
+}
@@ -0,0 +1,49 @@
+import { z } from "zod";
+import { savedViewGridTypeSchema } from "@/services/grid/saved-views.schemas";
+
+const EMAIL_PATTERN = /^[^\s@,;]+@[^\s@,;]+\.[^\s@,;]+$/;
+// Numeric chat/group id (groups are negative) or a public @channel username.
+const TELEGRAM_CHAT_PATTERN = /^(-?\d{3,20}|@[A-Za-z][A-Za-z0-9_]{4,31})$/;
+
+function isValidTimezone(value: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const viewDigestFields = {
+  name: z.string().trim().min(1).max(80),
+  grid_type: savedViewGridTypeSchema,
+  saved_view_id: z.string().uuid().nullable().optional(),
+  filters: z.record(z.string(), z.unknown()).optional(),
+  sorts: z.array(z.object({ field: z.string().trim().min(1).max(120), direction: z.enum(["asc", "desc"]) })).max(10).optional(),
+  hierarchy_node_id: z.string().uuid().nullable().optional(),
+  archive_scope: z.enum(["active", "archived", "all"]).optional(),
+  channel: z.enum(["email", "telegram"]),
+  destination: z.string().trim().min(1).max(500),
+  send_hour: z.number().int().min(0).max(23).optional(),
+  timezone: z.string().trim().min(1).max(64).refine(isValidTimezone, "Unknown timezone").optional(),
+  top_n: z.number().int().min(1).max(50).optional(),
+  is_active: z.boolean().optional()
+};
+
+export function viewDigestDestinationIssue(channel: "email" | "telegram", destination: string) {
+  if (channel === "telegram") return TELEGRAM_CHAT_PATTERN.test(destination) ? null : "Telegram destination must be a chat id or @channel";
+  const addresses = destination
+    .split(/[,;]/)
+    .map((address) => address.trim())
+    .filter(Boolean);
+  if (addresses.length === 0 || addresses.length > 20) return "Email destination needs 1 to 20 addresses";
+  return addresses.every((address) => EMAIL_PATTERN.test(address)) ? null : "Email destination has an invalid address";
+}
+
+export const createViewDigestSchema = z.object(viewDigestFields).superRefine((value, ctx) => {
+  const issue = viewDigestDestinationIssue(value.channel, value.destination);
+  if (issue) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["destination"], message: issue });
+});
+
+// Channel and destination are validated together against the stored row in the service.
+export const updateViewDigestSchema = z.object(viewDigestFields).partial().omit({ grid_type: true });
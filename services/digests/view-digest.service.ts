@@ -0,0 +1,203 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getAppBaseUrl } from "@/lib/env";
+import { createSupabaseAdminClient } from "@/lib/supabase/admin";
+import { buildDigestMessage, isDigestDue, type ViewDigestDelivery, type ViewDigestStatus, type ViewDigestSubscription } from "@/lib/view-digests";
+import { queryGridRecords, type GridFilters } from "@/services/grid/grid-records.service";
+import { getOutboundChannel, type OutboundChannel, type OutboundChannelKind } from "@/services/notifications/outbound-channel.service";
+import { viewDigestDestinationIssue } from "@/services/digests/view-digest.schemas";
+import { createSupabaseClient } from "@/services/supabase/client";
+
+export type ViewDigestInput = Partial<
+  Pick<
+    ViewDigestSubscription,
+    "name" | "saved_view_id" | "filters" | "sorts" | "hierarchy_node_id" | "archive_scope" | "channel" | "destination" | "send_hour" | "timezone" | "top_n" | "is_active"
+  >
+>;
+
+const DIGEST_SELECT =
+  "id,name,grid_type,saved_view_id,filters,sorts,hierarchy_node_id,archive_scope,channel,destination,send_hour,timezone,top_n,is_active,last_run_at,last_status,last_error,created_by,created_at,updated_at";
+const DELIVERY_SELECT = "id,subscription_id,channel,destination,status,total,detail,created_at";
+
+function normalizeDigest(row: Record<string, unknown>): ViewDigestSubscription {
+  const archiveScope = String(row.archive_scope || "active");
+  const lastStatus = row.last_status ? String(row.last_status) : null;
+  return {
+    id: String(row.id),
+    name: String(row.name || ""),
+    grid_type: String(row.grid_type) as ViewDigestSubscription["grid_type"],
+    saved_view_id: row.saved_view_id ? String(row.saved_view_id) : null,
+    filters: (row.filters || {}) as Record<string, unknown>,
+    sorts: Array.isArray(row.sorts) ? (row.sorts as ViewDigestSubscription["sorts"]) : [],
+    hierarchy_node_id: row.hierarchy_node_id ? String(row.hierarchy_node_id) : null,
+    archive_scope: archiveScope === "archived" || archiveScope === "all" ? archiveScope : "active",
+    channel: row.channel === "telegram" ? "telegram" : "email",
+    destination: String(row.destination || ""),
+    send_hour: Number(row.send_hour ?? 8),
+    timezone: String(row.timezone || "Africa/Cairo"),
+    top_n: Number(row.top_n ?? 10),
+    is_active: Boolean(row.is_active),
+    last_run_at: row.last_run_at ? String(row.last_run_at) : null,
+    last_status: lastStatus as ViewDigestStatus | null,
+    last_error: row.last_error ? String(row.last_error) : null,
+    created_by: row.created_by ? String(row.created_by) : null,
+    created_at: String(row.created_at),
+    updated_at: String(row.updated_at)
+  };
+}
+
+/** Copies the saved view's filter set onto the subscription so it keeps working if the view is deleted later. */
+async function snapshotSavedView(supabase: SupabaseClient, savedViewId: string, gridType: string) {
+  const { data, error } = await supabase
+    .from("saved_views")
+    .select("grid_type,filters,sorts,hierarchy_node_id,archive_scope")
+    .eq("id", savedViewId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data) throw new Error("Saved view not found");
+  if (String(data.grid_type) !== gridType) throw new Error("Saved view belongs to a different grid");
+  const archiveScope = String(data.archive_scope || "active");
+  return {
+    filters: (data.filters || {}) as Record<string, unknown>,
+    sorts: (Array.isArray(data.sorts) ? data.sorts : []) as ViewDigestSubscription["sorts"],
+    hierarchy_node_id: data.hierarchy_node_id ? String(data.hierarchy_node_id) : null,
+    archive_scope: (archiveScope === "archived" || archiveScope === "all" ? archiveScope : "active") as ViewDigestSubscription["archive_scope"]
+  };
+}
+
+export async function fetchViewDigests() {
+  const supabase = createSupabaseClient();
+  const { data, error } = await supabase.from("view_digest_subscriptions").select(DIGEST_SELECT).order("name", { ascending: true });
+  if (error) throw new Error(error.message);
+  return ((data || []) as Array<Record<string, unknown>>).map(normalizeDigest);
+}
+
+export async function fetchViewDigest(id: string) {
+  const supabase = createSupabaseClient();
+  const { data, error } = await supabase.from("view_digest_subscriptions").select(DIGEST_SELECT).eq("id", id).maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data) throw new Error("Digest subscription not found");
+  return normalizeDigest(data as Record<string, unknown>);
+}
+
+export async function fetchViewDigestDeliveries(id: string, limit = 20) {
+  const supabase = createSupabaseClient();
+  const { data, error } = await supabase
+    .from("view_digest_deliveries")
+    .select(DELIVERY_SELECT)
+    .eq("subscription_id", id)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (error) throw new Error(error.message);
+  return (data || []) as ViewDigestDelivery[];
+}
+
+export async function createViewDigest(input: ViewDigestInput & Pick<ViewDigestSubscription, "name" | "grid_type" | "channel" | "destination">, actorUserId: string | null) {
+  const supabase = createSupabaseClient();
+  const snapshot = input.saved_view_id ? await snapshotSavedView(supabase, input.saved_view_id, input.grid_type) : {};
+  const { data, error } = await supabase
+    .from("view_digest_subscriptions")
+    .insert({ ...input, ...snapshot, name: input.name.trim(), destination: input.destination.trim(), created_by: actorUserId })
+    .select(DIGEST_SELECT)
+    .single();
+  if (error || !data) throw new Error(error?.message || "Failed to create digest subscription");
+  return normalizeDigest(data as Record<string, unknown>);
+}
+
+export async function updateViewDigest(id: string, input: ViewDigestInput) {
+  const existing = await fetchViewDigest(id);
+  const channel = input.channel || existing.channel;
+  const destination = (input.destination ?? existing.destination).trim();
+  const issue = viewDigestDestinationIssue(channel, destination);
+  if (issue) throw new Error(issue);
+
+  const supabase = createSupabaseClient();
+  const snapshot = input.saved_view_id ? await snapshotSavedView(supabase, input.saved_view_id, existing.grid_type) : {};
+  const { data, error } = await supabase
+    .from("view_digest_subscriptions")
+    .update({ ...input, ...snapshot, destination, ...(input.name !== undefined ? { name: input.name.trim() } : {}) })
+    .eq("id", id)
+    .select(DIGEST_SELECT)
+    .single();
+  if (error || !data) throw new Error(error?.message || "Failed to update digest subscription");
+  return normalizeDigest(data as Record<string, unknown>);
+}
+
+export async function deleteViewDigest(id: string) {
+  const supabase = createSupabaseClient();
+  const { error } = await supabase.from("view_digest_subscriptions").delete().eq("id", id);
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Runs one digest with the service-role client (there is no user session on a schedule): the saved view's
+ * current filters when still linked, else the stored set, through the same query as the grid API.
+ */
+async function deliverDigest(
+  admin: SupabaseClient,
+  subscription: ViewDigestSubscription,
+  now: Date,
+  channelFor: (kind: OutboundChannelKind) => OutboundChannel
+) {
+  let total: number | null = null;
+  let result: { status: ViewDigestStatus; detail: string };
+  try {
+    const filterSet = subscription.saved_view_id
+      ? await snapshotSavedView(admin, subscription.saved_view_id, subscription.grid_type).catch(() => subscription)
+      : subscription;
+    const sorts = filterSet.sorts.length ? filterSet.sorts : [{ field: "updated_at", direction: "desc" as const }];
+    const query = await queryGridRecords(admin, {
+      type: subscription.grid_type,
+      page: 1,
+      pageSize: subscription.top_n,
+      sort: sorts.map((sort) => ({ field: sort.field, ascending: sort.direction === "asc" })),
+      filters: filterSet.filters as GridFilters,
+      hierarchyNodeId: filterSet.hierarchy_node_id || undefined,
+      archiveScope: filterSet.archive_scope,
+      includeCustomFields: false
+    });
+    total = query.total;
+    const message = buildDigestMessage({ subscription, rows: query.rows, total: query.total, baseUrl: getAppBaseUrl(), generatedAt: now });
+    result = await channelFor(subscription.channel).deliver(subscription.destination, message);
+  } catch (error) {
+    result = { status: "failed", detail: error instanceof Error ? error.message : "Digest failed" };
+  }
+
+  const { error: logError } = await admin.from("view_digest_deliveries").insert({
+    subscription_id: subscription.id,
+    channel: subscription.channel,
+    destination: subscription.destination,
+    status: result.status,
+    total,
+    detail: result.detail.slice(0, 1000)
+  });
+  if (logError) throw new Error(logError.message);
+
+  const { error: updateError } = await admin
+    .from("view_digest_subscriptions")
+    .update({ last_run_at: now.toISOString(), last_status: result.status, last_error: result.status === "sent" ? null : result.detail.slice(0, 1000) })
+    .eq("id", subscription.id);
+  if (updateError) throw new Error(updateError.message);
+
+  return { id: subscription.id, name: subscription.name, status: result.status, total, detail: result.detail };
+}
+
+/** Sends a digest immediately regardless of its schedule (admin "Send now"). */
+export async function sendViewDigestNow(id: string, channelFor = getOutboundChannel) {
+  const subscription = await fetchViewDigest(id);
+  return deliverDigest(createSupabaseAdminClient(), subscription, new Date(), channelFor);
+}
+
+/** Sends every active digest whose local send hour has passed today and that has not run yet today. */
+export async function runDueViewDigests(now = new Date(), channelFor = getOutboundChannel) {
+  const admin = createSupabaseAdminClient();
+  const { data, error } = await admin.from("view_digest_subscriptions").select(DIGEST_SELECT).eq("is_active", true);
+  if (error) throw new Error(error.message);
+
+  const due = ((data || []) as Array<Record<string, unknown>>).map(normalizeDigest).filter((subscription) => isDigestDue(subscription, now));
+  const results = [];
+  // Sequential on purpose: keeps SMTP connections and Telegram rate limits predictable.
+  for (const subscription of due) {
+    results.push(await deliverDigest(admin, subscription, now, channelFor));
+  }
+  return { checked: (data || []).length, sent: results.filter((item) => item.status === "sent").length, results };
+}
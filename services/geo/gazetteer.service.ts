@@ -0,0 +1,138 @@
+import { createSupabaseClient } from "@/services/supabase/client";
+import { matchGazetteerEntry, normalizeGazetteerName, type GazetteerEntryInput, type GazetteerKind } from "@/lib/geo";
+
+type ListingTable = "properties_sale" | "properties_rent";
+
+export type GazetteerEntry = {
+  id: string;
+  kind: GazetteerKind;
+  name: string;
+  normalized_name: string;
+  parent_area: string;
+  aliases: string[];
+  normalized_aliases: string[];
+  latitude: number;
+  longitude: number;
+  updated_at: string;
+};
+
+const GAZETTEER_SELECT = "id,kind,name,normalized_name,parent_area,aliases,normalized_aliases,latitude,longitude,updated_at";
+const MAX_GAZETTEER_ENTRIES = 5000;
+const BACKFILL_BATCH_SIZE = 500;
+
+function normalizeEntry(row: Record<string, unknown>): GazetteerEntry {
+  return {
+    id: String(row.id),
+    kind: row.kind === "compound" ? "compound" : "area",
+    name: String(row.name || ""),
+    normalized_name: String(row.normalized_name || ""),
+    parent_area: String(row.parent_area || ""),
+    aliases: Array.isArray(row.aliases) ? row.aliases.map(String) : [],
+    normalized_aliases: Array.isArray(row.normalized_aliases) ? row.normalized_aliases.map(String) : [],
+    latitude: Number(row.latitude),
+    longitude: Number(row.longitude),
+    updated_at: String(row.updated_at || "")
+  };
+}
+
+function toRow(entry: GazetteerEntryInput) {
+  const aliases = Array.from(new Set(entry.aliases.map((alias) => alias.trim()).filter(Boolean)));
+  return {
+    kind: entry.kind,
+    name: entry.name.trim(),
+    normalized_name: normalizeGazetteerName(entry.name),
+    parent_area: entry.parent_area.trim(),
+    aliases,
+    normalized_aliases: Array.from(new Set(aliases.map(normalizeGazetteerName).filter(Boolean))),
+    latitude: entry.latitude,
+    longitude: entry.longitude
+  };
+}
+
+export async function fetchGazetteerEntries() {
+  const supabase = createSupabaseClient();
+  const { data, error } = await supabase
+    .from("geo_gazetteer")
+    .select(GAZETTEER_SELECT)
+    .order("kind", { ascending: true })
+    .order("name", { ascending: true })
+    .limit(MAX_GAZETTEER_ENTRIES);
+  if (error) throw new Error(error.message);
+  return ((data || []) as Array<Record<string, unknown>>).map(normalizeEntry);
+}
+
+/** Inserts or updates entries keyed by kind + normalized name (re-importing the seed file is idempotent). */
+export async function upsertGazetteerEntries(entries: GazetteerEntryInput[], actorUserId: string | null) {
+  if (entries.length === 0) return 0;
+  const rows = new Map(entries.map((entry) => [`${entry.kind}:${normalizeGazetteerName(entry.name)}`, { ...toRow(entry), created_by: actorUserId }]));
+  const supabase = createSupabaseClient();
+  const { error } = await supabase.from("geo_gazetteer").upsert(Array.from(rows.values()), { onConflict: "kind,normalized_name" });
+  if (error) throw new Error(error.message);
+  return rows.size;
+}
+
+export async function updateGazetteerEntry(id: string, entry: GazetteerEntryInput) {
+  const supabase = createSupabaseClient();
+  const { data, error } = await supabase.from("geo_gazetteer").update(toRow(entry)).eq("id", id).select(GAZETTEER_SELECT).maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data) throw new Error("Gazetteer entry not found");
+  return normalizeEntry(data as Record<string, unknown>);
+}
+
+export async function deleteGazetteerEntry(id: string) {
+  const supabase = createSupabaseClient();
+  const { error } = await supabase.from("geo_gazetteer").delete().eq("id", id);
+  if (error) throw new Error(error.message);
+}
+
+type ListingLocationRow = { id: string; area: string | null; compound: string | null; location_source: string | null };
+
+async function applyGazetteerMatch(table: ListingTable, listing: ListingLocationRow, entries: GazetteerEntry[]) {
+  if (listing.location_source === "manual") return null;
+  const match = matchGazetteerEntry(entries, { area: String(listing.area || ""), compound: String(listing.compound || "") });
+  if (!match) return null;
+
+  const supabase = createSupabaseClient();
+  const { error } = await supabase
+    .from(table)
+    .update({ latitude: match.latitude, longitude: match.longitude, location_source: "gazetteer" })
+    .eq("id", listing.id);
+  if (error) throw new Error(error.message);
+  return match;
+}
+
+/**
+ * Sets a listing's coordinates from its saved area/compound. Listings pinned manually keep their
+ * coordinates; returns the matched entry, or null when nothing matched or the listing was skipped.
+ */
+export async function assignListingCoordinates(table: ListingTable, recordId: string) {
+  const supabase = createSupabaseClient();
+  const { data, error } = await supabase.from(table).select("id,area,compound,location_source").eq("id", recordId).maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data) return null;
+  return applyGazetteerMatch(table, data as ListingLocationRow, await fetchGazetteerEntries());
+}
+
+/** Geocodes listings that have no coordinates yet, one batch per table. */
+export async function backfillListingCoordinates() {
+  const supabase = createSupabaseClient();
+  const entries = await fetchGazetteerEntries();
+  const result = { scanned: 0, assigned: 0 };
+
+  for (const table of ["properties_sale", "properties_rent"] as ListingTable[]) {
+    const { data, error } = await supabase
+      .from(table)
+      .select("id,area,compound,location_source")
+      .is("latitude", null)
+      .or("location_source.is.null,location_source.eq.gazetteer")
+      .limit(BACKFILL_BATCH_SIZE);
+    if (error) throw new Error(error.message);
+
+    for (const row of (data || []) as ListingLocationRow[]) {
+      result.scanned += 1;
+      if (await applyGazetteerMatch(table, row, entries)) result.assigned += 1;
+    }
+  }
+
+  return result;
+}
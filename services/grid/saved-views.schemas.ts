@@ -0,0 +1,32 @@
+import { z } from "zod";
+
+export const savedViewGridTypeSchema = z.enum(["sale", "rent", "buyer", "client"]);
+
+const columnKeys = z.array(z.string().trim().min(1).max(120)).max(200);
+
+export const savedViewStateSchema = z.object({
+  filters: z.record(z.string(), z.unknown()).optional(),
+  sorts: z.array(z.object({ field: z.string().trim().min(1).max(120), direction: z.enum(["asc", "desc"]) })).max(10).optional(),
+  column_order: columnKeys.optional(),
+  hidden_columns: columnKeys.optional(),
+  pinned_columns: columnKeys.optional(),
+  column_widths: z.record(z.string(), z.number().int().min(40).max(2000)).optional(),
+  hierarchy_node_id: z.string().uuid().nullable().optional(),
+  archive_scope: z.enum(["active", "archived", "all"]).optional(),
+  visibility: z.enum(["private", "team"]).optional()
+});
+
+export const createSavedViewSchema = savedViewStateSchema.extend({
+  type: savedViewGridTypeSchema,
+  name: z.string().trim().min(1).max(80),
+  make_default: z.boolean().optional()
+});
+
+export const updateSavedViewSchema = savedViewStateSchema.extend({
+  name: z.string().trim().min(1).max(80).optional()
+});
+
+export const defaultSavedViewSchema = z.object({
+  type: savedViewGridTypeSchema,
+  view_id: z.string().uuid().nullable()
+});
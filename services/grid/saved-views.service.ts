@@ -0,0 +1,130 @@
+import { createSupabaseClient } from "@/services/supabase/client";
+import type { AppRole } from "@/services/auth/role.service";
+import type { SavedView, SavedViewGridType, SavedViewState, SavedViewVisibility } from "@/lib/saved-views";
+
+type ViewActor = { userId: string; role: AppRole };
+
+export type SavedViewInput = Partial<SavedViewState> & {
+  name?: string;
+  visibility?: SavedViewVisibility;
+};
+
+const SAVED_VIEW_SELECT =
+  "id,owner_id,grid_type,name,visibility,filters,sorts,column_order,hidden_columns,pinned_columns,column_widths,hierarchy_node_id,archive_scope,created_at,updated_at";
+const MAX_SAVED_VIEWS = 500;
+
+function normalizeSavedView(row: Record<string, unknown>): SavedView {
+  const archiveScope = String(row.archive_scope || "active");
+  return {
+    id: String(row.id),
+    owner_id: String(row.owner_id),
+    grid_type: String(row.grid_type) as SavedViewGridType,
+    name: String(row.name || ""),
+    visibility: row.visibility === "team" ? "team" : "private",
+    filters: (row.filters || {}) as Record<string, unknown>,
+    sorts: Array.isArray(row.sorts) ? (row.sorts as SavedView["sorts"]) : [],
+    column_order: Array.isArray(row.column_order) ? row.column_order.map(String) : [],
+    hidden_columns: Array.isArray(row.hidden_columns) ? row.hidden_columns.map(String) : [],
+    pinned_columns: Array.isArray(row.pinned_columns) ? row.pinned_columns.map(String) : [],
+    column_widths: (row.column_widths || {}) as Record<string, number>,
+    hierarchy_node_id: row.hierarchy_node_id ? String(row.hierarchy_node_id) : null,
+    archive_scope: archiveScope === "archived" || archiveScope === "all" ? archiveScope : "active",
+    created_at: String(row.created_at),
+    updated_at: String(row.updated_at)
+  };
+}
+
+function canReadView(view: SavedView, actor: ViewActor) {
+  return view.owner_id === actor.userId || view.visibility === "team" || actor.role === "admin";
+}
+
+function canManageView(view: SavedView, actor: ViewActor) {
+  return view.owner_id === actor.userId || actor.role === "admin";
+}
+
+function saveError(error: { code?: string; message: string }) {
+  if (error.code === "23505") return new Error("A view with this name already exists");
+  return new Error(error.message);
+}
+
+export async function fetchSavedView(id: string, actor: ViewActor) {
+  const supabase = createSupabaseClient();
+  const { data, error } = await supabase.from("saved_views").select(SAVED_VIEW_SELECT).eq("id", id).maybeSingle();
+  if (error) throw new Error(error.message);
+  const view = data ? normalizeSavedView(data as Record<string, unknown>) : null;
+  if (!view || !canReadView(view, actor)) throw new Error("Saved view not found");
+  return view;
+}
+
+/** The actor's own views plus every team view for one grid, with the actor's default view id. */
+export async function fetchSavedViews(gridType: SavedViewGridType, actor: ViewActor) {
+  const supabase = createSupabaseClient();
+  const [{ data, error }, { data: defaultRow, error: defaultError }] = await Promise.all([
+    supabase
+      .from("saved_views")
+      .select(SAVED_VIEW_SELECT)
+      .eq("grid_type", gridType)
+      .or(`owner_id.eq.${actor.userId},visibility.eq.team`)
+      .order("name", { ascending: true })
+      .limit(MAX_SAVED_VIEWS),
+    supabase.from("saved_view_defaults").select("view_id").eq("user_id", actor.userId).eq("grid_type", gridType).maybeSingle()
+  ]);
+  if (error) throw new Error(error.message);
+  if (defaultError) throw new Error(defaultError.message);
+
+  const views = ((data || []) as Array<Record<string, unknown>>).map(normalizeSavedView);
+  const defaultViewId = defaultRow?.view_id ? String(defaultRow.view_id) : null;
+  return { views, defaultViewId: views.some((view) => view.id === defaultViewId) ? defaultViewId : null };
+}
+
+export async function createSavedView(gridType: SavedViewGridType, input: SavedViewInput & { name: string }, actor: ViewActor) {
+  const supabase = createSupabaseClient();
+  const { data, error } = await supabase
+    .from("saved_views")
+    .insert({ ...input, name: input.name.trim(), grid_type: gridType, owner_id: actor.userId })
+    .select(SAVED_VIEW_SELECT)
+    .single();
+  if (error || !data) throw saveError(error || { message: "Failed to save view" });
+  return normalizeSavedView(data as Record<string, unknown>);
+}
+
+export async function updateSavedView(id: string, input: SavedViewInput, actor: ViewActor) {
+  const existing = await fetchSavedView(id, actor);
+  if (!canManageView(existing, actor)) throw new Error("Only the view owner can change it");
+
+  const supabase = createSupabaseClient();
+  const { data, error } = await supabase
+    .from("saved_views")
+    .update({ ...input, ...(input.name !== undefined ? { name: input.name.trim() } : {}) })
+    .eq("id", id)
+    .select(SAVED_VIEW_SELECT)
+    .single();
+  if (error || !data) throw saveError(error || { message: "Failed to update view" });
+  return normalizeSavedView(data as Record<string, unknown>);
+}
+
+export async function deleteSavedView(id: string, actor: ViewActor) {
+  const existing = await fetchSavedView(id, actor);
+  if (!canManageView(existing, actor)) throw new Error("Only the view owner can delete it");
+
+  const supabase = createSupabaseClient();
+  const { error } = await supabase.from("saved_views").delete().eq("id", id);
+  if (error) throw new Error(error.message);
+}
+
+/** Sets (or with a null view id, clears) the view the actor's grid opens with. */
+export async function setDefaultSavedView(gridType: SavedViewGridType, viewId: string | null, actor: ViewActor) {
+  const supabase = createSupabaseClient();
+  if (!viewId) {
+    const { error } = await supabase.from("saved_view_defaults").delete().eq("user_id", actor.userId).eq("grid_type", gridType);
+    if (error) throw new Error(error.message);
+    return;
+  }
+
+  const view = await fetchSavedView(viewId, actor);
+  if (view.grid_type !== gridType) throw new Error("Saved view belongs to a different grid");
+  const { error } = await supabase
+    .from("saved_view_defaults")
+    .upsert({ user_id: actor.userId, grid_type: gridType, view_id: viewId, updated_at: new Date().toISOString() }, { onConflict: "user_id,grid_type" });
+  if (error) throw new Error(error.message);
+}
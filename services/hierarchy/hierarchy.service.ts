@@ -1271,6 +1271,29 @@ export async function assignRecordToHierarchyNode(input: {
   return data as Record<string, unknown>;
 }
 
+const recordLinkColumnByRecordType = {
+  properties_sale: "sale_id",
+  properties_rent: "rent_id",
+  buyers: "buyer_id",
+  clients: "client_id"
+} as const;
+
+/** Hierarchy node a record (by media `record_type`) is linked to, or "" when it has none. */
+export async function fetchRecordHierarchyNodeId(recordType: string, recordId: string) {
+  const linkColumn = recordLinkColumnByRecordType[recordType as keyof typeof recordLinkColumnByRecordType];
+  if (!linkColumn || !recordId) return "";
+
+  const supabase = createSupabaseClient();
+  const { data, error } = await supabase
+    .from("record_hierarchy_links")
+    .select("node_id")
+    .eq(linkColumn, recordId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return String(data?.node_id || "");
+}
+
 export async function assignMediaToHierarchyNode(input: { mediaId: string; nodeId: string; actorUserId?: string | null }) {
   const supabase = createSupabaseAdminClient();
   const existingNode = await getNodeOrThrow(input.nodeId, { admin: true });
@@ -0,0 +1,24 @@
+import { z } from "zod";
+
+const columnMapSchema = z.record(z.string(), z.string());
+
+const formFlag = z.enum(["true", "false"]).default("false").transform((value) => value === "true");
+
+/** Non-file fields of the multipart import form; `column_map` arrives as a JSON string. */
+export const fileImportFormSchema = z.object({
+  dataset: z.enum(["sale", "rent", "buyer", "client"]),
+  hierarchy_node_id: z.string().uuid().optional(),
+  column_map: z
+    .string()
+    .default("{}")
+    .transform((value, ctx) => {
+      try {
+        return columnMapSchema.parse(JSON.parse(value));
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "column_map must be a JSON object of header to field" });
+        return z.NEVER;
+      }
+    }),
+  dry_run: formFlag,
+  skip_invalid: formFlag
+});
@@ -0,0 +1,205 @@
+import "server-only";
+import { parseFieldInputValue, reviewTypeToHierarchyFamily } from "@/lib/effective-fields";
+import {
+  FILE_IMPORT_EXTENSIONS,
+  FILE_IMPORT_MAX_BYTES,
+  FILE_IMPORT_MAX_ROWS,
+  fileImportTargets,
+  parseCsv,
+  suggestColumnMapping,
+  tableToRecords,
+  type FileImportTable
+} from "@/lib/file-import";
+import { buildImportReport, type SheetImportBatch, type SheetImportReport } from "@/lib/sheet-import";
+import { LIST_SHEET_FIELDS, type SheetSyncDataset } from "@/lib/sheet-sync";
+import { readXlsxFirstSheet } from "@/lib/xlsx";
+import { assertValidRecordHierarchyDestination, fetchEffectiveFieldDefinitions } from "@/services/hierarchy/hierarchy.service";
+import { confirmIntakeSession } from "@/services/intake/confirm-intake.service";
+import { SHEET_IMPORT_BATCH_SELECT, fetchExistingImportKeys } from "@/services/integrations/sheet-import.service";
+import { createSupabaseClient } from "@/services/supabase/client";
+
+export type ImportFile = { name: string; size: number; bytes: Buffer };
+
+type FileImportInput = {
+  file: ImportFile;
+  dataset: SheetSyncDataset;
+  hierarchyNodeId?: string;
+  columnMap: Record<string, string>;
+};
+
+type ParsedImportFile = FileImportTable & { sheetName: string };
+
+const SAMPLE_ROWS = 5;
+
+/** Parses an uploaded .csv or .xlsx file (first worksheet) into header-keyed records. */
+function parseImportFile(file: ImportFile): ParsedImportFile {
+  const extension = file.name.toLowerCase().slice(file.name.lastIndexOf("."));
+  if (!FILE_IMPORT_EXTENSIONS.includes(extension)) throw new Error("Only .csv and .xlsx files can be imported");
+  if (file.size > FILE_IMPORT_MAX_BYTES) throw new Error(`File is larger than ${FILE_IMPORT_MAX_BYTES / 1024 / 1024} MB`);
+
+  const sheet = extension === ".xlsx" ? readXlsxFirstSheet(file.bytes) : { name: "", rows: parseCsv(file.bytes.toString("utf8")) };
+  const table = tableToRecords(sheet.rows);
+  if (table.headers.length === 0) throw new Error("File has no header row");
+  if (table.records.length > FILE_IMPORT_MAX_ROWS) throw new Error(`File has more than ${FILE_IMPORT_MAX_ROWS} rows; split it into smaller files`);
+  return { ...table, sheetName: sheet.name };
+}
+
+async function loadTargets(dataset: SheetSyncDataset, hierarchyNodeId?: string) {
+  const family = reviewTypeToHierarchyFamily(dataset);
+  if (family && hierarchyNodeId) await assertValidRecordHierarchyDestination({ family, nodeId: hierarchyNodeId });
+  const fields = family ? await fetchEffectiveFieldDefinitions({ family, nodeId: hierarchyNodeId }) : [];
+  return fileImportTargets(dataset, fields);
+}
+
+function mapRecords(records: Array<Record<string, string>>, columnMap: Record<string, string>) {
+  return records.map((record) => {
+    const mapped: Record<string, string> = {};
+    Object.entries(columnMap).forEach(([header, key]) => {
+      if (key && header in record) mapped[key] = record[header];
+    });
+    return mapped;
+  });
+}
+
+/** Headers, sample rows and suggested mappings for the wizard's mapping step. */
+export async function inspectImportFile(input: { file: ImportFile; dataset: SheetSyncDataset; hierarchyNodeId?: string }) {
+  const parsed = parseImportFile(input.file);
+  const { targets, definitions } = await loadTargets(input.dataset, input.hierarchyNodeId);
+  return {
+    file_name: input.file.name,
+    sheet_name: parsed.sheetName,
+    headers: parsed.headers,
+    sample_rows: parsed.records.slice(0, SAMPLE_ROWS).map((record) => parsed.headers.map((header) => record[header])),
+    row_count: parsed.records.length,
+    targets,
+    suggested_mapping: suggestColumnMapping(parsed.headers, targets, definitions)
+  };
+}
+
+async function prepareFileImport(input: FileImportInput) {
+  const parsed = parseImportFile(input.file);
+  const { definitions } = await loadTargets(input.dataset, input.hierarchyNodeId);
+  const mappedRows = mapRecords(parsed.records, input.columnMap);
+  const report = buildImportReport({
+    dataset: input.dataset,
+    tab: parsed.sheetName || input.file.name,
+    definitions,
+    rows: mappedRows,
+    existing: await fetchExistingImportKeys(input.dataset, mappedRows)
+  });
+  return { parsed, definitions, mappedRows, report };
+}
+
+/** Dry run: validates every mapped row without writing anything. */
+export async function previewFileImport(input: FileImportInput): Promise<SheetImportReport> {
+  return (await prepareFileImport(input)).report;
+}
+
+/**
+ * Imports a file as one batch. Every row becomes an intake session; rows that pass validation are confirmed
+ * straight into new records (with the hierarchy node and custom field values), while rows with duplicate
+ * warnings or errors stay in the Inbox for review. `skipInvalid` leaves error rows out entirely.
+ */
+export async function runFileImport(input: FileImportInput & { skipInvalid?: boolean }, actorUserId: string | null) {
+  const supabase = createSupabaseClient();
+  const { parsed, definitions, mappedRows, report } = await prepareFileImport(input);
+
+  const { data: batchRow, error: batchError } = await supabase
+    .from("sheet_import_batches")
+    .insert({
+      source: "file",
+      file_name: input.file.name,
+      dataset: input.dataset,
+      tab_name: parsed.sheetName,
+      row_count: report.rows.length,
+      summary: report.summary,
+      created_by: actorUserId
+    })
+    .select("id")
+    .single();
+  if (batchError || !batchRow) throw new Error(batchError?.message || "Could not start import batch");
+  const batchId = String(batchRow.id);
+
+  const mappedKeys = Object.values(input.columnMap).filter(Boolean);
+  const recordIds: string[] = [];
+  const failures: Array<{ sheet_row: number; error: string }> = [];
+  let drafts = 0;
+  let skipped = 0;
+  let importError: unknown = null;
+
+  try {
+    for (const [index, mapped] of mappedRows.entries()) {
+      const rowReport = report.rows[index];
+      if (input.skipInvalid && rowReport.status === "error") {
+        skipped += 1;
+        continue;
+      }
+
+      const extracted: Record<string, unknown> = {};
+      const customValues: Array<{ fieldKey: string; value: unknown }> = [];
+      Object.entries(mapped).forEach(([key, value]) => {
+        const field = definitions.get(key);
+        if (field?.storage_kind === "custom_value") customValues.push({ fieldKey: key, value: parseFieldInputValue(field, value) });
+        else extracted[key] = LIST_SHEET_FIELDS.includes(key) ? value.split("|").map((item) => item.trim()).filter(Boolean) : value;
+      });
+
+      const { data: session, error: sessionError } = await supabase
+        .from("intake_sessions")
+        .insert({
+          raw_text: `[File import ${input.dataset}]\n${Object.entries(mapped).filter(([, value]) => value).map(([key, value]) => `${key}: ${value}`).join("\n")}`,
+          status: rowReport.status === "ok" ? "draft" : "needs_review",
+          type_detected: "",
+          type_confirmed: input.dataset,
+          ai_json: extracted,
+          ai_meta: {
+            integration_source: "file_import",
+            file_name: input.file.name,
+            sheet_row: rowReport.sheet_row,
+            import_issues: rowReport.issues,
+            hierarchy_node_id: input.hierarchyNodeId || null,
+            custom_field_values: customValues
+          },
+          completeness_score: mappedKeys.length ? Math.round((mappedKeys.filter((key) => mapped[key]).length / mappedKeys.length) * 100) : 0,
+          import_batch_id: batchId
+        })
+        .select("id")
+        .single();
+      if (sessionError || !session) throw new Error(sessionError?.message || "Could not create intake session");
+
+      if (rowReport.status !== "ok") {
+        drafts += 1;
+        continue;
+      }
+
+      try {
+        const result = await confirmIntakeSession(String(session.id), "create_new", undefined, {
+          type: input.dataset,
+          extracted_data: extracted,
+          merge_decisions: {},
+          hierarchy_node_id: input.hierarchyNodeId,
+          custom_field_values: customValues,
+          actor_user_id: actorUserId
+        });
+        recordIds.push(result.recordId);
+      } catch (error) {
+        // The session stays in the Inbox as a draft, so the row can still be fixed and confirmed by hand.
+        drafts += 1;
+        failures.push({ sheet_row: rowReport.sheet_row, error: error instanceof Error ? error.message : "Create record failed" });
+      }
+    }
+  } catch (error) {
+    importError = error;
+  }
+
+  // Counts are saved even when a row fails hard, so the partial batch can still be rolled back.
+  const { data: saved, error: countError } = await supabase
+    .from("sheet_import_batches")
+    .update({ created_count: recordIds.length + drafts, skipped_count: skipped })
+    .eq("id", batchId)
+    .select(SHEET_IMPORT_BATCH_SELECT)
+    .single();
+  if (importError) throw importError;
+  if (countError || !saved) throw new Error(countError?.message || "Could not save import batch");
+
+  return { batch: saved as SheetImportBatch, report, created_records: recordIds.length, drafts, skipped, failures };
+}
@@ -1,6 +1,10 @@
 import "server-only";
 import { createSupabaseClient } from "@/services/supabase/client";
 import { resolveContactId } from "@/services/contacts/contact-linking.service";
+import { refreshMatchesForRecord } from "@/services/matching/match-feed.service";
+import { assignListingCoordinates } from "@/services/geo/gazetteer.service";
+import { emitVoiceflowEvent } from "@/services/integrations/voiceflow-events.service";
+import { emitWebhookEvent } from "@/services/webhooks/webhook-events.service";
 import {
   assignMediaToHierarchyNode,
   assignRecordToHierarchyNode,
@@ -11,6 +15,10 @@ import {
   saveCustomFieldValuesForRecord
 } from "@/services/hierarchy/hierarchy.service";
 import type { EffectiveFieldDefinition } from "@/types/hierarchy";
+import type { MediaVariant, MediaVariants } from "@/lib/media-variants";
+import { getMediaAccessConfig } from "@/lib/env";
+import { isStoragePathShared, locateMediaObject } from "@/services/media/media-access.service";
+import { getMediaStorageProvider } from "@/services/media/media-manager.service";
 
 type ReviewType = "sale" | "rent" | "buyer" | "client";
 type Mode = "create_new" | "update_existing";
@@ -82,24 +90,6 @@ function normalizePhone(value: unknown) {
   return String(value ?? "").replace(/[^\d+]/g, "").replace(/(?!^)\+/g, "");
 }
 
-function parseStoragePathFromPublicUrl(url: string) {
-  try {
-    const u = new URL(url);
-    const markers = ["/object/public/crm-media/", "/object/public/media/"];
-
-    for (const marker of markers) {
-      const idx = u.pathname.indexOf(marker);
-      if (idx !== -1) {
-        return decodeURIComponent(u.pathname.slice(idx + marker.length));
-      }
-    }
-
-    return "";
-  } catch {
-    return "";
-  }
-}
-
 function computeMissingCritical(type: ReviewType, row: Record<string, unknown>) {
   if (type === "sale" || type === "rent") {
     const out: string[] = [];
@@ -259,9 +249,11 @@ export async function createTimelineEvent(record_type: string, record_id: string
 
 export async function moveMediaForSession(session_id: string, record_type: string, record_id: string) {
   const supabase = createSupabaseClient();
+  const provider = getMediaStorageProvider();
+  const isPrivate = getMediaAccessConfig().mode === "private";
   const { data: mediaRows, error } = await supabase
     .from("media")
-    .select("id, file_url, media_type")
+    .select("id, file_url, storage_path, storage_bucket, media_type, variants")
     .eq("intake_session_id", session_id);
   if (error) throw new Error(error.message);
 
@@ -275,29 +267,44 @@ export async function moveMediaForSession(session_id: string, record_type: strin
     else if (row.media_type === "video") videos += 1;
     else documents += 1;
 
-    const sourcePath = parseStoragePathFromPublicUrl(String(row.file_url || ""));
-    if (!sourcePath) {
+    const source = locateMediaObject(row);
+    if (!source) {
       warnings.push(`Path parse failed for media ${row.id}`);
       continue;
     }
+    // Media linked from an existing upload stays where it is; moving it would break the row it was linked from.
+    if (await isStoragePathShared(source.path, String(row.id))) continue;
+
+    const destinationFolder = `media/${record_type}/${record_id}`;
+    const destinationPath = `${destinationFolder}/${source.path.split("/").pop() || row.id}`;
+    try {
+      await provider.move(source.path, destinationPath, source.bucket);
+    } catch (moveError) {
+      warnings.push(`Move failed for media ${row.id}: ${moveError instanceof Error ? moveError.message : String(moveError)}`);
+      continue;
+    }
 
-    const filename = sourcePath.split("/").pop() || `${row.id}`;
-    const destinationPath = `media/${record_type}/${record_id}/${filename}`;
-
-    const moveResult = await supabase.storage.from("crm-media").move(sourcePath, destinationPath);
-    if (moveResult.error) {
-      const copyResult = await supabase.storage.from("crm-media").copy(sourcePath, destinationPath);
-      if (copyResult.error) {
-        warnings.push(`Move/copy failed for media ${row.id}`);
-        continue;
+    // Variants sit next to the original, so they follow it into the record's folder.
+    const variants: Record<string, MediaVariant> = { ...((row.variants as MediaVariants | null) || {}) };
+    for (const [name, variant] of Object.entries(variants)) {
+      if (!variant?.path) continue;
+      const variantDestination = `${destinationFolder}/${variant.path.split("/").pop()}`;
+      try {
+        await provider.move(variant.path, variantDestination, source.bucket);
+        variants[name] = { ...variant, path: variantDestination, url: isPrivate ? undefined : provider.getPublicUrl(variantDestination, source.bucket) };
+      } catch (moveError) {
+        warnings.push(`Variant ${name} move failed for media ${row.id}: ${moveError instanceof Error ? moveError.message : String(moveError)}`);
       }
-      warnings.push(`Move failed; copied instead for media ${row.id}`);
     }
 
-    const { data: urlData } = supabase.storage.from("crm-media").getPublicUrl(destinationPath);
     const { error: mediaUrlUpdateError } = await supabase
       .from("media")
-      .update({ file_url: urlData.publicUrl })
+      .update({
+        file_url: isPrivate ? null : provider.getPublicUrl(destinationPath, source.bucket),
+        storage_path: destinationPath,
+        storage_bucket: source.bucket,
+        variants
+      })
       .eq("id", row.id);
 
     if (mediaUrlUpdateError) warnings.push(`Media URL update failed ${row.id}: ${mediaUrlUpdateError.message}`);
@@ -399,7 +406,7 @@ export async function confirmIntakeSession(session_id: string, mode: Mode, targe
 
   const { data: intake, error: intakeError } = await supabase
     .from("intake_sessions")
-    .select("id, status, ai_meta")
+    .select("id, status, ai_meta, import_batch_id")
     .eq("id", session_id)
     .single();
 
@@ -407,9 +414,16 @@ export async function confirmIntakeSession(session_id: string, mode: Mode, targe
   if (intake.status === "confirmed") throw new Error("Intake session already confirmed");
 
   const sanitized = await sanitizeForType(input.type, input.extracted_data, input.hierarchy_node_id);
-  const contactNameCandidate = sanitized.name || input.extracted_data.contact_name || input.extracted_data.name;
-  const contactPhoneCandidate = sanitized.phone || input.extracted_data.contact_phone || input.extracted_data.phone;
-  const contactId = await resolveContactId({ name: contactNameCandidate, phone: contactPhoneCandidate });
+  // Integrations (e.g. a Voiceflow caller id) record the sender on the session; used when extraction found none.
+  const intakeContact = (((intake.ai_meta || {}) as Record<string, unknown>).contact || {}) as { name?: unknown; phone?: unknown };
+  const contactNameCandidate = sanitized.name || input.extracted_data.contact_name || input.extracted_data.name || intakeContact.name;
+  const contactPhoneCandidate = sanitized.phone || input.extracted_data.contact_phone || input.extracted_data.phone || intakeContact.phone;
+  const contactId = await resolveContactId(supabase, {
+    name: contactNameCandidate,
+    phone: contactPhoneCandidate,
+    whatsapp: input.extracted_data.contact_whatsapp || input.extracted_data.whatsapp,
+    email: input.extracted_data.contact_email || input.extracted_data.email
+  });
   const missingCritical = computeMissingCritical(input.type, sanitized);
   const rowStatus: "active" | "needs_review" = missingCritical.length > 0 ? "needs_review" : "active";
   const hierarchyFamily = reviewTypeToHierarchyFamily(input.type);
@@ -453,7 +467,7 @@ export async function confirmIntakeSession(session_id: string, mode: Mode, targe
     const code = await nextCode(codePrefixByType[input.type]);
     const { data, error } = await supabase
       .from(recordType)
-      .insert({ ...sanitized, contact_id: contactId, code, status: rowStatus, intake_session_id: session_id })
+      .insert({ ...sanitized, contact_id: contactId, code, status: rowStatus, intake_session_id: session_id, import_batch_id: intake.import_batch_id ?? null })
       .select("id")
       .single();
 
@@ -578,6 +592,30 @@ export async function confirmIntakeSession(session_id: string, mode: Mode, targe
     }
   }
 
+  if (recordType === "properties_sale" || recordType === "properties_rent") {
+    try {
+      await assignListingCoordinates(recordType, recordId);
+    } catch (error) {
+      console.error("[confirm-intake] coordinate assignment failed", {
+        final_record_type: recordType,
+        final_record_id: recordId,
+        error: error instanceof Error ? error.message : "Unknown geocoding error"
+      });
+    }
+  }
+
+  if (input.type !== "client") {
+    try {
+      await refreshMatchesForRecord({ type: input.type, recordId });
+    } catch (error) {
+      console.error("[confirm-intake] match feed refresh failed", {
+        final_record_type: recordType,
+        final_record_id: recordId,
+        error: error instanceof Error ? error.message : "Unknown match refresh error"
+      });
+    }
+  }
+
   const mergedMeta = {
     ...((intake.ai_meta || {}) as Record<string, unknown>),
     missing_critical_fields: missingCritical,
@@ -600,5 +638,35 @@ export async function confirmIntakeSession(session_id: string, mode: Mode, targe
 
   if (intakeUpdateError) throw new Error(intakeUpdateError.message);
 
+  const intakeMeta = (intake.ai_meta || {}) as Record<string, unknown>;
+  await emitVoiceflowEvent("intake.confirmed", {
+    intake_session_id: session_id,
+    record_type: recordType,
+    record_id: recordId,
+    status: rowStatus,
+    contact_id: contactId,
+    source: intakeMeta.integration_source || null,
+    voiceflow_user_id: intakeMeta.voiceflow_user_id || null,
+    conversation_id: intakeMeta.integration_source === "voiceflow" ? intakeMeta.external_id || null : null
+  });
+  await emitWebhookEvent(mode === "create_new" ? "record.created" : "record.updated", {
+    record_type: recordType,
+    record_id: recordId,
+    status: rowStatus,
+    changed_fields: changedFields,
+    intake_session_id: session_id,
+    actor_user_id: input.actor_user_id || null
+  });
+  await emitWebhookEvent("intake.confirmed", {
+    intake_session_id: session_id,
+    mode,
+    record_type: recordType,
+    record_id: recordId,
+    status: rowStatus,
+    contact_id: contactId,
+    source: intakeMeta.integration_source || null,
+    actor_user_id: input.actor_user_id || null
+  });
+
   return { recordType, recordId, status: rowStatus, changedFields, mediaSummary };
 }
@@ -0,0 +1,89 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { buildMediaPath, detectMediaType } from "@/services/media/media-manager.service";
+import { storeMediaFile } from "@/services/media/media-upload.service";
+
+// `headers` is for sources whose download URLs need credentials (e.g. WhatsApp Cloud API media).
+export type IncomingMedia = { url?: string; type?: string; filename?: string; headers?: Record<string, string> };
+
+export const MAX_MEDIA_BYTES = 20 * 1024 * 1024;
+const MEDIA_FETCH_TIMEOUT_MS = 10_000;
+
+function mapIncomingMediaType(type: string | undefined, mimeType: string) {
+  const t = String(type || "").toLowerCase();
+  if (t === "image" || t === "photo") return "image" as const;
+  if (t === "video") return "video" as const;
+  if (t === "doc" || t === "document") return "document" as const;
+  return detectMediaType(mimeType);
+}
+
+/** Downloads a remote file with a timeout, refusing anything over `MAX_MEDIA_BYTES`. */
+export async function fetchRemoteMedia(url: string, headers?: Record<string, string>) {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), MEDIA_FETCH_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(url, { headers, signal: controller.signal });
+    if (!response.ok) throw new Error(`Failed to download media (${response.status})`);
+
+    const contentLength = Number(response.headers.get("content-length") || 0);
+    if (contentLength > MAX_MEDIA_BYTES) throw new Error("Media exceeds allowed size");
+
+    const arrayBuffer = await response.arrayBuffer();
+    if (arrayBuffer.byteLength > MAX_MEDIA_BYTES) throw new Error("Media exceeds allowed size");
+
+    const contentType = response.headers.get("content-type") || "application/octet-stream";
+    return { bytes: arrayBuffer, contentType, size: arrayBuffer.byteLength };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * Downloads each file, stores it under the intake session and inserts the `media` rows.
+ * Per-file failures are collected and returned; only the final insert throws.
+ */
+export async function importIntakeMedia(supabase: SupabaseClient, intakeSessionId: string, media: IncomingMedia[]) {
+  const mediaRecords: Array<Record<string, unknown>> = [];
+  const mediaErrors: Array<{ url: string; error: string }> = [];
+
+  for (let i = 0; i < media.length; i += 1) {
+    const item = media[i];
+    const url = String(item.url || "").trim();
+    if (!url) continue;
+
+    try {
+      const downloaded = await fetchRemoteMedia(url, item.headers);
+      const filename = String(item.filename || `upload_${i + 1}`)
+        .replace(/[^\w\-.\u0600-\u06FF]/g, "_")
+        .slice(0, 140);
+
+      const file = new File([downloaded.bytes], filename || `upload_${i + 1}`, { type: downloaded.contentType });
+      const path = buildMediaPath({ intakeSessionId, filename: file.name });
+      const stored = await storeMediaFile(path, file);
+
+      const mediaType = mapIncomingMediaType(item.type, downloaded.contentType);
+      mediaRecords.push({
+        intake_session_id: intakeSessionId,
+        record_type: null,
+        record_id: null,
+        linked_record_type: null,
+        linked_record_id: null,
+        ...stored,
+        mime_type: downloaded.contentType,
+        media_type: mediaType,
+        type: mediaType,
+        original_filename: file.name,
+        file_size: downloaded.size
+      });
+    } catch (error) {
+      mediaErrors.push({ url, error: error instanceof Error ? error.message : "Failed to process media" });
+    }
+  }
+
+  if (mediaRecords.length) {
+    const { error } = await supabase.from("media").insert(mediaRecords);
+    if (error) throw new Error(error.message);
+  }
+
+  return { imported: mediaRecords.length, errors: mediaErrors };
+}
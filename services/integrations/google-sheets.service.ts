@@ -1,5 +1,6 @@
 import { google, sheets_v4 } from "googleapis";
 import { getEnv } from "@/lib/env";
+import { SHEET_SYNC_ID_COLUMN, sheetRange } from "@/lib/sheet-sync";
 
 export type SheetDataset = "sale" | "rent" | "buyer" | "client" | "inbox";
 
@@ -125,6 +126,75 @@ export class GoogleSheetsIntegrationService {
     return { spreadsheetId, headers, records };
   }
 
+  /** Reads a two-way sync tab with unformatted values, keeping each row's 1-based sheet row number. */
+  async readSyncTab(spreadsheetId: string, tabName: string) {
+    const sheets = this.getSheetsClient();
+    const { data } = await sheets.spreadsheets.values.get({
+      spreadsheetId,
+      range: sheetRange(tabName, "A1:ZZ"),
+      valueRenderOption: "UNFORMATTED_VALUE"
+    });
+    const values = data.values || [];
+    const headers = (values[0] || []).map((h) => String(h).trim());
+    const rows = values.slice(1).map((row, index) => ({
+      rowNumber: index + 2,
+      cells: Object.fromEntries(headers.map((h, i) => [h, row[i] == null ? "" : String(row[i])]))
+    }));
+    return { headers, rows };
+  }
+
+  /** Writes the header and all rows into an empty tab and hides the record id column. */
+  async initializeSyncTab(spreadsheetId: string, tabName: string, values: string[][]) {
+    const sheets = this.getSheetsClient();
+    await sheets.spreadsheets.values.update({
+      spreadsheetId,
+      range: sheetRange(tabName, "A1"),
+      valueInputOption: "RAW",
+      requestBody: { values }
+    });
+
+    const idColumn = values[0].indexOf(SHEET_SYNC_ID_COLUMN);
+    const { data } = await sheets.spreadsheets.get({ spreadsheetId });
+    const sheetId = (data.sheets || []).find((s) => s.properties?.title === tabName)?.properties?.sheetId;
+    if (idColumn < 0 || sheetId == null) return;
+    await sheets.spreadsheets.batchUpdate({
+      spreadsheetId,
+      requestBody: {
+        requests: [
+          {
+            updateDimensionProperties: {
+              range: { sheetId, dimension: "COLUMNS", startIndex: idColumn, endIndex: idColumn + 1 },
+              properties: { hiddenByUser: true },
+              fields: "hiddenByUser"
+            }
+          }
+        ]
+      }
+    });
+  }
+
+  /** Updates individual cells in one request, leaving every other cell (and any extra columns) untouched. */
+  async writeCells(spreadsheetId: string, cells: Array<{ range: string; value: string }>) {
+    if (cells.length === 0) return;
+    const sheets = this.getSheetsClient();
+    await sheets.spreadsheets.values.batchUpdate({
+      spreadsheetId,
+      requestBody: { valueInputOption: "RAW", data: cells.map((cell) => ({ range: cell.range, values: [[cell.value]] })) }
+    });
+  }
+
+  async appendRows(spreadsheetId: string, tabName: string, rows: string[][]) {
+    if (rows.length === 0) return;
+    const sheets = this.getSheetsClient();
+    await sheets.spreadsheets.values.append({
+      spreadsheetId,
+      range: sheetRange(tabName, "A1"),
+      valueInputOption: "RAW",
+      insertDataOption: "INSERT_ROWS",
+      requestBody: { values: rows }
+    });
+  }
+
   getTabName(dataset: SheetDataset) {
     return TAB_NAMES[dataset];
   }
@@ -0,0 +1,17 @@
+import { z } from "zod";
+
+export const sheetImportSchema = z.object({
+  spreadsheet_id: z.string().trim().min(1).max(500),
+  mappings: z
+    .array(
+      z.object({
+        dataset: z.enum(["sale", "rent", "buyer", "client", "inbox"]),
+        tab: z.string().trim().min(1).max(100),
+        column_map: z.record(z.string(), z.string())
+      })
+    )
+    .min(1)
+    .max(10),
+  dry_run: z.boolean().default(false),
+  skip_invalid: z.boolean().default(false)
+});
@@ -0,0 +1,313 @@
+import { reviewTypeToHierarchyFamily } from "@/lib/effective-fields";
+import { normalizePhoneE164, phoneLookupVariants } from "@/lib/contact-channels";
+import {
+  buildImportReport,
+  importFieldDefinitions,
+  type ExistingImportKeys,
+  type SheetImportBatch,
+  type SheetImportReport
+} from "@/lib/sheet-import";
+import { LIST_SHEET_FIELDS, NUMERIC_SHEET_FIELDS, SHEET_FIELDS_BY_DATASET, type SheetSyncDataset } from "@/lib/sheet-sync";
+import { writeAuditLog } from "@/services/audit/audit-log.service";
+import { gridTableByType } from "@/services/grid/grid-records.service";
+import { fetchEffectiveFieldDefinitions } from "@/services/hierarchy/hierarchy.service";
+import { googleSheetsIntegrationService, type GoogleSheetsIntegrationService, type SheetDataset } from "@/services/integrations/google-sheets.service";
+import { setRecordsArchiveState } from "@/services/records/record-archive.service";
+import { createSupabaseClient } from "@/services/supabase/client";
+
+export type SheetImportMapping = { dataset: SheetDataset; tab: string; column_map: Record<string, string> };
+
+type PreparedMapping = {
+  spreadsheetId: string;
+  dataset: SheetSyncDataset;
+  tab: string;
+  sheetRows: Array<Record<string, string>>;
+  mappedRows: Array<Record<string, string>>;
+  report: SheetImportReport;
+};
+
+const LOOKUP_CHUNK = 200;
+const SESSION_INSERT_CHUNK = 500;
+
+export const SHEET_IMPORT_BATCH_SELECT =
+  "id,source,spreadsheet_id,file_name,dataset,tab_name,status,row_count,created_count,skipped_count,summary,rollback_counts,created_by,created_at,rolled_back_by,rolled_back_at";
+
+function scoreCompleteness(dataset: SheetSyncDataset, data: Record<string, unknown>) {
+  const required = dataset === "sale" || dataset === "rent"
+    ? ["price", "area", "source"]
+    : dataset === "buyer"
+      ? ["phone", "budget_max", "preferred_areas"]
+      : ["name", "phone", "source"];
+
+  const ok = required.filter((k) => {
+    const v = data[k];
+    if (Array.isArray(v)) return v.length > 0;
+    return String(v || "").trim().length > 0;
+  }).length;
+
+  return Math.round((ok / required.length) * 100);
+}
+
+function normalizeForDataset(dataset: SheetSyncDataset, raw: Record<string, string>) {
+  const fields = SHEET_FIELDS_BY_DATASET[dataset];
+  const out: Record<string, unknown> = {};
+
+  fields.forEach((f) => {
+    let v: unknown = raw[f] || "";
+    if (NUMERIC_SHEET_FIELDS.includes(f)) {
+      const numeric = String(v).replace(/[^\d.]/g, "");
+      v = numeric ? Number(numeric) : null;
+    }
+    if (LIST_SHEET_FIELDS.includes(f)) {
+      v = String(v || "").split("|").map((x) => x.trim()).filter(Boolean);
+    }
+    out[f] = v;
+  });
+
+  return out;
+}
+
+function buildRawText(dataset: SheetSyncDataset, mapped: Record<string, unknown>) {
+  const lines = Object.entries(mapped)
+    .filter(([, v]) => v !== null && String(v).trim() !== "")
+    .map(([k, v]) => `${k}: ${Array.isArray(v) ? v.join(", ") : String(v)}`);
+  return `[Google Sheets ${dataset}]\n${lines.join("\n")}`;
+}
+
+export function chunk<T>(items: T[], size: number) {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+}
+
+/** Codes and phones from the tab that already belong to a CRM record of the same dataset. */
+export async function fetchExistingImportKeys(dataset: SheetSyncDataset, mappedRows: Array<Record<string, string>>): Promise<ExistingImportKeys> {
+  const supabase = createSupabaseClient();
+  const table = gridTableByType[dataset].table;
+  const existing: ExistingImportKeys = { codes: new Set(), phones: new Set() };
+
+  const codes = Array.from(new Set(mappedRows.flatMap((row) => {
+    const code = String(row.code || "").trim();
+    return code ? [code, code.toUpperCase()] : [];
+  })));
+  for (const part of chunk(codes, LOOKUP_CHUNK)) {
+    const { data, error } = await supabase.from(table).select("code").in("code", part);
+    if (error) throw new Error(error.message);
+    (data || []).forEach((row) => existing.codes.add(String(row.code || "").toUpperCase()));
+  }
+
+  // Only buyers and clients keep a phone on the record itself.
+  if (!SHEET_FIELDS_BY_DATASET[dataset].includes("phone")) return existing;
+  const phones = Array.from(new Set(mappedRows.flatMap((row) => phoneLookupVariants(row.phone))));
+  for (const part of chunk(phones, LOOKUP_CHUNK)) {
+    const { data, error } = await supabase.from(table).select("phone").in("phone", part);
+    if (error) throw new Error(error.message);
+    (data || []).forEach((row) => {
+      const phone = normalizePhoneE164(row.phone);
+      if (phone) existing.phones.add(phone);
+    });
+  }
+  return existing;
+}
+
+async function prepareMapping(spreadsheetIdOrUrl: string, mapping: SheetImportMapping, sheets: GoogleSheetsIntegrationService): Promise<PreparedMapping> {
+  const dataset = mapping.dataset as SheetSyncDataset;
+  const { spreadsheetId, records } = await sheets.readTab(spreadsheetIdOrUrl, mapping.tab);
+  const mappedRows = records.map((row) => {
+    const mapped: Record<string, string> = {};
+    Object.entries(mapping.column_map || {}).forEach(([sheetCol, appField]) => {
+      if (!appField) return;
+      mapped[appField] = String(row[sheetCol] || "");
+    });
+    return mapped;
+  });
+
+  const family = reviewTypeToHierarchyFamily(dataset);
+  const fields = family ? await fetchEffectiveFieldDefinitions({ family }) : [];
+  const report = buildImportReport({
+    dataset,
+    tab: mapping.tab,
+    definitions: importFieldDefinitions(dataset, fields),
+    rows: mappedRows,
+    existing: await fetchExistingImportKeys(dataset, mappedRows)
+  });
+
+  return { spreadsheetId, dataset, tab: mapping.tab, sheetRows: records, mappedRows, report };
+}
+
+function importableMappings(mappings: SheetImportMapping[]) {
+  return mappings.filter((mapping) => mapping.dataset !== "inbox");
+}
+
+/** Dry run: reads and validates every mapped row without writing anything. */
+export async function previewSheetImport(
+  input: { spreadsheetId: string; mappings: SheetImportMapping[] },
+  sheets: GoogleSheetsIntegrationService = googleSheetsIntegrationService
+) {
+  const reports: SheetImportReport[] = [];
+  for (const mapping of importableMappings(input.mappings)) {
+    reports.push((await prepareMapping(input.spreadsheetId, mapping, sheets)).report);
+  }
+  return reports;
+}
+
+/**
+ * Imports mapped rows as intake drafts, one batch per tab. Rows with validation errors go to `needs_review` with
+ * their issues in `ai_meta.import_issues`, or are left out entirely when `skipInvalid` is set.
+ */
+export async function runSheetImport(
+  input: { spreadsheetId: string; mappings: SheetImportMapping[]; skipInvalid?: boolean },
+  actorUserId: string | null,
+  sheets: GoogleSheetsIntegrationService = googleSheetsIntegrationService
+) {
+  const supabase = createSupabaseClient();
+  const batches: SheetImportBatch[] = [];
+  const reports: SheetImportReport[] = [];
+  const created: Array<{ dataset: string; intake_session_id: string }> = [];
+
+  for (const mapping of importableMappings(input.mappings)) {
+    const prepared = await prepareMapping(input.spreadsheetId, mapping, sheets);
+    const { dataset, report } = prepared;
+    reports.push(report);
+
+    const { data: batch, error: batchError } = await supabase
+      .from("sheet_import_batches")
+      .insert({
+        spreadsheet_id: prepared.spreadsheetId,
+        dataset,
+        tab_name: prepared.tab,
+        row_count: report.rows.length,
+        summary: report.summary,
+        created_by: actorUserId
+      })
+      .select("id")
+      .single();
+    if (batchError || !batch) throw new Error(batchError?.message || "Could not start import batch");
+
+    const sessions = prepared.mappedRows.flatMap((mapped, index) => {
+      const rowReport = report.rows[index];
+      if (input.skipInvalid && rowReport.status === "error") return [];
+      const aiJson = normalizeForDataset(dataset, mapped);
+      const completeness = scoreCompleteness(dataset, aiJson);
+      return [{
+        raw_text: buildRawText(dataset, aiJson),
+        status: completeness >= 70 && rowReport.status !== "error" ? "draft" : "needs_review",
+        type_detected: "",
+        type_confirmed: dataset,
+        ai_json: aiJson,
+        ai_meta: {
+          integration_source: "google_sheets",
+          sheet_tab: prepared.tab,
+          sheet_row: rowReport.sheet_row,
+          sheet_row_data: prepared.sheetRows[index],
+          mapped_fields: Object.keys(mapped),
+          import_issues: rowReport.issues
+        },
+        completeness_score: completeness,
+        import_batch_id: batch.id
+      }];
+    });
+
+    let createdCount = 0;
+    try {
+      for (const part of chunk(sessions, SESSION_INSERT_CHUNK)) {
+        const { data, error } = await supabase.from("intake_sessions").insert(part).select("id");
+        if (error) throw new Error(error.message);
+        (data || []).forEach((row) => created.push({ dataset, intake_session_id: String(row.id) }));
+        createdCount += (data || []).length;
+      }
+    } finally {
+      // Counts are kept even when a chunk fails, so the partial batch can still be rolled back.
+      const { data: saved, error: countError } = await supabase
+        .from("sheet_import_batches")
+        .update({ created_count: createdCount, skipped_count: report.rows.length - sessions.length })
+        .eq("id", batch.id)
+        .select(SHEET_IMPORT_BATCH_SELECT)
+        .single();
+      if (countError) console.error("[sheets-import] Failed to record batch counts", { batchId: batch.id, error: countError.message });
+      if (saved) batches.push(saved as SheetImportBatch);
+    }
+  }
+
+  return { batches, reports, created };
+}
+
+export async function fetchSheetImportBatches(filter: { source?: SheetImportBatch["source"]; spreadsheetId?: string; limit?: number } = {}) {
+  const supabase = createSupabaseClient();
+  let query = supabase.from("sheet_import_batches").select(SHEET_IMPORT_BATCH_SELECT).order("created_at", { ascending: false }).limit(filter.limit ?? 20);
+  if (filter.source) query = query.eq("source", filter.source);
+  if (filter.spreadsheetId) query = query.eq("spreadsheet_id", filter.spreadsheetId);
+  const { data, error } = await query;
+  if (error) throw new Error(error.message);
+  return (data || []) as SheetImportBatch[];
+}
+
+/**
+ * Rolls a batch back: unconfirmed intake drafts are deleted and records created from it are archived (so they can
+ * still be restored). Existing records that a batch draft was merged into keep the merged values and are only counted.
+ */
+export async function rollbackSheetImportBatch(batchId: string, actorUserId: string) {
+  const supabase = createSupabaseClient();
+  const { data: batchRow, error: batchError } = await supabase.from("sheet_import_batches").select(SHEET_IMPORT_BATCH_SELECT).eq("id", batchId).maybeSingle();
+  if (batchError) throw new Error(batchError.message);
+  if (!batchRow) throw new Error("Import batch not found");
+  const batch = batchRow as SheetImportBatch;
+  if (batch.status === "rolled_back") throw new Error("Import batch was already rolled back");
+
+  const { data: deleted, error: deleteError } = await supabase
+    .from("intake_sessions")
+    .delete()
+    .eq("import_batch_id", batchId)
+    .neq("status", "confirmed")
+    .select("id");
+  if (deleteError) throw new Error(deleteError.message);
+
+  const table = gridTableByType[batch.dataset].table;
+  const { data: records, error: recordsError } = await supabase.from(table).select("id,is_archived").eq("import_batch_id", batchId);
+  if (recordsError) throw new Error(recordsError.message);
+  const batchRecordIds = new Set((records || []).map((row) => String(row.id)));
+  const recordIds = (records || []).filter((row) => !row.is_archived).map((row) => String(row.id));
+
+  let archivedIds: string[] = [];
+  if (recordIds.length) {
+    const result = await setRecordsArchiveState({ type: batch.dataset, recordIds, archived: true, actorUserId });
+    archivedIds = result.updatedRecordIds;
+    await Promise.all(
+      archivedIds.map((recordId) =>
+        writeAuditLog({
+          user_id: actorUserId,
+          action: "record_archive",
+          record_type: table,
+          record_id: recordId,
+          before_json: {},
+          after_json: { is_archived: true, archived_by: actorUserId, import_batch_id: batchId },
+          source: "sheets_import_rollback"
+        })
+      )
+    );
+  }
+
+  const { data: confirmed, error: confirmedError } = await supabase
+    .from("intake_sessions")
+    .select("final_record_id")
+    .eq("import_batch_id", batchId)
+    .eq("status", "confirmed");
+  if (confirmedError) throw new Error(confirmedError.message);
+  const keptUpdates = (confirmed || []).filter((row) => row.final_record_id && !batchRecordIds.has(String(row.final_record_id))).length;
+
+  const { data: saved, error: saveError } = await supabase
+    .from("sheet_import_batches")
+    .update({
+      status: "rolled_back",
+      rollback_counts: { deleted_sessions: (deleted || []).length, archived_records: archivedIds.length, kept_updates: keptUpdates },
+      rolled_back_by: actorUserId,
+      rolled_back_at: new Date().toISOString()
+    })
+    .eq("id", batchId)
+    .eq("status", "imported")
+    .select(SHEET_IMPORT_BATCH_SELECT)
+    .maybeSingle();
+  if (saveError) throw new Error(saveError.message);
+  if (!saved) throw new Error("Import batch was already rolled back");
+  return saved as SheetImportBatch;
+}
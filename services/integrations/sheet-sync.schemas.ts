@@ -0,0 +1,14 @@
+import { z } from "zod";
+import { SHEET_SYNC_OUTCOMES } from "@/lib/sheet-sync";
+
+export const startSheetSyncSchema = z.object({
+  spreadsheet_id: z.string().trim().min(1).max(500),
+  dataset: z.enum(["sale", "rent", "buyer", "client"]),
+  tab: z.string().trim().max(100).optional()
+});
+
+export const resolveSheetSyncConflictSchema = z.object({
+  keep: z.enum(["crm", "sheet"])
+});
+
+export const sheetSyncOutcomeSchema = z.enum(SHEET_SYNC_OUTCOMES);
@@ -0,0 +1,369 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  SHEET_SYNC_ID_COLUMN,
+  columnLetter,
+  diffSheetRow,
+  fromSheetCell,
+  sheetRange,
+  sheetSyncFields,
+  toSheetCell,
+  type SheetSyncConflictDetail,
+  type SheetSyncCounts,
+  type SheetSyncDataset,
+  type SheetSyncOutcome,
+  type SheetSyncRowOutcome,
+  type SheetSyncRun
+} from "@/lib/sheet-sync";
+import { writeAuditLog } from "@/services/audit/audit-log.service";
+import { gridTableByType } from "@/services/grid/grid-records.service";
+import { googleSheetsIntegrationService, type GoogleSheetsIntegrationService } from "@/services/integrations/google-sheets.service";
+import { createSupabaseClient } from "@/services/supabase/client";
+import { emitWebhookEvent } from "@/services/webhooks/webhook-events.service";
+
+type RecordRow = Record<string, unknown> & { id: string; code: string | null; updated_at: string };
+type Snapshot = { record_id: string; field_values: Record<string, string>; record_updated_at: string | null };
+type OutcomeInput = Omit<SheetSyncRowOutcome, "id" | "run_id" | "resolution" | "resolved_at" | "created_at">;
+type SheetRow = { rowNumber: number; cells: Record<string, string> };
+
+const PAGE_SIZE = 1000;
+const OUTCOME_INSERT_CHUNK = 500;
+// A run that has not finished after this long is assumed dead (e.g. the function timed out) and no longer blocks new runs.
+const STALE_RUN_MINUTES = 15;
+
+const RUN_SELECT = "id,spreadsheet_id,dataset,tab_name,status,counts,error,started_by,started_at,finished_at";
+const OUTCOME_SELECT = "id,run_id,record_id,code,sheet_row,outcome,fields,detail,resolution,resolved_at,created_at";
+
+export function defaultSyncTabName(dataset: SheetSyncDataset, sheets: GoogleSheetsIntegrationService = googleSheetsIntegrationService) {
+  return `${sheets.getTabName(dataset)} sync`;
+}
+
+function pick(values: Record<string, string>, fields: string[]) {
+  return Object.fromEntries(fields.map((field) => [field, values[field] ?? ""]));
+}
+
+function crmCells(record: RecordRow, fields: string[]) {
+  return Object.fromEntries(fields.map((field) => [field, toSheetCell(record[field])]));
+}
+
+async function fetchAll<T>(load: (from: number, to: number) => PromiseLike<{ data: unknown; error: { message: string } | null }>) {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await load(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    const page = (data || []) as T[];
+    rows.push(...page);
+    if (page.length < PAGE_SIZE) return rows;
+  }
+}
+
+/** Writes sheet values into the CRM record, guarded by `updated_at` so a concurrent edit is never overwritten. */
+async function pullIntoRecord(
+  supabase: SupabaseClient,
+  dataset: SheetSyncDataset,
+  record: RecordRow,
+  sheetValues: Record<string, string>,
+  fields: string[],
+  actorUserId: string | null
+) {
+  const table = gridTableByType[dataset].table;
+  const values = Object.fromEntries(fields.map((field) => [field, fromSheetCell(field, sheetValues[field] ?? "")]));
+  const { data, error } = await supabase
+    .from(table)
+    .update(values)
+    .eq("id", record.id)
+    .eq("updated_at", record.updated_at)
+    .select("id,updated_at")
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data) throw new Error("Record changed during the sync; run it again");
+
+  await writeAuditLog({
+    user_id: actorUserId,
+    action: "sheet_sync_pull",
+    record_type: table,
+    record_id: record.id,
+    before_json: Object.fromEntries(fields.map((field) => [field, record[field] ?? null])),
+    after_json: values,
+    source: "google_sheets"
+  });
+  await emitWebhookEvent("record.updated", { record_type: table, record_id: record.id, changed_fields: fields, values, actor_user_id: actorUserId });
+  return String(data.updated_at);
+}
+
+async function syncDataset(
+  supabase: SupabaseClient,
+  run: { spreadsheetId: string; dataset: SheetSyncDataset; tabName: string },
+  actorUserId: string | null,
+  sheets: GoogleSheetsIntegrationService
+) {
+  const { spreadsheetId, dataset, tabName } = run;
+  const fields = sheetSyncFields(dataset);
+  const table = gridTableByType[dataset].table;
+
+  const records = await fetchAll<RecordRow>((from, to) =>
+    supabase.from(table).select(["id", "code", "updated_at", ...fields].join(",")).eq("is_archived", false).order("created_at", { ascending: true }).range(from, to)
+  );
+  const snapshots = await fetchAll<Snapshot>((from, to) =>
+    supabase
+      .from("sheet_sync_snapshots")
+      .select("record_id,field_values,record_updated_at")
+      .eq("spreadsheet_id", spreadsheetId)
+      .eq("dataset", dataset)
+      .range(from, to)
+  );
+  const snapshotById = new Map(snapshots.map((snapshot) => [snapshot.record_id, snapshot]));
+
+  await sheets.ensureTab(spreadsheetId, tabName);
+  const tab = await sheets.readSyncTab(spreadsheetId, tabName);
+  const outcomes: OutcomeInput[] = [];
+  const snapshotUpserts: Array<{ record_id: string; field_values: Record<string, string>; record_updated_at: string | null }> = [];
+
+  // First run into an empty tab: write everything and take the CRM as the baseline.
+  if (tab.headers.length === 0) {
+    const header = [SHEET_SYNC_ID_COLUMN, "code", ...fields];
+    await sheets.initializeSyncTab(spreadsheetId, tabName, [header, ...records.map((record) => [record.id, String(record.code || ""), ...fields.map((field) => toSheetCell(record[field]))])]);
+    records.forEach((record, index) => {
+      outcomes.push({ record_id: record.id, code: String(record.code || ""), sheet_row: index + 2, outcome: "added_to_sheet", fields: [], detail: {} });
+      snapshotUpserts.push({ record_id: record.id, field_values: crmCells(record, fields), record_updated_at: record.updated_at });
+    });
+    return { outcomes, snapshotUpserts };
+  }
+
+  if (!tab.headers.includes(SHEET_SYNC_ID_COLUMN)) {
+    throw new Error(`Tab "${tabName}" has no ${SHEET_SYNC_ID_COLUMN} column; sync into an empty tab instead`);
+  }
+  const missingColumns = fields.filter((field) => !tab.headers.includes(field));
+  if (missingColumns.length > 0) throw new Error(`Tab "${tabName}" is missing columns: ${missingColumns.join(", ")}`);
+  const columnByField = new Map(tab.headers.map((header, index) => [header, columnLetter(index)]));
+
+  const rowById = new Map<string, SheetRow>();
+  for (const row of tab.rows) {
+    const id = (row.cells[SHEET_SYNC_ID_COLUMN] || "").trim();
+    if (!id) {
+      if (Object.values(row.cells).some((value) => value.trim())) {
+        outcomes.push({ record_id: null, code: row.cells.code || "", sheet_row: row.rowNumber, outcome: "skipped", fields: [], detail: { reason: "Row has no crm_id; add new records in the CRM or use Import to Inbox" } });
+      }
+      continue;
+    }
+    if (rowById.has(id)) {
+      outcomes.push({ record_id: id, code: row.cells.code || "", sheet_row: row.rowNumber, outcome: "skipped", fields: [], detail: { reason: "Duplicate crm_id; only the first row is synced" } });
+      continue;
+    }
+    rowById.set(id, row);
+  }
+
+  const cellWrites: Array<{ range: string; value: string }> = [];
+  const appends: string[][] = [];
+  const recordIds = new Set<string>();
+
+  for (const record of records) {
+    recordIds.add(record.id);
+    const code = String(record.code || "");
+    const crm = crmCells(record, fields);
+    const row = rowById.get(record.id);
+    const snapshot = snapshotById.get(record.id) || null;
+
+    if (!row) {
+      appends.push(tab.headers.map((header) => (header === SHEET_SYNC_ID_COLUMN ? record.id : header === "code" ? code : crm[header] ?? "")));
+      outcomes.push({ record_id: record.id, code, sheet_row: null, outcome: "added_to_sheet", fields: [], detail: {} });
+      snapshotUpserts.push({ record_id: record.id, field_values: crm, record_updated_at: record.updated_at });
+      continue;
+    }
+
+    const crmChanged = !snapshot || !snapshot.record_updated_at || Date.parse(snapshot.record_updated_at) !== Date.parse(record.updated_at);
+    const diff = diffSheetRow({ fields, crm, sheet: row.cells, base: snapshot?.field_values || null, crmChanged });
+
+    let updatedAt = record.updated_at;
+    if (diff.pull.length > 0) {
+      try {
+        updatedAt = await pullIntoRecord(supabase, dataset, record, row.cells, diff.pull, actorUserId);
+      } catch (error) {
+        outcomes.push({ record_id: record.id, code, sheet_row: row.rowNumber, outcome: "error", fields: diff.pull, detail: { error: error instanceof Error ? error.message : String(error) } });
+        continue;
+      }
+    }
+    diff.push.forEach((field) => cellWrites.push({ range: sheetRange(tabName, `${columnByField.get(field)}${row.rowNumber}`), value: crm[field] }));
+
+    const merged = { ...crm, ...pick(row.cells, diff.pull) };
+    let outcome: SheetSyncOutcome = "unchanged";
+    if (diff.conflicts.length > 0) outcome = "conflict";
+    else if (diff.push.length > 0 && diff.pull.length > 0) outcome = "merged";
+    else if (diff.push.length > 0) outcome = "pushed";
+    else if (diff.pull.length > 0) outcome = "pulled";
+
+    if (outcome === "conflict") {
+      const detail: SheetSyncConflictDetail = { crm: pick(crm, diff.conflicts), sheet: pick(row.cells, diff.conflicts), base: pick(snapshot?.field_values || {}, diff.conflicts) };
+      outcomes.push({ record_id: record.id, code, sheet_row: row.rowNumber, outcome, fields: diff.conflicts, detail: { ...detail, pushed: diff.push, pulled: diff.pull } });
+      // Conflicted fields keep their old baseline and the old updated_at, so the next run still sees both edits.
+      if (snapshot) {
+        snapshotUpserts.push({ record_id: record.id, field_values: { ...merged, ...pick(snapshot.field_values, diff.conflicts) }, record_updated_at: snapshot.record_updated_at });
+      }
+      continue;
+    }
+
+    outcomes.push({ record_id: record.id, code, sheet_row: row.rowNumber, outcome, fields: [...diff.push, ...diff.pull], detail: diff.pull.length ? { pulled: diff.pull } : {} });
+    if (outcome !== "unchanged" || crmChanged) snapshotUpserts.push({ record_id: record.id, field_values: merged, record_updated_at: updatedAt });
+  }
+
+  rowById.forEach((row, id) => {
+    if (recordIds.has(id)) return;
+    outcomes.push({ record_id: id, code: row.cells.code || "", sheet_row: row.rowNumber, outcome: "skipped", fields: [], detail: { reason: "Record is archived or no longer in the CRM" } });
+  });
+
+  await sheets.writeCells(spreadsheetId, cellWrites);
+  await sheets.appendRows(spreadsheetId, tabName, appends);
+  return { outcomes, snapshotUpserts };
+}
+
+/**
+ * One two-way sync run for a dataset: diffs the CRM and the sync tab against the last-sync snapshot, applies
+ * edits made on only one side, and records a per-row outcome. Sheet writes happen before the snapshot is saved,
+ * so a run that fails halfway is safe to repeat.
+ */
+export async function runSheetSync(
+  input: { spreadsheetId: string; dataset: SheetSyncDataset; tabName?: string },
+  actorUserId: string | null,
+  sheets: GoogleSheetsIntegrationService = googleSheetsIntegrationService
+) {
+  const spreadsheetId = sheets.parseSpreadsheetId(input.spreadsheetId);
+  if (!spreadsheetId) throw new Error("Spreadsheet ID is required");
+  const tabName = input.tabName?.trim() || defaultSyncTabName(input.dataset, sheets);
+  const supabase = createSupabaseClient();
+
+  await supabase
+    .from("sheet_sync_runs")
+    .update({ status: "failed", error: "Run did not finish", finished_at: new Date().toISOString() })
+    .eq("status", "running")
+    .lt("started_at", new Date(Date.now() - STALE_RUN_MINUTES * 60_000).toISOString());
+
+  const { data: run, error: runError } = await supabase
+    .from("sheet_sync_runs")
+    .insert({ spreadsheet_id: spreadsheetId, dataset: input.dataset, tab_name: tabName, started_by: actorUserId })
+    .select(RUN_SELECT)
+    .single();
+  if (runError?.code === "23505") throw new Error("A sync is already running for this spreadsheet and dataset");
+  if (runError || !run) throw new Error(runError?.message || "Failed to start sync run");
+
+  try {
+    const { outcomes, snapshotUpserts } = await syncDataset(supabase, { spreadsheetId, dataset: input.dataset, tabName }, actorUserId, sheets);
+
+    const syncedAt = new Date().toISOString();
+    for (let i = 0; i < snapshotUpserts.length; i += OUTCOME_INSERT_CHUNK) {
+      const chunk = snapshotUpserts.slice(i, i + OUTCOME_INSERT_CHUNK).map((row) => ({ ...row, spreadsheet_id: spreadsheetId, dataset: input.dataset, synced_at: syncedAt }));
+      const { error } = await supabase.from("sheet_sync_snapshots").upsert(chunk, { onConflict: "spreadsheet_id,dataset,record_id" });
+      if (error) throw new Error(error.message);
+    }
+    for (let i = 0; i < outcomes.length; i += OUTCOME_INSERT_CHUNK) {
+      const { error } = await supabase.from("sheet_sync_row_outcomes").insert(outcomes.slice(i, i + OUTCOME_INSERT_CHUNK).map((outcome) => ({ ...outcome, run_id: run.id })));
+      if (error) throw new Error(error.message);
+    }
+
+    const counts = outcomes.reduce<Partial<SheetSyncCounts>>((acc, item) => ({ ...acc, [item.outcome]: (acc[item.outcome] || 0) + 1 }), {});
+    const { data: finished, error } = await supabase
+      .from("sheet_sync_runs")
+      .update({ status: "completed", counts, finished_at: new Date().toISOString() })
+      .eq("id", run.id)
+      .select(RUN_SELECT)
+      .single();
+    if (error || !finished) throw new Error(error?.message || "Failed to finish sync run");
+    return finished as SheetSyncRun;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Sync failed";
+    await supabase.from("sheet_sync_runs").update({ status: "failed", error: message, finished_at: new Date().toISOString() }).eq("id", run.id);
+    throw new Error(message);
+  }
+}
+
+export async function fetchSheetSyncRuns(filter: { spreadsheetId?: string; limit?: number } = {}) {
+  const supabase = createSupabaseClient();
+  let query = supabase.from("sheet_sync_runs").select(RUN_SELECT).order("started_at", { ascending: false }).limit(filter.limit ?? 20);
+  if (filter.spreadsheetId) query = query.eq("spreadsheet_id", googleSheetsIntegrationService.parseSpreadsheetId(filter.spreadsheetId));
+  const { data, error } = await query;
+  if (error) throw new Error(error.message);
+  return (data || []) as SheetSyncRun[];
+}
+
+export async function fetchSheetSyncRun(runId: string, filter: { outcome?: SheetSyncOutcome } = {}) {
+  const supabase = createSupabaseClient();
+  const { data: run, error } = await supabase.from("sheet_sync_runs").select(RUN_SELECT).eq("id", runId).maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!run) throw new Error("Sync run not found");
+
+  let query = supabase.from("sheet_sync_row_outcomes").select(OUTCOME_SELECT).eq("run_id", runId).order("sheet_row", { ascending: true, nullsFirst: false }).limit(1000);
+  if (filter.outcome) query = query.eq("outcome", filter.outcome);
+  const { data: outcomes, error: outcomeError } = await query;
+  if (outcomeError) throw new Error(outcomeError.message);
+  return { run: run as SheetSyncRun, outcomes: (outcomes || []) as SheetSyncRowOutcome[] };
+}
+
+/**
+ * Settles one conflict by copying the chosen side's current values over the other side. The snapshot takes the
+ * chosen values but keeps its old `updated_at`, so the next run still diffs the record's other fields three ways.
+ */
+export async function resolveSheetSyncConflict(
+  outcomeId: string,
+  keep: "crm" | "sheet",
+  actorUserId: string | null,
+  sheets: GoogleSheetsIntegrationService = googleSheetsIntegrationService
+) {
+  const supabase = createSupabaseClient();
+  const { data: outcome, error } = await supabase.from("sheet_sync_row_outcomes").select(OUTCOME_SELECT).eq("id", outcomeId).maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!outcome || outcome.outcome !== "conflict") throw new Error("Conflict not found");
+  if (outcome.resolved_at) throw new Error("Conflict is already resolved");
+  if (!outcome.record_id) throw new Error("Conflict has no record");
+
+  const { data: run, error: runError } = await supabase.from("sheet_sync_runs").select(RUN_SELECT).eq("id", outcome.run_id).single();
+  if (runError || !run) throw new Error(runError?.message || "Sync run not found");
+  const { spreadsheet_id: spreadsheetId, dataset, tab_name: tabName } = run as SheetSyncRun;
+  const fields = (outcome.fields as string[]).filter((field) => sheetSyncFields(dataset).includes(field));
+  const table = gridTableByType[dataset].table;
+
+  const { data: recordData, error: recordError } = await supabase.from(table).select(["id", "code", "updated_at", ...fields].join(",")).eq("id", outcome.record_id).maybeSingle();
+  if (recordError) throw new Error(recordError.message);
+  if (!recordData) throw new Error("Record not found");
+  const record = (recordData as unknown) as RecordRow;
+
+  const tab = await sheets.readSyncTab(spreadsheetId, tabName);
+  const row = tab.rows.find((item) => (item.cells[SHEET_SYNC_ID_COLUMN] || "").trim() === record.id);
+  if (!row) throw new Error("Row not found in the sheet");
+
+  let chosen: Record<string, string>;
+  if (keep === "crm") {
+    chosen = crmCells(record, fields);
+    const cells = fields.map((field) => ({ range: sheetRange(tabName, `${columnLetter(tab.headers.indexOf(field))}${row.rowNumber}`), value: chosen[field] }));
+    await sheets.writeCells(spreadsheetId, cells);
+  } else {
+    chosen = pick(row.cells, fields);
+    await pullIntoRecord(supabase, dataset, record, row.cells, fields, actorUserId);
+  }
+
+  const { data: snapshot } = await supabase
+    .from("sheet_sync_snapshots")
+    .select("field_values,record_updated_at")
+    .eq("spreadsheet_id", spreadsheetId)
+    .eq("dataset", dataset)
+    .eq("record_id", record.id)
+    .maybeSingle();
+  const { error: snapshotError } = await supabase.from("sheet_sync_snapshots").upsert(
+    {
+      spreadsheet_id: spreadsheetId,
+      dataset,
+      record_id: record.id,
+      field_values: { ...((snapshot?.field_values as Record<string, string>) || {}), ...chosen },
+      record_updated_at: snapshot?.record_updated_at ?? null,
+      synced_at: new Date().toISOString()
+    },
+    { onConflict: "spreadsheet_id,dataset,record_id" }
+  );
+  if (snapshotError) throw new Error(snapshotError.message);
+
+  const { data: resolved, error: resolveError } = await supabase
+    .from("sheet_sync_row_outcomes")
+    .update({ resolution: keep, resolved_by: actorUserId, resolved_at: new Date().toISOString() })
+    .eq("id", outcomeId)
+    .select(OUTCOME_SELECT)
+    .single();
+  if (resolveError || !resolved) throw new Error(resolveError?.message || "Failed to resolve conflict");
+  return resolved as SheetSyncRowOutcome;
+}
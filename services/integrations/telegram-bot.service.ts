@@ -0,0 +1,225 @@
+import { randomBytes } from "node:crypto";
+import { getAppBaseUrl } from "@/lib/env";
+import { createSupabaseAdminClient } from "@/lib/supabase/admin";
+import { TELEGRAM_GROUP_WINDOW_SECONDS, formatIntakeReply, parseTelegramUpdate, type TelegramIncomingMessage } from "@/lib/telegram";
+import { detectTypeAndLanguage } from "@/services/ai/intake-processing.service";
+import { writeAuditLog } from "@/services/audit/audit-log.service";
+import { MAX_MEDIA_BYTES, importIntakeMedia, type IncomingMedia } from "@/services/intake/intake-media.service";
+import { TelegramIntegrationService } from "@/services/integrations/telegram.service";
+
+const LINK_CODE_TTL_MINUTES = 15;
+const REMINDER_LEAD_MINUTES = 60;
+// Tasks that went overdue more than this long ago are not reminded (e.g. right after a chat is linked).
+const REMINDER_LOOKBACK_HOURS = 24;
+
+const RECORD_PATH_BY_TASK_TYPE: Record<string, string> = {
+  sale: "/sale",
+  rent: "/rent",
+  buyer: "/buyers",
+  client: "/clients"
+};
+
+const HELP_TEXT = [
+  "Send a listing or request as text, photos, videos or documents; messages sent close together become one intake.",
+  "/new — start a separate intake for the next message",
+  "/link <code> — receive task reminders here (get the code from the Tasks page)",
+  "/unlink — stop task reminders"
+].join("\n");
+
+async function linkChat(chatId: number, code: string) {
+  const admin = createSupabaseAdminClient();
+  const { data, error } = await admin
+    .from("telegram_user_links")
+    .select("user_id,link_code_expires_at")
+    .eq("link_code", code.trim().toUpperCase())
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data || !data.link_code_expires_at || new Date(String(data.link_code_expires_at)).getTime() < Date.now()) {
+    return "That code is invalid or expired. Generate a new one from the Tasks page.";
+  }
+
+  // A chat belongs to one CRM user at a time.
+  const { error: clearError } = await admin.from("telegram_user_links").update({ chat_id: null, linked_at: null }).eq("chat_id", chatId);
+  if (clearError) throw new Error(clearError.message);
+  const { error: linkError } = await admin
+    .from("telegram_user_links")
+    .update({ chat_id: chatId, linked_at: new Date().toISOString(), link_code: null, link_code_expires_at: null })
+    .eq("user_id", String(data.user_id));
+  if (linkError) throw new Error(linkError.message);
+  return "Linked. Task reminders will arrive in this chat.";
+}
+
+async function handleCommand(message: TelegramIncomingMessage, command: NonNullable<TelegramIncomingMessage["command"]>) {
+  const admin = createSupabaseAdminClient();
+  if ((command.name === "start" || command.name === "link") && command.args) return linkChat(message.chatId, command.args);
+  if (command.name === "unlink") {
+    const { error } = await admin.from("telegram_user_links").update({ chat_id: null, linked_at: null }).eq("chat_id", message.chatId);
+    if (error) throw new Error(error.message);
+    return "Task reminders are off for this chat.";
+  }
+  if (command.name === "new") {
+    const { error } = await admin.from("telegram_chats").update({ open_session_id: null, last_media_group_id: null }).eq("chat_id", message.chatId);
+    if (error) throw new Error(error.message);
+    return "OK — your next message starts a new intake.";
+  }
+  return HELP_TEXT;
+}
+
+async function downloadableMedia(telegram: TelegramIntegrationService, message: TelegramIncomingMessage) {
+  const media: IncomingMedia[] = [];
+  const errors: Array<{ url: string; error: string }> = [];
+  for (const file of message.files) {
+    if (file.size && file.size > MAX_MEDIA_BYTES) {
+      errors.push({ url: file.filename, error: "Media exceeds allowed size" });
+      continue;
+    }
+    try {
+      const { url } = await telegram.getFileUrl(file.fileId);
+      media.push({ url, type: file.kind, filename: file.filename });
+    } catch (error) {
+      errors.push({ url: file.filename, error: error instanceof Error ? error.message : "Failed to resolve Telegram file" });
+    }
+  }
+  return { media, errors };
+}
+
+async function handleIntakeMessage(telegram: TelegramIntegrationService, message: TelegramIncomingMessage) {
+  const admin = createSupabaseAdminClient();
+  const { data, error } = await admin.rpc("telegram_claim_intake_session", {
+    p_chat_id: message.chatId,
+    p_text: message.text,
+    p_window_seconds: TELEGRAM_GROUP_WINDOW_SECONDS,
+    p_media_group_id: message.mediaGroupId,
+    p_meta: {
+      integration_source: "telegram",
+      external_id: `${message.chatId}:${message.messageId}`,
+      contact: { name: message.senderName },
+      metadata: { chat_id: message.chatId, chat_type: message.chatType, username: message.username }
+    }
+  });
+  if (error) throw new Error(error.message);
+  const claim = (Array.isArray(data) ? data[0] : data) as { session_id: string; created: boolean; same_media_group: boolean } | null;
+  if (!claim?.session_id) throw new Error("Unable to open intake session");
+
+  await admin
+    .from("telegram_chats")
+    .update({ chat_type: message.chatType, title: message.chatTitle, username: message.username })
+    .eq("chat_id", message.chatId);
+
+  const resolved = await downloadableMedia(telegram, message);
+  const imported = await importIntakeMedia(admin, claim.session_id, resolved.media);
+  const mediaErrors = [...resolved.errors, ...imported.errors];
+
+  const { data: session } = await admin.from("intake_sessions").select("raw_text,type_detected").eq("id", claim.session_id).maybeSingle();
+  let detectedType = String(session?.type_detected || "");
+  if (message.text && session?.raw_text) {
+    try {
+      detectedType = (await detectTypeAndLanguage(String(session.raw_text))).detected_type;
+      await admin.from("intake_sessions").update({ type_detected: detectedType }).eq("id", claim.session_id);
+    } catch {
+      // Detection is a hint for the reply; the inbox runs full classification on review.
+    }
+  }
+
+  if (claim.created) {
+    await writeAuditLog({
+      user_id: null,
+      action: "integration_intake_create",
+      record_type: "intake_sessions",
+      record_id: claim.session_id,
+      after_json: { source: "telegram", chat_id: message.chatId, media_imported: imported.imported },
+      source: "telegram"
+    }).catch(() => null);
+  }
+
+  // One reply per album: later photos of the same media group only add files.
+  if (claim.same_media_group && !message.text && mediaErrors.length === 0) return null;
+  return formatIntakeReply({
+    created: claim.created,
+    detectedType,
+    inboxUrl: `${getAppBaseUrl()}/inbox/${claim.session_id}`,
+    mediaImported: imported.imported,
+    mediaErrors: mediaErrors.length
+  });
+}
+
+/** Handles one webhook update: bot commands, otherwise text/media turned into (grouped) intake sessions. */
+export async function handleTelegramUpdate(update: unknown, telegram = new TelegramIntegrationService()) {
+  const message = parseTelegramUpdate(update);
+  if (!message) return { handled: false as const };
+  if (!message.command && !message.text && message.files.length === 0) return { handled: false as const };
+
+  const reply = message.command ? await handleCommand(message, message.command) : await handleIntakeMessage(telegram, message);
+  if (reply) await telegram.sendMessage(message.chatId, reply, { replyToMessageId: message.messageId });
+  return { handled: true as const };
+}
+
+/** Issues a short-lived code the user sends to the bot (`/start <code>` via deep link, or `/link <code>`). */
+export async function createTelegramLinkCode(userId: string) {
+  const code = randomBytes(5).toString("hex").toUpperCase();
+  const expiresAt = new Date(Date.now() + LINK_CODE_TTL_MINUTES * 60_000).toISOString();
+  const admin = createSupabaseAdminClient();
+  const { error } = await admin
+    .from("telegram_user_links")
+    .upsert({ user_id: userId, link_code: code, link_code_expires_at: expiresAt }, { onConflict: "user_id" });
+  if (error) throw new Error(error.message);
+  const botUsername = new TelegramIntegrationService().botUsername;
+  return { code, expiresAt, deepLink: botUsername ? `https://t.me/${botUsername}?start=${code}` : null };
+}
+
+export async function fetchTelegramLink(userId: string) {
+  const admin = createSupabaseAdminClient();
+  const { data, error } = await admin.from("telegram_user_links").select("chat_id,linked_at").eq("user_id", userId).maybeSingle();
+  if (error) throw new Error(error.message);
+  const telegram = new TelegramIntegrationService();
+  return { configured: telegram.configured, botUsername: telegram.botUsername, linked: Boolean(data?.chat_id), linkedAt: data?.linked_at ? String(data.linked_at) : null };
+}
+
+export async function unlinkTelegram(userId: string) {
+  const admin = createSupabaseAdminClient();
+  const { error } = await admin.from("telegram_user_links").update({ chat_id: null, linked_at: null, link_code: null, link_code_expires_at: null }).eq("user_id", userId);
+  if (error) throw new Error(error.message);
+}
+
+/** Sends one Telegram reminder per open task due within the lead time to assignees who linked a chat. */
+export async function sendTelegramTaskReminders(now = new Date(), telegram = new TelegramIntegrationService()) {
+  if (!telegram.configured) return { checked: 0, sent: 0, failed: 0 };
+  const admin = createSupabaseAdminClient();
+  const { data: tasks, error } = await admin
+    .from("tasks")
+    .select("id,title,due_date,related_type,related_id,assigned_to")
+    .eq("status", "open")
+    .is("telegram_reminded_at", null)
+    .not("assigned_to", "is", null)
+    .lte("due_date", new Date(now.getTime() + REMINDER_LEAD_MINUTES * 60_000).toISOString())
+    .gte("due_date", new Date(now.getTime() - REMINDER_LOOKBACK_HOURS * 3_600_000).toISOString())
+    .order("due_date", { ascending: true })
+    .limit(200);
+  if (error) throw new Error(error.message);
+  if (!tasks?.length) return { checked: 0, sent: 0, failed: 0 };
+
+  const assigneeIds = Array.from(new Set(tasks.map((task) => String(task.assigned_to))));
+  const { data: links, error: linkError } = await admin.from("telegram_user_links").select("user_id,chat_id").in("user_id", assigneeIds).not("chat_id", "is", null);
+  if (linkError) throw new Error(linkError.message);
+  const chatByUser = new Map((links || []).map((link) => [String(link.user_id), String(link.chat_id)]));
+
+  let sent = 0;
+  let failed = 0;
+  for (const task of tasks) {
+    const chatId = chatByUser.get(String(task.assigned_to));
+    if (!chatId) continue;
+    const due = new Date(String(task.due_date));
+    const path = task.related_type === "contact" ? `/contacts/${task.related_id}` : `${RECORD_PATH_BY_TASK_TYPE[String(task.related_type)] || "/tasks"}?open=${task.related_id}`;
+    const overdue = due.getTime() < now.getTime();
+    const text = `${overdue ? "Overdue" : "Due soon"}: ${task.title}\nDue ${due.toUTCString()}\n${getAppBaseUrl()}${path}`;
+    try {
+      await telegram.sendMessage(chatId, text);
+      const { error: stampError } = await admin.from("tasks").update({ telegram_reminded_at: now.toISOString() }).eq("id", task.id);
+      if (stampError) throw new Error(stampError.message);
+      sent += 1;
+    } catch {
+      failed += 1;
+    }
+  }
+  return { checked: tasks.length, sent, failed };
+}
@@ -0,0 +1,23 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { TelegramIntegrationService } from "@/services/integrations/telegram.service";
+
+test("webhook secret must match exactly and fails closed without one", () => {
+  const telegram = new TelegramIntegrationService({ botToken: "1:a", apiBaseUrl: "http://telegram.test", webhookSecret: "s3cret" });
+  assert.equal(telegram.verifyWebhookSecret("s3cret"), true);
+  assert.equal(telegram.verifyWebhookSecret("s3cret2"), false);
+  assert.equal(telegram.verifyWebhookSecret(null), false);
+  assert.equal(new TelegramIntegrationService({ botToken: "1:a", apiBaseUrl: "http://telegram.test" }).verifyWebhookSecret("s3cret"), false);
+});
+
+test("file ids resolve to Bot API download URLs", async () => {
+  const calls: string[] = [];
+  const fetchMock = (async (url: string | URL | Request) => {
+    calls.push(String(url));
+    return new Response(JSON.stringify({ ok: true, result: { file_path: "photos/file_1.jpg", file_size: 1234 } }), { headers: { "Content-Type": "application/json" } });
+  }) as typeof fetch;
+  const telegram = new TelegramIntegrationService({ botToken: "1:a", apiBaseUrl: "http://telegram.test" }, fetchMock);
+
+  assert.deepEqual(await telegram.getFileUrl("abc"), { url: "http://telegram.test/file/bot1:a/photos/file_1.jpg", size: 1234 });
+  assert.deepEqual(calls, ["http://telegram.test/bot1:a/getFile"]);
+});
@@ -1,5 +1,82 @@
+import { timingSafeEqual } from "node:crypto";
+import { getTelegramConfig } from "@/lib/env";
+
+type TelegramConfig = { botToken: string; apiBaseUrl: string; webhookSecret?: string | null; botUsername?: string | null };
+
+export type TelegramNotifyResult =
+  | { status: "sent"; messageId: number | null }
+  | { status: "not_configured" }
+  | { status: "failed"; error: string };
+
+type TelegramApiResponse<T> = { ok?: boolean; description?: string; result?: T };
+
+// Telegram rejects messages longer than 4096 characters.
+const TELEGRAM_MESSAGE_LIMIT = 4096;
+
 export class TelegramIntegrationService {
-  async notify(_message: string) {
-    return { status: "not_implemented" as const };
+  constructor(
+    private readonly config: TelegramConfig | null = getTelegramConfig(),
+    private readonly fetchImpl: typeof fetch = fetch
+  ) {}
+
+  get configured() {
+    return Boolean(this.config);
+  }
+
+  get botUsername() {
+    return this.config?.botUsername || null;
+  }
+
+  /**
+   * Checks the `X-Telegram-Bot-Api-Secret-Token` header Telegram sends with every webhook call
+   * (set via `setWebhook` `secret_token`). Fails closed when no secret is configured.
+   */
+  verifyWebhookSecret(headerValue: string | null) {
+    const expected = this.config?.webhookSecret;
+    if (!expected || !headerValue) return false;
+    const a = Buffer.from(expected, "utf8");
+    const b = Buffer.from(headerValue, "utf8");
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+
+  private async call<T>(method: string, body: Record<string, unknown>): Promise<T> {
+    if (!this.config) throw new Error("Telegram bot is not configured");
+    const response = await this.fetchImpl(`${this.config.apiBaseUrl}/bot${this.config.botToken}/${method}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body)
+    });
+    const data = (await response.json().catch(() => ({}))) as TelegramApiResponse<T>;
+    if (!response.ok || !data.ok) throw new Error(data.description || `Telegram API responded with ${response.status}`);
+    return data.result as T;
+  }
+
+  async sendMessage(chatId: string | number, message: string, options: { replyToMessageId?: number } = {}) {
+    const text = message.length > TELEGRAM_MESSAGE_LIMIT ? `${message.slice(0, TELEGRAM_MESSAGE_LIMIT - 1)}…` : message;
+    const result = await this.call<{ message_id?: number }>("sendMessage", {
+      chat_id: chatId,
+      text,
+      disable_web_page_preview: true,
+      ...(options.replyToMessageId ? { reply_parameters: { message_id: options.replyToMessageId, allow_sending_without_reply: true } } : {})
+    });
+    return { messageId: result?.message_id ?? null };
+  }
+
+  /** Resolves a `file_id` to a download URL (Bot API downloads are capped at 20 MB). */
+  async getFileUrl(fileId: string) {
+    const file = await this.call<{ file_path?: string; file_size?: number }>("getFile", { file_id: fileId });
+    if (!file?.file_path || !this.config) throw new Error("Telegram did not return a file path");
+    return { url: `${this.config.apiBaseUrl}/file/bot${this.config.botToken}/${file.file_path}`, size: file.file_size ?? null };
+  }
+
+  /** Sends a plain-text message to a chat through the Bot API (`TELEGRAM_API_BASE_URL` can point at a mock). */
+  async notify(message: string, options: { chatId: string }): Promise<TelegramNotifyResult> {
+    if (!this.config) return { status: "not_configured" };
+    try {
+      const { messageId } = await this.sendMessage(options.chatId, message);
+      return { status: "sent", messageId };
+    } catch (error) {
+      return { status: "failed", error: error instanceof Error ? error.message : "Telegram request failed" };
+    }
   }
 }
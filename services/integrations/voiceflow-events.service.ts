@@ -0,0 +1,75 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createSupabaseAdminClient } from "@/lib/supabase/admin";
+import { nextVoiceflowRetryAt, type VoiceflowEventName } from "@/lib/voiceflow";
+import { VoiceflowIntegrationService } from "@/services/integrations/voiceflow.service";
+
+type DeliveryRow = { id: string; event: VoiceflowEventName; payload: Record<string, unknown>; attempts: number };
+
+const RETRY_BATCH_SIZE = 50;
+
+async function attemptDelivery(admin: SupabaseClient, voiceflow: VoiceflowIntegrationService, row: DeliveryRow, now: Date) {
+  const result = await voiceflow.sendEvent(row.event, row.payload);
+  const attempts = row.attempts + 1;
+  let update: Record<string, unknown> & { status: "sent" | "failed" | "dead" };
+  if (result.status === "sent") {
+    update = { status: "sent", attempts, response_status: result.httpStatus, last_error: null, next_attempt_at: null, sent_at: now.toISOString() };
+  } else {
+    const nextAttempt = nextVoiceflowRetryAt(attempts, now);
+    update = {
+      status: nextAttempt ? "failed" : "dead",
+      attempts,
+      response_status: result.status === "failed" ? result.httpStatus : null,
+      last_error: result.status === "failed" ? result.error : "Voiceflow is not configured",
+      next_attempt_at: nextAttempt?.toISOString() ?? null
+    };
+  }
+  const { error } = await admin.from("voiceflow_event_deliveries").update(update).eq("id", row.id);
+  if (error) throw new Error(error.message);
+  return update.status;
+}
+
+/**
+ * Logs an outbound event and tries it once right away; failures are left for `retryVoiceflowDeliveries`.
+ * Never throws: callers emit after their own write has succeeded and must not fail because of Voiceflow.
+ */
+export async function emitVoiceflowEvent(event: VoiceflowEventName, data: Record<string, unknown>) {
+  const voiceflow = new VoiceflowIntegrationService();
+  if (!voiceflow.configured) return null;
+  try {
+    const admin = createSupabaseAdminClient();
+    const payload = { occurred_at: new Date().toISOString(), data };
+    const { data: row, error } = await admin
+      .from("voiceflow_event_deliveries")
+      .insert({ event, payload, status: "pending" })
+      .select("id,event,payload,attempts")
+      .single();
+    if (error || !row) throw new Error(error?.message || "Failed to log Voiceflow event");
+    return await attemptDelivery(admin, voiceflow, row as DeliveryRow, new Date());
+  } catch (error) {
+    console.error("[voiceflow] failed to emit event", { event, error: error instanceof Error ? error.message : String(error) });
+    return null;
+  }
+}
+
+/** Re-sends failed deliveries whose backoff has elapsed; called by a scheduler. */
+export async function retryVoiceflowDeliveries(now = new Date(), voiceflow = new VoiceflowIntegrationService()) {
+  if (!voiceflow.configured) return { retried: 0, sent: 0, dead: 0 };
+  const admin = createSupabaseAdminClient();
+  const { data, error } = await admin
+    .from("voiceflow_event_deliveries")
+    .select("id,event,payload,attempts")
+    .eq("status", "failed")
+    .lte("next_attempt_at", now.toISOString())
+    .order("next_attempt_at", { ascending: true })
+    .limit(RETRY_BATCH_SIZE);
+  if (error) throw new Error(error.message);
+
+  let sent = 0;
+  let dead = 0;
+  for (const row of (data || []) as DeliveryRow[]) {
+    const status = await attemptDelivery(admin, voiceflow, row, now);
+    if (status === "sent") sent += 1;
+    if (status === "dead") dead += 1;
+  }
+  return { retried: (data || []).length, sent, dead };
+}
@@ -0,0 +1,66 @@
+import { createSupabaseAdminClient } from "@/lib/supabase/admin";
+import { voiceflowTranscriptToText } from "@/lib/voiceflow";
+import { writeAuditLog } from "@/services/audit/audit-log.service";
+import { resolveContactId } from "@/services/contacts/contact-linking.service";
+import type { VoiceflowTranscriptPayload } from "@/services/integrations/voiceflow.schemas";
+
+/**
+ * Turns a finished Voiceflow conversation into a draft intake session. The caller is resolved to a contact
+ * up front (by phone) so the inbox shows who called; a repeated conversation id returns the existing session.
+ * Voiceflow calls in with an API key and no session, so reads and writes go through the admin client.
+ */
+export async function createVoiceflowIntake(payload: VoiceflowTranscriptPayload) {
+  const rawText = voiceflowTranscriptToText(payload.transcript);
+  if (!rawText) throw new Error("transcript is empty");
+
+  const admin = createSupabaseAdminClient();
+  const externalId = payload.conversation_id || "";
+  if (externalId) {
+    const { data: existing, error } = await admin
+      .from("intake_sessions")
+      .select("id,ai_meta")
+      .eq("ai_meta->>integration_source", "voiceflow")
+      .eq("ai_meta->>external_id", externalId)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    if (existing) {
+      const meta = (existing.ai_meta || {}) as Record<string, unknown>;
+      return { intakeSessionId: String(existing.id), contactId: meta.contact_id ? String(meta.contact_id) : null, duplicate: true };
+    }
+  }
+
+  const contactId = await resolveContactId(admin, { name: payload.caller_name, phone: payload.caller_phone });
+
+  const { data: session, error: sessionError } = await admin
+    .from("intake_sessions")
+    .insert({
+      raw_text: rawText,
+      status: "draft",
+      type_detected: "",
+      type_confirmed: payload.suggested_type || "",
+      ai_json: {},
+      ai_meta: {
+        integration_source: "voiceflow",
+        external_id: externalId || null,
+        voiceflow_user_id: payload.user_id || null,
+        contact: { name: payload.caller_name || "", phone: payload.caller_phone || "" },
+        contact_id: contactId,
+        metadata: payload.metadata || {}
+      },
+      completeness_score: 0
+    })
+    .select("id")
+    .single();
+  if (sessionError || !session) throw new Error(sessionError?.message || "Unable to create intake session");
+
+  await writeAuditLog({
+    user_id: null,
+    action: "integration_intake_create",
+    record_type: "intake_sessions",
+    record_id: session.id,
+    after_json: { source: "voiceflow", contact_id: contactId, conversation_id: externalId || null },
+    source: "voiceflow"
+  }).catch(() => null);
+
+  return { intakeSessionId: String(session.id), contactId, duplicate: false };
+}
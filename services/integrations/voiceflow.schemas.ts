@@ -0,0 +1,20 @@
+import { z } from "zod";
+
+const turnSchema = z.object({
+  role: z.string().max(40).optional(),
+  speaker: z.string().max(40).optional(),
+  text: z.string().max(20_000).optional(),
+  message: z.string().max(20_000).optional()
+});
+
+export const voiceflowTranscriptSchema = z.object({
+  transcript: z.union([z.string().max(100_000), z.array(turnSchema).max(500)]),
+  caller_phone: z.string().trim().max(40).optional(),
+  caller_name: z.string().trim().max(120).optional(),
+  user_id: z.string().trim().max(200).optional(),
+  conversation_id: z.string().trim().max(200).optional(),
+  suggested_type: z.enum(["sale", "rent", "buyer", "client", "other", ""]).optional(),
+  metadata: z.record(z.string(), z.unknown()).optional()
+});
+
+export type VoiceflowTranscriptPayload = z.infer<typeof voiceflowTranscriptSchema>;
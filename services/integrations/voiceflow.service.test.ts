@@ -0,0 +1,22 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { VoiceflowIntegrationService } from "@/services/integrations/voiceflow.service";
+
+test("voiceflow events post JSON with the API key and treat non-2xx as failures", async () => {
+  const requests: Array<{ url: string; init?: RequestInit }> = [];
+  let status = 200;
+  const fetchMock = (async (url: string | URL | Request, init?: RequestInit) => {
+    requests.push({ url: String(url), init });
+    return new Response(status === 200 ? "{}" : "upstream down", { status });
+  }) as typeof fetch;
+  const voiceflow = new VoiceflowIntegrationService({ eventsUrl: "https://voiceflow.test/events", apiKey: "VF.DM.key" }, fetchMock);
+
+  assert.deepEqual(await voiceflow.sendEvent("intake.confirmed", { data: { record_id: "r1" } }), { status: "sent", httpStatus: 200 });
+  assert.equal(requests[0].url, "https://voiceflow.test/events");
+  assert.equal((requests[0].init?.headers as Record<string, string>).Authorization, "VF.DM.key");
+  assert.deepEqual(JSON.parse(String(requests[0].init?.body)), { event: "intake.confirmed", data: { record_id: "r1" } });
+
+  status = 503;
+  assert.deepEqual(await voiceflow.sendEvent("task.assigned", {}), { status: "failed", httpStatus: 503, error: "upstream down" });
+  assert.deepEqual(await new VoiceflowIntegrationService(null).sendEvent("record.archived", {}), { status: "not_configured" });
+});
@@ -1,5 +1,48 @@
+import { getVoiceflowConfig } from "@/lib/env";
+import type { VoiceflowEventName } from "@/lib/voiceflow";
+
+type VoiceflowConfig = { eventsUrl: string; apiKey: string | null };
+
+export type VoiceflowSendResult =
+  | { status: "sent"; httpStatus: number }
+  | { status: "not_configured" }
+  | { status: "failed"; httpStatus: number | null; error: string };
+
+const VOICEFLOW_TIMEOUT_MS = 10_000;
+
 export class VoiceflowIntegrationService {
-  async sendEvent(_event: string, _payload: Record<string, unknown>) {
-    return { status: "not_implemented" as const };
+  constructor(
+    private readonly config: VoiceflowConfig | null = getVoiceflowConfig(),
+    private readonly fetchImpl: typeof fetch = fetch
+  ) {}
+
+  get configured() {
+    return Boolean(this.config);
+  }
+
+  /** Posts one event to `VOICEFLOW_EVENTS_URL`; a non-2xx answer counts as a failure so it can be retried. */
+  async sendEvent(event: VoiceflowEventName, payload: Record<string, unknown>): Promise<VoiceflowSendResult> {
+    if (!this.config) return { status: "not_configured" };
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), VOICEFLOW_TIMEOUT_MS);
+    try {
+      const response = await this.fetchImpl(this.config.eventsUrl, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(this.config.apiKey ? { Authorization: this.config.apiKey } : {})
+        },
+        body: JSON.stringify({ event, ...payload }),
+        signal: controller.signal
+      });
+      if (response.ok) return { status: "sent", httpStatus: response.status };
+      const body = await response.text().catch(() => "");
+      return { status: "failed", httpStatus: response.status, error: body.slice(0, 500) || `Voiceflow responded with ${response.status}` };
+    } catch (error) {
+      return { status: "failed", httpStatus: null, error: error instanceof Error ? error.message : "Voiceflow request failed" };
+    } finally {
+      clearTimeout(timeout);
+    }
   }
 }
@@ -0,0 +1,154 @@
+import { createSupabaseAdminClient } from "@/lib/supabase/admin";
+import { parseWhatsAppWebhook, type WhatsAppIncomingMessage } from "@/lib/whatsapp";
+import { writeAuditLog } from "@/services/audit/audit-log.service";
+import { fetchContactChannels } from "@/services/contacts/contact-channels.service";
+import { resolveContactId } from "@/services/contacts/contact-linking.service";
+import { MAX_MEDIA_BYTES, importIntakeMedia, type IncomingMedia } from "@/services/intake/intake-media.service";
+import { createTimelineEvent } from "@/services/intake/confirm-intake.service";
+import type { SendWhatsAppTemplatePayload } from "@/services/integrations/whatsapp.schemas";
+import { WhatsAppIntegrationService } from "@/services/integrations/whatsapp.service";
+import { createSupabaseClient } from "@/services/supabase/client";
+
+const RECORD_TABLE_BY_TYPE: Record<SendWhatsAppTemplatePayload["type"], string> = {
+  sale: "properties_sale",
+  rent: "properties_rent",
+  buyer: "buyers",
+  client: "clients"
+};
+
+const UNIQUE_VIOLATION = "23505";
+
+async function downloadableMedia(whatsapp: WhatsAppIntegrationService, message: WhatsAppIncomingMessage) {
+  const media: IncomingMedia[] = [];
+  const errors: Array<{ url: string; error: string }> = [];
+  for (const file of message.files) {
+    try {
+      const resolved = await whatsapp.getMedia(file.mediaId);
+      if (resolved.size && resolved.size > MAX_MEDIA_BYTES) {
+        errors.push({ url: file.filename, error: "Media exceeds allowed size" });
+        continue;
+      }
+      media.push({ url: resolved.url, type: file.kind, filename: file.filename, headers: whatsapp.mediaHeaders });
+    } catch (error) {
+      errors.push({ url: file.filename, error: error instanceof Error ? error.message : "Failed to resolve WhatsApp media" });
+    }
+  }
+  return { media, errors };
+}
+
+async function createIntakeFromMessage(whatsapp: WhatsAppIntegrationService, message: WhatsAppIncomingMessage) {
+  const admin = createSupabaseAdminClient();
+  const { data: existing, error: existingError } = await admin
+    .from("intake_sessions")
+    .select("id")
+    .eq("ai_meta->>integration_source", "whatsapp")
+    .eq("ai_meta->>external_id", message.messageId)
+    .maybeSingle();
+  if (existingError) throw new Error(existingError.message);
+  if (existing) return { intakeSessionId: String(existing.id), duplicate: true };
+
+  const phone = `+${message.from.replace(/^\+/, "")}`;
+  const contactId = await resolveContactId(admin, { name: message.senderName, whatsapp: phone });
+
+  const { data: session, error: sessionError } = await admin
+    .from("intake_sessions")
+    .insert({
+      raw_text: message.text,
+      status: "draft",
+      type_detected: "",
+      type_confirmed: "",
+      ai_json: {},
+      ai_meta: {
+        integration_source: "whatsapp",
+        external_id: message.messageId,
+        contact: { name: message.senderName, phone, whatsapp: phone },
+        contact_id: contactId,
+        metadata: { phone_number_id: message.phoneNumberId, sent_at: message.timestamp }
+      },
+      completeness_score: 0
+    })
+    .select("id")
+    .single();
+  // Meta retries deliveries; a concurrent retry may win the insert, which the unique index turns into a duplicate.
+  if (sessionError?.code === UNIQUE_VIOLATION) return { intakeSessionId: null, duplicate: true };
+  if (sessionError || !session) throw new Error(sessionError?.message || "Unable to create intake session");
+
+  const resolved = await downloadableMedia(whatsapp, message);
+  const imported = await importIntakeMedia(admin, String(session.id), resolved.media);
+  const mediaErrors = [...resolved.errors, ...imported.errors];
+  if (mediaErrors.length) {
+    console.error("[whatsapp] media import failed", { intakeSessionId: session.id, messageId: message.messageId, errors: mediaErrors });
+  }
+
+  await writeAuditLog({
+    user_id: null,
+    action: "integration_intake_create",
+    record_type: "intake_sessions",
+    record_id: session.id,
+    after_json: { source: "whatsapp", message_id: message.messageId, contact_id: contactId, media_imported: imported.imported },
+    source: "whatsapp"
+  }).catch(() => null);
+
+  return { intakeSessionId: String(session.id), duplicate: false };
+}
+
+/** Turns every inbound message in a verified webhook payload into a draft intake session (one per message id). */
+export async function handleWhatsAppWebhook(payload: unknown, whatsapp = new WhatsAppIntegrationService()) {
+  const messages = parseWhatsAppWebhook(payload);
+  let created = 0;
+  let duplicates = 0;
+  for (const message of messages) {
+    const result = await createIntakeFromMessage(whatsapp, message);
+    if (result.duplicate) duplicates += 1;
+    else created += 1;
+  }
+  return { received: messages.length, created, duplicates };
+}
+
+async function resolveRecipient(contactId: string) {
+  const channels = await fetchContactChannels([contactId]);
+  const preferred =
+    channels.find((channel) => channel.type === "whatsapp" && channel.is_primary) ||
+    channels.find((channel) => channel.type === "whatsapp") ||
+    channels.find((channel) => channel.type === "phone" && channel.is_primary) ||
+    channels.find((channel) => channel.type === "phone");
+  return preferred?.normalized_value || "";
+}
+
+/** Sends an approved template to the contact linked to a grid record and notes it on the record timeline. */
+export async function sendWhatsAppTemplateToRecord(input: SendWhatsAppTemplatePayload, actorUserId: string | null, whatsapp = new WhatsAppIntegrationService()) {
+  if (!whatsapp.canSend) throw new Error("WhatsApp is not configured");
+
+  const table = RECORD_TABLE_BY_TYPE[input.type];
+  const supabase = createSupabaseClient();
+  const { data: record, error } = await supabase.from(table).select("id,is_archived,contact_id").eq("id", input.record_id).maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!record) throw new Error("Record not found");
+  if (record.is_archived) throw new Error("Archived records are read-only. Unarchive first.");
+  if (!record.contact_id) throw new Error("Record has no linked contact");
+
+  const contactId = String(record.contact_id);
+  const to = await resolveRecipient(contactId);
+  if (!to) throw new Error("Linked contact has no WhatsApp or phone number");
+
+  const { messageId } = await whatsapp.sendTemplate({
+    to,
+    name: input.template_name,
+    languageCode: input.language_code,
+    bodyParameters: input.body_parameters
+  });
+
+  const details = { contact_id: contactId, to, template: input.template_name, language: input.language_code, message_id: messageId };
+  // The message is already out; a failed timeline/audit write must not report the send as failed.
+  await createTimelineEvent(table, input.record_id, "WhatsApp template sent", details).catch(() => null);
+  await writeAuditLog({
+    user_id: actorUserId,
+    action: "whatsapp_template_send",
+    record_type: table,
+    record_id: input.record_id,
+    after_json: details,
+    source: "whatsapp"
+  }).catch(() => null);
+
+  return { messageId, to };
+}
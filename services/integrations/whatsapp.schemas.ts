@@ -0,0 +1,12 @@
+import { z } from "zod";
+
+export const sendWhatsAppTemplateSchema = z.object({
+  type: z.enum(["sale", "rent", "buyer", "client"]),
+  record_id: z.string().uuid(),
+  // Template names are lowercase with underscores in WhatsApp Manager.
+  template_name: z.string().trim().min(1).max(512).regex(/^[a-z0-9_]+$/, "Use the template name as shown in WhatsApp Manager"),
+  language_code: z.string().trim().min(2).max(15).default("en"),
+  body_parameters: z.array(z.string().trim().min(1).max(1024)).max(20).default([])
+});
+
+export type SendWhatsAppTemplatePayload = z.infer<typeof sendWhatsAppTemplateSchema>;
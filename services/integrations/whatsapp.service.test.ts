@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import { createHmac } from "node:crypto";
+import { createServer, type IncomingMessage } from "node:http";
+import type { AddressInfo } from "node:net";
+import test from "node:test";
+import { fetchRemoteMedia } from "@/services/intake/intake-media.service";
+import { WhatsAppIntegrationService } from "@/services/integrations/whatsapp.service";
+
+const baseConfig = { accessToken: "token-1", phoneNumberId: "PNID", apiBaseUrl: "http://whatsapp.test", verifyToken: "verify-me", appSecret: "app-secret" };
+
+function readBody(request: IncomingMessage) {
+  return new Promise<string>((resolve) => {
+    let body = "";
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => resolve(body));
+  });
+}
+
+test("webhook handshake and payload signatures are checked against the configured secrets", () => {
+  const whatsapp = new WhatsAppIntegrationService(baseConfig);
+  assert.equal(whatsapp.verifySubscription("subscribe", "verify-me"), true);
+  assert.equal(whatsapp.verifySubscription("subscribe", "wrong"), false);
+  assert.equal(whatsapp.verifySubscription("unsubscribe", "verify-me"), false);
+
+  const body = JSON.stringify({ object: "whatsapp_business_account", entry: [] });
+  const signature = `sha256=${createHmac("sha256", "app-secret").update(body).digest("hex")}`;
+  assert.equal(whatsapp.verifySignature(body, signature), true);
+  assert.equal(whatsapp.verifySignature(`${body} `, signature), false);
+  assert.equal(whatsapp.verifySignature(body, null), false);
+  assert.equal(new WhatsAppIntegrationService({ ...baseConfig, appSecret: null }).verifySignature(body, signature), false);
+});
+
+test("media download and template sends work against a local Graph API stub", async () => {
+  const requests: Array<{ method: string; url: string; authorization: string; body: string }> = [];
+  const server = createServer(async (request, response) => {
+    const body = await readBody(request);
+    requests.push({ method: String(request.method), url: String(request.url), authorization: String(request.headers.authorization || ""), body });
+    const { port } = server.address() as AddressInfo;
+
+    if (request.headers.authorization !== "Bearer token-1") {
+      response.writeHead(401, { "Content-Type": "application/json" }).end(JSON.stringify({ error: { message: "Invalid OAuth access token" } }));
+    } else if (request.url === "/MEDIA1") {
+      response.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify({ url: `http://127.0.0.1:${port}/download/MEDIA1`, mime_type: "image/jpeg", file_size: 4 }));
+    } else if (request.url === "/download/MEDIA1") {
+      response.writeHead(200, { "Content-Type": "image/jpeg" }).end(Buffer.from([1, 2, 3, 4]));
+    } else if (request.url === "/PNID/messages") {
+      response.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify({ messaging_product: "whatsapp", messages: [{ id: "wamid.OUT1" }] }));
+    } else {
+      response.writeHead(404, { "Content-Type": "application/json" }).end(JSON.stringify({ error: { message: "Unknown path" } }));
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  try {
+    const whatsapp = new WhatsAppIntegrationService({ ...baseConfig, apiBaseUrl: `http://127.0.0.1:${port}` });
+
+    const media = await whatsapp.getMedia("MEDIA1");
+    assert.deepEqual(media, { url: `http://127.0.0.1:${port}/download/MEDIA1`, mimeType: "image/jpeg", size: 4 });
+    const downloaded = await fetchRemoteMedia(media.url, whatsapp.mediaHeaders);
+    assert.equal(downloaded.size, 4);
+    assert.equal(downloaded.contentType, "image/jpeg");
+
+    const sent = await whatsapp.sendTemplate({ to: "+201001234567", name: "viewing_reminder", languageCode: "en", bodyParameters: ["Mona"] });
+    assert.deepEqual(sent, { messageId: "wamid.OUT1" });
+    assert.deepEqual(JSON.parse(requests[requests.length - 1].body), {
+      messaging_product: "whatsapp",
+      recipient_type: "individual",
+      to: "201001234567",
+      type: "template",
+      template: { name: "viewing_reminder", language: { code: "en" }, components: [{ type: "body", parameters: [{ type: "text", text: "Mona" }] }] }
+    });
+
+    const unauthorized = new WhatsAppIntegrationService({ ...baseConfig, accessToken: "expired", apiBaseUrl: `http://127.0.0.1:${port}` });
+    await assert.rejects(unauthorized.getMedia("MEDIA1"), /Invalid OAuth access token/);
+  } finally {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+});
@@ -0,0 +1,92 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { getWhatsAppConfig } from "@/lib/env";
+import { buildWhatsAppTemplate } from "@/lib/whatsapp";
+
+type WhatsAppConfig = {
+  accessToken: string;
+  phoneNumberId: string | null;
+  apiBaseUrl: string;
+  verifyToken: string | null;
+  appSecret: string | null;
+};
+
+type GraphErrorResponse = { error?: { message?: string } };
+
+function safeEqual(expected: string, actual: string) {
+  const a = Buffer.from(expected, "utf8");
+  const b = Buffer.from(actual, "utf8");
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+export class WhatsAppIntegrationService {
+  constructor(
+    private readonly config: WhatsAppConfig | null = getWhatsAppConfig(),
+    private readonly fetchImpl: typeof fetch = fetch
+  ) {}
+
+  get configured() {
+    return Boolean(this.config);
+  }
+
+  get canSend() {
+    return Boolean(this.config?.phoneNumberId);
+  }
+
+  /** Answers Meta's subscription handshake (`hub.mode=subscribe` with the configured verify token). */
+  verifySubscription(mode: string | null, token: string | null) {
+    const expected = this.config?.verifyToken;
+    if (mode !== "subscribe" || !expected || !token) return false;
+    return safeEqual(expected, token);
+  }
+
+  /**
+   * Checks the `X-Hub-Signature-256` header: an HMAC-SHA256 of the raw request body keyed with the app secret.
+   * Fails closed when no app secret is configured.
+   */
+  verifySignature(rawBody: string, headerValue: string | null) {
+    const secret = this.config?.appSecret;
+    if (!secret || !headerValue) return false;
+    const expected = `sha256=${createHmac("sha256", secret).update(rawBody, "utf8").digest("hex")}`;
+    return safeEqual(expected, headerValue.trim().toLowerCase());
+  }
+
+  /** Headers media downloads need; Cloud API media URLs only serve requests carrying the access token. */
+  get mediaHeaders(): Record<string, string> {
+    return this.config ? { Authorization: `Bearer ${this.config.accessToken}` } : {};
+  }
+
+  private async call<T>(path: string, init: { method: "GET" | "POST"; body?: Record<string, unknown> }): Promise<T> {
+    if (!this.config) throw new Error("WhatsApp is not configured");
+    const response = await this.fetchImpl(`${this.config.apiBaseUrl}/${path}`, {
+      method: init.method,
+      headers: { ...this.mediaHeaders, ...(init.body ? { "Content-Type": "application/json" } : {}) },
+      body: init.body ? JSON.stringify(init.body) : undefined
+    });
+    const data = (await response.json().catch(() => ({}))) as T & GraphErrorResponse;
+    if (!response.ok) throw new Error(data.error?.message || `WhatsApp API responded with ${response.status}`);
+    return data;
+  }
+
+  /** Resolves a media id from a webhook to its short-lived download URL. */
+  async getMedia(mediaId: string) {
+    const media = await this.call<{ url?: string; mime_type?: string; file_size?: number }>(encodeURIComponent(mediaId), { method: "GET" });
+    if (!media.url) throw new Error("WhatsApp did not return a media URL");
+    return { url: media.url, mimeType: media.mime_type || "", size: media.file_size ?? null };
+  }
+
+  /** Sends an approved message template; free-form text is only allowed inside the 24h customer service window. */
+  async sendTemplate(input: { to: string; name: string; languageCode: string; bodyParameters?: string[] }) {
+    if (!this.config?.phoneNumberId) throw new Error("WhatsApp sender phone number is not configured");
+    const result = await this.call<{ messages?: Array<{ id?: string }> }>(`${encodeURIComponent(this.config.phoneNumberId)}/messages`, {
+      method: "POST",
+      body: {
+        messaging_product: "whatsapp",
+        recipient_type: "individual",
+        to: input.to.replace(/^\+/, ""),
+        type: "template",
+        template: buildWhatsAppTemplate(input)
+      }
+    });
+    return { messageId: result.messages?.[0]?.id ?? null };
+  }
+}
@@ -0,0 +1,239 @@
+import "server-only";
+import type { AppRole } from "@/services/auth/role.service";
+import { createSupabaseClient } from "@/services/supabase/client";
+import { SearchService, isOpenBuyer, isOpenListing, type MatchCriterionScore } from "@/modules/search";
+
+type MatchSubjectType = "sale" | "rent" | "buyer";
+export type MatchState = "new" | "shortlisted" | "dismissed";
+
+type StoredMatchRow = {
+  id: string;
+  buyer_id: string;
+  sale_id: string | null;
+  rent_id: string | null;
+  score: number;
+  state: MatchState;
+};
+
+type ScoredPair = {
+  buyerId: string;
+  listingColumn: "sale_id" | "rent_id";
+  listingId: string;
+  listingCode: string | null;
+  buyerCode: string | null;
+  score: number;
+  breakdown: MatchCriterionScore[];
+};
+
+export const MATCH_FEED_THRESHOLD = 70;
+const MATCH_FEED_LIMIT = 200;
+const MATCH_SELECT = "id, buyer_id, sale_id, rent_id, score, breakdown, state, state_changed_at, notified_at, created_at, updated_at";
+
+const searchService = new SearchService();
+
+const listingTableByColumn = {
+  sale_id: "properties_sale",
+  rent_id: "properties_rent"
+} as const;
+
+/** Grid fields whose edits can change a record's match scores. */
+export const MATCH_RELEVANT_FIELDS: Record<MatchSubjectType, Set<string>> = {
+  sale: new Set(["price", "currency", "area", "compound", "bedrooms", "notes", "status"]),
+  rent: new Set(["price", "currency", "area", "compound", "bedrooms", "notes", "status"]),
+  buyer: new Set(["budget_min", "budget_max", "currency", "intent", "property_type", "preferred_areas", "bedrooms_needed", "status"])
+};
+
+/** Scored pairs for a record, and whether the record itself is still open (not closed or archived). */
+async function scorePairsForSubject(type: MatchSubjectType, recordId: string): Promise<{ isOpen: boolean; pairs: ScoredPair[] }> {
+  if (type === "buyer") {
+    const { buyer, matches } = await searchService.matchListingsForBuyer({
+      buyerId: recordId,
+      minScore: MATCH_FEED_THRESHOLD,
+      limit: MATCH_FEED_LIMIT
+    });
+    const pairs = matches.map((match): ScoredPair => ({
+      buyerId: buyer.id,
+      listingColumn: match.record_type === "properties_sale" ? "sale_id" : "rent_id",
+      listingId: match.listing.id,
+      listingCode: match.listing.code,
+      buyerCode: buyer.code,
+      score: match.score,
+      breakdown: match.breakdown
+    }));
+    return { isOpen: isOpenBuyer(buyer), pairs };
+  }
+
+  const { listing, matches } = await searchService.matchBuyersForListing({
+    listingType: type,
+    listingId: recordId,
+    minScore: MATCH_FEED_THRESHOLD,
+    limit: MATCH_FEED_LIMIT
+  });
+  const pairs = matches.map((match): ScoredPair => ({
+    buyerId: match.buyer.id,
+    listingColumn: type === "sale" ? "sale_id" : "rent_id",
+    listingId: listing.id,
+    listingCode: listing.code,
+    buyerCode: match.buyer.code,
+    score: match.score,
+    breakdown: match.breakdown
+  }));
+  return { isOpen: isOpenListing(listing), pairs };
+}
+
+async function fetchStoredMatches(type: MatchSubjectType, recordId: string) {
+  const supabase = createSupabaseClient();
+  const column = type === "buyer" ? "buyer_id" : type === "sale" ? "sale_id" : "rent_id";
+  const { data, error } = await supabase
+    .from("buyer_listing_matches")
+    .select("id, buyer_id, sale_id, rent_id, score, state")
+    .eq(column, recordId);
+  if (error) throw new Error(error.message);
+  return (data || []) as StoredMatchRow[];
+}
+
+/**
+ * Writes scores with one upsert per listing table. Only score and breakdown are sent, so existing pairs keep their
+ * triage state, and new pairs get the column defaults (`state = 'new'`, `notified_at = now()`).
+ */
+async function upsertScoredPairs(pairs: ScoredPair[]) {
+  const supabase = createSupabaseClient();
+  for (const listingColumn of ["sale_id", "rent_id"] as const) {
+    const rows = pairs
+      .filter((pair) => pair.listingColumn === listingColumn)
+      .map((pair) => ({ buyer_id: pair.buyerId, [listingColumn]: pair.listingId, score: pair.score, breakdown: pair.breakdown }));
+    if (rows.length === 0) continue;
+    const { error } = await supabase.from("buyer_listing_matches").upsert(rows, { onConflict: `buyer_id,${listingColumn}` });
+    if (error) throw new Error(error.message);
+  }
+}
+
+async function deleteMatches(ids: string[]) {
+  if (ids.length === 0) return;
+  const supabase = createSupabaseClient();
+  const { error } = await supabase.from("buyer_listing_matches").delete().in("id", ids);
+  if (error) throw new Error(error.message);
+}
+
+function pairKey(buyerId: string, listingId: string) {
+  return `${buyerId}:${listingId}`;
+}
+
+async function writeNewMatchTimelineEvents(pair: ScoredPair) {
+  const supabase = createSupabaseClient();
+  const listingTable = listingTableByColumn[pair.listingColumn];
+  const { error } = await supabase.from("timeline").insert([
+    {
+      record_type: "buyers",
+      record_id: pair.buyerId,
+      action: `New listing match: ${pair.listingCode || pair.listingId} (${pair.score}%)`,
+      details: { listing_type: listingTable, listing_id: pair.listingId, score: pair.score }
+    },
+    {
+      record_type: listingTable,
+      record_id: pair.listingId,
+      action: `New buyer match: ${pair.buyerCode || pair.buyerId} (${pair.score}%)`,
+      details: { buyer_id: pair.buyerId, score: pair.score }
+    }
+  ]);
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Recomputes the persisted match feed for one sale, rent or buyer record.
+ * Pairs at or above MATCH_FEED_THRESHOLD are upserted; untriaged pairs that fell below
+ * it are removed, while shortlisted/dismissed pairs keep their state and get a fresh score.
+ * A record that was closed or archived leaves the feed entirely, like it leaves the matcher's candidates.
+ * Every pair that is new to the feed writes a timeline event on both records.
+ */
+export async function refreshMatchesForRecord(input: { type: MatchSubjectType; recordId: string }) {
+  const [{ isOpen, pairs: scored }, stored] = await Promise.all([
+    scorePairsForSubject(input.type, input.recordId),
+    fetchStoredMatches(input.type, input.recordId)
+  ]);
+
+  if (!isOpen) {
+    await deleteMatches(stored.map((row) => row.id));
+    return { matchCount: 0, newMatchCount: 0, removedMatchCount: stored.length };
+  }
+
+  const storedKeys = new Set(stored.map((row) => pairKey(row.buyer_id, String(row.sale_id || row.rent_id || ""))));
+  const scoredKeys = new Set(scored.map((pair) => pairKey(pair.buyerId, pair.listingId)));
+  const newPairs = scored.filter((pair) => !storedKeys.has(pairKey(pair.buyerId, pair.listingId)));
+  await upsertScoredPairs(scored);
+
+  const staleIds = stored
+    .filter((row) => row.state === "new" && !scoredKeys.has(pairKey(row.buyer_id, String(row.sale_id || row.rent_id || ""))))
+    .map((row) => row.id);
+  await deleteMatches(staleIds);
+
+  for (const pair of newPairs) {
+    await writeNewMatchTimelineEvents(pair);
+  }
+
+  return { matchCount: scored.length, newMatchCount: newPairs.length, removedMatchCount: staleIds.length };
+}
+
+/**
+ * Matches of one record with their counterpart. Only admins may read buyers, so for anyone else a listing's buyer
+ * counterpart is cut down to its id and code and the score breakdown (which quotes budgets and areas) is dropped.
+ */
+export async function fetchMatchesForRecord(input: { type: MatchSubjectType; recordId: string; includeDismissed?: boolean; actorRole: AppRole }) {
+  const supabase = createSupabaseClient();
+  const column = input.type === "buyer" ? "buyer_id" : input.type === "sale" ? "sale_id" : "rent_id";
+  let query = supabase
+    .from("buyer_listing_matches")
+    .select(MATCH_SELECT)
+    .eq(column, input.recordId)
+    .order("score", { ascending: false })
+    .limit(MATCH_FEED_LIMIT);
+  if (!input.includeDismissed) query = query.neq("state", "dismissed");
+
+  const { data, error } = await query;
+  if (error) throw new Error(error.message);
+  const rows = (data || []) as Array<Record<string, unknown>>;
+
+  if (input.type === "buyer") {
+    const saleIds = rows.map((row) => String(row.sale_id || "")).filter(Boolean);
+    const rentIds = rows.map((row) => String(row.rent_id || "")).filter(Boolean);
+    const listingSelect = "id, code, status, price, currency, bedrooms, area, compound, is_archived";
+    const [sale, rent] = await Promise.all([
+      saleIds.length ? supabase.from("properties_sale").select(listingSelect).in("id", saleIds) : Promise.resolve({ data: [], error: null }),
+      rentIds.length ? supabase.from("properties_rent").select(listingSelect).in("id", rentIds) : Promise.resolve({ data: [], error: null })
+    ]);
+    if (sale.error) throw new Error(sale.error.message);
+    if (rent.error) throw new Error(rent.error.message);
+    const listingById = new Map<string, Record<string, unknown>>([
+      ...((sale.data || []) as Array<Record<string, unknown>>).map((row) => [String(row.id), { ...row, record_type: "properties_sale" }] as const),
+      ...((rent.data || []) as Array<Record<string, unknown>>).map((row) => [String(row.id), { ...row, record_type: "properties_rent" }] as const)
+    ]);
+    return rows.map((row) => ({ ...row, counterpart: listingById.get(String(row.sale_id || row.rent_id || "")) || null }));
+  }
+
+  const canReadBuyers = input.actorRole === "admin";
+  const buyerSelect = canReadBuyers ? "id, code, status, currency, budget_min, budget_max, preferred_areas, bedrooms_needed, is_archived" : "id, code";
+  const buyerIds = rows.map((row) => String(row.buyer_id || "")).filter(Boolean);
+  const { data: buyers, error: buyersError } = buyerIds.length
+    ? await supabase.from("buyers").select(buyerSelect).in("id", buyerIds)
+    : { data: [], error: null };
+  if (buyersError) throw new Error(buyersError.message);
+  const buyerById = new Map(((buyers || []) as Array<Record<string, unknown>>).map((row) => [String(row.id), { ...row, record_type: "buyers" }]));
+  return rows.map((row) => ({
+    ...row,
+    ...(canReadBuyers ? {} : { breakdown: [] }),
+    counterpart: buyerById.get(String(row.buyer_id || "")) || null
+  }));
+}
+
+export async function setMatchState(input: { matchId: string; state: MatchState; actorUserId: string | null }) {
+  const supabase = createSupabaseClient();
+  const { data, error } = await supabase
+    .from("buyer_listing_matches")
+    .update({ state: input.state, state_changed_by: input.actorUserId, state_changed_at: new Date().toISOString() })
+    .eq("id", input.matchId)
+    .select(MATCH_SELECT)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data) throw new Error("Match not found");
+  return data as Record<string, unknown>;
+}
@@ -0,0 +1,81 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import sharp from "sharp";
+import { NEAR_DUPLICATE_MAX_DISTANCE } from "@/lib/media-dedup";
+import { isProcessableImage, perceptualHash, processImage, renderWatermark } from "@/services/media/image-processing.service";
+
+test("processing applies the EXIF orientation, strips metadata and renders bounded WebP variants", async () => {
+  // 3000x2000 landscape pixels tagged "rotate 90° clockwise", with GPS and owner data.
+  const photo = await sharp({ create: { width: 3000, height: 2000, channels: 3, background: "#88aa44" } })
+    .jpeg()
+    .withMetadata({
+      orientation: 6,
+      exif: { IFD0: { Artist: "Listing owner", Copyright: "Owner" }, IFD3: { GPSLatitudeRef: "N", GPSLatitude: "30/1 1/1 0/1" } }
+    })
+    .toBuffer();
+  assert.ok((await sharp(photo).metadata()).exif);
+
+  const processed = await processImage(photo);
+  assert.deepEqual([processed.width, processed.height], [2000, 3000]);
+  assert.equal(processed.original?.mimeType, "image/jpeg");
+
+  const originalMetadata = await sharp(processed.original!.buffer).metadata();
+  assert.equal(originalMetadata.exif, undefined);
+  assert.equal(originalMetadata.orientation, undefined);
+
+  const sizes = Object.fromEntries(processed.variants.map((variant) => [variant.name, [variant.width, variant.height]]));
+  assert.deepEqual(sizes, { thumb: [267, 400], web: [1067, 1600] });
+  const thumbMetadata = await sharp(processed.variants[0].buffer).metadata();
+  assert.equal(thumbMetadata.format, "webp");
+  assert.equal(thumbMetadata.exif, undefined);
+});
+
+test("small images are not enlarged and unsupported types are left alone", async () => {
+  const icon = await sharp({ create: { width: 120, height: 80, channels: 4, background: "#00000000" } }).png().toBuffer();
+  const processed = await processImage(icon);
+  assert.deepEqual(processed.variants.map((variant) => [variant.width, variant.height]), [[120, 80], [120, 80]]);
+
+  assert.equal(isProcessableImage("image/jpeg"), true);
+  assert.equal(isProcessableImage("image/heic"), false);
+  assert.equal(isProcessableImage("application/pdf"), false);
+  await assert.rejects(processImage(Buffer.from("not an image")));
+});
+
+test("watermarks draw a faded logo at the chosen corner and leave the rest of the photo alone", async () => {
+  const photo = await sharp({ create: { width: 1200, height: 800, channels: 3, background: "#336699" } }).jpeg().toBuffer();
+  const logo = await sharp({ create: { width: 300, height: 100, channels: 4, background: "#ff0000" } }).png().toBuffer();
+
+  const rendered = await renderWatermark(photo, { logo, text: "", position: "top_left", opacity: 0.5 });
+  assert.equal(rendered.mimeType, "image/jpeg");
+  assert.deepEqual([rendered.width, rendered.height], [1200, 800]);
+
+  const { data, info } = await sharp(rendered.buffer).raw().toBuffer({ resolveWithObject: true });
+  const pixel = (x: number, y: number) => Array.from(data.subarray((y * info.width + x) * 3, (y * info.width + x) * 3 + 3));
+  const [red, , blue] = pixel(60, 40);
+  // Half-opaque red over blue: red rises, blue falls, neither reaches the pure logo colour.
+  assert.ok(red > 120 && red < 220, `logo red channel ${red}`);
+  assert.ok(blue < 120, `logo blue channel ${blue}`);
+  const [, , untouchedBlue] = pixel(1100, 700);
+  assert.ok(untouchedBlue > 140, `photo blue channel ${untouchedBlue}`);
+});
+
+test("perceptual hashes survive re-encoding and resizing but tell different photos apart", async () => {
+  // A left-to-right gradient with a dark block, standing in for a listing photo.
+  const scene = (block: { left: number; top: number }) =>
+    sharp({ create: { width: 800, height: 600, channels: 3, background: "#ffffff" } }).composite([
+      { input: Buffer.from(`<svg xmlns="http://www.w3.org/2000/svg" width="800" height="600"><defs><linearGradient id="g"><stop offset="0" stop-color="#000"/><stop offset="1" stop-color="#fff"/></linearGradient></defs><rect width="800" height="600" fill="url(#g)"/></svg>`) },
+      { input: { create: { width: 200, height: 200, channels: 3, background: "#202020" } }, ...block }
+    ]);
+  const original = await scene({ left: 500, top: 300 }).jpeg({ quality: 95 }).toBuffer();
+  const forwarded = await sharp(original).resize({ width: 320 }).jpeg({ quality: 40 }).toBuffer();
+  // Another angle of the same room: the light now falls from the other side.
+  const otherShot = await sharp(await scene({ left: 50, top: 50 }).png().toBuffer()).flop().jpeg({ quality: 95 }).toBuffer();
+
+  const bits = (hash: string) => BigInt(`0x${hash}`).toString(2).padStart(64, "0");
+  const distance = (a: string, b: string) => Array.from(bits(a)).filter((bit, i) => bit !== bits(b)[i]).length;
+  const [originalHash, forwardedHash, otherHash] = await Promise.all([original, forwarded, otherShot].map((bytes) => perceptualHash(bytes)));
+
+  assert.match(originalHash, /^[0-9a-f]{16}$/);
+  assert.ok(distance(originalHash, forwardedHash) <= NEAR_DUPLICATE_MAX_DISTANCE, `forwarded copy distance ${distance(originalHash, forwardedHash)}`);
+  assert.ok(distance(originalHash, otherHash) > NEAR_DUPLICATE_MAX_DISTANCE, `other shot distance ${distance(originalHash, otherHash)}`);
+});
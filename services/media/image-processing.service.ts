@@ -0,0 +1,165 @@
+import sharp from "sharp";
+import { PERCEPTUAL_HASH_GRID, differenceHash } from "@/lib/media-dedup";
+import { MEDIA_VARIANT_SPECS, type MediaVariantName } from "@/lib/media-variants";
+import { watermarkOffset, type WatermarkPosition } from "@/lib/media-watermark";
+
+export type ProcessedImage = {
+  /** The original re-encoded without metadata, or null when it is stored untouched (GIFs keep their animation). */
+  original: { buffer: Buffer; mimeType: string } | null;
+  width: number;
+  height: number;
+  variants: Array<{ name: MediaVariantName; buffer: Buffer; width: number; height: number }>;
+};
+
+// Formats the bundled libvips can decode. HEIC is missing from the prebuilt binaries, so iPhone originals are stored as-is.
+const PROCESSABLE_FORMATS = new Set(["jpeg", "png", "webp", "tiff", "avif", "gif"]);
+const REENCODED_MIME_TYPES: Record<string, string> = {
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+  tiff: "image/tiff",
+  avif: "image/avif"
+};
+
+export function isProcessableImage(mimeType: string) {
+  const subtype = mimeType.toLowerCase().replace(/^image\//, "").replace(/^jpg$/, "jpeg");
+  return mimeType.toLowerCase().startsWith("image/") && PROCESSABLE_FORMATS.has(subtype);
+}
+
+function reencodeOriginal(image: sharp.Sharp, format: string) {
+  if (format === "jpeg") return image.jpeg({ quality: 90, mozjpeg: true });
+  if (format === "png") return image.png();
+  if (format === "webp") return image.webp({ quality: 90 });
+  if (format === "tiff") return image.tiff();
+  return image.avif({ quality: 70 });
+}
+
+/**
+ * Applies the EXIF orientation, drops all metadata (GPS position, camera owner, serial numbers) from the original
+ * and renders the WebP variants. sharp strips metadata from every output unless asked to keep it.
+ */
+export async function processImage(bytes: Buffer): Promise<ProcessedImage> {
+  const metadata = await sharp(bytes).metadata();
+  const format = String(metadata.format || "");
+  if (!PROCESSABLE_FORMATS.has(format)) throw new Error(`Unsupported image format: ${format || "unknown"}`);
+
+  let original: ProcessedImage["original"] = null;
+  let width = metadata.width || 0;
+  let height = metadata.height || 0;
+  if (format !== "gif") {
+    const { data, info } = await reencodeOriginal(sharp(bytes).rotate(), format).toBuffer({ resolveWithObject: true });
+    original = { buffer: data, mimeType: REENCODED_MIME_TYPES[format] };
+    width = info.width;
+    height = info.height;
+  }
+
+  const variants: ProcessedImage["variants"] = [];
+  for (const [name, spec] of Object.entries(MEDIA_VARIANT_SPECS) as Array<[MediaVariantName, { maxEdge: number; quality: number }]>) {
+    const { data, info } = await sharp(bytes)
+      .rotate()
+      .resize({ width: spec.maxEdge, height: spec.maxEdge, fit: "inside", withoutEnlargement: true })
+      .webp({ quality: spec.quality })
+      .toBuffer({ resolveWithObject: true });
+    variants.push({ name, buffer: data, width: info.width, height: info.height });
+  }
+
+  return { original, width, height, variants };
+}
+
+/** Perceptual hash of an image, stable across re-encoding and resizing. Rotation is applied first, like the variants. */
+export async function perceptualHash(bytes: Buffer) {
+  const pixels = await sharp(bytes)
+    .rotate()
+    .flatten({ background: "#ffffff" })
+    .grayscale()
+    .resize({ width: PERCEPTUAL_HASH_GRID.width, height: PERCEPTUAL_HASH_GRID.height, fit: "fill" })
+    .raw()
+    .toBuffer();
+  return differenceHash(pixels);
+}
+
+// Watermarked copies are for sharing, so they are capped near the web variant's size and saved as JPEG.
+const WATERMARK_MAX_EDGE = 2048;
+const WATERMARK_LOGO_SHARE = 0.2;
+
+function escapeSvgText(text: string) {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/** White caption with a dark outline so it reads on light and dark photos. Null when no font could render it. */
+async function renderCaption(text: string, fontSize: number) {
+  const width = Math.ceil(text.length * fontSize * 0.7) + fontSize;
+  const height = Math.ceil(fontSize * 1.6);
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+  <text x="${fontSize / 2}" y="${fontSize * 1.15}" font-family="sans-serif" font-size="${fontSize}" font-weight="bold" fill="#ffffff"
+    stroke="#000000" stroke-opacity="0.6" stroke-width="${Math.max(1, fontSize / 12)}" paint-order="stroke">${escapeSvgText(text)}</text>
+</svg>`;
+  try {
+    return await sharp(Buffer.from(svg)).trim().png().toBuffer({ resolveWithObject: true });
+  } catch (error) {
+    console.error("[media] watermark caption could not be rendered", { error: error instanceof Error ? error.message : String(error) });
+    return null;
+  }
+}
+
+/** Scales every pixel's alpha by `opacity` so the whole watermark block fades evenly. */
+async function fadeOverlay(overlay: Buffer, opacity: number) {
+  const { data, info } = await sharp(overlay).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+  for (let i = 3; i < data.length; i += 4) data[i] = Math.round(data[i] * opacity);
+  return { data, info };
+}
+
+/**
+ * Draws the logo (scaled to a fifth of the photo width) with the caption under it at `position`, then saves a JPEG.
+ * Either part may be missing; with neither the photo is only resized.
+ */
+export async function renderWatermark(
+  bytes: Buffer,
+  watermark: { logo: Buffer | null; text: string; position: WatermarkPosition; opacity: number }
+) {
+  const { data: base, info } = await sharp(bytes)
+    .rotate()
+    .resize({ width: WATERMARK_MAX_EDGE, height: WATERMARK_MAX_EDGE, fit: "inside", withoutEnlargement: true })
+    .toBuffer({ resolveWithObject: true });
+  const margin = Math.round(Math.min(info.width, info.height) * 0.03);
+
+  const parts: Array<{ data: Buffer; width: number; height: number }> = [];
+  if (watermark.logo) {
+    const maxEdge = Math.max(1, Math.round(info.width * WATERMARK_LOGO_SHARE));
+    const logo = await sharp(watermark.logo).resize({ width: maxEdge, height: maxEdge, fit: "inside" }).png().toBuffer({ resolveWithObject: true });
+    parts.push({ data: logo.data, width: logo.info.width, height: logo.info.height });
+  }
+  if (watermark.text) {
+    const caption = await renderCaption(watermark.text, Math.max(14, Math.round(info.width * 0.03)));
+    if (caption) parts.push({ data: caption.data, width: caption.info.width, height: caption.info.height });
+  }
+
+  let output = sharp(base);
+  if (parts.length) {
+    const gap = parts.length > 1 ? Math.round(margin / 2) : 0;
+    const block = { width: Math.max(...parts.map((part) => part.width)), height: parts.reduce((sum, part) => sum + part.height, 0) + gap };
+    const alignRight = watermark.position === "top_right" || watermark.position === "bottom_right";
+    const alignCenter = watermark.position === "center";
+    let top = 0;
+    const layers = parts.map((part) => {
+      const left = alignRight ? block.width - part.width : alignCenter ? Math.round((block.width - part.width) / 2) : 0;
+      const layer = { input: part.data, left, top };
+      top += part.height + gap;
+      return layer;
+    });
+    const stacked = await sharp({ create: { width: block.width, height: block.height, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } } })
+      .composite(layers)
+      .png()
+      .toBuffer();
+    const faded = await fadeOverlay(stacked, watermark.opacity);
+    // A block wider than the photo (long caption on a small image) is shrunk to fit inside the margins.
+    const fitted = await sharp(faded.data, { raw: faded.info })
+      .resize({ width: Math.max(1, info.width - margin * 2), height: Math.max(1, info.height - margin * 2), fit: "inside", withoutEnlargement: true })
+      .png()
+      .toBuffer({ resolveWithObject: true });
+    output = output.composite([{ input: fitted.data, ...watermarkOffset(info, fitted.info, watermark.position, margin) }]);
+  }
+
+  const { data, info: rendered } = await output.jpeg({ quality: 85, mozjpeg: true }).toBuffer({ resolveWithObject: true });
+  return { buffer: data, width: rendered.width, height: rendered.height, mimeType: "image/jpeg" };
+}
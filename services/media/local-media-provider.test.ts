@@ -0,0 +1,45 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test from "node:test";
+import { verifyMediaUrlSignature } from "@/lib/media-url-signing";
+import { LocalMediaProvider } from "@/services/media/local-media-provider";
+
+test("local provider uploads, locates, moves and removes objects under its root", async () => {
+  const root = await mkdtemp(join(tmpdir(), "media-storage-"));
+  try {
+    const provider = new LocalMediaProvider(root, "media", "http://localhost:3000", "secret");
+    const uploaded = await provider.upload("intake_sessions/s1/1_front photo.jpg", new File([Buffer.from("jpeg")], "front.jpg", { type: "image/jpeg" }));
+    assert.equal(uploaded.publicUrl, "http://localhost:3000/api/media/files/media/intake_sessions/s1/1_front%20photo.jpg");
+    assert.deepEqual(provider.locate(uploaded.publicUrl), { bucket: "media", path: "intake_sessions/s1/1_front photo.jpg" });
+    assert.equal(provider.locate("https://example.supabase.co/storage/v1/object/public/media/a.jpg"), null);
+
+    await assert.rejects(provider.upload("intake_sessions/s1/1_front photo.jpg", new File(["again"], "front.jpg")), /already exists/);
+    await provider.move("intake_sessions/s1/1_front photo.jpg", "media/properties_sale/r1/1_front photo.jpg");
+    assert.equal((await provider.download("media/properties_sale/r1/1_front photo.jpg")).toString(), "jpeg");
+    await assert.rejects(provider.download("intake_sessions/s1/1_front photo.jpg"), /not found/);
+
+    await provider.remove(["media/properties_sale/r1/1_front photo.jpg", "never/uploaded.jpg"]);
+    await assert.rejects(provider.download("media/properties_sale/r1/1_front photo.jpg"), /not found/);
+    assert.throws(() => provider.filePath("../outside.jpg"), /Invalid storage path/);
+    assert.throws(() => provider.filePath("../.env.local", "x/../.."), /Invalid storage path/);
+    assert.throws(() => provider.filePath("a.jpg", "other"), /Invalid storage path/);
+    await assert.rejects(provider.download(".env.local", ".."), /Invalid storage path/);
+  } finally {
+    await rm(root, { recursive: true, force: true });
+  }
+});
+
+test("local signed URLs carry a signature that expires", async () => {
+  const provider = new LocalMediaProvider(tmpdir(), "media", "http://localhost:3000", "secret");
+  const signed = new URL(await provider.createSignedUrl("media/a.jpg", 60));
+  const expiresAt = Number(signed.searchParams.get("expires"));
+  const signature = String(signed.searchParams.get("signature"));
+
+  assert.deepEqual(provider.locate(signed.toString()), { bucket: "media", path: "media/a.jpg" });
+  assert.equal(verifyMediaUrlSignature("secret", "media/media/a.jpg", expiresAt, signature), true);
+  assert.equal(verifyMediaUrlSignature("secret", "media/media/b.jpg", expiresAt, signature), false);
+  assert.equal(verifyMediaUrlSignature("other", "media/media/a.jpg", expiresAt, signature), false);
+  assert.equal(verifyMediaUrlSignature("secret", "media/media/a.jpg", expiresAt, signature, (expiresAt + 1) * 1000), false);
+});
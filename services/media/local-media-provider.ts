@@ -0,0 +1,115 @@
+import { mkdir, open, readFile, rename, rm } from "node:fs/promises";
+import { dirname, resolve, sep } from "node:path";
+import { signMediaUrl } from "@/lib/media-url-signing";
+import { MediaStorageProvider, StorageObjectLocation, StorageUploadOptions, StorageUploadResult } from "./storage-provider";
+
+export const LOCAL_MEDIA_ROUTE = "/api/media/files/";
+
+const CONTENT_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+  gif: "image/gif",
+  avif: "image/avif",
+  heic: "image/heic",
+  tif: "image/tiff",
+  tiff: "image/tiff",
+  mp4: "video/mp4",
+  mov: "video/quicktime",
+  pdf: "application/pdf",
+  doc: "application/msword",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+};
+
+export function contentTypeForPath(path: string) {
+  return CONTENT_TYPES[path.slice(path.lastIndexOf(".") + 1).toLowerCase()] || "application/octet-stream";
+}
+
+function encodePath(path: string) {
+  return path.split("/").map(encodeURIComponent).join("/");
+}
+
+/**
+ * Stores objects as files under `root/<bucket>/<path>` and serves them through `/api/media/files/…`.
+ * Meant for development and tests, where no Supabase project or S3 endpoint is available.
+ */
+export class LocalMediaProvider implements MediaStorageProvider {
+  readonly name = "local" as const;
+
+  constructor(
+    private readonly root: string,
+    readonly bucket: string,
+    private readonly baseUrl: string,
+    private readonly signingSecret: string
+  ) {}
+
+  /** Absolute file path of an object; refuses other buckets and paths that would escape the bucket or storage root. */
+  filePath(path: string, bucket = this.bucket) {
+    const root = resolve(this.root);
+    const base = resolve(root, this.bucket);
+    const full = resolve(base, path);
+    if (bucket !== this.bucket || !path || !base.startsWith(root + sep) || !full.startsWith(base + sep)) {
+      throw new Error(`Invalid storage path: ${bucket}/${path}`);
+    }
+    return full;
+  }
+
+  async upload(path: string, file: File, options: StorageUploadOptions = {}): Promise<StorageUploadResult> {
+    const full = this.filePath(path);
+    await mkdir(dirname(full), { recursive: true });
+    const handle = await open(full, options.upsert ? "w" : "wx").catch((error: NodeJS.ErrnoException) => {
+      throw new Error(error.code === "EEXIST" ? "The resource already exists" : error.message);
+    });
+    try {
+      await handle.writeFile(Buffer.from(await file.arrayBuffer()));
+    } finally {
+      await handle.close();
+    }
+    return { path, publicUrl: this.getPublicUrl(path) };
+  }
+
+  async download(path: string, bucket = this.bucket) {
+    return readFile(this.filePath(path, bucket)).catch((error: NodeJS.ErrnoException) => {
+      throw new Error(error.code === "ENOENT" ? `Storage object not found: ${path}` : error.message);
+    });
+  }
+
+  getPublicUrl(path: string, bucket = this.bucket) {
+    return `${this.baseUrl}${LOCAL_MEDIA_ROUTE}${encodeURIComponent(bucket)}/${encodePath(path)}`;
+  }
+
+  async createSignedUrl(path: string, expiresInSeconds: number, bucket = this.bucket) {
+    const expiresAt = Math.floor(Date.now() / 1000) + Math.max(1, Math.floor(expiresInSeconds));
+    const signature = signMediaUrl(this.signingSecret, `${bucket}/${path}`, expiresAt);
+    return `${this.getPublicUrl(path, bucket)}?expires=${expiresAt}&signature=${signature}`;
+  }
+
+  async move(fromPath: string, toPath: string, bucket = this.bucket) {
+    const destination = this.filePath(toPath, bucket);
+    await mkdir(dirname(destination), { recursive: true });
+    await rename(this.filePath(fromPath, bucket), destination);
+  }
+
+  async remove(paths: string[], bucket = this.bucket) {
+    for (const path of paths) await rm(this.filePath(path, bucket), { force: true });
+  }
+
+  locate(url: string): StorageObjectLocation | null {
+    try {
+      const parsed = new URL(url, this.baseUrl);
+      if (!parsed.pathname.startsWith(LOCAL_MEDIA_ROUTE)) return null;
+      const [bucket, ...pathParts] = parsed.pathname.slice(LOCAL_MEDIA_ROUTE.length).split("/").filter(Boolean).map(decodeURIComponent);
+      const path = pathParts.join("/");
+      if (!bucket || !path) return null;
+      return { bucket, path };
+    } catch {
+      return null;
+    }
+  }
+
+  candidateLocations(path: string) {
+    return [{ bucket: this.bucket, path }];
+  }
+}
@@ -0,0 +1,63 @@
+import "server-only";
+import { getMediaAccessConfig } from "@/lib/env";
+import { createSupabaseAdminClient } from "@/lib/supabase/admin";
+import { presentMediaUrls } from "@/lib/media-access";
+import type { MediaVariants } from "@/lib/media-variants";
+import { getMediaStorageProvider } from "@/services/media/media-manager.service";
+import type { StorageObjectLocation } from "@/services/media/storage-provider";
+
+/** Columns needed to find a media row's files in storage. */
+export const MEDIA_LOCATION_SELECT = "file_url, storage_path, storage_bucket, variants";
+
+export type MediaLocationRow = {
+  file_url?: string | null;
+  storage_path?: string | null;
+  storage_bucket?: string | null;
+  variants?: MediaVariants | null;
+};
+
+/**
+ * Where a media file (or one of its variants) is stored. Rows from before storage columns were recorded fall back
+ * to parsing their stored URL.
+ */
+export function locateMediaObject(row: MediaLocationRow, variant?: keyof MediaVariants): StorageObjectLocation | null {
+  const provider = getMediaStorageProvider();
+  const located = row.file_url ? provider.locate(row.file_url) : null;
+  const bucket = row.storage_bucket || located?.bucket || provider.bucket;
+  if (variant) {
+    const path = row.variants?.[variant]?.path;
+    // Image variants sit next to the original; watermarked copies are rendered later into the provider's own bucket.
+    return path ? { bucket: variant === "watermarked" ? provider.bucket : bucket, path } : null;
+  }
+  return row.storage_path ? { bucket, path: row.storage_path } : located;
+}
+
+/**
+ * A URL for a stored object: the stored public URL when media is public, otherwise a signed URL that expires after
+ * `ttlSeconds` (the CRM default when omitted).
+ */
+export async function mediaObjectUrl(location: StorageObjectLocation, storedUrl?: string | null, ttlSeconds?: number) {
+  const access = getMediaAccessConfig();
+  const provider = getMediaStorageProvider();
+  if (access.mode === "public") return storedUrl || provider.getPublicUrl(location.path, location.bucket);
+  return provider.createSignedUrl(location.path, ttlSeconds ?? access.signedUrlTtlSeconds, location.bucket);
+}
+
+/** Media rows as API responses return them, with URLs that respect the access mode. */
+export function presentMedia<T extends { id: string; file_url?: string | null; variants?: MediaVariants | null }>(row: T) {
+  return presentMediaUrls(row, getMediaAccessConfig().mode);
+}
+
+/**
+ * Whether a media row other than `exceptMediaId` points at this stored file. Linked duplicates share the original's
+ * objects, so those must not be moved or deleted on behalf of a single row.
+ */
+export async function isStoragePathShared(storagePath: string, exceptMediaId: string) {
+  const { count, error } = await createSupabaseAdminClient()
+    .from("media")
+    .select("id", { count: "exact", head: true })
+    .eq("storage_path", storagePath)
+    .neq("id", exceptMediaId);
+  if (error) throw new Error(error.message);
+  return (count || 0) > 0;
+}
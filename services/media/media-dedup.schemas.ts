@@ -0,0 +1,25 @@
+import { z } from "zod";
+
+const mediaRecordTypeSchema = z.enum(["properties_sale", "properties_rent", "buyers", "clients"]);
+
+export const mediaDuplicatesQuerySchema = z.object({
+  media_ids: z.array(z.string().uuid()).min(1).max(300)
+});
+
+/**
+ * Reuse an existing media item instead of uploading the same file again. With `replace_media_id` the duplicate that
+ * was already uploaded is re-pointed at the existing file and its own copy is deleted.
+ */
+export const linkExistingMediaSchema = z
+  .object({
+    source_media_id: z.string().uuid(),
+    intake_session_id: z.string().uuid().optional(),
+    record_type: mediaRecordTypeSchema.optional(),
+    record_id: z.string().uuid().optional(),
+    replace_media_id: z.string().uuid().optional()
+  })
+  .refine((input) => Boolean(input.replace_media_id || input.intake_session_id || (input.record_type && input.record_id)), {
+    message: "replace_media_id, intake_session_id or record_type+record_id required"
+  });
+
+export type LinkExistingMediaInput = z.infer<typeof linkExistingMediaSchema>;
@@ -0,0 +1,149 @@
+import "server-only";
+import { NEAR_DUPLICATE_MAX_DISTANCE, type MediaDuplicateMatch } from "@/lib/media-dedup";
+import type { MediaVariants } from "@/lib/media-variants";
+import { createSupabaseAdminClient } from "@/lib/supabase/admin";
+import type { AppRole } from "@/services/auth/role.service";
+import { assignMediaToHierarchyNode, fetchRecordHierarchyNodeId } from "@/services/hierarchy/hierarchy.service";
+import { locateMediaObject } from "@/services/media/media-access.service";
+import { deleteStorageObjectsForMediaSnapshots, fetchMediaDeleteSnapshot } from "@/services/media/media-delete.service";
+import type { LinkExistingMediaInput } from "@/services/media/media-dedup.schemas";
+import { computeMediaHashes } from "@/services/media/media-upload.service";
+import { createSupabaseClient } from "@/services/supabase/client";
+
+const RECORD_CODE_TABLES = ["properties_sale", "properties_rent", "buyers", "clients"];
+const AGENT_RECORD_TYPES = ["properties_sale", "properties_rent"];
+const MATCHES_PER_FILE = 5;
+const MATCHES_PER_MEDIA = 3;
+
+// Everything a linked row copies from the media item it reuses.
+const LINKABLE_MEDIA_SELECT =
+  "id, file_url, storage_path, storage_bucket, variants, mime_type, media_type, original_filename, file_size, width, height, content_sha256, perceptual_hash, record_type, record_id, intake_session_id";
+
+type DuplicateRow = Omit<MediaDuplicateMatch, "record_code"> & { source_media_id?: string };
+
+/** Adds record codes and hides matches the viewer may not see (agents only work with sale and rent listings). */
+async function toMatches(rows: DuplicateRow[], role: AppRole) {
+  const visible = role === "agent" ? rows.filter((row) => AGENT_RECORD_TYPES.includes(String(row.record_type))) : rows;
+  const admin = createSupabaseAdminClient();
+  const codeByRecord = new Map<string, string>();
+  for (const table of RECORD_CODE_TABLES) {
+    const ids = Array.from(new Set(visible.filter((row) => row.record_type === table && row.record_id).map((row) => String(row.record_id))));
+    if (ids.length === 0) continue;
+    const { data, error } = await admin.from(table).select("id, code").in("id", ids);
+    if (error) throw new Error(error.message);
+    (data || []).forEach((record) => codeByRecord.set(`${table}:${record.id}`, String(record.code || "")));
+  }
+  return visible.map((row) => ({
+    ...row,
+    record_code: row.record_type && row.record_id ? codeByRecord.get(`${row.record_type}:${row.record_id}`) || null : null
+  }));
+}
+
+/** Stored media with the same bytes or a near-identical picture, checked before files are uploaded. */
+export async function checkUploadDuplicates(files: File[], role: AppRole) {
+  const supabase = createSupabaseClient();
+  const results: Array<{ name: string; size: number; matches: MediaDuplicateMatch[] }> = [];
+  for (const file of files) {
+    const hashes = await computeMediaHashes(Buffer.from(await file.arrayBuffer()), file.type || "");
+    const { data, error } = await supabase.rpc("find_media_duplicates", {
+      p_content_sha256: hashes.content_sha256,
+      p_perceptual_hash: hashes.perceptual_hash,
+      p_max_distance: NEAR_DUPLICATE_MAX_DISTANCE,
+      p_exclude_ids: [],
+      p_limit: MATCHES_PER_FILE
+    });
+    if (error) throw new Error(error.message);
+    results.push({ name: file.name, size: file.size, matches: await toMatches((data || []) as DuplicateRow[], role) });
+  }
+  return results;
+}
+
+/** Duplicates of already stored media, keyed by media id; items without a match are left out. */
+export async function findDuplicatesForMedia(mediaIds: string[], role: AppRole) {
+  const supabase = createSupabaseClient();
+  const { data, error } = await supabase.rpc("find_media_duplicates_for_media", {
+    p_media_ids: mediaIds,
+    p_max_distance: NEAR_DUPLICATE_MAX_DISTANCE,
+    p_limit: MATCHES_PER_MEDIA
+  });
+  if (error) throw new Error(error.message);
+
+  const byMedia: Record<string, MediaDuplicateMatch[]> = {};
+  for (const match of await toMatches((data || []) as DuplicateRow[], role)) {
+    const { source_media_id, ...rest } = match;
+    const key = String(source_media_id);
+    (byMedia[key] ||= []).push(rest);
+  }
+  return byMedia;
+}
+
+async function fetchLinkableMedia(mediaId: string) {
+  const supabase = createSupabaseClient();
+  const { data, error } = await supabase.from("media").select(LINKABLE_MEDIA_SELECT).eq("id", mediaId).maybeSingle();
+  if (error) throw new Error(error.message);
+  return data as (Record<string, unknown> & { id: string; variants: MediaVariants | null }) | null;
+}
+
+/** Storage columns of the source item; every row that reuses a file records where it is stored. */
+function sharedFileColumns(source: Record<string, unknown> & { variants: MediaVariants | null }) {
+  const location = locateMediaObject(source);
+  if (!location) throw new Error("The existing media file could not be located in storage");
+  // The watermarked copy is rendered per row, so it is not shared.
+  const { watermarked: _watermarked, ...variants } = source.variants || {};
+  return {
+    file_url: source.file_url ?? null,
+    storage_path: location.path,
+    storage_bucket: location.bucket,
+    variants,
+    mime_type: source.mime_type,
+    media_type: source.media_type,
+    file_size: source.file_size,
+    width: source.width,
+    height: source.height,
+    content_sha256: source.content_sha256,
+    perceptual_hash: source.perceptual_hash
+  };
+}
+
+/**
+ * Reuses an existing media item's stored file. Without `replace_media_id` a new row is added to the intake session or
+ * record; with it the already uploaded duplicate is re-pointed at the existing file and its own objects are deleted.
+ */
+export async function linkExistingMedia(input: LinkExistingMediaInput, actorUserId: string | null) {
+  const supabase = createSupabaseClient();
+  const source = await fetchLinkableMedia(input.source_media_id);
+  if (!source) throw new Error("Existing media item not found");
+  const columns = sharedFileColumns(source);
+
+  if (input.replace_media_id) {
+    if (input.replace_media_id === input.source_media_id) throw new Error("A media item cannot replace itself");
+    const snapshot = await fetchMediaDeleteSnapshot({ mediaId: input.replace_media_id });
+    const { data, error } = await supabase.from("media").update(columns).eq("id", input.replace_media_id).select("id").single();
+    if (error || !data) throw new Error(error?.message || "Could not update the duplicate media item");
+    const storageCleanup = await deleteStorageObjectsForMediaSnapshots({
+      snapshots: [snapshot],
+      reason: "media_replaced_by_existing",
+      context: { source: "media_link_existing", source_media_id: input.source_media_id }
+    });
+    return { media_id: input.replace_media_id, replaced: true, storageCleanup };
+  }
+
+  const { data, error } = await supabase
+    .from("media")
+    .insert({
+      ...columns,
+      record_type: input.record_type || null,
+      record_id: input.record_id || null,
+      intake_session_id: input.intake_session_id || null,
+      original_filename: source.original_filename
+    })
+    .select("id")
+    .single();
+  if (error || !data) throw new Error(error?.message || "Could not link the existing media item");
+
+  if (input.record_type && input.record_id) {
+    const nodeId = await fetchRecordHierarchyNodeId(input.record_type, input.record_id);
+    if (nodeId) await assignMediaToHierarchyNode({ mediaId: String(data.id), nodeId, actorUserId });
+  }
+  return { media_id: String(data.id), replaced: false, storageCleanup: null };
+}
@@ -1,5 +1,8 @@
 import "server-only";
+import { mediaStoragePaths, type MediaVariants } from "@/lib/media-variants";
 import { createSupabaseAdminClient } from "@/lib/supabase/admin";
+import { isStoragePathShared } from "@/services/media/media-access.service";
+import { getMediaStorageProvider } from "@/services/media/media-manager.service";
 
 type StorageTarget = {
   bucket: string;
@@ -15,6 +18,10 @@ export type MediaDeleteSnapshot = {
     intake_session_id: string | null;
   };
   storageTargets: StorageTarget[];
+  /** The original's path, used to keep objects that linked duplicates still point at. */
+  storagePath: string | null;
+  /** This row's own watermarked copy, which is never shared. */
+  watermarkedPath: string | null;
 };
 
 export type StorageCleanupSummary = {
@@ -25,33 +32,16 @@ export type StorageCleanupSummary = {
   warnings: string[];
 };
 
-function parseStoragePathFromPublicUrl(url: string): StorageTarget | null {
-  try {
-    const parsed = new URL(url);
-    const marker = "/object/public/";
-    const markerIndex = parsed.pathname.indexOf(marker);
-    if (markerIndex === -1) return null;
-
-    const tail = parsed.pathname.slice(markerIndex + marker.length);
-    const [bucket, ...pathParts] = tail.split("/").filter(Boolean);
-    const path = decodeURIComponent(pathParts.join("/"));
-    if (!bucket || !path) return null;
-    return { bucket, path };
-  } catch {
-    return null;
-  }
-}
-
 function buildStorageTargets(row: Record<string, unknown>) {
+  const provider = getMediaStorageProvider();
   const targets: StorageTarget[] = [];
-  const storagePath = String(row.storage_path || "").trim();
   const publicUrl = String(row.file_url || "").trim();
-  const fromPublicUrl = publicUrl ? parseStoragePathFromPublicUrl(publicUrl) : null;
+  const fromPublicUrl = publicUrl ? provider.locate(publicUrl) : null;
 
   if (fromPublicUrl) targets.push(fromPublicUrl);
-  if (storagePath) {
-    targets.push({ bucket: "crm-media", path: storagePath });
-    targets.push({ bucket: "media", path: storagePath });
+  // Image variants live next to the original, so they are removed with it.
+  for (const storagePath of mediaStoragePaths({ storage_path: String(row.storage_path || "").trim(), variants: row.variants as MediaVariants | null })) {
+    targets.push(...provider.candidateLocations(storagePath));
   }
 
   const deduped = new Map<string, StorageTarget>();
@@ -70,7 +60,9 @@ function normalizeMediaDeleteSnapshot(row: Record<string, unknown>): MediaDelete
       record_id: row.record_id ? String(row.record_id) : null,
       intake_session_id: row.intake_session_id ? String(row.intake_session_id) : null
     },
-    storageTargets: buildStorageTargets(row)
+    storageTargets: buildStorageTargets(row),
+    storagePath: row.storage_path ? String(row.storage_path) : null,
+    watermarkedPath: (row.variants as MediaVariants | null)?.watermarked?.path || null
   };
 }
 
@@ -78,7 +70,7 @@ export async function fetchMediaDeleteSnapshot(input: { mediaId: string }) {
   const supabase = createSupabaseAdminClient();
   const { data: mediaRow, error: mediaError } = await supabase
     .from("media")
-    .select("id,original_filename,storage_path,file_url,record_type,record_id,intake_session_id")
+    .select("id,original_filename,storage_path,file_url,variants,record_type,record_id,intake_session_id")
     .eq("id", input.mediaId)
     .maybeSingle();
 
@@ -96,7 +88,7 @@ export async function fetchMediaDeleteSnapshotsForRecordSet(input: {
   const supabase = createSupabaseAdminClient();
   const { data, error } = await supabase
     .from("media")
-    .select("id,original_filename,storage_path,file_url,record_type,record_id,intake_session_id")
+    .select("id,original_filename,storage_path,file_url,variants,record_type,record_id,intake_session_id")
     .eq("record_type", input.recordType)
     .in("record_id", input.recordIds);
 
@@ -173,38 +165,37 @@ export async function deleteStorageObjectsForMediaSnapshots(input: {
   reason: string;
   context?: Record<string, unknown>;
 }) {
-  const supabase = createSupabaseAdminClient();
+  const provider = getMediaStorageProvider();
   const warnings: string[] = [];
   let attemptedObjectCount = 0;
   let deletedObjectCount = 0;
   let queuedObjectCount = 0;
 
   for (const snapshot of input.snapshots) {
-    for (const target of snapshot.storageTargets) {
+    const shared = snapshot.storagePath ? await isStoragePathShared(snapshot.storagePath, snapshot.media.id) : false;
+    const targets = shared ? snapshot.storageTargets.filter((target) => target.path === snapshot.watermarkedPath) : snapshot.storageTargets;
+    for (const target of targets) {
       attemptedObjectCount += 1;
 
-      const { error } = await supabase.storage.from(target.bucket).remove([target.path]);
-      if (!error) {
-        deletedObjectCount += 1;
-        await markStorageCleanupResolved(target);
-        continue;
-      }
-
-      const normalized = error.message.toLowerCase();
-      if (normalized.includes("not found") || normalized.includes("no such object")) {
+      let message: string;
+      try {
+        // Providers treat objects that are already gone as removed.
+        await provider.remove([target.path], target.bucket);
         deletedObjectCount += 1;
         await markStorageCleanupResolved(target);
         continue;
+      } catch (error) {
+        message = error instanceof Error ? error.message : String(error);
       }
 
-      const warning = `${target.bucket}:${target.path} -> ${error.message}`;
+      const warning = `${target.bucket}:${target.path} -> ${message}`;
       warnings.push(warning);
 
       const queued = await queueStorageCleanupFailure({
         target,
         snapshot,
         reason: input.reason,
-        message: error.message,
+        message,
         context: input.context
       });
       if (queued) {
@@ -1,6 +1,24 @@
+import { getMediaStorageConfig } from "@/lib/env";
+import { LocalMediaProvider } from "./local-media-provider";
+import { S3MediaProvider } from "./s3-media-provider";
+import type { MediaStorageProvider } from "./storage-provider";
 import { SupabaseMediaProvider } from "./supabase-media-provider";
 
-export const mediaStorageProvider = new SupabaseMediaProvider();
+let cachedProvider: MediaStorageProvider | null = null;
+
+/** The storage provider selected by MEDIA_STORAGE_PROVIDER, built once per server process. */
+export function getMediaStorageProvider(): MediaStorageProvider {
+  if (cachedProvider) return cachedProvider;
+  const config = getMediaStorageConfig();
+  if (config.provider === "local") {
+    cachedProvider = new LocalMediaProvider(config.root, config.bucket, config.baseUrl, config.signingSecret);
+  } else if (config.provider === "s3") {
+    cachedProvider = new S3MediaProvider(config);
+  } else {
+    cachedProvider = new SupabaseMediaProvider(config.bucket);
+  }
+  return cachedProvider;
+}
 
 export function buildMediaPath(input: {
   recordType?: string;
@@ -0,0 +1,81 @@
+import { createHash } from "node:crypto";
+import { getMediaAccessConfig } from "@/lib/env";
+import { MEDIA_VARIANT_MIME_TYPE, mediaVariantPath, type MediaVariants } from "@/lib/media-variants";
+import { isProcessableImage, perceptualHash, processImage } from "@/services/media/image-processing.service";
+import { getMediaStorageProvider } from "@/services/media/media-manager.service";
+
+/** Content fingerprints used to find duplicate uploads. */
+export type MediaHashes = {
+  content_sha256: string;
+  /** Null for files that are not decodable images. */
+  perceptual_hash: string | null;
+};
+
+/** `media` columns produced by storing one upload. */
+export type StoredMediaFile = MediaHashes & {
+  storage_path: string;
+  storage_bucket: string;
+  /** Null for private media, which is only served through the content route or signed URLs. */
+  file_url: string | null;
+  width: number | null;
+  height: number | null;
+  variants: MediaVariants;
+};
+
+/** SHA-256 of the bytes as received plus, for images, a perceptual hash that survives re-encoding and resizing. */
+export async function computeMediaHashes(bytes: Buffer, mimeType: string): Promise<MediaHashes> {
+  const content_sha256 = createHash("sha256").update(bytes).digest("hex");
+  if (!isProcessableImage(mimeType)) return { content_sha256, perceptual_hash: null };
+  try {
+    return { content_sha256, perceptual_hash: await perceptualHash(bytes) };
+  } catch {
+    return { content_sha256, perceptual_hash: null };
+  }
+}
+
+/**
+ * Stores an upload and, for images, its processed forms: the original without EXIF metadata plus thumbnail and
+ * web-sized variants next to it. If processing fails the file is stored as received, so an upload is never lost
+ * to a bad or unusual image. Every upload also records its content hashes for duplicate detection.
+ */
+export async function storeMediaFile(path: string, file: File): Promise<StoredMediaFile> {
+  const provider = getMediaStorageProvider();
+  const isPrivate = getMediaAccessConfig().mode === "private";
+  const bytes = Buffer.from(await file.arrayBuffer());
+  const location = { storage_path: path, storage_bucket: provider.bucket, ...(await computeMediaHashes(bytes, file.type || "")) };
+  if (!isProcessableImage(file.type || "")) {
+    const uploaded = await provider.upload(path, file);
+    return { ...location, file_url: isPrivate ? null : uploaded.publicUrl, width: null, height: null, variants: {} };
+  }
+
+  let processed: Awaited<ReturnType<typeof processImage>>;
+  try {
+    processed = await processImage(bytes);
+  } catch (error) {
+    console.error("[media] image processing failed; storing original as received", {
+      path,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    const uploaded = await provider.upload(path, file);
+    return { ...location, file_url: isPrivate ? null : uploaded.publicUrl, width: null, height: null, variants: {} };
+  }
+
+  const original = processed.original ? new File([processed.original.buffer], file.name, { type: processed.original.mimeType }) : file;
+  const uploaded = await provider.upload(path, original);
+
+  const variants: MediaVariants = {};
+  for (const variant of processed.variants) {
+    const variantPath = mediaVariantPath(path, variant.name);
+    const stored = await provider.upload(variantPath, new File([variant.buffer], variantPath.split("/").pop() || variant.name, { type: MEDIA_VARIANT_MIME_TYPE }));
+    variants[variant.name] = {
+      path: variantPath,
+      ...(isPrivate ? {} : { url: stored.publicUrl }),
+      width: variant.width,
+      height: variant.height,
+      size: variant.buffer.length,
+      mime_type: MEDIA_VARIANT_MIME_TYPE
+    };
+  }
+
+  return { ...location, file_url: isPrivate ? null : uploaded.publicUrl, width: processed.width, height: processed.height, variants };
+}
@@ -0,0 +1,13 @@
+import { z } from "zod";
+import { WATERMARK_POSITIONS } from "@/lib/media-watermark";
+
+const formFlag = z.enum(["true", "false"]).default("false").transform((value) => value === "true");
+
+/** Non-file fields of the multipart watermark settings form; the logo arrives as an optional `logo` file. */
+export const watermarkSettingsFormSchema = z.object({
+  enabled: formFlag,
+  position: z.enum(WATERMARK_POSITIONS),
+  opacity: z.coerce.number().min(0.05).max(1),
+  text_template: z.string().max(120).default(""),
+  remove_logo: formFlag
+});
@@ -0,0 +1,249 @@
+import "server-only";
+import sharp from "sharp";
+import { getMediaAccessConfig } from "@/lib/env";
+import { createSupabaseAdminClient } from "@/lib/supabase/admin";
+import type { MediaVariants } from "@/lib/media-variants";
+import {
+  DEFAULT_WATERMARK_SETTINGS,
+  WATERMARK_FAMILY_BY_RECORD_TYPE,
+  isWatermarkRecordType,
+  watermarkKey,
+  watermarkText,
+  type MediaWatermarkSettings,
+  type WatermarkPosition,
+  type WatermarkRecordType
+} from "@/lib/media-watermark";
+import { ensureHierarchyFamilyRoot } from "@/services/hierarchy/hierarchy.service";
+import { fetchRemoteMedia } from "@/services/intake/intake-media.service";
+import { renderWatermark } from "@/services/media/image-processing.service";
+import { MEDIA_LOCATION_SELECT, locateMediaObject, mediaObjectUrl } from "@/services/media/media-access.service";
+import { getMediaStorageProvider } from "@/services/media/media-manager.service";
+
+const WATERMARK_SETTINGS_SELECT = "root_node_id, enabled, logo_path, logo_url, position, opacity, text_template, updated_by, updated_at";
+const LOGO_MAX_EDGE = 1200;
+const WATERMARK_FAMILIES = ["sale", "rent"] as const;
+
+/** A media row with the columns watermarking needs. */
+export type WatermarkMediaRow = {
+  id: string;
+  file_url: string | null;
+  storage_path: string | null;
+  storage_bucket: string | null;
+  media_type: string;
+  record_type: string | null;
+  record_id: string | null;
+  variants: MediaVariants | null;
+};
+
+/** Settings plus the logo bytes, loaded once and reused for every photo rendered in a request. */
+export type LoadedWatermark = { settings: MediaWatermarkSettings; logo: Buffer | null };
+
+function normalizeSettings(rootNodeId: string, row: Record<string, unknown> | null): MediaWatermarkSettings {
+  if (!row) return { root_node_id: rootNodeId, ...DEFAULT_WATERMARK_SETTINGS, updated_by: null, updated_at: "" };
+  return {
+    root_node_id: String(row.root_node_id),
+    enabled: Boolean(row.enabled),
+    logo_path: row.logo_path ? String(row.logo_path) : null,
+    logo_url: row.logo_url ? String(row.logo_url) : null,
+    position: String(row.position || DEFAULT_WATERMARK_SETTINGS.position) as WatermarkPosition,
+    opacity: Number(row.opacity ?? DEFAULT_WATERMARK_SETTINGS.opacity),
+    text_template: String(row.text_template ?? ""),
+    updated_by: row.updated_by ? String(row.updated_by) : null,
+    updated_at: String(row.updated_at || "")
+  };
+}
+
+/** Settings as the admin page shows them; private logos get a signed URL so the preview still loads. */
+async function presentSettings(settings: MediaWatermarkSettings) {
+  if (!settings.logo_path) return settings;
+  const location = { bucket: getMediaStorageProvider().bucket, path: settings.logo_path };
+  return { ...settings, logo_url: await mediaObjectUrl(location, settings.logo_url) };
+}
+
+/** Watermark settings for each listing family root (sale and rent), creating missing roots as the tree pages do. */
+export async function fetchWatermarkSettingsByRoot() {
+  const roots = await Promise.all(WATERMARK_FAMILIES.map((family) => ensureHierarchyFamilyRoot({ family })));
+  const admin = createSupabaseAdminClient();
+  const { data, error } = await admin
+    .from("media_watermark_settings")
+    .select(WATERMARK_SETTINGS_SELECT)
+    .in("root_node_id", roots.map((root) => root.id));
+  if (error) throw new Error(error.message);
+
+  const rowsByRoot = new Map((data || []).map((row) => [String(row.root_node_id), row as Record<string, unknown>]));
+  return Promise.all(
+    roots.map(async (root) => ({
+      root: { id: root.id, family: root.family, name: root.name },
+      settings: await presentSettings(normalizeSettings(root.id, rowsByRoot.get(root.id) || null))
+    }))
+  );
+}
+
+/** Re-encodes an uploaded logo as PNG (keeping transparency) so any image format renders the same way. */
+async function storeLogo(rootNodeId: string, file: File) {
+  let png: Buffer;
+  try {
+    png = await sharp(Buffer.from(await file.arrayBuffer()))
+      .resize({ width: LOGO_MAX_EDGE, height: LOGO_MAX_EDGE, fit: "inside", withoutEnlargement: true })
+      .png()
+      .toBuffer();
+  } catch {
+    throw new Error("Logo must be a PNG, JPEG or WebP image");
+  }
+  const path = `watermarks/${rootNodeId}/${Date.now()}_logo.png`;
+  const uploaded = await getMediaStorageProvider().upload(path, new File([png], "logo.png", { type: "image/png" }));
+  return { logo_path: path, logo_url: getMediaAccessConfig().mode === "private" ? null : uploaded.publicUrl };
+}
+
+export async function saveWatermarkSettings(
+  rootNodeId: string,
+  input: { enabled: boolean; position: WatermarkPosition; opacity: number; text_template: string; remove_logo: boolean },
+  logo: File | null,
+  actorUserId: string | null
+) {
+  const admin = createSupabaseAdminClient();
+  const { data: root, error: rootError } = await admin.from("hierarchy_nodes").select("id, family, is_root").eq("id", rootNodeId).maybeSingle();
+  if (rootError) throw new Error(rootError.message);
+  if (!root) throw new Error("Hierarchy root not found");
+  if (!root.is_root || !WATERMARK_FAMILIES.includes(root.family as (typeof WATERMARK_FAMILIES)[number])) {
+    throw new Error("Watermarks can only be set on the sale or rent hierarchy root");
+  }
+
+  const { data: existing, error: existingError } = await admin
+    .from("media_watermark_settings")
+    .select(WATERMARK_SETTINGS_SELECT)
+    .eq("root_node_id", rootNodeId)
+    .maybeSingle();
+  if (existingError) throw new Error(existingError.message);
+  const current = normalizeSettings(rootNodeId, existing as Record<string, unknown> | null);
+
+  const logoColumns = logo ? await storeLogo(rootNodeId, logo) : input.remove_logo ? { logo_path: null, logo_url: null } : { logo_path: current.logo_path, logo_url: current.logo_url };
+  if (input.enabled && !logoColumns.logo_path && !input.text_template.trim()) throw new Error("Add a logo or caption text before enabling the watermark");
+
+  // A new updated_at changes every watermark key, so copies rendered with the old settings are replaced on next use.
+  const { data, error } = await admin
+    .from("media_watermark_settings")
+    .upsert({
+      root_node_id: rootNodeId,
+      enabled: input.enabled,
+      ...logoColumns,
+      position: input.position,
+      opacity: input.opacity,
+      text_template: input.text_template.trim(),
+      updated_by: actorUserId,
+      updated_at: new Date().toISOString()
+    })
+    .select(WATERMARK_SETTINGS_SELECT)
+    .single();
+  if (error || !data) throw new Error(error?.message || "Could not save watermark settings");
+
+  if (current.logo_path && current.logo_path !== logoColumns.logo_path) {
+    try {
+      await getMediaStorageProvider().remove([current.logo_path]);
+    } catch (removeError) {
+      console.error("[media-watermark] failed to remove replaced logo", {
+        path: current.logo_path,
+        error: removeError instanceof Error ? removeError.message : String(removeError)
+      });
+    }
+  }
+
+  return { before: current, settings: await presentSettings(normalizeSettings(rootNodeId, data as Record<string, unknown>)) };
+}
+
+/** The enabled watermark for a listing record type with its logo loaded, or null when that family has none. */
+export async function loadWatermarkForRecordType(recordType: WatermarkRecordType): Promise<LoadedWatermark | null> {
+  const admin = createSupabaseAdminClient();
+  const { data: root, error: rootError } = await admin
+    .from("hierarchy_nodes")
+    .select("id")
+    .eq("family", WATERMARK_FAMILY_BY_RECORD_TYPE[recordType])
+    .eq("is_root", true)
+    .maybeSingle();
+  if (rootError) throw new Error(rootError.message);
+  if (!root) return null;
+
+  const { data, error } = await admin.from("media_watermark_settings").select(WATERMARK_SETTINGS_SELECT).eq("root_node_id", root.id).maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data?.enabled) return null;
+
+  const settings = normalizeSettings(String(root.id), data as Record<string, unknown>);
+  const logo = settings.logo_path ? await getMediaStorageProvider().download(settings.logo_path) : null;
+  return { settings, logo };
+}
+
+/** Bytes of the photo to watermark, read through the storage provider; URLs it did not issue are fetched instead. */
+async function readSourceImage(media: WatermarkMediaRow) {
+  const location = locateMediaObject(media, "web") || locateMediaObject(media);
+  if (location) return getMediaStorageProvider().download(location.path, location.bucket);
+  if (!media.file_url) throw new Error("Media file not found");
+  return Buffer.from((await fetchRemoteMedia(media.file_url)).bytes);
+}
+
+/**
+ * URL of the watermarked copy of a listing photo, rendering it first when it is missing or was made with older
+ * settings or another listing code. Renders from the web variant when there is one, so the original is never touched.
+ */
+export async function ensureWatermarkedMedia(media: WatermarkMediaRow, watermark: LoadedWatermark, listing: { code: string }, ttlSeconds?: number) {
+  const key = watermarkKey(watermark.settings, listing);
+  const variants = media.variants || {};
+  const cachedLocation = locateMediaObject(media, "watermarked");
+  if (variants.watermarked?.watermark_key === key && cachedLocation) return mediaObjectUrl(cachedLocation, variants.watermarked.url, ttlSeconds);
+
+  const rendered = await renderWatermark(await readSourceImage(media), {
+    logo: watermark.logo,
+    text: watermarkText(watermark.settings.text_template, listing),
+    position: watermark.settings.position,
+    opacity: watermark.settings.opacity
+  });
+
+  const path = `media/${media.record_type}/${media.record_id}/${media.id}__watermarked.jpg`;
+  const provider = getMediaStorageProvider();
+  const uploaded = await provider.upload(path, new File([rendered.buffer], `${media.id}.jpg`, { type: rendered.mimeType }), { upsert: true });
+  // The object is replaced in place, so the version parameter keeps CDNs and browsers from serving the old copy.
+  const url = getMediaAccessConfig().mode === "private" ? undefined : `${uploaded.publicUrl}?v=${Date.now().toString(36)}`;
+  const nextVariants: MediaVariants = {
+    ...variants,
+    watermarked: { path, url, width: rendered.width, height: rendered.height, size: rendered.buffer.length, mime_type: rendered.mimeType, watermark_key: key }
+  };
+
+  const admin = createSupabaseAdminClient();
+  const { error } = await admin.from("media").update({ variants: nextVariants }).eq("id", media.id);
+  if (error) throw new Error(error.message);
+  return mediaObjectUrl({ bucket: provider.bucket, path }, url, ttlSeconds);
+}
+
+async function fetchListingCode(recordType: WatermarkRecordType, recordId: string) {
+  const admin = createSupabaseAdminClient();
+  const { data, error } = await admin.from(recordType).select("code").eq("id", recordId).maybeSingle();
+  if (error) throw new Error(error.message);
+  return String(data?.code || "");
+}
+
+async function originalMediaUrl(media: WatermarkMediaRow) {
+  const location = locateMediaObject(media);
+  if (location) return mediaObjectUrl(location, media.file_url);
+  if (media.file_url) return media.file_url;
+  throw new Error("Media file not found");
+}
+
+/**
+ * Where a download of this media item should point: the watermarked copy for photos of sale and rent listings when
+ * their root has a watermark enabled, otherwise the original.
+ */
+export async function resolveMediaDownloadUrl(mediaId: string) {
+  const admin = createSupabaseAdminClient();
+  const { data, error } = await admin.from("media").select(`id, media_type, record_type, record_id, ${MEDIA_LOCATION_SELECT}`).eq("id", mediaId).maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data) throw new Error("Media item not found");
+  const media = data as WatermarkMediaRow;
+
+  if (media.media_type !== "image" || !isWatermarkRecordType(media.record_type) || !media.record_id) {
+    return { url: await originalMediaUrl(media), watermarked: false, record_type: media.record_type };
+  }
+  const watermark = await loadWatermarkForRecordType(media.record_type);
+  if (!watermark) return { url: await originalMediaUrl(media), watermarked: false, record_type: media.record_type };
+
+  const code = await fetchListingCode(media.record_type, media.record_id);
+  return { url: await ensureWatermarkedMedia(media, watermark, { code }), watermarked: true, record_type: media.record_type };
+}
@@ -0,0 +1,121 @@
+import { encodeRfc3986, presignS3Url, sha256Hex, signS3Request, type S3Credentials } from "@/lib/s3-signature";
+import { MediaStorageProvider, StorageObjectLocation, StorageUploadOptions, StorageUploadResult } from "./storage-provider";
+
+export type S3MediaProviderConfig = {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** CDN or custom domain that serves the bucket; defaults to the endpoint. */
+  publicBaseUrl: string | null;
+  /** `endpoint/bucket/key` URLs (MinIO, most self-hosted stores) instead of `bucket.endpoint/key`. */
+  forcePathStyle: boolean;
+};
+
+function s3ErrorFromBody(response: Response, body: string, action: string) {
+  const message = body.match(/<Message>([^<]*)<\/Message>/)?.[1] || response.statusText;
+  return new Error(`S3 ${action} failed (${response.status}): ${message}`);
+}
+
+async function s3Error(response: Response, action: string) {
+  return s3ErrorFromBody(response, await response.text().catch(() => ""), action);
+}
+
+/** Media storage on any S3-compatible endpoint (AWS S3, Cloudflare R2, MinIO, Wasabi), signed with SigV4 over fetch. */
+export class S3MediaProvider implements MediaStorageProvider {
+  readonly name = "s3" as const;
+  readonly bucket: string;
+  private readonly credentials: S3Credentials;
+
+  constructor(private readonly config: S3MediaProviderConfig) {
+    this.bucket = config.bucket;
+    this.credentials = { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey };
+  }
+
+  private bucketBaseUrl(bucket: string) {
+    if (this.config.forcePathStyle) return `${this.config.endpoint}/${bucket}`;
+    const endpoint = new URL(this.config.endpoint);
+    return `${endpoint.protocol}//${bucket}.${endpoint.host}`;
+  }
+
+  private objectUrl(path: string, bucket = this.bucket) {
+    return `${this.bucketBaseUrl(bucket)}/${encodeRfc3986(path, true)}`;
+  }
+
+  private async send(method: string, url: string, init: { body?: Buffer; headers?: Record<string, string> } = {}) {
+    const headers = signS3Request({
+      method,
+      url,
+      headers: init.headers,
+      payloadHash: sha256Hex(init.body || ""),
+      credentials: this.credentials,
+      region: this.config.region
+    });
+    return fetch(url, { method, headers, body: init.body ? new Uint8Array(init.body) : undefined });
+  }
+
+  async upload(path: string, file: File, options: StorageUploadOptions = {}): Promise<StorageUploadResult> {
+    const headers: Record<string, string> = { "content-type": file.type || "application/octet-stream" };
+    // Conditional writes make S3 refuse to overwrite, matching the other providers' behaviour without upsert.
+    if (!options.upsert) headers["if-none-match"] = "*";
+    const response = await this.send("PUT", this.objectUrl(path), { body: Buffer.from(await file.arrayBuffer()), headers });
+    if (response.status === 412) throw new Error("The resource already exists");
+    if (!response.ok) throw await s3Error(response, "upload");
+    return { path, publicUrl: this.getPublicUrl(path) };
+  }
+
+  async download(path: string, bucket = this.bucket) {
+    const response = await this.send("GET", this.objectUrl(path, bucket));
+    if (response.status === 404) throw new Error(`Storage object not found: ${path}`);
+    if (!response.ok) throw await s3Error(response, "download");
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  getPublicUrl(path: string, bucket = this.bucket) {
+    if (this.config.publicBaseUrl && bucket === this.bucket) return `${this.config.publicBaseUrl}/${encodeRfc3986(path, true)}`;
+    return this.objectUrl(path, bucket);
+  }
+
+  async createSignedUrl(path: string, expiresInSeconds: number, bucket = this.bucket) {
+    return presignS3Url({ method: "GET", url: this.objectUrl(path, bucket), credentials: this.credentials, region: this.config.region, expiresInSeconds });
+  }
+
+  async move(fromPath: string, toPath: string, bucket = this.bucket) {
+    // S3 has no rename: copy to the new key, then delete the old one.
+    const response = await this.send("PUT", this.objectUrl(toPath, bucket), {
+      headers: { "x-amz-copy-source": `/${bucket}/${encodeRfc3986(fromPath, true)}` }
+    });
+    // A copy can fail after S3 has already answered 200, in which case the error is in the body.
+    const body = await response.text();
+    if (!response.ok || body.includes("<Error>")) throw s3ErrorFromBody(response, body, "move");
+    await this.remove([fromPath], bucket);
+  }
+
+  async remove(paths: string[], bucket = this.bucket) {
+    for (const path of paths) {
+      const response = await this.send("DELETE", this.objectUrl(path, bucket));
+      if (!response.ok && response.status !== 404) throw await s3Error(response, "delete");
+    }
+  }
+
+  locate(url: string): StorageObjectLocation | null {
+    const [withoutQuery] = url.split(/[?#]/);
+    const bases: Array<{ prefix: string; bucket: string }> = [];
+    if (this.config.publicBaseUrl) bases.push({ prefix: `${this.config.publicBaseUrl}/`, bucket: this.bucket });
+    bases.push({ prefix: `${this.bucketBaseUrl(this.bucket)}/`, bucket: this.bucket });
+
+    const base = bases.find((item) => withoutQuery.startsWith(item.prefix));
+    if (!base) return null;
+    try {
+      const path = decodeURIComponent(withoutQuery.slice(base.prefix.length));
+      return path ? { bucket: base.bucket, path } : null;
+    } catch {
+      return null;
+    }
+  }
+
+  candidateLocations(path: string) {
+    return [{ bucket: this.bucket, path }];
+  }
+}
@@ -1,9 +1,37 @@
+export type MediaStorageProviderName = "supabase" | "local" | "s3";
+
 export type StorageUploadResult = {
   path: string;
   publicUrl: string;
 };
 
+export type StorageUploadOptions = {
+  /** Replace an existing object at `path` instead of failing. */
+  upsert?: boolean;
+};
+
+/** Where an object lives. `bucket` is the Supabase or S3 bucket, or the top-level folder of the local store. */
+export type StorageObjectLocation = {
+  bucket: string;
+  path: string;
+};
+
+/**
+ * Object storage for media files. Paths are relative to a bucket; operations that take an optional `bucket` default
+ * to the provider's own, which is where every new upload goes.
+ */
 export interface MediaStorageProvider {
-  upload(path: string, file: File): Promise<StorageUploadResult>;
-  getPublicUrl(path: string): string;
+  readonly name: MediaStorageProviderName;
+  readonly bucket: string;
+  upload(path: string, file: File, options?: StorageUploadOptions): Promise<StorageUploadResult>;
+  download(path: string, bucket?: string): Promise<Buffer>;
+  getPublicUrl(path: string, bucket?: string): string;
+  createSignedUrl(path: string, expiresInSeconds: number, bucket?: string): Promise<string>;
+  move(fromPath: string, toPath: string, bucket?: string): Promise<void>;
+  /** Deletes objects; paths that do not exist are not an error. */
+  remove(paths: string[], bucket?: string): Promise<void>;
+  /** The object behind a URL this provider issued (public or signed), or null for any other URL. */
+  locate(url: string): StorageObjectLocation | null;
+  /** Every location a stored path may be in, for cleanup of rows whose bucket was never recorded. */
+  candidateLocations(path: string): StorageObjectLocation[];
 }
@@ -1,22 +1,78 @@
+import { createSupabaseAdminClient } from "@/lib/supabase/admin";
 import { createSupabaseClient } from "@/services/supabase/client";
-import { MediaStorageProvider, StorageUploadResult } from "./storage-provider";
+import { MediaStorageProvider, StorageObjectLocation, StorageUploadOptions, StorageUploadResult } from "./storage-provider";
+
+// Older uploads went to `crm-media`; rows from that time may only have a path, so cleanup checks both buckets.
+const KNOWN_MEDIA_BUCKETS = ["crm-media", "media"];
+const URL_MARKERS = ["/object/public/", "/object/sign/", "/object/authenticated/"];
+
+function isMissingObjectError(message: string) {
+  const normalized = message.toLowerCase();
+  return normalized.includes("not found") || normalized.includes("no such object");
+}
 
 export class SupabaseMediaProvider implements MediaStorageProvider {
-  constructor(private readonly bucket = "media") {}
+  readonly name = "supabase" as const;
 
-  async upload(path: string, file: File): Promise<StorageUploadResult> {
+  constructor(readonly bucket = "media") {}
+
+  async upload(path: string, file: File, options: StorageUploadOptions = {}): Promise<StorageUploadResult> {
     const supabase = createSupabaseClient();
     const { error } = await supabase.storage.from(this.bucket).upload(path, file, {
       contentType: file.type || "application/octet-stream",
-      upsert: false
+      upsert: options.upsert ?? false
     });
 
     if (error) throw new Error(error.message);
     return { path, publicUrl: this.getPublicUrl(path) };
   }
 
-  getPublicUrl(path: string) {
+  getPublicUrl(path: string, bucket = this.bucket) {
     const supabase = createSupabaseClient();
-    return supabase.storage.from(this.bucket).getPublicUrl(path).data.publicUrl;
+    return supabase.storage.from(bucket).getPublicUrl(path).data.publicUrl;
+  }
+
+  // The remaining operations also run outside a user session (cleanup, public API), so they use the service role.
+  async download(path: string, bucket = this.bucket) {
+    const { data, error } = await createSupabaseAdminClient().storage.from(bucket).download(path);
+    if (error || !data) throw new Error(error?.message || `Storage object not found: ${path}`);
+    return Buffer.from(await data.arrayBuffer());
+  }
+
+  async createSignedUrl(path: string, expiresInSeconds: number, bucket = this.bucket) {
+    const { data, error } = await createSupabaseAdminClient().storage.from(bucket).createSignedUrl(path, expiresInSeconds);
+    if (error || !data) throw new Error(error?.message || "Failed to sign storage URL");
+    return data.signedUrl;
+  }
+
+  async move(fromPath: string, toPath: string, bucket = this.bucket) {
+    const { error } = await createSupabaseAdminClient().storage.from(bucket).move(fromPath, toPath);
+    if (error) throw new Error(error.message);
+  }
+
+  async remove(paths: string[], bucket = this.bucket) {
+    if (paths.length === 0) return;
+    const { error } = await createSupabaseAdminClient().storage.from(bucket).remove(paths);
+    if (error && !isMissingObjectError(error.message)) throw new Error(error.message);
+  }
+
+  locate(url: string): StorageObjectLocation | null {
+    try {
+      const parsed = new URL(url);
+      const marker = URL_MARKERS.find((item) => parsed.pathname.includes(item));
+      if (!marker) return null;
+
+      const tail = parsed.pathname.slice(parsed.pathname.indexOf(marker) + marker.length);
+      const [bucket, ...pathParts] = tail.split("/").filter(Boolean);
+      const path = decodeURIComponent(pathParts.join("/"));
+      if (!bucket || !path) return null;
+      return { bucket, path };
+    } catch {
+      return null;
+    }
+  }
+
+  candidateLocations(path: string) {
+    return Array.from(new Set([this.bucket, ...KNOWN_MEDIA_BUCKETS])).map((bucket) => ({ bucket, path }));
   }
 }
@@ -0,0 +1,125 @@
+import assert from "node:assert/strict";
+import http from "node:http";
+import net from "node:net";
+import test from "node:test";
+import { TelegramIntegrationService } from "@/services/integrations/telegram.service";
+import { createEmailChannel, createTelegramChannel } from "@/services/notifications/outbound-channel.service";
+
+/** Minimal SMTP sink: accepts one session and records the commands, envelope and DATA payload. */
+function startSmtpSink() {
+  const received: { commands: string[]; from: string; to: string[]; data: string } = { commands: [], from: "", to: [], data: "" };
+  const server = net.createServer((socket) => {
+    let buffer = "";
+    let inData = false;
+    socket.write("220 sink ESMTP\r\n");
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString("utf8");
+      while (true) {
+        if (inData) {
+          const end = buffer.indexOf("\r\n.\r\n");
+          if (end < 0) return;
+          received.data = buffer.slice(0, end);
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          socket.write("250 2.0.0 queued as SINK1\r\n");
+          continue;
+        }
+        const index = buffer.indexOf("\r\n");
+        if (index < 0) return;
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        const verb = line.split(/[ :]/)[0].toUpperCase();
+        received.commands.push(verb);
+        if (verb === "EHLO") socket.write("250-sink\r\n250 8BITMIME\r\n");
+        else if (verb === "MAIL") {
+          received.from = line.slice(10).replace(/[<>]/g, "");
+          socket.write("250 OK\r\n");
+        } else if (verb === "RCPT") {
+          received.to.push(line.slice(8).replace(/[<>]/g, ""));
+          socket.write("250 OK\r\n");
+        } else if (verb === "DATA") {
+          inData = true;
+          socket.write("354 go ahead\r\n");
+        } else if (verb === "QUIT") {
+          socket.end("221 bye\r\n");
+        } else socket.write("502 unsupported\r\n");
+      }
+    });
+  });
+  return new Promise<{ server: net.Server; port: number; received: typeof received }>((resolve) => {
+    server.listen(0, "127.0.0.1", () => resolve({ server, port: (server.address() as net.AddressInfo).port, received }));
+  });
+}
+
+test("email channel delivers a digest to an SMTP sink", async () => {
+  const sink = await startSmtpSink();
+  try {
+    const channel = createEmailChannel({ host: "127.0.0.1", port: sink.port, secure: false, user: null, password: null, from: "CRM <crm@example.com>" });
+    const result = await channel.deliver("a@example.com; b@example.com", { subject: "Hot buyers: 2 records", text: "• B-1\n.hidden line", html: "<p>B-1</p>" });
+
+    assert.equal(result.status, "sent");
+    assert.match(result.detail, /queued as SINK1/);
+    assert.equal(sink.received.from, "crm@example.com");
+    assert.deepEqual(sink.received.to, ["a@example.com", "b@example.com"]);
+    assert.match(sink.received.data, /Subject: Hot buyers: 2 records/);
+    assert.match(sink.received.data, /multipart\/alternative/);
+    const textPart = sink.received.data.split("\r\n\r\n")[2].split("\r\n--")[0].replace(/\r\n/g, "");
+    assert.equal(Buffer.from(textPart, "base64").toString("utf8"), "• B-1\n.hidden line");
+  } finally {
+    await new Promise((resolve) => sink.server.close(resolve));
+  }
+});
+
+test("email channel refuses to authenticate when the server does not offer STARTTLS", async () => {
+  const sink = await startSmtpSink();
+  try {
+    const channel = createEmailChannel({ host: "127.0.0.1", port: sink.port, secure: false, user: "crm", password: "secret", from: "crm@example.com" });
+    const result = await channel.deliver("a@example.com", { subject: "s", text: "t" });
+
+    assert.equal(result.status, "failed");
+    assert.match(result.detail, /does not offer STARTTLS/);
+    assert.deepEqual(sink.received.commands, ["EHLO"]);
+  } finally {
+    await new Promise((resolve) => sink.server.close(resolve));
+  }
+});
+
+test("email channel reports missing SMTP configuration", async () => {
+  const result = await createEmailChannel(null).deliver("a@example.com", { subject: "s", text: "t" });
+  assert.equal(result.status, "not_configured");
+});
+
+test("telegram channel posts to the Bot API and surfaces API errors", async () => {
+  const requests: Array<{ url: string; body: Record<string, unknown> }> = [];
+  const server = http.createServer((request, response) => {
+    let body = "";
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => {
+      const parsed = JSON.parse(body) as Record<string, unknown>;
+      requests.push({ url: request.url || "", body: parsed });
+      response.setHeader("Content-Type", "application/json");
+      if (parsed.chat_id === "-100") {
+        response.statusCode = 400;
+        response.end(JSON.stringify({ ok: false, description: "Bad Request: chat not found" }));
+        return;
+      }
+      response.end(JSON.stringify({ ok: true, result: { message_id: 42 } }));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const apiBaseUrl = `http://127.0.0.1:${(server.address() as net.AddressInfo).port}`;
+
+  try {
+    const channel = createTelegramChannel(new TelegramIntegrationService({ botToken: "123:abc", apiBaseUrl }));
+    const sent = await channel.deliver("5551234", { subject: "New sale: 1 record", text: "• S-1" });
+    assert.deepEqual(sent, { status: "sent", detail: "message 42" });
+    assert.equal(requests[0].url, "/bot123:abc/sendMessage");
+    assert.equal(requests[0].body.chat_id, "5551234");
+    assert.equal(requests[0].body.text, "New sale: 1 record\n\n• S-1");
+
+    const failed = await channel.deliver("-100", { subject: "s", text: "t" });
+    assert.deepEqual(failed, { status: "failed", detail: "Bad Request: chat not found" });
+  } finally {
+    await new Promise((resolve) => server.close(resolve));
+  }
+});
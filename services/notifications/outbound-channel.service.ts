@@ -0,0 +1,57 @@
+import { getSmtpConfig } from "@/lib/env";
+import { TelegramIntegrationService } from "@/services/integrations/telegram.service";
+import { sendSmtpMail, type SmtpConfig } from "@/services/notifications/smtp-mailer.service";
+
+export type OutboundChannelKind = "email" | "telegram";
+
+export type OutboundMessage = {
+  subject: string;
+  text: string;
+  html?: string;
+};
+
+export type OutboundDeliveryResult =
+  | { status: "sent"; detail: string }
+  | { status: "failed"; detail: string }
+  | { status: "not_configured"; detail: string };
+
+/** A way of pushing a message to a person outside the CRM; `destination` is channel-specific (address, chat id). */
+export type OutboundChannel = {
+  kind: OutboundChannelKind;
+  deliver: (destination: string, message: OutboundMessage) => Promise<OutboundDeliveryResult>;
+};
+
+export function createEmailChannel(config: SmtpConfig | null = getSmtpConfig()): OutboundChannel {
+  return {
+    kind: "email",
+    async deliver(destination, message) {
+      if (!config) return { status: "not_configured", detail: "SMTP_HOST and SMTP_FROM are not set" };
+      const recipients = destination
+        .split(/[,;]/)
+        .map((address) => address.trim())
+        .filter(Boolean);
+      try {
+        const result = await sendSmtpMail(config, { to: recipients, subject: message.subject, text: message.text, html: message.html });
+        return { status: "sent", detail: result.response };
+      } catch (error) {
+        return { status: "failed", detail: error instanceof Error ? error.message : "SMTP delivery failed" };
+      }
+    }
+  };
+}
+
+export function createTelegramChannel(service = new TelegramIntegrationService()): OutboundChannel {
+  return {
+    kind: "telegram",
+    async deliver(destination, message) {
+      const result = await service.notify(`${message.subject}\n\n${message.text}`, { chatId: destination });
+      if (result.status === "sent") return { status: "sent", detail: `message ${result.messageId ?? "?"}` };
+      if (result.status === "not_configured") return { status: "not_configured", detail: "TELEGRAM_BOT_TOKEN is not set" };
+      return { status: "failed", detail: result.error };
+    }
+  };
+}
+
+export function getOutboundChannel(kind: OutboundChannelKind): OutboundChannel {
+  return kind === "email" ? createEmailChannel() : createTelegramChannel();
+}
@@ -0,0 +1,198 @@
+import net from "node:net";
+import os from "node:os";
+import tls from "node:tls";
+import { randomUUID } from "node:crypto";
+
+export type SmtpConfig = {
+  host: string;
+  port: number;
+  secure: boolean;
+  user: string | null;
+  password: string | null;
+  from: string;
+};
+
+export type MailMessage = {
+  to: string[];
+  subject: string;
+  text: string;
+  html?: string;
+};
+
+type SmtpReply = { code: number; lines: string[] };
+
+const SMTP_TIMEOUT_MS = 15_000;
+
+function encodeHeader(value: string) {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+function base64Body(value: string) {
+  return (Buffer.from(value, "utf8").toString("base64").match(/.{1,76}/g) || []).join("\r\n");
+}
+
+/** Builds an RFC 5322 message; bodies are base64 so long lines and non-ASCII text survive any relay. */
+export function buildMimeMessage(from: string, message: MailMessage, now = new Date()) {
+  const boundary = `crm-${randomUUID()}`;
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to.join(", ")}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${now.toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${from.split("@").pop()?.replace(/[<>\s]/g, "") || "localhost"}>`,
+    "MIME-Version: 1.0"
+  ];
+  const textPart = ["Content-Type: text/plain; charset=utf-8", "Content-Transfer-Encoding: base64", "", base64Body(message.text)];
+  if (!message.html) return [...headers, ...textPart].join("\r\n");
+
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    ...textPart,
+    `--${boundary}`,
+    "Content-Type: text/html; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Body(message.html),
+    `--${boundary}--`
+  ].join("\r\n");
+}
+
+function addressOnly(value: string) {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim();
+}
+
+/** Reads SMTP replies off a socket; a reply is complete when its last line has a space after the code. */
+class SmtpConnection {
+  private buffer = "";
+  private replies: SmtpReply[] = [];
+  private waiters: Array<{ resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }> = [];
+  private pendingLines: string[] = [];
+  private failure: Error | null = null;
+
+  constructor(private socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket) {
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error("SMTP connection timed out")));
+    // Left as Buffers (no setEncoding) so the raw socket can still be handed to tls.connect for STARTTLS.
+    socket.on("data", (chunk: Buffer) => this.onData(chunk.toString("utf8")));
+    socket.on("error", (error) => this.fail(error));
+    socket.on("close", () => this.fail(new Error("SMTP connection closed")));
+  }
+
+  private onData(chunk: string) {
+    this.buffer += chunk;
+    let index = this.buffer.indexOf("\r\n");
+    while (index >= 0) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      this.pendingLines.push(line);
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply = { code: Number(line.slice(0, 3)), lines: this.pendingLines.map((item) => item.slice(4)) };
+        this.pendingLines = [];
+        const waiter = this.waiters.shift();
+        if (waiter) waiter.resolve(reply);
+        else this.replies.push(reply);
+      }
+      index = this.buffer.indexOf("\r\n");
+    }
+  }
+
+  private fail(error: Error) {
+    if (this.failure) return;
+    this.failure = error;
+    this.waiters.splice(0).forEach((waiter) => waiter.reject(error));
+  }
+
+  read() {
+    const queued = this.replies.shift();
+    if (queued) return Promise.resolve(queued);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise<SmtpReply>((resolve, reject) => this.waiters.push({ resolve, reject }));
+  }
+
+  async command(line: string, expected: number[]) {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected, line.split(" ")[0]);
+  }
+
+  async expect(expected: number[], step: string) {
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) throw new Error(`SMTP ${step} failed: ${reply.code} ${reply.lines.join(" ")}`);
+    return reply;
+  }
+
+  async upgradeToTls(host: string) {
+    this.socket.removeAllListeners("data");
+    this.socket.removeAllListeners("close");
+    this.socket.removeAllListeners("error");
+    const secured = tls.connect({ socket: this.socket, servername: host });
+    await new Promise<void>((resolve, reject) => {
+      secured.once("secureConnect", () => resolve());
+      secured.once("error", reject);
+    });
+    this.socket = secured;
+    this.attach(secured);
+  }
+
+  close() {
+    this.socket.end();
+  }
+}
+
+function connect(config: SmtpConfig) {
+  return new Promise<net.Socket>((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host }, () => resolve(socket))
+      : net.connect({ host: config.host, port: config.port }, () => resolve(socket));
+    socket.once("error", reject);
+  });
+}
+
+/**
+ * Sends one message over SMTP without a mail library: implicit TLS when `secure`, otherwise STARTTLS
+ * when the server offers it, and AUTH PLAIN when credentials are configured. Credentials are never sent
+ * over plaintext, so a server without STARTTLS is refused once a user is set.
+ */
+export async function sendSmtpMail(config: SmtpConfig, message: MailMessage) {
+  if (message.to.length === 0) throw new Error("SMTP message has no recipients");
+  const connection = new SmtpConnection(await connect(config));
+  const clientName = os.hostname() || "localhost";
+
+  try {
+    await connection.expect([220], "greeting");
+    const ehlo = await connection.command(`EHLO ${clientName}`, [250]);
+    const offersStartTls = ehlo.lines.some((line) => line.toUpperCase().startsWith("STARTTLS"));
+    if (!config.secure && offersStartTls) {
+      await connection.command("STARTTLS", [220]);
+      await connection.upgradeToTls(config.host);
+      await connection.command(`EHLO ${clientName}`, [250]);
+    } else if (!config.secure && config.user) {
+      throw new Error("SMTP server does not offer STARTTLS; refusing to send credentials unencrypted");
+    }
+    if (config.user) {
+      const token = Buffer.from(`\u0000${config.user}\u0000${config.password || ""}`, "utf8").toString("base64");
+      await connection.command(`AUTH PLAIN ${token}`, [235]);
+    }
+
+    await connection.command(`MAIL FROM:<${addressOnly(config.from)}>`, [250]);
+    for (const recipient of message.to) {
+      await connection.command(`RCPT TO:<${addressOnly(recipient)}>`, [250, 251]);
+    }
+    await connection.command("DATA", [354]);
+    const body = buildMimeMessage(config.from, message)
+      .split("\r\n")
+      .map((line) => (line.startsWith(".") ? `.${line}` : line))
+      .join("\r\n");
+    const accepted = await connection.command(`${body}\r\n.`, [250]);
+    await connection.command("QUIT", [221]).catch(() => null);
+    return { response: accepted.lines.join(" ") };
+  } finally {
+    connection.close();
+  }
+}
@@ -0,0 +1,74 @@
+import { z } from "zod";
+
+const FURNISHED_VALUES = ["furnished", "semi_furnished", "unfurnished", "unknown"] as const;
+
+// Comma-separated query values (`area=Zayed,October`); repeated keys are joined before parsing.
+const csvList = (description: string) =>
+  z
+    .preprocess(
+      (value) =>
+        typeof value === "string"
+          ? value
+              .split(",")
+              .map((item) => item.trim())
+              .filter(Boolean)
+          : value,
+      z.array(z.string().max(120)).max(20)
+    )
+    .optional()
+    .describe(description);
+
+export const listListingsQuerySchema = z.object({
+  type: z.enum(["sale", "rent"]).describe("Listing family to page through."),
+  limit: z.coerce.number().int().min(1).max(100).default(20).describe("Page size."),
+  cursor: z.string().max(200).optional().describe("`next_cursor` from the previous page."),
+  price_min: z.coerce.number().nonnegative().optional().describe("Minimum price, inclusive."),
+  price_max: z.coerce.number().nonnegative().optional().describe("Maximum price, inclusive."),
+  currency: z.string().trim().toUpperCase().length(3).optional().describe("ISO currency code, e.g. EGP."),
+  size_min: z.coerce.number().nonnegative().optional().describe("Minimum size in square metres."),
+  size_max: z.coerce.number().nonnegative().optional().describe("Maximum size in square metres."),
+  bedrooms_min: z.coerce.number().int().nonnegative().optional().describe("Minimum bedrooms."),
+  bedrooms_max: z.coerce.number().int().nonnegative().optional().describe("Maximum bedrooms."),
+  bathrooms_min: z.coerce.number().int().nonnegative().optional().describe("Minimum bathrooms."),
+  bathrooms_max: z.coerce.number().int().nonnegative().optional().describe("Maximum bathrooms."),
+  area: csvList("Areas to include, comma-separated."),
+  compound: csvList("Compounds to include, comma-separated."),
+  furnished: z.enum(FURNISHED_VALUES).optional().describe("Furnishing state.")
+});
+
+export type ListListingsQuery = z.infer<typeof listListingsQuerySchema>;
+
+export const publicListingSchema = z.object({
+  code: z.string().describe("Stable listing code, e.g. SALE-2026-014."),
+  type: z.enum(["sale", "rent"]),
+  price: z.number().nullable(),
+  currency: z.string(),
+  size_sqm: z.number().nullable(),
+  bedrooms: z.number().int().nullable(),
+  bathrooms: z.number().int().nullable(),
+  area: z.string(),
+  compound: z.string(),
+  floor: z.number().int().nullable(),
+  furnished: z.enum(FURNISHED_VALUES),
+  finishing: z.string(),
+  payment_terms: z.string(),
+  location: z
+    .object({ lat: z.number(), lng: z.number() })
+    .nullable()
+    .describe("Approximate position, rounded to about 100 m."),
+  primary_image_url: z.string().nullable().describe("First uploaded photo."),
+  image_urls: z.array(z.string()).describe("Up to 10 photos, oldest first."),
+  created_at: z.string().datetime({ offset: true }),
+  updated_at: z.string().datetime({ offset: true })
+});
+
+export type PublicListing = z.infer<typeof publicListingSchema>;
+
+export const listingPageSchema = z.object({
+  data: z.array(publicListingSchema),
+  next_cursor: z.string().nullable().describe("Pass as `cursor` to fetch the next page; null on the last page.")
+});
+
+export const listingDetailSchema = z.object({ data: publicListingSchema });
+
+export const apiErrorSchema = z.object({ error: z.string() });
@@ -0,0 +1,170 @@
+import type { GridFilters } from "@/services/grid/grid-records.service";
+import { getMediaAccessConfig } from "@/lib/env";
+import { createSupabaseAdminClient } from "@/lib/supabase/admin";
+import {
+  approximateLocation,
+  decodeListingCursor,
+  encodeListingCursor,
+  listingTableByType,
+  listingTypeFromCode,
+  type ListingType
+} from "@/lib/public-listings";
+import type { ListListingsQuery, PublicListing } from "@/services/public-api/listings.schemas";
+import { MEDIA_LOCATION_SELECT, locateMediaObject, mediaObjectUrl } from "@/services/media/media-access.service";
+import { ensureWatermarkedMedia, loadWatermarkForRecordType, type WatermarkMediaRow } from "@/services/media/media-watermark.service";
+
+// The public subset of the grid's property filters; everything else (notes, source, presets…) stays internal.
+export type PublicListingFilters = Pick<GridFilters, "price" | "currency" | "size" | "bedrooms" | "bathrooms" | "areas" | "compounds" | "furnished">;
+
+// Explicit column list: owner links (client_id, contact_id), notes, source and intake data never leave the CRM.
+const PUBLIC_LISTING_SELECT =
+  "id, code, price, currency, size_sqm, bedrooms, bathrooms, area, compound, floor, furnished, finishing, payment_terms, latitude, longitude, created_at, updated_at";
+const MAX_IMAGES_PER_LISTING = 10;
+
+type ListingRow = Record<string, unknown> & { id: string; created_at: string };
+
+const rangeValue = (value: number | undefined) => (value === undefined ? undefined : String(value));
+
+function toPublicListingFilters(query: ListListingsQuery): PublicListingFilters {
+  return {
+    price: { min: rangeValue(query.price_min), max: rangeValue(query.price_max) },
+    currency: query.currency,
+    size: { min: rangeValue(query.size_min), max: rangeValue(query.size_max) },
+    bedrooms: { min: rangeValue(query.bedrooms_min), max: rangeValue(query.bedrooms_max) },
+    bathrooms: { min: rangeValue(query.bathrooms_min), max: rangeValue(query.bathrooms_max) },
+    areas: query.area,
+    compounds: query.compound,
+    furnished: query.furnished
+  };
+}
+
+function nullableNumber(value: unknown) {
+  return value === null || value === undefined || value === "" ? null : Number(value);
+}
+
+function toPublicListing(type: ListingType, row: ListingRow, imageUrls: string[]): PublicListing {
+  return {
+    code: String(row.code || ""),
+    type,
+    price: nullableNumber(row.price),
+    currency: String(row.currency || ""),
+    size_sqm: nullableNumber(row.size_sqm),
+    bedrooms: nullableNumber(row.bedrooms),
+    bathrooms: nullableNumber(row.bathrooms),
+    area: String(row.area || ""),
+    compound: String(row.compound || ""),
+    floor: nullableNumber(row.floor),
+    furnished: (row.furnished || "unknown") as PublicListing["furnished"],
+    finishing: String(row.finishing || ""),
+    payment_terms: String(row.payment_terms || ""),
+    location: approximateLocation(row.latitude, row.longitude),
+    primary_image_url: imageUrls[0] || null,
+    image_urls: imageUrls,
+    created_at: row.created_at,
+    updated_at: String(row.updated_at)
+  };
+}
+
+// Only photos are published; documents (contracts, IDs) and videos stay behind the CRM login.
+// When the family has a watermark enabled, the watermarked copies are published instead of the originals; a photo
+// whose copy cannot be rendered is left out rather than published clean. Private media is published as signed URLs
+// that last MEDIA_PUBLIC_API_URL_TTL_SECONDS.
+async function fetchListingImages(type: ListingType, rows: ListingRow[]) {
+  const imagesById = new Map<string, string[]>();
+  if (rows.length === 0) return imagesById;
+  const admin = createSupabaseAdminClient();
+  const recordType = listingTableByType[type];
+  const { data, error } = await admin
+    .from("media")
+    .select(`id, record_id, record_type, media_type, ${MEDIA_LOCATION_SELECT}`)
+    .eq("record_type", recordType)
+    .in("record_id", rows.map((row) => row.id))
+    .eq("media_type", "image")
+    .order("created_at", { ascending: true });
+  if (error) throw new Error(error.message);
+
+  const watermark = await loadWatermarkForRecordType(recordType);
+  const { publicApiUrlTtlSeconds } = getMediaAccessConfig();
+  const codeById = new Map(rows.map((row) => [row.id, String(row.code || "")]));
+  for (const item of (data || []) as WatermarkMediaRow[]) {
+    const key = String(item.record_id);
+    const urls = imagesById.get(key) || [];
+    imagesById.set(key, urls);
+    const location = locateMediaObject(item);
+    if (!location || urls.length >= MAX_IMAGES_PER_LISTING) continue;
+    if (!watermark) {
+      urls.push(await mediaObjectUrl(location, item.file_url, publicApiUrlTtlSeconds));
+      continue;
+    }
+    try {
+      urls.push(await ensureWatermarkedMedia(item, watermark, { code: codeById.get(key) || "" }, publicApiUrlTtlSeconds));
+    } catch (watermarkError) {
+      console.error("[public-api] listing photo skipped: watermark failed", {
+        mediaId: item.id,
+        error: watermarkError instanceof Error ? watermarkError.message : String(watermarkError)
+      });
+    }
+  }
+  return imagesById;
+}
+
+/** Active, unarchived listings newest first, one cursor page at a time. */
+export async function listPublicListings(query: ListListingsQuery) {
+  const cursor = query.cursor ? decodeListingCursor(query.cursor) : null;
+  if (query.cursor && !cursor) throw new Error("Invalid cursor");
+
+  const filters = toPublicListingFilters(query);
+  const admin = createSupabaseAdminClient();
+  let request = admin.from(listingTableByType[query.type]).select(PUBLIC_LISTING_SELECT).eq("is_archived", false).eq("status", "active");
+
+  if (filters.currency) request = request.eq("currency", filters.currency);
+  if (filters.furnished) request = request.eq("furnished", filters.furnished);
+  if (filters.price?.min) request = request.gte("price", Number(filters.price.min));
+  if (filters.price?.max) request = request.lte("price", Number(filters.price.max));
+  if (filters.size?.min) request = request.gte("size_sqm", Number(filters.size.min));
+  if (filters.size?.max) request = request.lte("size_sqm", Number(filters.size.max));
+  if (filters.bedrooms?.min) request = request.gte("bedrooms", Number(filters.bedrooms.min));
+  if (filters.bedrooms?.max) request = request.lte("bedrooms", Number(filters.bedrooms.max));
+  if (filters.bathrooms?.min) request = request.gte("bathrooms", Number(filters.bathrooms.min));
+  if (filters.bathrooms?.max) request = request.lte("bathrooms", Number(filters.bathrooms.max));
+  if (filters.areas?.length) request = request.in("area", filters.areas);
+  if (filters.compounds?.length) request = request.in("compound", filters.compounds);
+
+  if (cursor) {
+    request = request.or(`created_at.lt."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",id.lt.${cursor.id})`);
+  }
+
+  // One extra row tells us whether there is a next page without a count query.
+  const { data, error } = await request.order("created_at", { ascending: false }).order("id", { ascending: false }).limit(query.limit + 1);
+  if (error) throw new Error(error.message);
+
+  const rows = ((data || []) as unknown) as ListingRow[];
+  const page = rows.slice(0, query.limit);
+  const images = await fetchListingImages(query.type, page);
+  const last = page[page.length - 1];
+  return {
+    data: page.map((row) => toPublicListing(query.type, row, images.get(row.id) || [])),
+    next_cursor: rows.length > query.limit && last ? encodeListingCursor({ createdAt: last.created_at, id: last.id }) : null
+  };
+}
+
+/** Archived, inactive and unknown codes all read as not found so the API does not reveal withdrawn listings. */
+export async function getPublicListingByCode(code: string) {
+  const type = listingTypeFromCode(code);
+  if (!type) throw new Error("Listing not found");
+
+  const admin = createSupabaseAdminClient();
+  const { data, error } = await admin
+    .from(listingTableByType[type])
+    .select(PUBLIC_LISTING_SELECT)
+    .eq("code", code.trim().toUpperCase())
+    .eq("is_archived", false)
+    .eq("status", "active")
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data) throw new Error("Listing not found");
+
+  const row = (data as unknown) as ListingRow;
+  const images = await fetchListingImages(type, [row]);
+  return toPublicListing(type, row, images.get(row.id) || []);
+}
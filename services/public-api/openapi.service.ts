@@ -0,0 +1,64 @@
+import { zodToJsonSchema, zodToQueryParameters } from "@/lib/openapi";
+import { apiErrorSchema, listingDetailSchema, listingPageSchema, listListingsQuerySchema, publicListingSchema } from "@/services/public-api/listings.schemas";
+
+const errorResponse = (description: string) => ({ description, content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } } });
+
+const authErrors = {
+  "401": errorResponse("Missing, unknown, revoked or expired API key."),
+  "403": errorResponse("The API key lacks the `records:read` scope."),
+  "429": {
+    ...errorResponse("Per-key rate limit exceeded."),
+    headers: { "Retry-After": { description: "Seconds until the current window resets.", schema: { type: "integer" } } }
+  }
+};
+
+/** OpenAPI 3.1 document for `/api/v1`, generated from the same zod schemas the routes validate with. */
+export function buildPublicApiDocument(serverUrl: string) {
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "CRM Listings API",
+      version: "1.0.0",
+      description: "Read-only access to active sale and rent listings. Owner details, notes and archived listings are never returned."
+    },
+    servers: [{ url: `${serverUrl}/api/v1` }],
+    security: [{ ApiKey: [] }],
+    paths: {
+      "/listings": {
+        get: {
+          operationId: "listListings",
+          summary: "List active listings, newest first",
+          parameters: zodToQueryParameters(listListingsQuerySchema),
+          responses: {
+            "200": { description: "One page of listings.", content: { "application/json": { schema: { $ref: "#/components/schemas/ListingPage" } } } },
+            "400": errorResponse("Invalid query parameters or cursor."),
+            ...authErrors
+          }
+        }
+      },
+      "/listings/{code}": {
+        get: {
+          operationId: "getListing",
+          summary: "Get one active listing by its code",
+          parameters: [{ name: "code", in: "path", required: true, description: "Listing code, e.g. SALE-2026-014.", schema: { type: "string" } }],
+          responses: {
+            "200": { description: "The listing.", content: { "application/json": { schema: { $ref: "#/components/schemas/ListingDetail" } } } },
+            "404": errorResponse("No active listing with this code."),
+            ...authErrors
+          }
+        }
+      }
+    },
+    components: {
+      securitySchemes: {
+        ApiKey: { type: "apiKey", in: "header", name: "X-Api-Key", description: "A key with the `records:read` scope. `Authorization: Bearer <key>` also works." }
+      },
+      schemas: {
+        Listing: zodToJsonSchema(publicListingSchema),
+        ListingPage: zodToJsonSchema(listingPageSchema),
+        ListingDetail: zodToJsonSchema(listingDetailSchema),
+        Error: zodToJsonSchema(apiErrorSchema)
+      }
+    }
+  };
+}
@@ -1,5 +1,6 @@
 import "server-only";
 import { createSupabaseAdminClient } from "@/lib/supabase/admin";
+import { emitWebhookEvents } from "@/services/webhooks/webhook-events.service";
 
 type GridType = "sale" | "rent" | "buyer" | "client";
 type RecordTable = "properties_sale" | "properties_rent" | "buyers" | "clients";
@@ -119,8 +120,21 @@ export async function setRecordsArchiveState(input: {
 
   if (updateError) throw new Error(updateError.message);
 
+  const updatedRecordIds = (updatedRows || []).map((row) => String(row.id || "")).filter(Boolean);
+  // Unarchiving is reported as an ordinary update of `is_archived`.
+  await emitWebhookEvents(
+    input.archived ? "record.archived" : "record.updated",
+    updatedRecordIds.map((recordId) => ({
+      record_type: table,
+      record_id: recordId,
+      is_archived: input.archived,
+      ...(input.archived ? {} : { changed_fields: ["is_archived"] }),
+      actor_user_id: input.actorUserId
+    }))
+  );
+
   return {
-    updatedRecordIds: (updatedRows || []).map((row) => String(row.id || "")).filter(Boolean),
+    updatedRecordIds,
     archiveState: nextState
   };
 }
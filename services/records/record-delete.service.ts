@@ -4,6 +4,7 @@ import {
   deleteStorageObjectsForMediaSnapshots,
   fetchMediaDeleteSnapshotsForRecordSet
 } from "@/services/media/media-delete.service";
+import { emitWebhookEvents } from "@/services/webhooks/webhook-events.service";
 
 type GridType = "sale" | "rent" | "buyer" | "client";
 type RecordTable = "properties_sale" | "properties_rent" | "buyers" | "clients";
@@ -142,6 +143,14 @@ export async function deleteRecords(input: { type: GridType; recordIds: string[]
     recordIds: existingRecordIds
   });
 
+  const deletedIds = new Set(transactionResult.deletedRecordIds);
+  await emitWebhookEvents(
+    "record.deleted",
+    existingRecords
+      .filter((record) => deletedIds.has(record.id))
+      .map((record) => ({ record_type: table, record_id: record.id, code: record.code }))
+  );
+
   const storageCleanup = await deleteStorageObjectsForMediaSnapshots({
     snapshots: mediaSnapshots,
     reason: "record_delete_after_db_commit",
@@ -0,0 +1,106 @@
+import { randomUUID } from "node:crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createSupabaseAdminClient } from "@/lib/supabase/admin";
+import { buildWebhookBody, nextWebhookRetryAt, type WebhookEventName } from "@/lib/webhooks";
+import { sendWebhook } from "@/services/webhooks/webhook-sender.service";
+
+type ClaimedDelivery = { id: string; subscription_id: string; event: string; payload: Record<string, unknown>; attempts: number };
+type SubscriptionTarget = { id: string; url: string; secret: string; is_active: boolean };
+
+// Claimed rows are leased for five minutes; 20 sends at the 10s timeout always finish inside the lease.
+const DISPATCH_BATCH_SIZE = 20;
+
+/**
+ * Queues one delivery per active subscriber for each item (e.g. one per archived record). Never throws:
+ * callers emit after their own write has succeeded and must not fail because of a subscriber.
+ */
+export async function emitWebhookEvents(event: WebhookEventName, items: Array<Record<string, unknown>>) {
+  if (items.length === 0) return 0;
+  try {
+    const admin = createSupabaseAdminClient();
+    const { data: subscriptions, error } = await admin.from("webhook_subscriptions").select("id").eq("is_active", true).contains("events", [event]);
+    if (error) throw new Error(error.message);
+    if (!subscriptions?.length) return 0;
+
+    const occurredAt = new Date().toISOString();
+    const rows = items.flatMap((data) => {
+      const payload = buildWebhookBody({ eventId: randomUUID(), event, occurredAt, data });
+      return subscriptions.map((subscription) => ({
+        subscription_id: subscription.id,
+        event_id: payload.id,
+        event,
+        payload,
+        status: "pending",
+        next_attempt_at: occurredAt
+      }));
+    });
+    const { error: insertError } = await admin.from("webhook_deliveries").insert(rows);
+    if (insertError) throw new Error(insertError.message);
+    return rows.length;
+  } catch (error) {
+    console.error("[webhooks] failed to queue event", { event, count: items.length, error: error instanceof Error ? error.message : String(error) });
+    return 0;
+  }
+}
+
+export async function emitWebhookEvent(event: WebhookEventName, data: Record<string, unknown>) {
+  return emitWebhookEvents(event, [data]);
+}
+
+async function recordAttempt(admin: SupabaseClient, delivery: ClaimedDelivery, target: SubscriptionTarget | undefined, now: Date, fetchImpl: typeof fetch) {
+  const attempts = delivery.attempts + 1;
+  const result =
+    target && target.is_active
+      ? await sendWebhook({ url: target.url, secret: target.secret, deliveryId: delivery.id, event: delivery.event, body: JSON.stringify(delivery.payload) }, fetchImpl, now)
+      : { ok: false, responseStatus: null, responseBody: null, error: target ? "Subscription is paused" : "Subscription was deleted", durationMs: 0 };
+
+  const { error: attemptError } = await admin.from("webhook_delivery_attempts").insert({
+    delivery_id: delivery.id,
+    attempt: attempts,
+    response_status: result.responseStatus,
+    response_body: result.responseBody,
+    error: result.error,
+    duration_ms: result.durationMs
+  });
+  if (attemptError) throw new Error(attemptError.message);
+
+  let update: Record<string, unknown> & { status: "sent" | "failed" | "dead" };
+  if (result.ok) {
+    update = { status: "sent", attempts, last_response_status: result.responseStatus, last_error: null, next_attempt_at: null, delivered_at: now.toISOString() };
+  } else {
+    // Paused subscriptions dead-letter right away; an admin can requeue once the endpoint is back.
+    const nextAttempt = target?.is_active ? nextWebhookRetryAt(attempts, now) : null;
+    update = {
+      status: nextAttempt ? "failed" : "dead",
+      attempts,
+      last_response_status: result.responseStatus,
+      last_error: result.error,
+      next_attempt_at: nextAttempt?.toISOString() ?? null
+    };
+  }
+  const { error } = await admin.from("webhook_deliveries").update(update).eq("id", delivery.id);
+  if (error) throw new Error(error.message);
+  return update.status;
+}
+
+/** Sends queued and due deliveries; called by a scheduler every minute. */
+export async function dispatchWebhookDeliveries(now = new Date(), fetchImpl: typeof fetch = fetch) {
+  const admin = createSupabaseAdminClient();
+  const { data, error } = await admin.rpc("claim_webhook_deliveries", { p_limit: DISPATCH_BATCH_SIZE });
+  if (error) throw new Error(error.message);
+  const deliveries = (data || []) as ClaimedDelivery[];
+  if (deliveries.length === 0) return { claimed: 0, sent: 0, failed: 0, dead: 0 };
+
+  const subscriptionIds = Array.from(new Set(deliveries.map((delivery) => delivery.subscription_id)));
+  const { data: subscriptions, error: subscriptionError } = await admin.from("webhook_subscriptions").select("id,url,secret,is_active").in("id", subscriptionIds);
+  if (subscriptionError) throw new Error(subscriptionError.message);
+  const targets = new Map(((subscriptions || []) as SubscriptionTarget[]).map((subscription) => [subscription.id, subscription]));
+
+  const counts = { claimed: deliveries.length, sent: 0, failed: 0, dead: 0 };
+  // Sequential on purpose: one slow endpoint should not fan out into dozens of open sockets.
+  for (const delivery of deliveries) {
+    const status = await recordAttempt(admin, delivery, targets.get(delivery.subscription_id), now, fetchImpl);
+    counts[status] += 1;
+  }
+  return counts;
+}
@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import { createHmac } from "node:crypto";
+import { createServer, type IncomingHttpHeaders } from "node:http";
+import type { AddressInfo } from "node:net";
+import test from "node:test";
+import { sendWebhook, signWebhookBody } from "@/services/webhooks/webhook-sender.service";
+
+test("signatures cover the timestamp and the raw body", () => {
+  const header = signWebhookBody("whsec_test", '{"a":1}', 1761818400);
+  const expected = createHmac("sha256", "whsec_test").update('1761818400.{"a":1}').digest("hex");
+  assert.equal(header, `t=1761818400,v1=${expected}`);
+  assert.notEqual(signWebhookBody("whsec_test", '{"a":2}', 1761818400), header);
+});
+
+test("deliveries are signed POSTs and non-2xx responses are reported as failures", async () => {
+  const received: Array<{ headers: IncomingHttpHeaders; body: string }> = [];
+  const server = createServer((request, response) => {
+    let body = "";
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => {
+      received.push({ headers: request.headers, body });
+      if (request.url === "/broken") response.writeHead(503).end("maintenance");
+      else response.writeHead(204).end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  const now = new Date("2026-10-30T10:00:00.000Z");
+  const body = JSON.stringify({ id: "evt-1", event: "record.created", occurred_at: now.toISOString(), data: { record_id: "r1" } });
+
+  try {
+    const ok = await sendWebhook({ url: `http://127.0.0.1:${port}/hook`, secret: "whsec_test", deliveryId: "d1", event: "record.created", body }, fetch, now);
+    assert.equal(ok.ok, true);
+    assert.equal(ok.responseStatus, 204);
+    assert.equal(received[0].body, body);
+    assert.equal(received[0].headers["x-webhook-event"], "record.created");
+    assert.equal(received[0].headers["x-webhook-delivery"], "d1");
+    assert.equal(received[0].headers["x-webhook-signature"], signWebhookBody("whsec_test", body, Math.floor(now.getTime() / 1000)));
+
+    const failed = await sendWebhook({ url: `http://127.0.0.1:${port}/broken`, secret: "whsec_test", deliveryId: "d2", event: "record.created", body }, fetch, now);
+    assert.deepEqual({ ok: failed.ok, status: failed.responseStatus, body: failed.responseBody, error: failed.error }, {
+      ok: false,
+      status: 503,
+      body: "maintenance",
+      error: "Endpoint responded with 503"
+    });
+  } finally {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  const unreachable = await sendWebhook({ url: `http://127.0.0.1:${port}/hook`, secret: "whsec_test", deliveryId: "d3", event: "record.created", body }, fetch, now);
+  assert.equal(unreachable.ok, false);
+  assert.equal(unreachable.responseStatus, null);
+  assert.ok(unreachable.error);
+});
@@ -0,0 +1,66 @@
+import { createHmac } from "node:crypto";
+
+export type WebhookSendResult = {
+  ok: boolean;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number;
+};
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+const RESPONSE_BODY_LIMIT = 1000;
+
+/**
+ * `X-Webhook-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>">`. Signing the timestamp with the
+ * body lets receivers reject replays older than a few minutes.
+ */
+export function signWebhookBody(secret: string, body: string, timestamp: number) {
+  const signature = createHmac("sha256", secret).update(`${timestamp}.${body}`, "utf8").digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/** POSTs one signed delivery; any 2xx counts as delivered. Never throws. */
+export async function sendWebhook(
+  input: { url: string; secret: string; deliveryId: string; event: string; body: string },
+  fetchImpl: typeof fetch = fetch,
+  now = new Date()
+): Promise<WebhookSendResult> {
+  const startedAt = Date.now();
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS);
+  try {
+    const response = await fetchImpl(input.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "crm-webhooks/1",
+        "X-Webhook-Event": input.event,
+        "X-Webhook-Delivery": input.deliveryId,
+        "X-Webhook-Signature": signWebhookBody(input.secret, input.body, Math.floor(now.getTime() / 1000))
+      },
+      body: input.body,
+      signal: controller.signal,
+      redirect: "manual"
+    });
+    const text = await response.text().catch(() => "");
+    return {
+      ok: response.ok,
+      responseStatus: response.status,
+      responseBody: text.slice(0, RESPONSE_BODY_LIMIT) || null,
+      error: response.ok ? null : `Endpoint responded with ${response.status}`,
+      durationMs: Date.now() - startedAt
+    };
+  } catch (error) {
+    const aborted = error instanceof Error && error.name === "AbortError";
+    return {
+      ok: false,
+      responseStatus: null,
+      responseBody: null,
+      error: aborted ? `Timed out after ${WEBHOOK_TIMEOUT_MS / 1000}s` : error instanceof Error ? error.message : "Webhook request failed",
+      durationMs: Date.now() - startedAt
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
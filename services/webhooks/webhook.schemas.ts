@@ -0,0 +1,20 @@
+import { z } from "zod";
+import { WEBHOOK_EVENTS } from "@/lib/webhooks";
+
+const webhookFields = {
+  name: z.string().trim().min(1).max(80),
+  url: z
+    .string()
+    .trim()
+    .url()
+    .max(2000)
+    .refine((value) => /^https?:\/\//i.test(value), "URL must use http or https"),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1).max(WEBHOOK_EVENTS.length),
+  is_active: z.boolean().optional()
+};
+
+export const createWebhookSchema = z.object(webhookFields);
+
+export const updateWebhookSchema = z.object(webhookFields).partial();
+
+export const webhookDeliveryStatusSchema = z.enum(["pending", "sent", "failed", "dead"]);
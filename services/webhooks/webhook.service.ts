@@ -0,0 +1,127 @@
+import { randomBytes } from "node:crypto";
+import { isWebhookEvent, type WebhookDelivery, type WebhookDeliveryAttempt, type WebhookDeliveryStatus, type WebhookSubscription } from "@/lib/webhooks";
+import { createSupabaseClient } from "@/services/supabase/client";
+
+export type WebhookInput = Partial<Pick<WebhookSubscription, "name" | "url" | "events" | "is_active">>;
+
+const SUBSCRIPTION_SELECT = "id,name,url,events,is_active,created_by,created_at,updated_at";
+const DELIVERY_SELECT = "id,subscription_id,event_id,event,payload,status,attempts,next_attempt_at,last_response_status,last_error,delivered_at,created_at";
+const ATTEMPT_SELECT = "id,delivery_id,attempt,response_status,response_body,error,duration_ms,created_at";
+
+function generateSecret() {
+  return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+function normalizeSubscription(row: Record<string, unknown>): WebhookSubscription {
+  return {
+    id: String(row.id),
+    name: String(row.name || ""),
+    url: String(row.url || ""),
+    events: (Array.isArray(row.events) ? row.events : []).filter(isWebhookEvent),
+    is_active: Boolean(row.is_active),
+    created_by: row.created_by ? String(row.created_by) : null,
+    created_at: String(row.created_at),
+    updated_at: String(row.updated_at)
+  };
+}
+
+export async function fetchWebhooks() {
+  const supabase = createSupabaseClient();
+  const { data, error } = await supabase.from("webhook_subscriptions").select(SUBSCRIPTION_SELECT).order("name", { ascending: true });
+  if (error) throw new Error(error.message);
+  return ((data || []) as Array<Record<string, unknown>>).map(normalizeSubscription);
+}
+
+export async function fetchWebhook(id: string) {
+  const supabase = createSupabaseClient();
+  const { data, error } = await supabase.from("webhook_subscriptions").select(SUBSCRIPTION_SELECT).eq("id", id).maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data) throw new Error("Webhook not found");
+  return normalizeSubscription(data as Record<string, unknown>);
+}
+
+/** The signing secret is only returned here and on rotation; list and detail reads never include it. */
+export async function createWebhook(input: WebhookInput & Pick<WebhookSubscription, "name" | "url" | "events">, actorUserId: string | null) {
+  const secret = generateSecret();
+  const supabase = createSupabaseClient();
+  const { data, error } = await supabase
+    .from("webhook_subscriptions")
+    .insert({ ...input, name: input.name.trim(), url: input.url.trim(), events: Array.from(new Set(input.events)), secret, created_by: actorUserId })
+    .select(SUBSCRIPTION_SELECT)
+    .single();
+  if (error || !data) throw new Error(error?.message || "Failed to create webhook");
+  return { webhook: normalizeSubscription(data as Record<string, unknown>), secret };
+}
+
+export async function updateWebhook(id: string, input: WebhookInput) {
+  const supabase = createSupabaseClient();
+  const { data, error } = await supabase
+    .from("webhook_subscriptions")
+    .update({
+      ...input,
+      ...(input.name !== undefined ? { name: input.name.trim() } : {}),
+      ...(input.url !== undefined ? { url: input.url.trim() } : {}),
+      ...(input.events !== undefined ? { events: Array.from(new Set(input.events)) } : {})
+    })
+    .eq("id", id)
+    .select(SUBSCRIPTION_SELECT)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data) throw new Error("Webhook not found");
+  return normalizeSubscription(data as Record<string, unknown>);
+}
+
+export async function rotateWebhookSecret(id: string) {
+  const secret = generateSecret();
+  const supabase = createSupabaseClient();
+  const { data, error } = await supabase.from("webhook_subscriptions").update({ secret }).eq("id", id).select("id").maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data) throw new Error("Webhook not found");
+  return secret;
+}
+
+export async function deleteWebhook(id: string) {
+  const supabase = createSupabaseClient();
+  const { error } = await supabase.from("webhook_subscriptions").delete().eq("id", id);
+  if (error) throw new Error(error.message);
+}
+
+/** Newest deliveries, optionally for one subscription and/or one status (`dead` is the dead-letter view). */
+export async function fetchWebhookDeliveries(filter: { subscriptionId?: string; status?: WebhookDeliveryStatus; limit?: number } = {}) {
+  const supabase = createSupabaseClient();
+  let query = supabase
+    .from("webhook_deliveries")
+    .select(DELIVERY_SELECT)
+    .order("created_at", { ascending: false })
+    .limit(filter.limit ?? 50);
+  if (filter.subscriptionId) query = query.eq("subscription_id", filter.subscriptionId);
+  if (filter.status) query = query.eq("status", filter.status);
+  const { data, error } = await query;
+  if (error) throw new Error(error.message);
+  return (data || []) as WebhookDelivery[];
+}
+
+export async function fetchWebhookDeliveryAttempts(deliveryId: string) {
+  const supabase = createSupabaseClient();
+  const { data, error } = await supabase.from("webhook_delivery_attempts").select(ATTEMPT_SELECT).eq("delivery_id", deliveryId).order("attempt", { ascending: true });
+  if (error) throw new Error(error.message);
+  return (data || []) as WebhookDeliveryAttempt[];
+}
+
+/**
+ * Puts a failed or dead delivery back on the queue for the next dispatcher run. The attempt count is kept,
+ * so a dead-lettered delivery gets one more try and returns to the dead-letter view if it fails again.
+ */
+export async function requeueWebhookDelivery(deliveryId: string) {
+  const supabase = createSupabaseClient();
+  const { data, error } = await supabase
+    .from("webhook_deliveries")
+    .update({ status: "pending", next_attempt_at: new Date().toISOString() })
+    .eq("id", deliveryId)
+    .in("status", ["failed", "dead"])
+    .select(DELIVERY_SELECT)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data) throw new Error("Delivery not found or not retryable");
+  return data as WebhookDelivery;
+}